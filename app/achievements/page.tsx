@@ -28,6 +28,7 @@ import {
   readCourseValue,
 } from "@/lib/user-subject-state";
 import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
+import StreakHistory from "@/components/StreakHistory";
 
 type AttemptRow = {
   subject: string | null;
@@ -2211,6 +2212,13 @@ export default function AchievementsPage(): JSX.Element {
         </div>
       </section>
 
+      <section className="mt-8">
+        <StreakHistory
+          allowPurchase
+          className="rounded-2xl border border-white/40 bg-white/70 p-5 shadow-sm ring-1 ring-black/5 backdrop-blur-sm dark:border-slate-800 dark:bg-[#0b1424]/85 dark:ring-0"
+        />
+      </section>
+
       <section className="mt-8">
         <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <div>
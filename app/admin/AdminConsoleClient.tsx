@@ -0,0 +1,505 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Activity, Database, DollarSign, Loader2, Map as MapIcon, RefreshCw, Search, ShieldCheck, Users } from "lucide-react";
+import type { AdminOverview, CostBreakdownRow } from "@/lib/admin-metrics";
+import type { AdminUserSummary } from "@/lib/admin";
+import type { SubscriptionTier } from "@/lib/usage";
+
+const pageShell =
+  "relative mx-auto w-full overflow-hidden rounded-[32px] bg-gradient-to-br from-slate-50/80 via-white/90 to-slate-100/80 text-slate-900 shadow-[0_45px_120px_-60px_rgba(15,23,42,0.4)] dark:from-[#12151f] dark:via-[#1a1d2e] dark:to-[#1f2438] dark:text-white";
+
+const cardBase =
+  "relative overflow-hidden rounded-2xl border border-slate-100/80 bg-gradient-to-br from-white/95 via-white/90 to-slate-50/90 p-6 ring-1 ring-black/5 backdrop-blur-xl shadow-[0_22px_48px_-24px_rgba(15,23,42,0.3)] dark:border-white/10 dark:bg-[radial-gradient(circle_at_top_left,rgba(26,30,46,0.92),rgba(32,38,54,0.88))] dark:ring-white/5";
+
+const WINDOWS = [7, 30, 90] as const;
+const TIERS: SubscriptionTier[] = ["free", "plus", "premium"];
+
+function formatUsd(value: number) {
+  return value >= 100 ? `$${value.toFixed(0)}` : `$${value.toFixed(value >= 1 ? 2 : 4)}`;
+}
+
+function formatPercent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatCount(value: number) {
+  return value.toLocaleString();
+}
+
+function StatCard({
+  label,
+  value,
+  hint,
+  icon: Icon,
+}: {
+  label: string;
+  value: string;
+  hint: string;
+  icon: typeof Activity;
+}) {
+  return (
+    <div className={cardBase}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xs uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{label}</h3>
+          <p className="mt-2 text-3xl font-semibold">{value}</p>
+        </div>
+        <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-lernex-blue/10 text-lernex-blue dark:bg-lernex-blue/25">
+          <Icon className="h-6 w-6" />
+        </div>
+      </div>
+      <p className="mt-4 text-xs text-neutral-500 dark:text-neutral-400">{hint}</p>
+    </div>
+  );
+}
+
+function formatMs(value: number | null) {
+  if (value === null) return "–";
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+}
+
+function TelemetryTable({ title, headers, rows }: { title: string; headers: string[]; rows: string[][] }) {
+  return (
+    <div className={cardBase}>
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="mt-3 text-sm text-neutral-500 dark:text-neutral-400">No events in this window.</p>
+      ) : (
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+              {headers.map((header, index) => (
+                <th key={header} className={`pb-2 font-medium ${index > 0 ? "text-right" : ""}`}>
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200/70 dark:divide-white/10">
+            {rows.map(([first, ...rest]) => (
+              <tr key={first}>
+                <td className="py-2 pr-3 font-medium">{first}</td>
+                {rest.map((cell, index) => (
+                  <td key={index} className="py-2 text-right">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function CostTable({ title, rows, keyLabel }: { title: string; rows: CostBreakdownRow[]; keyLabel: string }) {
+  return (
+    <div className={cardBase}>
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="mt-3 text-sm text-neutral-500 dark:text-neutral-400">No billable usage in this window.</p>
+      ) : (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full min-w-[28rem] text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+                <th className="pb-2 font-medium">{keyLabel}</th>
+                <th className="pb-2 text-right font-medium">Requests</th>
+                <th className="pb-2 text-right font-medium">Tokens in / out</th>
+                <th className="pb-2 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200/70 dark:divide-white/10">
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <td className="py-2 pr-3 font-medium">{row.key}</td>
+                  <td className="py-2 text-right">{formatCount(row.requests)}</td>
+                  <td className="py-2 text-right text-neutral-500 dark:text-neutral-400">
+                    {formatCount(row.inputTokens)} / {formatCount(row.outputTokens)}
+                  </td>
+                  <td className="py-2 text-right font-semibold">{formatUsd(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UserLookup() {
+  const [query, setQuery] = useState("");
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, { tier: SubscriptionTier; reason: string }>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) return;
+    setSearching(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/admin/users?q=${encodeURIComponent(query.trim())}`, { cache: "no-store" });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload?.error || "Search failed");
+      setUsers(payload.users ?? []);
+      setDrafts({});
+    } catch (error) {
+      console.error("Admin user search failed:", error);
+      setMessage(error instanceof Error ? error.message : "Search failed");
+    } finally {
+      setSearching(false);
+      setSearched(true);
+    }
+  };
+
+  const saveTier = async (user: AdminUserSummary) => {
+    const draft = drafts[user.id];
+    if (!draft || draft.tier === user.tier) return;
+    setSavingId(user.id);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tier: draft.tier, reason: draft.reason }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload?.error || "Update failed");
+      setUsers((prev) => prev.map((entry) => (entry.id === user.id ? payload.user : entry)));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[user.id];
+        return next;
+      });
+      setMessage(`${user.username ?? user.id} is now on ${draft.tier}`);
+    } catch (error) {
+      console.error("Admin tier override failed:", error);
+      setMessage(error instanceof Error ? error.message : "Update failed");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className={cardBase}>
+      <h2 className="text-lg font-semibold">User lookup</h2>
+      <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+        Search by username, name or user id. Tier overrides are logged; the next Stripe event for a paying learner
+        replaces them.
+      </p>
+      <form onSubmit={search} className="mt-4 flex gap-2">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="username, name or id"
+          className="flex-1 rounded-xl border border-slate-200 bg-white/80 px-3 py-2 text-sm dark:border-white/10 dark:bg-slate-900/60"
+        />
+        <button
+          type="submit"
+          disabled={searching}
+          className="inline-flex items-center gap-2 rounded-xl bg-lernex-blue px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:shadow disabled:opacity-60"
+        >
+          {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          Search
+        </button>
+      </form>
+      {message && <p className="mt-3 text-sm text-neutral-600 dark:text-neutral-300">{message}</p>}
+
+      {searched && users.length === 0 && !searching ? (
+        <p className="mt-4 text-sm text-neutral-500 dark:text-neutral-400">No matching users.</p>
+      ) : (
+        <ul className="mt-4 space-y-3">
+          {users.map((user) => {
+            const draft = drafts[user.id] ?? { tier: user.tier, reason: "" };
+            return (
+              <li key={user.id} className="rounded-xl border border-slate-200/70 p-4 dark:border-white/10">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">
+                      {user.username ?? "(no username)"}
+                      {user.role === "admin" && (
+                        <span className="ml-2 rounded-full bg-lernex-blue/10 px-2 py-0.5 text-[10px] font-semibold uppercase text-lernex-blue">
+                          Admin
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                      {user.fullName ? `${user.fullName} · ` : ""}
+                      {user.id}
+                    </p>
+                  </div>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {user.points} pts · {user.streak} day streak · {formatUsd(user.totalCost)} lifetime ·{" "}
+                    {formatUsd(user.periodCost)} this period
+                  </p>
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <select
+                    value={draft.tier}
+                    onChange={(event) =>
+                      setDrafts((prev) => ({
+                        ...prev,
+                        [user.id]: { ...draft, tier: event.target.value as SubscriptionTier },
+                      }))
+                    }
+                    aria-label={`Tier for ${user.username ?? user.id}`}
+                    className="rounded-xl border border-slate-200 bg-transparent px-3 py-1.5 text-sm capitalize dark:border-white/10"
+                  >
+                    {TIERS.map((tier) => (
+                      <option key={tier} value={tier}>
+                        {tier}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={draft.reason}
+                    onChange={(event) =>
+                      setDrafts((prev) => ({ ...prev, [user.id]: { ...draft, reason: event.target.value } }))
+                    }
+                    placeholder="Reason (optional)"
+                    className="min-w-[12rem] flex-1 rounded-xl border border-slate-200 bg-transparent px-3 py-1.5 text-sm dark:border-white/10"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => saveTier(user)}
+                    disabled={draft.tier === user.tier || savingId === user.id}
+                    className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-1.5 text-sm font-medium transition hover:border-lernex-blue/50 disabled:opacity-50 dark:border-white/10"
+                  >
+                    {savingId === user.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Set tier
+                  </button>
+                  {user.subscriptionStatus && (
+                    <span className="text-xs text-neutral-500 dark:text-neutral-400">Stripe: {user.subscriptionStatus}</span>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function AdminConsoleClient() {
+  const [days, setDays] = useState<(typeof WINDOWS)[number]>(7);
+  const [overview, setOverview] = useState<AdminOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/metrics?days=${days}`, { cache: "no-store" });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload?.error || "Failed to load metrics");
+      setOverview(payload as AdminOverview);
+    } catch (err) {
+      console.error("Failed to load admin metrics:", err);
+      setError(err instanceof Error ? err.message : "Failed to load metrics");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const limitHits = overview ? TIERS.reduce((sum, tier) => sum + overview.usageLimits.atLimit[tier], 0) : 0;
+
+  return (
+    <main className={`${pageShell} max-w-6xl px-4 pb-16 pt-10`}>
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <div className="flex items-center gap-2 text-xs uppercase tracking-widest text-neutral-500 dark:text-neutral-400">
+            <ShieldCheck className="h-4 w-4" />
+            Admin console
+          </div>
+          <h1 className="mt-2 text-3xl font-semibold leading-tight">Operations overview</h1>
+          <p className="mt-2 max-w-2xl text-sm text-neutral-600 dark:text-neutral-300">
+            Generation spend, learning-path health, cache efficiency and learner activity.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 self-start md:self-auto">
+          <div className="rounded-full border border-slate-200/70 bg-white/80 px-1.5 py-1 backdrop-blur-md dark:border-slate-800/70 dark:bg-slate-900/60">
+            {WINDOWS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDays(option)}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                  days === option
+                    ? "bg-lernex-blue text-white"
+                    : "text-slate-500 hover:bg-slate-100/80 dark:text-slate-300 dark:hover:bg-slate-800/70"
+                }`}
+              >
+                {option}d
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => load()}
+            className="inline-flex items-center gap-2 rounded-full border border-slate-200/70 bg-white/80 px-3 py-1.5 text-xs font-semibold text-slate-600 transition-colors hover:border-lernex-blue/50 hover:text-lernex-blue dark:border-slate-700/70 dark:bg-slate-900/60 dark:text-slate-200"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      {error && (
+        <div className={`${cardBase} mt-6 border-red-200 bg-red-50/60 text-red-700 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-200`}>
+          {error}
+        </div>
+      )}
+
+      {overview ? (
+        <>
+          <section className="mt-8 grid gap-5 md:grid-cols-2 lg:grid-cols-4">
+            <StatCard
+              label={`Generation cost (${overview.windowDays}d)`}
+              value={formatUsd(overview.costs.totalCost)}
+              hint={`${formatCount(overview.costs.totalRequests)} billable requests`}
+              icon={DollarSign}
+            />
+            <StatCard
+              label="Active learners"
+              value={formatCount(overview.activeUsers.week)}
+              hint={`${formatCount(overview.activeUsers.day)} today · ${formatCount(overview.activeUsers.month)} this month · ${formatCount(overview.activeUsers.newLastWeek)} new this week of ${formatCount(overview.activeUsers.total)}`}
+              icon={Users}
+            />
+            <StatCard
+              label="Level-map fallbacks"
+              value={formatPercent(overview.levelMap.fallbackRate)}
+              hint={`${formatCount(overview.levelMap.totalFallbacks)} of ${formatCount(overview.levelMap.totalRecords)} builds · ${overview.levelMap.avgAttempts.toFixed(2)} attempts avg`}
+              icon={MapIcon}
+            />
+            <StatCard
+              label="Shared cache hit rate"
+              value={formatPercent(overview.cache.hitRate)}
+              hint={`${formatCount(overview.cache.hits)} hits on ${formatCount(overview.cache.documents)} documents · ${formatUsd(overview.cache.savingsUsd)} saved`}
+              icon={Database}
+            />
+          </section>
+
+          <section className="mt-6 grid gap-5 lg:grid-cols-2">
+            <CostTable title="Cost by provider" rows={overview.costs.byProvider} keyLabel="Provider" />
+            <CostTable title="Cost by model" rows={overview.costs.byModel} keyLabel="Model" />
+          </section>
+
+          <section className="mt-6 grid gap-5 lg:grid-cols-2">
+            <div className={cardBase}>
+              <h2 className="text-lg font-semibold">Usage-limit hits</h2>
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                Learners whose budget for the current period is used up.
+              </p>
+              <div className="mt-4 grid grid-cols-3 gap-3">
+                {TIERS.map((tier) => (
+                  <div key={tier} className="rounded-xl border border-slate-200/70 p-3 dark:border-white/10">
+                    <p className="text-xs capitalize text-neutral-500 dark:text-neutral-400">{tier}</p>
+                    <p className="mt-1 text-2xl font-semibold">{formatCount(overview.usageLimits.atLimit[tier])}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-4 text-xs text-neutral-500 dark:text-neutral-400">
+                {formatCount(limitHits)} at their limit now · {formatCount(overview.usageLimits.resets)} limit resets in
+                the last {overview.windowDays} days
+              </p>
+            </div>
+
+            <div className={cardBase}>
+              <h2 className="text-lg font-semibold">Level-map builds by day</h2>
+              {overview.levelMap.byDay.length === 0 ? (
+                <p className="mt-3 text-sm text-neutral-500 dark:text-neutral-400">No level maps built in this window.</p>
+              ) : (
+                <table className="mt-3 w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+                      <th className="pb-2 font-medium">Day</th>
+                      <th className="pb-2 text-right font-medium">Builds</th>
+                      <th className="pb-2 text-right font-medium">Avg attempts</th>
+                      <th className="pb-2 text-right font-medium">Fallback rate</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200/70 dark:divide-white/10">
+                    {overview.levelMap.byDay
+                      .slice(-14)
+                      .reverse()
+                      .map((day) => (
+                        <tr key={day.date}>
+                          <td className="py-2">{day.date}</td>
+                          <td className="py-2 text-right">{formatCount(day.records)}</td>
+                          <td className="py-2 text-right">{day.avgAttempts.toFixed(2)}</td>
+                          <td className="py-2 text-right">{formatPercent(day.fallbackRate)}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </section>
+
+          <section className="mt-6 grid gap-5 lg:grid-cols-2">
+            <TelemetryTable
+              title="Generation latency"
+              headers={["Feature", "Events", "p50", "p95"]}
+              rows={overview.operational.latency.map((row) => [
+                row.label,
+                formatCount(row.events),
+                formatMs(row.p50Ms),
+                formatMs(row.p95Ms),
+              ])}
+            />
+            <TelemetryTable
+              title="Retries and fallbacks"
+              headers={["Feature", "Runs", "Avg attempts", "Fallbacks"]}
+              rows={overview.operational.retries.map((row) => [
+                row.label,
+                formatCount(row.events),
+                row.avgAttempts === null ? "–" : row.avgAttempts.toFixed(2),
+                formatCount(overview.operational.fallbacks.find((f) => f.label === row.label)?.events ?? 0),
+              ])}
+            />
+            <TelemetryTable
+              title="Cache lookups"
+              headers={["Cache", "Lookups", "Hit rate"]}
+              rows={overview.operational.caches.map((row) => [row.label, formatCount(row.lookups), formatPercent(row.hitRate)])}
+            />
+            <TelemetryTable
+              title="OCR tiers and compression"
+              headers={["Tier / model", "Requests", "Pages / avg ratio"]}
+              rows={[
+                ...overview.operational.ocrTiers.map((row) => [row.label, formatCount(row.requests), formatCount(row.pages)]),
+                ...overview.operational.compression.map((row) => [
+                  row.label,
+                  formatCount(row.passes),
+                  row.avgRatio === null ? "–" : row.avgRatio.toFixed(2),
+                ]),
+              ]}
+            />
+          </section>
+        </>
+      ) : (
+        loading && (
+          <div className="mt-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+          </div>
+        )
+      )}
+
+      <section className="mt-6">
+        <UserLookup />
+      </section>
+    </main>
+  );
+}
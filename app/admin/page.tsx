@@ -0,0 +1,20 @@
+import { notFound } from "next/navigation";
+import { AdminError, requireAdmin } from "@/lib/admin";
+import { buildMetadata } from "@/lib/seo";
+import AdminConsoleClient from "./AdminConsoleClient";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = buildMetadata({ title: "Admin", path: "/admin", noindex: true });
+
+export default async function AdminPage() {
+  try {
+    await requireAdmin();
+  } catch (error) {
+    // Non-admins get a plain 404 rather than learning the console exists
+    if (error instanceof AdminError) notFound();
+    throw error;
+  }
+
+  return <AdminConsoleClient />;
+}
@@ -35,6 +35,7 @@ import {
 } from "@/lib/user-subject-state";
 import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import StreakHistory from "@/components/StreakHistory";
 import { calcCost, USAGE_LIMITS } from "@/lib/usage";
 
 type AttemptRow = {
@@ -1260,6 +1261,10 @@ function AnalyticsContent() {
         </div>
       </section>
 
+      <section className="mt-10">
+        <StreakHistory className={cardBase} />
+      </section>
+
       <section className="mt-10">
         <div className={cardBase}>
           <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
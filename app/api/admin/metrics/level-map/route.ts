@@ -1,69 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabase-server";
+import { AdminError, requireAdmin } from "@/lib/admin";
+import { loadLevelMapMetrics, resolveMetricsWindow } from "@/lib/admin-metrics";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-// Public metrics endpoint (dev-only): no auth required
+// Level-map attempt and fallback rates; admins only (see lib/admin.ts)
 export async function GET(req: NextRequest) {
-  const sb = await supabaseServer();
-
-  const url = new URL(req.url);
-  const daysParam = url.searchParams.get("days");
-  const sinceParam = url.searchParams.get("since");
-  const days = Math.max(1, Math.min(90, Number(daysParam ?? "7")));
-  const since = sinceParam ? new Date(sinceParam) : new Date(Date.now() - days * 24 * 3600_000);
-  const sinceIso = since.toISOString();
-
-  const metricModels = ["metric/level-map-attempts", "metric/level_map_attempts", "metric/level-map/attempts"];
-  type Row = { model: string; input_tokens: number | null; output_tokens: number | null; created_at: string };
-  const { data, error } = await sb
-    .from("usage_logs")
-    .select("model, input_tokens, output_tokens, created_at")
-    .in("model", metricModels)
-    .gte("created_at", sinceIso)
-    .order("created_at", { ascending: true });
-  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-
-  const rows = (data as Row[] | null ?? []).map((r: Row) => ({
-    model: r.model,
-    attempts: (r.input_tokens ?? 0) | 0,
-    fallbackUsed: (r.output_tokens ?? 0) | 0,
-    created_at: r.created_at,
-  }));
-
-  const totalRecords = rows.length;
-  const totalAttempts = rows.reduce((s, r) => s + r.attempts, 0);
-  const totalFallbacks = rows.reduce((s, r) => s + (r.fallbackUsed > 0 ? 1 : 0), 0);
-  const avgAttempts = totalRecords ? totalAttempts / totalRecords : 0;
-  const fallbackRate = totalRecords ? totalFallbacks / totalRecords : 0;
-
-  const byDayMap = new Map<string, { records: number; attempts: number; fallbacks: number }>();
-  for (const r of rows) {
-    const day = r.created_at?.slice(0, 10) ?? "unknown";
-    const cur = byDayMap.get(day) ?? { records: 0, attempts: 0, fallbacks: 0 };
-    cur.records += 1;
-    cur.attempts += r.attempts;
-    cur.fallbacks += r.fallbackUsed > 0 ? 1 : 0;
-    byDayMap.set(day, cur);
+  try {
+    const admin = await requireAdmin();
+
+    const url = new URL(req.url);
+    const daysParam = url.searchParams.get("days");
+    const sinceParam = url.searchParams.get("since");
+    const range = resolveMetricsWindow(daysParam);
+    const sinceDate = sinceParam ? new Date(sinceParam) : null;
+    const since = sinceDate && !Number.isNaN(sinceDate.getTime()) ? sinceDate : range.since;
+
+    const metrics = await loadLevelMapMetrics(admin.service, since);
+    return NextResponse.json({
+      since: since.toISOString(),
+      windowDays: daysParam ? range.days : undefined,
+      ...metrics,
+    });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("/api/admin/metrics/level-map GET error", error);
+    return NextResponse.json({ error: "Unable to load level-map metrics" }, { status: 500 });
   }
-  const byDay = Array.from(byDayMap.entries()).map(([date, v]) => ({
-    date,
-    records: v.records,
-    attempts: v.attempts,
-    fallbacks: v.fallbacks,
-    avgAttempts: v.records ? v.attempts / v.records : 0,
-    fallbackRate: v.records ? v.fallbacks / v.records : 0,
-  }));
-
-  return NextResponse.json({
-    since: sinceIso,
-    windowDays: daysParam ? days : undefined,
-    totalRecords,
-    totalAttempts,
-    avgAttempts,
-    totalFallbacks,
-    fallbackRate,
-    byDay,
-  });
 }
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AdminError, requireAdmin } from "@/lib/admin";
+import { loadAdminOverview, resolveMetricsWindow } from "@/lib/admin-metrics";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    const { days, since } = resolveMetricsWindow(new URL(req.url).searchParams.get("days"));
+    const overview = await loadAdminOverview(admin.service, days, since);
+    return NextResponse.json(overview);
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("/api/admin/metrics GET error", error);
+    return NextResponse.json({ error: "Unable to load admin metrics" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { AdminError, isSubscriptionTier, overrideUserTier, requireAdmin } from "@/lib/admin";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Tier override from the admin console
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const payload = await req.json().catch(() => ({}));
+    if (!isSubscriptionTier(payload?.tier)) {
+      return NextResponse.json({ error: "Invalid tier" }, { status: 400 });
+    }
+    const reason = typeof payload?.reason === "string" && payload.reason.trim() ? payload.reason.trim().slice(0, 500) : null;
+
+    const user = await overrideUserTier(admin, id, payload.tier, reason);
+    return NextResponse.json({ ok: true, user });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("/api/admin/users/[id] PATCH error", error);
+    return NextResponse.json({ error: "Unable to update user" }, { status: 500 });
+  }
+}
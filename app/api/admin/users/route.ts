@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AdminError, requireAdmin, searchUsers } from "@/lib/admin";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    const query = new URL(req.url).searchParams.get("q") ?? "";
+    const users = await searchUsers(admin, query.slice(0, 100));
+    return NextResponse.json({ users });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("/api/admin/users GET error", error);
+    return NextResponse.json({ error: "Unable to search users" }, { status: 500 });
+  }
+}
@@ -2,13 +2,28 @@ import { NextRequest } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 import type { Database } from "@/lib/types_db";
-import { computeStreakAfterActivity } from "@/lib/profile-stats";
+import { resolveStreakActivity, type StreakActivityOutcome } from "@/lib/profile-stats";
+import { recordStreakActivity } from "@/lib/streaks";
 import {
   recordInteractionSignal,
   updateLearningStyleProfile,
   shouldUpdateProfile,
   createInteractionSignalFromAttempt,
 } from "@/lib/learning-style-detection";
+import { recordChallengeProgress } from "@/lib/challenges";
+import { supabaseService } from "@/lib/supabase-service";
+import { recordAttemptActivity } from "@/lib/activity-feed";
+import { isReviewLessonId, recordReviewOutcomes, type ReviewOutcome, type ReviewRef } from "@/lib/review-queue";
+import type { BadgeStats } from "@/lib/badges";
+import { isMcqQuestion } from "@/lib/question-types";
+import {
+  claimGradedAnswers,
+  claimLessonFinish,
+  findReviewLesson,
+  findStoredLesson,
+  gradeStoredLesson,
+  pointsPerCorrectFor,
+} from "@/lib/attempt-verification";
 
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -21,26 +36,24 @@ export async function POST(req: NextRequest) {
       lesson_id,
       subject,
       topic,
-      correct_count,
-      total,
       event,
-      skip_points,
-      correct_increment,
-      points_per_correct,
-      difficulty,
       time_on_task_seconds,
+      title,
+      answers,
+      question_index,
+      answer,
+      review_refs,
     } = (body ?? {}) as {
       lesson_id?: unknown;
       subject?: unknown;
       topic?: unknown;
-      correct_count?: unknown;
-      total?: unknown;
       event?: unknown;
-      skip_points?: unknown;
-      correct_increment?: unknown;
-      points_per_correct?: unknown;
-      difficulty?: unknown;
       time_on_task_seconds?: unknown;
+      title?: unknown;
+      answers?: unknown;
+      question_index?: unknown;
+      answer?: unknown;
+      review_refs?: unknown;
     };
 
     const cookieStore = await cookies();
@@ -74,28 +87,75 @@ export async function POST(req: NextRequest) {
       return new Response(JSON.stringify({ error: "Not authenticated" }), { status: 401 });
     }
 
-    const subjectValue = typeof subject === "string" && subject.trim().length ? subject.trim() : null;
-
     type EventType = "lesson-finish" | "question-correct";
     const rawEvent = typeof event === "string" ? event : null;
     const eventType: EventType = rawEvent === "question-correct" ? "question-correct" : "lesson-finish";
-    const skipPoints = eventType === "lesson-finish" && skip_points === true;
-
-    let correctCountNumber = 0;
 
-    if (eventType === "lesson-finish") {
-      const lessonIdRaw = typeof lesson_id === "string" ? lesson_id.trim() : "";
-      if (!lessonIdRaw || typeof correct_count !== "number" || typeof total !== "number") {
-        return new Response(JSON.stringify({ error: "Invalid payload" }), { status: 400 });
+    // The client only sends what it answered; correctness and points are
+    // computed here from the stored lesson
+    const lessonIdRaw = typeof lesson_id === "string" ? lesson_id.trim() : "";
+    let submittedAnswers: unknown[] | null = null;
+    let gradedIndices: number[] | undefined;
+    if (eventType === "question-correct") {
+      if (typeof question_index === "number" && Number.isInteger(question_index) && question_index >= 0) {
+        submittedAnswers = [];
+        submittedAnswers[question_index] = answer;
+        gradedIndices = [question_index];
       }
-      correctCountNumber = Number(correct_count);
+    } else if (Array.isArray(answers)) {
+      submittedAnswers = answers;
+    }
+    if (!lessonIdRaw || !submittedAnswers) {
+      return new Response(JSON.stringify({ error: "Invalid payload" }), { status: 400 });
+    }
+
+    const reviewRefs = Array.isArray(review_refs)
+      ? (review_refs as unknown[]).filter(
+          (ref): ref is ReviewRef =>
+            !!ref &&
+            typeof (ref as ReviewRef).lessonId === "string" &&
+            typeof (ref as ReviewRef).questionIndex === "number"
+        )
+      : [];
+    // Answer keys, points and the review queue are only writable with the service role
+    const service = supabaseService();
+    const storedLesson = isReviewLessonId(lessonIdRaw)
+      ? await findReviewLesson(service, uid, lessonIdRaw, reviewRefs)
+      : await findStoredLesson(service, lessonIdRaw);
+    if (!storedLesson) {
+      // Nothing can be graded, so nothing is recorded; say so instead of a silent ok
+      console.warn("[api/attempt] lesson not stored server-side; attempt is unverified", { lessonId: lessonIdRaw });
+      return new Response(
+        JSON.stringify({ ok: false, verified: false, error: "This lesson can't be verified, so the attempt wasn't recorded" }),
+        { status: 422 }
+      );
+    }
+
+    const graded = gradeStoredLesson(storedLesson, submittedAnswers, gradedIndices);
+    const claimed = await claimGradedAnswers(supabase, graded);
+    // A finish counts once per lesson, through its own ledger row, and only when
+    // something was graded. Review lesson ids come from the client, so a review
+    // finish also needs a newly claimed answer (those are keyed per due date).
+    const lessonFinished =
+      eventType === "lesson-finish" &&
+      graded.length > 0 &&
+      (storedLesson.source !== "review" || claimed.length > 0) &&
+      (await claimLessonFinish(supabase, lessonIdRaw));
+    // Nothing new: a finished lesson sent again, in pieces or empty, records nothing and earns nothing
+    const isReplay = !lessonFinished && claimed.length === 0;
+
+    const subjectValue =
+      storedLesson.subject ?? (typeof subject === "string" && subject.trim().length ? subject.trim() : null);
+    const correctCountNumber = graded.filter((entry) => entry.correct).length;
+    const totalNumber = storedLesson.questions.length;
+
+    if (lessonFinished) {
       const normalizedLessonId = UUID_PATTERN.test(lessonIdRaw) ? lessonIdRaw : null;
       const lessonSlug = normalizedLessonId ? null : lessonIdRaw;
       if (!normalizedLessonId && lessonSlug) {
         console.info("[api/attempt] non-uuid lesson id; storing without lesson_id", { slug: lessonSlug });
       }
 
-      const totalNumber = Number(total);
       const baseAttempt: Database["public"]["Tables"]["attempts"]["Insert"] = {
         user_id: uid,
         lesson_id: normalizedLessonId,
@@ -126,43 +186,48 @@ export async function POST(req: NextRequest) {
           { status: 500 }
         );
       }
-    } else {
-      correctCountNumber = typeof correct_count === "number" ? Number(correct_count) : 0;
     }
 
-    const perCorrect =
-      typeof points_per_correct === "number" && Number.isFinite(points_per_correct) && points_per_correct > 0
-        ? Number(points_per_correct)
-        : 10;
-
-    const rawUnitsValue =
-      eventType === "question-correct"
-        ? Number(typeof correct_increment === "number" ? correct_increment : 1)
-        : Number(correctCountNumber);
-    const units = Number.isFinite(rawUnitsValue) ? Math.max(0, Math.floor(rawUnitsValue)) : 0;
-    const shouldAwardPoints = !skipPoints && units > 0;
+    // Only first-time correct answers earn points; replays were filtered by the ledger
+    const perCorrect = pointsPerCorrectFor(storedLesson.difficulty);
+    const units = claimed.filter((entry) => entry.correct).length;
+    const shouldAwardPoints = units > 0;
 
     let addPts = 0;
     let updatedProfile: Record<string, unknown> | null = null;
     let newStreak: number | null = null;
+    let pointsBefore: number | null = null;
+    let streakBefore: number | null = null;
+    let streakOutcome: StreakActivityOutcome | null = null;
 
     if (shouldAwardPoints) {
       const now = new Date();
-      const today = now.toISOString().slice(0, 10);
       const nowIso = now.toISOString();
       const { data: prof } = await supabase
         .from("profiles")
-        .select("points, streak, last_study_date")
+        .select("points, streak, last_study_date, streak_freezes, timezone")
         .eq("id", uid)
         .maybeSingle();
-      type ProfileData = { points?: number | null; streak?: number | null; last_study_date?: string | null } | null;
+      type ProfileData = {
+        points?: number | null;
+        streak?: number | null;
+        last_study_date?: string | null;
+        streak_freezes?: number | null;
+        timezone?: string | null;
+      } | null;
       const profileData = prof as ProfileData;
       const currentPoints = profileData?.points ?? 0;
       const last = profileData?.last_study_date ?? null;
       const previousStreak = profileData?.streak ?? 0;
-      const resolvedStreak = computeStreakAfterActivity(previousStreak, last, now);
+      streakOutcome = resolveStreakActivity(previousStreak, last, now, {
+        timeZone: profileData?.timezone,
+        freezes: profileData?.streak_freezes ?? 0,
+      });
+      const resolvedStreak = streakOutcome.streak;
       newStreak = resolvedStreak;
       addPts = units * perCorrect;
+      pointsBefore = currentPoints;
+      streakBefore = previousStreak;
 
       console.log("[api/attempt] Updating profile:", {
         uid: uid.slice(0, 8),
@@ -171,22 +236,22 @@ export async function POST(req: NextRequest) {
         newTotal: currentPoints + addPts,
         previousStreak,
         newStreak: resolvedStreak,
-        difficulty: difficulty ?? "none",
+        frozenDays: streakOutcome.frozenDays,
+        difficulty: storedLesson.difficulty ?? "none",
         perCorrect,
       });
 
-      // TypeScript has issues with the profiles table type, using any to bypass
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data: profile, error: updateError } = await (supabase as any)
+      const { data: profile, error: updateError } = await service
         .from("profiles")
         .update({
-          last_study_date: today,
+          last_study_date: streakOutcome.today,
           streak: resolvedStreak,
+          streak_freezes: streakOutcome.freezes,
           points: currentPoints + addPts,
           updated_at: nowIso,
         })
         .eq("id", uid)
-        .select("points, streak, last_study_date, updated_at")
+        .select("points, streak, last_study_date, streak_freezes, timezone, updated_at")
         .maybeSingle();
       if (updateError) {
         console.error("[api/attempt] profiles update failed", updateError);
@@ -197,10 +262,11 @@ export async function POST(req: NextRequest) {
       }
       console.log("[api/attempt] Profile updated successfully:", profile);
       updatedProfile = profile ?? null;
+      await recordStreakActivity(service, uid, streakOutcome);
     }
 
     const progressSubject = subjectValue ?? (typeof subject === "string" ? subject : null);
-    if (eventType === "lesson-finish" && progressSubject && typeof topic === "string") {
+    if (lessonFinished && progressSubject && typeof topic === "string") {
       const { data: state } = await supabase
         .from("user_subject_state")
         .select("path")
@@ -334,7 +400,7 @@ export async function POST(req: NextRequest) {
     // ========================================================================
     // LEARNING STYLE DETECTION: Record interaction signals and update profile
     // ========================================================================
-    if (eventType === "lesson-finish" && subjectValue && typeof lesson_id === "string") {
+    if (lessonFinished && subjectValue) {
       try {
         // Extract time on task from body if provided
         const timeOnTaskSeconds = typeof time_on_task_seconds === "number"
@@ -344,10 +410,10 @@ export async function POST(req: NextRequest) {
         // Create interaction signal from attempt data
         const signal = createInteractionSignalFromAttempt(
           uid,
-          String(lesson_id),
+          lessonIdRaw,
           subjectValue,
           correctCountNumber,
-          typeof total === "number" ? Number(total) : 0,
+          totalNumber,
           timeOnTaskSeconds || 60, // Default to 60s if not provided
           false // Not skipped if we reached this point
         );
@@ -377,10 +443,134 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // ========================================================================
+    // SPACED REPETITION: Schedule each answered question for review
+    // ========================================================================
+    let reviewsScheduled = 0;
+    if (eventType === "lesson-finish") {
+      try {
+        // Only stored questions are scheduled, never ones the client sent;
+        // replays were already filtered by the ledger
+        const outcomes: ReviewOutcome[] = [];
+        for (const { questionIndex: index, question, correct } of claimed) {
+          // The review queue replays MCQs only
+          if (!isMcqQuestion(question)) continue;
+          const ref = storedLesson.refs?.[index];
+          if (storedLesson.source === "review") {
+            if (ref) outcomes.push({ lessonId: ref.lessonId, questionIndex: ref.questionIndex, correct });
+            continue;
+          }
+          outcomes.push({
+            lessonId: lessonIdRaw,
+            questionIndex: index,
+            correct,
+            subject: subjectValue,
+            topic: storedLesson.topic ?? (typeof topic === "string" ? topic : null),
+            lessonTitle: storedLesson.title ?? (typeof title === "string" ? title : null),
+            question: {
+              prompt: question.prompt,
+              choices: question.choices,
+              correctIndex: question.correctIndex,
+              explanation: question.explanation ?? "",
+            },
+          });
+        }
+        reviewsScheduled = await recordReviewOutcomes(service, uid, outcomes);
+      } catch (err) {
+        // Don't fail the attempt if review scheduling fails
+        console.error("[api/attempt] Review scheduling error:", err);
+      }
+    }
+
+    // ========================================================================
+    // CHALLENGES: Advance daily/weekly quests in the user's timezone
+    // ========================================================================
+    let challengesCompleted: string[] = [];
+    // "lessons" and "perfect" only move on the claimed finish row, so resubmitting can't farm them
+    if (!isReplay) {
+      try {
+        const { data: tzProfile } = await supabase
+          .from("profiles")
+          .select("timezone, streak")
+          .eq("id", uid)
+          .maybeSingle();
+        const tzData = tzProfile as { timezone?: string | null; streak?: number | null } | null;
+        challengesCompleted = await recordChallengeProgress(
+          service,
+          uid,
+          {
+            subject: subjectValue,
+            lessonCompleted: lessonFinished,
+            // Graded against the whole stored lesson; unanswered questions count against it
+            perfect: lessonFinished && totalNumber > 0 && correctCountNumber >= totalNumber,
+            pointsAwarded: addPts,
+            correctCount: units,
+            streak: newStreak ?? tzData?.streak ?? null,
+          },
+          { timeZone: tzData?.timezone ?? null }
+        );
+      } catch (err) {
+        // Don't fail the attempt if challenge tracking fails
+        console.error("[api/attempt] Challenge tracking error:", err);
+      }
+    }
+
+    // ========================================================================
+    // ACTIVITY FEED: Lesson completions, badge unlocks and streak milestones
+    // ========================================================================
+    if (lessonFinished || shouldAwardPoints) {
+      try {
+        const before: BadgeStats = {};
+        const after: BadgeStats = {};
+        if (pointsBefore !== null && newStreak !== null && streakBefore !== null) {
+          before.points = pointsBefore;
+          after.points = pointsBefore + addPts;
+          before.streak = streakBefore;
+          after.streak = newStreak;
+        }
+        if (lessonFinished) {
+          // "lessons" badges count attempts, and this attempt was just inserted
+          const { count: lessonCount } = await supabase
+            .from("attempts")
+            .select("*", { count: "exact", head: true })
+            .eq("user_id", uid);
+          if (typeof lessonCount === "number" && lessonCount > 0) {
+            before.lessons = lessonCount - 1;
+            after.lessons = lessonCount;
+          }
+        }
+        await recordAttemptActivity(service, uid, {
+          lesson:
+            lessonFinished && storedLesson.source !== "review"
+              ? {
+                  id: lessonIdRaw,
+                  title: storedLesson.title ?? (typeof title === "string" ? title : null),
+                  subject: subjectValue,
+                  correct: correctCountNumber,
+                  total: totalNumber,
+                }
+              : null,
+          before,
+          after,
+          day: streakOutcome?.today ?? new Date().toISOString().slice(0, 10),
+        });
+      } catch (err) {
+        // Don't fail the attempt if the activity feed is unavailable
+        console.error("[api/attempt] Activity feed error:", err);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         ok: true,
+        verified: true,
+        // Nothing was newly claimed: the lesson was finished and its answers graded before
+        replay: isReplay,
+        correctCount: correctCountNumber,
+        total: totalNumber,
         addPts,
+        reviewsScheduled,
+        challengesCompleted,
         newStreak: (updatedProfile?.streak as number | null) ?? newStreak,
         profile: updatedProfile ?? null,
       }),
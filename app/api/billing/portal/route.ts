@@ -0,0 +1,41 @@
+// app/api/billing/portal/route.ts
+// Open a Stripe customer portal session (payment methods, tax details, full invoice history)
+
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getStripeClient } from "@/lib/stripe";
+import { getBillingAccount } from "@/lib/billing-accounts";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const account = await getBillingAccount(user.id).catch((err) => {
+    console.error("[billing] billing account lookup error:", err);
+    return null;
+  });
+  const customerId = account?.stripe_customer_id ?? null;
+  if (!customerId) {
+    return NextResponse.json({ error: "No billing account yet. Choose a plan on /pricing first." }, { status: 404 });
+  }
+
+  const origin = new URL(req.url).origin;
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? origin;
+
+  try {
+    const session = await getStripeClient().billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${baseUrl}/settings#billing`,
+    });
+    return NextResponse.json({ url: session.url });
+  } catch (err) {
+    console.error("[billing] portal session error:", err);
+    return NextResponse.json({ error: "Unable to open the billing portal right now" }, { status: 502 });
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/billing/route.ts
+// Current plan, renewal date, pending changes and recent invoices for the settings billing section
+
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getStripeClient } from "@/lib/stripe";
+import { getBillingSummary } from "@/lib/billing";
+import { getUserTier } from "@/lib/model-config";
+import { getBillingAccount, type BillingAccount } from "@/lib/billing-accounts";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET() {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data, error } = await sb
+    .from("profiles")
+    .select("subscription_tier")
+    .eq("id", user.id)
+    .maybeSingle();
+  const profile = data as { subscription_tier: string | null } | null;
+  if (error || !profile) {
+    console.error("[billing] profile lookup error:", error);
+    return NextResponse.json({ error: "Failed to load billing" }, { status: 500 });
+  }
+  let account: BillingAccount | null;
+  try {
+    account = await getBillingAccount(user.id);
+  } catch (err) {
+    console.error("[billing] billing account lookup error:", err);
+    return NextResponse.json({ error: "Failed to load billing" }, { status: 500 });
+  }
+
+  try {
+    const summary = await getBillingSummary(getStripeClient(), {
+      tier: getUserTier({ ...profile, ...(account ?? {}) }),
+      customerId: account?.stripe_customer_id ?? null,
+      subscriptionId: account?.stripe_subscription_id ?? null,
+      graceUntil: account?.subscription_grace_until ?? null,
+    });
+    return NextResponse.json(summary);
+  } catch (err) {
+    console.error("[billing] summary error:", err);
+    return NextResponse.json({ error: "Billing is unavailable right now" }, { status: 502 });
+  }
+}
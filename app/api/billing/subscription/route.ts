@@ -0,0 +1,71 @@
+// app/api/billing/subscription/route.ts
+// Cancel, resume or switch the learner's subscription (plan and monthly/annual interval)
+
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getStripeClient, isBillingInterval, isPaidPlan } from "@/lib/stripe";
+import { getBillingAccount } from "@/lib/billing-accounts";
+import {
+  BillingError,
+  cancelSubscription,
+  changeSubscriptionPlan,
+  resumeSubscription,
+  type PlanChangeResult,
+} from "@/lib/billing";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const action = typeof body?.action === "string" ? body.action : "";
+
+  const account = await getBillingAccount(user.id).catch((err) => {
+    console.error("[billing] billing account lookup error:", err);
+    return null;
+  });
+  const subscriptionId = account?.stripe_subscription_id ?? null;
+  if (!subscriptionId) {
+    return NextResponse.json({ error: "You don't have an active subscription." }, { status: 404 });
+  }
+
+  const stripe = getStripeClient();
+  try {
+    let result: PlanChangeResult;
+    switch (action) {
+      case "cancel":
+        await cancelSubscription(stripe, subscriptionId);
+        result = { applied: "period-end" };
+        break;
+      case "resume":
+        await resumeSubscription(stripe, subscriptionId);
+        result = { applied: "now" };
+        break;
+      case "change": {
+        const plan = typeof body?.plan === "string" ? body.plan : "";
+        const interval = typeof body?.interval === "string" ? body.interval : "";
+        if (!isPaidPlan(plan) || !isBillingInterval(interval)) {
+          return NextResponse.json({ error: "Unsupported plan selected." }, { status: 400 });
+        }
+        result = await changeSubscriptionPlan(stripe, subscriptionId, { plan, interval });
+        break;
+      }
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+    // profiles.subscription_tier follows through the Stripe webhook
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof BillingError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("[billing] subscription update error:", { action, err });
+    return NextResponse.json({ error: "Unable to update your plan right now" }, { status: 502 });
+  }
+}
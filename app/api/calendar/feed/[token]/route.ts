@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabase-service";
+import { listSessionParticipants } from "@/lib/study-sessions";
+import {
+  buildCalendar,
+  buildSessionEvent,
+  CALENDAR_SESSION_COLUMNS,
+  type CalendarSession,
+} from "@/lib/calendar-ics";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Past sessions stay in the feed for a while so calendars don't drop them right away
+const FEED_HISTORY_DAYS = 30;
+const FEED_MAX_EVENTS = 200;
+
+/**
+ * GET /api/calendar/feed/:token(.ics)
+ *
+ * The per-user iCalendar feed that calendar apps subscribe to. Calendar apps
+ * can't sign in, so the secret token in the URL is the only credential; it is
+ * looked up with the service role and regenerating it in settings revokes the
+ * old URL. Cancelled sessions stay in the feed as STATUS:CANCELLED.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token: rawToken } = await params;
+    const token = rawToken.replace(/\.ics$/i, "");
+    if (!token) return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+
+    const sb = supabaseService();
+
+    const { data: feed, error: feedError } = await sb
+      .from("calendar_feeds")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+    if (feedError) throw feedError;
+    const userId = (feed as { user_id: string } | null)?.user_id;
+    if (!userId) return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+
+    const [membershipsRes, blocksRes, profileRes] = await Promise.all([
+      sb.from("study_session_participants").select("session_id").eq("user_id", userId),
+      sb.from("user_blocks").select("blocked_id").eq("blocker_id", userId),
+      sb.from("profiles").select("session_reminder_minutes").eq("id", userId).maybeSingle(),
+    ]);
+    if (membershipsRes.error) throw membershipsRes.error;
+    if (blocksRes.error) throw blocksRes.error;
+
+    const memberSessionIds = ((membershipsRes.data as { session_id: string }[] | null) ?? []).map(
+      (row) => row.session_id
+    );
+    const scopes = [`organizer_id.eq.${userId}`, `friend_id.eq.${userId}`];
+    if (memberSessionIds.length) scopes.push(`id.in.(${memberSessionIds.join(",")})`);
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60_000).toISOString();
+    const { data: sessions, error: sessionsError } = await sb
+      .from("study_sessions")
+      .select(CALENDAR_SESSION_COLUMNS)
+      .or(scopes.join(","))
+      .gte("scheduled_at", since)
+      .order("scheduled_at", { ascending: true })
+      .limit(FEED_MAX_EVENTS);
+    if (sessionsError) throw sessionsError;
+
+    // Invitations from blocked or muted users are hidden in the app, so here too
+    const hiddenIds = new Set(((blocksRes.data as { blocked_id: string }[] | null) ?? []).map((row) => row.blocked_id));
+    const visible = ((sessions as CalendarSession[] | null) ?? []).filter(
+      (session) => session.organizer_id === userId || !hiddenIds.has(session.organizer_id)
+    );
+
+    const participants = await listSessionParticipants(
+      sb,
+      visible.map((session) => session.id)
+    );
+    const reminderMinutes =
+      (profileRes.data as { session_reminder_minutes: number | null } | null)?.session_reminder_minutes ?? null;
+
+    const events = visible
+      .filter((session) => {
+        // Matches the room: removed invitees don't see the session any more
+        const roster = participants.get(session.id) ?? [];
+        return session.organizer_id === userId || roster.some((entry) => entry.userId === userId);
+      })
+      .map((session) =>
+        buildSessionEvent(session, { participants: participants.get(session.id) ?? [], reminderMinutes })
+      );
+
+    return new NextResponse(buildCalendar(events, { name: "Lernex study sessions" }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("/api/calendar/feed GET error", error);
+    return NextResponse.json({ error: "Unable to load calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { DEFAULT_SESSION_REMINDER_MINUTES, isSessionReminderMinutes } from "@/lib/study-sessions";
+
+export async function GET() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const [feedRes, profileRes] = await Promise.all([
+      sb.from("calendar_feeds").select("token").eq("user_id", user.id).maybeSingle(),
+      sb.from("profiles").select("session_reminder_minutes").eq("id", user.id).maybeSingle(),
+    ]);
+    if (feedRes.error) throw feedRes.error;
+    if (profileRes.error) throw profileRes.error;
+
+    const profile = profileRes.data as { session_reminder_minutes: number | null } | null;
+    return NextResponse.json({
+      ok: true,
+      feedToken: (feedRes.data as { token: string } | null)?.token ?? null,
+      reminderMinutes: profile ? profile.session_reminder_minutes : DEFAULT_SESSION_REMINDER_MINUTES,
+    });
+  } catch (error) {
+    console.error("/api/calendar/settings GET error", error);
+    return NextResponse.json({ error: "Unable to load calendar settings" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const reminderMinutes = payload?.reminderMinutes;
+    if (!isSessionReminderMinutes(reminderMinutes)) {
+      return NextResponse.json({ error: "Invalid reminder time" }, { status: 400 });
+    }
+
+    const { error } = await sb
+      .from("profiles")
+      .update({ session_reminder_minutes: reminderMinutes, updated_at: new Date().toISOString() })
+      .eq("id", user.id);
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, reminderMinutes });
+  } catch (error) {
+    console.error("/api/calendar/settings PUT error", error);
+    return NextResponse.json({ error: "Unable to save calendar settings" }, { status: 500 });
+  }
+}
+
+/**
+ * Creates the calendar feed, or replaces its token so the old feed URL stops
+ * working.
+ */
+export async function POST() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const token = randomBytes(24).toString("base64url");
+    const { error } = await sb
+      .from("calendar_feeds")
+      .upsert({ user_id: user.id, token, created_at: new Date().toISOString() }, { onConflict: "user_id" });
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, feedToken: token });
+  } catch (error) {
+    console.error("/api/calendar/settings POST error", error);
+    return NextResponse.json({ error: "Unable to create calendar feed" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { error } = await sb.from("calendar_feeds").delete().eq("user_id", user.id);
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, feedToken: null });
+  } catch (error) {
+    console.error("/api/calendar/settings DELETE error", error);
+    return NextResponse.json({ error: "Unable to turn off calendar feed" }, { status: 500 });
+  }
+}
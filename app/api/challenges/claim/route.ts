@@ -0,0 +1,78 @@
+// app/api/challenges/claim/route.ts
+// Claim the reward for a completed challenge
+
+import { NextRequest } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getChallengeById, getChallengeWindow } from "@/lib/challenges";
+import { supabaseService } from "@/lib/supabase-service";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Not authenticated" }), { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const challengeId = typeof body?.challengeId === "string" ? body.challengeId : null;
+    const challenge = challengeId ? getChallengeById(challengeId) : null;
+    if (!challenge) {
+      return new Response(JSON.stringify({ error: "Unknown challenge" }), { status: 400 });
+    }
+
+    const { data: profile } = await sb
+      .from("profiles")
+      .select("points, timezone")
+      .eq("id", user.id)
+      .maybeSingle();
+    const profileData = profile as { points?: number | null; timezone?: string | null } | null;
+    const { periodKey } = getChallengeWindow(challenge.cadence, profileData?.timezone ?? null);
+
+    // Progress and points are only writable with the service role. Only flip
+    // claimed_at once; the filter makes a double-click a no-op
+    const service = supabaseService();
+    const nowIso = new Date().toISOString();
+    const { data: claimed, error: claimError } = await service
+      .from("user_challenge_progress")
+      .update({ claimed_at: nowIso, updated_at: nowIso })
+      .eq("user_id", user.id)
+      .eq("challenge_id", challenge.id)
+      .eq("period_key", periodKey)
+      .not("completed_at", "is", null)
+      .is("claimed_at", null)
+      .select("challenge_id")
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+    if (!claimed) {
+      return new Response(JSON.stringify({ error: "Challenge not completed or already claimed" }), { status: 409 });
+    }
+
+    // The catalog sets the reward, never the stored row
+    const reward = challenge.reward;
+    const newPoints = (profileData?.points ?? 0) + reward;
+    const { error: pointsError } = await service
+      .from("profiles")
+      .update({ points: newPoints, updated_at: nowIso })
+      .eq("id", user.id);
+
+    if (pointsError) {
+      throw pointsError;
+    }
+
+    return new Response(JSON.stringify({ ok: true, reward, points: newPoints }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err) {
+    console.error("[challenges-claim] error", err);
+    return new Response(JSON.stringify({ error: "Failed to claim reward" }), { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/challenges/route.ts
+// Current daily/weekly challenge progress for the signed-in user
+
+import { NextRequest } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getChallengeStatuses } from "@/lib/challenges";
+import { normalizeTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Not authenticated" }), { status: 401 });
+  }
+
+  try {
+    const { data: profile } = await sb
+      .from("profiles")
+      .select("timezone")
+      .eq("id", user.id)
+      .maybeSingle();
+    let timeZone = normalizeTimeZone((profile as { timezone?: string | null } | null)?.timezone);
+
+    // The client reports its device timezone so windows line up with local midnight
+    const tzParam = req.nextUrl.searchParams.get("tz");
+    if (tzParam) {
+      const reported = normalizeTimeZone(tzParam);
+      if (reported !== timeZone && reported === tzParam) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: tzError } = await (sb as any)
+          .from("profiles")
+          .update({ timezone: reported })
+          .eq("id", user.id);
+        if (tzError) {
+          console.warn("[challenges] timezone update failed", tzError);
+        } else {
+          timeZone = reported;
+        }
+      }
+    }
+
+    const challenges = await getChallengeStatuses(sb, user.id, { timeZone });
+    return new Response(JSON.stringify({ timeZone, challenges }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err) {
+    console.error("[challenges] Failed to load", err);
+    return new Response(JSON.stringify({ error: "Failed to load challenges" }), { status: 500 });
+  }
+}
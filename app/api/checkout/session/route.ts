@@ -1,20 +1,21 @@
 import { NextResponse } from 'next/server';
 
-import { getStripeClient } from '@/lib/stripe';
-
-type PaidPlan = 'plus' | 'premium';
-
-const priceIdByPlan: Record<PaidPlan, string | undefined> = {
-  plus: process.env.STRIPE_PLUS_MONTHLY_PRICE_ID,
-  premium: process.env.STRIPE_PREMIUM_MONTHLY_PRICE_ID
-};
-
-function isPaidPlan(plan: string): plan is PaidPlan {
-  return plan === 'plus' || plan === 'premium';
-}
+import { getPriceIdForPlan, getStripeClient, isBillingInterval, isPaidPlan } from '@/lib/stripe';
+import { supabaseServer } from '@/lib/supabase-server';
+import { getBillingAccount } from '@/lib/billing-accounts';
 
 export async function POST(request: Request) {
   try {
+    const sb = await supabaseServer();
+    const {
+      data: { user }
+    } = await sb.auth.getUser();
+
+    // The webhook links the subscription back to this account, so checkout needs a signed-in user
+    if (!user) {
+      return NextResponse.json({ error: 'Please sign in to upgrade.' }, { status: 401 });
+    }
+
     const data = await request.json();
     const plan = typeof data?.plan === 'string' ? data.plan.trim().toLowerCase() : '';
 
@@ -22,7 +23,9 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unsupported plan selected.' }, { status: 400 });
     }
 
-    const priceId = priceIdByPlan[plan];
+    const rawInterval = typeof data?.interval === 'string' ? data.interval.trim().toLowerCase() : 'month';
+    const interval = isBillingInterval(rawInterval) ? rawInterval : 'month';
+    const priceId = getPriceIdForPlan(plan, interval);
 
     if (!priceId) {
       return NextResponse.json(
@@ -46,11 +49,17 @@ export async function POST(request: Request) {
         ? data.successUrl
         : `${baseUrl}/pricing?status=success`;
 
+    const account = await getBillingAccount(user.id);
+    const customerId = account?.stripe_customer_id ?? null;
+
     const session = await stripe.checkout.sessions.create({
       mode: 'subscription',
       billing_address_collection: 'auto',
       allow_promotion_codes: true,
-      metadata: { plan },
+      client_reference_id: user.id,
+      ...(customerId ? { customer: customerId } : { customer_email: user.email ?? undefined }),
+      metadata: { plan, user_id: user.id },
+      subscription_data: { metadata: { plan, user_id: user.id } },
       line_items: [
         {
           price: priceId,
@@ -0,0 +1,70 @@
+// app/api/cron/notification-triggers/route.ts
+// Cron endpoint for streak warnings and usage-limit reset notifications
+// Should be called hourly
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabase-service";
+import { runNotificationTriggersJob } from "@/lib/background-jobs/notification-triggers";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 300; // 5 minutes max
+
+/**
+ * POST /api/cron/notification-triggers
+ *
+ * Requires CRON_SECRET in request header for authorization
+ *
+ * curl -X POST https://your-app.vercel.app/api/cron/notification-triggers \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(req: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[cron] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Cron secret not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error("[cron] Invalid authorization");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // Service role: the job scans every learner's profile and writes their notifications
+    const supabase = supabaseService();
+
+    console.log("[cron] Starting notification triggers...");
+    const startTime = Date.now();
+
+    const result = await runNotificationTriggersJob(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(`[cron] Notification triggers completed in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      duration,
+      ...result,
+      message: "Notification triggers processed successfully",
+    });
+  } catch (error) {
+    console.error("[cron] Notification triggers failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
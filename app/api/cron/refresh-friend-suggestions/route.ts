@@ -0,0 +1,70 @@
+// app/api/cron/refresh-friend-suggestions/route.ts
+// Cron endpoint for rebuilding ranked friend suggestions
+// Should be called daily, after /api/cron/update-cohorts
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabase-service";
+import { runFriendSuggestionsJob } from "@/lib/background-jobs/friend-suggestions";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 300; // 5 minutes max
+
+/**
+ * POST /api/cron/refresh-friend-suggestions
+ *
+ * Requires CRON_SECRET in request header for authorization
+ *
+ * curl -X POST https://your-app.vercel.app/api/cron/refresh-friend-suggestions \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(req: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[cron] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Cron secret not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error("[cron] Invalid authorization");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // Service role: the job reads every learner's graph and writes their suggestions
+    const supabase = supabaseService();
+
+    console.log("[cron] Starting friend suggestions refresh...");
+    const startTime = Date.now();
+
+    const result = await runFriendSuggestionsJob(supabase);
+
+    const duration = Date.now() - startTime;
+    console.log(`[cron] Friend suggestions refresh completed in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      duration,
+      ...result,
+      message: "Friend suggestions refreshed successfully",
+    });
+  } catch (error) {
+    console.error("[cron] Friend suggestions refresh failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
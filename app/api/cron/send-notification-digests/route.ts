@@ -0,0 +1,71 @@
+// app/api/cron/send-notification-digests/route.ts
+// Cron endpoint for emailing batched notification digests
+// Should be called once a day; weekly digests go out on Mondays (UTC) or with ?weekly=1
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabase-service";
+import { runNotificationDigestJob } from "@/lib/background-jobs/notification-digests";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 300; // 5 minutes max
+
+/**
+ * POST /api/cron/send-notification-digests
+ *
+ * Requires CRON_SECRET in request header for authorization
+ *
+ * curl -X POST https://your-app.vercel.app/api/cron/send-notification-digests \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(req: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[cron] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Cron secret not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error("[cron] Invalid authorization");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // Service role: the job reads every learner's pending notifications and their email address
+    const supabase = supabaseService();
+
+    console.log("[cron] Starting notification digests...");
+    const startTime = Date.now();
+
+    const weekly = req.nextUrl.searchParams.get("weekly") === "1" || new Date().getUTCDay() === 1;
+    const result = await runNotificationDigestJob(supabase, weekly ? ["daily", "weekly"] : ["daily"]);
+
+    const duration = Date.now() - startTime;
+    console.log(`[cron] Notification digests completed in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      duration,
+      ...result,
+      message: "Notification digests sent successfully",
+    });
+  } catch (error) {
+    console.error("[cron] Notification digests failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
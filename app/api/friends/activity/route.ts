@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { ACTIVITY_PAGE_SIZE, listFriendActivity } from "@/lib/activity-feed";
+import { getHiddenUserIds } from "@/lib/user-blocks";
+import { normalizeProfile, RawProfile, ProfileSummary } from "../shared";
+
+export async function GET(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const url = new URL(req.url);
+    const cursorParam = Number(url.searchParams.get("cursor"));
+    const limitParam = Number(url.searchParams.get("limit"));
+    const cursor = Number.isInteger(cursorParam) && cursorParam > 0 ? cursorParam : null;
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? limitParam : ACTIVITY_PAGE_SIZE;
+
+    const hiddenIds = await getHiddenUserIds(sb);
+    const { events, nextCursor } = await listFriendActivity(sb, user.id, { before: cursor, limit, hiddenIds });
+
+    const actorIds = Array.from(new Set(events.map((event) => event.userId)));
+    const actorsRes = actorIds.length
+      ? await sb
+          .from("profiles")
+          .select("id, username, full_name, avatar_url, streak, points, last_study_date, interests, created_at, updated_at")
+          .in("id", actorIds)
+      : { data: [], error: null };
+    if (actorsRes.error) throw actorsRes.error;
+
+    const actors = new Map<string, ProfileSummary>();
+    (actorsRes.data ?? []).forEach((row) => {
+      const normalized = normalizeProfile(row as RawProfile);
+      if (normalized) actors.set(normalized.id, normalized);
+    });
+
+    return NextResponse.json({
+      ok: true,
+      events: events.map((event) => {
+        const actor = actors.get(event.userId) ?? null;
+        return {
+          ...event,
+          actor: {
+            id: event.userId,
+            username: actor?.username ?? null,
+            fullName: actor?.fullName ?? null,
+            avatarUrl: actor?.avatarUrl ?? null,
+          },
+        };
+      }),
+      nextCursor,
+      fetchedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("/api/friends/activity GET error", error);
+    return NextResponse.json({ error: "Unable to load activity" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { isActivityEventType, normalizeActivitySharing } from "@/lib/activity-feed";
+
+export async function GET() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { data, error } = await sb
+      .from("profiles")
+      .select("activity_visibility, activity_shared_types")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    return NextResponse.json({
+      ok: true,
+      sharing: normalizeActivitySharing(data as { activity_visibility?: string | null; activity_shared_types?: unknown } | null),
+    });
+  } catch (error) {
+    console.error("/api/friends/activity/settings GET error", error);
+    return NextResponse.json({ error: "Unable to load activity settings" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const visibility = payload?.visibility;
+    const sharedTypes = payload?.sharedTypes;
+    if (visibility !== "friends" && visibility !== "private") {
+      return NextResponse.json({ error: "visibility must be 'friends' or 'private'" }, { status: 400 });
+    }
+    if (!Array.isArray(sharedTypes) || !sharedTypes.every(isActivityEventType)) {
+      return NextResponse.json({ error: "sharedTypes must be a list of activity types" }, { status: 400 });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (sb as any)
+      .from("profiles")
+      .update({
+        activity_visibility: visibility,
+        activity_shared_types: Array.from(new Set(sharedTypes)),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", user.id)
+      .select("activity_visibility, activity_shared_types")
+      .maybeSingle();
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, sharing: normalizeActivitySharing(data) });
+  } catch (error) {
+    console.error("/api/friends/activity/settings PUT error", error);
+    return NextResponse.json({ error: "Unable to save activity settings" }, { status: 500 });
+  }
+}
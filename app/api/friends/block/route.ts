@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { isBlockKind } from "@/lib/user-blocks";
+import { separateSessionParticipants } from "@/lib/study-sessions";
+
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const targetId = typeof payload?.targetId === "string" ? payload.targetId.trim() : "";
+    const kind = payload?.kind === undefined ? "block" : payload.kind;
+
+    if (!targetId) {
+      return NextResponse.json({ error: "Missing targetId" }, { status: 400 });
+    }
+    if (!isBlockKind(kind)) {
+      return NextResponse.json({ error: "kind must be 'block' or 'mute'" }, { status: 400 });
+    }
+    if (targetId === user.id) {
+      return NextResponse.json({ error: "You cannot block yourself" }, { status: 400 });
+    }
+
+    const targetRes = await sb.from("profiles").select("id").eq("id", targetId).maybeSingle();
+    if (targetRes.error) throw targetRes.error;
+    if (!targetRes.data) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Re-blocking (or switching between mute and block) just updates the existing row
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const upsertRes = await (sb as any)
+      .from("user_blocks")
+      .upsert(
+        { blocker_id: user.id, blocked_id: targetId, kind },
+        { onConflict: "blocker_id,blocked_id" }
+      )
+      .select("blocked_id, kind, created_at")
+      .maybeSingle();
+    if (upsertRes.error) throw upsertRes.error;
+    const row = upsertRes.data as { blocked_id: string; kind: string; created_at: string } | null;
+
+    let severedFriendship = false;
+    if (kind === "block") {
+      const friendshipPair =
+        "and(user_a.eq." +
+        user.id +
+        ",user_b.eq." +
+        targetId +
+        "),and(user_a.eq." +
+        targetId +
+        ",user_b.eq." +
+        user.id +")";
+      const requestPair =
+        "and(sender_id.eq." +
+        user.id +
+        ",receiver_id.eq." +
+        targetId +
+        "),and(sender_id.eq." +
+        targetId +
+        ",receiver_id.eq." +
+        user.id +")";
+
+      const friendshipRes = await sb.from("friendships").delete().or(friendshipPair).select("id");
+      if (friendshipRes.error) throw friendshipRes.error;
+      severedFriendship = (friendshipRes.data?.length ?? 0) > 0;
+
+      const requestRes = await sb.from("friend_requests").delete().or(requestPair);
+      if (requestRes.error) throw requestRes.error;
+
+      // Shared upcoming sessions: the blocked user leaves, two-person ones are called off
+      try {
+        await separateSessionParticipants(sb, user.id, targetId);
+      } catch (sessionError) {
+        console.warn("/api/friends/block session cancel", sessionError);
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      block: {
+        blockedId: row?.blocked_id ?? targetId,
+        kind,
+        createdAt: row?.created_at ?? new Date().toISOString(),
+      },
+      severedFriendship,
+    });
+  } catch (error) {
+    console.error("/api/friends/block POST error", error);
+    return NextResponse.json({ error: "Unable to block user" }, { status: 500 });
+  }
+}
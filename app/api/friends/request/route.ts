@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
+import { isBlockedBetween } from "@/lib/user-blocks";
+import { notifyUser } from "@/lib/notification-delivery";
 import {
   normalizeProfile,
   normalizeFriendship,
@@ -28,6 +30,10 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "You cannot add yourself" }, { status: 400 });
     }
 
+    if (await isBlockedBetween(sb, user.id, targetId)) {
+      return NextResponse.json({ error: "You can't send a friend request to this user" }, { status: 403 });
+    }
+
     const targetRes = await sb
       .from("profiles")
       .select("id, username, full_name, avatar_url, streak, points, last_study_date, interests, created_at, updated_at")
@@ -134,6 +140,19 @@ export async function POST(req: Request) {
 
     const normalizedRequest = normalizeRequest(insertRes.data as RawRequest);
 
+    if (normalizedRequest) {
+      const senderRes = await sb.from("profiles").select("username, full_name").eq("id", user.id).maybeSingle();
+      const sender = senderRes.data as { username: string | null; full_name: string | null } | null;
+      await notifyUser(targetId, {
+        type: "friend_request",
+        title: `${sender?.full_name || sender?.username || "Someone"} sent you a friend request`,
+        body: normalizedRequest.message,
+        url: "/friends",
+        actorId: user.id,
+        dedupeKey: `friend_request:${normalizedRequest.id}`,
+      });
+    }
+
     return NextResponse.json({
       ok: true,
       request: normalizedRequest,
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
+import { getHiddenUserIds, listUserBlocks } from "@/lib/user-blocks";
 import {
   normalizeProfile,
   normalizeFriendship,
@@ -39,7 +40,7 @@ export async function GET() {
     const userId = authState.data.user.id;
     const filterSelfFriend = "user_a.eq." + userId + ",user_b.eq." + userId;
 
-    const [profileRes, friendshipsRes, incomingReqRes, outgoingReqRes] = await Promise.all([
+    const [profileRes, friendshipsRes, incomingReqRes, outgoingReqRes, hiddenIds, blocks, dismissalRes] = await Promise.all([
       sb
         .from("profiles")
         .select(
@@ -63,6 +64,9 @@ export async function GET() {
         .eq("sender_id", userId)
         .eq("status", "pending")
         .order("created_at", { ascending: false }),
+      getHiddenUserIds(sb),
+      listUserBlocks(sb, userId),
+      sb.from("friend_suggestion_dismissals").select("candidate_id").eq("user_id", userId),
     ]);
 
     if (profileRes.error) throw profileRes.error;
@@ -100,9 +104,10 @@ export async function GET() {
       }
     });
 
+    // Requests from muted users wait silently; the sender still sees theirs as pending
     const incomingRequests = (incomingReqRes.data ?? [])
       .map((row) => normalizeRequest(row as RawRequest))
-      .filter((row): row is NonNullable<typeof row> => !!row);
+      .filter((row): row is NonNullable<typeof row> => !!row && !hiddenIds.has(row.senderId));
     const outgoingRequests = (outgoingReqRes.data ?? [])
       .map((row) => normalizeRequest(row as RawRequest))
       .filter((row): row is NonNullable<typeof row> => !!row);
@@ -113,7 +118,8 @@ export async function GET() {
 
     const friendIds = Array.from(friendIdSet);
     const counterpartIds = Array.from(requestCounterparts);
-    const profileLookupIds = Array.from(new Set([...friendIds, ...counterpartIds]));
+    const blockedIds = blocks.map((block) => block.blockedId);
+    const profileLookupIds = Array.from(new Set([...friendIds, ...counterpartIds, ...blockedIds]));
 
     const suggestionPromise = sb
       .from("profiles")
@@ -177,7 +183,7 @@ export async function GET() {
 
     const recentActivity = (attemptRes.data ?? [])
       .map((row) => normalizeAttempt(row as RawAttempt))
-      .filter((row): row is NonNullable<typeof row> => !!row && friendIdSet.has(row.userId))
+      .filter((row): row is NonNullable<typeof row> => !!row && friendIdSet.has(row.userId) && !hiddenIds.has(row.userId))
       .slice(0, 20)
       .map((item) => {
         const base = friendProfilesMap.get(item.userId);
@@ -225,7 +231,11 @@ export async function GET() {
       .map((req) => withCounterpart(req, "outgoing"))
       .filter((req) => !!req.counterpart.id);
 
-    const excludeSet = new Set<string>([userId, ...friendIds, ...counterpartIds]);
+    const excludeSet = new Set<string>([userId, ...friendIds, ...counterpartIds, ...hiddenIds]);
+    if (dismissalRes.error) {
+      console.warn("/api/friends dismissal lookup", dismissalRes.error);
+    }
+    ((dismissalRes.data ?? []) as { candidate_id: string }[]).forEach((row) => excludeSet.add(row.candidate_id));
     const suggestions = ((suggestionRes.error ? [] : suggestionRes.data) ?? [])
       .map((row) => normalizeProfile(row as RawProfile))
       .filter((row): row is ProfileSummary => !!row && row.id !== userId)
@@ -242,12 +252,25 @@ export async function GET() {
       }))
       .slice(0, 12);
 
+    const blocked = blocks.map((block) => {
+      const base = friendProfilesMap.get(block.blockedId) ?? null;
+      return {
+        id: block.blockedId,
+        kind: block.kind,
+        since: block.createdAt,
+        username: base?.username ?? null,
+        fullName: base?.fullName ?? null,
+        avatarUrl: base?.avatarUrl ?? null,
+      };
+    });
+
     return NextResponse.json({
       profile,
       friends,
       requests: { incoming, outgoing },
       suggestions,
       recentActivity,
+      blocked,
       counts: {
         totalFriends: friends.length,
         pendingIncoming: incoming.length,
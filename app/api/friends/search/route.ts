@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
+import { getHiddenUserIds } from "@/lib/user-blocks";
 import { normalizeProfile, RawProfile, ProfileSummary } from "../shared";
 
 function buildSharedInterest(profile: ProfileSummary) {
@@ -42,6 +43,7 @@ export async function GET(req: Request) {
       .map((item) => item.trim())
       .filter((item) => item.length > 0)
       .forEach((item) => excludeSet.add(item));
+    (await getHiddenUserIds(sb)).forEach((id) => excludeSet.add(id));
 
     const profileRes = await sb
       .from("profiles")
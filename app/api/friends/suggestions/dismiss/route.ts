@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const candidateId = typeof payload?.candidateId === "string" ? payload.candidateId.trim() : "";
+
+    if (!candidateId) {
+      return NextResponse.json({ error: "Missing candidateId" }, { status: 400 });
+    }
+    if (candidateId === user.id) {
+      return NextResponse.json({ error: "Invalid candidateId" }, { status: 400 });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (sb as any)
+      .from("friend_suggestion_dismissals")
+      .upsert({ user_id: user.id, candidate_id: candidateId }, { onConflict: "user_id,candidate_id", ignoreDuplicates: true });
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, dismissedId: candidateId });
+  } catch (error) {
+    console.error("/api/friends/suggestions/dismiss POST error", error);
+    return NextResponse.json({ error: "Unable to dismiss suggestion" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const candidateId = typeof payload?.candidateId === "string" ? payload.candidateId.trim() : "";
+    if (!candidateId) {
+      return NextResponse.json({ error: "Missing candidateId" }, { status: 400 });
+    }
+
+    const { error } = await sb
+      .from("friend_suggestion_dismissals")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("candidate_id", candidateId);
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, restoredId: candidateId });
+  } catch (error) {
+    console.error("/api/friends/suggestions/dismiss DELETE error", error);
+    return NextResponse.json({ error: "Unable to restore suggestion" }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getHiddenUserIds } from "@/lib/user-blocks";
+import { normalizeProfile, toStringArray, RawProfile, ProfileSummary } from "../shared";
+
+const SUGGESTION_LIMIT = 12;
+
+type SuggestionRow = {
+  candidate_id: string;
+  score: number;
+  mutual_count: number;
+  reasons: unknown;
+  computed_at: string;
+};
+
+export async function GET() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    // Suggestions are rebuilt daily, so drop anyone who became a friend, got a
+    // request or was dismissed/blocked since the last refresh
+    const [suggestionRes, dismissalRes, friendshipRes, requestRes, hiddenIds] = await Promise.all([
+      sb
+        .from("friend_suggestions")
+        .select("candidate_id, score, mutual_count, reasons, computed_at")
+        .eq("user_id", user.id)
+        .order("score", { ascending: false })
+        .limit(SUGGESTION_LIMIT * 2),
+      sb.from("friend_suggestion_dismissals").select("candidate_id").eq("user_id", user.id),
+      sb.from("friendships").select("user_a, user_b").or("user_a.eq." + user.id + ",user_b.eq." + user.id),
+      sb
+        .from("friend_requests")
+        .select("sender_id, receiver_id")
+        .eq("status", "pending")
+        .or("sender_id.eq." + user.id + ",receiver_id.eq." + user.id),
+      getHiddenUserIds(sb),
+    ]);
+    if (suggestionRes.error) throw suggestionRes.error;
+    if (dismissalRes.error) throw dismissalRes.error;
+    if (friendshipRes.error) throw friendshipRes.error;
+    if (requestRes.error) throw requestRes.error;
+
+    const skip = new Set<string>(hiddenIds);
+    ((dismissalRes.data ?? []) as { candidate_id: string }[]).forEach((row) => skip.add(row.candidate_id));
+    ((friendshipRes.data ?? []) as { user_a: string; user_b: string }[]).forEach((row) => {
+      skip.add(row.user_a === user.id ? row.user_b : row.user_a);
+    });
+    ((requestRes.data ?? []) as { sender_id: string; receiver_id: string }[]).forEach((row) => {
+      skip.add(row.sender_id === user.id ? row.receiver_id : row.sender_id);
+    });
+
+    const rows = ((suggestionRes.data ?? []) as SuggestionRow[])
+      .filter((row) => !skip.has(row.candidate_id))
+      .slice(0, SUGGESTION_LIMIT);
+
+    const profilesRes = rows.length
+      ? await sb
+          .from("profiles")
+          .select("id, username, full_name, avatar_url, streak, points, last_study_date, interests, created_at, updated_at")
+          .in("id", rows.map((row) => row.candidate_id))
+      : { data: [], error: null };
+    if (profilesRes.error) throw profilesRes.error;
+
+    const profiles = new Map<string, ProfileSummary>();
+    (profilesRes.data ?? []).forEach((row) => {
+      const normalized = normalizeProfile(row as RawProfile);
+      if (normalized) profiles.set(normalized.id, normalized);
+    });
+
+    const suggestions = rows.flatMap((row) => {
+      const profile = profiles.get(row.candidate_id);
+      if (!profile) return [];
+      const reasons = toStringArray(row.reasons);
+      return [
+        {
+          id: profile.id,
+          username: profile.username,
+          fullName: profile.fullName,
+          avatarUrl: profile.avatarUrl,
+          streak: profile.streak,
+          points: profile.points,
+          lastStudyDate: profile.lastStudyDate,
+          sharedInterests: [] as string[],
+          mutualFriends: row.mutual_count,
+          reasons,
+          explanation: reasons.join(" · "),
+          score: row.score,
+        },
+      ];
+    });
+
+    return NextResponse.json({
+      ok: true,
+      suggestions,
+      computedAt: rows[0]?.computed_at ?? null,
+    });
+  } catch (error) {
+    console.error("/api/friends/suggestions GET error", error);
+    return NextResponse.json({ error: "Unable to load suggestions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const targetId = typeof payload?.targetId === "string" ? payload.targetId.trim() : "";
+
+    if (!targetId) {
+      return NextResponse.json({ error: "Missing targetId" }, { status: 400 });
+    }
+
+    // Unblocking does not restore the severed friendship; either side can send a new request
+    const deleteRes = await sb
+      .from("user_blocks")
+      .delete()
+      .eq("blocker_id", user.id)
+      .eq("blocked_id", targetId)
+      .select("blocked_id");
+    if (deleteRes.error) throw deleteRes.error;
+    if (!deleteRes.data || deleteRes.data.length === 0) {
+      return NextResponse.json({ error: "User is not blocked" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, unblockedId: targetId });
+  } catch (error) {
+    console.error("/api/friends/unblock POST error", error);
+    return NextResponse.json({ error: "Unable to unblock user" }, { status: 500 });
+  }
+}
@@ -3,7 +3,11 @@
 
 import { NextRequest } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
-import { removePendingLesson, cleanupStalePendingLessons } from "@/lib/pending-lessons";
+import {
+  removePendingLesson,
+  removePendingLessonById,
+  cleanupStalePendingLessons,
+} from "@/lib/pending-lessons";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -23,6 +27,8 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const subject = typeof body.subject === "string" ? body.subject : null;
     const lessonId = typeof body.lessonId === "string" ? body.lessonId : null;
+    // Offline replays complete lessons out of order, so only the exact lesson may be removed
+    const exact = body.exact === true;
 
     if (!subject) {
       return new Response(
@@ -37,13 +43,16 @@ export async function POST(req: NextRequest) {
       lessonId,
     });
 
-    // Remove the completed lesson from pending queue (position 0)
-    const removed = await removePendingLesson(sb, uid, subject, 0);
+    // Remove the completed lesson from the pending queue, falling back to position 0
+    let removed = lessonId ? await removePendingLessonById(sb, uid, lessonId) : false;
+    if (!removed && !exact) {
+      removed = await removePendingLesson(sb, uid, subject, 0);
+    }
 
     if (removed) {
       console.debug(`[fyp-complete][${reqId}] removed pending lesson`, {
         subject,
-        position: 0,
+        lessonId,
       });
     }
 
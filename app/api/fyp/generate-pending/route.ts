@@ -140,8 +140,11 @@ export async function POST(req: NextRequest) {
       estimatedTokenSavings: '~30%',
     });
 
-    // Generate all lessons in parallel batch
-    const batchResults = await generateLessonBatch(sb, uid, ip, batchRequests);
+    // Generate all lessons in parallel batch; queued lessons are served without
+    // a learner watching generation, so they also get the second-model solve
+    const batchResults = await generateLessonBatch(sb, uid, ip, batchRequests, {
+      qualityGate: { solve: true },
+    });
 
     // Store successful lessons
     for (let i = 0; i < batchResults.length; i++) {
@@ -156,7 +159,8 @@ export async function POST(req: NextRequest) {
             topicLabel,
             result.lesson,
             'slow',
-            userTier
+            userTier,
+            result.verdictId ?? null
           );
 
           if (stored) {
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
-import { logUsage } from "@/lib/usage";
+import { flushTelemetry, recordTelemetry } from "@/lib/telemetry";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -26,23 +26,18 @@ export async function POST(req: NextRequest) {
   }
 
   if (user) {
-    await logUsage(
-      sb,
-      user.id,
-      null,
-      "client/fyp-latency",
-      { input_tokens: null, output_tokens: null },
+    recordTelemetry(
+      "generation_latency",
       {
-        metadata: {
-          feature: "fyp-lesson",
-          kind: "latency",
-          stage,
-          durationMs: Math.round(duration),
-          subject,
-          status,
-        },
+        feature: "fyp-lesson",
+        stage: stage.slice(0, 80),
+        durationMs: Math.max(0, Math.round(duration)),
+        subject: subject ? subject.slice(0, 120) : null,
+        status: status !== null && Number.isInteger(status) ? status : null,
       },
+      { userId: user.id },
     );
+    await flushTelemetry();
   }
 
   return new Response(null, { status: 204 });
@@ -0,0 +1,62 @@
+// app/api/fyp/offline/route.ts
+// Hand the next pending lessons to the service worker so the FYP feed keeps working offline
+
+import { NextRequest } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import type { PendingLesson } from "@/lib/pending-lessons";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_OFFLINE_LESSONS = 5;
+const MAX_OFFLINE_LESSONS = 10;
+
+export async function GET(req: NextRequest) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Not authenticated" }), { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const rawLimit = Number(params.get("limit"));
+  const limit = Number.isFinite(rawLimit) && rawLimit > 0
+    ? Math.min(Math.floor(rawLimit), MAX_OFFLINE_LESSONS)
+    : DEFAULT_OFFLINE_LESSONS;
+  const subjects = (params.get("subjects") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  let query = sb
+    .from("user_pending_lessons")
+    .select("subject, topic_label, lesson, position, created_at")
+    .eq("user_id", user.id)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true })
+    .limit(limit);
+  if (subjects.length) query = query.in("subject", subjects);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[fyp-offline] pending lookup error:", error);
+    return new Response(JSON.stringify({ error: "Failed to load offline lessons" }), { status: 500 });
+  }
+
+  const rows = (data as unknown as Pick<PendingLesson, "subject" | "topic_label" | "lesson" | "position">[] | null) ?? [];
+  const lessons = rows
+    .filter((row) => row.lesson && typeof row.lesson.id === "string")
+    .map((row) => ({
+      ...row.lesson,
+      subject: row.lesson.subject || row.subject,
+      topic: row.lesson.topic || row.topic_label,
+    }));
+
+  return new Response(
+    JSON.stringify({ lessons, fetchedAt: new Date().toISOString() }),
+    {
+      status: 200,
+      headers: { "content-type": "application/json", "cache-control": "private, no-store" },
+    }
+  );
+}
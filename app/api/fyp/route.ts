@@ -10,6 +10,7 @@ import { fetchUserTier } from "@/lib/model-config";
 import { getNextPendingLesson, storePendingLesson, countPendingLessons } from "@/lib/pending-lessons";
 import { getEmbedding, findMaxSimilarity } from "@/lib/embeddings";
 import { compressContext } from "@/lib/semantic-compression";
+import { recordTelemetry } from "@/lib/telemetry";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -103,18 +104,20 @@ export async function GET(req: NextRequest) {
     return Math.max(0, Math.min(3, Math.floor(parsed)));
   })();
 
-  const buildProgressPayload = (phase?: string, detail?: string) => {
-    const progress = getLearningPathProgress(user.id, subject);
+  const buildProgressPayload = async (phase?: string, detail?: string) => {
+    const progress = await getLearningPathProgress(sb, user.id, subject);
     if (progress) return progress;
     if (!phase && !detail) return null;
     return { phase: phase ?? "Preparing your learning path", ...(detail ? { detail } : {}) };
   };
 
-  const progressResponse = (retryAfter: string, phase?: string, detail?: string) =>
-    new Response(
-      JSON.stringify({ status: "generating", progress: buildProgressPayload(phase, detail) }),
+  const progressResponse = async (retryAfter: string, phase?: string, detail?: string, jobId?: string | null) => {
+    const progress = await buildProgressPayload(phase, detail);
+    return new Response(
+      JSON.stringify({ status: "generating", jobId: jobId ?? (progress && "jobId" in progress ? progress.jobId : null), progress }),
       { status: 202, headers: { "retry-after": retryAfter } }
     );
+  };
 
   const MAX_CACHE_AGE_MS = 7 * 24 * 3600_000;
   type AttemptRow = {
@@ -246,7 +249,7 @@ export async function GET(req: NextRequest) {
       .maybeSingle(),
   ]);
 
-  let state = stateResponse.data as { path?: unknown; next_topic?: string; difficulty?: string; course?: string } | null;
+  let state = stateResponse.data as { path?: unknown; next_topic?: string | null; difficulty?: string; course?: string } | null;
   const progressRow = progressRowResponse.data as { topic_idx?: number; subtopic_idx?: number; delivered_mini?: number; delivered_by_topic?: unknown; delivered_ids_by_topic?: unknown; delivered_titles_by_topic?: unknown; completion_map?: unknown; metrics?: unknown } | null;
   const preferenceRow = preferenceResponse.data as { liked_ids?: unknown; disliked_ids?: unknown; saved_ids?: unknown; tone_tags?: unknown } | null;
 
@@ -323,7 +326,7 @@ export async function GET(req: NextRequest) {
     const { ensureLearningPath, isLearningPathGenerating, LearningPathPendingError } = await import("@/lib/learning-path");
 
     try {
-      // Cross-instance DB lock. If not supported and busy, fallback to in-process lock inside ensureLearningPath.
+      // Cross-instance DB lock. If not supported and busy, the job lease inside ensureLearningPath still dedupes.
       const lock = await acquireGenLock(sb, user.id, subject);
       if (!lock.supported && lock.reason === "error") {
         // DB error unrelated to missing table
@@ -334,15 +337,15 @@ export async function GET(req: NextRequest) {
           // Someone else is generating; signal client to backoff and retry
           return progressResponse("3", "Another session is preparing your learning path", "Waiting for the current generation to finish.");
         } else if (lock.reason === "error") {
-          // Lock table exists but errored; fall back to in-process lock if active, otherwise proceed without lock
-          if (isLearningPathGenerating(user.id, subject)) {
+          // Lock table exists but errored; defer to an active generation job if there is one, otherwise proceed
+          if (await isLearningPathGenerating(sb, user.id, subject)) {
             return progressResponse("3", "Finishing an existing generation", "Re-using the map from a parallel request.");
           }
         }
       }
       if (!lock.supported) {
-        // No DB lock available; if our in-process lock is active, signal 202 too
-        if (isLearningPathGenerating(user.id, subject)) {
+        // No DB lock available; if a generation job is active, signal 202 too
+        if (await isLearningPathGenerating(sb, user.id, subject)) {
           return progressResponse("3", "Finalizing your learning path", "A previous request is still wrapping up.");
         }
       }
@@ -376,7 +379,7 @@ export async function GET(req: NextRequest) {
       if (e instanceof LearningPathPendingError) {
         try { await releaseGenLock(sb, user.id, subject); } catch {}
         const retryAfter = String(e.retryAfterSeconds ?? 5);
-        return progressResponse(retryAfter, e.message, e.detail);
+        return progressResponse(retryAfter, e.message, e.detail, e.jobId);
       }
       const msg = e instanceof Error ? e.message : "Server error";
       const status = msg === "Usage limit exceeded" ? 403 : 500;
@@ -1145,6 +1148,7 @@ export async function GET(req: NextRequest) {
 
     return true;
   });
+  recordTelemetry("cache_lookup", { cache: "fyp-topic-lessons", hit: Boolean(cacheHit), subject }, { userId: user.id });
 
   if (cacheHit) {
     const contextPayload =
@@ -1270,6 +1274,24 @@ export async function GET(req: NextRequest) {
         .eq("user_id", user.id)
         .eq("subject", subject);
 
+      // Keep served pending lessons in the topic cache so /api/attempt can still verify
+      // them after /api/fyp/complete drops the pending row
+      try {
+        const servedCache = [responseLesson, ...eligibleCachedCandidates.filter((entry) => entry && entry.id !== responseLesson.id)].slice(0, 5);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (sb as any)
+          .from("user_topic_lesson_cache")
+          .upsert({
+            user_id: user.id,
+            subject,
+            topic_label: currentLabel,
+            lessons: servedCache,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: "user_id,subject,topic_label" });
+      } catch (cacheErr) {
+        console.error(`[fyp][${reqId}] pending cache write failed`, cacheErr);
+      }
+
       // Strip embeddings from response to reduce payload size
       const stripEmbedding = (lessonWithEmbedding: CachedLesson): Omit<CachedLesson, 'embedding'> => {
         const { embedding, ...rest } = lessonWithEmbedding;
@@ -1329,7 +1351,13 @@ export async function GET(req: NextRequest) {
       userTier,
       modelSpeed: 'fast',
     };
+    const generationStartedAt = Date.now();
     lesson = await generateLessonForTopic(sb, user.id, ip, subject, currentLabel, generatorOptions);
+    recordTelemetry(
+      "generation_latency",
+      { feature: "fyp-lesson", stage: "server", durationMs: Date.now() - generationStartedAt, subject },
+      { userId: user.id },
+    );
 
     // LOCAL FILTERING: Check if generated lesson matches avoid lists (post-generation filter)
     // This replaces the AI-side filtering we removed to save tokens
@@ -2,6 +2,7 @@
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+import { randomUUID } from "crypto";
 import type { Stream } from "openai/streaming";
 import type { ChatCompletionChunk } from "openai/resources/chat/completions";
 import { supabaseServer } from "@/lib/supabase-server";
@@ -11,6 +12,7 @@ import { createModelClient, fetchUserTier } from "@/lib/model-config";
 import { shuffleQuizQuestions } from "@/lib/quiz-shuffle";
 import { getCodeInterpreterParams, adjustTokenLimitForCodeInterpreter, usedCodeInterpreter, getCodeInterpreterMetadata } from "@/lib/code-interpreter";
 import { analyzeMathComplexity, isMathSubject } from "@/lib/math-detection";
+import { storeLessonAnswerKeys } from "@/lib/attempt-verification";
 
 const MAX_CHARS = 4300;
 
@@ -48,7 +50,7 @@ export async function POST(req: Request) {
     const userTier = user ? await fetchUserTier(sb, user.id) : 'free';
 
     // Generate page uses FAST model for immediate response
-    const { client, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+    const { client, model, route } = createModelClient(userTier, 'fast');
 
     const src = text.slice(0, MAX_CHARS);
 
@@ -232,6 +234,9 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
       : `Subject: ${subject}\nMode: ${mode}\nDifficulty: ${difficulty}\nLesson:\n${src}\nTest concepts with new examples. Change all numbers/variables.`;
 
     const enc = new TextEncoder();
+    // Issued here rather than by the client so attempts on the quiz can be graded
+    // against the answer key stored once the stream is done
+    const lessonId = `quiz-${randomUUID()}`;
 
     // Create streaming response
     const bodyStream = new ReadableStream<Uint8Array>({
@@ -240,6 +245,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
         let usedFallback = false;
         let completion: { usage?: { prompt_tokens?: number; completion_tokens?: number } } | null = null;
         let sentQuestionCount = 0;
+        const sentQuestions: Array<{ prompt: string }> = [];
         let codeInterpreterUsed = false;
         let lastMessage: { executed_tools?: Array<{ type: string; code?: string; result?: string; error?: string }> } | undefined;
 
@@ -345,6 +351,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
 
                   // Send as newline-delimited JSON
                   safeEnqueue(JSON.stringify(shuffled) + "\n");
+                  sentQuestions.push(shuffled);
                   sentQuestionCount++;
                 }
               }
@@ -359,6 +366,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
               const sanitized = sanitizeQuestion(question as { prompt?: unknown; choices?: unknown; correctIndex?: unknown; explanation?: unknown }, sentQuestionCount);
               const shuffled = shuffleQuizQuestions([sanitized])[0];
               safeEnqueue(JSON.stringify(shuffled) + "\n");
+              sentQuestions.push(shuffled);
               sentQuestionCount++;
             }
           }
@@ -400,6 +408,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
                 const sanitized = sanitizeQuestion(parsed.questions[i] as { prompt?: unknown; choices?: unknown; correctIndex?: unknown; explanation?: unknown }, i);
                 const shuffled = shuffleQuizQuestions([sanitized])[0];
                 safeEnqueue(JSON.stringify(shuffled) + "\n");
+                sentQuestions.push(shuffled);
                 sentQuestionCount++;
               }
             }
@@ -409,6 +418,12 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
           }
         }
 
+        // Store the key before closing so the client can't finish the quiz ahead of it.
+        // The client skips questions without a prompt, so the key does too to keep indices aligned.
+        await storeLessonAnswerKeys(user?.id ?? null, [
+          { id: lessonId, subject, difficulty, questions: sentQuestions.filter((question) => question.prompt) },
+        ]);
+
         // Log usage
         if (user && completion?.usage) {
           const u = completion.usage;
@@ -430,7 +445,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
             // Extract enhanced metadata
             const codeInterpreterMetadata = getCodeInterpreterMetadata(lastMessage, requiresCodeInterpreter);
 
-            await logUsage(sb, user.id, ip, modelIdentifier, mapped, {
+            await logUsage(sb, user.id, ip, route.modelIdentifier, mapped, {
               metadata: {
                 route: "generate-quiz",
                 subject,
@@ -438,7 +453,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
                 mode,
                 usedFallback,
                 sourceTextLength: src.length,
-                provider,
+                provider: route.provider,
                 tier: userTier,
                 questionCount: sentQuestionCount,
                 codeInterpreterUsed,
@@ -466,6 +481,7 @@ ${requiresCodeInterpreter ? 'CRITICAL: Use code_interpreter tool (Python) to ver
         "content-type": "text/event-stream",
         "Cache-Control": "no-store, no-transform",
         "X-Accel-Buffering": "no",
+        "X-Lesson-Id": lessonId,
       },
     });
   } catch (e: unknown) {
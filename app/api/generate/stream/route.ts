@@ -2,13 +2,14 @@
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-import type { ChatCompletionCreateParams, ChatCompletionChunk } from "openai/resources/chat/completions";
-import type { Stream } from "openai/streaming";
+import type { ChatCompletionCreateParams } from "openai/resources/chat/completions";
 import { supabaseServer } from "@/lib/supabase-server";
-import { canUserGenerate, logUsage } from "@/lib/usage";
+import { canUserGenerate } from "@/lib/usage";
 import { createModelClient, fetchUserTier } from "@/lib/model-config";
+import { logLessonUsage, streamCompletion } from "@/lib/lesson-generation";
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate";
 import { compressContext } from "@/lib/semantic-compression";
-import { getCodeInterpreterParams, adjustTokenLimitForCodeInterpreter, usedCodeInterpreter } from "@/lib/code-interpreter";
+import { getCodeInterpreterParams, adjustTokenLimitForCodeInterpreter } from "@/lib/code-interpreter";
 
 // Raised limits per request
 const MAX_CHARS = 6000; // allow longer input passages
@@ -48,7 +49,7 @@ export async function POST(req: Request) {
     const sb = await supabaseServer();
     const { data: { user } } = await sb.auth.getUser();
     const uid = user?.id ?? null;
-    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
+    const ip = getClientIp(req);
 
     if (uid) {
       const limitCheck = await canUserGenerate(sb, uid);
@@ -82,8 +83,15 @@ export async function POST(req: Request) {
     // Fetch user tier with cache-busting (always fresh, no stale data)
     const userTier = await fetchUserTier(sb, uid!);
 
+    const rateLimit = await checkRateLimit({ route: "generate", ip, userId: uid, tier: userTier });
+    if (!rateLimit.allowed) {
+      console.log('[generate/stream] Rate limit exceeded for', uid ? `user: ${uid}` : `IP: ${ip}`);
+      return rateLimitExceededResponse(rateLimit);
+    }
+
     // Generate page uses FAST model for immediate response
-    const { client, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+    const modelClient = createModelClient(userTier, 'fast');
+    const { model, provider } = modelClient;
 
     const src = text.slice(0, MAX_CHARS);
 
@@ -200,28 +208,10 @@ export async function POST(req: Request) {
       tokenOverhead: 500, // Already accounted for in maxTokens
     });
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const streamPromise = client.chat.completions.create({
-      model,
-      temperature: 1,
-      max_tokens: maxTokens,
-      stream: true,
-      messages: baseMessages,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ...(codeInterpreterParams as any), // Add code_interpreter tool
-    }) as unknown as Promise<Stream<ChatCompletionChunk>>;
-
     const bodyStream = new ReadableStream<Uint8Array>({
       async start(controller) {
         controller.enqueue(enc.encode("\n"));
-        let sawContent = false;
-        let sawActivity = false;
         let closed = false;
-        let fallbackNeeded = false;
-        let fallbackReason: string | null = null;
-        const startedAt = Date.now();
-        let usageSummary: { input_tokens?: number | null; output_tokens?: number | null } | null = null;
-        let codeInterpreterUsed = false;
 
         // Buffer for incremental JSON parsing
         let buffer = "";
@@ -239,145 +229,56 @@ export async function POST(req: Request) {
           }
         };
 
-        const firstTokenTimer = setTimeout(() => {
-          if (!sawActivity) {
-            fallbackNeeded = true;
-            fallbackReason = "first-token-timeout";
-          }
-        }, 12000);
-
         try {
-          const stream = await streamPromise;
-          console.log("[gen/stream] upstream-stream-ready", { dt: Date.now() - t0 });
-          for await (const chunk of stream) {
-            const choice = chunk?.choices?.[0];
-            const delta = choice?.delta ?? {};
-            const content = typeof (delta as { content?: unknown }).content === "string"
-              ? (delta as { content: string }).content
-              : "";
-            const reasoning = typeof (delta as { reasoning?: unknown }).reasoning === "string"
-              ? (delta as { reasoning: string }).reasoning
-              : "";
-            const chunkUsage = (chunk as { usage?: { prompt_tokens?: number; completion_tokens?: number } } | undefined)?.usage;
-            if (chunkUsage) {
-              usageSummary = {
-                input_tokens: chunkUsage.prompt_tokens ?? null,
-                output_tokens: chunkUsage.completion_tokens ?? null,
-              };
+          for await (const event of streamCompletion(modelClient, {
+            messages: baseMessages,
+            temperature: 1,
+            maxTokens,
+            extra: codeInterpreterParams,
+          })) {
+            if (event.type === "done") {
+              console.log("[gen/stream] done", { dt: Date.now() - t0, fallbackReason: event.fallbackReason });
+              await logLessonUsage(sb, uid, ip, modelClient.route, event.usage, {
+                feature: "lesson-text",
+                route: "lesson-text",
+                mode,
+                subject,
+                tier: userTier,
+                codeInterpreterUsed: event.codeInterpreterUsed,
+                fallbackReason: event.fallbackReason ?? undefined,
+              });
+              continue;
             }
 
-            // Check if code interpreter was used in this chunk
-            const chunkMessage = (chunk as unknown as { choices?: Array<{ message?: { executed_tools?: Array<{ type: string }> } }> })?.choices?.[0]?.message;
-            if (chunkMessage && !codeInterpreterUsed) {
-              codeInterpreterUsed = usedCodeInterpreter(chunkMessage);
-            }
+            // Add to buffer for incremental parsing
+            buffer += event.text;
 
-            if (!sawActivity && (content || reasoning)) {
-              console.log("[gen/stream] first-token", { dt: Date.now() - t0 });
-              clearTimeout(firstTokenTimer);
-              fallbackNeeded = false;
-              fallbackReason = null;
-            }
-            if (reasoning) {
-              sawActivity = true;
+            // Auto-detect JSON on first chunk
+            if (!jsonCheckDone) {
+              jsonCheckDone = true;
+              const trimmed = buffer.trim();
+              isLikelyJSON = trimmed.startsWith('{') || trimmed.startsWith('[');
             }
-            if (content) {
-              sawActivity = true;
-              sawContent = true;
-
-              // Add to buffer for incremental parsing
-              buffer += content;
-
-              // Auto-detect JSON on first chunk
-              if (!jsonCheckDone) {
-                jsonCheckDone = true;
-                const trimmed = buffer.trim();
-                isLikelyJSON = trimmed.startsWith('{') || trimmed.startsWith('[');
-              }
 
-              // If it looks like JSON, try incremental parsing
-              if (isLikelyJSON) {
-                const partial = tryParsePartial(buffer);
-                if (partial.content) {
-                  // Only send new content to avoid duplicates
-                  const newContent = partial.content.slice(lastSentLength);
-                  if (newContent) {
-                    safeEnqueue(newContent);
-                    lastSentLength = partial.content.length;
-                  }
+            // If it looks like JSON, try incremental parsing
+            if (isLikelyJSON) {
+              const partial = tryParsePartial(buffer);
+              if (partial.content) {
+                // Only send new content to avoid duplicates
+                const newContent = partial.content.slice(lastSentLength);
+                if (newContent) {
+                  safeEnqueue(newContent);
+                  lastSentLength = partial.content.length;
                 }
-              } else {
-                // Plain text mode: stream directly (existing behavior)
-                safeEnqueue(content);
               }
+            } else {
+              // Plain text mode: stream directly (existing behavior)
+              safeEnqueue(event.text);
             }
           }
-
-          if (!sawContent) {
-            fallbackNeeded = true;
-            fallbackReason = fallbackReason ?? "no-tokens-from-stream";
-          }
-
-          console.log("[gen/stream] done", { dt: Date.now() - t0 });
         } catch (e) {
           console.error("[gen/stream] stream-error", e);
-          fallbackNeeded = true;
-          fallbackReason = "stream-error";
         } finally {
-          try { clearTimeout(firstTokenTimer); } catch {}
-          if (!sawContent && fallbackNeeded) {
-            console.warn("[gen/stream] fallback-trigger", { why: fallbackReason, dt: Date.now() - startedAt });
-            try {
-              const nonStream = await client.chat.completions.create({
-                model,
-                temperature: 1,
-                max_tokens: maxTokens,
-                messages: baseMessages,
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                ...(codeInterpreterParams as any), // Add code_interpreter tool to fallback
-              });
-              const full = (nonStream?.choices?.[0]?.message?.content as string | undefined) ?? "";
-              if (full) {
-                sawContent = true;
-
-                // Apply same JSON parsing logic to fallback
-                const trimmed = full.trim();
-                if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-                  const partial = tryParsePartial(full);
-                  safeEnqueue(partial.content ?? full);
-                } else {
-                  safeEnqueue(full);
-                }
-              } else {
-                console.warn("[gen/stream] fallback-empty");
-              }
-
-              // Check if code interpreter was used in fallback
-              const fallbackMessage = nonStream?.choices?.[0]?.message;
-              if (fallbackMessage && !codeInterpreterUsed) {
-                codeInterpreterUsed = usedCodeInterpreter(fallbackMessage as { executed_tools?: Array<{ type: string }> });
-              }
-
-              const u = nonStream?.usage;
-              if (u) {
-                usageSummary = {
-                  input_tokens: typeof u.prompt_tokens === "number" ? u.prompt_tokens : null,
-                  output_tokens: typeof u.completion_tokens === "number" ? u.completion_tokens : null,
-                };
-              }
-            } catch (err) {
-              console.error("[gen/stream] fallback-error", err);
-            }
-          }
-          if (usageSummary && (uid || ip)) {
-            try {
-              await logUsage(sb, uid, ip, modelIdentifier, usageSummary, {
-                metadata: { route: "lesson-text", mode, subject, provider, tier: userTier, codeInterpreterUsed },
-              });
-            } catch (logErr) {
-              console.warn("[gen/stream] usage-log-error", logErr);
-            }
-          }
           doClose();
         }
       },
@@ -389,6 +290,7 @@ export async function POST(req: Request) {
         "Cache-Control": "no-cache, no-transform",
         "X-Accel-Buffering": "no",
         "Connection": "keep-alive",
+        ...rateLimitHeaders(rateLimit),
       },
     });
   } catch (e) {
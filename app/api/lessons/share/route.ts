@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { lessonPermalinkPath, saveLessonPermalink, toShareableLesson } from "@/lib/lesson-permalinks";
+import { absoluteUrl } from "@/lib/seo";
+
+// Store the lesson the learner is looking at and hand back its permalink
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const lesson = toShareableLesson(payload?.lesson);
+    if (!lesson) return NextResponse.json({ error: "Invalid lesson data" }, { status: 400 });
+    const isPublic = payload?.isPublic !== false;
+
+    const permalink = await saveLessonPermalink(sb, user.id, lesson, { isPublic });
+    const path = lessonPermalinkPath(permalink.id);
+    return NextResponse.json({
+      ok: true,
+      id: permalink.id,
+      path,
+      url: absoluteUrl(path),
+      isPublic: permalink.isPublic,
+    });
+  } catch (error) {
+    console.error("/api/lessons/share POST error", error);
+    return NextResponse.json({ error: "Unable to share this lesson" }, { status: 500 });
+  }
+}
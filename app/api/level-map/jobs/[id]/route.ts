@@ -0,0 +1,59 @@
+// app/api/level-map/jobs/[id]/route.ts
+// Poll the status and progress of a learning-path generation job
+
+import { NextRequest } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { getLearningPathJob, isLearningPathJobActive } from "@/lib/learning-path-jobs";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const POLL_RETRY_SECONDS = 3;
+
+export async function GET(
+  _req: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const { id } = await props.params;
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Not authenticated" }), { status: 401 });
+  }
+
+  // RLS scopes the lookup to the caller's own jobs
+  const job = await getLearningPathJob(sb, id);
+  if (!job) {
+    return new Response(JSON.stringify({ error: "Job not found" }), { status: 404 });
+  }
+
+  const active = isLearningPathJobActive(job);
+  // A running job whose lease lapsed is waiting to be reclaimed by the next request
+  const stalled = job.status === "running" && !active;
+
+  return new Response(
+    JSON.stringify({
+      job: {
+        id: job.id,
+        subject: job.subject,
+        course: job.course,
+        status: job.status,
+        stalled,
+        attempts: job.attempts,
+        progress: { phase: job.phase, detail: job.detail, pct: job.pct, fallback: job.fallback },
+        error: job.error,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        updatedAt: job.updatedAt,
+      },
+    }),
+    {
+      status: 200,
+      headers: {
+        "content-type": "application/json",
+        ...(active ? { "retry-after": String(POLL_RETRY_SECONDS) } : {}),
+      },
+    }
+  );
+}
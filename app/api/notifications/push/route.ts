@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { isNotificationChannelConfigured, savePushSubscription } from "@/lib/notification-delivery";
+
+const MAX_FIELD_LENGTH = 2048;
+
+function readField(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 && value.length <= MAX_FIELD_LENGTH ? value : null;
+}
+
+/** Register this browser's push subscription (PushSubscription.toJSON()). */
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    if (!isNotificationChannelConfigured("push")) {
+      return NextResponse.json({ error: "Push notifications are not available" }, { status: 503 });
+    }
+
+    const payload = await req.json().catch(() => ({}));
+    const endpoint = readField(payload?.endpoint);
+    const p256dh = readField(payload?.keys?.p256dh);
+    const auth = readField(payload?.keys?.auth);
+    if (!endpoint || !p256dh || !auth || !endpoint.startsWith("https://")) {
+      return NextResponse.json({ error: "A valid push subscription is required" }, { status: 400 });
+    }
+
+    await savePushSubscription(sb, {
+      endpoint,
+      p256dh,
+      auth,
+      userAgent: req.headers.get("user-agent")?.slice(0, 256) ?? null,
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("/api/notifications/push POST error", error);
+    return NextResponse.json({ error: "Unable to enable push notifications" }, { status: 500 });
+  }
+}
+
+/** Forget a subscription, e.g. after the user turns push off on this device. */
+export async function DELETE(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const endpoint = readField(payload?.endpoint);
+    if (!endpoint) {
+      return NextResponse.json({ error: "endpoint is required" }, { status: 400 });
+    }
+
+    const { error } = await sb
+      .from("push_subscriptions")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("endpoint", endpoint);
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("/api/notifications/push DELETE error", error);
+    return NextResponse.json({ error: "Unable to disable push notifications" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+
+/** Mark the given notifications read, or every unread one with { all: true }. */
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const all = payload?.all === true;
+    const ids: string[] = Array.isArray(payload?.ids)
+      ? payload.ids.filter((value: unknown): value is string => typeof value === "string").slice(0, 100)
+      : [];
+    if (!all && !ids.length) {
+      return NextResponse.json({ error: "Notification IDs are required" }, { status: 400 });
+    }
+
+    let query = sb
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+    if (!all) query = query.in("id", ids);
+    const { error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("/api/notifications/read POST error", error);
+    return NextResponse.json({ error: "Unable to update notifications" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import {
+  NOTIFICATION_COLUMNS,
+  NOTIFICATION_PAGE_SIZE,
+  normalizeNotification,
+  type AppNotification,
+} from "@/lib/notifications";
+
+/**
+ * GET /api/notifications?before=<iso>&unread=1
+ *
+ * The inbox, newest first, plus the unread count. push=1 lists what was sent
+ * by web push instead; the service worker uses it to show a push, which
+ * arrives without a payload.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const params = req.nextUrl.searchParams;
+    const limit = Math.min(Math.max(Number(params.get("limit")) || NOTIFICATION_PAGE_SIZE, 1), 50);
+    const before = params.get("before");
+    const viaPush = params.get("push") === "1";
+
+    let query = sb
+      .from("notifications")
+      .select(NOTIFICATION_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    query = viaPush ? query.not("pushed_at", "is", null) : query.eq("in_app", true);
+    if (params.get("unread") === "1") query = query.is("read_at", null);
+    if (before && !Number.isNaN(Date.parse(before))) query = query.lt("created_at", before);
+
+    const [listRes, countRes] = await Promise.all([
+      query,
+      sb
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .eq("in_app", true)
+        .is("read_at", null),
+    ]);
+    if (listRes.error) throw listRes.error;
+    if (countRes.error) throw countRes.error;
+
+    const notifications = ((listRes.data as Record<string, unknown>[] | null) ?? [])
+      .map(normalizeNotification)
+      .filter((entry): entry is AppNotification => !!entry);
+
+    return NextResponse.json({
+      ok: true,
+      notifications,
+      unreadCount: countRes.count ?? 0,
+      hasMore: notifications.length === limit,
+    });
+  } catch (error) {
+    console.error("/api/notifications GET error", error);
+    return NextResponse.json({ error: "Unable to load notifications" }, { status: 500 });
+  }
+}
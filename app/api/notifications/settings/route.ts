@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { isNotificationChannelConfigured } from "@/lib/notification-delivery";
+import {
+  isEmailFrequency,
+  isNotificationType,
+  normalizeNotificationPreferences,
+} from "@/lib/notifications";
+
+function channelAvailability() {
+  return {
+    email: isNotificationChannelConfigured("email"),
+    push: isNotificationChannelConfigured("push"),
+  };
+}
+
+export async function GET() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { data, error } = await sb
+      .from("profiles")
+      .select("notification_preferences")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    return NextResponse.json({
+      ok: true,
+      preferences: normalizeNotificationPreferences(
+        (data as { notification_preferences?: unknown } | null)?.notification_preferences
+      ),
+      channels: channelAvailability(),
+    });
+  } catch (error) {
+    console.error("/api/notifications/settings GET error", error);
+    return NextResponse.json({ error: "Unable to load notification settings" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const raw = payload?.preferences;
+    if (!raw || typeof raw !== "object") {
+      return NextResponse.json({ error: "preferences are required" }, { status: 400 });
+    }
+    for (const [type, entry] of Object.entries(raw as Record<string, unknown>)) {
+      const value = entry as { inApp?: unknown; email?: unknown; push?: unknown } | null;
+      if (
+        !isNotificationType(type) ||
+        !value ||
+        typeof value.inApp !== "boolean" ||
+        typeof value.push !== "boolean" ||
+        !isEmailFrequency(value.email)
+      ) {
+        return NextResponse.json({ error: `Invalid preference for ${type}` }, { status: 400 });
+      }
+    }
+    const preferences = normalizeNotificationPreferences(raw);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (sb as any)
+      .from("profiles")
+      .update({ notification_preferences: preferences, updated_at: new Date().toISOString() })
+      .eq("id", user.id);
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, preferences, channels: channelAvailability() });
+  } catch (error) {
+    console.error("/api/notifications/settings PUT error", error);
+    return NextResponse.json({ error: "Unable to save notification settings" }, { status: 500 });
+  }
+}
@@ -1,13 +1,56 @@
 import React from "react";
 import { ImageResponse } from "next/og";
+import { createClient } from "@supabase/supabase-js";
+import { lessons } from "@/data/lessons";
+import { getLessonPermalink } from "@/lib/lesson-permalinks";
 import { siteConfig } from "@/lib/seo";
 
 export const runtime = "edge";
 
 const size = { width: 1200, height: 630 };
 
-export async function GET() {
+type CardContent = {
+  label: string;
+  headline: string;
+  tagline: string;
+  badges: string[];
+};
+
+const brandCard: CardContent = {
+  label: "AI Learning Coach",
+  headline: "Learn faster with adaptive micro-lessons, instant quizzes, and spaced repetition.",
+  tagline: siteConfig.tagline,
+  badges: [],
+};
+
+// Crawlers fetch this signed out, so only public lessons get their own card
+async function loadLessonCard(id: string): Promise<CardContent | null> {
+  let lesson: { title: string; subject: string; topic?: string | null; difficulty?: string | null } | null =
+    lessons.find((entry) => entry.id === id) ?? null;
+  if (!lesson) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_CUSTOM_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    if (!url || !anonKey) return null;
+    const sb = createClient(url, anonKey, { auth: { persistSession: false, autoRefreshToken: false } });
+    lesson = (await getLessonPermalink(sb, id))?.lesson ?? null;
+  }
+  if (!lesson) return null;
+
+  const title = lesson.title.trim();
+  return {
+    label: lesson.subject,
+    headline: title.length > 90 ? `${title.slice(0, 87)}...` : title,
+    tagline: lesson.topic?.trim() || siteConfig.tagline,
+    badges: lesson.difficulty
+      ? [lesson.difficulty.charAt(0).toUpperCase() + lesson.difficulty.slice(1), "Micro-lesson + quiz"]
+      : ["Micro-lesson + quiz"],
+  };
+}
+
+export async function GET(req: Request) {
   const hostname = new URL(siteConfig.url).hostname;
+  const lessonId = new URL(req.url).searchParams.get("lesson");
+  const card = (lessonId ? await loadLessonCard(lessonId) : null) ?? brandCard;
 
   const element = React.createElement(
     "div",
@@ -64,7 +107,7 @@ export async function GET() {
                   key: "label",
                   style: { fontSize: 24, opacity: 0.8 },
                 },
-                "AI Learning Coach"
+                card.label
               ),
               React.createElement(
                 "span",
@@ -81,10 +124,49 @@ export async function GET() {
       React.createElement(
         "div",
         {
-          key: "headline",
-          style: { maxWidth: 760, fontSize: 48, lineHeight: 1.1, fontWeight: 700 },
+          key: "body",
+          style: { display: "flex", flexDirection: "column", gap: "24px" },
         },
-        "Learn faster with adaptive micro-lessons, instant quizzes, and spaced repetition."
+        [
+          React.createElement(
+            "div",
+            {
+              key: "headline",
+              style: {
+                maxWidth: card === brandCard ? 760 : 1000,
+                fontSize: card === brandCard ? 48 : 60,
+                lineHeight: 1.1,
+                fontWeight: 700,
+              },
+            },
+            card.headline
+          ),
+          card.badges.length > 0
+            ? React.createElement(
+                "div",
+                {
+                  key: "badges",
+                  style: { display: "flex", gap: "12px" },
+                },
+                card.badges.map((badge) =>
+                  React.createElement(
+                    "span",
+                    {
+                      key: badge,
+                      style: {
+                        padding: "8px 20px",
+                        borderRadius: "999px",
+                        background: "rgba(248, 250, 252, 0.14)",
+                        fontSize: 24,
+                        fontWeight: 600,
+                      },
+                    },
+                    badge
+                  )
+                )
+              )
+            : null,
+        ]
       ),
       React.createElement(
         "div",
@@ -99,7 +181,7 @@ export async function GET() {
               key: "tagline",
               style: { fontSize: 24, opacity: 0.85 },
             },
-            siteConfig.tagline
+            card.tagline
           ),
           React.createElement(
             "div",
@@ -1,13 +1,20 @@
 import { NextResponse } from "next/server";
 import type { PlacementState } from "@/types/placement";
 import { supabaseServer } from "@/lib/supabase-server";
+import { supabaseService } from "@/lib/supabase-service";
 import type { Database } from "@/lib/types_db";
 import { generateLearningPath, type LevelMap } from "@/lib/learning-path";
-import { computeStreakAfterActivity } from "@/lib/profile-stats";
+import { resolveStreakActivity } from "@/lib/profile-stats";
+import { recordStreakActivity } from "@/lib/streaks";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
+// Placement answers are graded in the browser, so points are claimed on the
+// attempt_answers ledger: once per learner, for at most one course's questions
+const PLACEMENT_LEDGER_ID = "placement";
+const PLACEMENT_MAX_AWARDED = 6;
+
 // Background function to generate and update learning path asynchronously
 async function generateAndUpdatePathInBackground(
   userId: string,
@@ -126,18 +133,27 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: attemptError.message }, { status: 500 });
   }
   const now = new Date();
-  const today = now.toISOString().slice(0, 10);
   const nowIso = now.toISOString();
   const { data: prof } = await sb
     .from("profiles")
-    .select("points, streak, last_study_date")
+    .select("points, streak, last_study_date, streak_freezes, timezone")
     .eq("id", user.id)
     .maybeSingle();
-  const profile = prof as { points?: number | null; streak?: number | null; last_study_date?: string | null } | null;
+  const profile = prof as {
+    points?: number | null;
+    streak?: number | null;
+    last_study_date?: string | null;
+    streak_freezes?: number | null;
+    timezone?: string | null;
+  } | null;
   const currentPoints = profile?.points ?? 0;
   const last = profile?.last_study_date ?? null;
   const previousStreak = profile?.streak ?? 0;
-  const newStreak = computeStreakAfterActivity(previousStreak, last, now);
+  const streakOutcome = resolveStreakActivity(previousStreak, last, now, {
+    timeZone: profile?.timezone,
+    freezes: profile?.streak_freezes ?? 0,
+  });
+  const newStreak = streakOutcome.streak;
 
   // Calculate points based on difficulty of placement test
   const difficultyPoints: Record<string, number> = {
@@ -147,31 +163,44 @@ export async function POST(req: Request) {
     "hard": 30,
   };
   const pointsPerCorrect = difficulty && typeof difficulty === "string" ? (difficultyPoints[difficulty] || 10) : 10;
-  const addPts = Math.max(0, Number(correctTotal) || 0) * pointsPerCorrect;
+  const awardable = Math.min(PLACEMENT_MAX_AWARDED, Math.max(0, Math.floor(Number(correctTotal) || 0)));
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: claimData, error: claimError } = await (sb as any).rpc("claim_attempt_answers", {
+    p_lesson_id: PLACEMENT_LEDGER_ID,
+    p_answers: Array.from({ length: awardable }, (_, idx) => ({ question_index: idx, correct: true })),
+  });
+  if (claimError) {
+    console.error("[placement-finish] points claim failed", claimError);
+  }
+  const claimedRows = claimError ? [] : ((claimData as { question_index: number }[] | null) ?? []);
+  const addPts = claimedRows.length * pointsPerCorrect;
 
   console.log("[placement-finish] Awarding points:", {
     correctTotal,
+    claimed: claimedRows.length,
     difficulty,
     pointsPerCorrect,
     addPts,
     currentPoints,
     newTotal: currentPoints + addPts,
   });
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const { data: updatedProfile, error: updateError } = await (sb as any)
+  const service = supabaseService();
+  const { data: updatedProfile, error: updateError } = await service
     .from("profiles")
     .update({
-      last_study_date: today,
+      last_study_date: streakOutcome.today,
       streak: newStreak,
+      streak_freezes: streakOutcome.freezes,
       points: currentPoints + addPts,
       updated_at: nowIso,
     })
     .eq("id", user.id)
-    .select("points, streak, last_study_date, updated_at")
+    .select("points, streak, last_study_date, streak_freezes, timezone, updated_at")
     .maybeSingle();
   if (updateError) {
     return NextResponse.json({ error: updateError.message }, { status: 500 });
   }
+  await recordStreakActivity(service, user.id, streakOutcome);
 
   // Clear the placement flag so /post-auth routes to /fyp next time
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -8,7 +8,7 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import type { PlacementState, PlacementItem, Difficulty, PlacementNextResponse } from "@/types/placement";
 import { supabaseServer } from "@/lib/supabase-server";
 import { canUserGenerate, logUsage } from "@/lib/usage";
-import { createModelClient, fetchUserTier } from "@/lib/model-config";
+import { createModelClient, fetchUserTier, type ServedModelRoute } from "@/lib/model-config";
 import { shuffleQuestionChoices } from "@/lib/quiz-shuffle";
 import { LEVELS_BY_DOMAIN } from "@/data/domains";
 import { getCodeInterpreterParams, adjustTokenLimitForCodeInterpreter } from "@/lib/code-interpreter";
@@ -73,8 +73,7 @@ async function makeQuestion(
   ip: string,
   aiClient: OpenAI,
   model: string,
-  modelIdentifier: string,
-  provider: string,
+  route: ServedModelRoute,
   userTier: string,
   avoid: string[] = [],
   depth = 0
@@ -268,7 +267,7 @@ Create 1 multiple-choice question from course syllabus. Include brief explanatio
     }
     if (mapped) {
       try {
-        await logUsage(sb, uid, ip, modelIdentifier, mapped, {
+        await logUsage(sb, uid, ip, route.modelIdentifier, mapped, {
           metadata: {
             route: "placement-test",
             subject: state.subject,
@@ -278,7 +277,7 @@ Create 1 multiple-choice question from course syllabus. Include brief explanatio
             maxSteps: state.maxSteps,
             mistakes: state.mistakes,
             correctStreak: state.correctStreak,
-            provider,
+            provider: route.provider,
             tier: userTier,
           }
         });
@@ -319,7 +318,7 @@ Create 1 multiple-choice question from course syllabus. Include brief explanatio
 
   // If model ignored instructions, retry a couple times
   if (avoid.some((a) => a.trim() === item.prompt.trim()) && depth < 2) {
-    return makeQuestion(state, sb, uid, ip, aiClient, model, modelIdentifier, provider, userTier, avoid, depth + 1);
+    return makeQuestion(state, sb, uid, ip, aiClient, model, route, userTier, avoid, depth + 1);
   }
 
   return item;
@@ -352,7 +351,7 @@ export async function POST(req: Request) {
   const userTier = await fetchUserTier(sb, user.id);
 
   // Use FAST model for immediate placement test response
-  const { client: ai, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+  const { client: ai, model, route } = createModelClient(userTier, 'fast');
 
   try {
     const bodyText = await req.text();
@@ -476,7 +475,7 @@ export async function POST(req: Request) {
     let nowItem: PlacementItem | null = null;
     for (let i = 0; i < MAX_TRIES && !nowItem; i++) {
       if (i > 0) { /* retry */ }
-      nowItem = await makeQuestion(state, sb, user.id, ip, ai, model, modelIdentifier, provider, userTier, state.asked);
+      nowItem = await makeQuestion(state, sb, user.id, ip, ai, model, route, userTier, state.asked);
     }
     // If we could not generate a question but we are not truly finished,
     // return an error instead of { item: null } to avoid clients treating this
@@ -499,8 +498,8 @@ export async function POST(req: Request) {
       const stateIfWrong = nextState(state, false);
       const avoidForBranches = state.asked;
       const [rightItem, wrongItem] = await Promise.all([
-        makeQuestion(stateIfRight, sb, user.id, ip, ai, model, modelIdentifier, provider, userTier, avoidForBranches),
-        makeQuestion(stateIfWrong, sb, user.id, ip, ai, model, modelIdentifier, provider, userTier, avoidForBranches),
+        makeQuestion(stateIfRight, sb, user.id, ip, ai, model, route, userTier, avoidForBranches),
+        makeQuestion(stateIfWrong, sb, user.id, ip, ai, model, route, userTier, avoidForBranches),
       ]);
       const t1 = Date.now();
       if (rightItem) stateIfRight.asked.push(rightItem.prompt);
@@ -530,12 +529,12 @@ export async function POST(req: Request) {
       const { data: { user } } = await sb.auth.getUser();
       const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
       if (user) {
-        await logUsage(sb, user.id, ip, modelIdentifier, { input_tokens: null, output_tokens: null }, {
+        await logUsage(sb, user.id, ip, route.modelIdentifier, { input_tokens: null, output_tokens: null }, {
           metadata: {
             route: "placement-test",
             error: msg,
             errorType: e instanceof Error ? e.name : typeof e,
-            provider,
+            provider: route.provider,
             tier: userTier,
           }
         });
@@ -1,7 +1,6 @@
 import { NextRequest } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
-import { generateLessonForTopic } from "@/lib/fyp";
-import { generateLessonBatch, type BatchLessonRequest } from "@/lib/batch-lesson-generator";
+import { generateLessonSet } from "@/lib/lesson-generation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -142,37 +141,45 @@ export async function GET(
     const allTitles = lessons.map(l => (l as { title?: string }).title).filter((t): t is string => Boolean(t));
     const lessonDescriptors = allTitles.slice(0, 5);
 
-    // OPTIMIZED: Use batch generation for similar lessons (saves ~30% input tokens)
+    // OPTIMIZED: One completion for every similar lesson (saves ~30% input tokens)
     const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
-
-    // Build batch requests for all similar lessons
-    const batchRequests: BatchLessonRequest[] = Array.from({ length: count }, () => ({
-      subject: primarySubject,
-      topic: primaryTopic || `${primarySubject} Concepts`,
-      opts: {
+    const seeds = lessons
+      .map(l => ({
+        title: (l as { title?: string }).title ?? "",
+        topic: l.topic ?? undefined,
+        difficulty: l.difficulty ?? undefined,
+      }))
+      .filter(seed => seed.title);
+
+    console.log(`[generate-similar] Generating ${count} lessons in one call`);
+
+    const { lessons: generated } = await generateLessonSet(
+      sb,
+      user.id,
+      ip,
+      {
+        kind: "playlist",
+        subject: primarySubject,
+        topic: primaryTopic || `${primarySubject} Concepts`,
+        seeds,
+      },
+      count,
+      {
         difficultyPref: primaryDifficulty,
-        // avoidTitles removed - AI prompt optimization (saves 50-150 tokens)
-        // Natural diversity without explicit avoidance
         savedLessonDescriptors: lessonDescriptors,
         structuredContext: {
           focus: "reinforcement",
           miniLesson: `Similar to: ${lessonDescriptors.slice(0, 3).join(", ")}`,
-        }
+        },
+        usage: { feature: "playlist-generate-similar", route: "playlist-generate-similar", metadata: { playlistId } },
       }
-    }));
-
-    console.log(`[generate-similar] Using batch generation for ${count} lessons (saves ~30% tokens)`);
-
-    // Generate all lessons in parallel batch
-    const batchResults = await generateLessonBatch(sb, user.id, ip, batchRequests);
+    );
 
-    // Extract successful lessons
-    const generatedLessons = batchResults
-      .filter(result => result.success && result.lesson)
-      .map(result => result.lesson!);
+    // Keep the lessons that passed validation
+    const generatedLessons = generated.filter(lesson => lesson !== null);
 
     if (generatedLessons.length === 0) {
-      console.error('[generate-similar] All batch generations failed:', batchResults.map(r => r.error));
+      console.error('[generate-similar] No valid lessons in the response');
       return new Response(JSON.stringify({
         error: "Failed to generate similar lessons. Please try again."
       }), {
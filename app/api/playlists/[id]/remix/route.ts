@@ -1,8 +1,8 @@
 import { NextRequest } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
-import { createModelClient, fetchUserTier } from "@/lib/model-config";
-import { logUsage } from "@/lib/usage";
-import { getCodeInterpreterParams, adjustTokenLimitForCodeInterpreter, usedCodeInterpreter } from "@/lib/code-interpreter";
+import { fetchUserTier } from "@/lib/model-config";
+import { parseLessonFormat } from "@/lib/schema";
+import { generateLessonSet } from "@/lib/lesson-generation";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,6 +11,7 @@ export const maxDuration = 60;
 // Token-optimized lesson summary for efficient AI processing
 type LessonSummary = {
   subject: string;
+  title: string;
   topic: string;
   difficulty: "intro" | "easy" | "medium" | "hard";
   concepts: string[]; // Key concepts extracted from content
@@ -127,6 +128,7 @@ function compressPlaylistLessons(lessons: Array<{
 
     summaries.push({
       subject: lesson.subject,
+      title: lesson.title,
       topic: lesson.topic || "General",
       difficulty: (lesson.difficulty as "intro" | "easy" | "medium" | "hard") || "medium",
       concepts,
@@ -195,17 +197,12 @@ export async function GET(
 
   console.log("[remix] Starting remix generation", { playlistId, count, userId: user.id });
 
-  // Declare these outside try block for error logging
-  let modelIdentifier = 'unknown';
-  let provider: 'groq' | 'deepinfra' | 'cerebras' | 'lightningai' | 'fireworksai' = 'groq';
-  let userTier: 'free' | 'plus' | 'premium' = 'free';
-
   try {
     // 1. Get playlist and verify access
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const { data: playlist, error: playlistError } = await (sb as any)
       .from("playlists")
-      .select("id, user_id, name")
+      .select("id, user_id, name, lesson_format")
       .eq("id", playlistId)
       .maybeSingle();
 
@@ -283,157 +280,47 @@ export async function GET(
     console.log("[remix] Analyzed patterns", patterns);
 
     // 5. Get user tier for model selection
-    userTier = await fetchUserTier(sb, user.id);
-
-    // 6. Generate remix lessons using OpenAI with token-optimized prompt
-    const modelClient = createModelClient(userTier, "fast"); // Use fast for reliable generation
-    const openai = modelClient.client;
-    const modelName = modelClient.model;
-    modelIdentifier = modelClient.modelIdentifier;
-    provider = modelClient.provider;
-
-    const systemPrompt = `You are an expert educational content generator. Your task is to create ${count} new lessons that follow similar patterns to an existing playlist, but with fresh content and variations.
-
-PLAYLIST ANALYSIS:
-- Subjects: ${patterns.subjects.join(", ")}
-- Topics: ${patterns.topics.join(", ")}
-- Difficulty Range: ${patterns.difficultyRange.join(", ")}
-- Common Themes: ${patterns.conceptThemes.join(", ")}
-
-SAMPLE LESSONS (compressed for efficiency):
-${summaries.slice(0, 3).map((s, i) => `
-${i + 1}. ${s.subject} - ${s.topic} (${s.difficulty})
-   Key Concepts: ${s.concepts.join(" | ")}
-`).join("")}
-
-INSTRUCTIONS:
-1. Generate ${count} NEW lessons that maintain similar subject matter, difficulty, and conceptual depth
-2. Each lesson should be DIFFERENT from the originals but follow similar patterns
-3. Mix up the topics and concepts while staying in the same subject areas
-4. Include exactly 3 multiple-choice questions per lesson (4 choices each)
-5. Content should be 80-105 words (max 900 chars)
-
-CRITICAL: You MUST respond with ONLY a valid JSON object with a "lessons" array. No markdown, no code blocks, just pure JSON.
-
-FORMAT:
-{
-  "lessons": [
-    {
-      "id": "unique-slug-id",
-      "subject": "subject name",
-      "topic": "specific topic",
-      "title": "engaging lesson title (3-7 words)",
-      "content": "detailed explanation (80-105 words, max 900 chars)",
-      "difficulty": "intro|easy|medium|hard",
-      "questions": [
-        {
-          "prompt": "question text",
-          "choices": ["option A", "option B", "option C", "option D"],
-          "correctIndex": 0,
-          "explanation": "why correct (max 15 words)"
-        }
-      ]
-    }
-  ]
-}`;
-
-    console.log("[remix] Calling OpenAI API...");
-
-    // Adjust token limits for code_interpreter tool overhead (+500 tokens)
-    const baseMaxTokens = 16000;
-    const maxTokens = adjustTokenLimitForCodeInterpreter(baseMaxTokens);
-
-    // Get code interpreter params for accurate content generation
-    // REQUIRE code interpreter if any lessons are math-related
-    const isMathSubject = patterns.subjects.some(subject =>
-      /math|algebra|geometry|calculus|trigonometry|statistics|physics|chemistry/i.test(subject)
-    );
-    const codeInterpreterParams = getCodeInterpreterParams({
-      enabled: true,
-      toolChoice: isMathSubject ? "required" : "auto", // Force for math, optional for others
-      maxExecutionTime: 8000,
-      tokenOverhead: 500, // Already accounted for in maxTokens
-    });
+    const userTier = await fetchUserTier(sb, user.id);
 
-    const completion = await openai.chat.completions.create({
-      model: modelName,
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt
-        },
-        {
-          role: "user",
-          content: "Generate the remix lessons as a JSON array. Output ONLY the JSON array, nothing else."
-        }
-      ],
-      temperature: 0.8, // Higher temperature for creative variations
-      max_tokens: maxTokens,
-      // IMPORTANT: Removed response_format to allow code_interpreter tool usage
-      // The system prompt enforces JSON output without needing json_object mode
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ...(codeInterpreterParams as any), // Add code_interpreter tool
-    });
+    // 6. Generate remix lessons from the playlist's lessons; they follow the playlist's lesson format
+    const lessonFormat = parseLessonFormat(playlist.lesson_format);
+    const difficultyCounts = new Map<LessonSummary["difficulty"], number>();
+    summaries.forEach(s => difficultyCounts.set(s.difficulty, (difficultyCounts.get(s.difficulty) || 0) + 1));
+    const difficulty = Array.from(difficultyCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "medium";
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
 
-    const responseText = completion.choices[0]?.message?.content || "";
-
-    // Check if code interpreter was used
-    const message = completion.choices[0]?.message;
-    const codeInterpreterUsed = usedCodeInterpreter(message as { executed_tools?: Array<{ type: string }> });
-
-    console.log("[remix] Received response from API");
-
-    // Parse JSON response
-    let lessons;
-    try {
-      const parsed = JSON.parse(responseText);
-      // Handle both direct array and object with lessons key
-      lessons = Array.isArray(parsed) ? parsed : (parsed.lessons || []);
-    } catch (parseError) {
-      console.error("[remix] Failed to parse JSON:", parseError);
-      // Try to extract JSON array from text
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error("Failed to parse AI response as JSON");
+    const { lessons: generated, usage } = await generateLessonSet(
+      sb,
+      user.id,
+      ip,
+      {
+        kind: "playlist",
+        subject: patterns.subjects[0] ?? "General",
+        topic: patterns.topics.slice(0, 3).join(", ") || "General",
+        seeds: summaries.map(s => ({ title: s.title, topic: s.topic, difficulty: s.difficulty, concepts: s.concepts })),
+      },
+      count,
+      {
+        format: lessonFormat,
+        difficultyPref: difficulty,
+        userTier,
+        structuredContext: { focus: "remix", themes: patterns.conceptThemes, subjects: patterns.subjects },
+        usage: { feature: "playlist-remix", route: "playlist-remix", metadata: { playlistId } },
       }
-      lessons = JSON.parse(jsonMatch[0]);
-    }
+    );
+    const lessons = generated.filter((lesson) => lesson !== null);
 
-    if (!Array.isArray(lessons) || lessons.length === 0) {
+    if (lessons.length === 0) {
       throw new Error("No lessons generated");
     }
 
-    console.log("[remix] Successfully generated lessons", { count: lessons.length });
-
-    // Log API usage for cost tracking
-    const usage = completion?.usage;
-    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
-    if (usage && (user.id || ip)) {
-      try {
-        await logUsage(sb, user.id, ip, modelIdentifier, {
-          input_tokens: typeof usage.prompt_tokens === "number" ? usage.prompt_tokens : null,
-          output_tokens: typeof usage.completion_tokens === "number" ? usage.completion_tokens : null,
-        }, {
-          metadata: {
-            route: "playlist-remix",
-            playlistId,
-            lessonsGenerated: lessons.length,
-            provider,
-            tier: userTier,
-            codeInterpreterUsed
-          },
-        });
-        console.log('[remix] Usage logged successfully');
-      } catch (logError) {
-        console.error('[remix] Failed to log usage:', logError);
-      }
-    }
+    console.log("[remix] Successfully generated lessons", { count: lessons.length, format: lessonFormat });
 
     return new Response(JSON.stringify({
       ok: true,
       lessons,
       playlistName: playlist.name,
-      tokensUsed: completion.usage?.prompt_tokens || null,
+      tokensUsed: usage?.input_tokens ?? null,
     }), {
       status: 200,
       headers: { "content-type": "application/json" }
@@ -443,28 +330,6 @@ FORMAT:
     console.error("[remix] Failed", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
-    // Log failed attempt for cost tracking
-    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
-    if (user.id || ip) {
-      try {
-        await logUsage(sb, user.id, ip, modelIdentifier, {
-          input_tokens: null,
-          output_tokens: null,
-        }, {
-          metadata: {
-            route: "playlist-remix",
-            error: errorMessage,
-            errorType: error instanceof Error ? error.name : typeof error,
-            provider,
-            tier: userTier
-          },
-        });
-        console.log('[remix] Error usage logged');
-      } catch (logError) {
-        console.error('[remix] Failed to log error usage:', logError);
-      }
-    }
-
     return new Response(JSON.stringify({
       error: "Failed to generate remix lessons",
       details: errorMessage
@@ -0,0 +1,34 @@
+// app/api/profile/export/route.ts
+// GDPR data export: streams a JSON archive of everything tied to the signed-in learner
+
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { fetchUserTier } from "@/lib/model-config";
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate";
+import { createDataExportStream, dataExportFilename } from "@/lib/data-export";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+export async function GET(req: Request) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+  const tier = await fetchUserTier(sb, user.id);
+  const rateLimit = await checkRateLimit({ route: "data-export", ip: getClientIp(req), userId: user.id, tier });
+  if (!rateLimit.allowed) return rateLimitExceededResponse(rateLimit);
+
+  const now = new Date();
+  // Reads go through the learner's own session, so RLS limits the archive to rows they can see
+  return new Response(createDataExportStream(sb, user.id, now), {
+    status: 200,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "content-disposition": `attachment; filename="${dataExportFilename(now)}"`,
+      "cache-control": "private, no-store",
+      ...rateLimitHeaders(rateLimit),
+    },
+  });
+}
@@ -0,0 +1,57 @@
+// app/api/review/due/route.ts
+// Return spaced-repetition review items that are due, bundled as a lesson
+
+import { NextRequest } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { buildReviewLesson, countDueReviewItems, getDueReviewItems } from "@/lib/review-queue";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+
+export async function GET(req: NextRequest) {
+  const sb = await supabaseServer();
+  const { data: { user } } = await sb.auth.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Not authenticated" }), { status: 401 });
+  }
+
+  const subjectParam = req.nextUrl.searchParams.get("subject");
+  const subject = subjectParam && subjectParam.trim().length ? subjectParam.trim() : null;
+  const limitParam = Number(req.nextUrl.searchParams.get("limit"));
+  const limit = Number.isFinite(limitParam) && limitParam > 0
+    ? Math.min(MAX_LIMIT, Math.floor(limitParam))
+    : DEFAULT_LIMIT;
+
+  try {
+    const now = new Date();
+    const [items, dueCount] = await Promise.all([
+      getDueReviewItems(sb, user.id, { subject, limit, now }),
+      countDueReviewItems(sb, user.id, { subject, now }),
+    ]);
+
+    return new Response(
+      JSON.stringify({
+        dueCount,
+        items: items.map((item) => ({
+          lessonId: item.lessonId,
+          questionIndex: item.questionIndex,
+          subject: item.subject,
+          topic: item.topic,
+          lessonTitle: item.lessonTitle,
+          dueAt: item.dueAt,
+          intervalDays: item.intervalDays,
+          repetitions: item.repetitions,
+        })),
+        lesson: buildReviewLesson(items, now),
+      }),
+      { status: 200, headers: { "content-type": "application/json" } }
+    );
+  } catch (err) {
+    console.error("[review-due] error", err);
+    return new Response(JSON.stringify({ error: "Failed to load review items" }), { status: 500 });
+  }
+}
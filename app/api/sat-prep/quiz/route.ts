@@ -120,7 +120,7 @@ export async function POST(req: Request) {
     const userTier = uid ? await fetchUserTier(sb, uid) : 'free';
 
     // SAT Prep uses FAST model for immediate response
-    const { client, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+    const { client, model, provider, route } = createModelClient(userTier, 'fast');
 
     console.log("[sat-prep/quiz] request-start", { section, topic, topicLabel, tier: userTier, provider, model });
 
@@ -255,7 +255,7 @@ export async function POST(req: Request) {
     const usage = completion?.usage;
     if (usage && (uid || ip)) {
       try {
-        await logUsage(sb, uid, ip, modelIdentifier, {
+        await logUsage(sb, uid, ip, route.modelIdentifier, {
           input_tokens: usage.prompt_tokens ?? null,
           output_tokens: usage.completion_tokens ?? null,
         }, {
@@ -263,7 +263,7 @@ export async function POST(req: Request) {
             route: "sat-prep-quiz",
             section,
             topic,
-            provider,
+            provider: route.provider,
             tier: userTier,
             codeInterpreterUsed,
             // Enhanced metadata
@@ -49,7 +49,7 @@ export async function POST(req: Request) {
     const userTier = uid ? await fetchUserTier(sb, uid) : 'free';
 
     // SAT Prep uses FAST model for immediate response
-    const { client, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+    const { client, model, provider, route } = createModelClient(userTier, 'fast');
 
     console.log("[sat-prep/stream] request-start", { section, topic, topicLabel, tier: userTier, provider, model, dt: 0 });
 
@@ -285,8 +285,8 @@ export async function POST(req: Request) {
           }
           if (usageSummary && (uid || ip)) {
             try {
-              await logUsage(sb, uid, ip, modelIdentifier, usageSummary, {
-                metadata: { route: "sat-prep-lesson", section, topic, provider, tier: userTier, codeInterpreterUsed },
+              await logUsage(sb, uid, ip, route.modelIdentifier, usageSummary, {
+                metadata: { route: "sat-prep-lesson", section, topic, provider: route.provider, tier: userTier, codeInterpreterUsed },
               });
             } catch (logErr) {
               console.warn("[sat-prep/stream] usage-log-error", logErr);
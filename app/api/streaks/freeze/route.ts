@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { supabaseService } from "@/lib/supabase-service";
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_COST } from "@/lib/profile-stats";
+
+/** Buy one streak freeze with points. */
+export async function POST() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { data, error } = await sb
+      .from("profiles")
+      .select("points, streak_freezes")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+    const profile = data as { points: number | null; streak_freezes: number | null } | null;
+    if (!profile) return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+
+    const points = profile.points ?? 0;
+    const freezes = profile.streak_freezes ?? 0;
+    if (freezes >= MAX_STREAK_FREEZES) {
+      return NextResponse.json({ error: `You can hold up to ${MAX_STREAK_FREEZES} streak freezes` }, { status: 409 });
+    }
+    if (points < STREAK_FREEZE_COST) {
+      return NextResponse.json({ error: `A streak freeze costs ${STREAK_FREEZE_COST} points` }, { status: 409 });
+    }
+
+    // Matching on the values just read makes a double-click or a concurrent attempt a no-op.
+    // Points and freezes are only writable with the service role.
+    const { data: updated, error: updateError } = await supabaseService()
+      .from("profiles")
+      .update({
+        points: points - STREAK_FREEZE_COST,
+        streak_freezes: freezes + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", user.id)
+      .eq("points", points)
+      .eq("streak_freezes", freezes)
+      .select("points, streak, last_study_date, streak_freezes, timezone, updated_at")
+      .maybeSingle();
+    if (updateError) throw updateError;
+    if (!updated) {
+      return NextResponse.json({ error: "Your points changed, please try again" }, { status: 409 });
+    }
+
+    return NextResponse.json({ ok: true, profile: updated });
+  } catch (error) {
+    console.error("/api/streaks/freeze POST error", error);
+    return NextResponse.json({ error: "Unable to buy a streak freeze" }, { status: 500 });
+  }
+}
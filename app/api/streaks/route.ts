@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import {
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_COST,
+  STREAK_FREEZE_EARN_EVERY,
+  normalizeProfileStats,
+  shouldResetStreak,
+} from "@/lib/profile-stats";
+import { listStreakHistory } from "@/lib/streaks";
+
+/** Current streak, freeze inventory and past streaks for /achievements and /analytics. */
+export async function GET() {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { data, error } = await sb
+      .from("profiles")
+      .select("points, streak, last_study_date, streak_freezes, timezone, updated_at")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+    const stats = normalizeProfileStats((data as Record<string, unknown> | null) ?? null);
+    const opts = { timeZone: stats.timeZone, freezes: stats.streakFreezes };
+
+    const history = await listStreakHistory(sb, user.id, opts);
+    const alive = !shouldResetStreak(stats.lastStudyDate, new Date(), opts);
+
+    return NextResponse.json({
+      ok: true,
+      streak: alive ? stats.streak : 0,
+      points: stats.points,
+      freezes: stats.streakFreezes,
+      maxFreezes: MAX_STREAK_FREEZES,
+      freezeCost: STREAK_FREEZE_COST,
+      earnEvery: STREAK_FREEZE_EARN_EVERY,
+      history,
+    });
+  } catch (error) {
+    console.error("/api/streaks GET error", error);
+    return NextResponse.json({ error: "Unable to load streak history" }, { status: 500 });
+  }
+}
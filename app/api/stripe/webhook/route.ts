@@ -0,0 +1,74 @@
+// app/api/stripe/webhook/route.ts
+// Stripe webhook: verifies the signature and drives profiles.subscription_tier.
+// Local testing: `stripe listen --forward-to localhost:3000/api/stripe/webhook`,
+// then `stripe trigger checkout.session.completed` (or any handled event).
+
+import { NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { supabaseService } from "@/lib/supabase-service";
+import { getStripeClient } from "@/lib/stripe";
+import {
+  HANDLED_STRIPE_EVENTS,
+  applyStripeEvent,
+  claimStripeEvent,
+  finishStripeEvent,
+} from "@/lib/stripe-webhook";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const handledEvents = new Set<string>(HANDLED_STRIPE_EVENTS);
+
+export async function POST(req: Request) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret || !serviceKey) {
+    console.error("[stripe-webhook] missing STRIPE_WEBHOOK_SECRET or SUPABASE_SERVICE_ROLE_KEY");
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 500 });
+  }
+
+  const signature = req.headers.get("stripe-signature");
+  if (!signature) {
+    return NextResponse.json({ error: "Missing signature" }, { status: 400 });
+  }
+
+  // Signatures are computed over the raw body, so read it before any parsing
+  const rawBody = await req.text();
+  let event: Stripe.Event;
+  try {
+    event = getStripeClient().webhooks.constructEvent(rawBody, signature, secret);
+  } catch (err) {
+    console.warn("[stripe-webhook] signature verification failed", err);
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  if (!handledEvents.has(event.type)) {
+    return NextResponse.json({ received: true, ignored: true });
+  }
+
+  const sb = supabaseService();
+
+  try {
+    const claim = await claimStripeEvent(sb, event);
+    if (claim !== "claimed") {
+      return NextResponse.json({ received: true, duplicate: true, claim });
+    }
+  } catch (err) {
+    console.error("[stripe-webhook] claim error:", err);
+    return NextResponse.json({ error: "Failed to record event" }, { status: 500 });
+  }
+
+  try {
+    const outcome = await applyStripeEvent(sb, event);
+    await finishStripeEvent(sb, event.id);
+    if (!outcome.handled) {
+      console.warn("[stripe-webhook] event not applied", { id: event.id, type: event.type, reason: outcome.reason });
+    }
+    return NextResponse.json({ received: true, ...outcome });
+  } catch (err) {
+    console.error("[stripe-webhook] processing error:", { id: event.id, type: event.type, err });
+    await finishStripeEvent(sb, event.id, err);
+    // Non-2xx makes Stripe retry; the failed claim is taken over on the next delivery
+    return NextResponse.json({ error: "Failed to process event" }, { status: 500 });
+  }
+}
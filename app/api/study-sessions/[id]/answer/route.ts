@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { supabaseService } from "@/lib/supabase-service";
+import { gradeRoundAnswers, loadRoundAnswerKeys, normalizeRound, submitRoundAnswers } from "@/lib/study-sessions";
+import type { QuestionAnswer } from "@/lib/question-types";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { id: sessionId } = await params;
+    const payload = await req.json().catch(() => ({}));
+    const roundIndex = typeof payload?.roundIndex === "number" ? payload.roundIndex : NaN;
+    const answers: (QuestionAnswer | null)[] = Array.isArray(payload?.answers) ? payload.answers.slice(0, 10) : [];
+
+    if (!Number.isInteger(roundIndex) || roundIndex < 0) {
+      return NextResponse.json({ error: "Round is required" }, { status: 400 });
+    }
+    if (!answers.length) {
+      return NextResponse.json({ error: "Answers are required" }, { status: 400 });
+    }
+
+    const { data: membership, error: membershipError } = await sb
+      .from("study_session_participants")
+      .select("rsvp")
+      .eq("session_id", sessionId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (membershipError) throw membershipError;
+    const rsvp = (membership as { rsvp: string } | null)?.rsvp;
+    if (!rsvp || rsvp === "declined") {
+      return NextResponse.json({ error: "You're not part of this session" }, { status: 403 });
+    }
+
+    const { data: round, error: roundError } = await sb
+      .from("study_session_rounds")
+      .select("session_id, round_index, topic, lesson, status, answered_by, opened_at, revealed_at")
+      .eq("session_id", sessionId)
+      .eq("round_index", roundIndex)
+      .maybeSingle();
+
+    if (roundError) throw roundError;
+    const roomRound = round ? normalizeRound(round as Record<string, unknown>) : null;
+    if (!roomRound) {
+      return NextResponse.json({ error: "Round not found" }, { status: 404 });
+    }
+    if (roomRound.status !== "open") {
+      return NextResponse.json({ error: "This round has already been revealed" }, { status: 409 });
+    }
+
+    // Graded here against the stored key; participants only ever see the stripped lesson
+    const service = supabaseService();
+    const key = (await loadRoundAnswerKeys(service, sessionId, [roundIndex])).get(roundIndex);
+    if (!key) {
+      console.error("/api/study-sessions/[id]/answer missing answer key", { sessionId, roundIndex });
+      return NextResponse.json({ error: "Unable to submit answers" }, { status: 500 });
+    }
+    const score = gradeRoundAnswers(key, answers);
+    const roundStatus = await submitRoundAnswers(service, sessionId, roundIndex, user.id, answers, score);
+
+    return NextResponse.json({ ok: true, roundStatus });
+  } catch (error) {
+    console.error("/api/study-sessions/[id]/answer POST error", error);
+    return NextResponse.json({ error: "Unable to submit answers" }, { status: 500 });
+  }
+}
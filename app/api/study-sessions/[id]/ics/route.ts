@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { listSessionParticipants } from "@/lib/study-sessions";
+import {
+  buildCalendar,
+  buildSessionEvent,
+  CALENDAR_SESSION_COLUMNS,
+  calendarFilename,
+  type CalendarSession,
+} from "@/lib/calendar-ics";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * One session as an .ics file. Downloading it again after a change gives the
+ * same UID with a higher SEQUENCE, so calendar apps update the existing event;
+ * a cancelled session comes back as METHOD:CANCEL.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { id: sessionId } = await params;
+    const [sessionRes, profileRes] = await Promise.all([
+      sb.from("study_sessions").select(CALENDAR_SESSION_COLUMNS).eq("id", sessionId).maybeSingle(),
+      sb.from("profiles").select("session_reminder_minutes").eq("id", user.id).maybeSingle(),
+    ]);
+    if (sessionRes.error) throw sessionRes.error;
+    const session = sessionRes.data as CalendarSession | null;
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    const participants = (await listSessionParticipants(sb, [sessionId])).get(sessionId) ?? [];
+    // Same rule as the room: people the organizer removed can't export it either
+    if (session.organizer_id !== user.id && !participants.some((entry) => entry.userId === user.id)) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const reminderMinutes =
+      (profileRes.data as { session_reminder_minutes: number | null } | null)?.session_reminder_minutes ?? null;
+    const body = buildCalendar([buildSessionEvent(session, { participants, reminderMinutes })], {
+      method: session.status === "cancelled" ? "CANCEL" : "PUBLISH",
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${calendarFilename(session.title)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("/api/study-sessions/[id]/ics GET error", error);
+    return NextResponse.json({ error: "Unable to export study session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { supabaseService } from "@/lib/supabase-service";
+import { generateLessonForTopic } from "@/lib/fyp";
+import { fetchUserTier } from "@/lib/model-config";
+import {
+  buildSessionSummary,
+  hideAnswerKey,
+  isRoomJoinable,
+  listSessionParticipants,
+  loadRoundAnswerKeys,
+  MAX_ROOM_ROUNDS,
+  normalizeAnswer,
+  normalizeRound,
+  ROOM_OPENS_EARLY_MINUTES,
+  roundTopic,
+  type RoomAnswer,
+  type RoomRound,
+} from "@/lib/study-sessions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+// Opening a round generates a lesson
+export const maxDuration = 60;
+
+type SupabaseServerClient = Awaited<ReturnType<typeof supabaseServer>>;
+
+type RoomSession = {
+  id: string;
+  organizer_id: string;
+  title: string;
+  description: string | null;
+  subject: string | null;
+  topics: string[] | null;
+  scheduled_at: string;
+  duration_minutes: number;
+  status: string;
+  room_status: "scheduled" | "live" | "ended";
+  current_round: number | null;
+  started_at: string | null;
+  ended_at: string | null;
+};
+
+const ROOM_ACTIONS = ["start", "next", "reveal", "end"] as const;
+type RoomAction = (typeof ROOM_ACTIONS)[number];
+
+async function loadRoom(sb: SupabaseServerClient, sessionId: string, userId: string) {
+  const { data: session, error } = await sb
+    .from("study_sessions")
+    .select(
+      "id, organizer_id, title, description, subject, topics, scheduled_at, duration_minutes, status, room_status, current_round, started_at, ended_at"
+    )
+    .eq("id", sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!session) return null;
+  const room = session as RoomSession;
+
+  const [participantsBySession, roundsRes, answersRes] = await Promise.all([
+    listSessionParticipants(sb, [sessionId]),
+    sb
+      .from("study_session_rounds")
+      .select("session_id, round_index, topic, lesson, status, answered_by, opened_at, revealed_at")
+      .eq("session_id", sessionId)
+      .order("round_index", { ascending: true }),
+    // RLS returns the caller's own answers plus everyone's for revealed rounds
+    sb
+      .from("study_session_answers")
+      .select("round_index, user_id, answers, correct, total, submitted_at")
+      .eq("session_id", sessionId),
+  ]);
+  if (roundsRes.error) throw roundsRes.error;
+  if (answersRes.error) throw answersRes.error;
+
+  const participants = participantsBySession.get(sessionId) ?? [];
+  const me = participants.find((entry) => entry.userId === userId);
+  // Someone the organizer removed can still read the session row through the
+  // legacy friend_id, but they're not part of the room any more
+  if (!me && room.organizer_id !== userId) return null;
+
+  const storedRounds = ((roundsRes.data as Record<string, unknown>[] | null) ?? [])
+    .map(normalizeRound)
+    .filter((round): round is RoomRound => !!round);
+  // Rounds hold the stripped lesson; answer keys are only handed out once a round is revealed
+  const keys = await loadRoundAnswerKeys(
+    supabaseService(),
+    sessionId,
+    storedRounds.filter((round) => round.status === "revealed").map((round) => round.index)
+  );
+  const rounds = storedRounds.map((round) => {
+    const key = round.status === "revealed" ? keys.get(round.index) : undefined;
+    return key ? { ...round, lesson: key } : round;
+  });
+  const answers = ((answersRes.data as Record<string, unknown>[] | null) ?? [])
+    .map(normalizeAnswer)
+    .filter((answer): answer is RoomAnswer => !!answer);
+
+  return {
+    session: room,
+    participants,
+    rounds,
+    answers,
+    summary: buildSessionSummary(participants, rounds, answers),
+    isOrganizer: room.organizer_id === userId,
+    joinable: isRoomJoinable(room),
+  };
+}
+
+async function openRound(
+  req: NextRequest,
+  sb: SupabaseServerClient,
+  userId: string,
+  session: RoomSession,
+  roundIndex: number
+) {
+  const topic = roundTopic(session, roundIndex);
+  const subject = session.subject?.trim() || topic;
+  const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
+  const userTier = await fetchUserTier(sb, userId);
+
+  // One lesson per round, generated on the organizer's account and shared by everyone
+  const lesson = await generateLessonForTopic(sb, userId, ip, subject, topic, {
+    userTier,
+    modelSpeed: "fast",
+    nextTopicHint: roundTopic(session, roundIndex + 1),
+  });
+
+  // The key is stored first so a visible round can always be graded
+  const service = supabaseService();
+  const { error: keyError } = await service
+    .from("study_session_round_keys")
+    .upsert({ session_id: session.id, round_index: roundIndex, lesson }, { onConflict: "session_id,round_index" });
+  if (keyError) throw keyError;
+  const { error: roundError } = await service.from("study_session_rounds").insert({
+    session_id: session.id,
+    round_index: roundIndex,
+    topic,
+    lesson: hideAnswerKey(lesson),
+    status: "open",
+  });
+  if (roundError) throw roundError;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error: sessionError } = await (sb as any)
+    .from("study_sessions")
+    .update({ current_round: roundIndex, updated_at: new Date().toISOString() })
+    .eq("id", session.id);
+  if (sessionError) throw sessionError;
+}
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { id: sessionId } = await params;
+    const room = await loadRoom(sb, sessionId, user.id);
+    if (!room) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    return NextResponse.json({ ...room, userId: user.id });
+  } catch (error) {
+    console.error("/api/study-sessions/[id]/room GET error", error);
+    return NextResponse.json({ error: "Unable to load study room" }, { status: 500 });
+  }
+}
+
+/**
+ * Organizer controls: start the room (opens the first round), reveal the
+ * current round early, open the next round, or end the session.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const { id: sessionId } = await params;
+    const payload = await req.json().catch(() => ({}));
+    const action = payload?.action as RoomAction;
+    if (!ROOM_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const room = await loadRoom(sb, sessionId, user.id);
+    if (!room) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    if (!room.isOrganizer) {
+      return NextResponse.json({ error: "Only the organizer can run the room" }, { status: 403 });
+    }
+
+    const { session, rounds } = room;
+    const currentRound = rounds[rounds.length - 1] ?? null;
+    const now = new Date().toISOString();
+
+    if (action === "start") {
+      if (session.room_status === "live") {
+        return NextResponse.json({ error: "The room is already live" }, { status: 409 });
+      }
+      if (!room.joinable) {
+        return NextResponse.json(
+          { error: `The room opens ${ROOM_OPENS_EARLY_MINUTES} minutes before the session starts` },
+          { status: 409 }
+        );
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error: startError } = await (sb as any)
+        .from("study_sessions")
+        .update({ room_status: "live", started_at: now, status: "confirmed", updated_at: now })
+        .eq("id", sessionId);
+      if (startError) throw startError;
+      if (!currentRound) await openRound(req, sb, user.id, session, 0);
+    } else {
+      if (session.room_status !== "live") {
+        return NextResponse.json({ error: "The room isn't live" }, { status: 409 });
+      }
+
+      if (action === "next") {
+        if (currentRound && currentRound.status !== "revealed") {
+          return NextResponse.json({ error: "Reveal the current round first" }, { status: 409 });
+        }
+        if (rounds.length >= MAX_ROOM_ROUNDS) {
+          return NextResponse.json({ error: "This session has reached its round limit" }, { status: 409 });
+        }
+        await openRound(req, sb, user.id, session, rounds.length);
+      } else if (action === "reveal" || action === "end") {
+        if (currentRound && currentRound.status === "open") {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const { error: revealError } = await (sb as any)
+            .from("study_session_rounds")
+            .update({ status: "revealed", revealed_at: now })
+            .eq("session_id", sessionId)
+            .eq("round_index", currentRound.index);
+          if (revealError) throw revealError;
+        }
+        if (action === "end") {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const { error: endError } = await (sb as any)
+            .from("study_sessions")
+            .update({ room_status: "ended", ended_at: now, status: "completed", updated_at: now })
+            .eq("id", sessionId);
+          if (endError) throw endError;
+        }
+      }
+    }
+
+    const updated = await loadRoom(sb, sessionId, user.id);
+    return NextResponse.json({ ok: true, ...updated, userId: user.id });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Usage limit exceeded") {
+      return NextResponse.json(
+        { error: "You've reached your lesson limit, so no new rounds can be generated" },
+        { status: 429 }
+      );
+    }
+    console.error("/api/study-sessions/[id]/room POST error", error);
+    return NextResponse.json({ error: "Unable to update study room" }, { status: 500 });
+  }
+}
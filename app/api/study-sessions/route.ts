@@ -1,5 +1,30 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
+import { getHiddenUserIds, isBlockedBetween } from "@/lib/user-blocks";
+import { isRoomJoinable, listSessionParticipants, MAX_SESSION_INVITEES } from "@/lib/study-sessions";
+import { notifyUser } from "@/lib/notification-delivery";
+
+const SESSION_COLUMNS = `
+  id,
+  organizer_id,
+  friend_id,
+  title,
+  description,
+  subject,
+  topics,
+  scheduled_at,
+  duration_minutes,
+  status,
+  room_status,
+  current_round,
+  started_at,
+  ended_at,
+  created_at,
+  updated_at
+`;
+
+// Longest allowed session, so sessions already in progress are still listed
+const MAX_DURATION_MS = 480 * 60_000;
 
 export async function GET() {
   try {
@@ -9,36 +34,73 @@ export async function GET() {
     const user = authState.data.user;
     if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
 
-    const now = new Date().toISOString();
+    const since = new Date(Date.now() - MAX_DURATION_MS).toISOString();
+
+    const { data: memberships, error: membershipError } = await sb
+      .from("study_session_participants")
+      .select("session_id")
+      .eq("user_id", user.id);
+    if (membershipError) throw membershipError;
+    const memberSessionIds = ((memberships as { session_id: string }[] | null) ?? []).map((row) => row.session_id);
+
+    // Sessions the user organizes or was invited to (friend_id covers sessions
+    // created before participants existed)
+    const scopes = [`organizer_id.eq.${user.id}`, `friend_id.eq.${user.id}`];
+    if (memberSessionIds.length) scopes.push(`id.in.(${memberSessionIds.join(",")})`);
 
-    // Fetch sessions where the user is either organizer or participant
     const { data: sessions, error } = await sb
       .from("study_sessions")
       .select(`
-        id,
-        organizer_id,
-        friend_id,
-        title,
-        description,
-        subject,
-        topics,
-        scheduled_at,
-        duration_minutes,
-        status,
-        created_at,
-        updated_at,
+        ${SESSION_COLUMNS},
         organizer:organizer_id(id, username, full_name, avatar_url),
         friend:friend_id(id, username, full_name, avatar_url)
       `)
-      .or(`organizer_id.eq.${user.id},friend_id.eq.${user.id}`)
-      .gte("scheduled_at", now)
+      .or(scopes.join(","))
+      .gte("scheduled_at", since)
       .in("status", ["pending", "confirmed"])
+      .neq("room_status", "ended")
       .order("scheduled_at", { ascending: true })
       .limit(20);
 
     if (error) throw error;
 
-    return NextResponse.json({ sessions: sessions || [] });
+    type SessionRow = {
+      id: string;
+      organizer_id: string;
+      scheduled_at: string;
+      duration_minutes: number;
+      status: string;
+      room_status: string | null;
+    };
+    const now = Date.now();
+    const current = ((sessions ?? []) as SessionRow[]).filter(
+      (session) =>
+        session.room_status === "live" ||
+        new Date(session.scheduled_at).getTime() + session.duration_minutes * 60_000 >= now
+    );
+
+    // Invitations from users the caller blocked or muted are not shown to them
+    const hiddenIds = await getHiddenUserIds(sb);
+    const visible = current.filter(
+      (session) => !(session.organizer_id !== user.id && hiddenIds.has(session.organizer_id))
+    );
+
+    const participants = await listSessionParticipants(
+      sb,
+      visible.map((session) => session.id)
+    );
+
+    return NextResponse.json({
+      sessions: visible.map((session) => {
+        const roster = participants.get(session.id) ?? [];
+        return {
+          ...session,
+          participants: roster,
+          my_rsvp: roster.find((entry) => entry.userId === user.id)?.rsvp ?? null,
+          joinable: isRoomJoinable(session, now),
+        };
+      }),
+    });
   } catch (error) {
     console.error("/api/study-sessions GET error", error);
     return NextResponse.json({ error: "Unable to fetch study sessions" }, { status: 500 });
@@ -54,7 +116,20 @@ export async function POST(req: Request) {
     if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
 
     const payload = await req.json().catch(() => ({}));
-    const friendId = typeof payload?.friendId === "string" ? payload.friendId.trim() : "";
+    // friendId is the original single-invitee field; friendIds supersedes it
+    const requestedIds: unknown[] = Array.isArray(payload?.friendIds)
+      ? payload.friendIds
+      : typeof payload?.friendId === "string"
+        ? [payload.friendId]
+        : [];
+    const friendIds = Array.from(
+      new Set(
+        requestedIds
+          .filter((value): value is string => typeof value === "string")
+          .map((value) => value.trim())
+          .filter((value) => value && value !== user.id)
+      )
+    );
     const title = typeof payload?.title === "string" ? payload.title.trim() : "";
     const description = typeof payload?.description === "string" ? payload.description.trim() : null;
     const subject = typeof payload?.subject === "string" ? payload.subject.trim() : null;
@@ -62,8 +137,14 @@ export async function POST(req: Request) {
     const scheduledAt = typeof payload?.scheduledAt === "string" ? payload.scheduledAt : "";
     const durationMinutes = typeof payload?.durationMinutes === "number" ? payload.durationMinutes : 60;
 
-    if (!friendId) {
-      return NextResponse.json({ error: "Friend ID is required" }, { status: 400 });
+    if (!friendIds.length) {
+      return NextResponse.json({ error: "Invite at least one friend" }, { status: 400 });
+    }
+    if (friendIds.length > MAX_SESSION_INVITEES - 1) {
+      return NextResponse.json(
+        { error: `A session can include up to ${MAX_SESSION_INVITEES - 1} friends` },
+        { status: 400 }
+      );
     }
     if (!title) {
       return NextResponse.json({ error: "Session title is required" }, { status: 400 });
@@ -72,36 +153,49 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Scheduled time is required" }, { status: 400 });
     }
 
-    // Verify they are friends
-    const pairFilter =
-      "and(user_a.eq." +
-      user.id +
-      ",user_b.eq." +
-      friendId +
-      "),and(user_a.eq." +
-      friendId +
-      ",user_b.eq." +
-      user.id +
-      ")";
-
-    const { data: friendship, error: friendshipError } = await sb
+    const blocked = await Promise.all(friendIds.map((friendId) => isBlockedBetween(sb, user.id, friendId)));
+    if (blocked.some(Boolean)) {
+      return NextResponse.json({ error: "You can't schedule sessions with this user" }, { status: 403 });
+    }
+
+    // Verify they are all friends
+    const pairFilter = friendIds
+      .map(
+        (friendId) =>
+          "and(user_a.eq." +
+          user.id +
+          ",user_b.eq." +
+          friendId +
+          "),and(user_a.eq." +
+          friendId +
+          ",user_b.eq." +
+          user.id +
+          ")"
+      )
+      .join(",");
+
+    const { data: friendships, error: friendshipError } = await sb
       .from("friendships")
-      .select("id")
-      .or(pairFilter)
-      .maybeSingle();
+      .select("user_a, user_b")
+      .or(pairFilter);
 
     if (friendshipError) throw friendshipError;
-    if (!friendship) {
+    const friendSet = new Set(
+      ((friendships as { user_a: string; user_b: string }[] | null) ?? []).map((row) =>
+        row.user_a === user.id ? row.user_b : row.user_a
+      )
+    );
+    if (friendIds.some((friendId) => !friendSet.has(friendId))) {
       return NextResponse.json({ error: "You can only schedule sessions with friends" }, { status: 403 });
     }
 
-    // Create the study session
+    // Create the study session; friend_id keeps the first invitee for older clients
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const { data: session, error: insertError } = await (sb as any)
       .from("study_sessions")
       .insert({
         organizer_id: user.id,
-        friend_id: friendId,
+        friend_id: friendIds[0],
         title: title.slice(0, 200),
         description: description ? description.slice(0, 1000) : null,
         subject,
@@ -110,25 +204,45 @@ export async function POST(req: Request) {
         duration_minutes: durationMinutes,
         status: "pending",
       })
-      .select(`
-        id,
-        organizer_id,
-        friend_id,
-        title,
-        description,
-        subject,
-        topics,
-        scheduled_at,
-        duration_minutes,
-        status,
-        created_at,
-        updated_at
-      `)
+      .select(SESSION_COLUMNS)
       .maybeSingle();
 
     if (insertError) throw insertError;
+    if (!session) throw new Error("Study session insert returned no row");
+
+    const created = session as { id: string };
+    const respondedAt = new Date().toISOString();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: participantsError } = await (sb as any).from("study_session_participants").insert([
+      { session_id: created.id, user_id: user.id, role: "organizer", rsvp: "accepted", responded_at: respondedAt },
+      ...friendIds.map((friendId) => ({ session_id: created.id, user_id: friendId, role: "invitee", rsvp: "pending" })),
+    ]);
+
+    if (participantsError) {
+      // Don't leave a session nobody was invited to
+      await sb.from("study_sessions").delete().eq("id", created.id);
+      throw participantsError;
+    }
+
+    const participants = await listSessionParticipants(sb, [created.id]);
+    const roster = participants.get(created.id) ?? [];
+    const organizer = roster.find((entry) => entry.role === "organizer");
+    const organizerName = organizer?.fullName || organizer?.username || "A friend";
+    await Promise.all(
+      friendIds.map((friendId) =>
+        notifyUser(friendId, {
+          type: "session_invite",
+          title: `${organizerName} invited you to a study session`,
+          body: title.slice(0, 200),
+          url: "/friends",
+          actorId: user.id,
+          dedupeKey: `session_invite:${created.id}`,
+          data: { sessionId: created.id, scheduledAt },
+        })
+      )
+    );
 
-    return NextResponse.json({ ok: true, session });
+    return NextResponse.json({ ok: true, session: { ...session, participants: roster } });
   } catch (error) {
     console.error("/api/study-sessions POST error", error);
     return NextResponse.json({ error: "Unable to create study session" }, { status: 500 });
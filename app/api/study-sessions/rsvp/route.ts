@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { supabaseService } from "@/lib/supabase-service";
+import { isSessionRsvp, recordSessionConfirmed, respondToStudySession } from "@/lib/study-sessions";
+
+export async function POST(req: Request) {
+  try {
+    const sb = await supabaseServer();
+    const authState = await sb.auth.getUser();
+    if (authState.error) throw authState.error;
+    const user = authState.data.user;
+    if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const payload = await req.json().catch(() => ({}));
+    const sessionId = typeof payload?.sessionId === "string" ? payload.sessionId.trim() : "";
+    const rsvp = payload?.rsvp;
+
+    if (!sessionId) {
+      return NextResponse.json({ error: "Session ID is required" }, { status: 400 });
+    }
+    if (!isSessionRsvp(rsvp)) {
+      return NextResponse.json({ error: "Invalid RSVP" }, { status: 400 });
+    }
+
+    const status = await respondToStudySession(sb, sessionId, rsvp);
+    if (status === null) {
+      return NextResponse.json({ error: "You're not invited to this session" }, { status: 404 });
+    }
+
+    if (rsvp === "accepted") {
+      const { data: session } = await sb
+        .from("study_sessions")
+        .select("id, organizer_id, title, subject, scheduled_at")
+        .eq("id", sessionId)
+        .maybeSingle();
+      if (session) {
+        const sessionData = session as {
+          id: string;
+          organizer_id: string;
+          title: string;
+          subject: string | null;
+          scheduled_at: string;
+        };
+        await recordSessionConfirmed(supabaseService(), user.id, sessionData, sessionData.organizer_id);
+      }
+    }
+
+    return NextResponse.json({ ok: true, rsvp, status });
+  } catch (error) {
+    console.error("/api/study-sessions/rsvp POST error", error);
+    return NextResponse.json({ error: "Unable to update RSVP" }, { status: 500 });
+  }
+}
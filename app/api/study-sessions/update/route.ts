@@ -1,5 +1,13 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
+import { supabaseService } from "@/lib/supabase-service";
+import { recordSessionConfirmed, respondToStudySession, type SessionRsvp } from "@/lib/study-sessions";
+
+const INVITEE_STATUS_RSVP: Record<string, SessionRsvp | undefined> = {
+  pending: "pending",
+  confirmed: "accepted",
+  cancelled: "declined",
+};
 
 export async function POST(req: Request) {
   try {
@@ -23,7 +31,7 @@ export async function POST(req: Request) {
     // Fetch the session to verify permissions
     const { data: session, error: fetchError } = await sb
       .from("study_sessions")
-      .select("id, organizer_id, friend_id")
+      .select("id, organizer_id, friend_id, title, subject, scheduled_at")
       .eq("id", sessionId)
       .maybeSingle();
 
@@ -32,11 +40,30 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Session not found" }, { status: 404 });
     }
 
-    const sessionData = session as { id: string; organizer_id: string; friend_id: string };
+    const sessionData = session as {
+      id: string;
+      organizer_id: string;
+      friend_id: string;
+      title: string;
+      subject: string | null;
+      scheduled_at: string;
+    };
 
-    // Only allow organizer or friend to update status
-    if (sessionData.organizer_id !== user.id && sessionData.friend_id !== user.id) {
-      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+    // Invitees don't change the session itself: confirming or cancelling from
+    // their side is an RSVP, so one guest can't call off a group session
+    if (sessionData.organizer_id !== user.id) {
+      const rsvp = INVITEE_STATUS_RSVP[status];
+      if (!rsvp) {
+        return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+      }
+      const sessionStatus = await respondToStudySession(sb, sessionId, rsvp);
+      if (sessionStatus === null) {
+        return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+      }
+      if (rsvp === "accepted") {
+        await recordSessionConfirmed(supabaseService(), user.id, sessionData, sessionData.organizer_id);
+      }
+      return NextResponse.json({ ok: true, rsvp, status: sessionStatus });
     }
 
     // Update the session
@@ -66,6 +93,10 @@ export async function POST(req: Request) {
 
     if (updateError) throw updateError;
 
+    if (status === "confirmed" && updatedSession) {
+      await recordSessionConfirmed(supabaseService(), user.id, sessionData, sessionData.friend_id);
+    }
+
     return NextResponse.json({ ok: true, session: updatedSession });
   } catch (error) {
     console.error("/api/study-sessions/update POST error", error);
@@ -2,7 +2,7 @@ import { NextRequest } from 'next/server';
 import OpenAI from 'openai';
 import { cookies } from 'next/headers';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { take } from '@/lib/rate';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitHeaders } from '@/lib/rate';
 import { canUserGenerate, logUsage } from '@/lib/usage';
 import type { Database } from '@/lib/types_db';
 import { rankSupportKnowledge, type SupportKnowledgeEntry } from '@/lib/support-knowledge';
@@ -1157,10 +1157,7 @@ function buildSystemPrompt({
 }
 
 export async function POST(req: NextRequest) {
-  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ?? 'anon';
-  if (!take(ip)) {
-    return new Response(JSON.stringify({ error: 'Rate limit exceeded' }), { status: 429 });
-  }
+  const ip = getClientIp(req);
 
   const cookieStore = await cookies();
   const accessToken = cookieStore.get('sb-access-token')?.value;
@@ -1208,8 +1205,14 @@ export async function POST(req: NextRequest) {
   // Fetch user tier with cache-busting (always fresh, no stale data)
   const userTier = userId ? await fetchUserTier(supabase, userId) : 'free';
 
+  const rateLimit = await checkRateLimit({ route: 'support-chat', ip, userId, tier: userTier });
+  if (!rateLimit.allowed) {
+    console.log('[support/chat] Rate limit exceeded for', userId ? `user: ${userId}` : `IP: ${ip}`);
+    return rateLimitExceededResponse(rateLimit);
+  }
+
   // Use FAST model for immediate support chat response
-  const { client: aiClient, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+  const { client: aiClient, model, route } = createModelClient(userTier, 'fast');
 
   let payload: { messages?: unknown; context?: unknown };
   try {
@@ -1299,7 +1302,7 @@ export async function POST(req: NextRequest) {
           supabase,
           userId,
           ip,
-          modelIdentifier,
+          route.modelIdentifier,
           usageSummary,
           {
             metadata: {
@@ -1309,7 +1312,7 @@ export async function POST(req: NextRequest) {
               knowledgeIds: knowledgeEntries.map((entry) => entry.id),
               knowledgeCount: knowledgeEntries.length,
               hasLearnerSummary: Boolean(learnerSummary),
-              provider,
+              provider: route.provider,
               tier: userTier,
             },
           },
@@ -1319,7 +1322,10 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    return new Response(JSON.stringify({ reply }), { status: 200, headers: { 'content-type': 'application/json' } });
+    return new Response(JSON.stringify({ reply }), {
+      status: 200,
+      headers: { 'content-type': 'application/json', ...rateLimitHeaders(rateLimit) },
+    });
   } catch (error) {
     console.error('[support-chat] error', error);
     const message = error instanceof Error ? error.message : 'Support chat failed';
@@ -1329,7 +1335,7 @@ export async function POST(req: NextRequest) {
           supabase,
           userId,
           ip,
-          modelIdentifier,
+          route.modelIdentifier,
           { input_tokens: null, output_tokens: null },
           {
             metadata: {
@@ -1340,7 +1346,7 @@ export async function POST(req: NextRequest) {
               knowledgeIds: knowledgeEntries.map((entry) => entry.id),
               knowledgeCount: knowledgeEntries.length,
               hasLearnerSummary: Boolean(learnerSummary),
-              provider,
+              provider: route.provider,
               tier: userTier,
             },
           },
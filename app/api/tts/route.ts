@@ -3,6 +3,8 @@ import { supabaseServer } from "@/lib/supabase-server";
 import { translateLessonForTTS } from "@/lib/tts-translation";
 import { generateSpeech } from "@/lib/kokoro-tts";
 import { logUsage, calcCost, canUserGenerate } from "@/lib/usage";
+import { fetchUserTier } from "@/lib/model-config";
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitHeaders } from "@/lib/rate";
 
 /**
  * POST /api/tts
@@ -39,6 +41,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const userTier = await fetchUserTier(supabase, user.id);
+    const rateLimit = await checkRateLimit({ route: "tts", ip: getClientIp(req), userId: user.id, tier: userTier });
+    if (!rateLimit.allowed) {
+      console.log('[tts] Rate limit exceeded for user:', user.id);
+      return rateLimitExceededResponse(rateLimit);
+    }
+
     // Check usage limit
     const limitCheck = await canUserGenerate(supabase, user.id);
     if (!limitCheck.allowed) {
@@ -180,6 +189,7 @@ export async function POST(req: NextRequest) {
     if (audioUrl) {
       responseHeaders["X-Audio-URL"] = audioUrl;
     }
+    Object.assign(responseHeaders, rateLimitHeaders(rateLimit));
 
     return new NextResponse(audioBuffer, {
       status: 200,
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
 import { createClient } from '@supabase/supabase-js';
 import { logUsage } from '@/lib/usage';
+import { flushTelemetry, recordTelemetry } from '@/lib/telemetry';
+import { fetchUserTier } from '@/lib/model-config';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -68,6 +71,13 @@ export async function POST(request: NextRequest) {
 
     console.log('[deepseek-ocr-cheap] Client IP:', ip || 'unknown');
 
+    const userTier = userId ? await fetchUserTier(supabase, userId) : 'free';
+    const rateLimit = await checkRateLimit({ route: 'upload', ip: getClientIp(request), userId, tier: userTier });
+    if (!rateLimit.allowed) {
+      console.log('[deepseek-ocr-cheap] Rate limit exceeded for', userId ? `user: ${userId}` : `IP: ${ip}`);
+      return rateLimitExceededResponse(rateLimit);
+    }
+
     // Parse request body (expects JSON with single image)
     const body = await request.json();
     const { image, pageNum, detail = 'low' } = body;
@@ -152,6 +162,13 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      recordTelemetry(
+        'ocr_tier',
+        { tier: detail === 'high' ? 'deepseek-high' : 'deepseek-low', pages: 1, route: '/api/upload/parse-cheap' },
+        { userId }
+      );
+      await flushTelemetry();
+
       // Return extracted text
       return NextResponse.json({
         success: true,
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
 import { createClient } from '@supabase/supabase-js';
 import { logUsage } from '@/lib/usage';
+import { flushTelemetry, recordTelemetry } from '@/lib/telemetry';
+import { fetchUserTier } from '@/lib/model-config';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -265,6 +268,13 @@ export async function POST(request: NextRequest) {
 
     console.log('[deepseek-ocr] Client IP:', ip || 'unknown');
 
+    const userTier = userId ? await fetchUserTier(supabase, userId) : 'free';
+    const rateLimit = await checkRateLimit({ route: 'upload', ip: getClientIp(request), userId, tier: userTier });
+    if (!rateLimit.allowed) {
+      console.log('[deepseek-ocr] Rate limit exceeded for', userId ? `user: ${userId}` : `IP: ${ip}`);
+      return rateLimitExceededResponse(rateLimit);
+    }
+
     const contentType = request.headers.get('content-type') || '';
     console.log('[deepseek-ocr] Content-Type:', contentType);
 
@@ -272,6 +282,8 @@ export async function POST(request: NextRequest) {
     let images: string[] = [];
     let fileName = 'document';
     let fileSize = 0;
+    // smartOCR sends which tier it picked; the premium pipeline also comes through here
+    let ocrTier: 'deepseek-high' | 'deepseek-high-pipeline' = 'deepseek-high';
 
     if (contentType.includes('application/json')) {
       console.log('[deepseek-ocr] Processing JSON request');
@@ -280,6 +292,7 @@ export async function POST(request: NextRequest) {
       images = body.images || [];
       fileName = body.fileName || 'document';
       fileSize = body.fileSize || 0;
+      if (body.tier === 'deepseek-high-pipeline') ocrTier = 'deepseek-high-pipeline';
 
       if (!Array.isArray(images) || images.length === 0) {
         return NextResponse.json(
@@ -348,6 +361,9 @@ export async function POST(request: NextRequest) {
     const extractedText = await processWithDeepSeekOCR(images, userId, ip);
     console.log('[deepseek-ocr] OCR processing complete, got text:', extractedText ? 'yes' : 'no', 'length:', extractedText?.length || 0);
 
+    recordTelemetry('ocr_tier', { tier: ocrTier, pages: images.length, route: '/api/upload/parse' }, { userId });
+    await flushTelemetry();
+
     if (!extractedText || extractedText.trim().length === 0) {
       return NextResponse.json(
         { error: 'No text could be extracted from the document' },
@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { take } from "@/lib/rate";
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, withRateLimitHeaders } from "@/lib/rate";
 import { cookies } from "next/headers";
 import { createClient } from "@supabase/supabase-js";
 import { canUserGenerate, logUsage } from "@/lib/usage";
@@ -31,12 +31,7 @@ type PlanResponse = {
 export async function POST(req: NextRequest) {
   console.log('[plan] POST request received');
 
-  const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "anon";
-
-  if (!take(ip)) {
-    console.log('[plan] Rate limit exceeded for IP:', ip);
-    return new Response(JSON.stringify({ error: "Rate limit exceeded" }), { status: 429 });
-  }
+  const ip = getClientIp(req);
 
   const cookieStore = await cookies();
   const accessToken = cookieStore.get("sb-access-token")?.value ?? "";
@@ -73,7 +68,14 @@ export async function POST(req: NextRequest) {
   }
 
   const userTier = uid ? await fetchUserTier(sb, uid) : 'free';
-  const { client, model, modelIdentifier, provider } = createModelClient(userTier, 'fast');
+
+  const rateLimit = await checkRateLimit({ route: "upload", ip, userId: uid, tier: userTier });
+  if (!rateLimit.allowed) {
+    console.log('[plan] Rate limit exceeded for', uid ? `user: ${uid}` : `IP: ${ip}`);
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  const { client, model, provider, route } = createModelClient(userTier, 'fast');
 
   try {
     const body = await req.json();
@@ -202,7 +204,7 @@ Create a lesson plan that breaks this content into logical, bite-sized lessons.$
     const usage = completion?.usage;
     if (usage && (uid || ip)) {
       try {
-        await logUsage(sb, uid, ip, modelIdentifier, {
+        await logUsage(sb, uid, ip, route.modelIdentifier, {
           input_tokens: typeof usage.prompt_tokens === "number" ? usage.prompt_tokens : null,
           output_tokens: typeof usage.completion_tokens === "number" ? usage.completion_tokens : null,
         }, {
@@ -210,7 +212,7 @@ Create a lesson plan that breaks this content into logical, bite-sized lessons.$
             route: "upload-plan",
             subject: plan.subject,
             lessonCount: plan.lessons.length,
-            provider,
+            provider: route.provider,
             tier: userTier,
             codeInterpreterUsed
           },
@@ -221,13 +223,13 @@ Create a lesson plan that breaks this content into logical, bite-sized lessons.$
       }
     }
 
-    return new Response(
+    return withRateLimitHeaders(new Response(
       JSON.stringify(plan),
       {
         headers: { "content-type": "application/json" },
         status: 200,
       }
-    );
+    ), rateLimit);
   } catch (err) {
     console.error('[plan] Error:', err);
     const msg = err instanceof Error ? err.message : "Planning failed";
@@ -235,7 +237,7 @@ Create a lesson plan that breaks this content into logical, bite-sized lessons.$
     // Log failed attempt for cost tracking
     if (uid || ip) {
       try {
-        await logUsage(sb, uid, ip, modelIdentifier, {
+        await logUsage(sb, uid, ip, route.modelIdentifier, {
           input_tokens: null,
           output_tokens: null,
         }, {
@@ -243,7 +245,7 @@ Create a lesson plan that breaks this content into logical, bite-sized lessons.$
             route: "upload-plan",
             error: msg,
             errorType: err instanceof Error ? err.name : typeof err,
-            provider,
+            provider: route.provider,
             tier: userTier
           },
         });
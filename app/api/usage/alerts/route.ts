@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import { canUserGenerate, normalizeAlertThresholds } from "@/lib/usage";
+
+/**
+ * GET /api/usage/alerts
+ * Current soft-limit thresholds and how much of the period budget is used
+ */
+export async function GET() {
+  try {
+    const supabase = await supabaseServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const limitCheck = await canUserGenerate(supabase, user.id);
+    return NextResponse.json({
+      thresholds: limitCheck.alertThresholds,
+      alertLevel: limitCheck.alertLevel,
+      percentUsed: limitCheck.percentUsed,
+    });
+  } catch (error) {
+    console.error("Error loading budget alerts:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/usage/alerts
+ * Replace the user's soft-limit thresholds (percent of period budget)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { thresholds } = (await request.json().catch(() => ({}))) as { thresholds?: unknown };
+    if (!Array.isArray(thresholds)) {
+      return NextResponse.json({ error: "thresholds must be an array of percents" }, { status: 400 });
+    }
+
+    const supabase = await supabaseServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const normalized = normalizeAlertThresholds(thresholds);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from("profiles")
+      .update({ budget_alert_thresholds: normalized, updated_at: new Date().toISOString() })
+      .eq("id", user.id);
+    if (error) {
+      console.error("Error saving budget alerts:", error);
+      return NextResponse.json({ error: "Could not save alert thresholds" }, { status: 500 });
+    }
+
+    return NextResponse.json({ thresholds: normalized });
+  } catch (error) {
+    console.error("Error saving budget alerts:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
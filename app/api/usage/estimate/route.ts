@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase-server";
+import {
+  canUserGenerate,
+  estimateActionCost,
+  forecastUsage,
+  type CostEstimateRequest,
+} from "@/lib/usage";
+import { parseLessonFormat } from "@/lib/schema";
+import type { Difficulty } from "@/types/placement";
+
+const DIFFICULTIES: Difficulty[] = ["intro", "easy", "medium", "hard"];
+const MAX_UPLOAD_PAGES = 500;
+const MAX_TTS_CHARS = 200_000;
+
+function toCount(value: unknown, max: number): number | null {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) return null;
+  return Math.min(max, Math.floor(n));
+}
+
+function parseEstimateRequest(body: Record<string, unknown>): CostEstimateRequest | null {
+  switch (body.action) {
+    case "lesson":
+      return {
+        action: "lesson",
+        format: parseLessonFormat(body.format),
+        subject: typeof body.subject === "string" ? body.subject : undefined,
+        difficulty: DIFFICULTIES.includes(body.difficulty as Difficulty) ? (body.difficulty as Difficulty) : undefined,
+        sourceChars: toCount(body.sourceChars, 1_000_000) ?? undefined,
+      };
+    case "learning-path":
+      return { action: "learning-path", topicCount: toCount(body.topicCount, 40) ?? undefined };
+    case "upload": {
+      const pages = toCount(body.pages, MAX_UPLOAD_PAGES);
+      return pages === null ? null : { action: "upload", pages };
+    }
+    case "tts": {
+      const chars = toCount(body.chars, MAX_TTS_CHARS);
+      return chars === null ? null : { action: "tts", chars };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * POST /api/usage/estimate
+ * Pre-flight cost estimate for an action, projected onto the user's remaining
+ * period budget and soft-limit thresholds
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const estimateRequest = parseEstimateRequest(body ?? {});
+    if (!estimateRequest) {
+      return NextResponse.json({ error: "Unknown or invalid action" }, { status: 400 });
+    }
+
+    const supabase = await supabaseServer();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const limitCheck = await canUserGenerate(supabase, user.id);
+    const estimate = estimateActionCost(estimateRequest, limitCheck.tier);
+
+    return NextResponse.json({
+      ...forecastUsage(limitCheck, estimate),
+      limit: limitCheck,
+    });
+  } catch (error) {
+    console.error("Error estimating usage cost:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
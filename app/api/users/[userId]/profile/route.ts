@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { isBlockedBetween } from "@/lib/user-blocks";
 
 export async function GET(
   request: NextRequest,
@@ -18,6 +19,11 @@ export async function GET(
 
     const { userId: targetUserId } = await params;
 
+    // Blocked users look exactly like missing ones, whichever side did the blocking
+    if (targetUserId !== user.id && (await isBlockedBetween(supabase, user.id, targetUserId))) {
+      return new NextResponse("User not found", { status: 404 });
+    }
+
     // Fetch the target user's public profile
     const { data: profile, error: profileError } = await supabase
       .from("profiles")
@@ -1,12 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { CheckCircle2, Clock, Gift, Target } from "lucide-react";
+import { ALL_CHALLENGES, type ChallengeCadence, type ChallengeStatus } from "@/lib/challenges";
+import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+function formatTimeLeft(resetsAt: string, now: number): string {
+  const ms = Math.max(0, new Date(resetsAt).getTime() - now);
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  if (hours >= 24) {
+    const days = Math.floor(hours / 24);
+    return `${days}d ${hours % 24}h`;
+  }
+  return `${hours}h ${minutes}m`;
+}
+
 export default function ChallengesPage() {
+  const { refresh: refreshStats } = useProfileStats();
+  const [challenges, setChallenges] = useState<ChallengeStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const load = useCallback(async () => {
+    try {
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const res = await fetch(`/api/challenges?tz=${encodeURIComponent(tz)}`, { cache: "no-store" });
+      if (res.status === 401) {
+        setError("Sign in to track challenges.");
+        return;
+      }
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      const data = (await res.json()) as { challenges?: ChallengeStatus[] };
+      setChallenges(data.challenges ?? []);
+      setError(null);
+    } catch (err) {
+      console.warn("[challenges] load failed", err);
+      setError("Could not load challenges. Try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Poll for live progress and refetch when the tab regains focus
+  useEffect(() => {
+    void load();
+    const poll = window.setInterval(() => void load(), REFRESH_INTERVAL_MS);
+    const tick = window.setInterval(() => setNow(Date.now()), 60_000);
+    const onFocus = () => void load();
+    window.addEventListener("focus", onFocus);
+    return () => {
+      window.clearInterval(poll);
+      window.clearInterval(tick);
+      window.removeEventListener("focus", onFocus);
+    };
+  }, [load]);
+
+  // Reload once a window rolls over so progress resets on time
+  useEffect(() => {
+    const nextReset = challenges.reduce<number | null>((min, c) => {
+      const t = new Date(c.resetsAt).getTime();
+      return min === null || t < min ? t : min;
+    }, null);
+    if (nextReset !== null && nextReset <= now) void load();
+  }, [challenges, now, load]);
+
+  const claim = useCallback(async (challengeId: string) => {
+    setClaiming(challengeId);
+    try {
+      const res = await fetch("/api/challenges/claim", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ challengeId }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        console.warn("[challenges] claim failed", { status: res.status, payload });
+      }
+      await Promise.all([load(), refreshStats().catch(() => {})]);
+    } finally {
+      setClaiming(null);
+    }
+  }, [load, refreshStats]);
+
+  const groups = useMemo(() => {
+    const byCadence: Record<ChallengeCadence, ChallengeStatus[]> = { daily: [], weekly: [] };
+    for (const c of challenges) byCadence[c.cadence].push(c);
+    return byCadence;
+  }, [challenges]);
+
+  const claimable = challenges.filter((c) => c.completed && !c.claimed).length;
+
+  const renderGroup = (cadence: ChallengeCadence, title: string) => {
+    const list = groups[cadence];
+    if (!list.length) return null;
+    return (
+      <section className="mt-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">{title}</h2>
+          <span className="inline-flex items-center gap-1.5 text-xs text-neutral-500 dark:text-neutral-400">
+            <Clock className="h-3.5 w-3.5" />
+            Resets in {formatTimeLeft(list[0].resetsAt, now)}
+          </span>
+        </div>
+        <div className="mt-3 grid gap-3">
+          {list.map((c) => {
+            const Icon = ALL_CHALLENGES[c.id]?.icon ?? Target;
+            const pct = Math.min(100, Math.round((c.progress / c.target) * 100));
+            return (
+              <div
+                key={c.id}
+                className="flex items-center gap-4 rounded-2xl border border-neutral-200 bg-white/70 p-4 shadow-sm dark:border-neutral-800 dark:bg-[#0b1424]/85"
+              >
+                <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-lernex-blue/10 text-lernex-blue dark:bg-lernex-blue/20">
+                  <Icon className="h-5 w-5" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="truncate font-medium">{c.title}</div>
+                    <div className="shrink-0 text-xs text-neutral-500 dark:text-neutral-400">+{c.reward} pts</div>
+                  </div>
+                  <div className="text-sm text-neutral-600 dark:text-neutral-300">{c.description}</div>
+                  <div className="mt-2 flex items-center gap-3">
+                    <div className="h-2 flex-1 overflow-hidden rounded-full bg-neutral-200/70 dark:bg-neutral-800/60">
+                      <div
+                        className="h-full rounded-full bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 transition-[width] duration-500 ease-out"
+                        style={{ width: `${pct}%` }}
+                      />
+                    </div>
+                    <span className="text-xs tabular-nums text-neutral-500 dark:text-neutral-400">
+                      {c.progress}/{c.target}
+                    </span>
+                  </div>
+                </div>
+                {c.claimed ? (
+                  <span className="inline-flex items-center gap-1 text-xs font-medium text-emerald-600 dark:text-emerald-400">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Claimed
+                  </span>
+                ) : c.completed ? (
+                  <button
+                    type="button"
+                    onClick={() => claim(c.id)}
+                    disabled={claiming === c.id}
+                    className="inline-flex items-center gap-1.5 rounded-full bg-lernex-blue px-3 py-1.5 text-xs font-medium text-white shadow transition hover:shadow-md disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    <Gift className="h-3.5 w-3.5" />
+                    {claiming === c.id ? "Claiming..." : "Claim"}
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    );
+  };
+
   return (
     <main className="min-h-[calc(100vh-56px)] mx-auto w-full max-w-3xl px-4 py-8 text-neutral-900 dark:text-white">
       <h1 className="text-2xl font-semibold">Challenges</h1>
-      <p className="mt-2 text-neutral-600 dark:text-neutral-300">Daily and weekly quests to keep momentum.</p>
-      <div className="mt-6 rounded-xl border border-neutral-200 p-4 dark:border-neutral-800">
-        Coming soon: complete tasks like “earn 50 points today” or “finish 3 quizzes this week”.
-      </div>
+      <p className="mt-2 text-neutral-600 dark:text-neutral-300">
+        Daily and weekly quests to keep momentum.
+        {claimable > 0 && ` ${claimable} reward${claimable === 1 ? "" : "s"} ready to claim.`}
+      </p>
+      {error && (
+        <div className="mt-6 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-900 dark:bg-red-950/40 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {loading && !challenges.length ? (
+        <div className="mt-6 rounded-xl border border-neutral-200 p-4 text-sm text-neutral-500 dark:border-neutral-800 dark:text-neutral-400">
+          Loading challenges...
+        </div>
+      ) : (
+        <>
+          {renderGroup("daily", "Daily")}
+          {renderGroup("weekly", "Weekly")}
+        </>
+      )}
     </main>
   );
 }
-
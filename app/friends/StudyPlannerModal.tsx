@@ -12,17 +12,23 @@ import {
   Loader2,
   Check,
   Sparkles,
+  Users,
 } from "lucide-react";
+import { MAX_SESSION_INVITEES } from "@/lib/study-sessions";
+
+type PlannerFriend = {
+  id: string;
+  username: string | null;
+  fullName: string | null;
+  avatarUrl: string | null;
+};
 
 type StudyPlannerModalProps = {
   isOpen: boolean;
   onClose: () => void;
-  friend: {
-    id: string;
-    username: string | null;
-    fullName: string | null;
-    avatarUrl: string | null;
-  };
+  friend: PlannerFriend;
+  // Other friends who can be added to the same session
+  otherFriends?: PlannerFriend[];
   onSessionCreated?: () => void;
 };
 
@@ -65,6 +71,7 @@ export default function StudyPlannerModal({
   isOpen,
   onClose,
   friend,
+  otherFriends = [],
   onSessionCreated,
 }: StudyPlannerModalProps) {
   const [step, setStep] = useState<StepType>("datetime");
@@ -83,6 +90,7 @@ export default function StudyPlannerModal({
   const [customSubject, setCustomSubject] = useState("");
   const [topics, setTopics] = useState("");
   const [duration, setDuration] = useState(60);
+  const [extraInviteeIds, setExtraInviteeIds] = useState<string[]>([]);
 
   // Reset state when modal opens/closes
   useEffect(() => {
@@ -96,6 +104,7 @@ export default function StudyPlannerModal({
       setCustomSubject("");
       setTopics("");
       setDuration(60);
+      setExtraInviteeIds([]);
       setError(null);
       setIsSubmitting(false);
     }
@@ -104,6 +113,18 @@ export default function StudyPlannerModal({
   if (!isOpen) return null;
 
   const friendName = displayName(friend.username, friend.fullName, "Friend");
+  const inviteOptions = otherFriends.filter((entry) => entry.id !== friend.id);
+  const inviteesLabel = extraInviteeIds.length
+    ? `${friendName} +${extraInviteeIds.length} ${extraInviteeIds.length === 1 ? "friend" : "friends"}`
+    : friendName;
+  // The organizer and the friend this was opened for take two seats
+  const canInviteMore = extraInviteeIds.length < MAX_SESSION_INVITEES - 2;
+
+  const toggleInvitee = (id: string) => {
+    setExtraInviteeIds((prev) =>
+      prev.includes(id) ? prev.filter((value) => value !== id) : canInviteMore ? [...prev, id] : prev
+    );
+  };
 
   // Calendar logic
   const getDaysInMonth = (date: Date) => {
@@ -209,7 +230,7 @@ export default function StudyPlannerModal({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          friendId: friend.id,
+          friendIds: [friend.id, ...extraInviteeIds],
           title: title.trim(),
           description: description.trim() || null,
           subject: finalSubject.trim() || null,
@@ -260,7 +281,7 @@ export default function StudyPlannerModal({
                 Plan Study Session
               </h2>
               <p className="text-xs text-neutral-500 dark:text-neutral-400">
-                with {friendName}
+                with {inviteesLabel}
               </p>
             </div>
           </div>
@@ -518,6 +539,40 @@ export default function StudyPlannerModal({
                 />
               </div>
 
+              {inviteOptions.length > 0 && (
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-200 mb-2">
+                    <Users className="h-4 w-4" />
+                    Invite more friends (optional)
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {inviteOptions.map((option) => {
+                      const selected = extraInviteeIds.includes(option.id);
+                      return (
+                        <button
+                          key={option.id}
+                          onClick={() => toggleInvitee(option.id)}
+                          disabled={!selected && !canInviteMore}
+                          className={cn(
+                            "rounded-full px-3 py-1.5 text-xs font-medium transition-all duration-200 disabled:cursor-not-allowed disabled:opacity-50",
+                            selected
+                              ? "bg-gradient-to-br from-lernex-blue to-lernex-purple text-white shadow-md"
+                              : "bg-neutral-100 text-neutral-700 hover:bg-lernex-blue/10 hover:text-lernex-blue dark:bg-neutral-700/50 dark:text-neutral-200"
+                          )}
+                        >
+                          {displayName(option.username, option.fullName, "Friend")}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {!canInviteMore && (
+                    <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
+                      Sessions can have up to {MAX_SESSION_INVITEES} people.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="flex items-center gap-2 text-sm font-medium text-neutral-700 dark:text-neutral-200 mb-2">
                   <FileText className="h-4 w-4" />
@@ -547,7 +602,7 @@ export default function StudyPlannerModal({
                       {title}
                     </h3>
                     <p className="text-sm text-neutral-600 dark:text-neutral-400">
-                      with {friendName}
+                      with {inviteesLabel}
                     </p>
                   </div>
                 </div>
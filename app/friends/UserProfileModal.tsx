@@ -15,6 +15,8 @@ import {
   Loader2,
   Sparkles,
   Users,
+  Ban,
+  BellOff,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -109,12 +111,16 @@ type UserProfileModalProps = {
   userId: string;
   isOpen: boolean;
   onClose: () => void;
+  onBlock?: (userId: string, name: string, kind: "block" | "mute") => void;
+  blockPending?: boolean;
 };
 
 export default function UserProfileModal({
   userId,
   isOpen,
   onClose,
+  onBlock,
+  blockPending = false,
 }: UserProfileModalProps) {
   const [data, setData] = useState<UserProfileData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -425,6 +431,27 @@ export default function UserProfileModal({
                       </div>
                     </motion.div>
                   )}
+
+                  {onBlock && (
+                    <div className="mt-8 flex flex-wrap justify-end gap-2 border-t border-neutral-200/70 pt-4 dark:border-neutral-800">
+                      <button
+                        onClick={() => onBlock(data.id, displayName(data.username, data.fullName, "Learner"), "mute")}
+                        disabled={blockPending}
+                        className="inline-flex items-center gap-1.5 rounded-full border border-neutral-200 px-3 py-1.5 text-xs font-medium text-neutral-600 transition hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-white/10"
+                      >
+                        <BellOff className="h-3.5 w-3.5" />
+                        Mute
+                      </button>
+                      <button
+                        onClick={() => onBlock(data.id, displayName(data.username, data.fullName, "Learner"), "block")}
+                        disabled={blockPending}
+                        className="inline-flex items-center gap-1.5 rounded-full border border-rose-200 px-3 py-1.5 text-xs font-medium text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60 dark:border-rose-500/40 dark:text-rose-300 dark:hover:bg-rose-500/10"
+                      >
+                        {blockPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Ban className="h-3.5 w-3.5" />}
+                        Block
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
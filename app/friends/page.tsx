@@ -1,8 +1,9 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { ReactNode } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import {
   BellRing,
   Check,
@@ -22,9 +23,14 @@ import {
   Calendar,
   Clock,
   Eye,
+  DoorOpen,
+  CalendarPlus,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import { normalizeActivityEvent, type ActivityEvent } from "@/lib/activity-feed";
+import { ROOM_OPENS_EARLY_MINUTES, type SessionParticipant, type SessionRsvp } from "@/lib/study-sessions";
 import StudyPlannerModal from "./StudyPlannerModal";
 import UserProfileModal from "./UserProfileModal";
 
@@ -72,6 +78,8 @@ type Suggestion = {
   points: number;
   sharedInterests: string[];
   lastStudyDate: string | null;
+  mutualFriends?: number;
+  explanation?: string;
 };
 
 type Activity = {
@@ -85,6 +93,24 @@ type Activity = {
   accuracy: number | null;
 };
 
+type FeedEvent = ActivityEvent & {
+  actor: {
+    id: string;
+    username: string | null;
+    fullName: string | null;
+    avatarUrl: string | null;
+  };
+};
+
+type BlockedUser = {
+  id: string;
+  kind: "block" | "mute";
+  since: string | null;
+  username: string | null;
+  fullName: string | null;
+  avatarUrl: string | null;
+};
+
 type FriendsData = {
   profile: {
     id: string;
@@ -103,6 +129,7 @@ type FriendsData = {
   };
   suggestions: Suggestion[];
   recentActivity: Activity[];
+  blocked?: BlockedUser[];
   counts: {
     totalFriends: number;
     pendingIncoming: number;
@@ -138,8 +165,12 @@ type StudySession = {
   scheduled_at: string;
   duration_minutes: number;
   status: "pending" | "confirmed" | "cancelled" | "completed";
+  room_status?: "scheduled" | "live" | "ended";
   created_at: string;
   updated_at: string | null;
+  participants?: SessionParticipant[];
+  my_rsvp?: SessionRsvp | null;
+  joinable?: boolean;
   organizer: {
     id: string;
     username: string | null;
@@ -184,6 +215,42 @@ function formatRelative(dateString: string | null) {
   return years + "y ago";
 }
 
+function describeActivity(event: FeedEvent) {
+  const payload = event.payload;
+  const text = (key: string) => (typeof payload[key] === "string" && payload[key] ? (payload[key] as string) : null);
+  const num = (key: string) => (typeof payload[key] === "number" ? (payload[key] as number) : null);
+  switch (event.type) {
+    case "lesson_completed": {
+      const total = num("total");
+      const correct = num("correct");
+      return (
+        "Completed " +
+        (text("title") ?? "a lesson") +
+        (text("subject") ? " in " + text("subject") : "") +
+        (total ? " • " + (correct ?? 0) + "/" + total + " correct" : "")
+      );
+    }
+    case "badge_unlocked":
+      return "Unlocked the " + (text("title") ?? "new") + " badge" + (text("tier") ? " (" + text("tier") + ")" : "");
+    case "streak_milestone":
+      return "Hit a " + (num("days") ?? 0) + "-day streak";
+    case "playlist_published":
+      return "Published the playlist " + (text("name") ? "“" + text("name") + "”" : "");
+    case "study_session_confirmed":
+      return "Confirmed a study session" + (text("title") ? ": " + text("title") : "");
+    default:
+      return "Was active";
+  }
+}
+
+const activityIcons: Record<ActivityEvent["type"], typeof Flame> = {
+  lesson_completed: Check,
+  badge_unlocked: Star,
+  streak_milestone: Flame,
+  playlist_published: Compass,
+  study_session_confirmed: Calendar,
+};
+
 function formatDate(dateString: string | null) {
   if (!dateString) return "—";
   const value = new Date(dateString);
@@ -300,6 +367,14 @@ function FriendsContent() {
   const [studySessions, setStudySessions] = useState<StudySession[]>([]);
   const [profileModalOpen, setProfileModalOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [feed, setFeed] = useState<FeedEvent[]>([]);
+  const [feedCursor, setFeedCursor] = useState<number | null>(null);
+  const [feedLoading, setFeedLoading] = useState(false);
+  const [rankedSuggestions, setRankedSuggestions] = useState<Suggestion[]>([]);
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => new Set());
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const dataRef = useRef<FriendsData | null>(null);
+  dataRef.current = data;
 
   useEffect(() => {
     if (!toast) return;
@@ -352,6 +427,97 @@ function FriendsContent() {
     loadStudySessions();
   }, [loadStudySessions]);
 
+  const loadSuggestions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/friends/suggestions", { cache: "no-store" });
+      if (!response.ok) throw new Error("Failed to fetch suggestions");
+      const json = await response.json();
+      setRankedSuggestions(Array.isArray(json?.suggestions) ? (json.suggestions as Suggestion[]) : []);
+    } catch (err) {
+      console.error("Failed to load suggestions:", err);
+      setRankedSuggestions([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const handleDismissSuggestion = useCallback(async (candidateId: string) => {
+    setDismissedIds((prev) => new Set(prev).add(candidateId));
+    try {
+      const response = await fetch("/api/friends/suggestions/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ candidateId }),
+      });
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(text || "Unable to hide suggestion");
+      }
+      setToast({ message: "Suggestion hidden", tone: "neutral" });
+    } catch (err) {
+      console.error(err);
+      setDismissedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(candidateId);
+        return next;
+      });
+      setToast({
+        message: err instanceof Error ? err.message : "Unable to hide suggestion",
+        tone: "error",
+      });
+    }
+  }, []);
+
+  const loadFeed = useCallback(async (cursor?: number | null) => {
+    setFeedLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (cursor) params.set("cursor", String(cursor));
+      const response = await fetch("/api/friends/activity?" + params.toString(), { cache: "no-store" });
+      if (!response.ok) throw new Error("Failed to fetch activity");
+      const json = await response.json();
+      const events = Array.isArray(json?.events) ? (json.events as FeedEvent[]) : [];
+      setFeed((prev) => (cursor ? [...prev, ...events] : events));
+      setFeedCursor(typeof json?.nextCursor === "number" ? json.nextCursor : null);
+    } catch (err) {
+      console.error("Failed to load activity feed:", err);
+    } finally {
+      setFeedLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  // New friend events arrive over Realtime; RLS already limits them to friends
+  // who share that event type, and blocked or muted users are dropped here
+  const profileId = data?.profile.id ?? null;
+  useEffect(() => {
+    if (!profileId) return;
+    const channel = supabase
+      .channel(`friend-activity-${profileId}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "activity_events" }, (payload) => {
+        const event = normalizeActivityEvent((payload.new ?? {}) as Record<string, unknown>);
+        const current = dataRef.current;
+        if (!event || !current || event.userId === current.profile.id) return;
+        if ((current.blocked ?? []).some((entry) => entry.id === event.userId)) return;
+        const friend = current.friends.find((entry) => entry.id === event.userId);
+        if (!friend) return;
+        const next: FeedEvent = {
+          ...event,
+          actor: { id: friend.id, username: friend.username, fullName: friend.fullName, avatarUrl: friend.avatarUrl },
+        };
+        setFeed((prev) => (prev.some((item) => item.id === next.id) ? prev : [next, ...prev]));
+      });
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, profileId]);
+
   useEffect(() => {
     if (!data) return;
     const trimmed = searchQuery.trim();
@@ -543,6 +709,103 @@ function FriendsContent() {
     [load]
   );
 
+  const handleBlockUser = useCallback(
+    async (targetId: string, name: string, kind: "block" | "mute") => {
+      if (typeof window !== "undefined") {
+        const prompt =
+          kind === "block"
+            ? "Block " + name + "? You will no longer be friends, and neither of you can find or contact the other."
+            : "Mute " + name + "? You stay friends, but their requests, invitations and activity are hidden from you.";
+        if (!window.confirm(prompt)) return;
+      }
+      setPendingAction(kind + ":" + targetId);
+      try {
+        const response = await fetch("/api/friends/block", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ targetId, kind }),
+        });
+        if (!response.ok) {
+          const text = await response.text();
+          throw new Error(text || "Unable to " + kind + " user");
+        }
+        setProfileModalOpen(false);
+        setSelectedUserId(null);
+        await load({ silent: true });
+        loadStudySessions();
+        setToast({ message: (kind === "block" ? "Blocked " : "Muted ") + name, tone: "neutral" });
+      } catch (err) {
+        console.error(err);
+        setToast({
+          message: err instanceof Error ? err.message : "Unable to " + kind + " user",
+          tone: "error",
+        });
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [load, loadStudySessions]
+  );
+
+  const handleUnblockUser = useCallback(
+    async (targetId: string, name: string) => {
+      setPendingAction("unblock:" + targetId);
+      try {
+        const response = await fetch("/api/friends/unblock", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ targetId }),
+        });
+        if (!response.ok) {
+          const text = await response.text();
+          throw new Error(text || "Unable to unblock user");
+        }
+        await load({ silent: true });
+        setToast({ message: "Unblocked " + name, tone: "neutral" });
+      } catch (err) {
+        console.error(err);
+        setToast({
+          message: err instanceof Error ? err.message : "Unable to unblock user",
+          tone: "error",
+        });
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [load]
+  );
+
+  const handleSessionRsvp = useCallback(
+    async (sessionId: string, rsvp: SessionRsvp) => {
+      setPendingAction("rsvp:" + sessionId);
+      try {
+        const response = await fetch("/api/study-sessions/rsvp", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId, rsvp }),
+        });
+        if (!response.ok) {
+          const text = await response.text();
+          throw new Error(text || "Unable to update RSVP");
+        }
+        await loadStudySessions();
+        setToast({
+          message: rsvp === "accepted" ? "You're going!" : rsvp === "declined" ? "RSVP updated" : "Marked as maybe",
+          tone: rsvp === "accepted" ? "success" : "neutral",
+        });
+      } catch (err) {
+        console.error(err);
+        setToast({
+          message: err instanceof Error ? err.message : "Unable to update RSVP",
+          tone: "error",
+        });
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [loadStudySessions]
+  );
+
   const handleCopyInvite = useCallback(async () => {
     if (!data) return;
     const fallback = data.profile.id;
@@ -605,6 +868,13 @@ function FriendsContent() {
 
   const incoming = data.requests.incoming;
   const outgoing = data.requests.outgoing;
+  const blocked = data.blocked ?? [];
+  // Ranked suggestions come from the daily refresh; until it has run for this
+  // learner, fall back to the popularity-based list from /api/friends
+  const pendingIds = new Set([...incoming, ...outgoing].map((req) => req.counterpart.id));
+  const suggestions = (rankedSuggestions.length ? rankedSuggestions : data.suggestions).filter(
+    (candidate) => !dismissedIds.has(candidate.id) && !pendingIds.has(candidate.id)
+  );
   const totalPending = incoming.length + outgoing.length;
 
   return (
@@ -735,7 +1005,7 @@ function FriendsContent() {
             <div>
               <h2 className="text-lg font-semibold">Upcoming study sessions</h2>
               <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                Your planned study sessions with friends
+                Your planned study sessions with friends. Rooms open {ROOM_OPENS_EARLY_MINUTES} minutes before the start.
               </p>
             </div>
           </div>
@@ -748,6 +1018,15 @@ function FriendsContent() {
                 partner?.full_name || null,
                 "Friend"
               );
+              const others = (session.participants ?? []).filter(
+                (participant) => participant.userId !== data?.profile.id && participant.rsvp !== "declined"
+              );
+              const goingCount = (session.participants ?? []).filter((participant) => participant.rsvp === "accepted").length;
+              const withLabel =
+                others.length > 1
+                  ? displayName(others[0].username, others[0].fullName, "Friend") + " +" + (others.length - 1)
+                  : partnerName;
+              const rsvpPending = pendingAction === "rsvp:" + session.id;
               const scheduledDate = new Date(session.scheduled_at);
               const formattedDate = new Intl.DateTimeFormat(undefined, {
                 weekday: "short",
@@ -781,7 +1060,10 @@ function FriendsContent() {
                             {session.title}
                           </h3>
                           <p className="text-xs text-neutral-500 dark:text-neutral-400">
-                            with {partnerName}
+                            with {withLabel}
+                            {session.participants && session.participants.length > 2 && (
+                              <> • {goingCount} going</>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -812,6 +1094,45 @@ function FriendsContent() {
                         {session.description}
                       </p>
                     )}
+
+                    <div className="mt-4 flex flex-wrap items-center gap-2">
+                      {!isOrganizer && session.my_rsvp && (
+                        <>
+                          {(["accepted", "tentative", "declined"] as const).map((option) => (
+                            <button
+                              key={option}
+                              onClick={() => handleSessionRsvp(session.id, option)}
+                              disabled={rsvpPending || session.my_rsvp === option}
+                              className={cn(
+                                "rounded-full px-3 py-1 text-xs font-medium transition disabled:cursor-default",
+                                session.my_rsvp === option
+                                  ? "bg-gradient-to-r from-lernex-blue to-lernex-purple text-white shadow-sm"
+                                  : "border border-neutral-200/80 bg-white/70 text-neutral-600 hover:border-lernex-blue/40 hover:text-lernex-blue disabled:opacity-60 dark:border-neutral-700 dark:bg-neutral-900/40 dark:text-neutral-300"
+                              )}
+                            >
+                              {option === "accepted" ? "Going" : option === "tentative" ? "Maybe" : "Can't go"}
+                            </button>
+                          ))}
+                        </>
+                      )}
+                      <a
+                        href={"/api/study-sessions/" + session.id + "/ics"}
+                        download
+                        className="inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs font-medium text-neutral-500 transition hover:text-lernex-blue dark:text-neutral-400"
+                      >
+                        <CalendarPlus className="h-3.5 w-3.5" />
+                        Add to calendar
+                      </a>
+                      {session.joinable && session.my_rsvp !== "declined" && (
+                        <Link
+                          href={"/study-sessions/" + session.id}
+                          className="ml-auto inline-flex items-center gap-1.5 rounded-full bg-gradient-to-r from-lernex-blue to-lernex-purple px-3 py-1 text-xs font-semibold text-white shadow-sm transition hover:opacity-90"
+                        >
+                          <DoorOpen className="h-3.5 w-3.5" />
+                          {session.room_status === "live" ? "Join live room" : isOrganizer ? "Open room" : "Go to room"}
+                        </Link>
+                      )}
+                    </div>
                   </div>
                 </motion.div>
               );
@@ -1046,11 +1367,11 @@ function FriendsContent() {
         <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <h2 className="text-lg font-semibold">Smart suggestions</h2>
-            <p className="text-sm text-neutral-500 dark:text-neutral-400">We look at shared interests, similar streaks, and complementary study subjects.</p>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">We look at mutual friends, shared courses and study groups, and similar mastery.</p>
           </div>
         </div>
         <div className="mt-4 grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {data.suggestions.slice(0, 6).map((candidate, index) => {
+          {suggestions.slice(0, 6).map((candidate, index) => {
             const label = displayName(candidate.username, candidate.fullName, "Learner", { preferUsername: true });
             const pendingKey = pendingAction === "add:" + candidate.id;
             return (
@@ -1069,13 +1390,23 @@ function FriendsContent() {
                   <div className="flex-1">
                     <div className="text-sm font-semibold text-neutral-900 dark:text-white">{label}</div>
                     <div className="text-xs text-neutral-500 dark:text-neutral-400">
-                      {candidate.sharedInterests.length > 0
+                      {candidate.explanation
+                        ? candidate.explanation
+                        : candidate.sharedInterests.length > 0
                         ? "Shared: " + candidate.sharedInterests.slice(0, 3).join(", ")
                         : candidate.lastStudyDate
                         ? "Active " + formatRelative(candidate.lastStudyDate)
                         : "Consistent learner"}
                     </div>
                   </div>
+                  <button
+                    onClick={() => handleDismissSuggestion(candidate.id)}
+                    aria-label={"Hide " + label + " from suggestions"}
+                    title="Not interested"
+                    className="rounded-full p-1 text-neutral-400 transition hover:bg-neutral-100 hover:text-neutral-600 dark:hover:bg-white/10 dark:hover:text-neutral-200"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
                 </div>
                 <div className="mt-3 flex items-center justify-between text-xs text-neutral-500 dark:text-neutral-400">
                   <span className="inline-flex items-center gap-1"><Flame className="h-3.5 w-3.5 text-orange-500" /> {candidate.streak} day streak</span>
@@ -1104,7 +1435,7 @@ function FriendsContent() {
               </motion.div>
             );
           })}
-          {data.suggestions.length === 0 && (
+          {suggestions.length === 0 && (
             <div className="rounded-2xl border border-dashed border-neutral-200/70 bg-gradient-to-r from-white via-slate-50/70 to-white/95 p-6 text-sm text-neutral-500 shadow-[0_26px_58px_-38px_rgba(47,128,237,0.34)] backdrop-blur-sm dark:border-neutral-700 dark:bg-gradient-to-br dark:from-[#101a2c] dark:via-[#0d1524] dark:to-[#090f1c] dark:text-neutral-300 dark:shadow-[0_20px_45px_-30px_rgba(0,0,0,0.85)]">
               No tailored suggestions right now. Add interests in your profile to help us recommend peers.
             </div>
@@ -1240,7 +1571,7 @@ function FriendsContent() {
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <h2 className="text-lg font-semibold">Recent activity</h2>
-            <p className="text-sm text-neutral-500 dark:text-neutral-400">See what your circle has been studying and keep each other accountable.</p>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">Lessons, badges, streaks and sessions from your circle, live as they happen.</p>
           </div>
         </div>
         <div
@@ -1251,10 +1582,46 @@ function FriendsContent() {
             "dark:border-neutral-800 dark:bg-gradient-to-br dark:from-[#101a2c] dark:via-[#0d1524] dark:to-[#090f1c] dark:shadow-[0_20px_45px_-30px_rgba(0,0,0,0.85)]"
           )}
         >
-          {data.recentActivity.length === 0 && (
+          {feed.length > 0 && (
+            <ul className="space-y-3">
+              {feed.map((event) => {
+                const label = displayName(event.actor.username, event.actor.fullName, "Learner");
+                const Icon = activityIcons[event.type];
+                return (
+                  <li
+                    key={event.id}
+                    className="flex items-center gap-4 rounded-2xl border border-neutral-200/60 bg-white/80 px-2 py-2 text-neutral-600 shadow-[0_24px_55px_-38px_rgba(47,128,237,0.32)] transition hover:border-lernex-blue/40 hover:bg-lernex-blue/5 dark:border-neutral-700 dark:bg-gradient-to-br dark:from-[#101a2c] dark:via-[#0d1524] dark:to-[#090f1c] dark:text-neutral-300 dark:shadow-none dark:hover:border-neutral-600 dark:hover:bg-white/10"
+                  >
+                    <Avatar name={label} src={event.actor.avatarUrl} size={40} />
+                    <div className="flex-1">
+                      <div className="text-sm font-medium text-neutral-800 dark:text-white">{label}</div>
+                      <div className="flex items-center gap-1.5 text-xs text-neutral-500 dark:text-neutral-400">
+                        <Icon className="h-3.5 w-3.5 text-lernex-blue" />
+                        {describeActivity(event)}
+                      </div>
+                    </div>
+                    <div className="text-xs text-neutral-400 dark:text-neutral-500">{formatRelative(event.createdAt)}</div>
+                  </li>
+                );
+              })}
+              {feedCursor && (
+                <li className="flex justify-center pt-1">
+                  <button
+                    onClick={() => loadFeed(feedCursor)}
+                    disabled={feedLoading}
+                    className="inline-flex items-center gap-1.5 rounded-full border border-neutral-200 px-3 py-1.5 text-xs font-medium text-neutral-600 transition hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-white/10"
+                  >
+                    {feedLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                    Load more
+                  </button>
+                </li>
+              )}
+            </ul>
+          )}
+          {feed.length === 0 && data.recentActivity.length === 0 && (
             <div className="text-sm text-neutral-500 dark:text-neutral-300">No recent study logs from friends yet. Encourage them to complete a lesson!</div>
           )}
-          {data.recentActivity.length > 0 && (
+          {feed.length === 0 && data.recentActivity.length > 0 && (
             <ul className="space-y-3">
               {data.recentActivity.slice(0, 12).map((item, index) => {
                 const label = displayName(item.username, item.fullName, "Learner");
@@ -1281,6 +1648,43 @@ function FriendsContent() {
           )}
         </div>
       </section>
+
+      {blocked.length > 0 && (
+        <section className="mt-12">
+          <div>
+            <h2 className="text-lg font-semibold">Blocked & muted</h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">Only you can see this list. Unblocking does not restore a friendship.</p>
+          </div>
+          <ul className="mt-4 space-y-2">
+            {blocked.map((entry) => {
+              const label = displayName(entry.username, entry.fullName, "Learner", { preferUsername: true });
+              const pendingKey = pendingAction === "unblock:" + entry.id;
+              return (
+                <li
+                  key={entry.id}
+                  className="flex items-center gap-3 rounded-2xl border border-neutral-200/60 bg-white/80 px-3 py-2 dark:border-neutral-700 dark:bg-white/5"
+                >
+                  <Avatar name={label} src={entry.avatarUrl} size={36} />
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-neutral-800 dark:text-white">{label}</div>
+                    <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                      {(entry.kind === "block" ? "Blocked " : "Muted ") + formatRelative(entry.since).toLowerCase()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleUnblockUser(entry.id, label)}
+                    disabled={pendingKey}
+                    className="inline-flex items-center gap-1.5 rounded-full border border-neutral-200 px-3 py-1.5 text-xs font-medium text-neutral-600 transition hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-white/10"
+                  >
+                    {pendingKey ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                    {entry.kind === "block" ? "Unblock" : "Unmute"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
       </div>
 
       {selectedFriend && (
@@ -1291,6 +1695,7 @@ function FriendsContent() {
             setSelectedFriend(null);
           }}
           friend={selectedFriend}
+          otherFriends={data?.friends ?? []}
           onSessionCreated={() => {
             setToast({ message: "Study session planned successfully!", tone: "success" });
             load({ silent: true });
@@ -1307,6 +1712,8 @@ function FriendsContent() {
             setProfileModalOpen(false);
             setSelectedUserId(null);
           }}
+          onBlock={handleBlockUser}
+          blockPending={!!pendingAction && pendingAction.endsWith(":" + selectedUserId)}
         />
       )}
     </main>
@@ -11,6 +11,10 @@ import VoiceInput from "@/components/VoiceInput";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { useUsageLimitCheck } from "@/lib/hooks/useUsageLimitCheck";
 import UsageLimitModal from "@/components/UsageLimitModal";
+import CostEstimateNotice from "@/components/CostEstimateNotice";
+import { useCostEstimate } from "@/lib/hooks/useCostEstimate";
+import { tryParseJsonWithLatex } from "@/lib/latex-utils";
+import { DEFAULT_LESSON_FORMAT, LESSON_FORMATS, LESSON_FORMAT_LABELS, type LessonFormat } from "@/lib/schema";
 
 function GenerateContent() {
   const [text, setText] = useState("");
@@ -18,6 +22,7 @@ function GenerateContent() {
   const [mode, setMode] = useState<"quick" | "mini" | "full">("mini");
   const [contentType, setContentType] = useState<"lesson" | "quiz">("lesson");
   const [quizMode, setQuizMode] = useState<"short" | "standard" | "comprehensive">("standard");
+  const [lessonFormat, setLessonFormat] = useState<LessonFormat>(DEFAULT_LESSON_FORMAT);
 
   // streaming text + assembled lesson
   const [streamed, setStreamed] = useState("");
@@ -46,6 +51,11 @@ function GenerateContent() {
 
   // Usage limit check hook
   const { checkLimit, isModalOpen, closeModal, limitData } = useUsageLimitCheck();
+  const costForecast = useCostEstimate(
+    contentType === "lesson" && text.trim().length >= 20
+      ? { action: "lesson", format: lessonFormat, subject, sourceChars: text.length }
+      : null
+  );
 
   const startProgress = () => {
     setProgress(0);
@@ -116,7 +126,7 @@ function GenerateContent() {
                   if (!prev) {
                     // Initialize follow-up quiz with first question
                     return {
-                      id: crypto.randomUUID(),
+                      id: response.headers.get("X-Lesson-Id") ?? crypto.randomUUID(),
                       subject: lesson?.subject || '',
                       topic: "Follow-Up Quiz",
                       title: "Additional Practice",
@@ -283,9 +293,10 @@ Current Question: ${followUpQuestion}
           throw new Error((await quizRes.text()) || "Quiz generation failed");
         }
 
-        // Create initial Lesson object with empty questions
+        // Create initial Lesson object with empty questions; the id is the one the
+        // answer key was stored under, so the attempt can be graded
         const assembled: Lesson = {
-          id: crypto.randomUUID(),
+          id: quizRes.headers.get("X-Lesson-Id") ?? crypto.randomUUID(),
           subject: subject,
           topic: "Quiz",
           title: "Practice Quiz",
@@ -310,6 +321,45 @@ Current Question: ${followUpQuestion}
         saveToHistory(finalLesson).catch((err) =>
           console.warn("[generate] Failed to save to history:", err)
         );
+      } else if (lessonFormat !== "micro") {
+        // Structured formats come back as one JSON lesson (content + questions) from /api/generate
+        const res = await fetch("/api/generate", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ text, subject, format: lessonFormat }),
+        });
+        if (!res.ok) {
+          const msg = await res.text().catch(() => "");
+          let message = msg;
+          try {
+            message = (JSON.parse(msg) as { error?: string }).error ?? msg;
+          } catch {
+            /* plain-text error */
+          }
+          throw new Error(message || "Lesson generation failed");
+        }
+
+        const raw = (await res.text()).trim();
+        const parsed = tryParseJsonWithLatex(raw) as Partial<Lesson> | null;
+        if (!parsed || typeof parsed !== "object" || typeof parsed.title !== "string") {
+          throw new Error("The lesson came back malformed. Please try again.");
+        }
+        console.log("[client] formatted-lesson-complete", (performance.now() - t0).toFixed(1), "ms", lessonFormat);
+
+        // Keep the server-issued id: it keys the stored answer key
+        const assembled: Lesson = {
+          ...parsed,
+          id: typeof parsed.id === "string" && parsed.id ? parsed.id : crypto.randomUUID(),
+          subject: parsed.subject || subject,
+          title: parsed.title,
+          content: typeof parsed.content === "string" ? parsed.content : "",
+          questions: Array.isArray(parsed.questions) ? parsed.questions : [],
+          format: lessonFormat,
+        };
+        setLesson(assembled);
+        saveToHistory(assembled).catch((err) =>
+          console.warn("[generate] Failed to save to history:", err)
+        );
       } else {
         // Lesson + Quiz mode: Generate lesson first, then quiz based on lesson content
         // 1) Generate the lesson text first
@@ -373,9 +423,9 @@ Current Question: ${followUpQuestion}
           throw new Error((await quizRes.text()) || "Quiz generation failed");
         }
 
-        // Create initial Lesson object
+        // Create initial Lesson object under the quiz's server-issued id
         const assembled: Lesson = {
-          id: crypto.randomUUID(),
+          id: quizRes.headers.get("X-Lesson-Id") ?? crypto.randomUUID(),
           subject: subject,
           topic: "Micro-lesson",
           title: "Quick Concept",
@@ -515,11 +565,30 @@ Current Question: ${followUpQuestion}
           <div className="overflow-visible">
             <div
               className={`transition-all duration-500 ease-in-out ${
-                contentType === "lesson" ? "opacity-100 max-h-28" : "opacity-0 max-h-0 pointer-events-none"
+                contentType === "lesson" ? "opacity-100 max-h-40" : "opacity-0 max-h-0 pointer-events-none"
               }`}
             >
               {contentType === "lesson" && (
-                <div className="grid grid-cols-3 gap-2 pt-1 animate-in fade-in slide-in-from-top-2 duration-300">
+                <>
+                <div className="flex flex-wrap gap-1.5 pt-1 animate-in fade-in slide-in-from-top-2 duration-300" role="radiogroup" aria-label="Lesson format">
+                  {LESSON_FORMATS.map((key) => (
+                    <button
+                      key={key}
+                      role="radio"
+                      aria-checked={lessonFormat === key}
+                      onClick={() => setLessonFormat(key)}
+                      className={`rounded-full border px-3 py-1 text-xs font-medium transition-all duration-200 ${
+                        lessonFormat === key
+                          ? "border-lernex-purple bg-lernex-purple/90 text-white shadow-md shadow-lernex-purple/30"
+                          : "border-surface bg-surface-card text-neutral-600 dark:text-neutral-300 hover:border-lernex-purple/50"
+                      }`}
+                    >
+                      {LESSON_FORMAT_LABELS[key]}
+                    </button>
+                  ))}
+                </div>
+                {lessonFormat === "micro" && (
+                <div className="grid grid-cols-3 gap-2 pt-2 animate-in fade-in slide-in-from-top-2 duration-300">
                   {[
                     { key: "quick", label: "Quick Question" },
                     { key: "mini", label: "Mini Lesson" },
@@ -538,6 +607,8 @@ Current Question: ${followUpQuestion}
                     </button>
                   ))}
                 </div>
+                )}
+                </>
               )}
             </div>
             <div
@@ -609,6 +680,7 @@ Current Question: ${followUpQuestion}
             </span>
             <span>{text.length} chars</span>
           </div>
+          <CostEstimateNotice forecast={costForecast} actionLabel="lesson" />
           <button
             onClick={run}
             disabled={loading || text.trim().length < 20}
@@ -17,6 +17,8 @@ import { supabaseServer } from "@/lib/supabase-server";
 import SidebarOffsetWrapper from "@/components/SidebarOffsetWrapper";
 import { ToastProvider } from "@/components/ui/ToastProvider";
 import GlobalKeyboardShortcuts from "@/components/GlobalKeyboardShortcuts";
+import ServiceWorkerRegistrar from "@/components/ServiceWorkerRegistrar";
+import SessionReminders from "@/components/SessionReminders";
 
 const inter = Inter({ subsets: ["latin"] });
 type ThemePreference = "auto" | "light" | "dark";
@@ -117,6 +119,8 @@ export default async function RootLayout({ children }: { children: React.ReactNo
               <StructuredData />
               <ToastProvider />
               <GlobalKeyboardShortcuts />
+              <ServiceWorkerRegistrar />
+              <SessionReminders />
             </ProfileStatsProvider>
           </ThemeProvider>
         </ReactQueryProvider>
@@ -8,6 +8,7 @@ import { supabaseBrowser } from "@/lib/supabase-browser";
 import { useLernexStore } from "@/lib/store";
 import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { getHiddenUserIds } from "@/lib/user-blocks";
 import type { Database } from "@/lib/types_db";
 import type { LucideIcon } from "lucide-react";
 import { Crown, Sparkles, Flame, Target, Trophy } from "lucide-react";
@@ -348,13 +349,14 @@ function LeaderboardContent() {
             .select("user_a, user_b")
             .or(`user_a.eq.${uid},user_b.eq.${uid}`);
           if (friendError) throw friendError;
+          const hiddenIds = await getHiddenUserIds(supabase);
           friendIds = uniqueIds(
             ((friendRows ?? []) as FriendshipRow[]).map((row) => {
               const a = typeof row.user_a === "string" ? row.user_a : null;
               const b = typeof row.user_b === "string" ? row.user_b : null;
               return a === uid ? b : a;
             })
-          );
+          ).filter((id) => !hiddenIds.has(id));
         }
 
         const scopedIds =
@@ -0,0 +1,32 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import type { Lesson } from "@/types";
+import LessonCard from "@/components/LessonCard";
+import QuizBlock from "@/components/QuizBlock";
+
+type LessonClientProps = {
+  lesson: Lesson;
+  sharePath: string;
+};
+
+export default function LessonClient({ lesson, sharePath }: LessonClientProps) {
+  const router = useRouter();
+
+  return (
+    <main className="min-h-[calc(100vh-56px)] flex items-center justify-center">
+      <div className="w-full max-w-md px-4 py-6 space-y-4">
+        <LessonCard lesson={lesson} sharePath={sharePath} />
+
+        {Array.isArray(lesson.questions) && lesson.questions.length > 0 && (
+          <QuizBlock
+            lesson={lesson}
+            onDone={() => {
+              setTimeout(() => router.push("/"), 200);
+            }}
+          />
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,35 +1,62 @@
-﻿"use client";
-
-import { useParams, useRouter } from "next/navigation";
-import { useMemo } from "react";
+import { cache } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
 import { lessons } from "@/data/lessons";
-import LessonCard from "@/components/LessonCard";
-import QuizBlock from "@/components/QuizBlock";
+import type { Lesson } from "@/types";
+import { getLessonPermalink, lessonPermalinkPath } from "@/lib/lesson-permalinks";
+import { buildLessonMetadata, buildLessonSchema, buildMetadata, type LessonSeo } from "@/lib/seo";
+import { supabaseServer } from "@/lib/supabase-server";
+import LessonClient from "./LessonClient";
 
-export default function LessonPage() {
-  const { id } = useParams<{ id: string }>();
-  const router = useRouter();
+type Params = Promise<{ id: string }>;
 
-  const lesson = useMemo(() => lessons.find((l) => l.id === id), [id]);
+// Built-in sample lessons first, then lessons learners have stored a permalink for
+const loadLesson = cache(async (id: string): Promise<{ lesson: Lesson; isPublic: boolean } | null> => {
+  const builtIn = lessons.find((l) => l.id === id);
+  if (builtIn) return { lesson: builtIn, isPublic: true };
 
-  if (!lesson) {
-    return <div className="p-6 text-neutral-900 dark:text-white">Not found.</div>;
-  }
+  const sb = await supabaseServer();
+  const permalink = await getLessonPermalink(sb, id);
+  return permalink ? { lesson: permalink.lesson, isPublic: permalink.isPublic } : null;
+});
 
-  return (
-    <main className="min-h-[calc(100vh-56px)] flex items-center justify-center">
-      <div className="w-full max-w-md px-4 py-6 space-y-4">
-        <LessonCard lesson={lesson} />
+function toLessonSeo(lesson: Lesson, isPublic: boolean): LessonSeo {
+  return {
+    id: lesson.id,
+    title: lesson.title,
+    subject: lesson.subject,
+    topic: lesson.topic,
+    difficulty: lesson.difficulty,
+    content: lesson.content,
+    isPublic,
+  };
+}
 
-        {Array.isArray(lesson.questions) && lesson.questions.length > 0 && (
-          <QuizBlock
-            lesson={lesson}
-            onDone={() => {
-              setTimeout(() => router.push("/"), 200);
-            }}
-          />
-        )}
-      </div>
-    </main>
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { id } = await params;
+  const found = await loadLesson(id);
+  if (!found) return buildMetadata({ title: "Lesson not found", noindex: true });
+  return buildLessonMetadata(toLessonSeo(found.lesson, found.isPublic));
+}
+
+export default async function LessonPage({ params }: { params: Params }) {
+  const { id } = await params;
+  const found = await loadLesson(id);
+  if (!found) notFound();
+
+  const { lesson, isPublic } = found;
+  return (
+    <>
+      {isPublic && (
+        <script
+          type="application/ld+json"
+          // Lesson text is learner-generated, so keep it from closing the script tag
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(buildLessonSchema(toLessonSeo(lesson, isPublic))).replace(/</g, "\\u003c"),
+          }}
+        />
+      )}
+      <LessonClient lesson={lesson} sharePath={lessonPermalinkPath(lesson.id)} />
+    </>
   );
 }
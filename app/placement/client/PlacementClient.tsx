@@ -5,7 +5,7 @@ import type { PlacementItem, PlacementState, PlacementNextResponse } from "@/typ
 import { useRouter } from "next/navigation";
 import FormattedText from "@/components/FormattedText";
 import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
-import { normalizeProfileStats } from "@/lib/profile-stats";
+import { getStreakDay, normalizeProfileStats } from "@/lib/profile-stats";
 
 export default function PlacementClient() {
   const router = useRouter();
@@ -81,7 +81,9 @@ export default function PlacementClient() {
             const fallback = {
               points: (stats?.points ?? 0) + addPts,
               streak: newStreakVal,
-              last_study_date: new Date().toISOString().slice(0, 10),
+              last_study_date: getStreakDay(new Date(), stats?.timeZone),
+              streak_freezes: stats?.streakFreezes ?? 0,
+              timezone: stats?.timeZone ?? null,
               updated_at: new Date().toISOString(),
             };
             setStats(normalizeProfileStats(fallback));
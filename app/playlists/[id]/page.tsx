@@ -4,6 +4,7 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import { supabaseBrowser } from "@/lib/supabase-browser";
+import { LESSON_FORMATS, LESSON_FORMAT_LABELS, parseLessonFormat, type LessonFormat } from "@/lib/schema";
 import PageTransition from "@/components/PageTransition";
 import { AnimatePresence, motion } from "framer-motion";
 import {
@@ -33,6 +34,7 @@ type PlaylistRow = {
   description: string | null;
   is_public: boolean;
   created_at: string | null;
+  lesson_format: LessonFormat;
 };
 
 type LessonLite = {
@@ -139,6 +141,7 @@ export default function PlaylistDetail() {
   const [savingDescription, setSavingDescription] = useState(false);
 
   const [visibilitySaving, setVisibilitySaving] = useState(false);
+  const [formatSaving, setFormatSaving] = useState(false);
   const [shareLoading, setShareLoading] = useState(false);
   const [reordering, setReordering] = useState(false);
   const [removingId, setRemovingId] = useState<string | null>(null);
@@ -169,7 +172,7 @@ export default function PlaylistDetail() {
       const [playlistRes, itemsRes] = await Promise.all([
         supabaseClient
           .from("playlists")
-          .select("id, name, description, is_public, created_at")
+          .select("id, name, description, is_public, created_at, lesson_format")
           .eq("id", id)
           .maybeSingle(),
         supabaseClient
@@ -204,6 +207,7 @@ export default function PlaylistDetail() {
           (playlistRow as Record<string, unknown>).created_at == null
             ? null
             : toStr((playlistRow as Record<string, unknown>).created_at),
+        lesson_format: parseLessonFormat((playlistRow as Record<string, unknown>).lesson_format),
       });
 
       if (itemsRes.error) {
@@ -523,6 +527,34 @@ export default function PlaylistDetail() {
     }
   };
 
+  const updateLessonFormat = async (nextFormat: LessonFormat) => {
+    if (!id || !playlist || nextFormat === playlist.lesson_format) return;
+    setFormatSaving(true);
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabaseClient as any)
+        .from("playlists")
+        .update({ lesson_format: nextFormat })
+        .eq("id", id);
+      if (error) throw error;
+      setPlaylist((prev) =>
+        prev ? { ...prev, lesson_format: nextFormat } : prev
+      );
+      setFeedback({
+        type: "success",
+        message: `New lessons will use the ${LESSON_FORMAT_LABELS[nextFormat]} format.`,
+      });
+    } catch (err) {
+      console.error("Lesson format update failed", err);
+      setFeedback({
+        type: "error",
+        message: "Could not update the lesson format.",
+      });
+    } finally {
+      setFormatSaving(false);
+    }
+  };
+
   const handleShare = async () => {
     if (!playlist) return;
     if (typeof navigator === "undefined" || !navigator.clipboard) {
@@ -1094,6 +1126,26 @@ export default function PlaylistDetail() {
                           )}
                           {playlist.is_public ? "Public" : "Private"}
                         </button>
+                        <label className="inline-flex items-center gap-2 rounded-full border border-white/70 bg-white/80 px-4 py-2 text-sm font-medium text-neutral-700 shadow-sm dark:border-white/10 dark:bg-white/10 dark:text-white/80">
+                          {formatSaving ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <BookOpen className="h-4 w-4" />
+                          )}
+                          <span className="sr-only">Lesson format</span>
+                          <select
+                            value={playlist.lesson_format}
+                            disabled={formatSaving}
+                            onChange={(event) => void updateLessonFormat(event.target.value as LessonFormat)}
+                            className="bg-transparent text-sm focus:outline-none disabled:cursor-not-allowed"
+                          >
+                            {LESSON_FORMATS.map((format) => (
+                              <option key={format} value={format}>
+                                {LESSON_FORMAT_LABELS[format]}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
                         <button
                           onClick={() => void handleShare()}
                           disabled={shareLoading}
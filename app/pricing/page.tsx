@@ -179,6 +179,11 @@ export default function Pricing() {
           .json()
           .catch(() => null)) as { checkoutUrl?: string | null; sessionId?: string; error?: string } | null;
 
+        if (response.status === 401) {
+          router.push('/login');
+          return;
+        }
+
         if (!response.ok) {
           throw new Error(payload?.error ?? 'Unable to start checkout. Please try again.');
         }
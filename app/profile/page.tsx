@@ -17,11 +17,16 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useTheme } from "next-themes";
 import { AnimatePresence, motion } from "framer-motion";
-import { Camera, CheckCircle2, Loader2, UploadCloud, Plus, Trash2 } from "lucide-react";
+import { Camera, CheckCircle2, Download, Loader2, UploadCloud, Plus, Trash2 } from "lucide-react";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import AddInterestModal from "@/components/AddInterestModal";
 import RemoveInterestModal from "@/components/RemoveInterestModal";
 import TTSSettings from "@/components/TTSSettings";
+import BudgetAlertSettings from "@/components/BudgetAlertSettings";
+import BillingSettings from "@/components/BillingSettings";
+import ActivitySharingSettings from "@/components/ActivitySharingSettings";
+import CalendarSettings from "@/components/CalendarSettings";
+import NotificationSettings from "@/components/NotificationSettings";
 
 const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
 
@@ -106,6 +111,7 @@ function SettingsPageContent() {
   const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>("idle");
   const [usernameStatusMessage, setUsernameStatusMessage] = useState("");
   const [deleteBusy, setDeleteBusy] = useState(false);
+  const [exportBusy, setExportBusy] = useState(false);
   const [initialUsername, setInitialUsername] = useState<string>("");
   const [interests, setInterests] = useState<string[]>([]);
   const [levelMap, setLevelMap] = useState<Record<string, string> | null>(null);
@@ -608,6 +614,37 @@ function SettingsPageContent() {
     }
   }, []);
 
+  const handleExportData = useCallback(async () => {
+    setExportBusy(true);
+    setPreferencesFeedback({ message: "Preparing your data export...", tone: "info" });
+    try {
+      const res = await fetch("/api/profile/export", { cache: "no-store" });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(
+          res.status === 429
+            ? "You've requested several exports recently. Please try again later."
+            : payload?.error || "Could not export your data."
+        );
+      }
+      const disposition = res.headers.get("content-disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "lernex-data-export.json";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setPreferencesFeedback({ message: "Your data export has downloaded.", tone: "success" });
+    } catch (error) {
+      const message =
+        (error as { message?: string } | undefined)?.message || "Could not export your data.";
+      setPreferencesFeedback({ message, tone: "error" });
+    } finally {
+      setExportBusy(false);
+    }
+  }, []);
+
   const handleInterestsRefresh = useCallback(async () => {
     try {
       const res = await fetch("/api/profile/me", { cache: "no-store" });
@@ -1289,6 +1326,27 @@ function SettingsPageContent() {
                 Edit Subjects
               </motion.button>
 
+              <motion.button
+                type="button"
+                onClick={handleExportData}
+                disabled={exportBusy}
+                whileHover={{ scale: exportBusy ? 1 : 1.02, y: exportBusy ? 0 : -2 }}
+                whileTap={{ scale: exportBusy ? 1 : 0.98 }}
+                className="inline-flex items-center justify-center gap-2 rounded-xl border-2 border-white/50 bg-white/30 px-5 py-2.5 text-sm font-semibold backdrop-blur-sm transition-all hover:border-lernex-blue/50 hover:bg-lernex-blue/10 hover:shadow-lg disabled:pointer-events-none disabled:opacity-60 dark:border-white/20 dark:bg-white/5 dark:hover:border-sky-400/50 dark:hover:bg-sky-400/10"
+              >
+                {exportBusy ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Exporting...
+                  </>
+                ) : (
+                  <>
+                    <Download className="h-4 w-4" />
+                    Download My Data
+                  </>
+                )}
+              </motion.button>
+
               <motion.button
                 type="button"
                 onClick={handleDeleteAccount}
@@ -1509,6 +1567,66 @@ function SettingsPageContent() {
           <TTSSettings />
         </div>
       </motion.section>
+
+      {/* Usage Alerts Section */}
+      <motion.section
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.6, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+        className="relative mt-8 overflow-hidden rounded-3xl border border-white/40 bg-gradient-to-br from-white/90 via-white/85 to-white/80 p-8 shadow-2xl backdrop-blur-xl dark:border-white/20 dark:from-neutral-900/90 dark:via-neutral-900/85 dark:to-neutral-900/80"
+      >
+        <div className="relative">
+          <BudgetAlertSettings />
+        </div>
+      </motion.section>
+
+      {/* Billing Section */}
+      <motion.section
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.7, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+        className="relative mt-8 overflow-hidden rounded-3xl border border-white/40 bg-gradient-to-br from-white/90 via-white/85 to-white/80 p-8 shadow-2xl backdrop-blur-xl dark:border-white/20 dark:from-neutral-900/90 dark:via-neutral-900/85 dark:to-neutral-900/80"
+      >
+        <div className="relative">
+          <BillingSettings />
+        </div>
+      </motion.section>
+
+      {/* Friend Activity Section */}
+      <motion.section
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.8, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+        className="relative mt-8 overflow-hidden rounded-3xl border border-white/40 bg-gradient-to-br from-white/90 via-white/85 to-white/80 p-8 shadow-2xl backdrop-blur-xl dark:border-white/20 dark:from-neutral-900/90 dark:via-neutral-900/85 dark:to-neutral-900/80"
+      >
+        <div className="relative">
+          <ActivitySharingSettings />
+        </div>
+      </motion.section>
+
+      {/* Calendar & Reminders Section */}
+      <motion.section
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.9, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+        className="relative mt-8 overflow-hidden rounded-3xl border border-white/40 bg-gradient-to-br from-white/90 via-white/85 to-white/80 p-8 shadow-2xl backdrop-blur-xl dark:border-white/20 dark:from-neutral-900/90 dark:via-neutral-900/85 dark:to-neutral-900/80"
+      >
+        <div className="relative">
+          <CalendarSettings />
+        </div>
+      </motion.section>
+
+      {/* Notifications Section */}
+      <motion.section
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 1.0, duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+        className="relative mt-8 overflow-hidden rounded-3xl border border-white/40 bg-gradient-to-br from-white/90 via-white/85 to-white/80 p-8 shadow-2xl backdrop-blur-xl dark:border-white/20 dark:from-neutral-900/90 dark:via-neutral-900/85 dark:to-neutral-900/80"
+      >
+        <div className="relative">
+          <NotificationSettings />
+        </div>
+      </motion.section>
     </div>
 
     {/* Modals */}
@@ -9,6 +9,9 @@ import {
   shouldResetStreak,
   ensurePositiveStreakForSameDay,
 } from "@/lib/profile-stats";
+import { normalizeTimeZone } from "@/lib/timezone";
+
+const PROFILE_STATS_COLUMNS = "points, streak, last_study_date, streak_freezes, timezone, updated_at";
 
 type ProfileStatsContextValue = {
   user: User | null | undefined;
@@ -30,6 +33,15 @@ async function ensureStreakForToday(
   const now = new Date();
   const updates: Record<string, unknown> = {};
   let shouldUpdate = false;
+  const streakOpts = { timeZone: stats.timeZone, freezes: stats.streakFreezes };
+
+  // Streak days follow the device's local midnight
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (deviceTimeZone && normalizeTimeZone(deviceTimeZone) === deviceTimeZone && deviceTimeZone !== stats.timeZone) {
+    updates.timezone = deviceTimeZone;
+    streakOpts.timeZone = deviceTimeZone;
+    shouldUpdate = true;
+  }
 
   if (!stats.lastStudyDate) {
     if (stats.streak !== 0) {
@@ -41,13 +53,13 @@ async function ensureStreakForToday(
       updates.streak = 0;
       shouldUpdate = true;
     }
-  } else if (shouldResetStreak(stats.lastStudyDate, now)) {
+  } else if (shouldResetStreak(stats.lastStudyDate, now, streakOpts)) {
     if (stats.streak !== 0) {
       updates.streak = 0;
       shouldUpdate = true;
     }
   } else {
-    const normalized = ensurePositiveStreakForSameDay(stats.streak, stats.lastStudyDate, now);
+    const normalized = ensurePositiveStreakForSameDay(stats.streak, stats.lastStudyDate, now, streakOpts);
     if (normalized !== null && normalized !== stats.streak) {
       updates.streak = normalized;
       shouldUpdate = true;
@@ -61,7 +73,7 @@ async function ensureStreakForToday(
     .from("profiles")
     .update(updates)
     .eq("id", userId)
-    .select("points, streak, last_study_date, updated_at")
+    .select(PROFILE_STATS_COLUMNS)
     .maybeSingle();
 
   if (error) {
@@ -114,7 +126,7 @@ export function ProfileStatsProvider({ children }: { children: React.ReactNode }
     try {
       const { data, error: profileError } = await supabase
         .from("profiles")
-        .select("points, streak, last_study_date, updated_at")
+        .select(PROFILE_STATS_COLUMNS)
         .eq("id", userId)
         .maybeSingle();
       if (profileError) throw profileError;
@@ -15,6 +15,7 @@ export default function robots(): MetadataRoute.Robots {
           "/profile",
           "/friends",
           "/notifications",
+          "/admin",
         ],
       },
     ],
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, X } from "lucide-react";
+import FormattedText from "@/components/FormattedText";
+import { ClozeInput, MultiSelectInput, NumericInput, OrderingInput } from "@/components/QuestionInputs";
+import { describeCorrectAnswer, gradeQuestion, isMcqQuestion, type QuestionAnswer } from "@/lib/question-types";
+import type { RoomAnswer, RoomRound, SessionParticipant } from "@/lib/study-sessions";
+import type { AnyQuestion } from "@/types";
+
+type RoundQuizProps = {
+  round: RoomRound;
+  userId: string;
+  participants: SessionParticipant[];
+  answers: RoomAnswer[];
+  onSubmit: (answers: (QuestionAnswer | null)[]) => Promise<void>;
+};
+
+function cn(...classes: Array<string | null | undefined | false>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function participantName(participant: SessionParticipant | undefined) {
+  return participant?.fullName?.trim() || participant?.username?.trim() || "Learner";
+}
+
+function formatAnswer(question: AnyQuestion, answer: QuestionAnswer | null | undefined): string {
+  if (answer === null || answer === undefined) return "—";
+  if (isMcqQuestion(question)) return typeof answer === "number" ? question.choices[answer] ?? "—" : "—";
+  switch (question.type) {
+    case "multi-select":
+      return Array.isArray(answer)
+        ? (answer as number[]).map((idx) => question.choices[idx]).filter(Boolean).join("; ")
+        : "—";
+    case "ordering":
+      return Array.isArray(answer) ? (answer as string[]).join(" → ") : "—";
+    case "cloze":
+      return Array.isArray(answer) ? (answer as string[]).join(", ") : "—";
+    default:
+      return String(answer);
+  }
+}
+
+/**
+ * The quiz for one room round. Until the round is revealed nobody sees
+ * whether they were right; afterwards every participant's answer is shown
+ * side by side under each question.
+ */
+export default function RoundQuiz({ round, userId, participants, answers, onSubmit }: RoundQuizProps) {
+  const questions = round.lesson.questions ?? [];
+  const [draft, setDraft] = useState<(QuestionAnswer | null)[]>(() => questions.map(() => null));
+  const [submitting, setSubmitting] = useState(false);
+
+  const mine = answers.find((answer) => answer.roundIndex === round.index && answer.userId === userId) ?? null;
+  const revealed = round.status === "revealed";
+  const locked = !!mine || revealed;
+  const shown = mine ? mine.answers : draft;
+  const ready = draft.every((entry) => entry !== null);
+
+  const roundAnswers = answers.filter((answer) => answer.roundIndex === round.index);
+  const byUser = new Map(participants.map((participant) => [participant.userId, participant]));
+  const waitingOn = participants.filter(
+    (participant) => participant.rsvp === "accepted" && !round.answeredBy.includes(participant.userId)
+  );
+
+  const setAnswer = (idx: number, value: QuestionAnswer) => {
+    setDraft((prev) => prev.map((entry, i) => (i === idx ? value : entry)));
+  };
+
+  const handleSubmit = async () => {
+    if (!ready || locked) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(draft);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, idx) => (
+        <div
+          key={idx}
+          className="rounded-2xl border border-neutral-200/70 bg-white/80 p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900/50"
+        >
+          <div className="mb-3 text-sm font-semibold text-neutral-900 dark:text-white">
+            <span className="mr-2 text-xs font-medium text-neutral-400">Q{idx + 1}</span>
+            <FormattedText text={question.prompt} />
+          </div>
+
+          {isMcqQuestion(question) ? (
+            <div className="grid gap-2">
+              {question.choices.map((choice, choiceIdx) => {
+                const chosen = shown[idx] === choiceIdx;
+                const stateClass = revealed
+                  ? choiceIdx === question.correctIndex
+                    ? "border-green-500/70 bg-green-500/10"
+                    : chosen
+                      ? "border-red-500/70 bg-red-500/10"
+                      : "border-neutral-200/70 dark:border-neutral-700"
+                  : chosen
+                    ? "border-lernex-blue bg-lernex-blue/10"
+                    : "border-neutral-200/70 hover:border-lernex-blue/40 dark:border-neutral-700";
+                return (
+                  <button
+                    key={choiceIdx}
+                    type="button"
+                    disabled={locked}
+                    onClick={() => setAnswer(idx, choiceIdx)}
+                    className={cn("rounded-xl border px-3 py-2 text-left text-sm transition", stateClass)}
+                  >
+                    <FormattedText text={choice} />
+                  </button>
+                );
+              })}
+            </div>
+          ) : question.type === "multi-select" ? (
+            <MultiSelectInput question={question} answer={shown[idx] ?? null} onSubmit={(value) => setAnswer(idx, value)} hideResult={!revealed} />
+          ) : question.type === "numeric" ? (
+            <NumericInput question={question} answer={shown[idx] ?? null} onSubmit={(value) => setAnswer(idx, value)} hideResult={!revealed} />
+          ) : question.type === "ordering" ? (
+            <OrderingInput question={question} answer={shown[idx] ?? null} onSubmit={(value) => setAnswer(idx, value)} hideResult={!revealed} />
+          ) : question.type === "cloze" ? (
+            <ClozeInput question={question} answer={shown[idx] ?? null} onSubmit={(value) => setAnswer(idx, value)} hideResult={!revealed} />
+          ) : null}
+
+          {revealed && (
+            <div className="mt-4 space-y-2 border-t border-neutral-200/70 pt-3 dark:border-neutral-800">
+              <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                Answer: <FormattedText text={describeCorrectAnswer(question)} />
+                {question.explanation && (
+                  <>
+                    {" — "}
+                    <FormattedText text={question.explanation} />
+                  </>
+                )}
+              </div>
+              <ul className="grid gap-1.5 sm:grid-cols-2">
+                {roundAnswers.map((answer) => {
+                  const correct = gradeQuestion(question, answer.answers[idx]);
+                  return (
+                    <li
+                      key={answer.userId}
+                      className={cn(
+                        "flex items-center gap-2 rounded-lg px-2.5 py-1.5 text-xs",
+                        correct
+                          ? "bg-green-500/10 text-green-700 dark:text-green-300"
+                          : "bg-red-500/10 text-red-700 dark:text-red-300"
+                      )}
+                    >
+                      {correct ? <Check className="h-3.5 w-3.5 shrink-0" /> : <X className="h-3.5 w-3.5 shrink-0" />}
+                      <span className="font-semibold">
+                        {answer.userId === userId ? "You" : participantName(byUser.get(answer.userId))}
+                      </span>
+                      <span className="truncate opacity-80">{formatAnswer(question, answer.answers[idx])}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {!revealed && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-dashed border-lernex-blue/40 bg-lernex-blue/5 px-4 py-3">
+          <p className="text-sm text-neutral-600 dark:text-neutral-300">
+            {mine
+              ? waitingOn.length
+                ? "Locked in. Waiting for " + waitingOn.map(participantName).join(", ") + "…"
+                : "Locked in. Revealing…"
+              : "Answers are revealed together once everyone has locked in."}
+          </p>
+          {!mine && (
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={!ready || submitting}
+              className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2 text-sm font-semibold text-white shadow-md transition hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              Lock in answers
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
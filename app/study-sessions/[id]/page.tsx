@@ -0,0 +1,399 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Crown, DoorOpen, Eye, Flag, Loader2, Radio, SkipForward, Trophy, Users } from "lucide-react";
+import PageTransition from "@/components/PageTransition";
+import LessonCard from "@/components/LessonCard";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import type { QuestionAnswer } from "@/lib/question-types";
+import {
+  MAX_ROOM_ROUNDS,
+  type RoomAnswer,
+  type RoomRound,
+  type SessionParticipant,
+  type SessionSummary,
+} from "@/lib/study-sessions";
+import RoundQuiz from "./RoundQuiz";
+
+type RoomState = {
+  session: {
+    id: string;
+    organizer_id: string;
+    title: string;
+    description: string | null;
+    subject: string | null;
+    topics: string[] | null;
+    scheduled_at: string;
+    duration_minutes: number;
+    status: string;
+    room_status: "scheduled" | "live" | "ended";
+  };
+  participants: SessionParticipant[];
+  rounds: RoomRound[];
+  answers: RoomAnswer[];
+  summary: SessionSummary;
+  isOrganizer: boolean;
+  joinable: boolean;
+  userId: string;
+};
+
+type RoomAction = "start" | "next" | "reveal" | "end";
+
+const RSVP_LABELS: Record<SessionParticipant["rsvp"], string> = {
+  pending: "Invited",
+  accepted: "Going",
+  tentative: "Maybe",
+  declined: "Can't go",
+};
+
+function cn(...classes: Array<string | null | undefined | false>) {
+  return classes.filter(Boolean).join(" ");
+}
+
+function participantName(participant: SessionParticipant | undefined) {
+  return participant?.fullName?.trim() || participant?.username?.trim() || "Learner";
+}
+
+async function readError(response: Response, fallback: string) {
+  const json = await response.json().catch(() => null);
+  return typeof json?.error === "string" ? json.error : fallback;
+}
+
+export default function StudyRoomPage() {
+  const { id } = useParams<{ id: string }>();
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<RoomAction | null>(null);
+
+  const loadRoom = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await fetch(`/api/study-sessions/${id}/room`, { cache: "no-store" });
+      if (!response.ok) throw new Error(await readError(response, "Unable to load study room"));
+      setRoom((await response.json()) as RoomState);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load study room:", err);
+      setError(err instanceof Error ? err.message : "Unable to load study room");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadRoom();
+  }, [loadRoom]);
+
+  // Rounds (new lesson, who has answered, reveal) and the session row (live/ended)
+  // drive everyone's view; each change triggers a refetch of the room state
+  useEffect(() => {
+    if (!id) return;
+    const channel = supabase
+      .channel(`study-room-${id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "study_session_rounds", filter: `session_id=eq.${id}` },
+        () => {
+          loadRoom();
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "study_sessions", filter: `id=eq.${id}` },
+        () => {
+          loadRoom();
+        }
+      );
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, supabase, loadRoom]);
+
+  const runAction = async (action: RoomAction) => {
+    if (action === "end" && typeof window !== "undefined" && !window.confirm("End the session for everyone?")) {
+      return;
+    }
+    setPendingAction(action);
+    setError(null);
+    try {
+      const response = await fetch(`/api/study-sessions/${id}/room`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) throw new Error(await readError(response, "Unable to update study room"));
+      setRoom((await response.json()) as RoomState);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Unable to update study room");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const submitAnswers = async (answers: (QuestionAnswer | null)[]) => {
+    if (!room) return;
+    const round = room.rounds[room.rounds.length - 1];
+    if (!round) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/study-sessions/${id}/answer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roundIndex: round.index, answers }),
+      });
+      if (!response.ok) throw new Error(await readError(response, "Unable to submit answers"));
+      await loadRoom();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Unable to submit answers");
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+      </main>
+    );
+  }
+
+  if (!room) {
+    return (
+      <main className="mx-auto flex min-h-screen max-w-xl flex-col items-center justify-center gap-4 px-4 text-center">
+        <p className="text-sm text-neutral-600 dark:text-neutral-300">{error ?? "Study session not found"}</p>
+        <Link href="/friends" className="text-sm font-medium text-lernex-blue hover:underline">
+          Back to friends
+        </Link>
+      </main>
+    );
+  }
+
+  const { session, participants, rounds, summary, isOrganizer, userId } = room;
+  const currentRound = rounds[rounds.length - 1] ?? null;
+  const byUser = new Map(participants.map((participant) => [participant.userId, participant]));
+  const scheduledLabel = new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(session.scheduled_at));
+
+  return (
+    <PageTransition>
+      <main className="relative min-h-screen bg-gradient-to-b from-white via-white to-lernex-gray/50 text-neutral-900 dark:from-lernex-charcoal dark:via-lernex-charcoal/98 dark:to-lernex-charcoal/92 dark:text-white">
+        <div className="mx-auto w-full max-w-4xl px-4 pb-20 pt-8 sm:px-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href="/friends"
+              className="inline-flex items-center gap-2 rounded-full border border-neutral-200/80 bg-white/70 px-3 py-1.5 text-sm font-medium text-neutral-600 shadow-sm transition hover:border-lernex-blue/50 hover:text-lernex-blue dark:border-white/10 dark:bg-white/5 dark:text-white/80"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Friends
+            </Link>
+            <span
+              className={cn(
+                "inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-semibold",
+                session.room_status === "live"
+                  ? "bg-rose-500/10 text-rose-600 dark:text-rose-300"
+                  : session.room_status === "ended"
+                    ? "bg-neutral-500/10 text-neutral-600 dark:text-neutral-300"
+                    : "bg-lernex-blue/10 text-lernex-blue"
+              )}
+            >
+              {session.room_status === "live" && <Radio className="h-3.5 w-3.5 animate-pulse" />}
+              {session.room_status === "live" ? "Live" : session.room_status === "ended" ? "Ended" : scheduledLabel}
+            </span>
+          </div>
+
+          <header className="mt-6">
+            <h1 className="text-2xl font-semibold">{session.title}</h1>
+            <p className="mt-1 text-sm text-neutral-500 dark:text-neutral-400">
+              {[session.subject, session.topics?.join(", ")].filter(Boolean).join(" · ") || "Open study"}
+            </p>
+          </header>
+
+          {/* Roster */}
+          <section className="mt-6 rounded-2xl border border-neutral-200/70 bg-white/80 p-4 dark:border-neutral-800 dark:bg-neutral-900/50">
+            <div className="mb-3 flex items-center gap-2 text-sm font-semibold">
+              <Users className="h-4 w-4 text-lernex-blue" />
+              Participants
+            </div>
+            <ul className="flex flex-wrap gap-2">
+              {participants.map((participant) => {
+                const answered = currentRound?.status === "open" && currentRound.answeredBy.includes(participant.userId);
+                return (
+                  <li
+                    key={participant.userId}
+                    className={cn(
+                      "inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs",
+                      participant.rsvp === "declined"
+                        ? "border-neutral-200/70 text-neutral-400 line-through dark:border-neutral-800"
+                        : "border-neutral-200/70 text-neutral-700 dark:border-neutral-700 dark:text-neutral-200"
+                    )}
+                  >
+                    {participant.role === "organizer" && <Crown className="h-3 w-3 text-amber-500" />}
+                    <span className="font-medium">
+                      {participant.userId === userId ? "You" : participantName(participant)}
+                    </span>
+                    <span className="opacity-60">
+                      {session.room_status === "live" && currentRound?.status === "open"
+                        ? answered
+                          ? "locked in"
+                          : participant.rsvp === "accepted"
+                            ? "thinking…"
+                            : RSVP_LABELS[participant.rsvp]
+                        : RSVP_LABELS[participant.rsvp]}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+
+          {error && (
+            <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50/80 px-4 py-3 text-sm text-rose-700 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-200">
+              {error}
+            </div>
+          )}
+
+          {/* Organizer controls */}
+          {isOrganizer && session.room_status !== "ended" && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {session.room_status === "scheduled" && (
+                <button
+                  onClick={() => runAction("start")}
+                  disabled={!!pendingAction || !room.joinable}
+                  className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2 text-sm font-semibold text-white shadow-md transition hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {pendingAction === "start" ? <Loader2 className="h-4 w-4 animate-spin" /> : <DoorOpen className="h-4 w-4" />}
+                  Start session
+                </button>
+              )}
+              {session.room_status === "live" && currentRound?.status === "open" && (
+                <button
+                  onClick={() => runAction("reveal")}
+                  disabled={!!pendingAction}
+                  className="inline-flex items-center gap-2 rounded-full border border-neutral-200/80 bg-white/70 px-4 py-2 text-sm font-medium text-neutral-700 transition hover:border-lernex-blue/40 hover:text-lernex-blue disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900/40 dark:text-neutral-200"
+                >
+                  {pendingAction === "reveal" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                  Reveal now
+                </button>
+              )}
+              {session.room_status === "live" && currentRound?.status !== "open" && rounds.length < MAX_ROOM_ROUNDS && (
+                <button
+                  onClick={() => runAction("next")}
+                  disabled={!!pendingAction}
+                  className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2 text-sm font-semibold text-white shadow-md transition hover:opacity-90 disabled:opacity-50"
+                >
+                  {pendingAction === "next" ? <Loader2 className="h-4 w-4 animate-spin" /> : <SkipForward className="h-4 w-4" />}
+                  {currentRound ? "Next round" : "First round"}
+                </button>
+              )}
+              {session.room_status === "live" && (
+                <button
+                  onClick={() => runAction("end")}
+                  disabled={!!pendingAction}
+                  className="inline-flex items-center gap-2 rounded-full border border-rose-200 bg-rose-50/80 px-4 py-2 text-sm font-medium text-rose-700 transition hover:bg-rose-100 disabled:opacity-50 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-200"
+                >
+                  {pendingAction === "end" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Flag className="h-4 w-4" />}
+                  End session
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Waiting to start */}
+          {session.room_status === "scheduled" && (
+            <div className="mt-8 rounded-2xl border border-dashed border-neutral-300/80 px-6 py-10 text-center text-sm text-neutral-500 dark:border-neutral-700 dark:text-neutral-400">
+              {isOrganizer
+                ? room.joinable
+                  ? "Everyone is waiting on you. Start the session when you're ready."
+                  : `The room opens shortly before ${scheduledLabel}.`
+                : "Waiting for the organizer to start the session…"}
+            </div>
+          )}
+
+          {/* Live round */}
+          {session.room_status === "live" && (
+            <section className="mt-8 space-y-5">
+              {pendingAction === "next" || pendingAction === "start" ? (
+                <div className="flex items-center justify-center gap-2 py-16 text-sm text-neutral-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Preparing the next lesson…
+                </div>
+              ) : currentRound ? (
+                <>
+                  <div className="text-xs font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+                    Round {currentRound.index + 1}
+                    {currentRound.topic ? " · " + currentRound.topic : ""}
+                  </div>
+                  <div className="flex justify-center">
+                    <LessonCard lesson={currentRound.lesson} className="w-full max-w-[640px]" />
+                  </div>
+                  <RoundQuiz
+                    key={currentRound.index}
+                    round={currentRound}
+                    userId={userId}
+                    participants={participants}
+                    answers={room.answers}
+                    onSubmit={submitAnswers}
+                  />
+                </>
+              ) : (
+                <div className="py-16 text-center text-sm text-neutral-500">Waiting for the first round…</div>
+              )}
+            </section>
+          )}
+
+          {/* Summary */}
+          {(session.room_status === "ended" || summary.rounds > 0) && (
+            <section className="mt-10 rounded-2xl border border-neutral-200/70 bg-white/80 p-5 dark:border-neutral-800 dark:bg-neutral-900/50">
+              <div className="flex items-center gap-2 text-sm font-semibold">
+                <Trophy className="h-4 w-4 text-amber-500" />
+                {session.room_status === "ended" ? "Session summary" : "Scoreboard"}
+              </div>
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                {summary.rounds} {summary.rounds === 1 ? "round" : "rounds"} · {summary.questions} questions
+                {session.room_status === "ended" && rounds.length > 0 && (
+                  <> · {rounds.map((round) => round.topic).filter(Boolean).join(", ")}</>
+                )}
+              </p>
+              <ol className="mt-4 space-y-2">
+                {summary.participants.map((entry, index) => {
+                  const accuracy = entry.total ? Math.round((entry.correct / entry.total) * 100) : null;
+                  return (
+                    <li
+                      key={entry.userId}
+                      className="flex items-center justify-between gap-3 rounded-xl bg-neutral-50 px-3 py-2 text-sm dark:bg-neutral-800/40"
+                    >
+                      <span className="flex items-center gap-2">
+                        <span className="w-5 text-xs font-semibold text-neutral-400">{index + 1}</span>
+                        <span className="font-medium">
+                          {entry.userId === userId ? "You" : participantName(byUser.get(entry.userId))}
+                        </span>
+                      </span>
+                      <span className="text-xs text-neutral-600 dark:text-neutral-300">
+                        {entry.correct}/{entry.total} correct
+                        {accuracy !== null && <> · {accuracy}%</>}
+                        {entry.roundsAnswered < summary.rounds && (
+                          <> · missed {summary.rounds - entry.roundsAnswered}</>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </section>
+          )}
+        </div>
+      </main>
+    </PageTransition>
+  );
+}
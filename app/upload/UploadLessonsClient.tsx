@@ -24,6 +24,8 @@ import type { Lesson } from "@/types";
 import type { ProfileBasics } from "@/lib/profile-basics";
 import { useUsageLimitCheck } from "@/lib/hooks/useUsageLimitCheck";
 import UsageLimitModal from "@/components/UsageLimitModal";
+import CostEstimateNotice from "@/components/CostEstimateNotice";
+import { fetchCostEstimate, type CostForecastResponse } from "@/lib/hooks/useCostEstimate";
 // PERFORMANCE OPTIMIZATION: These imports are lightweight function definitions
 // The heavy libraries (PDF.js, Tesseract) are dynamically imported inside these functions
 import { convertPdfToImages, convertImageToBase64, convertPdfToCanvases } from "@/lib/pdf-to-images";
@@ -495,6 +497,24 @@ async function parseFileWithDeepSeekOCR(file: File): Promise<{ text: string; pip
   }
 }
 
+// Rough page count for the pre-flight cost estimate, before any parsing runs
+async function estimateUploadPages(files: FileList): Promise<number> {
+  let pages = 0;
+  for (const file of Array.from(files)) {
+    const name = file.name.toLowerCase();
+    if (file.type === "application/pdf" || name.endsWith(".pdf")) {
+      const raw = await file.text().catch(() => "");
+      pages += Math.max(1, (raw.match(/\/Type\s*\/Page\b/g) ?? []).length);
+    } else if (file.type.startsWith("image/")) {
+      pages += 1;
+    } else {
+      // Text-like documents: ~3KB per page
+      pages += Math.max(1, Math.ceil(file.size / 3000));
+    }
+  }
+  return pages;
+}
+
 function formatBytes(bytes: number): string {
   if (!Number.isFinite(bytes) || bytes <= 0) return "0 KB";
   if (bytes < 1024) return `${bytes} B`;
@@ -669,6 +689,7 @@ export default function UploadLessonsClient({ initialProfile }: UploadLessonsCli
   const [pipelineConfig, setPipelineConfig] = useState<PipelineConfig | null>(null);
   const [librariesReady, setLibrariesReady] = useState(false);
   const [librariesLoading, setLibrariesLoading] = useState(false);
+  const [uploadForecast, setUploadForecast] = useState<CostForecastResponse | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const statusUpdateTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -1246,6 +1267,12 @@ export default function UploadLessonsClient({ initialProfile }: UploadLessonsCli
         return; // Modal will be shown by the hook
       }
 
+      // Pre-flight estimate shown alongside progress; doesn't block processing
+      setUploadForecast(null);
+      void estimateUploadPages(files)
+        .then((pages) => fetchCostEstimate({ action: "upload", pages }))
+        .then(setUploadForecast);
+
       setError(null);
       setStage("parsing");
       setStatusDetail("Processing your content with AI…");
@@ -2160,6 +2187,7 @@ export default function UploadLessonsClient({ initialProfile }: UploadLessonsCli
                   <div className="mt-4 text-sm text-neutral-600 dark:text-neutral-300">
                     {stage === "error" ? <p>{error}</p> : <p>{statusDetail ?? "Preparing your content..."}</p>}
                   </div>
+                  {stage !== "error" && <CostEstimateNotice forecast={uploadForecast} actionLabel="upload" className="mt-3" />}
                 </motion.div>
               )}
             </AnimatePresence>
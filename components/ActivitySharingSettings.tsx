@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Activity, Check, Loader2 } from "lucide-react";
+import { ACTIVITY_EVENT_TYPES, type ActivityEventType, type ActivityVisibility } from "@/lib/activity-feed";
+
+const TYPE_LABELS: Record<ActivityEventType, string> = {
+  lesson_completed: "Lessons I complete",
+  badge_unlocked: "Badges I unlock",
+  streak_milestone: "Streak milestones",
+  playlist_published: "Playlists I publish",
+  study_session_confirmed: "Study sessions I confirm",
+};
+
+export default function ActivitySharingSettings() {
+  const [visibility, setVisibility] = useState<ActivityVisibility>("friends");
+  const [sharedTypes, setSharedTypes] = useState<ActivityEventType[]>([...ACTIVITY_EVENT_TYPES]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // Load current sharing settings
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/friends/activity/settings");
+        if (response.ok) {
+          const data = await response.json();
+          if (data.sharing?.visibility) setVisibility(data.sharing.visibility);
+          if (Array.isArray(data.sharing?.sharedTypes)) setSharedTypes(data.sharing.sharedTypes);
+        }
+      } catch (error) {
+        console.error("Failed to load activity settings:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const toggleType = (type: ActivityEventType) => {
+    setSharedTypes((prev) => (prev.includes(type) ? prev.filter((value) => value !== type) : [...prev, type]));
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const response = await fetch("/api/friends/activity/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ visibility, sharedTypes }),
+      });
+      if (!response.ok) throw new Error("Failed to save activity settings");
+      setSaveMessage("Sharing saved!");
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      console.error("Failed to save activity settings:", error);
+      setSaveMessage("Failed to save sharing");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {/* Header */}
+      <div className="flex items-center gap-3 pb-4 border-b border-surface">
+        <Activity className="h-5 w-5 text-lernex-blue" />
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Friend Activity</h3>
+          <p className="text-sm text-muted-foreground">
+            Choose what your friends see in their activity feed on /friends
+          </p>
+        </div>
+      </div>
+
+      {/* Visibility */}
+      <label className="flex items-center justify-between gap-4">
+        <div>
+          <span className="text-sm font-medium text-foreground">Share my activity with friends</span>
+          <p className="text-xs text-muted-foreground">Turning this off also hides activity you already shared</p>
+        </div>
+        <input
+          type="checkbox"
+          checked={visibility === "friends"}
+          onChange={(event) => setVisibility(event.target.checked ? "friends" : "private")}
+          className="h-4 w-4 accent-lernex-blue"
+        />
+      </label>
+
+      {/* Types */}
+      <div className={`space-y-2 ${visibility === "private" ? "opacity-50" : ""}`}>
+        {ACTIVITY_EVENT_TYPES.map((type) => (
+          <label key={type} className="flex items-center gap-3 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={sharedTypes.includes(type)}
+              onChange={() => toggleType(type)}
+              disabled={visibility === "private"}
+              className="h-4 w-4 accent-lernex-blue"
+            />
+            {TYPE_LABELS[type]}
+          </label>
+        ))}
+      </div>
+
+      {/* Save */}
+      <div className="flex items-center gap-3 pt-2">
+        <button
+          type="button"
+          onClick={saveSettings}
+          disabled={saving}
+          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2.5 text-sm font-medium text-white shadow-md transition hover:opacity-90 disabled:opacity-60"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Save Sharing
+        </button>
+        {saveMessage && <span className="text-sm text-muted-foreground">{saveMessage}</span>}
+      </div>
+    </div>
+  );
+}
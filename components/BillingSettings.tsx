@@ -0,0 +1,309 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, CreditCard, ExternalLink, FileText, Loader2 } from "lucide-react";
+import type { BillingSummary } from "@/lib/billing";
+
+type PaidPlan = "plus" | "premium";
+type Interval = "month" | "year";
+
+const PLAN_NAMES: Record<string, string> = {
+  free: "Free Explorer",
+  plus: "Plus Momentum",
+  premium: "Premium Unlimited",
+};
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function formatAmount(amount: number | null, currency: string | null): string {
+  if (amount === null || !currency) return "";
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: currency.toUpperCase() }).format(amount / 100);
+}
+
+export default function BillingSettings() {
+  const [summary, setSummary] = useState<BillingSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/billing", { cache: "no-store" });
+      if (response.ok) {
+        setSummary((await response.json()) as BillingSummary);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setMessage(data?.error ?? "Failed to load billing");
+      }
+    } catch (error) {
+      console.error("Failed to load billing:", error);
+      setMessage("Failed to load billing");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSummary();
+  }, [loadSummary]);
+
+  const updateSubscription = async (
+    key: string,
+    body: { action: "cancel" | "resume" } | { action: "change"; plan: PaidPlan; interval: Interval }
+  ) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/billing/subscription", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data?.error ?? "Failed to update plan");
+      setMessage(
+        data.applied === "period-end"
+          ? "Change scheduled for the end of your billing period."
+          : data.applied === "now"
+          ? "Your plan has been updated."
+          : "Your current plan will continue."
+      );
+      setConfirmCancel(false);
+      await loadSummary();
+    } catch (error) {
+      console.error("Failed to update plan:", error);
+      setMessage(error instanceof Error ? error.message : "Failed to update plan");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openPortal = async () => {
+    setBusy("portal");
+    setMessage(null);
+    try {
+      const response = await fetch("/api/billing/portal", { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data?.url) throw new Error(data?.error ?? "Unable to open the billing portal");
+      window.location.href = data.url;
+    } catch (error) {
+      console.error("Failed to open billing portal:", error);
+      setMessage(error instanceof Error ? error.message : "Unable to open the billing portal");
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+      </div>
+    );
+  }
+
+  const plan = summary?.plan ?? null;
+  const interval = summary?.interval ?? "month";
+  const pending = summary?.pendingChange ?? null;
+  const activeSubscription = !!plan && summary?.status !== "canceled";
+  const otherPlan: PaidPlan = plan === "premium" ? "plus" : "premium";
+  const otherInterval: Interval = interval === "year" ? "month" : "year";
+  const inGrace = !!summary?.graceUntil && (summary.status === "past_due" || summary.status === "unpaid");
+
+  return (
+    <div id="billing" className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {/* Header */}
+      <div className="flex items-center gap-3 pb-4 border-b border-surface">
+        <CreditCard className="h-5 w-5 text-lernex-blue" />
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Billing &amp; Plan</h3>
+          <p className="text-sm text-muted-foreground">Manage your subscription, billing cycle and invoices</p>
+        </div>
+      </div>
+
+      {/* Current plan */}
+      <div className="rounded-2xl border border-surface bg-surface-card p-4">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">Current plan</p>
+            <p className="text-xl font-semibold text-foreground">
+              {PLAN_NAMES[plan ?? summary?.tier ?? "free"]}
+            </p>
+          </div>
+          {activeSubscription && (
+            <p className="text-sm text-muted-foreground">
+              {formatAmount(summary?.amount ?? null, summary?.currency ?? null)}
+              {summary?.amount !== null ? ` / ${interval === "year" ? "year" : "month"}` : ""}
+            </p>
+          )}
+        </div>
+        {activeSubscription ? (
+          <p className="mt-2 text-sm text-muted-foreground">
+            {pending?.kind === "cancel"
+              ? `Ends on ${formatDate(pending.effectiveAt)} — you keep ${PLAN_NAMES[plan ?? "free"]} until then.`
+              : `Renews on ${formatDate(summary?.renewsAt)}.`}
+          </p>
+        ) : (
+          <p className="mt-2 text-sm text-muted-foreground">
+            Upgrade for higher generation limits.{" "}
+            <Link href="/pricing" className="font-medium text-lernex-blue hover:underline">
+              See plans
+            </Link>
+          </p>
+        )}
+      </div>
+
+      {inGrace && (
+        <div className="flex items-start gap-2 rounded-xl border border-amber-300/60 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-200">
+          <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+          <span>
+            Your last payment failed. Update your payment method by {formatDate(summary?.graceUntil)} to keep your plan.
+          </span>
+        </div>
+      )}
+
+      {pending?.kind === "switch" && plan && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-lernex-blue/30 bg-lernex-blue/5 px-4 py-3 text-sm text-foreground">
+          <span>
+            Switching to {PLAN_NAMES[pending.plan]} ({pending.interval === "year" ? "annual" : "monthly"}) on{" "}
+            {formatDate(pending.effectiveAt)}.
+          </span>
+          <button
+            type="button"
+            onClick={() => updateSubscription("keep", { action: "change", plan, interval })}
+            disabled={busy !== null}
+            className="rounded-lg border border-surface px-3 py-1.5 text-xs font-medium transition hover:border-lernex-blue/40 hover:text-lernex-blue disabled:opacity-60"
+          >
+            {busy === "keep" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Keep current plan"}
+          </button>
+        </div>
+      )}
+
+      {/* Plan actions */}
+      {activeSubscription && plan && (
+        <div className="space-y-3">
+          <label className="text-sm font-medium text-foreground">Change plan</label>
+          <p className="text-xs text-muted-foreground">
+            Upgrades apply right away with a prorated charge; downgrades take effect at your next renewal.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => updateSubscription("interval", { action: "change", plan, interval: otherInterval })}
+              disabled={busy !== null || pending?.kind === "cancel"}
+              className="inline-flex items-center gap-2 rounded-xl border border-surface px-4 py-2 text-sm font-medium transition hover:border-lernex-blue/40 hover:text-lernex-blue disabled:opacity-60"
+            >
+              {busy === "interval" && <Loader2 className="h-4 w-4 animate-spin" />}
+              Switch to {otherInterval === "year" ? "annual" : "monthly"} billing
+            </button>
+            <button
+              type="button"
+              onClick={() => updateSubscription("plan", { action: "change", plan: otherPlan, interval })}
+              disabled={busy !== null || pending?.kind === "cancel"}
+              className="inline-flex items-center gap-2 rounded-xl border border-surface px-4 py-2 text-sm font-medium transition hover:border-lernex-blue/40 hover:text-lernex-blue disabled:opacity-60"
+            >
+              {busy === "plan" && <Loader2 className="h-4 w-4 animate-spin" />}
+              {otherPlan === "premium" ? "Upgrade" : "Downgrade"} to {PLAN_NAMES[otherPlan]}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Cancel / resume / portal */}
+      <div className="flex flex-wrap items-center gap-3 pt-2">
+        {activeSubscription && pending?.kind === "cancel" && (
+          <button
+            type="button"
+            onClick={() => updateSubscription("resume", { action: "resume" })}
+            disabled={busy !== null}
+            className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2.5 text-sm font-medium text-white shadow-md transition hover:opacity-90 disabled:opacity-60"
+          >
+            {busy === "resume" && <Loader2 className="h-4 w-4 animate-spin" />}
+            Resume subscription
+          </button>
+        )}
+        {activeSubscription && pending?.kind !== "cancel" && (
+          confirmCancel ? (
+            <>
+              <button
+                type="button"
+                onClick={() => updateSubscription("cancel", { action: "cancel" })}
+                disabled={busy !== null}
+                className="inline-flex items-center gap-2 rounded-xl bg-red-600 px-5 py-2.5 text-sm font-medium text-white shadow-md transition hover:bg-red-700 disabled:opacity-60"
+              >
+                {busy === "cancel" && <Loader2 className="h-4 w-4 animate-spin" />}
+                Confirm cancellation
+              </button>
+              <button
+                type="button"
+                onClick={() => setConfirmCancel(false)}
+                className="text-sm text-muted-foreground hover:text-foreground"
+              >
+                Never mind
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setConfirmCancel(true)}
+              disabled={busy !== null}
+              className="rounded-xl border border-surface px-5 py-2.5 text-sm font-medium text-muted-foreground transition hover:border-red-400/60 hover:text-red-600 disabled:opacity-60"
+            >
+              Cancel plan
+            </button>
+          )
+        )}
+        {summary?.hasCustomer && (
+          <button
+            type="button"
+            onClick={openPortal}
+            disabled={busy !== null}
+            className="inline-flex items-center gap-2 rounded-xl border border-surface px-5 py-2.5 text-sm font-medium transition hover:border-lernex-blue/40 hover:text-lernex-blue disabled:opacity-60"
+          >
+            {busy === "portal" ? <Loader2 className="h-4 w-4 animate-spin" /> : <ExternalLink className="h-4 w-4" />}
+            Payment methods &amp; billing details
+          </button>
+        )}
+        {message && <span className="text-sm text-muted-foreground">{message}</span>}
+      </div>
+
+      {/* Invoices */}
+      {summary && summary.invoices.length > 0 && (
+        <div className="space-y-3">
+          <label className="text-sm font-medium text-foreground">Invoices</label>
+          <ul className="divide-y divide-neutral-200 rounded-2xl border border-surface dark:divide-neutral-800">
+            {summary.invoices.map((invoice) => (
+              <li key={invoice.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+                <span className="flex items-center gap-2 text-foreground">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  {formatDate(invoice.createdAt)}
+                  {invoice.number ? <span className="text-muted-foreground">· {invoice.number}</span> : null}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="font-medium">{formatAmount(invoice.amount, invoice.currency)}</span>
+                  <span className="rounded-full bg-surface-muted px-2 py-0.5 text-xs capitalize text-muted-foreground">
+                    {invoice.status ?? "draft"}
+                  </span>
+                  {(invoice.hostedUrl || invoice.pdfUrl) && (
+                    <a
+                      href={invoice.hostedUrl ?? invoice.pdfUrl ?? "#"}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-lernex-blue hover:underline"
+                    >
+                      View
+                    </a>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell, Check, Loader2, Plus, X } from "lucide-react";
+import { DEFAULT_BUDGET_ALERT_THRESHOLDS, MAX_BUDGET_ALERT_THRESHOLDS } from "@/lib/usage";
+
+export default function BudgetAlertSettings() {
+  const [thresholds, setThresholds] = useState<number[]>([...DEFAULT_BUDGET_ALERT_THRESHOLDS]);
+  const [percentUsed, setPercentUsed] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // Load current thresholds
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/usage/alerts");
+        if (response.ok) {
+          const data = await response.json();
+          if (Array.isArray(data.thresholds)) setThresholds(data.thresholds);
+          if (typeof data.percentUsed === "number") setPercentUsed(data.percentUsed);
+        }
+      } catch (error) {
+        console.error("Failed to load budget alerts:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const addThreshold = () => {
+    const value = Math.round(Number(draft));
+    if (!Number.isFinite(value) || value < 1 || value > 100) return;
+    setThresholds((prev) => Array.from(new Set([...prev, value])).sort((a, b) => a - b));
+    setDraft("");
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const response = await fetch("/api/usage/alerts", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ thresholds }),
+      });
+      if (!response.ok) throw new Error("Failed to save budget alerts");
+      const data = await response.json();
+      if (Array.isArray(data.thresholds)) setThresholds(data.thresholds);
+      setSaveMessage("Alerts saved!");
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      console.error("Failed to save budget alerts:", error);
+      setSaveMessage("Failed to save alerts");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {/* Header */}
+      <div className="flex items-center gap-3 pb-4 border-b border-surface">
+        <Bell className="h-5 w-5 text-lernex-blue" />
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Usage Alerts</h3>
+          <p className="text-sm text-muted-foreground">
+            Get a heads-up before you run out of generation budget
+            {percentUsed !== null ? ` (${percentUsed}% used this period)` : ""}
+          </p>
+        </div>
+      </div>
+
+      {/* Thresholds */}
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-foreground">Warn me at</label>
+        <p className="text-xs text-muted-foreground">
+          Percent of your period budget, up to {MAX_BUDGET_ALERT_THRESHOLDS} alerts
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {thresholds.map((threshold) => (
+            <span
+              key={threshold}
+              className="inline-flex items-center gap-1 rounded-full border border-lernex-blue/40 bg-lernex-blue/10 px-3 py-1 text-sm font-medium text-lernex-blue dark:text-sky-300"
+            >
+              {threshold}%
+              <button
+                type="button"
+                onClick={() => setThresholds((prev) => prev.filter((value) => value !== threshold))}
+                disabled={thresholds.length <= 1}
+                aria-label={`Remove ${threshold}% alert`}
+                className="rounded-full p-0.5 hover:bg-lernex-blue/20 disabled:opacity-40"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {thresholds.length < MAX_BUDGET_ALERT_THRESHOLDS && (
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                addThreshold();
+              }}
+              className="inline-flex items-center gap-1"
+            >
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                placeholder="%"
+                aria-label="New alert threshold"
+                className="w-16 rounded-lg border border-surface bg-surface-card px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-lernex-blue/40"
+              />
+              <button
+                type="submit"
+                aria-label="Add alert threshold"
+                className="rounded-lg border border-surface p-1.5 text-muted-foreground transition hover:border-lernex-blue/40 hover:text-lernex-blue"
+              >
+                <Plus className="h-3.5 w-3.5" />
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {/* Save */}
+      <div className="flex items-center gap-3 pt-2">
+        <button
+          type="button"
+          onClick={saveSettings}
+          disabled={saving}
+          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2.5 text-sm font-medium text-white shadow-md transition hover:opacity-90 disabled:opacity-60"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Save Alerts
+        </button>
+        {saveMessage && <span className="text-sm text-muted-foreground">{saveMessage}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarDays, Check, Copy, Loader2, RefreshCw } from "lucide-react";
+import { DEFAULT_SESSION_REMINDER_MINUTES, SESSION_REMINDER_OPTIONS } from "@/lib/study-sessions";
+
+function reminderLabel(minutes: number) {
+  if (minutes >= 1440) return "1 day before";
+  if (minutes >= 60) return `${minutes / 60} hour${minutes === 60 ? "" : "s"} before`;
+  return `${minutes} minutes before`;
+}
+
+export default function CalendarSettings() {
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [reminderMinutes, setReminderMinutes] = useState<number | null>(DEFAULT_SESSION_REMINDER_MINUTES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [feedBusy, setFeedBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // Load current calendar settings
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/calendar/settings");
+        if (response.ok) {
+          const data = await response.json();
+          setFeedToken(typeof data.feedToken === "string" ? data.feedToken : null);
+          if (data.reminderMinutes === null || typeof data.reminderMinutes === "number") {
+            setReminderMinutes(data.reminderMinutes);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to load calendar settings:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const feedUrl =
+    feedToken && typeof window !== "undefined"
+      ? `${window.location.origin}/api/calendar/feed/${feedToken}.ics`
+      : null;
+
+  const updateFeed = async (method: "POST" | "DELETE") => {
+    if (method === "POST" && feedToken && !window.confirm("Create a new link? Calendars using the old one stop updating.")) {
+      return;
+    }
+    setFeedBusy(true);
+    setSaveMessage(null);
+    try {
+      const response = await fetch("/api/calendar/settings", { method });
+      if (!response.ok) throw new Error("Failed to update calendar feed");
+      const data = await response.json();
+      setFeedToken(typeof data.feedToken === "string" ? data.feedToken : null);
+    } catch (error) {
+      console.error("Failed to update calendar feed:", error);
+      setSaveMessage("Failed to update calendar link");
+    } finally {
+      setFeedBusy(false);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy calendar link:", error);
+    }
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const response = await fetch("/api/calendar/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reminderMinutes }),
+      });
+      if (!response.ok) throw new Error("Failed to save calendar settings");
+      setSaveMessage("Reminders saved!");
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      console.error("Failed to save calendar settings:", error);
+      setSaveMessage("Failed to save reminders");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {/* Header */}
+      <div className="flex items-center gap-3 pb-4 border-b border-surface">
+        <CalendarDays className="h-5 w-5 text-lernex-blue" />
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Calendar &amp; Reminders</h3>
+          <p className="text-sm text-muted-foreground">
+            Follow your study sessions in Google Calendar, Apple Calendar or Outlook
+          </p>
+        </div>
+      </div>
+
+      {/* Feed */}
+      <div className="space-y-3">
+        <div>
+          <span className="text-sm font-medium text-foreground">Calendar feed</span>
+          <p className="text-xs text-muted-foreground">
+            Subscribe to this private link to see every session you organize or join. Anyone with the link can see your
+            sessions, so keep it to yourself.
+          </p>
+        </div>
+        {feedUrl ? (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={feedUrl}
+                onFocus={(event) => event.target.select()}
+                className="min-w-0 flex-1 rounded-xl border border-surface bg-transparent px-3 py-2 text-xs text-foreground"
+              />
+              <button
+                type="button"
+                onClick={copyFeedUrl}
+                className="inline-flex items-center gap-1.5 rounded-xl border border-surface px-3 py-2 text-xs font-medium text-foreground transition hover:border-lernex-blue/50"
+              >
+                {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <a href={feedUrl.replace(/^https?:/, "webcal:")} className="font-medium text-lernex-blue hover:underline">
+                Open in calendar app
+              </a>
+              <button
+                type="button"
+                onClick={() => updateFeed("POST")}
+                disabled={feedBusy}
+                className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground disabled:opacity-60"
+              >
+                <RefreshCw className="h-3 w-3" />
+                New link
+              </button>
+              <button
+                type="button"
+                onClick={() => updateFeed("DELETE")}
+                disabled={feedBusy}
+                className="text-muted-foreground hover:text-red-500 disabled:opacity-60"
+              >
+                Turn off
+              </button>
+            </div>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={() => updateFeed("POST")}
+            disabled={feedBusy}
+            className="inline-flex items-center gap-2 rounded-xl border border-surface px-4 py-2 text-sm font-medium text-foreground transition hover:border-lernex-blue/50 disabled:opacity-60"
+          >
+            {feedBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarDays className="h-4 w-4" />}
+            Create calendar link
+          </button>
+        )}
+      </div>
+
+      {/* Reminders */}
+      <label className="flex items-center justify-between gap-4">
+        <div>
+          <span className="text-sm font-medium text-foreground">Session reminders</span>
+          <p className="text-xs text-muted-foreground">
+            Shown in Lernex before sessions you haven&apos;t declined, and added as an alert in calendar exports
+          </p>
+        </div>
+        <select
+          value={reminderMinutes ?? "off"}
+          onChange={(event) => setReminderMinutes(event.target.value === "off" ? null : Number(event.target.value))}
+          className="rounded-xl border border-surface bg-transparent px-3 py-2 text-sm text-foreground"
+        >
+          {SESSION_REMINDER_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {reminderLabel(minutes)}
+            </option>
+          ))}
+          <option value="off">Off</option>
+        </select>
+      </label>
+
+      {/* Save */}
+      <div className="flex items-center gap-3 pt-2">
+        <button
+          type="button"
+          onClick={saveSettings}
+          disabled={saving}
+          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2.5 text-sm font-medium text-white shadow-md transition hover:opacity-90 disabled:opacity-60"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Save Reminders
+        </button>
+        {saveMessage && <span className="text-sm text-muted-foreground">{saveMessage}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { AlertTriangle, Gauge } from "lucide-react";
+import type { CostForecastResponse } from "@/lib/hooks/useCostEstimate";
+
+type CostEstimateNoticeProps = {
+  forecast: CostForecastResponse | null;
+  // Noun for the action, e.g. "lesson" or "upload"
+  actionLabel: string;
+  className?: string;
+};
+
+function formatShare(percent: number) {
+  return percent < 1 ? "<1%" : `~${percent}%`;
+}
+
+/**
+ * One-line pre-flight estimate ("this upload will use ~18% of your remaining
+ * quota") plus any soft-limit warning that applies.
+ */
+export default function CostEstimateNotice({ forecast, actionLabel, className = "" }: CostEstimateNoticeProps) {
+  if (!forecast) return null;
+  const { limit } = forecast;
+  const period = limit.tier === "free" ? "daily" : "monthly";
+
+  let warning: string | null = null;
+  if (forecast.wouldExceed) {
+    warning = `This ${actionLabel} may exceed what's left of your ${period} budget.`;
+  } else if (forecast.crossesThreshold !== null) {
+    warning = `Heads up: this ${actionLabel} will take you past ${forecast.crossesThreshold}% of your ${period} budget.`;
+  } else if (limit.alertLevel > 0) {
+    warning = `You've used ${limit.percentUsed}% of your ${period} budget.`;
+  }
+
+  return (
+    <div className={`space-y-1 text-xs ${className}`}>
+      <div className="flex items-center gap-1.5 text-neutral-500 dark:text-neutral-400">
+        <Gauge className="h-3.5 w-3.5" />
+        <span>
+          This {actionLabel} will use {formatShare(forecast.percentOfRemaining)} of your remaining quota.
+        </span>
+      </div>
+      {warning && (
+        <div
+          className={`flex items-center gap-1.5 ${
+            forecast.wouldExceed ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"
+          }`}
+        >
+          <AlertTriangle className="h-3.5 w-3.5" />
+          <span>{warning}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,11 @@ import QuizBlock from "./QuizBlock";
 import { Lesson } from "@/types";
 import { useLernexStore, type LessonRef } from "@/lib/store";
 import { useProfileBasics } from "@/app/providers/ProfileBasicsProvider";
+import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
 import { EmptyState } from "./ui/EmptyState";
+import { isReviewLessonId } from "@/lib/review-queue";
+import { sendOrQueue } from "@/lib/offline-queue";
+import { requestLessonPrefetch } from "./ServiceWorkerRegistrar";
 
 type ApiLesson = {
   id: string;
@@ -16,7 +20,7 @@ type ApiLesson = {
   title: string;
   content: string;
   difficulty?: "intro" | "easy" | "medium" | "hard";
-  questions: { prompt: string; choices: string[]; correctIndex: number; explanation: string }[];
+  questions: Lesson["questions"];
   context?: Record<string, unknown> | null;
   knowledge?: Lesson["knowledge"];
   personaHash?: string | null;
@@ -32,9 +36,7 @@ function mapApiLessonToLesson(
   if (!raw) return null;
   const questions = Array.isArray(raw.questions)
     ? raw.questions.map((q) => ({
-        prompt: q.prompt,
-        choices: q.choices,
-        correctIndex: q.correctIndex,
+        ...q,
         explanation: q.explanation ?? "",
       }))
     : [];
@@ -61,6 +63,7 @@ function mapApiLessonToLesson(
 }
 
 type ApiProgress = {
+  jobId?: string;
   phase?: string;
   detail?: string;
   pct?: number;
@@ -158,6 +161,11 @@ function buildWeightedRotation(
 }
 
 const CACHE_MAX_AGE_MS = 15 * 60 * 1000;
+// Mix a review lesson into the feed after this many fresh lessons
+const REVIEW_EVERY_LESSONS = 4;
+const REVIEW_BATCH_SIZE = 3;
+// Served from the service worker cache while offline (see public/sw.js)
+const OFFLINE_LESSONS_URL = "/api/fyp/offline";
 const SKIP_REASON_OPTIONS = [
   { id: "not-ready", label: "Need more background" },
   { id: "already-mastered", label: "Already mastered this" },
@@ -207,6 +215,7 @@ async function fetchFypBundle(
   subject: string | null,
   opts: { onProgress?: (info: FetchProgressInfo) => void; signal?: AbortSignal } = {},
 ): Promise<Lesson[]> {
+  if (isOffline()) return fetchOfflineLessons(subject, opts.signal);
   const params = new URLSearchParams();
   if (subject) params.set("subject", subject);
   params.set("prefetch", "1");
@@ -278,6 +287,7 @@ async function fetchFypBundle(
       }
     } catch (err) {
       if (isAbortError(err)) throw err;
+      if (isOffline()) return fetchOfflineLessons(subject, opts.signal);
       const jitter = Math.floor(Math.random() * 200);
       try { console.warn("[fyp] network error; retry", { subject, delay }); } catch {}
       opts.onProgress?.({ subject, status: 0, attempt: attempt + 1, progress: null });
@@ -290,6 +300,52 @@ async function fetchFypBundle(
 
 
 
+function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+// Offline lessons already handed to the feed this session, so completed ones are not served twice
+const offlineServedIds = new Set<string>();
+
+async function fetchOfflineLessons(subject: string | null, signal?: AbortSignal): Promise<Lesson[]> {
+  try {
+    const res = await fetch(OFFLINE_LESSONS_URL, { signal });
+    if (!res.ok) return [];
+    const data = (await res.json()) as { lessons?: ApiLesson[] | null };
+    const lessons: Lesson[] = [];
+    for (const raw of data?.lessons ?? []) {
+      const converted = mapApiLessonToLesson(raw, raw?.topic ?? null, null);
+      if (!converted || offlineServedIds.has(converted.id)) continue;
+      if (subject && converted.subject !== subject) continue;
+      offlineServedIds.add(converted.id);
+      lessons.push(converted);
+      if (lessons.length >= 2) break;
+    }
+    try { console.debug("[fyp] offline lessons", { subject, count: lessons.length }); } catch {}
+    return lessons;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return [];
+  }
+}
+
+async function fetchReviewLesson(subject: string | null, signal?: AbortSignal): Promise<Lesson | null> {
+  const params = new URLSearchParams({ limit: String(REVIEW_BATCH_SIZE) });
+  if (subject) params.set("subject", subject);
+  try {
+    const res = await fetch(`/api/review/due?${params.toString()}`, { cache: "no-store", signal });
+    if (!res.ok) return null;
+    const data = (await res.json()) as { lesson?: ApiLesson | null; dueCount?: number };
+    const lesson = mapApiLessonToLesson(data?.lesson ?? null, null, null);
+    if (!lesson || lesson.questions.length === 0) return null;
+    return lesson;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    try { console.debug("[fyp] review fetch failed (non-critical)", err); } catch {}
+    return null;
+  }
+}
+
 async function hydrateSnapshotRefs(refs: LessonRef[], signal?: AbortSignal): Promise<Lesson[]> {
   if (!Array.isArray(refs) || refs.length === 0) return [];
   const lessons: Lesson[] = [];
@@ -331,6 +387,7 @@ async function hydrateSnapshotRefs(refs: LessonRef[], signal?: AbortSignal): Pro
 export default function FypFeed() {
   const { selectedSubjects, accuracyBySubject, autoAdvanceEnabled, setAutoAdvanceEnabled, setClassPickerOpen, fypSnapshot, setFypSnapshot } = useLernexStore();
   const { data: profileBasics, error: profileError } = useProfileBasics();
+  const { userId } = useProfileStats();
   const interests = profileBasics.interests;
 
   const rotation = useMemo<(string | null)[]>(() => {
@@ -375,6 +432,7 @@ export default function FypFeed() {
   const indexRef = useRef(0);
   const itemsRef = useRef<Lesson[]>([]);
   const autoOpenedPickerRef = useRef(false);
+  const lessonsSinceReviewRef = useRef(0);
   const MAX_LOOKBACK = 3;
   const MAX_BUFFER_SIZE = 8;
   const MAX_SNAPSHOT_LESSONS = 6;
@@ -547,6 +605,16 @@ export default function FypFeed() {
             neededCurrent = hasCurrent ? 0 : 1;
             neededAhead = Math.max(0, minAhead - lessonsAhead);
             needed = neededCurrent + neededAhead;
+            if (!alreadyHad) lessonsSinceReviewRef.current += 1;
+          }
+          // Review lane: slot due spaced-repetition questions between fresh lessons
+          if (lessonsSinceReviewRef.current >= REVIEW_EVERY_LESSONS && requestSeqRef.current === requestToken) {
+            lessonsSinceReviewRef.current = 0;
+            const reviewLesson = await fetchReviewLesson(subject, controller.signal);
+            if (reviewLesson && requestSeqRef.current === requestToken) {
+              appendLesson(reviewLesson);
+              existingIds.add(reviewLesson.id);
+            }
           }
           consecutiveCooldownSkips = 0;
           setLoadingInfo(null);
@@ -681,7 +749,8 @@ export default function FypFeed() {
       return;
     }
     const clampedIndex = Math.min(i, Math.max(0, items.length - 1));
-    const allLessonRefs = items.map((lesson) => ({
+    // Review lessons are assembled on the fly and cannot be re-hydrated from the lesson cache
+    const allLessonRefs = items.filter((lesson) => !isReviewLessonId(lesson.id)).map((lesson) => ({
       id: lesson.id,
       subject: lesson.subject,
       topic: lesson.topic ?? null,
@@ -742,6 +811,7 @@ export default function FypFeed() {
     }
     cooldownRef.current.clear();
     subjIdxRef.current = 0;
+    lessonsSinceReviewRef.current = 0;
   }, [subjectsKey, setFypSnapshot]);
 
   // Keep at least one upcoming lesson ready
@@ -830,16 +900,21 @@ export default function FypFeed() {
       autoAdvanceRef.current = null;
     }
 
-    // Call completion API to remove pending lesson and trigger background generation
-    setCompletingLesson(true);
+    // Call completion API to remove pending lesson and trigger background generation.
+    // Review lessons never come from the pending queue, so there is nothing to clean up.
+    const isReview = isReviewLessonId(lesson.id);
+    if (!isReview) setCompletingLesson(true);
     (async () => {
+      if (isReview) return;
       try {
-        // Mark lesson as complete and remove from pending queue
-        await fetch("/api/fyp/complete", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify({ subject: lesson.subject, lessonId: lesson.id }),
-        });
+        // Mark lesson as complete and remove from pending queue. Offline completions are
+        // replayed later and must only remove this exact lesson, not whatever is at position 0.
+        const completion = await sendOrQueue("/api/fyp/complete", {
+          subject: lesson.subject,
+          lessonId: lesson.id,
+          exact: isOffline(),
+        }, userId);
+        if (completion.status === "queued") return;
 
         // Trigger background generation of 1-2 lessons ahead using slow model
         const topicLabel = lesson.topic ?? lesson.subject;
@@ -850,6 +925,8 @@ export default function FypFeed() {
         }).catch((err) => {
           console.debug("[fyp] background generation failed (non-critical)", err);
         });
+        // Keep the offline lesson cache in step with the refilled pending queue
+        requestLessonPrefetch();
       } catch (err) {
         console.debug("[fyp] completion/generation error (non-critical)", err);
       } finally {
@@ -871,7 +948,7 @@ export default function FypFeed() {
       setAutoAdvancing(false);
       autoAdvanceRef.current = null;
     }, 1100);
-  }, [autoAdvanceEnabled, ensureBuffer, i, items.length, next]);
+  }, [autoAdvanceEnabled, ensureBuffer, i, items.length, next, userId]);
 
   // Keyboard navigation like the static feed
   useEffect(() => {
@@ -1047,6 +1124,13 @@ export default function FypFeed() {
                   className="w-full max-w-[560px] min-h-[320px] sm:min-h-[340px] lg:min-h-[360px]"
                 />
               </div>
+              {isReviewLessonId(cur.id) && (
+                <div className="-mt-2 flex justify-center">
+                  <span className="rounded-full border border-emerald-300/70 bg-emerald-50 px-3 py-1 text-xs font-semibold uppercase tracking-[0.18em] text-emerald-700 dark:border-emerald-400/40 dark:bg-emerald-500/10 dark:text-emerald-200">
+                    Review · {cur.questions.length} due
+                  </span>
+                </div>
+              )}
               <div className="flex justify-end">
                 <div className="relative">
                   <button
@@ -1,8 +1,9 @@
 ﻿"use client";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Maximize2, Loader2 } from "lucide-react";
+import { Maximize2, Loader2, Link2 } from "lucide-react";
 import { Lesson } from "@/types";
 import FormattedText from "./FormattedText";
+import LessonFormatBody, { getLessonPlainText } from "./LessonFormatBody";
 import ExpandedLessonModal from "./ExpandedLessonModal";
 import ReportIssueModal from "./ReportIssueModal";
 import TTSButton from "./TTSButton";
@@ -14,9 +15,10 @@ type LessonCardProps = {
   lessonId?: string; // For TTS audio storage
   audioUrl?: string; // Pre-cached audio URL from storage
   autoPlay?: boolean; // Auto-play TTS preference
+  sharePath?: string; // Lesson already has a permalink; Share copies it as-is
 };
 
-export default function LessonCard({ lesson, className, lessonId, audioUrl, autoPlay }: LessonCardProps) {
+export default function LessonCard({ lesson, className, lessonId, audioUrl, autoPlay, sharePath }: LessonCardProps) {
   const cardRef = useRef<HTMLDivElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const [liked, setLiked] = useState(false);
@@ -30,6 +32,8 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
   const [likeLoading, setLikeLoading] = useState(false);
   const [saveLoading, setSaveLoading] = useState(false);
   const [dislikeLoading, setDislikeLoading] = useState(false);
+  const [shareLoading, setShareLoading] = useState(false);
+  const [shareStatus, setShareStatus] = useState<"copied" | "failed" | null>(null);
   const contextEntries = useMemo(() => {
     const ctx = lesson.context;
     if (!ctx || typeof ctx !== "object") return [];
@@ -103,6 +107,8 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
     }
     return { definition, applications, prerequisites, reminders };
   }, [lesson.knowledge]);
+  const isMicroFormat = !lesson.format || lesson.format === "micro";
+  const spokenText = useMemo(() => (isMicroFormat ? lesson.content : getLessonPlainText(lesson)), [isMicroFormat, lesson]);
   const shouldTypesetLesson = useMemo(() => {
     const contentHasMath = typeof lesson.content === "string" && MATH_TRIGGER_RE.test(lesson.content);
     const titleHasMath = typeof lesson.title === "string" && MATH_TRIGGER_RE.test(lesson.title);
@@ -197,6 +203,35 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
     }
   };
 
+  // Stores a public copy of the lesson so the link opens for anyone
+  const shareLesson = async () => {
+    if (shareLoading) return;
+    setShareLoading(true);
+    setShareStatus(null);
+    try {
+      let url = sharePath ? new URL(sharePath, window.location.origin).toString() : null;
+      if (!url) {
+        const res = await fetch("/api/lessons/share", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ lesson, isPublic: true }),
+        });
+        const payload = await res.json().catch(() => ({}));
+        if (!res.ok || typeof payload?.url !== "string") throw new Error(payload?.error || "Share failed");
+        url = payload.url as string;
+      }
+      if (typeof navigator === "undefined" || !navigator.clipboard) throw new Error("Clipboard unavailable");
+      await navigator.clipboard.writeText(url);
+      setShareStatus("copied");
+    } catch (error) {
+      console.warn("[lesson-card] share failed", error);
+      setShareStatus("failed");
+    } finally {
+      setShareLoading(false);
+      window.setTimeout(() => setShareStatus(null), 2500);
+    }
+  };
+
   const baseClass =
     "relative flex flex-col overflow-hidden rounded-[28px] border border-slate-200/80 bg-gradient-to-br from-white via-slate-50/30 to-white shadow-card ring-1 ring-slate-900/5 transition-all duration-300 hover:-translate-y-1 hover:scale-[1.01] hover:shadow-3xl hover:border-lernex-blue/30 backdrop-blur-xl dark:border-surface dark:from-slate-900/50 dark:via-slate-800/20 dark:to-slate-900/50 dark:ring-black/5 dark:shadow-xl dark:hover:shadow-2xl dark:hover:border-lernex-blue/40";
   const rootClass = className ? baseClass + " " + className : baseClass;
@@ -218,6 +253,13 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
       : "border-surface bg-gradient-to-br from-slate-50 to-slate-100/50 text-neutral-600 hover:bg-gradient-to-br hover:from-amber-400/12 hover:to-amber-500/8 hover:border-amber-400/40 hover:shadow-sm dark:from-slate-800/40 dark:to-slate-900/30 dark:text-neutral-300 dark:hover:from-amber-400/20 dark:hover:to-amber-500/15",
   ].join(" ");
 
+  const shareClass = [
+    actionBase,
+    shareStatus === "copied"
+      ? "border-lernex-blue/60 bg-gradient-to-r from-lernex-blue/15 to-lernex-purple/10 text-lernex-blue shadow-md shadow-lernex-blue/20 dark:text-blue-200"
+      : "border-surface bg-gradient-to-br from-slate-50 to-slate-100/50 text-neutral-600 hover:bg-gradient-to-br hover:from-lernex-blue/12 hover:to-lernex-purple/8 hover:border-lernex-blue/40 hover:shadow-sm dark:from-slate-800/40 dark:to-slate-900/30 dark:text-neutral-300 dark:hover:from-lernex-blue/20 dark:hover:to-lernex-purple/15",
+  ].join(" ");
+
   const dislikeClass = [
     "ml-auto",
     actionBase,
@@ -254,7 +296,7 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
         lesson={{
           subject: lesson.subject,
           title: lesson.title,
-          content: lesson.content,
+          content: spokenText,
           topic: lesson.topic,
           difficulty: lesson.difficulty,
         }}
@@ -278,6 +320,11 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
               {lesson.difficulty}
             </span>
           )}
+          {!isMicroFormat && (
+            <span className={`${lesson.difficulty ? "" : "ml-auto "}rounded-full border border-lernex-blue/30 bg-lernex-blue/10 px-2 py-0.5 text-[10px] font-semibold text-lernex-blue dark:text-blue-200`}>
+              {lesson.format?.replace("-", " ")}
+            </span>
+          )}
         </div>
         <h2 className="mt-2 text-xl font-semibold leading-snug text-neutral-900 dark:text-white">{lesson.title}</h2>
         {lesson.nextTopicHint && (
@@ -331,7 +378,7 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
             ref={scrollRef}
             className="formatted-lesson-content lesson-scroll scrollbar-thin flex-1 overflow-y-auto pr-3 pb-8 text-sm leading-relaxed text-neutral-700 dark:text-neutral-300 md:pr-4"
           >
-            <FormattedText text={lesson.content} />
+            {isMicroFormat ? <FormattedText text={lesson.content} /> : <LessonFormatBody lesson={lesson} />}
           </div>
           {showFade && (
             <>
@@ -410,8 +457,19 @@ export default function LessonCard({ lesson, className, lessonId, audioUrl, auto
               saved ? "Saved" : "Save"
             )}
           </button>
+          <button
+            onClick={() => void shareLesson()}
+            className={shareClass}
+            aria-label="Copy a link to this lesson"
+            disabled={shareLoading}
+          >
+            <span className="inline-flex items-center gap-1.5">
+              {shareLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Link2 className="h-3.5 w-3.5" />}
+              {shareStatus === "copied" ? "Link copied" : shareStatus === "failed" ? "Couldn't share" : "Share"}
+            </span>
+          </button>
           <TTSButton
-            lessonText={lesson.content}
+            lessonText={spokenText}
             lessonId={lessonId}
             audioUrl={audioUrl}
             autoPlay={autoPlay}
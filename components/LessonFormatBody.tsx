@@ -0,0 +1,198 @@
+"use client";
+import { useState } from "react";
+import { RotateCw } from "lucide-react";
+import { Lesson } from "@/types";
+import FormattedText from "./FormattedText";
+
+type LessonFormatBodyProps = {
+  lesson: Lesson;
+};
+
+// Body for non-micro lesson formats; micro lessons render `content` directly in LessonCard
+export default function LessonFormatBody({ lesson }: LessonFormatBodyProps) {
+  switch (lesson.format) {
+    case "worked-example":
+      return <WorkedExampleBody lesson={lesson} />;
+    case "flashcards":
+      return <FlashcardsBody lesson={lesson} />;
+    case "cheat-sheet":
+      return <CheatSheetBody lesson={lesson} />;
+    default:
+      return <FormattedText text={lesson.content} />;
+  }
+}
+
+const sectionLabelClass =
+  "text-[10px] font-semibold uppercase tracking-[0.2em] text-neutral-400 dark:text-neutral-500";
+
+function WorkedExampleBody({ lesson }: LessonFormatBodyProps) {
+  const steps = lesson.steps ?? [];
+  return (
+    <div className="space-y-4">
+      {lesson.content && <FormattedText text={lesson.content} />}
+      {lesson.problem && (
+        <div className="rounded-2xl border border-slate-200/80 bg-slate-50/70 px-4 py-3 dark:border-neutral-700 dark:bg-neutral-800/40">
+          <div className={sectionLabelClass}>Problem</div>
+          <div className="mt-1 text-neutral-800 dark:text-neutral-100">
+            <FormattedText text={lesson.problem} />
+          </div>
+        </div>
+      )}
+      <ol className="space-y-3">
+        {steps.map((step, idx) => (
+          <li key={`${idx}-${step.title}`} className="flex gap-3">
+            <span className="mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-lernex-blue/15 text-xs font-semibold text-lernex-blue dark:bg-lernex-blue/25 dark:text-blue-200">
+              {idx + 1}
+            </span>
+            <div className="min-w-0 flex-1">
+              <div className="font-medium text-neutral-800 dark:text-neutral-100">
+                <FormattedText text={step.title} />
+              </div>
+              <FormattedText text={step.explanation} />
+              {step.work && (
+                <div className="mt-1 rounded-lg bg-slate-100/80 px-3 py-1.5 font-mono text-[13px] dark:bg-neutral-800/60">
+                  <FormattedText text={step.work} />
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+      {lesson.answer && (
+        <div className="rounded-2xl border border-green-500/40 bg-green-500/10 px-4 py-3 dark:border-green-400/30 dark:bg-green-500/15">
+          <div className={sectionLabelClass}>Answer</div>
+          <div className="mt-1 font-medium text-green-800 dark:text-green-200">
+            <FormattedText text={lesson.answer} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FlashcardsBody({ lesson }: LessonFormatBodyProps) {
+  const cards = lesson.cards ?? [];
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [showHint, setShowHint] = useState(false);
+  if (cards.length === 0) return <FormattedText text={lesson.content} />;
+
+  const card = cards[Math.min(index, cards.length - 1)];
+  const go = (delta: number) => {
+    setIndex((prev) => (prev + delta + cards.length) % cards.length);
+    setFlipped(false);
+    setShowHint(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {lesson.content && <FormattedText text={lesson.content} />}
+      <button
+        type="button"
+        onClick={() => setFlipped((prev) => !prev)}
+        className="flex min-h-[9rem] w-full flex-col items-center justify-center gap-2 rounded-2xl border border-slate-200/80 bg-white/80 px-5 py-6 text-center shadow-sm transition-colors hover:border-lernex-blue/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lernex-blue/40 dark:border-neutral-700 dark:bg-neutral-900/50"
+        aria-label={flipped ? "Show front of card" : "Show back of card"}
+      >
+        <span className={sectionLabelClass}>{flipped ? "Answer" : "Prompt"}</span>
+        <span className="text-base text-neutral-800 dark:text-neutral-100">
+          <FormattedText text={flipped ? card.back : card.front} />
+        </span>
+        <span className="inline-flex items-center gap-1 text-[11px] text-neutral-400">
+          <RotateCw className="h-3 w-3" /> Tap to flip
+        </span>
+      </button>
+      <div className="flex items-center gap-2 text-xs text-neutral-500 dark:text-neutral-400">
+        <button
+          type="button"
+          onClick={() => go(-1)}
+          className="rounded-full border border-surface px-3 py-1 hover:border-lernex-blue/40"
+        >
+          Prev
+        </button>
+        <span>
+          {index + 1} / {cards.length}
+        </span>
+        <button
+          type="button"
+          onClick={() => go(1)}
+          className="rounded-full border border-surface px-3 py-1 hover:border-lernex-blue/40"
+        >
+          Next
+        </button>
+        {card.hint && !flipped && (
+          <button
+            type="button"
+            onClick={() => setShowHint((prev) => !prev)}
+            className="ml-auto text-lernex-blue hover:underline"
+          >
+            {showHint ? card.hint : "Hint"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CheatSheetBody({ lesson }: LessonFormatBodyProps) {
+  const sections = lesson.sections ?? [];
+  const formulas = lesson.formulas ?? [];
+  return (
+    <div className="space-y-4">
+      {lesson.content && <FormattedText text={lesson.content} />}
+      <div className="grid gap-3 sm:grid-cols-2">
+        {sections.map((section, idx) => (
+          <div
+            key={`${idx}-${section.heading}`}
+            className="rounded-2xl border border-slate-200/80 bg-slate-50/70 px-4 py-3 dark:border-neutral-700 dark:bg-neutral-800/40"
+          >
+            <div className="font-semibold text-neutral-800 dark:text-neutral-100">{section.heading}</div>
+            <ul className="mt-1.5 list-disc space-y-1 pl-4">
+              {section.items.map((item, itemIdx) => (
+                <li key={itemIdx}>
+                  <FormattedText text={item} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+      {formulas.length > 0 && (
+        <div className="rounded-2xl border border-lernex-purple/30 bg-lernex-purple/5 px-4 py-3 dark:bg-lernex-purple/10">
+          <div className={sectionLabelClass}>Key formulas</div>
+          <ul className="mt-1.5 space-y-1">
+            {formulas.map((formula, idx) => (
+              <li key={idx}>
+                <FormattedText text={formula} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Flatten a lesson of any format into readable prose (used for text-to-speech).
+ */
+export function getLessonPlainText(lesson: Lesson): string {
+  const parts: string[] = [lesson.content];
+  switch (lesson.format) {
+    case "worked-example":
+      if (lesson.problem) parts.push(`Problem: ${lesson.problem}`);
+      (lesson.steps ?? []).forEach((step, idx) => {
+        parts.push(`Step ${idx + 1}: ${step.title}. ${step.explanation}`);
+      });
+      if (lesson.answer) parts.push(`Answer: ${lesson.answer}`);
+      break;
+    case "flashcards":
+      (lesson.cards ?? []).forEach((card) => parts.push(`${card.front} ${card.back}`));
+      break;
+    case "cheat-sheet":
+      (lesson.sections ?? []).forEach((section) => {
+        parts.push(`${section.heading}. ${section.items.join(". ")}`);
+      });
+      break;
+  }
+  return parts.filter((part) => part && part.trim()).join("\n\n");
+}
@@ -23,8 +23,10 @@ import {
   Star,
   Crown,
   GraduationCap,
+  Bell,
 } from "lucide-react";
 import Tooltip from "./ui/Tooltip";
+import NotificationInbox from "./NotificationInbox";
 
 export default function Navbar() {
   const { stats } = useProfileStats();
@@ -403,6 +405,39 @@ export default function Navbar() {
             </div>
             {user && (
               <div className="px-5 pb-6">
+                <Tooltip content="Notifications" position="right" disabled={navExpanded}>
+                  <NotificationInbox
+                    userId={user.id}
+                    placement="right"
+                    className={`${tileBase} ${tilePadding} mb-3 text-left`}
+                  >
+                    {(unread) => (
+                      <>
+                        <span className={iconShell}>
+                          <Bell className="h-5 w-5" />
+                          {unread > 0 && (
+                            <span className={`${badgeBase} bg-gradient-to-br from-rose-500 to-rose-600 text-white shadow-md shadow-rose-500/30`}>
+                              {unread > 99 ? "99+" : unread}
+                            </span>
+                          )}
+                        </span>
+                        <motion.span
+                          initial={false}
+                          animate={
+                            navExpanded
+                              ? { opacity: 1, maxWidth: 160, marginLeft: 12 }
+                              : { opacity: 0, maxWidth: 0, marginLeft: 0 }
+                          }
+                          transition={{ duration: 0.24, ease: "easeOut" }}
+                          className="min-w-0 text-sm font-medium text-neutral-600 dark:text-neutral-200"
+                          style={{ display: "inline-block" }}
+                        >
+                          Notifications
+                        </motion.span>
+                      </>
+                    )}
+                  </NotificationInbox>
+                </Tooltip>
                 <div
                   className={`${tileBase} ${tilePadding}`}
                   ref={menuRef}
@@ -526,6 +561,12 @@ export default function Navbar() {
               <span className="flex items-center gap-1 rounded-full border border-amber-200/60 bg-gradient-to-r from-amber-50 to-amber-100/50 px-2.5 py-1 text-sm shadow-sm shadow-amber-500/10 dark:border-amber-500/20 dark:from-amber-900/20 dark:to-amber-800/10">
                 ⭐ {points}
               </span>
+              {user && (
+                <NotificationInbox
+                  userId={user.id}
+                  className="flex items-center rounded-full border border-surface bg-surface-card px-2.5 py-1.5 shadow-sm transition hover:border-lernex-blue/30 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lernex-blue/40"
+                />
+              )}
 
               {/* Hamburger menu */}
               <button
@@ -679,6 +720,10 @@ export default function Navbar() {
               <span className="hidden rounded-full border border-amber-200/60 bg-gradient-to-r from-amber-50 to-amber-100/50 px-3 py-1 shadow-sm shadow-amber-500/10 transition-all duration-200 hover:shadow-md hover:shadow-amber-500/20 dark:border-amber-500/20 dark:from-amber-900/20 dark:to-amber-800/10 dark:shadow-amber-400/15 md:inline">
                 ⭐ {points}
               </span>
+              <NotificationInbox
+                userId={user.id}
+                className="flex h-9 w-9 items-center justify-center rounded-full border border-surface bg-surface-card shadow-sm transition-all duration-200 hover:border-lernex-blue/30 hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lernex-blue/40"
+              />
             </>
           )}
           {user === undefined ? null : user ? (
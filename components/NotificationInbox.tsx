@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { createPortal } from "react-dom";
+import { useRouter } from "next/navigation";
+import { AnimatePresence, motion } from "framer-motion";
+import { Bell, CalendarClock, Flame, Loader2, Route, RotateCcw, UserPlus } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import { normalizeNotification, type AppNotification, type NotificationType } from "@/lib/notifications";
+
+const PANEL_WIDTH = 360;
+const PANEL_MAX_HEIGHT = 480;
+const VIEWPORT_MARGIN = 8;
+
+const TYPE_ICONS: Record<NotificationType, LucideIcon> = {
+  friend_request: UserPlus,
+  session_invite: CalendarClock,
+  streak_warning: Flame,
+  usage_reset: RotateCcw,
+  learning_path_ready: Route,
+};
+
+function formatRelative(dateString: string) {
+  const value = new Date(dateString);
+  if (Number.isNaN(value.getTime())) return "";
+  const minutes = Math.round((Date.now() - value.getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return minutes + "m ago";
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return hours + "h ago";
+  const days = Math.round(hours / 24);
+  if (days < 7) return days + "d ago";
+  return value.toLocaleDateString();
+}
+
+type PanelPosition = { top: number; left: number; width: number };
+
+type Props = {
+  userId: string;
+  /** "right" opens beside the trigger (side nav), "below" under it (top nav). */
+  placement?: "right" | "below";
+  className?: string;
+  /** Trigger content; defaults to a bell with an unread badge. */
+  children?: (unreadCount: number) => ReactNode;
+};
+
+/**
+ * Bell and dropdown inbox for in-app notifications. The panel is portalled to
+ * the body because the side nav is transformed and clips its overflow. New
+ * notifications arrive over Realtime.
+ */
+export default function NotificationInbox({ userId, placement = "below", className, children }: Props) {
+  const router = useRouter();
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [position, setPosition] = useState<PanelPosition | null>(null);
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (before?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (before) params.set("before", before);
+      const res = await fetch(`/api/notifications?${params.toString()}`, { cache: "no-store" });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload?.error || "Unable to load notifications");
+      const next: AppNotification[] = Array.isArray(payload?.notifications) ? payload.notifications : [];
+      setItems((prev) => {
+        const merged = before ? [...prev, ...next] : next;
+        return merged.filter((item, idx) => merged.findIndex((entry) => entry.id === item.id) === idx);
+      });
+      setUnreadCount(typeof payload?.unreadCount === "number" ? payload.unreadCount : 0);
+      setHasMore(payload?.hasMore === true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load notifications");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load().catch(() => {});
+  }, [load, userId]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const row = (payload.new ?? {}) as Record<string, unknown>;
+          // Email- or push-only notifications stay out of the inbox
+          if (row.in_app === false) return;
+          const notification = normalizeNotification(row);
+          if (!notification) return;
+          setItems((prev) => (prev.some((item) => item.id === notification.id) ? prev : [notification, ...prev]));
+          if (!notification.readAt) setUnreadCount((count) => count + 1);
+        }
+      );
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId]);
+
+  const updatePosition = useCallback(() => {
+    const rect = triggerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const width = Math.min(PANEL_WIDTH, window.innerWidth - VIEWPORT_MARGIN * 2);
+    const maxLeft = window.innerWidth - width - VIEWPORT_MARGIN;
+    const maxTop = Math.max(VIEWPORT_MARGIN, window.innerHeight - PANEL_MAX_HEIGHT - VIEWPORT_MARGIN);
+    const left = placement === "right" ? rect.right + 12 : rect.right - width;
+    const top = placement === "right" ? rect.top : rect.bottom + 8;
+    setPosition({
+      width,
+      left: Math.max(VIEWPORT_MARGIN, Math.min(left, maxLeft)),
+      top: Math.max(VIEWPORT_MARGIN, Math.min(top, maxTop)),
+    });
+  }, [placement]);
+
+  useLayoutEffect(() => {
+    if (!open) return;
+    updatePosition();
+    window.addEventListener("resize", updatePosition);
+    return () => window.removeEventListener("resize", updatePosition);
+  }, [open, updatePosition]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (panelRef.current?.contains(target) || triggerRef.current?.contains(target)) return;
+      setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [open]);
+
+  const markRead = useCallback(async (body: { ids: string[] } | { all: true }) => {
+    const readAt = new Date().toISOString();
+    const ids = "ids" in body ? new Set(body.ids) : null;
+    setItems((prev) =>
+      prev.map((item) => (item.readAt || (ids && !ids.has(item.id)) ? item : { ...item, readAt }))
+    );
+    setUnreadCount((count) => ("all" in body ? 0 : Math.max(0, count - (ids?.size ?? 0))));
+    try {
+      const res = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error("Unable to update notifications");
+    } catch (err) {
+      console.warn("[notifications] mark read failed", err);
+      // Resync with the server rather than guess which updates landed
+      load().catch(() => {});
+    }
+  }, [load]);
+
+  const handleSelect = (item: AppNotification) => {
+    if (!item.readAt) markRead({ ids: [item.id] }).catch(() => {});
+    setOpen(false);
+    if (item.url) router.push(item.url);
+  };
+
+  const badgeText = unreadCount > 99 ? "99+" : unreadCount.toString();
+
+  const panel = (
+    <AnimatePresence>
+      {open && position && (
+        <motion.div
+          ref={panelRef}
+          initial={{ opacity: 0, y: placement === "below" ? -6 : 0, x: placement === "right" ? -6 : 0 }}
+          animate={{ opacity: 1, y: 0, x: 0 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.16 }}
+          style={{ ...position, maxHeight: PANEL_MAX_HEIGHT }}
+          className="fixed z-[60] flex flex-col overflow-hidden rounded-2xl border border-slate-200/70 bg-gradient-to-b from-white/98 to-slate-50/95 text-foreground shadow-xl shadow-slate-900/15 backdrop-blur-xl dark:border-surface dark:from-slate-800/95 dark:to-slate-900/90 dark:shadow-black/40"
+          role="dialog"
+          aria-label="Notifications"
+        >
+          <div className="flex items-center justify-between border-b border-slate-200/70 px-4 py-3 dark:border-surface">
+            <span className="text-sm font-semibold text-neutral-900 dark:text-white">Notifications</span>
+            <button
+              type="button"
+              onClick={() => markRead({ all: true })}
+              disabled={unreadCount === 0}
+              className="text-xs font-medium text-lernex-blue transition hover:text-lernex-purple disabled:cursor-not-allowed disabled:text-neutral-400 dark:disabled:text-neutral-500"
+            >
+              Mark all read
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {error && !items.length ? (
+              <p className="px-4 py-6 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : !items.length && loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-lernex-blue" />
+              </div>
+            ) : !items.length ? (
+              <p className="px-4 py-8 text-center text-sm text-neutral-500 dark:text-neutral-400">
+                You&apos;re all caught up.
+              </p>
+            ) : (
+              <ul className="divide-y divide-slate-200/70 dark:divide-white/5">
+                {items.map((item) => {
+                  const Icon = TYPE_ICONS[item.type] ?? Bell;
+                  return (
+                    <li key={item.id}>
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(item)}
+                        className={`flex w-full items-start gap-3 px-4 py-3 text-left transition hover:bg-gradient-to-r hover:from-lernex-blue/10 hover:to-lernex-purple/8 dark:hover:from-lernex-blue/20 dark:hover:to-lernex-purple/15 ${
+                          item.readAt ? "" : "bg-lernex-blue/5 dark:bg-lernex-blue/10"
+                        }`}
+                      >
+                        <span className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-gradient-to-br from-lernex-blue/15 to-lernex-purple/15 text-lernex-blue">
+                          <Icon className="h-4 w-4" />
+                        </span>
+                        <span className="flex min-w-0 flex-1 flex-col">
+                          <span className="text-sm font-medium text-neutral-900 dark:text-white">{item.title}</span>
+                          {item.body && (
+                            <span className="line-clamp-2 text-xs text-neutral-600 dark:text-neutral-300">{item.body}</span>
+                          )}
+                          <span className="mt-1 text-[11px] text-neutral-500 dark:text-neutral-400">
+                            {formatRelative(item.createdAt)}
+                          </span>
+                        </span>
+                        {!item.readAt && <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-lernex-blue" aria-label="Unread" />}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {hasMore && items.length > 0 && (
+              <button
+                type="button"
+                onClick={() => load(items[items.length - 1].createdAt)}
+                disabled={loading}
+                className="flex w-full items-center justify-center gap-2 border-t border-slate-200/70 px-4 py-2.5 text-xs font-medium text-lernex-blue transition hover:bg-lernex-blue/5 disabled:opacity-60 dark:border-surface"
+              >
+                {loading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                Load older
+              </button>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
+  return (
+    <>
+      <button
+        ref={triggerRef}
+        type="button"
+        onClick={() => {
+          if (!open) load().catch(() => {});
+          setOpen((value) => !value);
+        }}
+        aria-label={unreadCount ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-expanded={open}
+        aria-haspopup="dialog"
+        className={className}
+      >
+        {children ? (
+          children(unreadCount)
+        ) : (
+          <span className="relative flex items-center justify-center">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -right-2 -top-2 min-w-[1.1rem] rounded-full bg-gradient-to-br from-rose-500 to-rose-600 px-1 text-center text-[10px] font-semibold leading-[1.1rem] text-white shadow-sm">
+                {badgeText}
+              </span>
+            )}
+          </span>
+        )}
+      </button>
+      {typeof document !== "undefined" && createPortal(panel, document.body)}
+    </>
+  );
+}
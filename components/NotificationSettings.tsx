@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell, BellRing, Check, Loader2 } from "lucide-react";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TYPES,
+  type EmailFrequency,
+  type NotificationPreference,
+  type NotificationPreferences,
+  type NotificationType,
+} from "@/lib/notifications";
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  friend_request: { label: "Friend requests", description: "Someone wants to add you" },
+  session_invite: { label: "Study session invites", description: "A friend invites you to a session" },
+  streak_warning: { label: "Streak warnings", description: "Your streak is about to end" },
+  usage_reset: { label: "Usage resets", description: "Your lesson limit is available again" },
+  learning_path_ready: { label: "Learning paths", description: "A new learning path has finished building" },
+};
+
+const EMAIL_LABELS: Record<EmailFrequency, string> = {
+  off: "Off",
+  instant: "Instant",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+};
+
+type PushState = "unsupported" | "unavailable" | "denied" | "off" | "on";
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(value: string) {
+  const padded = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function currentSubscription() {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+export default function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [emailAvailable, setEmailAvailable] = useState(false);
+  const [pushState, setPushState] = useState<PushState>("unsupported");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // Load current notification settings
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/notifications/settings");
+        if (response.ok) {
+          const data = await response.json();
+          if (data.preferences) setPreferences(data.preferences);
+          setEmailAvailable(data.channels?.email === true);
+
+          const pushSupported = "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+          if (!pushSupported) {
+            setPushState("unsupported");
+          } else if (data.channels?.push !== true || !process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY) {
+            setPushState("unavailable");
+          } else if (Notification.permission === "denied") {
+            setPushState("denied");
+          } else {
+            setPushState((await currentSubscription()) ? "on" : "off");
+          }
+        }
+      } catch (error) {
+        console.error("Failed to load notification settings:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const updatePreference = (type: NotificationType, patch: Partial<NotificationPreference>) => {
+    setPreferences((prev) => ({ ...prev, [type]: { ...prev[type], ...patch } }));
+  };
+
+  const enablePush = async () => {
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    if (!publicKey) return;
+    setPushBusy(true);
+    setSaveMessage(null);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setPushState(permission === "denied" ? "denied" : "off");
+        return;
+      }
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) throw new Error("Service worker is not registered");
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        }));
+      const response = await fetch("/api/notifications/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(subscription.toJSON()),
+      });
+      if (!response.ok) throw new Error("Failed to save push subscription");
+      setPushState("on");
+    } catch (error) {
+      console.error("Failed to enable push notifications:", error);
+      setSaveMessage("Couldn't turn on push notifications");
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const disablePush = async () => {
+    setPushBusy(true);
+    setSaveMessage(null);
+    try {
+      const subscription = await currentSubscription();
+      if (subscription) {
+        await fetch("/api/notifications/push", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setPushState("off");
+    } catch (error) {
+      console.error("Failed to disable push notifications:", error);
+      setSaveMessage("Couldn't turn off push notifications");
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const response = await fetch("/api/notifications/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preferences }),
+      });
+      if (!response.ok) throw new Error("Failed to save notification settings");
+      setSaveMessage("Notification settings saved!");
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      console.error("Failed to save notification settings:", error);
+      setSaveMessage("Failed to save notification settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-lernex-blue" />
+      </div>
+    );
+  }
+
+  const pushHint: Record<PushState, string> = {
+    unsupported: "This browser doesn't support push notifications.",
+    unavailable: "Push notifications aren't available yet.",
+    denied: "Notifications are blocked for Lernex in your browser settings.",
+    off: "Get push notifications on this device, even when Lernex is closed.",
+    on: "Push notifications are on for this device.",
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {/* Header */}
+      <div className="flex items-center gap-3 pb-4 border-b border-surface">
+        <Bell className="h-5 w-5 text-lernex-blue" />
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Notifications</h3>
+          <p className="text-sm text-muted-foreground">Choose how Lernex lets you know about each kind of update</p>
+        </div>
+      </div>
+
+      {/* Per-type channels */}
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[32rem] text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+              <th className="pb-2 font-medium">Notification</th>
+              <th className="pb-2 text-center font-medium">In-app</th>
+              <th className="pb-2 font-medium">Email</th>
+              <th className="pb-2 text-center font-medium">Push</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-surface">
+            {NOTIFICATION_TYPES.map((type) => {
+              const preference = preferences[type];
+              const { label, description } = TYPE_LABELS[type];
+              return (
+                <tr key={type}>
+                  <td className="py-3 pr-4">
+                    <span className="block font-medium text-foreground">{label}</span>
+                    <span className="block text-xs text-muted-foreground">{description}</span>
+                  </td>
+                  <td className="py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={preference.inApp}
+                      onChange={(event) => updatePreference(type, { inApp: event.target.checked })}
+                      aria-label={`${label} in-app`}
+                      className="h-4 w-4 rounded border-surface text-lernex-blue focus:ring-lernex-blue"
+                    />
+                  </td>
+                  <td className="py-3 pr-4">
+                    <select
+                      value={preference.email}
+                      onChange={(event) => updatePreference(type, { email: event.target.value as EmailFrequency })}
+                      disabled={!emailAvailable}
+                      aria-label={`${label} email`}
+                      className="rounded-xl border border-surface bg-transparent px-3 py-1.5 text-sm text-foreground disabled:opacity-50"
+                    >
+                      {(Object.keys(EMAIL_LABELS) as EmailFrequency[]).map((frequency) => (
+                        <option key={frequency} value={frequency}>
+                          {EMAIL_LABELS[frequency]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={preference.push}
+                      onChange={(event) => updatePreference(type, { push: event.target.checked })}
+                      disabled={pushState === "unavailable"}
+                      aria-label={`${label} push`}
+                      className="h-4 w-4 rounded border-surface text-lernex-blue focus:ring-lernex-blue disabled:opacity-50"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {!emailAvailable && (
+          <p className="mt-2 text-xs text-muted-foreground">Email notifications aren&apos;t available yet.</p>
+        )}
+      </div>
+
+      {/* This device */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <span className="text-sm font-medium text-foreground">Push on this device</span>
+          <p className="text-xs text-muted-foreground">{pushHint[pushState]}</p>
+        </div>
+        {(pushState === "off" || pushState === "on") && (
+          <button
+            type="button"
+            onClick={pushState === "on" ? disablePush : enablePush}
+            disabled={pushBusy}
+            className="inline-flex shrink-0 items-center gap-2 rounded-xl border border-surface px-4 py-2 text-sm font-medium text-foreground transition hover:border-lernex-blue/50 disabled:opacity-60"
+          >
+            {pushBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <BellRing className="h-4 w-4" />}
+            {pushState === "on" ? "Turn off" : "Enable push"}
+          </button>
+        )}
+      </div>
+
+      {/* Save */}
+      <div className="flex items-center gap-3 pt-2">
+        <button
+          type="button"
+          onClick={saveSettings}
+          disabled={saving}
+          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-lernex-blue to-lernex-purple px-5 py-2.5 text-sm font-medium text-white shadow-md transition hover:opacity-90 disabled:opacity-60"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Save Notifications
+        </button>
+        {saveMessage && <span className="text-sm text-muted-foreground">{saveMessage}</span>}
+      </div>
+    </div>
+  );
+}
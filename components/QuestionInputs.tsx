@@ -0,0 +1,230 @@
+"use client";
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import type { ClozeQuestion, MultiSelectQuestion, NumericQuestion, OrderingQuestion } from "@/types";
+import { CLOZE_BLANK_RE } from "@/lib/schema";
+import { describeCorrectAnswer, gradeQuestion, type QuestionAnswer } from "@/lib/question-types";
+import FormattedText from "./FormattedText";
+
+type InputProps<Q> = {
+  question: Q;
+  // Locked-in answer once the learner has checked it
+  answer: QuestionAnswer | null;
+  onSubmit: (answer: QuestionAnswer) => void;
+  // Keep correctness hidden after lock-in; study rooms reveal everyone's answers together
+  hideResult?: boolean;
+};
+
+const checkButtonClass =
+  "mt-3 rounded-xl bg-gradient-to-r from-lernex-blue via-blue-600 to-lernex-purple px-4 py-2 text-sm font-medium text-white shadow-md shadow-lernex-blue/25 transition-all duration-300 hover:shadow-lg disabled:cursor-not-allowed disabled:opacity-50";
+
+const optionBase =
+  "flex w-full items-center gap-3 text-left px-3 py-2 rounded-xl border transition-all duration-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lernex-blue/40";
+const optionIdle =
+  "border-slate-300/70 bg-gradient-to-br from-slate-50 to-slate-100/50 hover:border-lernex-blue/40 dark:from-slate-800/40 dark:to-slate-900/30 dark:border-surface";
+const optionCorrect = "border-green-500/70 bg-gradient-to-r from-green-500 to-green-600 text-white";
+const optionWrong = "border-red-500/70 bg-gradient-to-r from-red-500 to-red-600 text-white";
+const inputClass =
+  "rounded-lg border border-slate-300/80 bg-white px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-lernex-blue/40 disabled:opacity-80 dark:border-neutral-600 dark:bg-neutral-900";
+
+function AnswerReveal({ correct, expected }: { correct: boolean; expected: string }) {
+  return (
+    <div className={`mt-3 text-sm font-medium ${correct ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+      {correct ? "Correct!" : <>Correct answer: <FormattedText text={expected} /></>}
+    </div>
+  );
+}
+
+export function MultiSelectInput({ question, answer, onSubmit, hideResult }: InputProps<MultiSelectQuestion>) {
+  const [draft, setDraft] = useState<number[]>([]);
+  const locked = answer !== null;
+  const chosen = locked && Array.isArray(answer) ? (answer as number[]) : draft;
+  const correct = new Set(question.correctIndices);
+
+  const toggle = (idx: number) => {
+    if (locked) return;
+    setDraft((prev) => (prev.includes(idx) ? prev.filter((i) => i !== idx) : [...prev, idx]));
+  };
+
+  return (
+    <div>
+      <div className="mb-2 text-xs text-neutral-500 dark:text-neutral-400">Select all that apply.</div>
+      <div className="grid gap-2">
+        {question.choices.map((choice, idx) => {
+          const isChosen = chosen.includes(idx);
+          const stateClass = !locked
+            ? isChosen ? "border-lernex-blue bg-lernex-blue/10" : optionIdle
+            : hideResult ? (isChosen ? "border-lernex-blue bg-lernex-blue/10" : optionIdle)
+            : correct.has(idx) ? optionCorrect : isChosen ? optionWrong : optionIdle;
+          return (
+            <button key={idx} type="button" onClick={() => toggle(idx)} disabled={locked} className={`${optionBase} ${stateClass}`} aria-pressed={isChosen}>
+              <input type="checkbox" readOnly checked={isChosen} tabIndex={-1} className="h-4 w-4 accent-lernex-blue" />
+              <FormattedText text={choice} />
+            </button>
+          );
+        })}
+      </div>
+      {!locked && (
+        <button type="button" className={checkButtonClass} disabled={draft.length === 0} onClick={() => onSubmit([...draft].sort((a, b) => a - b))}>
+          {hideResult ? "Save answer" : "Check answer"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function NumericInput({ question, answer, onSubmit, hideResult }: InputProps<NumericQuestion>) {
+  const [draft, setDraft] = useState("");
+  const locked = answer !== null;
+  const value = locked ? String(answer) : draft;
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (!locked && draft.trim()) onSubmit(draft.trim());
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={value}
+          disabled={locked}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={question.unit ? `Number with units (${question.unit})` : "Enter a number"}
+          className={`${inputClass} w-full px-3 py-2`}
+          aria-label="Numeric answer"
+        />
+      </div>
+      {!locked ? (
+        <button type="submit" className={checkButtonClass} disabled={!draft.trim()}>
+          {hideResult ? "Save answer" : "Check answer"}
+        </button>
+      ) : (
+        !hideResult && <AnswerReveal correct={gradeQuestion(question, answer)} expected={describeCorrectAnswer(question)} />
+      )}
+    </form>
+  );
+}
+
+export function OrderingInput({ question, answer, onSubmit, hideResult }: InputProps<OrderingQuestion>) {
+  // Start from a shuffled order that isn't already correct
+  const initialOrder = useMemo(() => {
+    const order = question.items.map((_, i) => i);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      if (order.some((value, i) => value !== i)) break;
+    }
+    return order;
+  }, [question.items]);
+  const [order, setOrder] = useState<number[]>(initialOrder);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const locked = answer !== null;
+  const shown = locked && Array.isArray(answer) ? (answer as string[]) : order.map((i) => question.items[i]);
+
+  const move = (from: number, to: number) => {
+    if (locked || to < 0 || to >= order.length || from === to) return;
+    setOrder((prev) => {
+      const next = [...prev];
+      const [entry] = next.splice(from, 1);
+      next.splice(to, 0, entry);
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div className="mb-2 text-xs text-neutral-500 dark:text-neutral-400">Drag or use the arrows to put these in order.</div>
+      <ol className="grid gap-2">
+        {shown.map((item, idx) => {
+          const stateClass = !locked || hideResult
+            ? optionIdle
+            : item === question.items[idx] ? optionCorrect : optionWrong;
+          return (
+            <li
+              key={`${item}-${idx}`}
+              draggable={!locked}
+              onDragStart={() => setDragIndex(idx)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) move(dragIndex, idx);
+                setDragIndex(null);
+              }}
+              className={`${optionBase} ${stateClass} ${!locked ? "cursor-grab" : ""}`}
+            >
+              {!locked && <GripVertical className="h-4 w-4 shrink-0 opacity-50" />}
+              <span className="text-xs font-semibold opacity-70">{idx + 1}.</span>
+              <span className="flex-1"><FormattedText text={item} /></span>
+              {!locked && (
+                <span className="flex gap-1">
+                  <button type="button" onClick={() => move(idx, idx - 1)} disabled={idx === 0} aria-label="Move up" className="rounded p-1 hover:bg-slate-200/70 disabled:opacity-30 dark:hover:bg-neutral-700">
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </button>
+                  <button type="button" onClick={() => move(idx, idx + 1)} disabled={idx === shown.length - 1} aria-label="Move down" className="rounded p-1 hover:bg-slate-200/70 disabled:opacity-30 dark:hover:bg-neutral-700">
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {!locked ? (
+        <button type="button" className={checkButtonClass} onClick={() => onSubmit(order.map((i) => question.items[i]))}>
+          {hideResult ? "Save order" : "Check order"}
+        </button>
+      ) : (
+        !hideResult && !gradeQuestion(question, answer) && <AnswerReveal correct={false} expected={describeCorrectAnswer(question)} />
+      )}
+    </div>
+  );
+}
+
+export function ClozeInput({ question, answer, onSubmit, hideResult }: InputProps<ClozeQuestion>) {
+  const [draft, setDraft] = useState<string[]>(() => question.blanks.map(() => ""));
+  const locked = answer !== null;
+  const values = locked && Array.isArray(answer) ? (answer as string[]) : draft;
+  const segments = question.prompt.split(CLOZE_BLANK_RE);
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (!locked && draft.every((entry) => entry.trim())) onSubmit(draft.map((entry) => entry.trim()));
+      }}
+    >
+      <div className="text-sm leading-8 text-neutral-700 dark:text-neutral-300">
+        {segments.map((segment, idx) => (
+          <span key={idx}>
+            <FormattedText text={segment} />
+            {idx < question.blanks.length && (
+              <input
+                type="text"
+                value={values[idx] ?? ""}
+                disabled={locked}
+                onChange={(event) => {
+                  const next = [...draft];
+                  next[idx] = event.target.value;
+                  setDraft(next);
+                }}
+                className={`${inputClass} mx-1 w-28`}
+                aria-label={`Blank ${idx + 1}`}
+              />
+            )}
+          </span>
+        ))}
+      </div>
+      {!locked ? (
+        <button type="submit" className={checkButtonClass} disabled={!draft.every((entry) => entry.trim())}>
+          {hideResult ? "Save answer" : "Check answer"}
+        </button>
+      ) : (
+        !hideResult && <AnswerReveal correct={gradeQuestion(question, answer)} expected={describeCorrectAnswer(question)} />
+      )}
+    </form>
+  );
+}
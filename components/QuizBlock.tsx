@@ -3,9 +3,12 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Lesson } from "@/types";
 import { useLernexStore } from "@/lib/store";
 import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
-import { normalizeProfileStats } from "@/lib/profile-stats";
+import { getStreakDay, normalizeProfileStats } from "@/lib/profile-stats";
 import FormattedText from "./FormattedText";
+import { ClozeInput, MultiSelectInput, NumericInput, OrderingInput } from "./QuestionInputs";
 import { MATH_TRIGGER_RE } from "@/lib/latex";
+import { gradeQuestion, isMcqQuestion, type QuestionAnswer } from "@/lib/question-types";
+import { sendOrQueue } from "@/lib/offline-queue";
 
 // Lightweight SFX helpers (WebAudio)
 let audioCtx: AudioContext | null = null;
@@ -125,32 +128,35 @@ type QuizBlockProps = {
 };
 
 export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBlockProps) {
-  const { stats, setStats, refresh } = useProfileStats();
+  const { userId, stats, setStats, refresh } = useProfileStats();
   const recordAnswer = useLernexStore((s) => s.recordAnswer);
   // Normalize questions while keeping hooks unconditional
   const questions = Array.isArray(lesson.questions) ? lesson.questions : [];
   const hasQuestions = questions.length > 0;
 
   const [qIndex, setQ] = useState(0);
-  const [selected, setSel] = useState<number | null>(null);
   const [correctCount, setCorrectCount] = useState(0);
   const [showSummaryOverlay, setShowSummaryOverlay] = useState(false);
   const [showWarningModal, setShowWarningModal] = useState(false);
-  const [answers, setAnswers] = useState<(number | null)[]>(() => Array(questions.length).fill(null));
+  const [answers, setAnswers] = useState<(QuestionAnswer | null)[]>(() => Array(questions.length).fill(null));
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [showBreakdown, setShowBreakdown] = useState(false);
   const [animatedScore, setAnimatedScore] = useState(0);
   const q = hasQuestions ? questions[qIndex] : undefined;
+  // MCQs lock on click; other types lock when the learner checks their answer
+  const currentAnswer = answers[qIndex] ?? null;
+  const selected = q && isMcqQuestion(q) && typeof currentAnswer === "number" ? currentAnswer : null;
+  const isLocked = currentAnswer !== null;
+  const isAnswerCorrect = (idx: number) => answers[idx] != null && gradeQuestion(questions[idx], answers[idx]);
   const needsMathTypeset = useMemo(() => {
     if (!q) return false;
     if (MATH_TRIGGER_RE.test(q.prompt)) return true;
-    if (q.choices.some((choice) => MATH_TRIGGER_RE.test(choice))) return true;
+    if ("choices" in q && q.choices.some((choice) => MATH_TRIGGER_RE.test(choice))) return true;
     return typeof q.explanation === "string" && MATH_TRIGGER_RE.test(q.explanation);
   }, [q]);
   const rootRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
     setQ(0);
-    setSel(null);
     setCorrectCount(0);
     setShowSummaryOverlay(false);
     setShowWarningModal(false);
@@ -200,7 +206,9 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
     const fallback = {
       points: (stats?.points ?? 0) + addPtsValue,
       streak: newStreakValue ?? stats?.streak ?? 0,
-      last_study_date: new Date().toISOString().slice(0, 10),
+      last_study_date: getStreakDay(new Date(), stats?.timeZone),
+      streak_freezes: stats?.streakFreezes ?? 0,
+      timezone: stats?.timeZone ?? null,
       updated_at: new Date().toISOString(),
     };
     setStats(normalizeProfileStats(fallback));
@@ -210,21 +218,25 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
 
   const choose = (idx: number, ev?: React.MouseEvent<HTMLButtonElement>) => {
     if (selected !== null) return;
+    submitAnswer(idx, ev);
+  };
+
+  const submitAnswer = (answer: QuestionAnswer, ev?: React.MouseEvent<HTMLElement>) => {
+    if (isLocked) return;
     if (!hasQuestions || !q) return;
-    setSel(idx);
 
     // Save answer in answers array
     const newAnswers = [...answers];
-    newAnswers[qIndex] = idx;
+    newAnswers[qIndex] = answer;
     setAnswers(newAnswers);
 
-    const isCorrect = idx === q.correctIndex;
+    const isCorrect = gradeQuestion(q, answer);
     recordAnswer(lesson.subject, isCorrect);
 
     // Update correct count - recalculate from all answers to handle answer changes
-    const newCorrectCount = newAnswers.reduce<number>((count, answerIdx, i) => {
-      if (answerIdx === null) return count;
-      return count + (answerIdx === questions[i].correctIndex ? 1 : 0);
+    const newCorrectCount = newAnswers.reduce<number>((count, entry, i) => {
+      if (entry === null) return count;
+      return count + (gradeQuestion(questions[i], entry) ? 1 : 0);
     }, 0);
     setCorrectCount(newCorrectCount);
 
@@ -247,18 +259,14 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
 
   const back = () => {
     if (qIndex > 0) {
-      const prevIndex = qIndex - 1;
-      setQ(prevIndex);
-      setSel(answers[prevIndex]);
+      setQ(qIndex - 1);
     }
   };
 
   const next = () => {
     if (!hasQuestions) return;
     if (qIndex < questions.length - 1) {
-      const nextIndex = qIndex + 1;
-      setQ(nextIndex);
-      setSel(answers[nextIndex]);
+      setQ(qIndex + 1);
     } else {
       handleFinish();
     }
@@ -279,32 +287,24 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
     if (hasSubmitted) return;
     setHasSubmitted(true);
 
-    // Calculate points based on difficulty
-    const difficultyPoints: Record<string, number> = {
-      "intro": 10,
-      "easy": 10,
-      "medium": 20,
-      "hard": 30,
-    };
-    const pointsPerCorrect = lesson.difficulty ? (difficultyPoints[lesson.difficulty] || 10) : 10;
-
+    // The server grades these answers against the stored lesson and awards points itself
     const attemptPayload = {
       lesson_id: lesson.id,
       subject: lesson.subject,
       topic: lesson.topic ?? undefined,
-      correct_count: correctCount,
-      total: questions.length,
       event: "lesson-finish",
-      points_per_correct: pointsPerCorrect,
-      difficulty: lesson.difficulty,
+      title: lesson.title,
+      answers,
+      // Only used for lessons that were never stored server-side (review queue only)
+      questions,
+      review_refs: Array.isArray(lesson.context?.reviewRefs) ? lesson.context.reviewRefs : undefined,
     };
     void (async () => {
       try {
-        const res = await fetch("/api/attempt", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify(attemptPayload),
-        });
+        // Offline attempts land in the outbox and are replayed (and graded) on reconnect
+        const result = await sendOrQueue("/api/attempt", attemptPayload, userId);
+        if (result.status === "queued") return;
+        const res = result.response;
         const payload = (await res.json().catch(() => ({}))) as Record<string, unknown> | undefined;
         if (!res.ok) {
           console.warn("[quiz-block] attempt failed", { status: res.status, payload });
@@ -334,17 +334,17 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
         return;
       }
 
-      // Answer selection with number keys (1-4)
-      if (e.key >= '1' && e.key <= '4') {
+      // Answer selection with number keys (1-4), MCQs only
+      if (e.key >= '1' && e.key <= '4' && isMcqQuestion(q)) {
         const idx = parseInt(e.key) - 1;
-        if (q && idx < q.choices.length && selected === null) {
+        if (idx < q.choices.length && selected === null) {
           e.preventDefault();
           choose(idx);
         }
       }
 
       // Next question with Enter or 'n' key
-      if ((e.key === 'Enter' || e.key === 'n') && selected !== null) {
+      if ((e.key === 'Enter' || e.key === 'n') && isLocked) {
         e.preventDefault();
         next();
       }
@@ -358,14 +358,14 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [qIndex, selected, q, choose, next, back]);
+  }, [qIndex, selected, isLocked, q, choose, next, back]);
 
   const btnClass = (idx: number) => {
     const base = "text-left px-3 py-2 rounded-xl border transition-all duration-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-lernex-blue/40";
     if (selected === null) {
       return `${base} border-slate-300/70 bg-gradient-to-br from-slate-50 to-slate-100/50 hover:from-white hover:to-slate-50 hover:border-lernex-blue/40 hover:shadow-md hover:shadow-lernex-blue/10 hover:-translate-y-0.5 active:translate-y-0 dark:from-slate-800/40 dark:to-slate-900/30 dark:border-surface dark:hover:from-slate-700/40 dark:hover:to-slate-800/30 dark:hover:border-lernex-blue/40`;
     }
-    const correctIdx = q?.correctIndex ?? -1;
+    const correctIdx = q && isMcqQuestion(q) ? q.correctIndex : -1;
     if (idx === correctIdx) {
       return `${base} border-green-500/70 bg-gradient-to-r from-green-500 to-green-600 text-white shadow-md shadow-green-500/25 hover:shadow-lg hover:shadow-green-500/35 dark:from-green-600 dark:to-green-700 dark:shadow-green-500/30 dark:hover:shadow-green-500/40`;
     }
@@ -378,19 +378,32 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
   return hasQuestions && q ? (
     <>
       <div ref={rootRef} className="rounded-[24px] border border-slate-200/80 bg-gradient-to-br from-white via-slate-50/30 to-white px-5 py-6 shadow-elevated shadow-slate-900/5 backdrop-blur ring-1 ring-slate-900/5 transition-all duration-300 hover:shadow-3xl hover:shadow-lernex-blue/10 hover:border-lernex-blue/30 dark:from-slate-900/50 dark:via-slate-800/20 dark:to-slate-900/50 dark:border-surface dark:shadow-lg dark:shadow-black/20 dark:ring-black/10 dark:hover:shadow-2xl dark:hover:shadow-lernex-purple/15">
-        <div className="mb-3 text-sm text-neutral-700 dark:text-neutral-300 transition-colors">
-          <FormattedText text={q.prompt} />
-        </div>
-        <div className="grid gap-2">
-          {q.choices.map((choice, idx) => (
-            <button key={idx} onClick={(e) => choose(idx, e)} disabled={selected !== null} className={btnClass(idx)}>
-              <FormattedText text={choice} />
-            </button>
-          ))}
-        </div>
+        {/* Cloze prompts render inline with their blanks */}
+        {q.type !== "cloze" && (
+          <div className="mb-3 text-sm text-neutral-700 dark:text-neutral-300 transition-colors">
+            <FormattedText text={q.prompt} />
+          </div>
+        )}
+        {isMcqQuestion(q) ? (
+          <div className="grid gap-2">
+            {q.choices.map((choice, idx) => (
+              <button key={idx} onClick={(e) => choose(idx, e)} disabled={selected !== null} className={btnClass(idx)}>
+                <FormattedText text={choice} />
+              </button>
+            ))}
+          </div>
+        ) : q.type === "multi-select" ? (
+          <MultiSelectInput key={`${lesson.id}-${qIndex}`} question={q} answer={currentAnswer} onSubmit={submitAnswer} />
+        ) : q.type === "numeric" ? (
+          <NumericInput key={`${lesson.id}-${qIndex}`} question={q} answer={currentAnswer} onSubmit={submitAnswer} />
+        ) : q.type === "ordering" ? (
+          <OrderingInput key={`${lesson.id}-${qIndex}`} question={q} answer={currentAnswer} onSubmit={submitAnswer} />
+        ) : q.type === "cloze" ? (
+          <ClozeInput key={`${lesson.id}-${qIndex}`} question={q} answer={currentAnswer} onSubmit={submitAnswer} />
+        ) : null}
 
         {/* Explanation */}
-        {selected !== null && q.explanation && (
+        {isLocked && q.explanation && (
           <div className="mt-4 text-sm text-neutral-600 dark:text-neutral-300 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 animate-slide-up">
             <div className="font-semibold text-blue-600 dark:text-blue-400 mb-1">Explanation:</div>
             <FormattedText text={q.explanation} />
@@ -401,8 +414,8 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
         <div className="mt-4 flex items-center justify-center gap-1.5">
           {questions.map((_, idx) => {
             const isAnswered = answers[idx] !== null;
-            const isCorrect = isAnswered && answers[idx] === questions[idx].correctIndex;
-            const isIncorrect = isAnswered && answers[idx] !== questions[idx].correctIndex;
+            const isCorrect = isAnswered && isAnswerCorrect(idx);
+            const isIncorrect = isAnswered && !isCorrect;
 
             return (
               <div
@@ -572,8 +585,8 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
               {/* Question Breakdown List */}
               {showBreakdown && (
                 <div className="mt-3 max-h-48 overflow-y-auto rounded-xl bg-surface-muted border border-surface p-3 space-y-2">
-                  {questions.map((question, idx) => {
-                    const isCorrect = answers[idx] === question.correctIndex;
+                  {questions.map((_, idx) => {
+                    const isCorrect = isAnswerCorrect(idx);
                     return (
                       <div
                         key={idx}
@@ -622,10 +635,9 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
                         setShowSummaryOverlay(false);
                         setShowBreakdown(false);
                         // Find first incorrect answer
-                        const firstIncorrect = answers.findIndex((ans, idx) => ans !== questions[idx].correctIndex);
+                        const firstIncorrect = answers.findIndex((_, idx) => !isAnswerCorrect(idx));
                         if (firstIncorrect !== -1) {
                           setQ(firstIncorrect);
-                          setSel(answers[firstIncorrect]);
                         }
                       }}
                       className="flex-1 rounded-xl border border-orange-500/30 bg-gradient-to-br from-orange-500/12 to-orange-600/8 px-4 py-2.5 text-sm font-medium text-orange-600 shadow-sm shadow-orange-500/10 transition-all duration-200 hover:from-orange-500/20 hover:to-orange-600/15 hover:shadow-md hover:shadow-orange-500/20 hover:scale-[1.02] active:scale-[0.98] dark:from-orange-500/20 dark:to-orange-600/15 dark:text-orange-400 dark:shadow-orange-500/15 dark:hover:shadow-orange-500/25"
@@ -640,7 +652,6 @@ export default function QuizBlock({ lesson, onDone, showSummary = true }: QuizBl
                       setShowSummaryOverlay(false);
                       setShowBreakdown(false);
                       setQ(0);
-                      setSel(null);
                       setCorrectCount(0);
                       setAnswers(Array(questions.length).fill(null));
                       setHasSubmitted(false);
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect } from "react";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import { clearQueuedRequests, replayQueuedRequests } from "@/lib/offline-queue";
+
+// How many pending lessons the service worker keeps on hand for offline use
+const OFFLINE_PREFETCH_COUNT = 5;
+
+function postToWorker(message: Record<string, unknown>) {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => registration.active?.postMessage(message))
+    .catch(() => {});
+}
+
+/** Ask the service worker to refresh its offline lesson cache from the pending queue. */
+export function requestLessonPrefetch() {
+  if (typeof navigator === "undefined" || !navigator.onLine) return;
+  postToWorker({ type: "prefetch-lessons", limit: OFFLINE_PREFETCH_COUNT });
+}
+
+export default function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const supabase = supabaseBrowser();
+    let userId: string | null = null;
+
+    const prefetchLessons = () => {
+      if (userId) requestLessonPrefetch();
+    };
+
+    const syncOutbox = async () => {
+      if (!userId || !navigator.onLine) return;
+      const summary = await replayQueuedRequests(userId);
+      if (summary.sent || summary.dropped) {
+        console.debug("[offline] replayed queued requests", summary);
+      }
+      prefetchLessons();
+    };
+
+    // Static chunks are unhashed in development, so only cache them in production builds
+    if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+      navigator.serviceWorker.register("/sw.js", { scope: "/" }).catch((err) => {
+        console.warn("[offline] service worker registration failed", err);
+      });
+    }
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      userId = user?.id ?? null;
+      void syncOutbox();
+    });
+    const { data: listener } = supabase.auth.onAuthStateChange((event, session) => {
+      const previousUserId = userId;
+      userId = session?.user?.id ?? null;
+      if (event === "SIGNED_OUT") {
+        postToWorker({ type: "clear-lessons" });
+        clearQueuedRequests().catch((err) => {
+          console.warn("[offline] failed to clear queued requests", err);
+        });
+      } else if (userId && userId !== previousUserId) {
+        void syncOutbox();
+      }
+    });
+
+    const handleOnline = () => { void syncOutbox(); };
+    window.addEventListener("online", handleOnline);
+    return () => {
+      listener.subscription.unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  return null;
+}
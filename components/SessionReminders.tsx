@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import { useToastStore } from "@/lib/hooks/useToast";
+
+const STORAGE_KEY = "lernex-session-reminders";
+// Sessions are re-fetched this often; reminders further out than this are scheduled on a later pass
+const REFRESH_INTERVAL_MS = 10 * 60_000;
+const MAX_REMEMBERED = 50;
+
+type ReminderSession = {
+  id: string;
+  title: string;
+  scheduled_at: string;
+  status: string;
+  my_rsvp: string | null;
+};
+
+// Keyed by start time too, so a rescheduled session reminds again
+function reminderKey(session: ReminderSession) {
+  return `${session.id}:${session.scheduled_at}`;
+}
+
+function readReminded(): string[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter((entry): entry is string => typeof entry === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function markReminded(key: string) {
+  try {
+    const next = [...readReminded().filter((entry) => entry !== key), key].slice(-MAX_REMEMBERED);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Private browsing can refuse storage; the worst case is a repeated reminder
+  }
+}
+
+function startsIn(scheduledAt: string) {
+  const minutes = Math.max(0, Math.round((new Date(scheduledAt).getTime() - Date.now()) / 60_000));
+  if (minutes === 0) return "is starting now";
+  if (minutes < 60) return `starts in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.round(minutes / 60);
+  return `starts in ${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * In-app reminders for upcoming study sessions, shown as a toast at the
+ * offset chosen in settings (profiles.session_reminder_minutes). Each tab
+ * schedules its own timers; localStorage keeps tabs from repeating a reminder.
+ */
+export default function SessionReminders() {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const supabase = supabaseBrowser();
+    let signedIn = false;
+    let timers: ReturnType<typeof setTimeout>[] = [];
+
+    const clearTimers = () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers = [];
+    };
+
+    const remind = (session: ReminderSession) => {
+      const key = reminderKey(session);
+      if (readReminded().includes(key)) return;
+      markReminded(key);
+      useToastStore.getState().addToast({
+        type: "info",
+        message: `${session.title} ${startsIn(session.scheduled_at)}`,
+        description: "Your study session is coming up.",
+        action: { label: "Open room", onClick: () => router.push(`/study-sessions/${session.id}`) },
+        duration: 0,
+      });
+    };
+
+    const refresh = async () => {
+      if (!signedIn) return;
+      try {
+        const [settingsRes, sessionsRes] = await Promise.all([
+          fetch("/api/calendar/settings"),
+          fetch("/api/study-sessions"),
+        ]);
+        if (!settingsRes.ok || !sessionsRes.ok) return;
+        const settings = await settingsRes.json();
+        const data = await sessionsRes.json();
+
+        clearTimers();
+        const reminderMinutes = settings.reminderMinutes;
+        if (typeof reminderMinutes !== "number") return;
+
+        const reminded = new Set(readReminded());
+        const now = Date.now();
+        for (const session of (data.sessions ?? []) as ReminderSession[]) {
+          if (session.status === "cancelled" || session.my_rsvp === "declined") continue;
+          if (reminded.has(reminderKey(session))) continue;
+          const start = new Date(session.scheduled_at).getTime();
+          if (!Number.isFinite(start) || start <= now) continue;
+          const delay = Math.max(0, start - reminderMinutes * 60_000 - now);
+          if (delay > REFRESH_INTERVAL_MS) continue;
+          timers.push(setTimeout(() => remind(session), delay));
+        }
+      } catch (error) {
+        console.warn("[session-reminders] refresh failed", error);
+      }
+    };
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      signedIn = !!user;
+      void refresh();
+    });
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
+      const wasSignedIn = signedIn;
+      signedIn = !!session?.user;
+      if (!signedIn) clearTimers();
+      else if (!wasSignedIn) void refresh();
+    });
+
+    const interval = setInterval(() => { void refresh(); }, REFRESH_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") void refresh();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      clearTimers();
+      clearInterval(interval);
+      listener.subscription.unsubscribe();
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [router]);
+
+  return null;
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Flame, Loader2, Snowflake } from "lucide-react";
+import { useProfileStats } from "@/app/providers/ProfileStatsProvider";
+import { normalizeProfileStats } from "@/lib/profile-stats";
+import type { StreakRun } from "@/lib/streaks";
+
+type StreakOverview = {
+  streak: number;
+  points: number;
+  freezes: number;
+  maxFreezes: number;
+  freezeCost: number;
+  earnEvery: number;
+  history: StreakRun[];
+};
+
+// Date keys are calendar days, so format them without shifting through the local timezone
+function formatDay(key: string) {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(Date.UTC(y, (m || 1) - 1, d || 1)).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+type Props = {
+  className?: string;
+  /** Show the "Buy freeze" button. */
+  allowPurchase?: boolean;
+};
+
+/**
+ * Streak freezes on hand and past streaks with the days a freeze covered.
+ * Shared by /achievements (with the freeze store) and /analytics.
+ */
+export default function StreakHistory({ className, allowPurchase = false }: Props) {
+  const { setStats } = useProfileStats();
+  const [overview, setOverview] = useState<StreakOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [buying, setBuying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/streaks", { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load streak history");
+      setOverview((await res.json()) as StreakOverview);
+    } catch (error) {
+      console.error("Failed to load streak history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const buyFreeze = async () => {
+    setBuying(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/streaks/freeze", { method: "POST" });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(payload?.error || "Couldn't buy a streak freeze");
+        return;
+      }
+      if (payload?.profile) setStats(normalizeProfileStats(payload.profile));
+      setMessage("Streak freeze added!");
+      await load();
+    } catch (error) {
+      console.error("Failed to buy streak freeze:", error);
+      setMessage("Couldn't buy a streak freeze");
+    } finally {
+      setBuying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={className}>
+        <div className="flex items-center justify-center p-6">
+          <Loader2 className="h-5 w-5 animate-spin text-lernex-blue" />
+        </div>
+      </div>
+    );
+  }
+  if (!overview) return null;
+
+  const atMax = overview.freezes >= overview.maxFreezes;
+  const canAfford = overview.points >= overview.freezeCost;
+  const best = overview.history.reduce((max, run) => Math.max(max, run.length), 0);
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Streak history</h2>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            {best > 0 ? `Best streak: ${best} day${best === 1 ? "" : "s"}` : "Your streaks will show up here"}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1" aria-label={`${overview.freezes} of ${overview.maxFreezes} streak freezes`}>
+            {Array.from({ length: overview.maxFreezes }, (_, idx) => (
+              <Snowflake
+                key={idx}
+                className={`h-5 w-5 ${idx < overview.freezes ? "text-sky-500" : "text-neutral-300 dark:text-neutral-600"}`}
+              />
+            ))}
+          </div>
+          {allowPurchase && (
+            <button
+              type="button"
+              onClick={buyFreeze}
+              disabled={buying || atMax || !canAfford}
+              className="inline-flex items-center gap-1.5 rounded-full border border-sky-300/70 px-3 py-1 text-xs font-medium text-sky-700 transition hover:bg-sky-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-sky-500/40 dark:text-sky-300 dark:hover:bg-sky-500/10"
+            >
+              {buying ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Snowflake className="h-3.5 w-3.5" />}
+              Buy freeze · {overview.freezeCost} pts
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
+        A freeze covers a missed day automatically. You earn one every {overview.earnEvery} streak days and can hold up
+        to {overview.maxFreezes}.
+      </p>
+      {message && <p className="mt-2 text-xs font-medium text-sky-700 dark:text-sky-300">{message}</p>}
+
+      {overview.history.length === 0 ? (
+        <p className="mt-4 text-sm text-neutral-500 dark:text-neutral-400">Finish a lesson to start your first streak.</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {overview.history.map((run) => {
+            const current = !run.endedOn;
+            return (
+              <li
+                key={run.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-white/60 bg-white/60 px-3 py-2 text-sm ring-1 ring-black/5 dark:border-white/5 dark:bg-white/5 dark:ring-0"
+              >
+                <span className="flex items-center gap-2">
+                  <Flame className={`h-4 w-4 ${current ? "text-orange-500" : "text-neutral-400"}`} />
+                  <span className="font-semibold">
+                    {run.length} day{run.length === 1 ? "" : "s"}
+                  </span>
+                  {current && (
+                    <span className="rounded-full bg-orange-500/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-orange-600 dark:text-orange-300">
+                      Current
+                    </span>
+                  )}
+                </span>
+                <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {formatDay(run.startedOn)} – {formatDay(run.lastActiveOn)}
+                </span>
+                {run.frozenDays.length > 0 && (
+                  <span className="flex w-full items-center gap-1 text-xs text-sky-700 dark:text-sky-300">
+                    <Snowflake className="h-3.5 w-3.5" />
+                    Freeze used on {run.frozenDays.map(formatDay).join(", ")}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+-- Migration: Spaced-repetition review queue
+-- One row per answered question. The scheduler in lib/review-queue.ts keeps
+-- SM-2 state (ease, interval, repetitions) and the next due date so the FYP
+-- feed can bring questions back once they are due. Rows are written by
+-- /api/attempt with the service role; learners can read and clear their own
+-- queue but not reschedule it.
+
+begin;
+
+create table if not exists public.user_review_items (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lesson_id text not null,
+  question_index integer not null check (question_index >= 0),
+  subject text not null,
+  topic text,
+  lesson_title text,
+  question jsonb not null,
+  ease_factor numeric(4, 2) not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  lapses integer not null default 0,
+  last_grade smallint,
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, lesson_id, question_index)
+);
+
+create index if not exists user_review_items_due_idx
+  on public.user_review_items (user_id, due_at asc);
+
+create index if not exists user_review_items_subject_due_idx
+  on public.user_review_items (user_id, subject, due_at asc);
+
+alter table public.user_review_items enable row level security;
+
+drop policy if exists "Users read own review items" on public.user_review_items;
+drop policy if exists "Users insert own review items" on public.user_review_items;
+drop policy if exists "Users update own review items" on public.user_review_items;
+drop policy if exists "Users delete own review items" on public.user_review_items;
+
+create policy "Users read own review items"
+  on public.user_review_items
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users delete own review items"
+  on public.user_review_items
+  for delete
+  using (auth.uid() = user_id);
+
+commit;
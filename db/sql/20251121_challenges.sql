@@ -0,0 +1,43 @@
+-- Migration: Daily/weekly challenges
+-- Challenge definitions live in lib/challenges.ts; this table only stores
+-- per-user progress for each (challenge, reset window) pair. Windows are
+-- computed in the user's timezone, stored on profiles.timezone.
+-- Learners can only read their progress; /api/attempt and
+-- /api/challenges/claim write it with the service role, and rewards are paid
+-- from the catalog, so a learner cannot complete or price a challenge.
+
+begin;
+
+alter table public.profiles
+  add column if not exists timezone text not null default 'UTC';
+
+create table if not exists public.user_challenge_progress (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  challenge_id text not null,
+  period_key text not null,
+  progress integer not null default 0 check (progress >= 0),
+  target integer not null check (target > 0),
+  reward_points integer not null default 0 check (reward_points >= 0),
+  completed_at timestamptz,
+  claimed_at timestamptz,
+  resets_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, challenge_id, period_key)
+);
+
+create index if not exists user_challenge_progress_period_idx
+  on public.user_challenge_progress (user_id, period_key);
+
+alter table public.user_challenge_progress enable row level security;
+
+drop policy if exists "Users read own challenge progress" on public.user_challenge_progress;
+drop policy if exists "Users insert own challenge progress" on public.user_challenge_progress;
+drop policy if exists "Users update own challenge progress" on public.user_challenge_progress;
+
+create policy "Users read own challenge progress"
+  on public.user_challenge_progress
+  for select
+  using (auth.uid() = user_id);
+
+commit;
@@ -0,0 +1,136 @@
+-- Migration: Shared rate limiting
+-- Backs SupabaseRateLimitStore in lib/rate.ts. Each key (route + user or IP)
+-- has one row; rate_limit_consume() locks it and applies either the
+-- token-bucket or the approximated sliding-window algorithm atomically, so
+-- limits hold across serverless instances. Logic mirrors consumeTokenBucket /
+-- consumeSlidingWindow in lib/rate.ts.
+
+begin;
+
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null default 0,
+  updated_at_ms bigint not null default 0,
+  window_start_ms bigint not null default 0,
+  window_count integer not null default 0,
+  prev_count integer not null default 0,
+  expires_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_buckets_expires_idx
+  on public.rate_limit_buckets (expires_at);
+
+-- Only the service role (via the function below) touches this table
+alter table public.rate_limit_buckets enable row level security;
+
+create or replace function public.rate_limit_consume(
+  p_key text,
+  p_algorithm text,
+  p_limit integer,
+  p_window_ms integer,
+  p_cost integer default 1
+)
+returns table (allowed boolean, remaining integer, reset_ms integer, retry_after_ms integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now bigint := floor(extract(epoch from clock_timestamp()) * 1000);
+  v_row public.rate_limit_buckets%rowtype;
+  v_existing boolean;
+  v_rate double precision;
+  v_tokens double precision;
+  v_window_start bigint;
+  v_current integer := 0;
+  v_previous integer := 0;
+  v_weight double precision;
+  v_headroom integer;
+begin
+  insert into public.rate_limit_buckets (key, tokens, updated_at_ms)
+  values (p_key, p_limit, v_now)
+  on conflict (key) do nothing;
+  v_existing := not found;
+
+  select * into v_row from public.rate_limit_buckets where key = p_key for update;
+
+  if p_algorithm = 'token-bucket' then
+    v_rate := p_limit::double precision / p_window_ms;
+    if v_existing and v_row.expires_at > now() then
+      v_tokens := least(p_limit, v_row.tokens + greatest(0, v_now - v_row.updated_at_ms) * v_rate);
+    else
+      v_tokens := p_limit;
+    end if;
+
+    allowed := v_tokens >= p_cost;
+    if allowed then
+      v_tokens := v_tokens - p_cost;
+      retry_after_ms := 0;
+    else
+      retry_after_ms := ceil((p_cost - v_tokens) / v_rate);
+    end if;
+    remaining := greatest(0, floor(v_tokens));
+    reset_ms := ceil((p_limit - v_tokens) / v_rate);
+
+    update public.rate_limit_buckets
+      set tokens = v_tokens,
+          updated_at_ms = v_now,
+          expires_at = now() + make_interval(secs => 2 * p_window_ms / 1000.0)
+      where key = p_key;
+  else
+    v_window_start := (v_now / p_window_ms) * p_window_ms;
+    if v_existing and v_row.window_start_ms = v_window_start then
+      v_current := v_row.window_count;
+      v_previous := v_row.prev_count;
+    elsif v_existing and v_row.window_start_ms = v_window_start - p_window_ms then
+      v_previous := v_row.window_count;
+    end if;
+
+    v_weight := 1 - (v_now - v_window_start)::double precision / p_window_ms;
+    allowed := v_previous * v_weight + v_current + p_cost <= p_limit;
+    if allowed then
+      v_current := v_current + p_cost;
+    end if;
+
+    reset_ms := v_window_start + p_window_ms - v_now;
+    retry_after_ms := 0;
+    if not allowed then
+      v_headroom := p_limit - v_current - p_cost;
+      if v_previous > 0 and v_headroom >= 0 then
+        retry_after_ms := greatest(1, ceil(p_window_ms * (1 - v_headroom::double precision / v_previous)) - (v_now - v_window_start));
+      else
+        retry_after_ms := reset_ms;
+      end if;
+    end if;
+    remaining := greatest(0, floor(p_limit - (v_previous * v_weight + v_current)));
+
+    update public.rate_limit_buckets
+      set window_start_ms = v_window_start,
+          window_count = v_current,
+          prev_count = v_previous,
+          updated_at_ms = v_now,
+          expires_at = now() + make_interval(secs => 2 * p_window_ms / 1000.0)
+      where key = p_key;
+  end if;
+
+  return next;
+end;
+$$;
+
+-- Remove rows whose windows have fully expired (run from a cron or manually)
+create or replace function public.rate_limit_prune()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with deleted as (
+    delete from public.rate_limit_buckets where expires_at < now() returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
+
+revoke all on function public.rate_limit_consume(text, text, integer, integer, integer) from public, anon, authenticated;
+revoke all on function public.rate_limit_prune() from public, anon, authenticated;
+
+commit;
@@ -0,0 +1,161 @@
+-- Migration: Durable learning-path generation jobs
+-- Replaces the in-process generationLocks / generationProgress maps in
+-- lib/learning-path.ts. Each level-map generation is a row that moves through
+-- queued -> running -> succeeded | failed. A worker holds a time-limited lease
+-- (lease_owner + lease_expires_at) and renews it with every progress
+-- heartbeat; if the instance dies the lease expires and the next request
+-- reclaims the job. Clients poll /api/level-map/jobs/[id] or subscribe to the
+-- row through Supabase Realtime.
+
+begin;
+
+create table if not exists public.learning_path_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  subject text not null,
+  course text not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  lease_owner text,
+  lease_expires_at timestamptz,
+  heartbeat_at timestamptz,
+  progress_pct numeric(4, 3) not null default 0,
+  progress_phase text,
+  progress_detail text,
+  fallback boolean not null default false,
+  error text,
+  started_at timestamptz,
+  finished_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- At most one active job per user + subject
+create unique index if not exists learning_path_jobs_active_idx
+  on public.learning_path_jobs (user_id, subject)
+  where status in ('queued', 'running');
+
+create index if not exists learning_path_jobs_user_subject_idx
+  on public.learning_path_jobs (user_id, subject, created_at desc);
+
+alter table public.learning_path_jobs enable row level security;
+
+drop policy if exists "Users read own learning path jobs" on public.learning_path_jobs;
+drop policy if exists "Users update own learning path jobs" on public.learning_path_jobs;
+
+create policy "Users read own learning path jobs"
+  on public.learning_path_jobs
+  for select
+  using (auth.uid() = user_id);
+
+-- Heartbeats and completion run as the user; inserts go through the claim function
+create policy "Users update own learning path jobs"
+  on public.learning_path_jobs
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Enqueue-or-claim in one step. Returns the active job for the caller's
+-- subject and whether this caller now holds its lease.
+create or replace function public.claim_learning_path_job(
+  p_subject text,
+  p_course text,
+  p_owner text,
+  p_lease_seconds integer default 90
+)
+returns table (job_id uuid, status text, attempts integer, claimed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_job public.learning_path_jobs%rowtype;
+  v_lease interval := make_interval(secs => greatest(p_lease_seconds, 15));
+begin
+  if v_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  -- Serialize claims for the same user + subject across instances
+  perform pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_subject));
+
+  select * into v_job
+  from public.learning_path_jobs j
+  where j.user_id = v_user_id
+    and j.subject = p_subject
+    and j.status in ('queued', 'running')
+  order by j.created_at desc
+  limit 1
+  for update;
+
+  if found then
+    if v_job.status = 'running' and v_job.lease_expires_at > now() then
+      return query select v_job.id, v_job.status, v_job.attempts, false;
+      return;
+    end if;
+
+    if v_job.attempts < v_job.max_attempts then
+      update public.learning_path_jobs j
+      set status = 'running',
+          course = p_course,
+          attempts = j.attempts + 1,
+          lease_owner = p_owner,
+          lease_expires_at = now() + v_lease,
+          heartbeat_at = now(),
+          started_at = coalesce(j.started_at, now()),
+          error = null,
+          updated_at = now()
+      where j.id = v_job.id
+      returning * into v_job;
+      return query select v_job.id, v_job.status, v_job.attempts, true;
+      return;
+    end if;
+
+    -- Lease expired too many times; give up on this job and start a fresh one
+    update public.learning_path_jobs j
+    set status = 'failed',
+        error = coalesce(j.error, 'Lease expired after ' || j.attempts || ' attempts'),
+        lease_owner = null,
+        lease_expires_at = null,
+        finished_at = now(),
+        updated_at = now()
+    where j.id = v_job.id;
+  end if;
+
+  insert into public.learning_path_jobs (
+    user_id, subject, course, status, attempts,
+    lease_owner, lease_expires_at, heartbeat_at,
+    progress_phase, started_at
+  )
+  values (
+    v_user_id, p_subject, p_course, 'running', 1,
+    p_owner, now() + v_lease, now(),
+    'Queued', now()
+  )
+  returning * into v_job;
+
+  return query select v_job.id, v_job.status, v_job.attempts, true;
+end;
+$$;
+
+grant execute on function public.claim_learning_path_job(text, text, text, integer) to authenticated;
+
+-- Stream job updates to subscribed clients
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'learning_path_jobs'
+     ) then
+    alter publication supabase_realtime add table public.learning_path_jobs;
+  end if;
+end;
+$$;
+
+commit;
@@ -0,0 +1,20 @@
+-- Migration: Per-playlist lesson format
+-- Lessons generated by playlist remix use the playlist's format.
+-- Values mirror LESSON_FORMATS in lib/schema.ts.
+
+begin;
+
+alter table public.playlists
+  add column if not exists lesson_format text not null default 'micro';
+
+alter table public.playlists
+  drop constraint if exists playlists_lesson_format_check;
+
+alter table public.playlists
+  add constraint playlists_lesson_format_check
+  check (lesson_format in ('micro', 'deep-dive', 'worked-example', 'flashcards', 'cheat-sheet'));
+
+comment on column public.playlists.lesson_format is
+  'Lesson format used when generating lessons for this playlist. Defaults to micro.';
+
+commit;
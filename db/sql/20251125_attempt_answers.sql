@@ -0,0 +1,110 @@
+-- Migration: Server-verified attempt answers
+-- /api/attempt now grades answers against the stored lesson instead of trusting
+-- client-reported correct counts. Every graded question is claimed once in
+-- attempt_answers so replaying the same lesson/question cannot earn points
+-- twice. Claims go through claim_attempt_answers (security definer) and users
+-- only get read access, so the ledger cannot be cleared from the client.
+-- lesson_answer_keys holds the questions of every lesson the server generated,
+-- keyed by lesson id. It is the only grading source and has no policies, so
+-- only the service role can read or write it; learner-writable tables (topic
+-- cache, pending queue, saved lessons, review items) are never graded against.
+-- Lessons generated before this migration have no key and grade as unverified.
+-- profiles.points is written with the service role only: a trigger ignores
+-- client edits and client inserts, like the billing and role columns.
+
+begin;
+
+create table if not exists public.attempt_answers (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lesson_id text not null,
+  question_index integer not null check (question_index >= 0),
+  correct boolean not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, lesson_id, question_index)
+);
+
+create index if not exists attempt_answers_user_created_idx
+  on public.attempt_answers (user_id, created_at desc);
+
+alter table public.attempt_answers enable row level security;
+
+drop policy if exists "Users read own attempt answers" on public.attempt_answers;
+
+create policy "Users read own attempt answers"
+  on public.attempt_answers
+  for select
+  using (auth.uid() = user_id);
+
+create table if not exists public.lesson_answer_keys (
+  lesson_id text primary key,
+  user_id uuid references auth.users (id) on delete set null,
+  subject text,
+  topic text,
+  title text,
+  difficulty text,
+  questions jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.lesson_answer_keys enable row level security;
+
+-- Claim graded answers for the calling user. p_answers is a JSON array of
+-- { question_index, correct }. Returns only the indices that were newly
+-- claimed; anything already on the ledger is a replay.
+create or replace function public.claim_attempt_answers(
+  p_lesson_id text,
+  p_answers jsonb
+)
+returns table (question_index integer, correct boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+begin
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  insert into public.attempt_answers as aa (user_id, lesson_id, question_index, correct)
+  select v_uid, p_lesson_id, (entry ->> 'question_index')::integer, coalesce((entry ->> 'correct')::boolean, false)
+  from jsonb_array_elements(coalesce(p_answers, '[]'::jsonb)) as entry
+  where (entry ->> 'question_index') is not null
+  on conflict (user_id, lesson_id, question_index) do nothing
+  returning aa.question_index, aa.correct;
+end;
+$$;
+
+drop function if exists public.get_playlist_lesson(text);
+
+-- Points are awarded with the service role (or in SQL); ignore client edits
+create or replace function public.protect_profile_points_column()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.points := 0;
+    else
+      new.points := old.points;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_points_column on public.profiles;
+
+create trigger profiles_protect_points_column
+  before insert or update on public.profiles
+  for each row
+  execute function public.protect_profile_points_column();
+
+revoke all on function public.claim_attempt_answers(text, jsonb) from public, anon;
+grant execute on function public.claim_attempt_answers(text, jsonb) to authenticated;
+
+commit;
@@ -0,0 +1,20 @@
+-- Migration: Usage budget soft-limit alerts
+-- Learners pick the share of their period budget (percent) at which they want
+-- a warning; budget_alert_level remembers the highest threshold already
+-- crossed in the current usage period so each warning fires once. Both are
+-- maintained by lib/usage.ts and reset together with period_cost.
+
+begin;
+
+alter table public.profiles
+  add column if not exists budget_alert_thresholds integer[] not null default '{50,80,95}',
+  add column if not exists budget_alert_level integer not null default 0;
+
+alter table public.profiles
+  drop constraint if exists profiles_budget_alert_level_check;
+
+alter table public.profiles
+  add constraint profiles_budget_alert_level_check
+  check (budget_alert_level between 0 and 100);
+
+commit;
@@ -0,0 +1,94 @@
+-- Migration: Stripe subscription lifecycle
+-- /api/stripe/webhook keeps profiles.subscription_tier in sync with Stripe.
+-- billing_accounts holds the current subscription state per learner (Stripe
+-- ids, status, period end, cancel-at-period-end, payment grace window). It has
+-- no policies: profiles are readable by every signed-in user, so billing state
+-- lives apart from them and only the service role reads or writes it.
+-- subscription_history keeps an append-only record of every tier change.
+-- stripe_webhook_events records each delivered event id so Stripe's retries
+-- and duplicate deliveries are processed once. Only the service role writes
+-- any of this; a trigger stops learners from setting their own tier through
+-- the "Users can update own profile" policy or when creating their profile.
+
+begin;
+
+create table if not exists public.billing_accounts (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  stripe_customer_id text unique,
+  stripe_subscription_id text,
+  subscription_status text,
+  subscription_period_end timestamptz,
+  subscription_cancel_at_period_end boolean not null default false,
+  subscription_grace_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.billing_accounts enable row level security;
+
+-- The tier is owned by the webhook (service role); ignore client edits and inserts
+create or replace function public.protect_profile_billing_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.subscription_tier := 'free';
+    else
+      new.subscription_tier := old.subscription_tier;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_billing_columns on public.profiles;
+
+create trigger profiles_protect_billing_columns
+  before insert or update on public.profiles
+  for each row
+  execute function public.protect_profile_billing_columns();
+
+create table if not exists public.stripe_webhook_events (
+  id text primary key,
+  type text not null,
+  status text not null default 'processing'
+    check (status in ('processing', 'processed', 'failed')),
+  attempts integer not null default 1,
+  last_error text,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+alter table public.stripe_webhook_events enable row level security;
+
+create table if not exists public.subscription_history (
+  id bigserial primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  stripe_event_id text not null,
+  event_type text not null,
+  stripe_subscription_id text,
+  status text,
+  previous_tier text,
+  tier text not null check (tier in ('free', 'plus', 'premium')),
+  period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  grace_until timestamptz,
+  created_at timestamptz not null default now(),
+  unique (stripe_event_id, user_id)
+);
+
+create index if not exists subscription_history_user_created_idx
+  on public.subscription_history (user_id, created_at desc);
+
+alter table public.subscription_history enable row level security;
+
+drop policy if exists "Users read own subscription history" on public.subscription_history;
+
+create policy "Users read own subscription history"
+  on public.subscription_history
+  for select
+  using (auth.uid() = user_id);
+
+commit;
@@ -0,0 +1,108 @@
+-- Migration: Block and mute users
+-- A block is two-way: neither side can find, view, befriend or schedule with
+-- the other, and /api/friends/block severs any existing friendship. A mute is
+-- one-way and quiet: the muted user stays a friend but disappears from the
+-- muter's search, leaderboard and incoming requests/invitations, and is never
+-- told. Blocked users cannot read user_blocks rows that name them, so lookups
+-- go through the security definer helpers below.
+
+begin;
+
+create table if not exists public.user_blocks (
+  blocker_id uuid not null references auth.users (id) on delete cascade,
+  blocked_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null default 'block' check (kind in ('block', 'mute')),
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  check (blocker_id <> blocked_id)
+);
+
+create index if not exists user_blocks_blocked_idx
+  on public.user_blocks (blocked_id);
+
+alter table public.user_blocks enable row level security;
+
+drop policy if exists "Users read own blocks" on public.user_blocks;
+drop policy if exists "Users insert own blocks" on public.user_blocks;
+drop policy if exists "Users update own blocks" on public.user_blocks;
+drop policy if exists "Users delete own blocks" on public.user_blocks;
+
+create policy "Users read own blocks"
+  on public.user_blocks
+  for select
+  using (auth.uid() = blocker_id);
+
+create policy "Users insert own blocks"
+  on public.user_blocks
+  for insert
+  with check (auth.uid() = blocker_id);
+
+create policy "Users update own blocks"
+  on public.user_blocks
+  for update
+  using (auth.uid() = blocker_id)
+  with check (auth.uid() = blocker_id);
+
+create policy "Users delete own blocks"
+  on public.user_blocks
+  for delete
+  using (auth.uid() = blocker_id);
+
+-- True when either user has blocked the other (mutes do not count). The
+-- caller must be one of the two, so it cannot be used to probe who blocked
+-- whom between other users; it answers false otherwise.
+create or replace function public.is_blocked_between(p_a uuid, p_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() in (p_a, p_b) and exists (
+    select 1 from public.user_blocks ub
+    where ub.kind = 'block'
+      and (
+        (ub.blocker_id = p_a and ub.blocked_id = p_b)
+        or (ub.blocker_id = p_b and ub.blocked_id = p_a)
+      )
+  );
+$$;
+
+-- Everyone the caller should not see: users they blocked or muted, plus users
+-- who blocked them.
+create or replace function public.get_hidden_user_ids()
+returns table (user_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ub.blocked_id from public.user_blocks ub
+  where ub.blocker_id = auth.uid()
+  union
+  select ub.blocker_id from public.user_blocks ub
+  where ub.blocked_id = auth.uid() and ub.kind = 'block';
+$$;
+
+revoke all on function public.is_blocked_between(uuid, uuid) from public, anon;
+grant execute on function public.is_blocked_between(uuid, uuid) to authenticated;
+revoke all on function public.get_hidden_user_ids() from public, anon;
+grant execute on function public.get_hidden_user_ids() to authenticated;
+
+-- Enforce blocks at the row level too, so requests and friendships cannot be
+-- created around the API.
+drop policy if exists "Users can insert own friend requests" on public.friend_requests;
+
+create policy "Users can insert own friend requests"
+  on public.friend_requests
+  for insert
+  with check (auth.uid() = sender_id and not public.is_blocked_between(sender_id, receiver_id));
+
+drop policy if exists "Users can insert own friendships" on public.friendships;
+
+create policy "Users can insert own friendships"
+  on public.friendships
+  for insert
+  with check ((auth.uid() = user_a or auth.uid() = user_b) and not public.is_blocked_between(user_a, user_b));
+
+commit;
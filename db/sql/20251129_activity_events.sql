@@ -0,0 +1,142 @@
+-- Migration: Friend activity feed
+-- activity_events is an append-only stream of things friends can see: lesson
+-- completions, badge unlocks and streak milestones (written by /api/attempt),
+-- playlist publishes (trigger below) and study session confirmations. Rows are
+-- written through record_activity_event by server routes with the service
+-- role, so learners cannot post events of their own, and a dedupe_key keeps one-off events (a badge, a playlist going public) from
+-- repeating. Visibility is checked at read time against the actor's current
+-- sharing settings, so turning sharing off also hides past events.
+
+begin;
+
+alter table public.profiles
+  add column if not exists activity_visibility text not null default 'friends',
+  add column if not exists activity_shared_types text[] not null
+    default '{lesson_completed,badge_unlocked,streak_milestone,playlist_published,study_session_confirmed}';
+
+alter table public.profiles
+  drop constraint if exists profiles_activity_visibility_check;
+
+alter table public.profiles
+  add constraint profiles_activity_visibility_check
+  check (activity_visibility in ('friends', 'private'));
+
+create table if not exists public.activity_events (
+  id bigserial primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null check (
+    type in ('lesson_completed', 'badge_unlocked', 'streak_milestone', 'playlist_published', 'study_session_confirmed')
+  ),
+  payload jsonb not null default '{}'::jsonb,
+  dedupe_key text,
+  created_at timestamptz not null default now(),
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists activity_events_user_created_idx
+  on public.activity_events (user_id, created_at desc);
+
+alter table public.activity_events enable row level security;
+
+drop policy if exists "Users read own and friends activity" on public.activity_events;
+
+create policy "Users read own and friends activity"
+  on public.activity_events
+  for select
+  using (
+    auth.uid() = user_id
+    or (
+      exists (
+        select 1 from public.friendships f
+        where (f.user_a = auth.uid() and f.user_b = activity_events.user_id)
+           or (f.user_b = auth.uid() and f.user_a = activity_events.user_id)
+      )
+      and exists (
+        select 1 from public.profiles p
+        where p.id = activity_events.user_id
+          and p.activity_visibility = 'friends'
+          and activity_events.type = any (p.activity_shared_types)
+      )
+      and not public.is_blocked_between(auth.uid(), activity_events.user_id)
+    )
+  );
+
+-- No insert/update/delete policies: the stream is append-only and written
+-- through the function below.
+drop function if exists public.record_activity_event(text, jsonb, text);
+
+create or replace function public.record_activity_event(
+  p_user_id uuid,
+  p_type text,
+  p_payload jsonb default '{}'::jsonb,
+  p_dedupe_key text default null
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := p_user_id;
+  v_id bigint;
+begin
+  if v_uid is null then
+    raise exception 'User is required';
+  end if;
+
+  insert into public.activity_events (user_id, type, payload, dedupe_key)
+  values (v_uid, p_type, coalesce(p_payload, '{}'::jsonb), p_dedupe_key)
+  on conflict (user_id, dedupe_key) do nothing
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.record_activity_event(uuid, text, jsonb, text) from public, anon, authenticated;
+grant execute on function public.record_activity_event(uuid, text, jsonb, text) to service_role;
+
+-- Playlists are published straight from the client, so the event comes from
+-- a trigger rather than an API route. Only the first publish is announced.
+create or replace function public.playlist_published_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_public and (tg_op = 'INSERT' or not coalesce(old.is_public, false)) then
+    insert into public.activity_events (user_id, type, payload, dedupe_key)
+    values (
+      new.user_id,
+      'playlist_published',
+      jsonb_build_object('playlistId', new.id, 'name', new.name),
+      'playlist:' || new.id
+    )
+    on conflict (user_id, dedupe_key) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists playlists_published_activity on public.playlists;
+
+create trigger playlists_published_activity
+  after insert or update of is_public on public.playlists
+  for each row
+  execute function public.playlist_published_activity();
+
+-- Stream inserts to /friends; Realtime applies the select policy per subscriber
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'activity_events'
+     ) then
+    alter publication supabase_realtime add table public.activity_events;
+  end if;
+end;
+$$;
+
+commit;
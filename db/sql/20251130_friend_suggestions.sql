@@ -0,0 +1,63 @@
+-- Migration: Ranked friend suggestions
+-- friend_suggestions is rebuilt by /api/cron/refresh-friend-suggestions from
+-- the social graph (mutual friends), user_cohorts and user_subject_state
+-- (shared courses and similar mastery). reasons holds the short phrases shown
+-- under each suggestion. Learners can dismiss a suggestion; dismissals are
+-- respected by both the refresh job and the read path.
+
+begin;
+
+create table if not exists public.friend_suggestions (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  candidate_id uuid not null references auth.users (id) on delete cascade,
+  score real not null,
+  mutual_count integer not null default 0,
+  shared_cohorts text[] not null default '{}',
+  shared_courses text[] not null default '{}',
+  reasons text[] not null default '{}',
+  computed_at timestamptz not null default now(),
+  primary key (user_id, candidate_id),
+  check (user_id <> candidate_id)
+);
+
+create index if not exists friend_suggestions_user_score_idx
+  on public.friend_suggestions (user_id, score desc);
+
+alter table public.friend_suggestions enable row level security;
+
+drop policy if exists "Users read own friend suggestions" on public.friend_suggestions;
+
+create policy "Users read own friend suggestions"
+  on public.friend_suggestions
+  for select
+  using (auth.uid() = user_id);
+
+create table if not exists public.friend_suggestion_dismissals (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  candidate_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, candidate_id)
+);
+
+alter table public.friend_suggestion_dismissals enable row level security;
+
+drop policy if exists "Users read own suggestion dismissals" on public.friend_suggestion_dismissals;
+drop policy if exists "Users insert own suggestion dismissals" on public.friend_suggestion_dismissals;
+drop policy if exists "Users delete own suggestion dismissals" on public.friend_suggestion_dismissals;
+
+create policy "Users read own suggestion dismissals"
+  on public.friend_suggestion_dismissals
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users insert own suggestion dismissals"
+  on public.friend_suggestion_dismissals
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users delete own suggestion dismissals"
+  on public.friend_suggestion_dismissals
+  for delete
+  using (auth.uid() = user_id);
+
+commit;
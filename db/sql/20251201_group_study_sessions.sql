@@ -0,0 +1,376 @@
+-- Migration: Group study sessions and live study rooms
+-- study_sessions used to be one organizer plus one friend_id. Invitees now
+-- live in study_session_participants with their own RSVP; friend_id is kept
+-- as the first invitee so older clients keep working. At session time the
+-- organizer opens a live room: each round is one lesson generated from the
+-- session's subject/topics, everyone answers its questions, and answers are
+-- revealed together once all accepted participants are in (or the organizer
+-- reveals early). Other participants' answers are only readable after reveal,
+-- and so is the round's answer key.
+
+begin;
+
+-- ---------------------------------------------------------------------------
+-- Sessions: room state
+-- ---------------------------------------------------------------------------
+
+alter table public.study_sessions
+  add column if not exists room_status text not null default 'scheduled',
+  add column if not exists current_round integer,
+  add column if not exists started_at timestamptz,
+  add column if not exists ended_at timestamptz;
+
+alter table public.study_sessions
+  drop constraint if exists study_sessions_room_status_check;
+
+alter table public.study_sessions
+  add constraint study_sessions_room_status_check
+  check (room_status in ('scheduled', 'live', 'ended'));
+
+-- ---------------------------------------------------------------------------
+-- Participants
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.study_session_participants (
+  session_id uuid not null references public.study_sessions (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role text not null default 'invitee' check (role in ('organizer', 'invitee')),
+  rsvp text not null default 'pending' check (rsvp in ('pending', 'accepted', 'tentative', 'declined')),
+  responded_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (session_id, user_id)
+);
+
+create index if not exists study_session_participants_user_idx
+  on public.study_session_participants (user_id);
+
+-- Existing two-person sessions become a two-row participant list
+insert into public.study_session_participants (session_id, user_id, role, rsvp, responded_at)
+select s.id, s.organizer_id, 'organizer', 'accepted', s.created_at
+from public.study_sessions s
+on conflict (session_id, user_id) do nothing;
+
+insert into public.study_session_participants (session_id, user_id, role, rsvp, responded_at)
+select
+  s.id,
+  s.friend_id,
+  'invitee',
+  case s.status when 'confirmed' then 'accepted' when 'completed' then 'accepted' when 'cancelled' then 'declined' else 'pending' end,
+  case when s.status = 'pending' then null else s.updated_at end
+from public.study_sessions s
+on conflict (session_id, user_id) do nothing;
+
+-- Security definer so policies on study_sessions and the room tables can ask
+-- about membership without recursing into study_session_participants' RLS.
+create or replace function public.is_study_session_participant(p_session_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.study_session_participants
+    where session_id = p_session_id and user_id = p_user_id
+  );
+$$;
+
+revoke all on function public.is_study_session_participant(uuid, uuid) from public, anon;
+grant execute on function public.is_study_session_participant(uuid, uuid) to authenticated;
+
+alter table public.study_session_participants enable row level security;
+
+drop policy if exists "Participants read session roster" on public.study_session_participants;
+drop policy if exists "Organizers invite friends" on public.study_session_participants;
+drop policy if exists "Organizers remove participants, participants leave" on public.study_session_participants;
+
+create policy "Participants read session roster"
+  on public.study_session_participants
+  for select
+  using (public.is_study_session_participant(session_id, auth.uid()));
+
+create policy "Organizers invite friends"
+  on public.study_session_participants
+  for insert
+  with check (
+    exists (
+      select 1 from public.study_sessions s
+      where s.id = study_session_participants.session_id
+        and s.organizer_id = auth.uid()
+    )
+    and (
+      user_id = auth.uid()
+      or (
+        exists (
+          select 1 from public.friendships f
+          where (f.user_a = auth.uid() and f.user_b = study_session_participants.user_id)
+             or (f.user_b = auth.uid() and f.user_a = study_session_participants.user_id)
+        )
+        and not public.is_blocked_between(auth.uid(), study_session_participants.user_id)
+      )
+    )
+  );
+
+create policy "Organizers remove participants, participants leave"
+  on public.study_session_participants
+  for delete
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from public.study_sessions s
+      where s.id = study_session_participants.session_id
+        and s.organizer_id = auth.uid()
+    )
+  );
+
+-- RSVPs go through this function: it also confirms a pending session the
+-- first time an invitee accepts.
+create or replace function public.respond_to_study_session(p_session_id uuid, p_rsvp text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_status text;
+begin
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if p_rsvp not in ('pending', 'accepted', 'tentative', 'declined') then
+    raise exception 'Invalid RSVP';
+  end if;
+
+  update public.study_session_participants
+  set rsvp = p_rsvp, responded_at = now()
+  where session_id = p_session_id and user_id = v_uid and role = 'invitee';
+
+  if not found then
+    raise exception 'Not invited to this session';
+  end if;
+
+  update public.study_sessions
+  set status = 'confirmed'
+  where id = p_session_id and status = 'pending' and p_rsvp = 'accepted';
+
+  select status into v_status from public.study_sessions where id = p_session_id;
+  return v_status;
+end;
+$$;
+
+revoke all on function public.respond_to_study_session(uuid, text) from public, anon;
+grant execute on function public.respond_to_study_session(uuid, text) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Sessions: every participant can see them. Updates stay with the organizer
+-- (and the legacy friend_id); invitees answer through respond_to_study_session.
+-- ---------------------------------------------------------------------------
+
+drop policy if exists "Users can view their own study sessions" on public.study_sessions;
+
+create policy "Users can view their own study sessions"
+  on public.study_sessions
+  for select
+  to authenticated
+  using (
+    auth.uid() = organizer_id
+    or auth.uid() = friend_id
+    or public.is_study_session_participant(id, auth.uid())
+  );
+
+-- ---------------------------------------------------------------------------
+-- Rounds
+-- ---------------------------------------------------------------------------
+
+-- lesson is the lesson as participants answer it: answer keys and
+-- explanations are stripped (see hideAnswerKey in lib/study-sessions.ts). The
+-- full lesson lives in study_session_round_keys, which has no policies; the
+-- room route reads it with the service role to grade answers and merges it
+-- back into rounds once they are revealed. Rounds are opened with the service
+-- role so the key is always stored alongside.
+create table if not exists public.study_session_rounds (
+  session_id uuid not null references public.study_sessions (id) on delete cascade,
+  round_index integer not null check (round_index >= 0),
+  topic text,
+  lesson jsonb not null,
+  status text not null default 'open' check (status in ('open', 'revealed')),
+  answered_by uuid[] not null default '{}',
+  opened_at timestamptz not null default now(),
+  revealed_at timestamptz,
+  primary key (session_id, round_index)
+);
+
+alter table public.study_session_rounds enable row level security;
+
+create table if not exists public.study_session_round_keys (
+  session_id uuid not null references public.study_sessions (id) on delete cascade,
+  round_index integer not null check (round_index >= 0),
+  lesson jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (session_id, round_index)
+);
+
+alter table public.study_session_round_keys enable row level security;
+
+drop policy if exists "Participants read rounds" on public.study_session_rounds;
+drop policy if exists "Organizers open rounds" on public.study_session_rounds;
+drop policy if exists "Organizers reveal rounds" on public.study_session_rounds;
+
+create policy "Participants read rounds"
+  on public.study_session_rounds
+  for select
+  using (public.is_study_session_participant(session_id, auth.uid()));
+
+create policy "Organizers reveal rounds"
+  on public.study_session_rounds
+  for update
+  using (
+    exists (
+      select 1 from public.study_sessions s
+      where s.id = study_session_rounds.session_id
+        and s.organizer_id = auth.uid()
+    )
+  );
+
+-- ---------------------------------------------------------------------------
+-- Answers
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.study_session_answers (
+  session_id uuid not null,
+  round_index integer not null,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  answers jsonb not null default '[]'::jsonb,
+  correct integer not null default 0,
+  total integer not null default 0,
+  submitted_at timestamptz not null default now(),
+  primary key (session_id, round_index, user_id),
+  foreign key (session_id, round_index)
+    references public.study_session_rounds (session_id, round_index) on delete cascade
+);
+
+alter table public.study_session_answers enable row level security;
+
+drop policy if exists "Participants read own or revealed answers" on public.study_session_answers;
+
+create policy "Participants read own or revealed answers"
+  on public.study_session_answers
+  for select
+  using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from public.study_session_rounds r
+      where r.session_id = study_session_answers.session_id
+        and r.round_index = study_session_answers.round_index
+        and r.status = 'revealed'
+        and public.is_study_session_participant(r.session_id, auth.uid())
+    )
+  );
+
+-- Answers are written through this function so answered_by stays in sync and
+-- the round reveals itself once every accepted participant has answered.
+-- Answers are locked once submitted. /api/study-sessions/[id]/answer calls it
+-- with the service role after grading against the round's key, so learners
+-- cannot report their own score.
+drop function if exists public.submit_study_session_answer(uuid, integer, jsonb, integer, integer);
+
+create or replace function public.submit_study_session_answer(
+  p_user_id uuid,
+  p_session_id uuid,
+  p_round_index integer,
+  p_answers jsonb,
+  p_correct integer,
+  p_total integer
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := p_user_id;
+  v_round_status text;
+  v_answered uuid[];
+  v_waiting integer;
+begin
+  if v_uid is null then
+    raise exception 'User is required';
+  end if;
+  if not exists (
+    select 1 from public.study_session_participants
+    where session_id = p_session_id and user_id = v_uid and rsvp <> 'declined'
+  ) then
+    raise exception 'Not a participant';
+  end if;
+
+  select status into v_round_status
+  from public.study_session_rounds
+  where session_id = p_session_id and round_index = p_round_index
+  for update;
+
+  if v_round_status is null then
+    raise exception 'Round not found';
+  end if;
+  if v_round_status <> 'open' then
+    return v_round_status;
+  end if;
+
+  insert into public.study_session_answers (session_id, round_index, user_id, answers, correct, total)
+  values (p_session_id, p_round_index, v_uid, coalesce(p_answers, '[]'::jsonb), greatest(p_correct, 0), greatest(p_total, 0))
+  on conflict (session_id, round_index, user_id) do nothing;
+
+  update public.study_session_rounds
+  set answered_by = array_append(answered_by, v_uid)
+  where session_id = p_session_id and round_index = p_round_index
+    and not (v_uid = any (answered_by))
+  returning answered_by into v_answered;
+
+  if v_answered is null then
+    select answered_by into v_answered
+    from public.study_session_rounds
+    where session_id = p_session_id and round_index = p_round_index;
+  end if;
+
+  select count(*) into v_waiting
+  from public.study_session_participants
+  where session_id = p_session_id
+    and rsvp = 'accepted'
+    and not (user_id = any (v_answered));
+
+  if v_waiting = 0 then
+    update public.study_session_rounds
+    set status = 'revealed', revealed_at = now()
+    where session_id = p_session_id and round_index = p_round_index;
+    return 'revealed';
+  end if;
+
+  return 'open';
+end;
+$$;
+
+revoke all on function public.submit_study_session_answer(uuid, uuid, integer, jsonb, integer, integer) from public, anon, authenticated;
+grant execute on function public.submit_study_session_answer(uuid, uuid, integer, jsonb, integer, integer) to service_role;
+
+-- Room clients follow rounds (new lesson, answered_by, reveal) and the session
+-- row (live/ended) over Realtime; RLS applies per subscriber.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'study_session_rounds'
+    ) then
+      alter publication supabase_realtime add table public.study_session_rounds;
+    end if;
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'study_sessions'
+    ) then
+      alter publication supabase_realtime add table public.study_sessions;
+    end if;
+  end if;
+end;
+$$;
+
+commit;
@@ -0,0 +1,94 @@
+-- Migration: Calendar export and reminders for study sessions
+-- Study sessions can be downloaded as .ics files and followed through a
+-- per-user iCalendar feed. The feed URL carries a secret token, kept in
+-- calendar_feeds rather than on profiles because authenticated users can read
+-- each other's profile rows. study_sessions.sequence is the iCalendar
+-- SEQUENCE: a trigger bumps it whenever something a calendar shows changes, so
+-- subscribed calendars replace their copy of the event (including when it is
+-- cancelled). profiles.session_reminder_minutes is how long before a session
+-- the in-app reminder fires; null turns reminders off.
+
+begin;
+
+-- ---------------------------------------------------------------------------
+-- Sessions: iCalendar sequence
+-- ---------------------------------------------------------------------------
+
+alter table public.study_sessions
+  add column if not exists sequence integer not null default 0;
+
+create or replace function public.bump_study_session_sequence()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.title is distinct from old.title
+    or new.description is distinct from old.description
+    or new.scheduled_at is distinct from old.scheduled_at
+    or new.duration_minutes is distinct from old.duration_minutes
+    or new.status is distinct from old.status then
+    new.sequence := old.sequence + 1;
+  else
+    new.sequence := old.sequence;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists study_sessions_bump_sequence on public.study_sessions;
+
+create trigger study_sessions_bump_sequence
+  before update on public.study_sessions
+  for each row
+  execute function public.bump_study_session_sequence();
+
+-- ---------------------------------------------------------------------------
+-- Feed tokens
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "Users read own calendar feed" on public.calendar_feeds;
+drop policy if exists "Users create own calendar feed" on public.calendar_feeds;
+drop policy if exists "Users rotate own calendar feed" on public.calendar_feeds;
+drop policy if exists "Users delete own calendar feed" on public.calendar_feeds;
+
+create policy "Users read own calendar feed"
+  on public.calendar_feeds for select
+  using (auth.uid() = user_id);
+
+create policy "Users create own calendar feed"
+  on public.calendar_feeds for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users rotate own calendar feed"
+  on public.calendar_feeds for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users delete own calendar feed"
+  on public.calendar_feeds for delete
+  using (auth.uid() = user_id);
+
+-- ---------------------------------------------------------------------------
+-- Reminders
+-- ---------------------------------------------------------------------------
+
+alter table public.profiles
+  add column if not exists session_reminder_minutes integer default 30;
+
+alter table public.profiles
+  drop constraint if exists profiles_session_reminder_minutes_check;
+
+alter table public.profiles
+  add constraint profiles_session_reminder_minutes_check
+  check (session_reminder_minutes is null or session_reminder_minutes between 0 and 1440);
+
+commit;
@@ -0,0 +1,152 @@
+-- Migration: Notification center
+-- notifications is the inbox: one row per thing a learner should hear about
+-- (friend requests, study session invites, streak warnings, usage-limit
+-- resets, learning paths that finished generating). Rows are written only by
+-- the server with the service role (lib/notifications.ts) after checking the
+-- recipient's per-type preferences in profiles.notification_preferences, then
+-- handed to the delivery channels: the inbox itself (Realtime), email (sent
+-- right away or batched into a daily/weekly digest, tracked by email_digest
+-- and emailed_at) and web push. dedupe_key stops scheduled jobs from sending
+-- the same warning twice. push_subscriptions holds each browser's Web Push
+-- endpoint; save_push_subscription moves an endpoint to whoever signed in on
+-- that browser last.
+
+begin;
+
+alter table public.profiles
+  add column if not exists notification_preferences jsonb not null default '{}'::jsonb;
+
+-- ---------------------------------------------------------------------------
+-- Notifications
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null
+    check (type in ('friend_request', 'session_invite', 'streak_warning', 'usage_reset', 'learning_path_ready')),
+  title text not null,
+  body text,
+  url text,
+  data jsonb not null default '{}'::jsonb,
+  actor_id uuid references public.profiles (id) on delete set null,
+  dedupe_key text,
+  -- false when the learner turned the inbox off for this type but still gets it by email or push
+  in_app boolean not null default true,
+  email_digest text check (email_digest in ('daily', 'weekly')),
+  emailed_at timestamptz,
+  pushed_at timestamptz,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists notifications_user_created_idx
+  on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+create index if not exists notifications_pending_digest_idx
+  on public.notifications (email_digest, created_at)
+  where email_digest is not null and emailed_at is null;
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users read own notifications" on public.notifications;
+drop policy if exists "Users mark own notifications read" on public.notifications;
+drop policy if exists "Users delete own notifications" on public.notifications;
+
+create policy "Users read own notifications"
+  on public.notifications for select
+  using (auth.uid() = user_id);
+
+create policy "Users mark own notifications read"
+  on public.notifications for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users delete own notifications"
+  on public.notifications for delete
+  using (auth.uid() = user_id);
+
+-- ---------------------------------------------------------------------------
+-- Web Push subscriptions
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+drop policy if exists "Users read own push subscriptions" on public.push_subscriptions;
+drop policy if exists "Users delete own push subscriptions" on public.push_subscriptions;
+
+create policy "Users read own push subscriptions"
+  on public.push_subscriptions for select
+  using (auth.uid() = user_id);
+
+create policy "Users delete own push subscriptions"
+  on public.push_subscriptions for delete
+  using (auth.uid() = user_id);
+
+-- A browser has one endpoint; if someone else subscribed it before, it moves
+-- to the caller so pushes never reach the previous account on a shared device
+create or replace function public.save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.push_subscriptions
+  where endpoint = p_endpoint and user_id <> auth.uid();
+
+  insert into public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  values (auth.uid(), p_endpoint, p_p256dh, p_auth, left(p_user_agent, 255))
+  on conflict (endpoint) do update
+    set p256dh = excluded.p256dh,
+        auth = excluded.auth,
+        user_agent = excluded.user_agent;
+end;
+$$;
+
+revoke all on function public.save_push_subscription(text, text, text, text) from public, anon;
+grant execute on function public.save_push_subscription(text, text, text, text) to authenticated;
+
+-- New notifications reach an open inbox over Realtime; RLS applies per subscriber.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+    ) then
+      alter publication supabase_realtime add table public.notifications;
+    end if;
+  end if;
+end;
+$$;
+
+commit;
@@ -0,0 +1,100 @@
+-- Migration: Streak freezes and streak history
+-- Streak days now follow local midnight in profiles.timezone instead of UTC,
+-- so last_study_date holds the learner's local date. streak_freezes is the
+-- learner's freeze inventory: one is earned every 7 streak days and more can
+-- be bought with points (see lib/profile-stats.ts). Freezes are spent on the
+-- next study day to cover the days in between. streak_history keeps one row
+-- per streak, with the days a freeze covered, for /achievements and
+-- /analytics; it is written by the same requests that update the streak.
+-- The streak, last_study_date and freeze columns and streak_history are only
+-- written with the service role (/api/attempt, /api/placement/finish,
+-- /api/streaks/freeze); a trigger ignores client edits and client inserts of
+-- those columns, like the billing and role columns, and learners can only
+-- read their history.
+
+begin;
+
+alter table public.profiles
+  add column if not exists streak_freezes integer not null default 0;
+
+alter table public.profiles
+  drop constraint if exists profiles_streak_freezes_check;
+
+alter table public.profiles
+  add constraint profiles_streak_freezes_check
+  check (streak_freezes >= 0);
+
+-- Streaks are advanced and freezes bought with the service role; ignore client edits
+create or replace function public.protect_profile_streak_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.streak := 0;
+      new.last_study_date := null;
+      new.streak_freezes := 0;
+    else
+      new.streak := old.streak;
+      new.last_study_date := old.last_study_date;
+      new.streak_freezes := old.streak_freezes;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_streak_columns on public.profiles;
+
+create trigger profiles_protect_streak_columns
+  before insert or update on public.profiles
+  for each row
+  execute function public.protect_profile_streak_columns();
+
+create table if not exists public.streak_history (
+  id bigserial primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  started_on date not null,
+  last_active_on date not null,
+  length integer not null default 1 check (length >= 1),
+  frozen_days date[] not null default '{}',
+  -- First day the streak was no longer alive; null for the current streak
+  ended_on date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, started_on)
+);
+
+create unique index if not exists streak_history_current_idx
+  on public.streak_history (user_id)
+  where ended_on is null;
+
+create index if not exists streak_history_user_started_idx
+  on public.streak_history (user_id, started_on desc);
+
+alter table public.streak_history enable row level security;
+
+drop policy if exists "Users read own streak history" on public.streak_history;
+drop policy if exists "Users insert own streak history" on public.streak_history;
+drop policy if exists "Users update own streak history" on public.streak_history;
+
+create policy "Users read own streak history"
+  on public.streak_history
+  for select
+  using (auth.uid() = user_id);
+
+-- Seed the streak each learner has going today so it isn't lost from history
+insert into public.streak_history (user_id, started_on, last_active_on, length)
+select
+  p.id,
+  p.last_study_date - (p.streak - 1),
+  p.last_study_date,
+  p.streak
+from public.profiles p
+where p.streak > 0
+  and p.last_study_date is not null
+on conflict do nothing;
+
+commit;
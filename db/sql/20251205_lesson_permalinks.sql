@@ -0,0 +1,108 @@
+-- Migration: Lesson permalinks
+-- Generated lessons (from /generate, the FYP or a playlist) only live in
+-- per-user caches, so /lesson/[id] could not resolve them for anyone else.
+-- lesson_permalinks stores a copy of a lesson under a short public id that
+-- never changes, one row per (owner, lesson). get_lesson_permalink returns a
+-- row to anyone allowed to see it: everyone for public lessons, the owner,
+-- and viewers of a playlist the owner put the lesson in. It is also granted
+-- to anon so signed-out visitors and the OG image route can open public links.
+
+begin;
+
+create table if not exists public.lesson_permalinks (
+  id text primary key,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  lesson_id text not null,
+  subject text not null,
+  topic text,
+  title text not null,
+  difficulty text,
+  -- Full lesson payload as the learner saw it (content, questions, format fields)
+  lesson jsonb not null,
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (owner_id, lesson_id),
+  check (id ~ '^[A-Za-z0-9]{8,32}$')
+);
+
+create index if not exists lesson_permalinks_owner_idx
+  on public.lesson_permalinks (owner_id, created_at desc);
+
+alter table public.lesson_permalinks enable row level security;
+
+drop policy if exists "Users read own lesson permalinks" on public.lesson_permalinks;
+drop policy if exists "Users insert own lesson permalinks" on public.lesson_permalinks;
+drop policy if exists "Users update own lesson permalinks" on public.lesson_permalinks;
+drop policy if exists "Users delete own lesson permalinks" on public.lesson_permalinks;
+
+create policy "Users read own lesson permalinks"
+  on public.lesson_permalinks
+  for select
+  using (auth.uid() = owner_id);
+
+create policy "Users insert own lesson permalinks"
+  on public.lesson_permalinks
+  for insert
+  with check (auth.uid() = owner_id);
+
+create policy "Users update own lesson permalinks"
+  on public.lesson_permalinks
+  for update
+  using (auth.uid() = owner_id)
+  with check (auth.uid() = owner_id);
+
+create policy "Users delete own lesson permalinks"
+  on public.lesson_permalinks
+  for delete
+  using (auth.uid() = owner_id);
+
+create or replace function public.get_lesson_permalink(p_id text)
+returns table (
+  id text,
+  owner_id uuid,
+  lesson_id text,
+  subject text,
+  topic text,
+  title text,
+  difficulty text,
+  lesson jsonb,
+  is_public boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select lp.id, lp.owner_id, lp.lesson_id, lp.subject, lp.topic, lp.title, lp.difficulty,
+    lp.lesson, lp.is_public, lp.created_at, lp.updated_at
+  from public.lesson_permalinks lp
+  where lp.id = p_id
+    and (
+      lp.is_public = true
+      or lp.owner_id = auth.uid()
+      or exists (
+        select 1
+        from public.playlist_items pi
+        join public.playlists p on p.id = pi.playlist_id
+        where pi.lesson_id = lp.lesson_id
+          and p.user_id = lp.owner_id
+          and (
+            p.is_public = true
+            or p.user_id = auth.uid()
+            or exists (
+              select 1 from public.playlist_memberships pm
+              where pm.playlist_id = p.id and pm.profile_id = auth.uid()
+            )
+          )
+      )
+    )
+  limit 1;
+$$;
+
+revoke all on function public.get_lesson_permalink(text) from public;
+grant execute on function public.get_lesson_permalink(text) to anon, authenticated;
+
+commit;
@@ -0,0 +1,118 @@
+-- Migration: Admin console
+-- profiles.role gates /admin and /api/admin/*; the check happens server-side
+-- in lib/admin.ts, and the dashboards then read through the service role.
+-- Roles are granted by hand in SQL (update profiles set role = 'admin' ...);
+-- a trigger stops learners from setting their own role through the
+-- "Users can update own profile" policy or when creating their profile, the
+-- same way the billing columns are protected. admin_audit_log records every change made from the console
+-- (currently tier overrides) and is only readable with the service role.
+-- The admin_* functions aggregate usage_logs and attempts in SQL so the
+-- dashboards don't pull raw rows; they are granted to service_role only.
+
+begin;
+
+alter table public.profiles
+  add column if not exists role text not null default 'user';
+
+alter table public.profiles
+  drop constraint if exists profiles_role_check;
+
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('user', 'admin'));
+
+-- Roles are granted with the service role (or in SQL); ignore client edits and inserts
+create or replace function public.protect_profile_role_column()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.role := 'user';
+    else
+      new.role := old.role;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role_column on public.profiles;
+
+create trigger profiles_protect_role_column
+  before insert or update on public.profiles
+  for each row
+  execute function public.protect_profile_role_column();
+
+create table if not exists public.admin_audit_log (
+  id bigserial primary key,
+  admin_id uuid references auth.users (id) on delete set null,
+  target_user_id uuid references auth.users (id) on delete set null,
+  action text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_target_idx
+  on public.admin_audit_log (target_user_id, created_at desc);
+
+create index if not exists admin_audit_log_created_idx
+  on public.admin_audit_log (created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+-- Billable usage per model since p_since; pseudo "metric/..." rows are left out
+create or replace function public.admin_usage_by_model(p_since timestamptz)
+returns table (
+  model text,
+  requests bigint,
+  users bigint,
+  input_tokens bigint,
+  output_tokens bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    ul.model,
+    count(*)::bigint as requests,
+    count(distinct ul.user_id)::bigint as users,
+    coalesce(sum(ul.input_tokens), 0)::bigint as input_tokens,
+    coalesce(sum(ul.output_tokens), 0)::bigint as output_tokens
+  from public.usage_logs ul
+  where ul.created_at >= p_since
+    and ul.model not like 'metric/%'
+  group by ul.model
+  order by requests desc;
+$$;
+
+-- Learners with at least one quiz attempt in the last day, week and month
+create or replace function public.admin_active_user_counts()
+returns table (
+  day_active bigint,
+  week_active bigint,
+  month_active bigint,
+  new_last_week bigint,
+  total_users bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    (select count(distinct a.user_id) from public.attempts a where a.created_at >= now() - interval '1 day')::bigint,
+    (select count(distinct a.user_id) from public.attempts a where a.created_at >= now() - interval '7 days')::bigint,
+    (select count(distinct a.user_id) from public.attempts a where a.created_at >= now() - interval '30 days')::bigint,
+    (select count(*) from public.profiles p where p.created_at >= now() - interval '7 days')::bigint,
+    (select count(*) from public.profiles)::bigint;
+$$;
+
+revoke all on function public.admin_usage_by_model(timestamptz) from public, anon, authenticated;
+grant execute on function public.admin_usage_by_model(timestamptz) to service_role;
+revoke all on function public.admin_active_user_counts() from public, anon, authenticated;
+grant execute on function public.admin_active_user_counts() to service_role;
+
+commit;
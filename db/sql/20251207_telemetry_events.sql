@@ -0,0 +1,138 @@
+-- Migration: Telemetry events
+-- Operational metrics (generation latency, retries, fallbacks, cache lookups,
+-- OCR tier choice, compression ratios) get their own table instead of
+-- pseudo-model rows in usage_logs, which goes back to billable usage only.
+-- lib/telemetry.ts validates each event against the schema for its kind and
+-- writes them in batches with the service role: `label` is the dimension the
+-- dashboards group by (feature, cache, tier or provider) and `value` the
+-- kind's headline number (milliseconds, attempts, ratio, 1/0 for a hit).
+-- Learners can read their own events (the data export includes them); only
+-- the service role writes. telemetry_rollup() buckets events by hour, day or
+-- week (or 'all' for one row per kind and label over the whole window) with
+-- count, sum, average and percentiles of `value`.
+-- The old metric/ and client/ usage_logs rows are copied over and removed.
+
+begin;
+
+create table if not exists public.telemetry_events (
+  id bigserial primary key,
+  kind text not null,
+  label text not null default '',
+  value double precision,
+  user_id uuid references auth.users (id) on delete set null,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+alter table public.telemetry_events
+  drop constraint if exists telemetry_events_kind_check;
+
+alter table public.telemetry_events
+  add constraint telemetry_events_kind_check
+  check (kind in ('generation_latency', 'generation_retry', 'fallback_used', 'cache_lookup', 'ocr_tier', 'compression'));
+
+create index if not exists telemetry_events_kind_created_idx
+  on public.telemetry_events (kind, created_at desc);
+
+create index if not exists telemetry_events_kind_label_created_idx
+  on public.telemetry_events (kind, label, created_at desc);
+
+alter table public.telemetry_events enable row level security;
+
+drop policy if exists "Users can view own telemetry events" on public.telemetry_events;
+
+create policy "Users can view own telemetry events"
+  on public.telemetry_events
+  for select
+  using (auth.uid() = user_id);
+
+-- Events per bucket, kind and label since p_since; null p_kind / p_label match everything
+create or replace function public.telemetry_rollup(
+  p_since timestamptz,
+  p_kind text default null,
+  p_label text default null,
+  p_bucket text default 'day'
+)
+returns table (
+  bucket timestamptz,
+  kind text,
+  label text,
+  events bigint,
+  value_sum double precision,
+  value_avg double precision,
+  value_p50 double precision,
+  value_p95 double precision,
+  value_max double precision
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  if p_bucket not in ('hour', 'day', 'week', 'all') then
+    raise exception 'Unsupported bucket: %', p_bucket;
+  end if;
+
+  return query
+    select
+      case when p_bucket = 'all' then p_since else date_trunc(p_bucket, te.created_at) end as bucket,
+      te.kind,
+      te.label,
+      count(*)::bigint as events,
+      sum(te.value) as value_sum,
+      avg(te.value) as value_avg,
+      percentile_cont(0.5) within group (order by te.value) as value_p50,
+      percentile_cont(0.95) within group (order by te.value) as value_p95,
+      max(te.value) as value_max
+    from public.telemetry_events te
+    where te.created_at >= p_since
+      and (p_kind is null or te.kind = p_kind)
+      and (p_label is null or te.label = p_label)
+    group by 1, 2, 3
+    order by 1, 2, 3;
+end;
+$$;
+
+revoke all on function public.telemetry_rollup(timestamptz, text, text, text) from public, anon, authenticated;
+grant execute on function public.telemetry_rollup(timestamptz, text, text, text) to service_role;
+
+-- Backfill: level-map attempts rows kept the attempt count in input_tokens and
+-- a fallback flag in output_tokens; FYP latency rows kept everything in metadata
+insert into public.telemetry_events (kind, label, value, user_id, payload, created_at)
+select 'generation_retry', 'level-map', coalesce(ul.input_tokens, 0), ul.user_id,
+       jsonb_build_object('feature', 'level-map', 'attempts', coalesce(ul.input_tokens, 0)),
+       ul.created_at
+from public.usage_logs ul
+where ul.model in ('metric/level-map-attempts', 'metric/level_map_attempts', 'metric/level-map/attempts');
+
+insert into public.telemetry_events (kind, label, value, user_id, payload, created_at)
+select 'fallback_used', 'level-map', coalesce(ul.input_tokens, 0), ul.user_id,
+       jsonb_build_object(
+         'feature', 'level-map',
+         'reason', case when coalesce((ul.metadata ->> 'deterministicFallback')::boolean, false)
+                        then 'deterministic-map' else 'plain-text-retry' end,
+         'attempts', coalesce(ul.input_tokens, 0)
+       ),
+       ul.created_at
+from public.usage_logs ul
+where ul.model in ('metric/level-map-attempts', 'metric/level_map_attempts', 'metric/level-map/attempts')
+  and coalesce(ul.output_tokens, 0) > 0;
+
+insert into public.telemetry_events (kind, label, value, user_id, payload, created_at)
+select 'generation_latency', 'fyp-lesson', (ul.metadata ->> 'durationMs')::double precision, ul.user_id,
+       jsonb_build_object(
+         'feature', 'fyp-lesson',
+         'stage', ul.metadata ->> 'stage',
+         'durationMs', (ul.metadata ->> 'durationMs')::double precision,
+         'subject', ul.metadata ->> 'subject',
+         'status', ul.metadata -> 'status'
+       ),
+       ul.created_at
+from public.usage_logs ul
+where ul.model = 'client/fyp-latency'
+  and ul.metadata ? 'durationMs';
+
+delete from public.usage_logs
+where model like 'metric/%' or model like 'client/%';
+
+commit;
@@ -0,0 +1,95 @@
+-- Migration: Lesson quality verdicts
+-- Every generated lesson goes through the quality gate in lib/lesson-quality.ts:
+-- deterministic checks on the answer key (duplicate choices, "all of the
+-- above", the answer leaking into the prompt, broken LaTeX, explanations that
+-- point at another choice) and, when enabled, a second model solving each
+-- question. The verdict is stored here: 'passed', 'flagged' (warnings only)
+-- or 'rejected' (errors, including a solver disagreement). Rejected lessons
+-- are regenerated or replaced, and each attempt keeps its own row.
+-- user_pending_lessons rows now point at their verdict; a trigger refuses
+-- queue inserts without a verdict for the same learner and lesson id, or with
+-- a rejected one, so a bad lesson never reaches the pre-generated queue.
+-- Rows queued before this migration keep a null verdict_id.
+
+begin;
+
+create table if not exists public.lesson_quality_verdicts (
+  id bigserial primary key,
+  user_id uuid references auth.users (id) on delete cascade,
+  lesson_id text not null,
+  -- sha256 of the learner-visible lesson text, to spot the same lesson across attempts
+  lesson_hash text not null,
+  subject text,
+  topic text,
+  feature text not null default '',
+  status text not null,
+  issues jsonb not null default '[]'::jsonb,
+  -- null when the second-model solve did not run
+  solver jsonb,
+  attempt integer not null default 1,
+  created_at timestamptz not null default now()
+);
+
+alter table public.lesson_quality_verdicts
+  drop constraint if exists lesson_quality_verdicts_status_check;
+
+alter table public.lesson_quality_verdicts
+  add constraint lesson_quality_verdicts_status_check
+  check (status in ('passed', 'flagged', 'rejected'));
+
+create index if not exists lesson_quality_verdicts_user_lesson_idx
+  on public.lesson_quality_verdicts (user_id, lesson_id, created_at desc);
+
+create index if not exists lesson_quality_verdicts_status_created_idx
+  on public.lesson_quality_verdicts (status, created_at desc);
+
+alter table public.lesson_quality_verdicts enable row level security;
+
+drop policy if exists "Users can view own lesson verdicts" on public.lesson_quality_verdicts;
+drop policy if exists "Users can insert own lesson verdicts" on public.lesson_quality_verdicts;
+
+create policy "Users can view own lesson verdicts"
+  on public.lesson_quality_verdicts
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own lesson verdicts"
+  on public.lesson_quality_verdicts
+  for insert
+  with check (auth.uid() = user_id);
+
+alter table public.user_pending_lessons
+  add column if not exists verdict_id bigint references public.lesson_quality_verdicts (id) on delete set null;
+
+create or replace function public.enforce_pending_lesson_verdict()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_status text;
+begin
+  select lqv.status into v_status
+  from public.lesson_quality_verdicts lqv
+  where lqv.id = new.verdict_id
+    and lqv.user_id = new.user_id
+    and lqv.lesson_id = new.lesson ->> 'id';
+
+  if v_status is null then
+    raise exception 'Pending lesson % has no quality verdict', new.lesson ->> 'id';
+  end if;
+  if v_status = 'rejected' then
+    raise exception 'Pending lesson % failed the quality gate', new.lesson ->> 'id';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_pending_lessons_enforce_verdict on public.user_pending_lessons;
+
+create trigger user_pending_lessons_enforce_verdict
+  before insert or update of lesson, verdict_id on public.user_pending_lessons
+  for each row
+  execute function public.enforce_pending_lesson_verdict();
+
+commit;
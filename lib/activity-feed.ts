@@ -0,0 +1,172 @@
+// lib/activity-feed.ts
+// Append-only friend activity stream: writers for /api/attempt and study sessions, plus the paginated reader
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getNewlyUnlockedBadges, type BadgeStats } from "./badges";
+
+export const ACTIVITY_EVENT_TYPES = [
+  "lesson_completed",
+  "badge_unlocked",
+  "streak_milestone",
+  "playlist_published",
+  "study_session_confirmed",
+] as const;
+
+export type ActivityEventType = (typeof ACTIVITY_EVENT_TYPES)[number];
+
+export type ActivityVisibility = "friends" | "private";
+
+export type ActivitySharing = {
+  visibility: ActivityVisibility;
+  sharedTypes: ActivityEventType[];
+};
+
+export type ActivityEvent = {
+  id: number;
+  userId: string;
+  type: ActivityEventType;
+  payload: Record<string, unknown>;
+  createdAt: string;
+};
+
+// Streak badges already cover 3/7/14/30/60 days; milestones pick up from there
+export const STREAK_MILESTONES = [10, 25, 50, 100, 150, 200, 365, 500, 1000];
+
+export const ACTIVITY_PAGE_SIZE = 20;
+const MAX_ACTIVITY_PAGE_SIZE = 50;
+
+export function isActivityEventType(value: unknown): value is ActivityEventType {
+  return typeof value === "string" && (ACTIVITY_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function normalizeActivitySharing(raw: {
+  activity_visibility?: string | null;
+  activity_shared_types?: unknown;
+} | null): ActivitySharing {
+  const visibility: ActivityVisibility = raw?.activity_visibility === "private" ? "private" : "friends";
+  const sharedTypes = Array.isArray(raw?.activity_shared_types)
+    ? raw.activity_shared_types.filter(isActivityEventType)
+    : [...ACTIVITY_EVENT_TYPES];
+  return { visibility, sharedTypes };
+}
+
+export function normalizeActivityEvent(row: Record<string, unknown>): ActivityEvent | null {
+  const id = typeof row.id === "number" ? row.id : Number(row.id);
+  const userId = typeof row.user_id === "string" ? row.user_id : null;
+  if (!Number.isFinite(id) || !userId || !isActivityEventType(row.type)) return null;
+  const payload = row.payload && typeof row.payload === "object" ? (row.payload as Record<string, unknown>) : {};
+  return {
+    id,
+    userId,
+    type: row.type,
+    payload,
+    createdAt: typeof row.created_at === "string" ? row.created_at : new Date().toISOString(),
+  };
+}
+
+/**
+ * Append an event for `userId`. `sb` must be the service-role client: only
+ * server routes may write to the feed. A repeated dedupeKey is ignored, so
+ * one-off events can be recorded without checking first. Never throws: the
+ * feed is a side effect and must not fail the action that produced it.
+ */
+export async function recordActivityEvent(
+  sb: SupabaseClient,
+  userId: string,
+  type: ActivityEventType,
+  payload: Record<string, unknown>,
+  dedupeKey: string | null = null
+): Promise<void> {
+  const { error } = await sb.rpc("record_activity_event", {
+    p_user_id: userId,
+    p_type: type,
+    p_payload: payload,
+    p_dedupe_key: dedupeKey,
+  });
+  if (error) {
+    console.error("[activity-feed] recordActivityEvent error:", { type, error });
+  }
+}
+
+export function crossedStreakMilestones(previous: number, next: number): number[] {
+  return STREAK_MILESTONES.filter((milestone) => previous < milestone && next >= milestone);
+}
+
+/**
+ * Record what an attempt changed: the lesson completion (first finish only),
+ * badges crossed between the before/after stats, and streak milestones.
+ * `sb` must be the service-role client.
+ */
+export async function recordAttemptActivity(
+  sb: SupabaseClient,
+  userId: string,
+  attempt: {
+    lesson: { id: string; title: string | null; subject: string | null; correct: number; total: number } | null;
+    before: BadgeStats;
+    after: BadgeStats;
+    day: string;
+  }
+): Promise<void> {
+  const writes: Promise<void>[] = [];
+
+  if (attempt.lesson) {
+    const { id, title, subject, correct, total } = attempt.lesson;
+    writes.push(
+      recordActivityEvent(sb, userId, "lesson_completed", { lessonId: id, title, subject, correct, total }, `lesson:${id}`)
+    );
+  }
+
+  for (const badge of getNewlyUnlockedBadges(attempt.before, attempt.after)) {
+    writes.push(
+      recordActivityEvent(
+        sb,
+        userId,
+        "badge_unlocked",
+        { badgeId: badge.id, title: badge.title, tier: badge.tier },
+        `badge:${badge.id}`
+      )
+    );
+  }
+
+  const streakBefore = attempt.before.streak ?? 0;
+  const streakAfter = attempt.after.streak ?? 0;
+  for (const milestone of crossedStreakMilestones(streakBefore, streakAfter)) {
+    // A streak can reach the same milestone again after a break, so key by day
+    writes.push(
+      recordActivityEvent(sb, userId, "streak_milestone", { days: milestone }, `streak:${milestone}:${attempt.day}`)
+    );
+  }
+
+  await Promise.all(writes);
+}
+
+/**
+ * Friends' events, newest first. RLS decides which friends and event types
+ * are visible; `hiddenIds` drops muted users on top of that. Paging is keyset
+ * on id, so pass the last id of the previous page as `before`.
+ */
+export async function listFriendActivity(
+  sb: SupabaseClient,
+  userId: string,
+  options: { before?: number | null; limit?: number; hiddenIds?: Set<string> } = {}
+): Promise<{ events: ActivityEvent[]; nextCursor: number | null }> {
+  const limit = Math.min(MAX_ACTIVITY_PAGE_SIZE, Math.max(1, options.limit ?? ACTIVITY_PAGE_SIZE));
+  let query = sb
+    .from("activity_events")
+    .select("id, user_id, type, payload, created_at")
+    .neq("user_id", userId)
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (options.before) query = query.lt("id", options.before);
+  const hidden = Array.from(options.hiddenIds ?? []);
+  if (hidden.length) query = query.not("user_id", "in", `(${hidden.join(",")})`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const events = ((data as Record<string, unknown>[] | null) ?? [])
+    .map(normalizeActivityEvent)
+    .filter((event): event is ActivityEvent => !!event);
+  const nextCursor = events.length === limit ? events[events.length - 1].id : null;
+  return { events, nextCursor };
+}
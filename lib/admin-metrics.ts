@@ -0,0 +1,300 @@
+// lib/admin-metrics.ts
+// Dashboard numbers for the admin console: generation cost, level-map fallbacks,
+// shared cache hits, active learners, usage-limit hits and telemetry rollups
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SUBSCRIPTION_TIERS } from "./admin";
+import { loadTelemetryRollup, type TelemetryKind } from "./telemetry";
+import { calcCost, getPeriodDurationHours, getUsageLimit, type SubscriptionTier } from "./usage";
+
+export const ADMIN_METRICS_DEFAULT_DAYS = 7;
+export const ADMIN_METRICS_MAX_DAYS = 90;
+
+export type CostBreakdownRow = {
+  key: string;
+  requests: number;
+  users: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+};
+
+export type GenerationCostMetrics = {
+  totalCost: number;
+  totalRequests: number;
+  byModel: CostBreakdownRow[];
+  byProvider: CostBreakdownRow[];
+};
+
+export type LevelMapMetrics = {
+  totalRecords: number;
+  totalAttempts: number;
+  avgAttempts: number;
+  totalFallbacks: number;
+  fallbackRate: number;
+  byDay: {
+    date: string;
+    records: number;
+    attempts: number;
+    fallbacks: number;
+    avgAttempts: number;
+    fallbackRate: number;
+  }[];
+};
+
+export type CacheMetrics = {
+  documents: number;
+  uses: number;
+  hits: number;
+  hitRate: number;
+  pagesCached: number;
+  savingsUsd: number;
+  mostUsedTitle: string | null;
+  mostUsedCount: number;
+};
+
+export type ActiveUserMetrics = {
+  day: number;
+  week: number;
+  month: number;
+  newLastWeek: number;
+  total: number;
+};
+
+export type UsageLimitMetrics = {
+  // Learners whose current period budget is used up, per tier
+  atLimit: Record<SubscriptionTier, number>;
+  // Periods that ended after the budget ran out (usage_reset notifications) in the window
+  resets: number;
+};
+
+export type OperationalMetrics = {
+  latency: { label: string; events: number; p50Ms: number | null; p95Ms: number | null }[];
+  retries: { label: string; events: number; avgAttempts: number | null }[];
+  fallbacks: { label: string; events: number }[];
+  caches: { label: string; lookups: number; hitRate: number }[];
+  ocrTiers: { label: string; requests: number; pages: number }[];
+  compression: { label: string; passes: number; avgRatio: number | null }[];
+};
+
+export type AdminOverview = {
+  since: string;
+  windowDays: number;
+  costs: GenerationCostMetrics;
+  levelMap: LevelMapMetrics;
+  cache: CacheMetrics;
+  activeUsers: ActiveUserMetrics;
+  usageLimits: UsageLimitMetrics;
+  operational: OperationalMetrics;
+};
+
+function toNumber(value: unknown): number {
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) ? num : 0;
+}
+
+export function resolveMetricsWindow(daysParam: string | null, now: Date = new Date()) {
+  const parsed = Math.round(Number(daysParam ?? ADMIN_METRICS_DEFAULT_DAYS));
+  const days = Number.isFinite(parsed) ? Math.max(1, Math.min(ADMIN_METRICS_MAX_DAYS, parsed)) : ADMIN_METRICS_DEFAULT_DAYS;
+  return { days, since: new Date(now.getTime() - days * 24 * 3600_000) };
+}
+
+/**
+ * Which provider billed a usage_logs model. Most ids carry a provider prefix;
+ * the bare and vendor-prefixed ones are the ones listed in the PRICES table in
+ * lib/usage.ts.
+ */
+export function providerForModel(model: string): string {
+  const prefix = model.includes("/") ? model.split("/")[0].toLowerCase() : "";
+  if (["groq", "deepinfra", "fireworksai", "cerebras", "lightningai"].includes(prefix)) return prefix;
+  if (prefix === "openai" || prefix === "deepseek-ai") return "deepinfra";
+  if (["kokoro-tts", "deepseek-ocr", "whisper-large-v3-turbo"].includes(model)) return "deepinfra";
+  if (model === "gpt-oss-20b" || model === "gpt-oss-120b") return "groq";
+  return "other";
+}
+
+export async function loadGenerationCosts(service: SupabaseClient, since: Date): Promise<GenerationCostMetrics> {
+  const { data, error } = await service.rpc("admin_usage_by_model", { p_since: since.toISOString() });
+  if (error) throw error;
+
+  const byModel: CostBreakdownRow[] = ((data as Record<string, unknown>[] | null) ?? []).map((row) => {
+    const model = String(row.model ?? "unknown");
+    const inputTokens = toNumber(row.input_tokens);
+    const outputTokens = toNumber(row.output_tokens);
+    return {
+      key: model,
+      requests: toNumber(row.requests),
+      users: toNumber(row.users),
+      inputTokens,
+      outputTokens,
+      cost: calcCost(model, inputTokens, outputTokens),
+    };
+  });
+
+  const providers = new Map<string, CostBreakdownRow>();
+  for (const row of byModel) {
+    const key = providerForModel(row.key);
+    const cur = providers.get(key) ?? { key, requests: 0, users: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    cur.requests += row.requests;
+    // Distinct users don't add up across models; keep the largest as a lower bound
+    cur.users = Math.max(cur.users, row.users);
+    cur.inputTokens += row.inputTokens;
+    cur.outputTokens += row.outputTokens;
+    cur.cost += row.cost;
+    providers.set(key, cur);
+  }
+
+  byModel.sort((a, b) => b.cost - a.cost);
+  return {
+    totalCost: byModel.reduce((sum, row) => sum + row.cost, 0),
+    totalRequests: byModel.reduce((sum, row) => sum + row.requests, 0),
+    byModel,
+    byProvider: Array.from(providers.values()).sort((a, b) => b.cost - a.cost),
+  };
+}
+
+/**
+ * Level-map generation attempts and fallbacks. lib/learning-path.ts records a
+ * generation_retry event per map (value = model calls) and a fallback_used
+ * event when a degraded path produced it.
+ */
+export async function loadLevelMapMetrics(service: SupabaseClient, since: Date): Promise<LevelMapMetrics> {
+  const [retries, fallbacks] = await Promise.all([
+    loadTelemetryRollup(service, { since, kind: "generation_retry", label: "level-map" }),
+    loadTelemetryRollup(service, { since, kind: "fallback_used", label: "level-map" }),
+  ]);
+
+  const byDayMap = new Map<string, { records: number; attempts: number; fallbacks: number }>();
+  const dayOf = (bucket: string) => bucket.slice(0, 10) || "unknown";
+  for (const row of retries) {
+    const day = dayOf(row.bucket);
+    const cur = byDayMap.get(day) ?? { records: 0, attempts: 0, fallbacks: 0 };
+    cur.records += row.events;
+    cur.attempts += row.valueSum;
+    byDayMap.set(day, cur);
+  }
+  for (const row of fallbacks) {
+    const day = dayOf(row.bucket);
+    const cur = byDayMap.get(day) ?? { records: 0, attempts: 0, fallbacks: 0 };
+    cur.fallbacks += row.events;
+    byDayMap.set(day, cur);
+  }
+
+  const days = Array.from(byDayMap.entries()).sort(([a], [b]) => a.localeCompare(b));
+  const totalRecords = days.reduce((s, [, v]) => s + v.records, 0);
+  const totalAttempts = days.reduce((s, [, v]) => s + v.attempts, 0);
+  const totalFallbacks = days.reduce((s, [, v]) => s + v.fallbacks, 0);
+
+  return {
+    totalRecords,
+    totalAttempts,
+    avgAttempts: totalRecords ? totalAttempts / totalRecords : 0,
+    totalFallbacks,
+    fallbackRate: totalRecords ? totalFallbacks / totalRecords : 0,
+    byDay: days.map(([date, v]) => ({
+      date,
+      records: v.records,
+      attempts: v.attempts,
+      fallbacks: v.fallbacks,
+      avgAttempts: v.records ? v.attempts / v.records : 0,
+      fallbackRate: v.records ? v.fallbacks / v.records : 0,
+    })),
+  };
+}
+
+/** Shared OCR cache: every use after a document's first is a hit. */
+export async function loadCacheMetrics(service: SupabaseClient): Promise<CacheMetrics> {
+  const { data, error } = await service.rpc("get_shared_cache_stats");
+  if (error) throw error;
+  const row = ((data as Record<string, unknown>[] | null) ?? [])[0] ?? {};
+  const documents = toNumber(row.total_documents);
+  const uses = toNumber(row.total_usage_count);
+  const hits = Math.max(0, uses - documents);
+  return {
+    documents,
+    uses,
+    hits,
+    hitRate: uses ? hits / uses : 0,
+    pagesCached: toNumber(row.total_pages_cached),
+    savingsUsd: toNumber(row.total_savings_usd),
+    mostUsedTitle: typeof row.most_used_title === "string" ? row.most_used_title : null,
+    mostUsedCount: toNumber(row.most_used_count),
+  };
+}
+
+export async function loadActiveUsers(service: SupabaseClient): Promise<ActiveUserMetrics> {
+  const { data, error } = await service.rpc("admin_active_user_counts");
+  if (error) throw error;
+  const row = ((data as Record<string, unknown>[] | null) ?? [])[0] ?? {};
+  return {
+    day: toNumber(row.day_active),
+    week: toNumber(row.week_active),
+    month: toNumber(row.month_active),
+    newLastWeek: toNumber(row.new_last_week),
+    total: toNumber(row.total_users),
+  };
+}
+
+export async function loadUsageLimitMetrics(
+  service: SupabaseClient,
+  since: Date,
+  now: Date = new Date()
+): Promise<UsageLimitMetrics> {
+  const atLimit = { free: 0, plus: 0, premium: 0 } as Record<SubscriptionTier, number>;
+  await Promise.all(
+    SUBSCRIPTION_TIERS.map(async (tier) => {
+      // Periods reset lazily, so only count budgets spent in a period that is still running
+      const periodStartAfter = new Date(now.getTime() - getPeriodDurationHours(tier) * 3_600_000).toISOString();
+      let query = service
+        .from("profiles")
+        .select("id", { count: "exact", head: true })
+        .gte("period_cost", getUsageLimit(tier))
+        .gt("usage_period_start", periodStartAfter);
+      query = tier === "free" ? query.or("subscription_tier.eq.free,subscription_tier.is.null") : query.eq("subscription_tier", tier);
+      const { count, error } = await query;
+      if (error) throw error;
+      atLimit[tier] = count ?? 0;
+    })
+  );
+
+  const { count, error } = await service
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("type", "usage_reset")
+    .gte("created_at", since.toISOString());
+  if (error) throw error;
+
+  return { atLimit, resets: count ?? 0 };
+}
+
+/** Window totals per telemetry kind and label (feature, cache, OCR tier, compression model). */
+export async function loadOperationalMetrics(service: SupabaseClient, since: Date): Promise<OperationalMetrics> {
+  const rows = await loadTelemetryRollup(service, { since, bucket: "all" });
+  const ofKind = (kind: TelemetryKind) => rows.filter((row) => row.kind === kind).sort((a, b) => b.events - a.events);
+  return {
+    latency: ofKind("generation_latency").map((row) => ({
+      label: row.label,
+      events: row.events,
+      p50Ms: row.valueP50,
+      p95Ms: row.valueP95,
+    })),
+    retries: ofKind("generation_retry").map((row) => ({ label: row.label, events: row.events, avgAttempts: row.valueAvg })),
+    fallbacks: ofKind("fallback_used").map((row) => ({ label: row.label, events: row.events })),
+    // value is 1 for a hit, so the average is the hit rate
+    caches: ofKind("cache_lookup").map((row) => ({ label: row.label, lookups: row.events, hitRate: row.valueAvg ?? 0 })),
+    ocrTiers: ofKind("ocr_tier").map((row) => ({ label: row.label, requests: row.events, pages: row.valueSum })),
+    compression: ofKind("compression").map((row) => ({ label: row.label, passes: row.events, avgRatio: row.valueAvg })),
+  };
+}
+
+export async function loadAdminOverview(service: SupabaseClient, days: number, since: Date): Promise<AdminOverview> {
+  const [costs, levelMap, cache, activeUsers, usageLimits, operational] = await Promise.all([
+    loadGenerationCosts(service, since),
+    loadLevelMapMetrics(service, since),
+    loadCacheMetrics(service),
+    loadActiveUsers(service),
+    loadUsageLimitMetrics(service, since),
+    loadOperationalMetrics(service, since),
+  ]);
+  return { since: since.toISOString(), windowDays: days, costs, levelMap, cache, activeUsers, usageLimits, operational };
+}
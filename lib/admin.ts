@@ -0,0 +1,169 @@
+// lib/admin.ts
+// Admin console access: role check for /admin and /api/admin/*, user lookup and tier overrides
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseServer } from "./supabase-server";
+import { supabaseService } from "./supabase-service";
+import type { SubscriptionTier } from "./usage";
+
+export const SUBSCRIPTION_TIERS: SubscriptionTier[] = ["free", "plus", "premium"];
+const USER_SEARCH_LIMIT = 20;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class AdminError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 403) {
+    super(message);
+    this.name = "AdminError";
+    this.status = status;
+  }
+}
+
+export type AdminContext = {
+  adminId: string;
+  // Service role client; dashboards read across every learner
+  service: SupabaseClient;
+};
+
+export type AdminUserSummary = {
+  id: string;
+  username: string | null;
+  fullName: string | null;
+  role: "user" | "admin";
+  tier: SubscriptionTier;
+  subscriptionStatus: string | null;
+  points: number;
+  streak: number;
+  totalCost: number;
+  periodCost: number;
+  usagePeriodStart: string | null;
+  lastStudyDate: string | null;
+  createdAt: string | null;
+};
+
+const ADMIN_USER_COLUMNS =
+  "id, username, full_name, role, subscription_tier, points, streak, total_cost, period_cost, usage_period_start, last_study_date, created_at";
+
+/**
+ * Resolve the signed-in admin. Throws AdminError (401/403) for anyone
+ * else, so routes can answer with its status and pages can 404.
+ */
+export async function requireAdmin(): Promise<AdminContext> {
+  const sb = await supabaseServer();
+  const authState = await sb.auth.getUser();
+  const user = authState.data.user;
+  if (authState.error || !user) throw new AdminError("Not authenticated", 401);
+
+  const { data, error } = await sb.from("profiles").select("role").eq("id", user.id).maybeSingle();
+  if (error) throw error;
+  if ((data as { role?: string } | null)?.role !== "admin") {
+    throw new AdminError("Admin access required", 403);
+  }
+  return { adminId: user.id, service: supabaseService() };
+}
+
+export function isSubscriptionTier(value: unknown): value is SubscriptionTier {
+  return typeof value === "string" && (SUBSCRIPTION_TIERS as string[]).includes(value);
+}
+
+function toNumber(value: unknown): number {
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) ? num : 0;
+}
+
+function normalizeAdminUser(row: Record<string, unknown>): AdminUserSummary {
+  const asText = (value: unknown) => (typeof value === "string" && value ? value : null);
+  return {
+    id: String(row.id),
+    username: asText(row.username),
+    fullName: asText(row.full_name),
+    role: row.role === "admin" ? "admin" : "user",
+    tier: isSubscriptionTier(row.subscription_tier) ? row.subscription_tier : "free",
+    subscriptionStatus: asText(row.subscription_status),
+    points: toNumber(row.points),
+    streak: toNumber(row.streak),
+    totalCost: toNumber(row.total_cost),
+    periodCost: toNumber(row.period_cost),
+    usagePeriodStart: asText(row.usage_period_start),
+    lastStudyDate: asText(row.last_study_date),
+    createdAt: asText(row.created_at),
+  };
+}
+
+// Subscription status lives in billing_accounts, keyed by the same user id
+async function withSubscriptionStatus(
+  ctx: AdminContext,
+  rows: Record<string, unknown>[]
+): Promise<Record<string, unknown>[]> {
+  if (!rows.length) return rows;
+  const { data, error } = await ctx.service
+    .from("billing_accounts")
+    .select("user_id, subscription_status")
+    .in("user_id", rows.map((row) => String(row.id)));
+  if (error) throw error;
+  const statuses = new Map(
+    ((data as { user_id: string; subscription_status: string | null }[] | null) ?? []).map((row) => [
+      row.user_id,
+      row.subscription_status,
+    ])
+  );
+  return rows.map((row) => ({ ...row, subscription_status: statuses.get(String(row.id)) ?? null }));
+}
+
+/** Find learners by exact id, or by username / full name prefix. */
+export async function searchUsers(ctx: AdminContext, query: string): Promise<AdminUserSummary[]> {
+  const term = query.trim();
+  if (!term) return [];
+
+  let request = ctx.service.from("profiles").select(ADMIN_USER_COLUMNS);
+  if (UUID_RE.test(term)) {
+    request = request.eq("id", term);
+  } else {
+    const pattern = `${term.replace(/[%_,()\\]/g, "")}%`;
+    request = request.or(`username.ilike.${pattern},full_name.ilike.${pattern}`);
+  }
+  const { data, error } = await request.order("username", { ascending: true }).limit(USER_SEARCH_LIMIT);
+  if (error) throw error;
+  return (await withSubscriptionStatus(ctx, (data as Record<string, unknown>[] | null) ?? [])).map(normalizeAdminUser);
+}
+
+/**
+ * Override a learner's tier and record it in admin_audit_log. The Stripe
+ * webhook still owns paid subscriptions, so its next event for this learner
+ * replaces the override.
+ */
+export async function overrideUserTier(
+  ctx: AdminContext,
+  userId: string,
+  tier: SubscriptionTier,
+  reason: string | null
+): Promise<AdminUserSummary> {
+  if (!UUID_RE.test(userId)) throw new AdminError("User not found", 404);
+  const { data: current, error: currentError } = await ctx.service
+    .from("profiles")
+    .select("subscription_tier")
+    .eq("id", userId)
+    .maybeSingle();
+  if (currentError) throw currentError;
+  if (!current) throw new AdminError("User not found", 404);
+
+  const { data, error } = await ctx.service
+    .from("profiles")
+    .update({ subscription_tier: tier, updated_at: new Date().toISOString() })
+    .eq("id", userId)
+    .select(ADMIN_USER_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  const { error: auditError } = await ctx.service.from("admin_audit_log").insert({
+    admin_id: ctx.adminId,
+    target_user_id: userId,
+    action: "tier_override",
+    details: { from: (current as { subscription_tier: string | null }).subscription_tier ?? "free", to: tier, reason },
+  });
+  if (auditError) console.error("[admin] audit log insert failed:", auditError);
+
+  const [updated] = await withSubscriptionStatus(ctx, [data as Record<string, unknown>]);
+  return normalizeAdminUser(updated);
+}
@@ -0,0 +1,297 @@
+// lib/attempt-verification.ts
+// Server-side grading for /api/attempt: resolves the stored lesson behind an attempt
+// and claims each graded answer once so replays earn nothing
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { AnyQuestionSchema, type AnyQuestion } from "./schema";
+import { gradeQuestion } from "./question-types";
+import { supabaseService } from "./supabase-service";
+import type { ReviewRef } from "./review-queue";
+
+export type StoredLessonSource = "answer-key" | "review";
+
+export type StoredLesson = {
+  id: string;
+  source: StoredLessonSource;
+  subject: string | null;
+  topic: string | null;
+  title: string | null;
+  difficulty: string | null;
+  // Indexed like the lesson the learner saw; unparseable questions stay null
+  questions: (AnyQuestion | null)[];
+  // Review lessons only: where each question came from and whether it was due
+  refs?: (StoredReviewRef | null)[];
+};
+
+type StoredReviewRef = ReviewRef & { dueAt: string; due: boolean };
+
+export type GradedAnswer = {
+  questionIndex: number;
+  question: AnyQuestion;
+  correct: boolean;
+  // Ledger key; review answers are keyed per due date so each review round counts once
+  ledgerLessonId: string;
+  ledgerQuestionIndex: number;
+  // False for review questions that were not due yet
+  eligible: boolean;
+};
+
+const POINTS_PER_CORRECT: Record<string, number> = {
+  intro: 10,
+  easy: 10,
+  medium: 20,
+  hard: 30,
+};
+
+export function pointsPerCorrectFor(difficulty: string | null | undefined): number {
+  return (difficulty && POINTS_PER_CORRECT[difficulty]) || 10;
+}
+
+function parseQuestions(raw: unknown): (AnyQuestion | null)[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((entry) => {
+    const parsed = AnyQuestionSchema.safeParse(entry);
+    return parsed.success ? parsed.data : null;
+  });
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+type AnswerKeyLesson = {
+  id?: unknown;
+  subject?: unknown;
+  topic?: unknown;
+  title?: unknown;
+  difficulty?: unknown;
+  questions?: unknown;
+};
+
+/**
+ * Register the questions of lessons the server just generated so attempts on
+ * them can be graded. Keys are written with the service role and never
+ * overwritten, so a lesson id keeps the questions it was first generated with.
+ */
+export async function storeLessonAnswerKeys(
+  userId: string | null,
+  lessons: AnswerKeyLesson[]
+): Promise<void> {
+  const rows = lessons
+    .filter((lesson) => asString(lesson.id) && Array.isArray(lesson.questions))
+    .map((lesson) => ({
+      lesson_id: asString(lesson.id),
+      user_id: userId,
+      subject: asString(lesson.subject),
+      topic: asString(lesson.topic),
+      title: asString(lesson.title),
+      difficulty: asString(lesson.difficulty),
+      questions: lesson.questions,
+    }));
+  if (!rows.length) return;
+  try {
+    const { error } = await supabaseService()
+      .from("lesson_answer_keys")
+      .upsert(rows, { onConflict: "lesson_id", ignoreDuplicates: true });
+    if (error) {
+      console.error("[attempt-verification] answer key insert error:", error);
+    }
+  } catch (err) {
+    console.error("[attempt-verification] storeLessonAnswerKeys exception:", err);
+  }
+}
+
+/**
+ * Find the answer key of the lesson a learner just finished. `sb` must be the
+ * service-role client. Returns null when the server never generated the lesson
+ * (e.g. one-off uploads or shared lessons), in which case the attempt cannot be
+ * verified. Learner-writable copies (topic cache, pending queue, saved lessons,
+ * permalinks) are never graded against.
+ */
+export async function findStoredLesson(
+  sb: SupabaseClient,
+  lessonId: string
+): Promise<StoredLesson | null> {
+  try {
+    const { data, error } = await sb
+      .from("lesson_answer_keys")
+      .select("subject, topic, title, difficulty, questions")
+      .eq("lesson_id", lessonId)
+      .maybeSingle();
+    if (error) {
+      console.error("[attempt-verification] answer key lookup error:", error);
+      return null;
+    }
+    if (!data) return null;
+    const row = data as Record<string, unknown>;
+    return {
+      id: lessonId,
+      source: "answer-key",
+      subject: asString(row.subject),
+      topic: asString(row.topic),
+      title: asString(row.title),
+      difficulty: asString(row.difficulty),
+      questions: parseQuestions(row.questions),
+    };
+  } catch (err) {
+    console.error("[attempt-verification] findStoredLesson exception:", err);
+    return null;
+  }
+}
+
+/**
+ * Rebuild a review lesson: questions come from the answer keys, due dates from
+ * the learner's review queue. `sb` must be the service-role client. Questions
+ * that are not due yet are kept (so indices line up) but marked ineligible for
+ * points.
+ */
+export async function findReviewLesson(
+  sb: SupabaseClient,
+  userId: string,
+  lessonId: string,
+  refs: ReviewRef[],
+  now: Date = new Date()
+): Promise<StoredLesson | null> {
+  if (!refs.length) return null;
+  try {
+    const lessonIds = Array.from(new Set(refs.map((ref) => ref.lessonId)));
+    const [{ data, error }, { data: keyData, error: keyError }] = await Promise.all([
+      sb
+        .from("user_review_items")
+        .select("lesson_id, question_index, subject, due_at")
+        .eq("user_id", userId)
+        .in("lesson_id", lessonIds),
+      sb.from("lesson_answer_keys").select("lesson_id, questions").in("lesson_id", lessonIds),
+    ]);
+    if (error || keyError) {
+      console.error("[attempt-verification] review lookup error:", error ?? keyError);
+      return null;
+    }
+
+    const rows = new Map<string, Record<string, unknown>>();
+    for (const row of (data as Record<string, unknown>[] | null) ?? []) {
+      rows.set(`${row.lesson_id}#${row.question_index}`, row);
+    }
+    const keys = new Map<string, (AnyQuestion | null)[]>();
+    for (const row of (keyData as { lesson_id: string; questions: unknown }[] | null) ?? []) {
+      keys.set(row.lesson_id, parseQuestions(row.questions));
+    }
+
+    const questions: (AnyQuestion | null)[] = [];
+    const storedRefs: (StoredReviewRef | null)[] = [];
+    let subject: string | null = null;
+    for (const ref of refs) {
+      const row = rows.get(`${ref.lessonId}#${ref.questionIndex}`);
+      const question = row ? keys.get(ref.lessonId)?.[ref.questionIndex] ?? null : null;
+      questions.push(question);
+      if (!row || !question) {
+        storedRefs.push(null);
+        continue;
+      }
+      subject = subject ?? asString(row.subject);
+      const dueAt = String(row.due_at);
+      storedRefs.push({ ...ref, dueAt, due: Date.parse(dueAt) <= now.getTime() });
+    }
+    if (!questions.some(Boolean)) return null;
+
+    return {
+      id: lessonId,
+      source: "review",
+      subject,
+      topic: null,
+      title: null,
+      difficulty: "easy",
+      questions,
+      refs: storedRefs,
+    };
+  } catch (err) {
+    console.error("[attempt-verification] findReviewLesson exception:", err);
+    return null;
+  }
+}
+
+/**
+ * Grade submitted answers against a stored lesson. Only the indices listed in
+ * `indices` are graded (all questions when omitted); unanswered or unknown
+ * questions are skipped.
+ */
+export function gradeStoredLesson(
+  lesson: StoredLesson,
+  answers: unknown[],
+  indices?: number[]
+): GradedAnswer[] {
+  const targets = indices ?? lesson.questions.map((_, idx) => idx);
+  const graded: GradedAnswer[] = [];
+  for (const idx of targets) {
+    const question = lesson.questions[idx];
+    const answer = answers[idx];
+    if (!question || answer === null || answer === undefined) continue;
+    const ref = lesson.refs?.[idx];
+    if (lesson.refs && !ref) continue;
+    graded.push({
+      questionIndex: idx,
+      question,
+      correct: gradeQuestion(question, answer),
+      ledgerLessonId: ref ? `review:${ref.lessonId}@${ref.dueAt}` : lesson.id,
+      ledgerQuestionIndex: ref ? ref.questionIndex : idx,
+      eligible: ref ? ref.due : true,
+    });
+  }
+  return graded;
+}
+
+/**
+ * Record graded answers on the attempt_answers ledger. Returns the graded
+ * answers that were newly claimed; anything else is a replay.
+ */
+export async function claimGradedAnswers(
+  sb: SupabaseClient,
+  graded: GradedAnswer[]
+): Promise<GradedAnswer[]> {
+  const byLesson = new Map<string, GradedAnswer[]>();
+  for (const entry of graded) {
+    if (!entry.eligible) continue;
+    const bucket = byLesson.get(entry.ledgerLessonId) ?? [];
+    bucket.push(entry);
+    byLesson.set(entry.ledgerLessonId, bucket);
+  }
+
+  const claimed: GradedAnswer[] = [];
+  for (const [ledgerLessonId, entries] of byLesson) {
+    const { data, error } = await sb.rpc("claim_attempt_answers", {
+      p_lesson_id: ledgerLessonId,
+      p_answers: entries.map((entry) => ({
+        question_index: entry.ledgerQuestionIndex,
+        correct: entry.correct,
+      })),
+    });
+    if (error) {
+      // Fail closed: an unrecorded claim must not earn points
+      console.error("[attempt-verification] claim error:", error);
+      continue;
+    }
+    const claimedIndices = new Set(
+      ((data as { question_index: number }[] | null) ?? []).map((row) => row.question_index)
+    );
+    claimed.push(...entries.filter((entry) => claimedIndices.has(entry.ledgerQuestionIndex)));
+  }
+  return claimed;
+}
+
+/**
+ * Claim the lesson-level ledger row for finishing `lessonId`. Returns true only
+ * the first time, so attempts, "lessons" challenges, badges and activity count
+ * each lesson once however its answers are split across requests.
+ */
+export async function claimLessonFinish(sb: SupabaseClient, lessonId: string): Promise<boolean> {
+  const { data, error } = await sb.rpc("claim_attempt_answers", {
+    p_lesson_id: `finish:${lessonId}`,
+    p_answers: [{ question_index: 0, correct: true }],
+  });
+  if (error) {
+    // Fail closed like claimGradedAnswers
+    console.error("[attempt-verification] finish claim error:", error);
+    return false;
+  }
+  return ((data as unknown[] | null) ?? []).length > 0;
+}
@@ -0,0 +1,303 @@
+// lib/background-jobs/friend-suggestions.ts
+// Background job that ranks friend suggestions for every learner
+// Run daily (after update-cohorts) to refresh friend_suggestions
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@/lib/types_db";
+
+const PAGE_SIZE = 1000;
+// Upper bound per table scan; the job is meant for a single daily pass, not a warehouse
+const MAX_ROWS = 200_000;
+const SUGGESTIONS_PER_USER = 20;
+const WRITE_CHUNK = 500;
+// Users with more cohort-mates or course-mates than this only sample the first N
+const MAX_POOL_PER_GROUP = 200;
+
+// Weights sum to 1 so scores stay in 0..1
+const WEIGHTS = {
+  mutual: 0.4,
+  cohort: 0.25,
+  courses: 0.2,
+  mastery: 0.15,
+};
+
+type CourseState = { course: string; mastery: number | null };
+
+type Graph = {
+  friends: Map<string, Set<string>>;
+  excluded: Map<string, Set<string>>;      // pending requests, blocks, dismissals
+  cohorts: Map<string, Set<string>>;       // user -> cohort ids
+  cohortMembers: Map<string, string[]>;    // cohort id -> users
+  courses: Map<string, Map<string, CourseState>>; // user -> subject -> course state
+  courseMembers: Map<string, string[]>;    // course -> users
+};
+
+type SuggestionScore = {
+  candidateId: string;
+  score: number;
+  mutualCount: number;
+  sharedCohorts: string[];
+  sharedCourses: string[];
+  reasons: string[];
+};
+
+// ============================================================================
+// DATA LOADING
+// ============================================================================
+
+async function loadAll<T>(
+  supabase: SupabaseClient<Database>,
+  table: string,
+  columns: string,
+  orderBy: string[]
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let query = (supabase as any).from(table).select(columns);
+    for (const column of orderBy) query = query.order(column, { ascending: true });
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data as T[] | null) ?? [];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function addTo<K, V>(map: Map<K, Set<V>>, key: K, value: V) {
+  const set = map.get(key);
+  if (set) set.add(value);
+  else map.set(key, new Set([value]));
+}
+
+function pushTo<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+async function loadGraph(supabase: SupabaseClient<Database>): Promise<Graph> {
+  const [friendships, requests, blocks, dismissals, cohorts, states] = await Promise.all([
+    loadAll<{ user_a: string; user_b: string }>(supabase, "friendships", "user_a, user_b", ["id"]),
+    loadAll<{ sender_id: string; receiver_id: string; status: string }>(
+      supabase,
+      "friend_requests",
+      "sender_id, receiver_id, status",
+      ["id"]
+    ),
+    loadAll<{ blocker_id: string; blocked_id: string }>(supabase, "user_blocks", "blocker_id, blocked_id", [
+      "blocker_id",
+      "blocked_id",
+    ]),
+    loadAll<{ user_id: string; candidate_id: string }>(
+      supabase,
+      "friend_suggestion_dismissals",
+      "user_id, candidate_id",
+      ["user_id", "candidate_id"]
+    ),
+    loadAll<{ user_id: string; cohort_id: string }>(supabase, "user_cohorts", "user_id, cohort_id", [
+      "user_id",
+      "subject",
+    ]),
+    loadAll<{ user_id: string; subject: string; course: string; mastery: number | null }>(
+      supabase,
+      "user_subject_state",
+      "user_id, subject, course, mastery",
+      ["user_id", "subject"]
+    ),
+  ]);
+
+  const graph: Graph = {
+    friends: new Map(),
+    excluded: new Map(),
+    cohorts: new Map(),
+    cohortMembers: new Map(),
+    courses: new Map(),
+    courseMembers: new Map(),
+  };
+
+  for (const { user_a, user_b } of friendships) {
+    addTo(graph.friends, user_a, user_b);
+    addTo(graph.friends, user_b, user_a);
+  }
+  for (const { sender_id, receiver_id, status } of requests) {
+    if (status !== "pending") continue;
+    addTo(graph.excluded, sender_id, receiver_id);
+    addTo(graph.excluded, receiver_id, sender_id);
+  }
+  // Mutes are one-way, but suggesting either side to the other is still unwelcome
+  for (const { blocker_id, blocked_id } of blocks) {
+    addTo(graph.excluded, blocker_id, blocked_id);
+    addTo(graph.excluded, blocked_id, blocker_id);
+  }
+  for (const { user_id, candidate_id } of dismissals) {
+    addTo(graph.excluded, user_id, candidate_id);
+  }
+  for (const { user_id, cohort_id } of cohorts) {
+    addTo(graph.cohorts, user_id, cohort_id);
+    pushTo(graph.cohortMembers, cohort_id, user_id);
+  }
+  for (const { user_id, subject, course, mastery } of states) {
+    if (!course) continue;
+    const byUser = graph.courses.get(user_id) ?? new Map<string, CourseState>();
+    byUser.set(subject, { course, mastery: typeof mastery === "number" ? mastery : null });
+    graph.courses.set(user_id, byUser);
+    pushTo(graph.courseMembers, course, user_id);
+  }
+
+  return graph;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function cohortLabel(cohortId: string): string {
+  // Cohort ids look like "Math_advanced_fast_visual"; the subject is the useful part
+  return cohortId.split("_")[0] || cohortId;
+}
+
+function explain(mutualCount: number, sharedCourses: string[], sharedCohorts: string[], similarMastery: boolean): string[] {
+  const reasons: string[] = [];
+  if (mutualCount > 0) reasons.push(`${mutualCount} mutual friend${mutualCount === 1 ? "" : "s"}`);
+  if (sharedCourses.length) reasons.push(`also studying ${sharedCourses.slice(0, 2).join(" & ")}`);
+  if (sharedCohorts.length && !sharedCourses.length) {
+    reasons.push(`similar learner in ${cohortLabel(sharedCohorts[0])}`);
+  }
+  if (similarMastery) reasons.push("similar level");
+  return reasons;
+}
+
+/**
+ * Score one candidate for a user: mutual friends, a shared cohort, shared
+ * courses and how close their mastery is in those courses.
+ */
+function scoreCandidate(graph: Graph, userId: string, candidateId: string): SuggestionScore | null {
+  const myFriends = graph.friends.get(userId) ?? new Set<string>();
+  const theirFriends = graph.friends.get(candidateId) ?? new Set<string>();
+  let mutualCount = 0;
+  for (const id of myFriends) if (theirFriends.has(id)) mutualCount += 1;
+
+  const myCohorts = graph.cohorts.get(userId) ?? new Set<string>();
+  const sharedCohorts = Array.from(graph.cohorts.get(candidateId) ?? []).filter((id) => myCohorts.has(id));
+
+  const myCourses = graph.courses.get(userId) ?? new Map<string, CourseState>();
+  const theirCourses = graph.courses.get(candidateId) ?? new Map<string, CourseState>();
+  const sharedCourses: string[] = [];
+  const masteryGaps: number[] = [];
+  for (const [subject, mine] of myCourses) {
+    const theirs = theirCourses.get(subject);
+    if (!theirs || theirs.course !== mine.course) continue;
+    sharedCourses.push(mine.course);
+    if (mine.mastery !== null && theirs.mastery !== null) {
+      masteryGaps.push(Math.abs(mine.mastery - theirs.mastery));
+    }
+  }
+
+  if (!mutualCount && !sharedCohorts.length && !sharedCourses.length) return null;
+
+  const masterySimilarity = masteryGaps.length
+    ? 1 - Math.min(1, masteryGaps.reduce((sum, gap) => sum + gap, 0) / masteryGaps.length / 100)
+    : 0;
+  const score =
+    WEIGHTS.mutual * Math.min(1, mutualCount / 3) +
+    WEIGHTS.cohort * (sharedCohorts.length ? 1 : 0) +
+    WEIGHTS.courses * Math.min(1, sharedCourses.length / 2) +
+    WEIGHTS.mastery * masterySimilarity;
+
+  return {
+    candidateId,
+    score: Math.round(score * 1000) / 1000,
+    mutualCount,
+    sharedCohorts,
+    sharedCourses,
+    reasons: explain(mutualCount, sharedCourses, sharedCohorts, masterySimilarity >= 0.85),
+  };
+}
+
+function candidatesFor(graph: Graph, userId: string): Set<string> {
+  const pool = new Set<string>();
+  for (const friendId of graph.friends.get(userId) ?? []) {
+    for (const id of graph.friends.get(friendId) ?? []) pool.add(id);
+  }
+  for (const cohortId of graph.cohorts.get(userId) ?? []) {
+    for (const id of (graph.cohortMembers.get(cohortId) ?? []).slice(0, MAX_POOL_PER_GROUP)) pool.add(id);
+  }
+  for (const { course } of (graph.courses.get(userId) ?? new Map<string, CourseState>()).values()) {
+    for (const id of (graph.courseMembers.get(course) ?? []).slice(0, MAX_POOL_PER_GROUP)) pool.add(id);
+  }
+
+  pool.delete(userId);
+  for (const id of graph.friends.get(userId) ?? []) pool.delete(id);
+  for (const id of graph.excluded.get(userId) ?? []) pool.delete(id);
+  return pool;
+}
+
+function rankSuggestions(graph: Graph, userId: string): SuggestionScore[] {
+  return Array.from(candidatesFor(graph, userId))
+    .map((candidateId) => scoreCandidate(graph, userId, candidateId))
+    .filter((entry): entry is SuggestionScore => !!entry)
+    .sort((a, b) => b.score - a.score || b.mutualCount - a.mutualCount)
+    .slice(0, SUGGESTIONS_PER_USER);
+}
+
+// ============================================================================
+// MAIN JOB
+// ============================================================================
+
+/**
+ * Rebuild friend_suggestions for every learner with a friend, cohort or
+ * course. Rows not rewritten in this run (stale candidates) are removed.
+ */
+export async function runFriendSuggestionsJob(
+  supabase: SupabaseClient<Database>
+): Promise<{ users: number; suggestions: number }> {
+  console.log("[friend-suggestions] Starting friend suggestions job...");
+  const runStartedAt = new Date().toISOString();
+  const graph = await loadGraph(supabase);
+
+  const userIds = new Set<string>([...graph.friends.keys(), ...graph.cohorts.keys(), ...graph.courses.keys()]);
+  console.log(`[friend-suggestions] Ranking candidates for ${userIds.size} users`);
+
+  let pending: Database["public"]["Tables"]["friend_suggestions"]["Insert"][] = [];
+  let written = 0;
+  const flush = async () => {
+    if (!pending.length) return;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from("friend_suggestions")
+      .upsert(pending, { onConflict: "user_id,candidate_id" });
+    if (error) throw error;
+    written += pending.length;
+    pending = [];
+  };
+
+  for (const userId of userIds) {
+    for (const entry of rankSuggestions(graph, userId)) {
+      pending.push({
+        user_id: userId,
+        candidate_id: entry.candidateId,
+        score: entry.score,
+        mutual_count: entry.mutualCount,
+        shared_cohorts: entry.sharedCohorts,
+        shared_courses: entry.sharedCourses,
+        reasons: entry.reasons,
+        computed_at: new Date().toISOString(),
+      });
+    }
+    if (pending.length >= WRITE_CHUNK) await flush();
+  }
+  await flush();
+
+  const { error: cleanupError } = await supabase
+    .from("friend_suggestions")
+    .delete()
+    .lt("computed_at", runStartedAt);
+  if (cleanupError) {
+    console.error("[friend-suggestions] Error removing stale suggestions:", cleanupError);
+  }
+
+  console.log(`[friend-suggestions] Wrote ${written} suggestions`);
+  return { users: userIds.size, suggestions: written };
+}
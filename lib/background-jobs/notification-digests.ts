@@ -0,0 +1,88 @@
+// lib/background-jobs/notification-digests.ts
+// Background job that emails batched daily and weekly notification digests
+// Run daily; the route adds weekly digests on Mondays (UTC)
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@/lib/types_db";
+import { deliverNotificationDigest, type DigestFrequency } from "@/lib/notification-delivery";
+import { normalizeNotification, type AppNotification } from "@/lib/notifications";
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 100_000;
+const WRITE_CHUNK = 500;
+// Items listed in one email; the rest are still marked as emailed
+const MAX_ITEMS_PER_DIGEST = 20;
+// Anything older is stale news by the time a digest would go out
+const MAX_AGE_DAYS = 8;
+
+async function loadPending(
+  supabase: SupabaseClient<Database>,
+  frequency: DigestFrequency
+): Promise<Map<string, { ids: string[]; items: AppNotification[] }>> {
+  const since = new Date(Date.now() - MAX_AGE_DAYS * 86_400_000).toISOString();
+  const byUser = new Map<string, { ids: string[]; items: AppNotification[] }>();
+
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("notifications")
+      .select("id, user_id, type, title, body, url, read_at, created_at")
+      .eq("email_digest", frequency)
+      .is("emailed_at", null)
+      // Already seen in the inbox, so there's nothing to catch up on
+      .is("read_at", null)
+      .gte("created_at", since)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const rows = (data as (Record<string, unknown> & { user_id: string })[] | null) ?? [];
+
+    for (const row of rows) {
+      const notification = normalizeNotification(row);
+      if (!notification) continue;
+      const entry = byUser.get(row.user_id) ?? { ids: [], items: [] };
+      entry.ids.push(notification.id);
+      if (entry.items.length < MAX_ITEMS_PER_DIGEST) entry.items.push(notification);
+      byUser.set(row.user_id, entry);
+    }
+    if (rows.length < PAGE_SIZE) break;
+  }
+  return byUser;
+}
+
+export async function runNotificationDigestJob(
+  supabase: SupabaseClient<Database>,
+  frequencies: DigestFrequency[]
+): Promise<{ users: number; emailed: number; notifications: number }> {
+  console.log(`[notification-digests] Starting ${frequencies.join(" + ")} digests...`);
+  let users = 0;
+  let emailed = 0;
+  let notifications = 0;
+
+  for (const frequency of frequencies) {
+    const pending = await loadPending(supabase, frequency);
+    users += pending.size;
+
+    for (const [userId, entry] of pending) {
+      const sent = await deliverNotificationDigest(supabase, userId, entry.items, frequency);
+      // Left pending on failure so the next run retries
+      if (!sent) continue;
+      emailed += 1;
+      notifications += entry.ids.length;
+
+      const emailedAt = new Date().toISOString();
+      for (let i = 0; i < entry.ids.length; i += WRITE_CHUNK) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error } = await (supabase as any)
+          .from("notifications")
+          .update({ emailed_at: emailedAt })
+          .in("id", entry.ids.slice(i, i + WRITE_CHUNK));
+        if (error) {
+          console.error("[notification-digests] Error marking digest sent:", error);
+        }
+      }
+    }
+  }
+
+  console.log(`[notification-digests] Emailed ${emailed} digests covering ${notifications} notifications`);
+  return { users, emailed, notifications };
+}
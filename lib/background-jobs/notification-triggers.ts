@@ -0,0 +1,129 @@
+// lib/background-jobs/notification-triggers.ts
+// Background job for time-based notifications: streaks about to break and usage limits that have reset
+// Run hourly; dedupe keys make repeated runs safe
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@/lib/types_db";
+import { notifyUser } from "@/lib/notification-delivery";
+import { MAX_STREAK_FREEZES } from "@/lib/profile-stats";
+import { addDaysToDateKey, diffDateKeys, getZonedDayWindow, normalizeTimeZone } from "@/lib/timezone";
+import { getPeriodDurationHours, getTimeUntilReset, getUsageLimit, type SubscriptionTier } from "@/lib/usage";
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 200_000;
+// Warn when this little of the streak day is left
+const STREAK_WARNING_HOURS = 4;
+// Periods that ended longer ago than this are not announced (e.g. right after deploy)
+const USAGE_RESET_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const TIERS: SubscriptionTier[] = ["free", "plus", "premium"];
+
+/**
+ * Streaks follow each learner's local day (see resolveStreakActivity). A
+ * learner is warned in the last hours of their day when skipping it would
+ * end the streak, i.e. every day missed so far already used up a freeze.
+ */
+async function sendStreakWarnings(supabase: SupabaseClient<Database>, now: Date): Promise<number> {
+  // Local dates run up to a day either side of UTC, and freezes stretch how long ago a live streak was active
+  const earliest = addDaysToDateKey(now.toISOString().slice(0, 10), -(MAX_STREAK_FREEZES + 2));
+
+  let sent = 0;
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, streak, last_study_date, streak_freezes, timezone")
+      .gte("last_study_date", earliest)
+      .gt("streak", 0)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const rows = (data as {
+      id: string;
+      streak: number | null;
+      last_study_date: string | null;
+      streak_freezes: number | null;
+      timezone: string | null;
+    }[] | null) ?? [];
+
+    for (const row of rows) {
+      if (!row.last_study_date) continue;
+      const day = getZonedDayWindow(now, normalizeTimeZone(row.timezone));
+      const hoursLeft = (day.end.getTime() - now.getTime()) / 3_600_000;
+      if (hoursLeft > STREAK_WARNING_HOURS) continue;
+      if (diffDateKeys(row.last_study_date, day.key) !== (row.streak_freezes ?? 0) + 1) continue;
+
+      const streak = row.streak ?? 0;
+      const hoursLabel = Math.max(1, Math.ceil(hoursLeft));
+      const notification = await notifyUser(
+        row.id,
+        {
+          type: "streak_warning",
+          title: `Your ${streak}-day streak ends in ${hoursLabel} hour${hoursLabel === 1 ? "" : "s"}`,
+          body: "Finish one lesson today to keep it going.",
+          url: "/fyp",
+          dedupeKey: `streak_warning:${day.key}`,
+          data: { streak },
+        },
+        supabase
+      );
+      if (notification) sent += 1;
+    }
+    if (rows.length < PAGE_SIZE) break;
+  }
+  return sent;
+}
+
+/**
+ * Learners who used up their budget hear when the period is over. Periods
+ * reset lazily on the next request, so the spent period_cost is still there
+ * to find them by.
+ */
+async function sendUsageResets(supabase: SupabaseClient<Database>, now: Date): Promise<number> {
+  let sent = 0;
+  for (const tier of TIERS) {
+    const periodMs = getPeriodDurationHours(tier) * 3_600_000;
+    const endedBy = new Date(now.getTime() - periodMs).toISOString();
+    const endedAfter = new Date(now.getTime() - periodMs - USAGE_RESET_LOOKBACK_MS).toISOString();
+
+    for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+      let query = supabase
+        .from("profiles")
+        .select("id, usage_period_start")
+        .gte("period_cost", getUsageLimit(tier))
+        .gte("usage_period_start", endedAfter)
+        .lte("usage_period_start", endedBy);
+      query = tier === "free" ? query.or("subscription_tier.eq.free,subscription_tier.is.null") : query.eq("subscription_tier", tier);
+      const { data, error } = await query.order("id", { ascending: true }).range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      const rows = (data as { id: string; usage_period_start: string | null }[] | null) ?? [];
+
+      for (const row of rows) {
+        if (!row.usage_period_start || getTimeUntilReset(row.usage_period_start, tier) > 0) continue;
+        const notification = await notifyUser(
+          row.id,
+          {
+            type: "usage_reset",
+            title: "Your lesson limit has reset",
+            body: "You can generate new lessons again.",
+            url: "/generate",
+            dedupeKey: `usage_reset:${row.usage_period_start}`,
+          },
+          supabase
+        );
+        if (notification) sent += 1;
+      }
+      if (rows.length < PAGE_SIZE) break;
+    }
+  }
+  return sent;
+}
+
+export async function runNotificationTriggersJob(
+  supabase: SupabaseClient<Database>
+): Promise<{ streakWarnings: number; usageResets: number }> {
+  console.log("[notification-triggers] Starting notification triggers job...");
+  const now = new Date();
+  const streakWarnings = await sendStreakWarnings(supabase, now);
+  const usageResets = await sendUsageResets(supabase, now);
+  console.log(`[notification-triggers] Sent ${streakWarnings} streak warnings and ${usageResets} usage resets`);
+  return { streakWarnings, usageResets };
+}
@@ -329,6 +329,16 @@ export const ALL_BADGES: Record<string, BadgeDefinition & { target: number; stat
   },
 };
 
+export type BadgeStats = {
+  points?: number;
+  streak?: number;
+  lessons?: number;
+  accuracy?: number;
+  perfect?: number;
+  activeDays?: number;
+  questions?: number;
+};
+
 /**
  * Get badge information by ID
  */
@@ -341,15 +351,7 @@ export function getBadgeById(badgeId: string): (BadgeDefinition & { target: numb
  */
 export function isBadgeUnlocked(
   badgeId: string,
-  stats: {
-    points?: number;
-    streak?: number;
-    lessons?: number;
-    accuracy?: number;
-    perfect?: number;
-    activeDays?: number;
-    questions?: number;
-  }
+  stats: BadgeStats
 ): boolean {
   const badge = ALL_BADGES[badgeId];
   if (!badge) return false;
@@ -363,15 +365,7 @@ export function isBadgeUnlocked(
  */
 export function getBadgeProgress(
   badgeId: string,
-  stats: {
-    points?: number;
-    streak?: number;
-    lessons?: number;
-    accuracy?: number;
-    perfect?: number;
-    activeDays?: number;
-    questions?: number;
-  }
+  stats: BadgeStats
 ): number {
   const badge = ALL_BADGES[badgeId];
   if (!badge) return 0;
@@ -380,3 +374,16 @@ export function getBadgeProgress(
   const progress = Math.min(100, Math.round((currentValue / badge.target) * 100));
   return progress;
 }
+
+/**
+ * Badges unlocked by moving from one stats snapshot to the next
+ * (e.g. before and after an attempt). Stats missing from either snapshot
+ * are skipped rather than read as zero.
+ */
+export function getNewlyUnlockedBadges(before: BadgeStats, after: BadgeStats): BadgeDefinition[] {
+  return Object.values(ALL_BADGES).filter((badge) => {
+    const key = badge.statKey as keyof BadgeStats;
+    if (before[key] === undefined || after[key] === undefined) return false;
+    return !isBadgeUnlocked(badge.id, before) && isBadgeUnlocked(badge.id, after);
+  });
+}
@@ -5,48 +5,26 @@
  * and structured context across requests. Achieves ~30% input token savings for 3+ lessons.
  *
  * Key Optimizations:
- * - Single system prompt shared across all lessons
- * - Single structured context payload used for all generations
- * - Parallel API calls for maximum throughput
+ * - Lessons for one subject/topic come from a single API call (generateLessonSet)
+ * - Parallel API calls for mixed subjects/topics, or when the single call comes back short
  * - Graceful handling of partial failures
- * - Automatic fallback to sequential generation on errors
+ * - Every lesson carries its quality gate verdict (see lib/lesson-quality.ts)
+ *
+ * Prompting, validation and usage logging live in lib/lesson-generation.ts.
  */
 
-import OpenAI from "openai";
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Difficulty } from "@/types/placement";
-import { generateLessonForTopic } from "./fyp";
-import { buildLessonPrompts } from "./lesson-prompts";
-import { createModelClient, type UserTier, type ModelSpeed } from "./model-config";
-import { compressContext } from "./semantic-compression";
-import { LessonSchema, type Lesson } from "./schema";
-import { normalizeLatex } from "./latex";
-import { shuffleQuizQuestions } from "./quiz-shuffle";
-import { checkUsageLimit, logUsage } from "./usage";
-import { calculateDynamicTokenLimit, getBatchTokenLimit } from "./dynamic-token-limits";
-
-export type LessonOptions = {
-  pace?: "slow" | "normal" | "fast";
-  accuracyPct?: number;
-  difficultyPref?: Difficulty;
-  likedIds?: string[];
-  savedIds?: string[];
-  toneTags?: string[];
-  structuredContext?: Record<string, unknown>;
-  userTier?: UserTier;
-  modelSpeed?: ModelSpeed;
-  accuracyBand?: string;
-  knowledge?: {
-    definition?: string;
-    applications?: string[];
-    prerequisites?: string[];
-    reminders?: string[];
-  };
-  personalization?: {
-    style?: { prefer?: string[]; avoid?: string[] };
-    lessons?: { leanInto?: string[]; avoid?: string[]; saved?: string[] };
-  };
-};
+import type { Lesson } from "./schema";
+import { checkUsageLimit } from "./usage";
+import {
+  generateLessonSet,
+  runLessonGeneration,
+  type LessonGenerationOptions,
+  type LessonOptions,
+  type UsageSummary,
+} from "./lesson-generation";
+
+export type { LessonOptions };
 
 export type BatchLessonRequest = {
   subject: string;
@@ -63,472 +41,72 @@ export type BatchLessonResult = {
     input: number;
     output: number;
   };
+  // lesson_quality_verdicts row for `lesson`; required to queue it in user_pending_lessons
+  verdictId?: number;
 };
 
-type Pace = "slow" | "normal" | "fast";
-
-// Function calling tool schema for single lesson (matches main generator)
-const CREATE_LESSON_TOOL = {
-  type: "function" as const,
-  function: {
-    name: "create_lesson",
-    description: "Create a micro-lesson with questions for the specified topic",
-    parameters: {
-      type: "object",
-      properties: {
-        id: { type: "string", description: "Short slug identifier" },
-        subject: { type: "string", description: "Subject area" },
-        topic: { type: "string", description: "Specific topic" },
-        title: { type: "string", description: "Concise 3-7 word title" },
-        content: {
-          type: "string",
-          description: "Lesson content (80-105 words, max 900 chars)",
-          minLength: 180,
-        },
-        difficulty: {
-          type: "string",
-          enum: ["intro", "easy", "medium", "hard"],
-        },
-        questions: {
-          type: "array",
-          description: "Exactly three MCQs",
-          items: {
-            type: "object",
-            properties: {
-              prompt: { type: "string" },
-              choices: { type: "array", items: { type: "string" }, minItems: 4, maxItems: 4 },
-              correctIndex: { type: "number", minimum: 0, maximum: 3 },
-              explanation: { type: "string", maxLength: 280 },
-            },
-            required: ["prompt", "choices", "correctIndex", "explanation"],
-          },
-          minItems: 3,
-          maxItems: 3,
-        },
-      },
-      required: ["id", "subject", "topic", "title", "content", "difficulty", "questions"],
-    },
-  },
+export type BatchLessonOptions = {
+  qualityGate?: LessonGenerationOptions["qualityGate"];
 };
 
-// Function calling tool schema for batch generation (TRUE batching - single API call)
-const CREATE_LESSON_BATCH_TOOL = {
-  type: "function" as const,
-  function: {
-    name: "create_lesson_batch",
-    description: "Create multiple micro-lessons efficiently in a single call",
-    parameters: {
-      type: "object",
-      properties: {
-        lessons: {
-          type: "array",
-          description: "Array of lessons to generate",
-          items: {
-            type: "object",
-            properties: {
-              id: { type: "string", description: "Short slug identifier" },
-              subject: { type: "string", description: "Subject area" },
-              topic: { type: "string", description: "Specific topic" },
-              title: { type: "string", description: "Concise 3-7 word title" },
-              content: {
-                type: "string",
-                description: "Lesson content (80-105 words, max 900 chars)",
-                minLength: 180,
-              },
-              difficulty: {
-                type: "string",
-                enum: ["intro", "easy", "medium", "hard"],
-              },
-              questions: {
-                type: "array",
-                description: "Exactly three MCQs",
-                items: {
-                  type: "object",
-                  properties: {
-                    prompt: { type: "string" },
-                    choices: { type: "array", items: { type: "string" }, minItems: 4, maxItems: 4 },
-                    correctIndex: { type: "number", minimum: 0, maximum: 3 },
-                    explanation: { type: "string", maxLength: 280 },
-                  },
-                  required: ["prompt", "choices", "correctIndex", "explanation"],
-                },
-                minItems: 3,
-                maxItems: 3,
-              },
-            },
-            required: ["id", "subject", "topic", "title", "content", "difficulty", "questions"],
-          },
-        },
-      },
-      required: ["lessons"],
-    },
-  },
-};
-
-// Model support detection
-function modelSupportsFunctionCalling(model: string): boolean {
-  const override = process.env.FYP_ALLOW_FUNCTION_CALLING;
-  if (override) return override.toLowerCase() === "true";
-
-  // Groq's gpt-oss models have known issues with forced tool_choice
-  // Use JSON mode instead for more reliable structured output
-  if (model.includes("gpt-oss")) {
-    return false;
-  }
-
-  // Most OpenAI-compatible models support function calling
-  return !model.includes("text-") && !model.includes("gpt-3.5-turbo-instruct");
-}
-
-function modelSupportsJsonResponseFormat(model: string): boolean {
-  const override = process.env.FYP_ALLOW_JSON_RESPONSE;
-  if (override) return override.toLowerCase() === "true";
-
-  return !model.includes("text-") && !model.includes("instruct");
-}
-
-// Build structured context payload (matches main generator)
-function buildStructuredContextPayload(raw: Record<string, unknown>): Record<string, unknown> {
-  const payload: Record<string, unknown> = {};
-
-  if (raw.f) payload.f = raw.f;
-  if (raw.p) payload.p = raw.p;
-  if (raw.acc !== undefined) payload.acc = raw.acc;
-  if (raw.k) payload.k = raw.k;
-  if (raw.s) payload.s = raw.s;
-  if (raw.ar) payload.ar = raw.ar;
-
-  return payload;
-}
-
-// Build source text for lesson generation
-function buildSourceText(
-  subject: string,
-  topic: string,
-  pace: Pace,
-  accuracy: number | null,
-  difficulty: Difficulty,
-  opts: LessonOptions
-): string {
-  const parts: string[] = [];
-  parts.push(`Topic: ${topic}`);
-  parts.push(`Pace: ${pace}`);
-
-  if (accuracy !== null) {
-    parts.push(`Learner accuracy: ${accuracy}%`);
-  }
-
-  if (opts.knowledge?.definition) {
-    parts.push(`Definition: ${opts.knowledge.definition}`);
-  }
-
-  return parts.join("\n");
-}
-
-// Parse lesson from API response
-async function parseLessonFromResponse(
-  choice: OpenAI.ChatCompletion.Choice,
-  subject: string,
-  topic: string,
-  difficulty: Difficulty,
-  usedFunctionCall: boolean
-): Promise<Lesson | null> {
-  try {
-    let rawLesson: unknown;
-
-    if (usedFunctionCall) {
-      // Extract from function call
-      const toolCalls = choice.message.tool_calls;
-      if (!toolCalls || toolCalls.length === 0) {
-        console.warn("[batch] No tool calls in function calling response");
-        return null;
-      }
-
-      const toolCall = toolCalls[0];
-      if (toolCall.function.name !== "create_lesson") {
-        console.warn("[batch] Unexpected function name:", toolCall.function.name);
-        return null;
-      }
-
-      rawLesson = JSON.parse(toolCall.function.arguments);
-    } else {
-      // Extract from text content
-      const content = choice.message.content || "";
-
-      // Try parsing as JSON
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        rawLesson = JSON.parse(jsonMatch[0]);
-      } else {
-        console.warn("[batch] No JSON found in response");
-        return null;
-      }
-    }
-
-    // Validate with schema
-    const validated = LessonSchema.parse(rawLesson);
-
-    // Normalize LaTeX and shuffle questions
-    if (validated.content) validated.content = normalizeLatex(validated.content);
-    if (validated.title) validated.title = normalizeLatex(validated.title);
-    if (validated.topic) validated.topic = normalizeLatex(validated.topic);
-
-    if (validated.questions) {
-      validated.questions = validated.questions.map((q) => ({
-        ...q,
-        prompt: normalizeLatex(q.prompt),
-        explanation: normalizeLatex(q.explanation),
-        choices: q.choices.map((c) => normalizeLatex(c)),
-      }));
-      validated.questions = shuffleQuizQuestions(validated.questions);
-    }
-
-    return validated;
-  } catch (err) {
-    console.error("[batch] Failed to parse lesson:", err);
-    return null;
-  }
+function tokensFromUsage(usage: UsageSummary, lessons = 1) {
+  return {
+    input: Math.floor((usage?.input_tokens ?? 0) / lessons),
+    output: Math.floor((usage?.output_tokens ?? 0) / lessons),
+  };
 }
 
 /**
- * Generate multiple lessons in a TRUE batch with optimized token usage
- *
- * Uses a SINGLE API call to generate all lessons at once, achieving ~30% token savings
- * by sharing the system prompt across all lessons in one request.
+ * TRUE batching: every request shares one completion. Returns [] when the
+ * call fails so the caller can fall back to parallel generation.
  */
 async function generateLessonBatchSingleCall(
   sb: SupabaseClient,
   uid: string,
   ip: string,
   requests: BatchLessonRequest[],
-  client: OpenAI,
-  model: string,
-  modelIdentifier: string,
-  provider: string,
-  userTier: UserTier,
-  modelSpeed: ModelSpeed
+  options: BatchLessonOptions
 ): Promise<BatchLessonResult[]> {
   console.log(`[batch-single] Generating ${requests.length} lessons in SINGLE API call`);
-
-  // All requests should be for same subject/topic for true batching
   const firstReq = requests[0];
-  const allSameSubject = requests.every(r => r.subject === firstReq.subject);
-  const allSameTopic = requests.every(r => r.topic === firstReq.topic);
-
-  if (!allSameSubject || !allSameTopic) {
-    console.warn('[batch-single] Mixed subjects/topics - falling back to parallel');
-    return []; // Caller will fallback to parallel
-  }
-
-  const pace: Pace = firstReq.opts.pace ?? "normal";
-  const accuracy = typeof firstReq.opts.accuracyPct === "number"
-    ? Math.max(0, Math.min(100, Math.round(firstReq.opts.accuracyPct)))
-    : null;
-  const difficulty: Difficulty =
-    firstReq.opts.difficultyPref ??
-    (accuracy != null
-      ? (accuracy < 50 ? "intro" : accuracy < 70 ? "easy" : accuracy < 85 ? "medium" : "hard")
-      : "easy");
-
-  const tempMin = Number(process.env.CEREBRAS_LESSON_TEMPERATURE_MIN ?? "0.3") || 0.3;
-  const tempMax = Number(process.env.CEREBRAS_LESSON_TEMPERATURE_MAX ?? "0.5") || 0.5;
-  const tempDefault = Number(process.env.CEREBRAS_LESSON_TEMPERATURE ?? "0.4") || 0.4;
-  const temperature = Math.max(tempMin, Math.min(tempMax, tempDefault));
-
-  const enableCompression = process.env.ENABLE_SEMANTIC_COMPRESSION === 'true';
-  const compressionRate = Number(process.env.SEMANTIC_COMPRESSION_RATE ?? '0.65');
-
-  // Build source text (shared)
-  let sourceText = buildSourceText(firstReq.subject, firstReq.topic, pace, accuracy, difficulty, firstReq.opts);
-
-  if (enableCompression && sourceText.length > 500) {
-    try {
-      const compressionResult = await compressContext(sourceText, {
-        rate: compressionRate,
-        preserve: [firstReq.subject, firstReq.topic, difficulty],
-        useCache: true,
-        temperature: 0.1,
-      });
-      sourceText = compressionResult.compressed;
-    } catch (err) {
-      console.warn('[batch-single] Compression failed:', err);
-    }
-  }
-
-  // Build prompts (shared system prompt!)
-  const { system: systemPrompt, user: userPromptTemplate } = buildLessonPrompts({
-    subject: firstReq.subject,
-    difficulty,
-    sourceText,
-  });
-
-  // Build structured context (shared)
-  let structuredContextJson = firstReq.opts.structuredContext
-    ? JSON.stringify(buildStructuredContextPayload(firstReq.opts.structuredContext))
-    : null;
-
-  if (enableCompression && structuredContextJson && structuredContextJson.length > 600) {
-    try {
-      const compressionResult = await compressContext(structuredContextJson, {
-        rate: compressionRate,
-        useCache: true,
-        temperature: 0.1,
-      });
-      structuredContextJson = compressionResult.compressed;
-    } catch (err) {
-      console.warn('[batch-single] Context compression failed:', err);
-    }
-  }
-
-  // Build batch request
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
-    { role: "system", content: systemPrompt }, // SHARED SYSTEM PROMPT!
-  ];
-
-  if (structuredContextJson) {
-    messages.push({
-      role: "user",
-      content: `Structured context JSON:\n${structuredContextJson}`, // SHARED CONTEXT!
-    });
-  }
-
-  // Request multiple lessons in one user message
-  const batchPrompt = `${userPromptTemplate}\n\nGenerate ${requests.length} DISTINCT lessons for this topic, each with unique approaches and examples. Call create_lesson_batch with an array of ${requests.length} complete lessons.`;
-  messages.push({ role: "user", content: batchPrompt });
-
-  // OPTIMIZED: Dynamic token limit for batch (TRUE batching efficiency)
-  const singleLessonLimit = calculateDynamicTokenLimit({
-    subject: firstReq.subject,
-    topic: firstReq.topic,
-    difficulty,
-    questionCount: 3,
-  }).maxTokens;
-
-  const batchTokenLimit = getBatchTokenLimit(requests.length, singleLessonLimit, true);
-
-  const completionMaxTokens = Math.min(
-    4096,
-    Math.max(900 * requests.length, Number(process.env.CEREBRAS_LESSON_MAX_TOKENS) || batchTokenLimit),
-  );
-
-  console.log('[batch-single] Dynamic token limit:', {
-    perLesson: singleLessonLimit,
-    batchSize: requests.length,
-    calculated: batchTokenLimit,
-    final: completionMaxTokens,
-  });
 
   try {
-    // Use prompt-based JSON generation (Groq's gpt-oss models don't support json_schema)
-    const completion = await client.chat.completions.create({
-      model,
-      temperature,
-      max_tokens: completionMaxTokens,
-      messages,
-    });
-
-    const choice = completion.choices?.[0];
-    if (!choice) {
-      throw new Error("No completion choice returned");
-    }
-
-    const content = choice.message.content;
-    if (!content || typeof content !== 'string') {
-      throw new Error("No content in response");
-    }
-
-    const batchData = JSON.parse(content);
-    const lessons = batchData.lessons as unknown[];
-
-    if (!Array.isArray(lessons) || lessons.length === 0) {
-      throw new Error("No lessons in batch response");
-    }
-
-    // Parse and validate each lesson
-    const results: BatchLessonResult[] = [];
-    const inputTokens = completion.usage?.prompt_tokens ?? 0;
-    const outputTokens = completion.usage?.completion_tokens ?? 0;
-    const tokensPerLesson = {
-      input: Math.floor(inputTokens / lessons.length),
-      output: Math.floor(outputTokens / lessons.length),
-    };
-
-    for (let i = 0; i < requests.length; i++) {
-      const req = requests[i];
-      const rawLesson = lessons[i];
-
-      if (!rawLesson) {
-        results.push({
-          success: false,
-          error: "Lesson not in batch response",
-          request: req,
-        });
-        continue;
-      }
-
-      try {
-        const validated = LessonSchema.parse(rawLesson);
-
-        // Normalize LaTeX and shuffle questions
-        if (validated.content) validated.content = normalizeLatex(validated.content);
-        if (validated.title) validated.title = normalizeLatex(validated.title);
-        if (validated.topic) validated.topic = normalizeLatex(validated.topic);
-
-        if (validated.questions) {
-          validated.questions = validated.questions.map((q) => ({
-            ...q,
-            prompt: normalizeLatex(q.prompt),
-            explanation: normalizeLatex(q.explanation),
-            choices: q.choices.map((c) => normalizeLatex(c)),
-          }));
-          validated.questions = shuffleQuizQuestions(validated.questions);
-        }
-
-        results.push({
-          success: true,
-          lesson: validated,
-          request: req,
-          tokensUsed: tokensPerLesson,
-        });
-      } catch (err) {
-        results.push({
-          success: false,
-          error: err instanceof Error ? err.message : "Validation failed",
-          request: req,
-        });
+    const { lessons, usage, verdicts } = await generateLessonSet(
+      sb,
+      uid,
+      ip,
+      { kind: "topic", subject: firstReq.subject, topic: firstReq.topic },
+      requests.length,
+      {
+        ...firstReq.opts,
+        format: "micro",
+        qualityGate: options.qualityGate,
+        usage: {
+          feature: "batch-lesson-single-call",
+          route: "batch",
+          metadata: { batchSize: requests.length, tokenSavings: "~30%" },
+        },
       }
-    }
+    );
+    const tokensPerLesson = tokensFromUsage(usage, Math.max(1, lessons.length));
 
-    // Log usage for the batch
-    if (uid) {
-      try {
-        await logUsage(sb, uid, ip, modelIdentifier, {
-          input_tokens: inputTokens,
-          output_tokens: outputTokens,
-        }, {
-          metadata: {
-            feature: "batch-lesson-single-call",
-            batchSize: requests.length,
-            subject: firstReq.subject,
-            topic: firstReq.topic,
-            difficulty,
-            provider,
-            tier: userTier,
-            modelSpeed,
-            tokenSavings: "~30%",
-          }
-        });
-      } catch (usageErr) {
-        console.warn('[batch-single] Usage logging failed:', usageErr);
+    const results = requests.map((req, idx): BatchLessonResult => {
+      const lesson = lessons[idx];
+      const verdict = verdicts[idx];
+      if (lesson) {
+        return { success: true, lesson: lesson as Lesson, request: req, tokensUsed: tokensPerLesson, verdictId: verdict?.id ?? undefined };
       }
-    }
+      const error = verdict?.status === "rejected"
+        ? "Failed quality checks"
+        : idx < lessons.length ? "Validation failed" : "Lesson not in batch response";
+      return { success: false, error, request: req };
+    });
 
     console.log('[batch-single] Success:', {
       generated: results.filter(r => r.success).length,
       failed: results.filter(r => !r.success).length,
-      inputTokens,
-      outputTokens,
-      avgInputPerLesson: Math.round(inputTokens / lessons.length),
+      inputTokens: usage?.input_tokens ?? null,
+      outputTokens: usage?.output_tokens ?? null,
     });
 
     return results;
@@ -548,44 +126,20 @@ async function generateLessonBatchSingleCall(
  * @param uid - User ID
  * @param ip - IP address for logging
  * @param requests - Array of lesson requests to generate
+ * @param options - Quality gate settings passed to every generation
  * @returns Array of results (success or error for each request)
  */
 export async function generateLessonBatch(
   sb: SupabaseClient,
   uid: string,
   ip: string,
-  requests: BatchLessonRequest[]
+  requests: BatchLessonRequest[],
+  options: BatchLessonOptions = {}
 ): Promise<BatchLessonResult[]> {
   if (requests.length === 0) {
     return [];
   }
 
-  // If only one request, use standard generator
-  if (requests.length === 1) {
-    const req = requests[0];
-    try {
-      const lesson = await generateLessonForTopic(
-        sb,
-        uid,
-        ip,
-        req.subject,
-        req.topic,
-        req.opts
-      );
-      return [{
-        success: true,
-        lesson,
-        request: req,
-      }];
-    } catch (err) {
-      return [{
-        success: false,
-        error: err instanceof Error ? err.message : "Generation failed",
-        request: req,
-      }];
-    }
-  }
-
   // Check usage limit
   if (uid) {
     const allowed = await checkUsageLimit(sb, uid);
@@ -594,13 +148,6 @@ export async function generateLessonBatch(
     }
   }
 
-  // Get shared configuration from first request (all should have same tier/speed for batching)
-  const firstOpts = requests[0].opts;
-  const userTier = firstOpts.userTier || 'free';
-  const modelSpeed = firstOpts.modelSpeed || 'fast';
-
-  const { client, model, modelIdentifier, provider } = createModelClient(userTier, modelSpeed);
-
   // Check if all requests are for same subject/topic (TRUE batching eligible)
   const firstReq = requests[0];
   const allSameSubject = requests.every(r => r.subject === firstReq.subject);
@@ -609,18 +156,7 @@ export async function generateLessonBatch(
 
   if (enableTrueBatching) {
     console.log(`[batch] Attempting TRUE batching (single API call for ~30% savings)`);
-    const singleCallResults = await generateLessonBatchSingleCall(
-      sb,
-      uid,
-      ip,
-      requests,
-      client,
-      model,
-      modelIdentifier,
-      provider,
-      userTier,
-      modelSpeed
-    );
+    const singleCallResults = await generateLessonBatchSingleCall(sb, uid, ip, requests, options);
 
     // If single call succeeded for all or most lessons, return results
     if (singleCallResults.length > 0) {
@@ -641,192 +177,26 @@ export async function generateLessonBatch(
   // Fallback: Parallel generation (still faster than sequential, but no token savings)
   console.log(`[batch] Using PARALLEL generation (${requests.length} concurrent API calls)`);
 
-  // OPTIMIZED: Calculate average token limit for parallel generation
-  const avgTokenLimit = Math.round(
-    requests.reduce((sum, req) => {
-      const limit = calculateDynamicTokenLimit({
-        subject: req.subject,
-        topic: req.topic,
-        difficulty: req.opts.difficultyPref,
-        questionCount: 3,
-      }).maxTokens;
-      return sum + limit;
-    }, 0) / requests.length
-  );
-
-  const completionMaxTokens = Math.min(
-    4096,
-    Math.max(900, Number(process.env.CEREBRAS_LESSON_MAX_TOKENS) || avgTokenLimit),
-  );
-
-  console.log('[batch] Dynamic average token limit:', {
-    calculated: avgTokenLimit,
-    final: completionMaxTokens,
-    requestCount: requests.length,
-  });
-
-  const functionCallingSupported = modelSupportsFunctionCalling(model);
-  const jsonResponseSupported = modelSupportsJsonResponseFormat(model);
-
-  // Use function calling if supported (most efficient)
-  const useFunctionCall = functionCallingSupported;
-
-  console.log('[batch] Config:', {
-    requestCount: requests.length,
-    userTier,
-    modelSpeed,
-    provider,
-    model,
-    useFunctionCall,
-  });
-
-  // Prepare shared components (used by all requests)
-  const enableCompression = process.env.ENABLE_SEMANTIC_COMPRESSION === 'true';
-  const compressionRate = Number(process.env.SEMANTIC_COMPRESSION_RATE ?? '0.65');
-
-  // Build lessons in parallel
   const results = await Promise.allSettled(
     requests.map(async (req, idx): Promise<BatchLessonResult> => {
       try {
-        const pace: Pace = req.opts.pace ?? "normal";
-        const accuracy = typeof req.opts.accuracyPct === "number"
-          ? Math.max(0, Math.min(100, Math.round(req.opts.accuracyPct)))
-          : null;
-        const difficulty: Difficulty =
-          req.opts.difficultyPref ??
-          (accuracy != null
-            ? (accuracy < 50 ? "intro" : accuracy < 70 ? "easy" : accuracy < 85 ? "medium" : "hard")
-            : "easy");
-
-        // Derive temperature (shared approach)
-        const tempMin = Number(process.env.CEREBRAS_LESSON_TEMPERATURE_MIN ?? "0.3") || 0.3;
-        const tempMax = Number(process.env.CEREBRAS_LESSON_TEMPERATURE_MAX ?? "0.5") || 0.5;
-        const tempDefault = Number(process.env.CEREBRAS_LESSON_TEMPERATURE ?? "0.4") || 0.4;
-        const temperature = Math.max(tempMin, Math.min(tempMax, tempDefault));
-
-        // Build source text
-        let sourceText = buildSourceText(req.subject, req.topic, pace, accuracy, difficulty, req.opts);
-
-        // Apply semantic compression if enabled
-        if (enableCompression && sourceText.length > 500) {
-          try {
-            const compressionResult = await compressContext(sourceText, {
-              rate: compressionRate,
-              preserve: [req.subject, req.topic, difficulty],
-              useCache: true,
-              temperature: 0.1,
-            });
-            sourceText = compressionResult.compressed;
-          } catch (err) {
-            console.warn(`[batch][${idx}] Compression failed:`, err);
+        // A single request keeps the built-in lesson fallback, like the FYP feed
+        const { lesson, usage, verdict } = await runLessonGeneration(
+          sb,
+          uid,
+          ip,
+          { kind: "topic", subject: req.subject, topic: req.topic },
+          {
+            ...req.opts,
+            format: "micro",
+            allowFallback: requests.length === 1,
+            qualityGate: options.qualityGate,
+            usage: requests.length === 1
+              ? { feature: "fyp-lesson", route: "fyp" }
+              : { feature: "batch-lesson", route: "batch", metadata: { batchIndex: idx, batchSize: requests.length } },
           }
-        }
-
-        // Build prompts
-        const { system: systemPrompt, user: userPrompt } = buildLessonPrompts({
-          subject: req.subject,
-          difficulty,
-          sourceText,
-        });
-
-        // Build structured context
-        let structuredContextJson = req.opts.structuredContext
-          ? JSON.stringify(buildStructuredContextPayload(req.opts.structuredContext))
-          : null;
-
-        // Compress structured context if enabled
-        if (enableCompression && structuredContextJson && structuredContextJson.length > 600) {
-          try {
-            const compressionResult = await compressContext(structuredContextJson, {
-              rate: compressionRate,
-              useCache: true,
-              temperature: 0.1,
-            });
-            structuredContextJson = compressionResult.compressed;
-          } catch (err) {
-            console.warn(`[batch][${idx}] Context compression failed:`, err);
-          }
-        }
-
-        // Build messages
-        const messages: OpenAI.ChatCompletionMessageParam[] = [
-          { role: "system", content: systemPrompt },
-        ];
-
-        if (structuredContextJson) {
-          messages.push({
-            role: "user",
-            content: `Structured context JSON:\n${structuredContextJson}`,
-          });
-        }
-
-        messages.push({ role: "user", content: userPrompt });
-
-        // Make API call
-        const payload: OpenAI.ChatCompletionCreateParams = {
-          model,
-          temperature,
-          max_tokens: completionMaxTokens,
-          messages,
-          ...(useFunctionCall
-            ? {
-                tools: [CREATE_LESSON_TOOL],
-                tool_choice: { type: "function" as const, function: { name: "create_lesson" } }
-              }
-            : jsonResponseSupported
-              ? { response_format: { type: "json_object" as const } }
-              : {}
-          ),
-        };
-
-        const completion = await client.chat.completions.create(payload);
-
-        // Parse response
-        const choice = completion.choices?.[0];
-        if (!choice) {
-          throw new Error("No completion choice returned");
-        }
-
-        const lesson = await parseLessonFromResponse(
-          choice,
-          req.subject,
-          req.topic,
-          difficulty,
-          useFunctionCall
         );
-
-        if (!lesson) {
-          throw new Error("Failed to parse lesson from response");
-        }
-
-        // Log usage
-        const tokensUsed = {
-          input: completion.usage?.prompt_tokens ?? 0,
-          output: completion.usage?.completion_tokens ?? 0,
-        };
-
-        if (uid) {
-          try {
-            await logUsage(sb, uid, ip, modelIdentifier, {
-              input_tokens: tokensUsed.input,
-              output_tokens: tokensUsed.output,
-            }, {
-              metadata: {
-                feature: "batch-lesson",
-                batchIndex: idx,
-                batchSize: requests.length,
-                subject: req.subject,
-                topic: req.topic,
-                difficulty,
-                provider,
-                tier: userTier,
-                modelSpeed,
-              }
-            });
-          } catch (usageErr) {
-            console.warn(`[batch][${idx}] Usage logging failed:`, usageErr);
-          }
-        }
+        const tokensUsed = tokensFromUsage(usage);
 
         console.log(`[batch][${idx}] Success:`, {
           lessonId: lesson.id,
@@ -835,9 +205,10 @@ export async function generateLessonBatch(
 
         return {
           success: true,
-          lesson,
+          lesson: lesson as Lesson,
           request: req,
           tokensUsed,
+          verdictId: verdict?.id ?? undefined,
         };
       } catch (err) {
         console.error(`[batch][${idx}] Failed:`, err);
@@ -0,0 +1,28 @@
+// lib/billing-accounts.ts
+// Reads the learner's Stripe billing state from billing_accounts (service role only, see
+// db/sql/20251127_stripe_subscriptions.sql). Server code only.
+
+import { supabaseService } from "./supabase-service";
+
+export type BillingAccount = {
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  subscription_status: string | null;
+  subscription_period_end: string | null;
+  subscription_cancel_at_period_end: boolean | null;
+  subscription_grace_until: string | null;
+};
+
+const BILLING_ACCOUNT_COLUMNS =
+  "stripe_customer_id, stripe_subscription_id, subscription_status, subscription_period_end, subscription_cancel_at_period_end, subscription_grace_until";
+
+/** Billing state for a learner; null before their first checkout. Throws on lookup errors. */
+export async function getBillingAccount(userId: string): Promise<BillingAccount | null> {
+  const { data, error } = await supabaseService()
+    .from("billing_accounts")
+    .select(BILLING_ACCOUNT_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as BillingAccount | null) ?? null;
+}
@@ -0,0 +1,256 @@
+// lib/billing.ts
+// Self-service plan management on top of Stripe: summaries, plan/interval switches, cancel and resume
+
+import type Stripe from "stripe";
+import {
+  getPriceDetails,
+  getPriceIdForPlan,
+  type BillingInterval,
+  type PaidPlan,
+} from "./stripe";
+import type { UserTier } from "./model-config";
+
+export type BillingInvoice = {
+  id: string;
+  number: string | null;
+  createdAt: string;
+  amount: number;       // minor units (cents)
+  currency: string;
+  status: string | null;
+  hostedUrl: string | null;
+  pdfUrl: string | null;
+};
+
+export type PendingPlanChange =
+  | { kind: "cancel"; effectiveAt: string | null }
+  | { kind: "switch"; plan: PaidPlan; interval: BillingInterval; effectiveAt: string | null };
+
+export type BillingSummary = {
+  tier: UserTier;
+  status: string | null;
+  plan: PaidPlan | null;
+  interval: BillingInterval | null;
+  amount: number | null;
+  currency: string | null;
+  renewsAt: string | null;
+  graceUntil: string | null;
+  pendingChange: PendingPlanChange | null;
+  hasCustomer: boolean;
+  invoices: BillingInvoice[];
+};
+
+export type PlanChangeResult = {
+  applied: "now" | "period-end" | "unchanged";
+};
+
+export class BillingError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BillingError";
+    this.status = status;
+  }
+}
+
+const PLAN_RANK: Record<PaidPlan, number> = { plus: 1, premium: 2 };
+const INTERVAL_RANK: Record<BillingInterval, number> = { month: 1, year: 2 };
+const INVOICE_LIMIT = 12;
+
+function fromUnix(seconds: number | null | undefined): string | null {
+  return typeof seconds === "number" && seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function priceIdOf(price: string | Stripe.Price | Stripe.DeletedPrice | null | undefined): string | null {
+  if (!price) return null;
+  return typeof price === "string" ? price : price.id;
+}
+
+/**
+ * Upgrades (higher plan, or same plan on a longer interval) apply immediately
+ * with proration; anything else is a downgrade and waits for the period end.
+ */
+export function isUpgrade(
+  from: { plan: PaidPlan; interval: BillingInterval },
+  to: { plan: PaidPlan; interval: BillingInterval }
+): boolean {
+  if (PLAN_RANK[to.plan] !== PLAN_RANK[from.plan]) return PLAN_RANK[to.plan] > PLAN_RANK[from.plan];
+  return INTERVAL_RANK[to.interval] > INTERVAL_RANK[from.interval];
+}
+
+function currentItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem | null {
+  return subscription.items?.data?.[0] ?? null;
+}
+
+function periodEnd(subscription: Stripe.Subscription): number | null {
+  const ends = (subscription.items?.data ?? []).map((item) => item.current_period_end);
+  return ends.length ? Math.max(...ends) : null;
+}
+
+async function retrieveSubscription(stripe: Stripe, subscriptionId: string): Promise<Stripe.Subscription> {
+  return stripe.subscriptions.retrieve(subscriptionId, { expand: ["schedule"] });
+}
+
+function pendingChangeFor(subscription: Stripe.Subscription): PendingPlanChange | null {
+  if (subscription.cancel_at_period_end) {
+    return { kind: "cancel", effectiveAt: fromUnix(periodEnd(subscription)) };
+  }
+  const schedule = subscription.schedule;
+  if (!schedule || typeof schedule === "string") return null;
+  const now = Date.now() / 1000;
+  const next = schedule.phases.find((phase) => phase.start_date > now);
+  const details = getPriceDetails(priceIdOf(next?.items?.[0]?.price));
+  if (!next || !details) return null;
+  return { kind: "switch", ...details, effectiveAt: fromUnix(next.start_date) };
+}
+
+/**
+ * Build the billing section summary. Stripe is the source of truth for the
+ * subscription itself; the profile row supplies the tier the app enforces.
+ */
+export async function getBillingSummary(
+  stripe: Stripe,
+  profile: {
+    tier: UserTier;
+    customerId: string | null;
+    subscriptionId: string | null;
+    graceUntil: string | null;
+  }
+): Promise<BillingSummary> {
+  const summary: BillingSummary = {
+    tier: profile.tier,
+    status: null,
+    plan: null,
+    interval: null,
+    amount: null,
+    currency: null,
+    renewsAt: null,
+    graceUntil: profile.graceUntil,
+    pendingChange: null,
+    hasCustomer: !!profile.customerId,
+    invoices: [],
+  };
+
+  if (profile.subscriptionId) {
+    const subscription = await retrieveSubscription(stripe, profile.subscriptionId);
+    const item = currentItem(subscription);
+    const details = getPriceDetails(item?.price?.id);
+    summary.status = subscription.status;
+    summary.plan = details?.plan ?? null;
+    summary.interval = details?.interval ?? (item?.price?.recurring?.interval === "year" ? "year" : "month");
+    summary.amount = item?.price?.unit_amount ?? null;
+    summary.currency = item?.price?.currency ?? null;
+    summary.renewsAt = fromUnix(periodEnd(subscription));
+    summary.pendingChange = pendingChangeFor(subscription);
+  }
+
+  if (profile.customerId) {
+    const invoices = await stripe.invoices.list({ customer: profile.customerId, limit: INVOICE_LIMIT });
+    summary.invoices = invoices.data.map((invoice) => ({
+      id: invoice.id ?? "",
+      number: invoice.number,
+      createdAt: fromUnix(invoice.created) ?? new Date().toISOString(),
+      amount: invoice.status === "paid" ? invoice.amount_paid : invoice.amount_due,
+      currency: invoice.currency,
+      status: invoice.status,
+      hostedUrl: invoice.hosted_invoice_url ?? null,
+      pdfUrl: invoice.invoice_pdf ?? null,
+    }));
+  }
+
+  return summary;
+}
+
+async function releaseSchedule(stripe: Stripe, subscription: Stripe.Subscription): Promise<void> {
+  const scheduleId = typeof subscription.schedule === "string" ? subscription.schedule : subscription.schedule?.id;
+  if (scheduleId) await stripe.subscriptionSchedules.release(scheduleId);
+}
+
+/** Cancel at the end of the current period; the paid tier stays until then. */
+export async function cancelSubscription(stripe: Stripe, subscriptionId: string): Promise<void> {
+  const subscription = await retrieveSubscription(stripe, subscriptionId);
+  // A scheduled downgrade would otherwise start a new phase after the cancellation date
+  await releaseSchedule(stripe, subscription);
+  await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
+}
+
+/** Undo a pending cancellation before the period ends. */
+export async function resumeSubscription(stripe: Stripe, subscriptionId: string): Promise<void> {
+  const subscription = await retrieveSubscription(stripe, subscriptionId);
+  if (subscription.status === "canceled") {
+    throw new BillingError("This subscription has already ended. Start a new plan from /pricing.", 409);
+  }
+  await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+}
+
+/**
+ * Switch plan and/or billing interval. Upgrades are prorated and applied now;
+ * downgrades are scheduled for the period end through a subscription schedule.
+ * Choosing the current plan again drops any scheduled switch.
+ */
+export async function changeSubscriptionPlan(
+  stripe: Stripe,
+  subscriptionId: string,
+  target: { plan: PaidPlan; interval: BillingInterval }
+): Promise<PlanChangeResult> {
+  const targetPrice = getPriceIdForPlan(target.plan, target.interval);
+  if (!targetPrice) {
+    throw new BillingError("That plan is not available right now. Please contact support.", 500);
+  }
+
+  const subscription = await retrieveSubscription(stripe, subscriptionId);
+  if (subscription.status === "canceled" || subscription.status === "incomplete_expired") {
+    throw new BillingError("This subscription has already ended. Start a new plan from /pricing.", 409);
+  }
+  const item = currentItem(subscription);
+  const current = getPriceDetails(item?.price?.id);
+  if (!item || !current) {
+    throw new BillingError("Your current plan cannot be changed here. Please use the billing portal.", 409);
+  }
+
+  if (current.plan === target.plan && current.interval === target.interval) {
+    await releaseSchedule(stripe, subscription);
+    if (subscription.cancel_at_period_end) {
+      await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+    }
+    return { applied: "unchanged" };
+  }
+
+  if (isUpgrade(current, target)) {
+    await releaseSchedule(stripe, subscription);
+    await stripe.subscriptions.update(subscriptionId, {
+      items: [{ id: item.id, price: targetPrice }],
+      proration_behavior: "always_invoice",
+      cancel_at_period_end: false,
+    });
+    return { applied: "now" };
+  }
+
+  if (subscription.cancel_at_period_end) {
+    await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+  }
+  const existing = subscription.schedule;
+  const schedule = existing
+    ? typeof existing === "string"
+      ? await stripe.subscriptionSchedules.retrieve(existing)
+      : existing
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscriptionId });
+  const currentPhase = schedule.current_phase;
+  if (!currentPhase) {
+    throw new BillingError("Your subscription is not in an active period.", 409);
+  }
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: "release",
+    phases: [
+      {
+        items: [{ price: item.price.id, quantity: item.quantity ?? 1 }],
+        start_date: currentPhase.start_date,
+        end_date: currentPhase.end_date,
+      },
+      {
+        items: [{ price: targetPrice, quantity: item.quantity ?? 1 }],
+      },
+    ],
+  });
+  return { applied: "period-end" };
+}
@@ -0,0 +1,167 @@
+// lib/calendar-ics.ts
+// iCalendar (RFC 5545) output for study sessions: single-session downloads and the per-user feed
+
+import { siteConfig } from "./seo";
+import type { SessionParticipant, SessionRsvp } from "./study-sessions";
+
+export const CALENDAR_SESSION_COLUMNS =
+  "id, organizer_id, title, description, subject, scheduled_at, duration_minutes, status, sequence, created_at, updated_at";
+
+export type CalendarSession = {
+  id: string;
+  organizer_id: string;
+  title: string;
+  description: string | null;
+  subject: string | null;
+  scheduled_at: string;
+  duration_minutes: number;
+  status: string;
+  sequence: number | null;
+  created_at: string | null;
+  updated_at: string | null;
+};
+
+type EventOptions = {
+  participants: SessionParticipant[];
+  // Minutes before the start for a VALARM; null for none
+  reminderMinutes?: number | null;
+};
+
+type CalendarOptions = {
+  // PUBLISH for feeds and downloads, CANCEL for a cancelled session's download
+  method?: "PUBLISH" | "CANCEL";
+  name?: string;
+};
+
+const PRODUCT_ID = "-//Lernex//Study Sessions//EN";
+const UID_DOMAIN = "lernex.app";
+// RFC 5545 limits content lines to 75 octets, excluding the CRLF
+const MAX_LINE_OCTETS = 75;
+
+const PARTSTAT_BY_RSVP: Record<SessionRsvp, string> = {
+  pending: "NEEDS-ACTION",
+  accepted: "ACCEPTED",
+  tentative: "TENTATIVE",
+  declined: "DECLINED",
+};
+
+export function sessionRoomUrl(sessionId: string): string {
+  return `${siteConfig.url}/study-sessions/${sessionId}`;
+}
+
+function formatUtc(value: string | number | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Parameter values are quoted, and quotes can't be escaped inside them
+function quoteParam(value: string): string {
+  return `"${value.replace(/["\r\n]/g, "")}"`;
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts toward their 75
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+/** iCalendar STATUS for a session status. */
+export function sessionEventStatus(status: string): "TENTATIVE" | "CONFIRMED" | "CANCELLED" {
+  if (status === "cancelled") return "CANCELLED";
+  if (status === "pending") return "TENTATIVE";
+  return "CONFIRMED";
+}
+
+function participantAddress(participant: SessionParticipant): string {
+  const name = participant.fullName?.trim() || participant.username?.trim() || "Lernex learner";
+  // Learners' emails stay private, so people are identified by their profile id
+  return `CN=${quoteParam(name)}:urn:uuid:${participant.userId}`;
+}
+
+/** The VEVENT lines for one session. */
+export function buildSessionEvent(session: CalendarSession, options: EventOptions): string[] {
+  const start = new Date(session.scheduled_at);
+  const end = new Date(start.getTime() + session.duration_minutes * 60_000);
+  const status = sessionEventStatus(session.status);
+  const url = sessionRoomUrl(session.id);
+  const details = [session.subject ? `Subject: ${session.subject}` : null, session.description?.trim() || null, url]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(Date.now())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(session.title)}`,
+    `DESCRIPTION:${escapeText(details)}`,
+    `URL:${url}`,
+    `SEQUENCE:${session.sequence ?? 0}`,
+    `STATUS:${status}`,
+  ];
+  if (session.created_at) lines.push(`CREATED:${formatUtc(session.created_at)}`);
+  if (session.updated_at) lines.push(`LAST-MODIFIED:${formatUtc(session.updated_at)}`);
+
+  const organizer = options.participants.find((participant) => participant.userId === session.organizer_id);
+  if (organizer) lines.push(`ORGANIZER;${participantAddress(organizer)}`);
+  for (const participant of options.participants) {
+    if (participant.userId === session.organizer_id) continue;
+    lines.push(
+      `ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=${PARTSTAT_BY_RSVP[participant.rsvp]};${participantAddress(participant)}`
+    );
+  }
+
+  if (status !== "CANCELLED" && typeof options.reminderMinutes === "number") {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(session.title)}`,
+      `TRIGGER:-PT${options.reminderMinutes}M`,
+      "END:VALARM"
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/** Wraps events in a VCALENDAR and serializes it with folded CRLF lines. */
+export function buildCalendar(events: string[][], options: CalendarOptions = {}): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN"];
+  lines.push(`METHOD:${options.method ?? "PUBLISH"}`);
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  for (const event of events) lines.push(...event);
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** Filename-safe slug for a session's .ics download. */
+export function calendarFilename(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "study-session"}.ics`;
+}
@@ -0,0 +1,326 @@
+import type { LucideIcon } from "lucide-react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BookOpen, CalendarCheck2, Flame, Sparkles, Star, Target, Trophy } from "lucide-react";
+import { getZonedDayWindow, getZonedWeekWindow, normalizeTimeZone } from "./timezone";
+
+export type ChallengeCadence = "daily" | "weekly";
+
+/**
+ * What a challenge counts:
+ * - points: points earned in the window
+ * - lessons: quizzes finished in the window
+ * - correct: correct answers in the window
+ * - perfect: quizzes finished with every answer correct
+ * - streak: current streak length (absolute, not accumulated)
+ */
+export type ChallengeMetric = "points" | "lessons" | "correct" | "perfect" | "streak";
+
+export type ChallengeDefinition = {
+  id: string;
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  cadence: ChallengeCadence;
+  metric: ChallengeMetric;
+  target: number;
+  reward: number;
+  // Case-insensitive substring match against the attempt subject, e.g. "algebra"
+  subjectMatch?: string;
+};
+
+// Challenge catalog - every active quest in the system
+export const ALL_CHALLENGES: Record<string, ChallengeDefinition> = {
+  // Daily
+  "daily-points-50": {
+    id: "daily-points-50",
+    title: "Point Sprint",
+    description: "Earn 50 points today",
+    icon: Sparkles,
+    cadence: "daily",
+    metric: "points",
+    target: 50,
+    reward: 15,
+  },
+  "daily-lessons-2": {
+    id: "daily-lessons-2",
+    title: "Double Up",
+    description: "Finish 2 quizzes today",
+    icon: BookOpen,
+    cadence: "daily",
+    metric: "lessons",
+    target: 2,
+    reward: 10,
+  },
+  "daily-perfect-1": {
+    id: "daily-perfect-1",
+    title: "Flawless",
+    description: "Ace one quiz with every answer correct today",
+    icon: Star,
+    cadence: "daily",
+    metric: "perfect",
+    target: 1,
+    reward: 20,
+  },
+
+  // Weekly
+  "weekly-algebra-3": {
+    id: "weekly-algebra-3",
+    title: "Algebra Regular",
+    description: "Finish 3 quizzes in Algebra this week",
+    icon: Target,
+    cadence: "weekly",
+    metric: "lessons",
+    target: 3,
+    reward: 40,
+    subjectMatch: "algebra",
+  },
+  "weekly-correct-40": {
+    id: "weekly-correct-40",
+    title: "Sharp Shooter",
+    description: "Answer 40 questions correctly this week",
+    icon: Trophy,
+    cadence: "weekly",
+    metric: "correct",
+    target: 40,
+    reward: 50,
+  },
+  "weekly-lessons-10": {
+    id: "weekly-lessons-10",
+    title: "Ten Down",
+    description: "Finish 10 quizzes this week",
+    icon: CalendarCheck2,
+    cadence: "weekly",
+    metric: "lessons",
+    target: 10,
+    reward: 60,
+  },
+  "weekly-streak-5": {
+    id: "weekly-streak-5",
+    title: "Five Alive",
+    description: "Keep a 5-day streak",
+    icon: Flame,
+    cadence: "weekly",
+    metric: "streak",
+    target: 5,
+    reward: 75,
+  },
+};
+
+/**
+ * A single event from /api/attempt, already resolved to points and counts.
+ */
+export type ChallengeEvent = {
+  subject: string | null;
+  /** The lesson's finish ledger row was claimed by this event, so it counts once. */
+  lessonCompleted: boolean;
+  /** Every question of the finished lesson was answered correctly. */
+  perfect: boolean;
+  pointsAwarded: number;
+  /** Correct answers newly claimed on the ledger. */
+  correctCount: number;
+  streak: number | null;
+};
+
+export type ChallengeWindow = {
+  periodKey: string;
+  startsAt: string;
+  resetsAt: string;
+};
+
+export type ChallengeStatus = {
+  id: string;
+  title: string;
+  description: string;
+  cadence: ChallengeCadence;
+  target: number;
+  reward: number;
+  progress: number;
+  completed: boolean;
+  claimed: boolean;
+  periodKey: string;
+  resetsAt: string;
+};
+
+type ProgressRow = {
+  user_id: string;
+  challenge_id: string;
+  period_key: string;
+  progress: number;
+  completed_at: string | null;
+  claimed_at: string | null;
+};
+
+/**
+ * Get challenge information by ID
+ */
+export function getChallengeById(challengeId: string): ChallengeDefinition | null {
+  return ALL_CHALLENGES[challengeId] || null;
+}
+
+/**
+ * Resolve the reset window for a cadence in the user's timezone.
+ */
+export function getChallengeWindow(
+  cadence: ChallengeCadence,
+  timeZone: string | null | undefined,
+  now: Date = new Date()
+): ChallengeWindow {
+  const tz = normalizeTimeZone(timeZone);
+  const window = cadence === "daily" ? getZonedDayWindow(now, tz) : getZonedWeekWindow(now, tz);
+  return {
+    periodKey: `${cadence === "daily" ? "d" : "w"}:${window.key}`,
+    startsAt: window.start.toISOString(),
+    resetsAt: window.end.toISOString(),
+  };
+}
+
+/**
+ * How much an event advances a challenge. Streak challenges return the
+ * absolute streak value instead of an increment.
+ */
+export function getChallengeIncrement(challenge: ChallengeDefinition, event: ChallengeEvent): number {
+  if (challenge.subjectMatch) {
+    const subject = event.subject?.toLowerCase() ?? "";
+    if (!subject.includes(challenge.subjectMatch.toLowerCase())) return 0;
+  }
+  switch (challenge.metric) {
+    case "points":
+      return Math.max(0, event.pointsAwarded);
+    case "lessons":
+      return event.lessonCompleted ? 1 : 0;
+    case "correct":
+      return Math.max(0, event.correctCount);
+    case "perfect":
+      return event.lessonCompleted && event.perfect ? 1 : 0;
+    case "streak":
+      return Math.max(0, event.streak ?? 0);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Apply an attempt event to every matching challenge in its current window.
+ * Progress rows are keyed by (challenge, period) so windows reset naturally.
+ * `sb` must be the service-role client; learners can only read their progress.
+ */
+export async function recordChallengeProgress(
+  sb: SupabaseClient,
+  userId: string,
+  event: ChallengeEvent,
+  opts: { timeZone?: string | null; now?: Date } = {}
+): Promise<string[]> {
+  const now = opts.now ?? new Date();
+  const increments = Object.values(ALL_CHALLENGES)
+    .map((challenge) => ({
+      challenge,
+      window: getChallengeWindow(challenge.cadence, opts.timeZone, now),
+      amount: getChallengeIncrement(challenge, event),
+    }))
+    .filter((entry) => entry.amount > 0);
+
+  if (!increments.length) return [];
+
+  try {
+    const { data: rows, error: fetchError } = await sb
+      .from("user_challenge_progress")
+      .select("user_id, challenge_id, period_key, progress, completed_at, claimed_at")
+      .eq("user_id", userId)
+      .in("period_key", Array.from(new Set(increments.map((entry) => entry.window.periodKey))));
+
+    if (fetchError) {
+      console.error("[challenges] recordChallengeProgress fetch error:", fetchError);
+      return [];
+    }
+
+    const existing = new Map<string, ProgressRow>();
+    for (const row of (rows as ProgressRow[] | null) ?? []) {
+      existing.set(`${row.challenge_id}#${row.period_key}`, row);
+    }
+
+    const nowIso = now.toISOString();
+    const newlyCompleted: string[] = [];
+    const upserts = increments.map(({ challenge, window, amount }) => {
+      const prev = existing.get(`${challenge.id}#${window.periodKey}`);
+      const prevProgress = prev?.progress ?? 0;
+      const progress = challenge.metric === "streak"
+        ? Math.max(prevProgress, amount)
+        : prevProgress + amount;
+      const completedAt = prev?.completed_at ?? (progress >= challenge.target ? nowIso : null);
+      if (!prev?.completed_at && completedAt) newlyCompleted.push(challenge.id);
+      return {
+        user_id: userId,
+        challenge_id: challenge.id,
+        period_key: window.periodKey,
+        progress: Math.min(progress, challenge.target),
+        target: challenge.target,
+        reward_points: challenge.reward,
+        completed_at: completedAt,
+        resets_at: window.resetsAt,
+        updated_at: nowIso,
+      };
+    });
+
+    const { error: upsertError } = await sb
+      .from("user_challenge_progress")
+      .upsert(upserts, { onConflict: "user_id,challenge_id,period_key" });
+
+    if (upsertError) {
+      console.error("[challenges] recordChallengeProgress upsert error:", upsertError);
+      return [];
+    }
+
+    return newlyCompleted;
+  } catch (err) {
+    console.error("[challenges] recordChallengeProgress exception:", err);
+    return [];
+  }
+}
+
+/**
+ * Current window status for every challenge in the catalog.
+ */
+export async function getChallengeStatuses(
+  sb: SupabaseClient,
+  userId: string,
+  opts: { timeZone?: string | null; now?: Date } = {}
+): Promise<ChallengeStatus[]> {
+  const now = opts.now ?? new Date();
+  const entries = Object.values(ALL_CHALLENGES).map((challenge) => ({
+    challenge,
+    window: getChallengeWindow(challenge.cadence, opts.timeZone, now),
+  }));
+
+  const { data: rows, error } = await sb
+    .from("user_challenge_progress")
+    .select("user_id, challenge_id, period_key, progress, completed_at, claimed_at")
+    .eq("user_id", userId)
+    .in("period_key", Array.from(new Set(entries.map((entry) => entry.window.periodKey))));
+
+  if (error) {
+    console.error("[challenges] getChallengeStatuses error:", error);
+    throw error;
+  }
+
+  const existing = new Map<string, ProgressRow>();
+  for (const row of (rows as ProgressRow[] | null) ?? []) {
+    existing.set(`${row.challenge_id}#${row.period_key}`, row);
+  }
+
+  return entries.map(({ challenge, window }) => {
+    const row = existing.get(`${challenge.id}#${window.periodKey}`);
+    return {
+      id: challenge.id,
+      title: challenge.title,
+      description: challenge.description,
+      cadence: challenge.cadence,
+      target: challenge.target,
+      reward: challenge.reward,
+      progress: Math.min(row?.progress ?? 0, challenge.target),
+      completed: !!row?.completed_at,
+      claimed: !!row?.claimed_at,
+      periodKey: window.periodKey,
+      resetsAt: window.resetsAt,
+    };
+  });
+}
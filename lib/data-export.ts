@@ -0,0 +1,150 @@
+// lib/data-export.ts
+// Gathers everything tied to a learner into a streamed JSON archive for /api/profile/export (GDPR)
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const PAGE_SIZE = 1000;
+// Hard stop so one runaway table cannot hold the stream open forever
+const MAX_ROWS_PER_SECTION = 100_000;
+
+type ExportFilter =
+  | { eq: string }                     // column equals the user id
+  | { either: [string, string] }       // either column equals the user id (friendships etc.)
+  | { ownedPlaylists: true };          // items of playlists the user owns
+
+type ExportSection = {
+  name: string;
+  table: string;
+  filter: ExportFilter;
+  // Stable ordering for paging; sections without one hold a handful of rows and load in one query
+  orderBy?: string[];
+};
+
+export const EXPORT_SECTIONS: ExportSection[] = [
+  { name: "profile", table: "profiles", filter: { eq: "id" } },
+  { name: "attempts", table: "attempts", filter: { eq: "user_id" }, orderBy: ["created_at", "lesson_id"] },
+  { name: "attempt_answers", table: "attempt_answers", filter: { eq: "user_id" }, orderBy: ["lesson_id", "question_index"] },
+  { name: "saved_lessons", table: "saved_lessons", filter: { eq: "user_id" }, orderBy: ["lesson_id"] },
+  { name: "lesson_permalinks", table: "lesson_permalinks", filter: { eq: "owner_id" }, orderBy: ["id"] },
+  { name: "playlists", table: "playlists", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "playlist_items", table: "playlist_items", filter: { ownedPlaylists: true }, orderBy: ["id"] },
+  { name: "playlist_memberships", table: "playlist_memberships", filter: { eq: "profile_id" }, orderBy: ["id"] },
+  { name: "lesson_history", table: "lesson_history", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "streak_history", table: "streak_history", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "level_maps", table: "user_level_maps", filter: { eq: "user_id" } },
+  { name: "subject_states", table: "user_subject_state", filter: { eq: "user_id" } },
+  { name: "subject_progress", table: "user_subject_progress", filter: { eq: "user_id" } },
+  { name: "subject_preferences", table: "user_subject_preferences", filter: { eq: "user_id" } },
+  { name: "review_items", table: "user_review_items", filter: { eq: "user_id" }, orderBy: ["lesson_id", "question_index"] },
+  { name: "challenge_progress", table: "user_challenge_progress", filter: { eq: "user_id" } },
+  { name: "pending_lessons", table: "user_pending_lessons", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "usage_logs", table: "usage_logs", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "telemetry_events", table: "telemetry_events", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "interaction_signals", table: "interaction_signals", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "learning_style_profile", table: "user_learning_style_profile", filter: { eq: "user_id" } },
+  { name: "cohorts", table: "user_cohorts", filter: { eq: "user_id" } },
+  { name: "upload_history", table: "upload_history", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "friendships", table: "friendships", filter: { either: ["user_a", "user_b"] }, orderBy: ["id"] },
+  { name: "friend_requests", table: "friend_requests", filter: { either: ["sender_id", "receiver_id"] }, orderBy: ["id"] },
+  { name: "study_sessions", table: "study_sessions", filter: { either: ["organizer_id", "friend_id"] }, orderBy: ["id"] },
+  { name: "study_session_participants", table: "study_session_participants", filter: { eq: "user_id" }, orderBy: ["session_id"] },
+  { name: "study_session_answers", table: "study_session_answers", filter: { eq: "user_id" }, orderBy: ["session_id", "round_index"] },
+  { name: "user_blocks", table: "user_blocks", filter: { eq: "blocker_id" }, orderBy: ["blocked_id"] },
+  { name: "activity_events", table: "activity_events", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "friend_suggestions", table: "friend_suggestions", filter: { eq: "user_id" } },
+  { name: "friend_suggestion_dismissals", table: "friend_suggestion_dismissals", filter: { eq: "user_id" } },
+  { name: "notifications", table: "notifications", filter: { eq: "user_id" }, orderBy: ["id"] },
+  { name: "subscription_history", table: "subscription_history", filter: { eq: "user_id" }, orderBy: ["id"] },
+];
+
+type SectionContext = {
+  userId: string;
+  playlistIds: string[];
+};
+
+async function* readSection(
+  sb: SupabaseClient,
+  section: ExportSection,
+  ctx: SectionContext
+): AsyncGenerator<Record<string, unknown>[]> {
+  if ("ownedPlaylists" in section.filter && ctx.playlistIds.length === 0) return;
+
+  for (let from = 0; from < MAX_ROWS_PER_SECTION; from += PAGE_SIZE) {
+    let query = sb.from(section.table).select("*");
+    if ("eq" in section.filter) {
+      query = query.eq(section.filter.eq, ctx.userId);
+    } else if ("either" in section.filter) {
+      const [a, b] = section.filter.either;
+      query = query.or(`${a}.eq.${ctx.userId},${b}.eq.${ctx.userId}`);
+    } else {
+      query = query.in("playlist_id", ctx.playlistIds);
+    }
+    for (const column of section.orderBy ?? []) {
+      query = query.order(column, { ascending: true });
+    }
+    if (section.orderBy) query = query.range(from, from + PAGE_SIZE - 1);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const rows = (data as Record<string, unknown>[] | null) ?? [];
+    if (rows.length) yield rows;
+    if (!section.orderBy || rows.length < PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Stream the archive as one JSON document:
+ * { exportedAt, userId, sections: { [name]: rows[] }, errors: [{ section, message }] }.
+ * A section that fails (e.g. a table not deployed) is recorded under errors
+ * and the export carries on, so one bad table never blocks the whole download.
+ */
+export function createDataExportStream(
+  sb: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const ctx: SectionContext = { userId, playlistIds: [] };
+  const errors: { section: string; message: string }[] = [];
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(`{"exportedAt":${JSON.stringify(now.toISOString())},"userId":${JSON.stringify(userId)},"sections":{`)
+      );
+    },
+    async pull(controller) {
+      if (index >= EXPORT_SECTIONS.length) {
+        controller.enqueue(encoder.encode(`},"errors":${JSON.stringify(errors)}}\n`));
+        controller.close();
+        return;
+      }
+
+      const section = EXPORT_SECTIONS[index];
+      controller.enqueue(encoder.encode(`${index > 0 ? "," : ""}${JSON.stringify(section.name)}:[`));
+      index += 1;
+
+      let first = true;
+      try {
+        for await (const rows of readSection(sb, section, ctx)) {
+          if (section.table === "playlists") {
+            ctx.playlistIds.push(...rows.map((row) => String(row.id)));
+          }
+          const chunk = rows.map((row) => JSON.stringify(row)).join(",");
+          controller.enqueue(encoder.encode(`${first ? "" : ","}${chunk}`));
+          first = false;
+        }
+      } catch (err) {
+        const message = err && typeof err === "object" && "message" in err ? String(err.message) : String(err);
+        console.error(`[data-export] section ${section.name} failed:`, err);
+        errors.push({ section: section.name, message });
+      }
+      controller.enqueue(encoder.encode("]"));
+    },
+  });
+}
+
+export function dataExportFilename(now: Date = new Date()): string {
+  return `lernex-data-export-${now.toISOString().slice(0, 10)}.json`;
+}
@@ -13,6 +13,7 @@
  */
 
 import type { Difficulty } from "@/types/placement";
+import type { LessonFormat } from "@/lib/schema";
 
 export type TokenLimitContext = {
   subject?: string;
@@ -22,6 +23,7 @@ export type TokenLimitContext = {
   hasCode?: boolean;
   hasFormatting?: boolean;
   questionCount?: number;
+  format?: LessonFormat; // Defaults to "micro"
   contentHint?: string; // Optional context about expected content
 };
 
@@ -83,6 +85,16 @@ const DIFFICULTY_ADJUSTMENTS: Record<Difficulty, number> = {
 const MIN_SAFE_TOKENS = 900;  // Absolute minimum for any lesson
 const MAX_SAFE_TOKENS = 4096; // Hard cap to prevent waste
 
+// Per-format budgets: body tokens replace BASE_LESSON_TOKENS, question count is
+// the default when the caller doesn't pass one, and maxTokens overrides the cap
+const FORMAT_TOKEN_RULES: Record<LessonFormat, { lessonTokens: number; questionCount: number; maxTokens: number }> = {
+  micro: { lessonTokens: BASE_LESSON_TOKENS, questionCount: 3, maxTokens: MAX_SAFE_TOKENS },
+  "deep-dive": { lessonTokens: 1800, questionCount: 6, maxTokens: 6144 },      // ~450 words
+  "worked-example": { lessonTokens: 900, questionCount: 3, maxTokens: MAX_SAFE_TOKENS }, // problem + 3-8 steps
+  flashcards: { lessonTokens: 1100, questionCount: 2, maxTokens: MAX_SAFE_TOKENS },      // ~12 cards
+  "cheat-sheet": { lessonTokens: 900, questionCount: 2, maxTokens: MAX_SAFE_TOKENS },    // sections + formulas
+};
+
 /**
  * Detect complexity from topic/subject text
  */
@@ -134,16 +146,20 @@ function detectComplexity(context: TokenLimitContext): {
  * Calculate optimal token limit based on context
  */
 export function calculateDynamicTokenLimit(context: TokenLimitContext): TokenLimitResult {
-  const questionCount = context.questionCount ?? 3;
+  const format = context.format ?? "micro";
+  const formatRules = FORMAT_TOKEN_RULES[format];
+  const questionCount = context.questionCount ?? formatRules.questionCount;
   const difficulty = context.difficulty ?? "easy";
+  const lessonTokens = formatRules.lessonTokens;
+  const maxSafeTokens = formatRules.maxTokens;
 
   // Start with base calculation
-  let estimatedTokens = BASE_LESSON_TOKENS + (BASE_QUESTION_TOKENS * questionCount) + OVERHEAD_TOKENS;
+  let estimatedTokens = lessonTokens + (BASE_QUESTION_TOKENS * questionCount) + OVERHEAD_TOKENS;
 
   // Detect complexity
   const complexity = detectComplexity(context);
   const reasoning: string[] = [
-    `Base: ${estimatedTokens}t (${BASE_LESSON_TOKENS}t lesson + ${BASE_QUESTION_TOKENS * questionCount}t questions + ${OVERHEAD_TOKENS}t overhead)`,
+    `Base: ${estimatedTokens}t (${lessonTokens}t ${format} lesson + ${BASE_QUESTION_TOKENS * questionCount}t questions + ${OVERHEAD_TOKENS}t overhead)`,
   ];
 
   // Apply complexity multipliers
@@ -206,18 +222,18 @@ export function calculateDynamicTokenLimit(context: TokenLimitContext): TokenLim
   const maxTokens = estimatedTokens + safetyMargin;
 
   // Clamp to safe bounds
-  const clampedMaxTokens = Math.max(MIN_SAFE_TOKENS, Math.min(MAX_SAFE_TOKENS, maxTokens));
+  const clampedMaxTokens = Math.max(MIN_SAFE_TOKENS, Math.min(maxSafeTokens, maxTokens));
   const wasClamped = clampedMaxTokens !== maxTokens;
 
   if (wasClamped) {
-    reasoning.push(`Clamped from ${maxTokens}t to ${clampedMaxTokens}t (min: ${MIN_SAFE_TOKENS}, max: ${MAX_SAFE_TOKENS})`);
+    reasoning.push(`Clamped from ${maxTokens}t to ${clampedMaxTokens}t (min: ${MIN_SAFE_TOKENS}, max: ${maxSafeTokens})`);
   } else {
     reasoning.push(`Final: ${clampedMaxTokens}t (${safetyMarginPct * 100}% safety margin)`);
   }
 
   // Determine retry strategy
   const shouldRetryOnShort = isComplex; // Only retry complex lessons if truncated
-  const retryTokens = shouldRetryOnShort ? Math.min(clampedMaxTokens + 500, MAX_SAFE_TOKENS) : undefined;
+  const retryTokens = shouldRetryOnShort ? Math.min(clampedMaxTokens + 500, maxSafeTokens) : undefined;
 
   return {
     maxTokens: clampedMaxTokens,
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CostEstimateRequest, UsageForecast, UsageLimitCheck } from "@/lib/usage";
+
+export type CostForecastResponse = UsageForecast & { limit: UsageLimitCheck };
+
+/**
+ * Ask the server what an action will cost against the current period budget.
+ * Returns null when the estimate is unavailable (signed out, network error).
+ */
+export async function fetchCostEstimate(request: CostEstimateRequest): Promise<CostForecastResponse | null> {
+  try {
+    const response = await fetch("/api/usage/estimate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) return null;
+    return (await response.json()) as CostForecastResponse;
+  } catch (error) {
+    console.error("Error fetching cost estimate:", error);
+    return null;
+  }
+}
+
+/**
+ * Debounced pre-flight estimate that follows the request as inputs change.
+ * Pass null to clear it.
+ */
+export function useCostEstimate(request: CostEstimateRequest | null, debounceMs = 500) {
+  const [forecast, setForecast] = useState<CostForecastResponse | null>(null);
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    if (!requestKey) {
+      setForecast(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      void fetchCostEstimate(JSON.parse(requestKey) as CostEstimateRequest).then((result) => {
+        if (!cancelled) setForecast(result);
+      });
+    }, debounceMs);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [requestKey, debounceMs]);
+
+  return forecast;
+}
@@ -0,0 +1,274 @@
+// lib/learning-path-jobs.ts
+// Durable, lease-based jobs for level-map generation (see db/sql/20251123_learning_path_jobs.sql)
+
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type LearningPathJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type LearningPathJob = {
+  id: string;
+  subject: string;
+  course: string;
+  status: LearningPathJobStatus;
+  attempts: number;
+  pct: number;
+  phase: string | null;
+  detail: string | null;
+  fallback: boolean;
+  error: string | null;
+  leaseExpiresAt: string | null;
+  heartbeatAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LearningPathJobLease = {
+  jobId: string;
+  owner: string;
+};
+
+export type LearningPathJobClaim = {
+  jobId: string;
+  status: LearningPathJobStatus;
+  attempts: number;
+  // Present only when this caller now owns the job
+  lease: LearningPathJobLease | null;
+};
+
+export type LearningPathProgressPatch = {
+  phase?: string;
+  detail?: string;
+  pct?: number;
+  attempts?: number;
+  fallback?: boolean;
+};
+
+const JOB_TABLE = "learning_path_jobs" as const;
+const JOB_COLUMNS =
+  "id, subject, course, status, attempts, progress_pct, progress_phase, progress_detail, fallback, error, lease_expires_at, heartbeat_at, started_at, finished_at, created_at, updated_at";
+
+// Renewed on every heartbeat; a crashed worker's job is reclaimable after this
+export const LEARNING_PATH_JOB_LEASE_SECONDS = 180;
+
+type JobRow = {
+  id: string;
+  subject: string;
+  course: string;
+  status: LearningPathJobStatus;
+  attempts: number | null;
+  progress_pct: number | string | null;
+  progress_phase: string | null;
+  progress_detail: string | null;
+  fallback: boolean | null;
+  error: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function toJob(row: JobRow): LearningPathJob {
+  return {
+    id: row.id,
+    subject: row.subject,
+    course: row.course,
+    status: row.status,
+    attempts: row.attempts ?? 0,
+    pct: Number(row.progress_pct ?? 0),
+    phase: row.progress_phase,
+    detail: row.progress_detail,
+    fallback: !!row.fallback,
+    error: row.error,
+    leaseExpiresAt: row.lease_expires_at,
+    heartbeatAt: row.heartbeat_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Whether a job is still being worked on: queued, or running with a live lease.
+ */
+export function isLearningPathJobActive(job: LearningPathJob | null, now: number = Date.now()): boolean {
+  if (!job) return false;
+  if (job.status === "queued") return true;
+  if (job.status !== "running") return false;
+  return !!job.leaseExpiresAt && new Date(job.leaseExpiresAt).getTime() > now;
+}
+
+/**
+ * Enqueue a generation job for the subject, or join the existing one.
+ * Returns a lease when the caller should run the generation itself.
+ */
+export async function claimLearningPathJob(
+  sb: SupabaseClient,
+  subject: string,
+  course: string
+): Promise<LearningPathJobClaim> {
+  const owner = randomUUID();
+  const { data, error } = await sb.rpc("claim_learning_path_job", {
+    p_subject: subject,
+    p_course: course,
+    p_owner: owner,
+    p_lease_seconds: LEARNING_PATH_JOB_LEASE_SECONDS,
+  });
+  if (error) {
+    console.error("[learning-path-jobs] claimLearningPathJob error:", error);
+    throw error;
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as {
+    job_id: string;
+    status: LearningPathJobStatus;
+    attempts: number;
+    claimed: boolean;
+  } | null;
+  if (!row) throw new Error("claim_learning_path_job returned no row");
+  return {
+    jobId: row.job_id,
+    status: row.status,
+    attempts: row.attempts,
+    lease: row.claimed ? { jobId: row.job_id, owner } : null,
+  };
+}
+
+/**
+ * Record progress and renew the lease. Returns false once the lease has been
+ * lost (expired and reclaimed by another worker).
+ */
+export async function heartbeatLearningPathJob(
+  sb: SupabaseClient,
+  lease: LearningPathJobLease,
+  patch: LearningPathProgressPatch = {}
+): Promise<boolean> {
+  const now = Date.now();
+  const update: Record<string, unknown> = {
+    heartbeat_at: new Date(now).toISOString(),
+    lease_expires_at: new Date(now + LEARNING_PATH_JOB_LEASE_SECONDS * 1000).toISOString(),
+    updated_at: new Date(now).toISOString(),
+  };
+  if (patch.phase !== undefined) update.progress_phase = patch.phase;
+  if (patch.detail !== undefined) update.progress_detail = patch.detail;
+  if (typeof patch.pct === "number") update.progress_pct = Math.max(0, Math.min(1, patch.pct));
+  if (patch.fallback !== undefined) update.fallback = patch.fallback;
+
+  const { data, error } = await sb
+    .from(JOB_TABLE)
+    .update(update)
+    .eq("id", lease.jobId)
+    .eq("lease_owner", lease.owner)
+    .eq("status", "running")
+    .select("id")
+    .maybeSingle();
+  if (error) {
+    console.error("[learning-path-jobs] heartbeatLearningPathJob error:", error);
+    return true; // Transient write failure; keep working and retry on the next heartbeat
+  }
+  return !!data;
+}
+
+/**
+ * Serialized, fire-and-forget progress reporting for a leased job, so the
+ * generation loop never waits on the database between phases.
+ */
+export function createLearningPathProgressReporter(sb: SupabaseClient, lease: LearningPathJobLease) {
+  let chain: Promise<unknown> = Promise.resolve();
+  let leaseLost = false;
+  return {
+    report(patch: LearningPathProgressPatch) {
+      chain = chain.then(async () => {
+        const held = await heartbeatLearningPathJob(sb, lease, patch);
+        if (!held && !leaseLost) {
+          leaseLost = true;
+          console.warn("[learning-path-jobs] lease lost", { jobId: lease.jobId });
+        }
+      });
+    },
+    flush: () => chain.catch(() => {}),
+    get leaseLost() {
+      return leaseLost;
+    },
+  };
+}
+
+async function finishLearningPathJob(
+  sb: SupabaseClient,
+  lease: LearningPathJobLease,
+  status: "succeeded" | "failed",
+  patch: Record<string, unknown>
+) {
+  const nowIso = new Date().toISOString();
+  const { error } = await sb
+    .from(JOB_TABLE)
+    .update({
+      ...patch,
+      status,
+      lease_owner: null,
+      lease_expires_at: null,
+      finished_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq("id", lease.jobId)
+    .eq("lease_owner", lease.owner);
+  if (error) {
+    console.error(`[learning-path-jobs] mark ${status} error:`, error);
+  }
+}
+
+export async function completeLearningPathJob(sb: SupabaseClient, lease: LearningPathJobLease) {
+  await finishLearningPathJob(sb, lease, "succeeded", {
+    progress_pct: 1,
+    progress_phase: "Learning path saved",
+    error: null,
+  });
+}
+
+export async function failLearningPathJob(sb: SupabaseClient, lease: LearningPathJobLease, reason: string) {
+  await finishLearningPathJob(sb, lease, "failed", { error: reason.slice(0, 512) });
+}
+
+/**
+ * Fetch a job by id. RLS limits results to the signed-in user's jobs.
+ */
+export async function getLearningPathJob(sb: SupabaseClient, jobId: string): Promise<LearningPathJob | null> {
+  const { data, error } = await sb
+    .from(JOB_TABLE)
+    .select(JOB_COLUMNS)
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) {
+    console.error("[learning-path-jobs] getLearningPathJob error:", error);
+    return null;
+  }
+  return data ? toJob(data as JobRow) : null;
+}
+
+/**
+ * Most recent queued or running job for a user + subject.
+ */
+export async function getActiveLearningPathJob(
+  sb: SupabaseClient,
+  uid: string,
+  subject: string
+): Promise<LearningPathJob | null> {
+  const { data, error } = await sb
+    .from(JOB_TABLE)
+    .select(JOB_COLUMNS)
+    .eq("user_id", uid)
+    .eq("subject", subject)
+    .in("status", ["queued", "running"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error("[learning-path-jobs] getActiveLearningPathJob error:", error);
+    return null;
+  }
+  return data ? toJob(data as JobRow) : null;
+}
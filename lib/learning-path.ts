@@ -1,59 +1,40 @@
 import OpenAI from "openai";
-import type { SupabaseClient, PostgrestError } from "@supabase/supabase-js";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { checkUsageLimit, logUsage } from "./usage";
 import { compressContext } from "./semantic-compression";
 import { getLearningPathTokenLimit } from "./dynamic-token-limits";
-// In-process lock to dedupe concurrent level-map generations per user+subject.
-// Note: Best-effort only (won't coordinate across server instances), but prevents
-// most duplicate generations triggered by rapid client retries.
-const generationLocks = new Map<string, Promise<LevelMap>>();
-type PathGenerationProgress = {
-  phase: string;
-  detail?: string;
-  pct?: number;
-  attempts?: number;
-  fallback?: boolean;
-  startedAt: number;
-  updatedAt: number;
-};
-const generationProgress = new Map<string, PathGenerationProgress>();
-const progressKey = (uid: string, subject: string) => `${uid}:${subject}`;
-export function isLearningPathGenerating(uid: string, subject: string) {
-  return generationLocks.has(progressKey(uid, subject));
+import {
+  claimLearningPathJob,
+  completeLearningPathJob,
+  createLearningPathProgressReporter,
+  failLearningPathJob,
+  getActiveLearningPathJob,
+  isLearningPathJobActive,
+  type LearningPathProgressPatch,
+} from "./learning-path-jobs";
+import { notifyUser } from "./notification-delivery";
+import { flushTelemetry, recordTelemetry } from "./telemetry";
+
+// Generation is coordinated through the learning_path_jobs table so that
+// dedupe and progress survive cold starts and work across instances.
+export async function isLearningPathGenerating(sb: SupabaseClient, uid: string, subject: string) {
+  const job = await getActiveLearningPathJob(sb, uid, subject);
+  return isLearningPathJobActive(job);
 }
-export function getLearningPathProgress(uid: string, subject: string) {
-  const key = progressKey(uid, subject);
-  const record = generationProgress.get(key);
-  if (!record) return null;
-  if (Date.now() - record.updatedAt > 120_000) {
-    generationProgress.delete(key);
-    return null;
-  }
-  const { phase, detail, pct, attempts, fallback, startedAt, updatedAt } = record;
-  return { phase, detail, pct, attempts, fallback, startedAt, updatedAt };
-}
-export function updateLearningPathProgress(
-  uid: string,
-  subject: string,
-  patch: Partial<Omit<PathGenerationProgress, "startedAt" | "updatedAt">> & { pct?: number }
-) {
-  const key = progressKey(uid, subject);
-  const now = Date.now();
-  const prev = generationProgress.get(key);
-  const startedAt = prev?.startedAt ?? now;
-  const next: PathGenerationProgress = {
-    phase: patch.phase ?? prev?.phase ?? "preparing",
-    detail: patch.detail ?? prev?.detail,
-    pct: typeof patch.pct === "number" ? Math.max(0, Math.min(1, patch.pct)) : prev?.pct,
-    attempts: patch.attempts ?? prev?.attempts,
-    fallback: patch.fallback ?? prev?.fallback,
-    startedAt,
-    updatedAt: now,
+export async function getLearningPathProgress(sb: SupabaseClient, uid: string, subject: string) {
+  const job = await getActiveLearningPathJob(sb, uid, subject);
+  if (!job || !isLearningPathJobActive(job)) return null;
+  return {
+    jobId: job.id,
+    status: job.status,
+    phase: job.phase ?? "Preparing learning path",
+    detail: job.detail ?? undefined,
+    pct: job.pct,
+    attempts: job.attempts,
+    fallback: job.fallback,
+    startedAt: new Date(job.startedAt ?? job.createdAt).getTime(),
+    updatedAt: new Date(job.updatedAt).getTime(),
   };
-  generationProgress.set(key, next);
-}
-export function clearLearningPathProgress(uid: string, subject: string) {
-  generationProgress.delete(progressKey(uid, subject));
 }
 // New, richer level map schema
 export type LevelMap = {
@@ -84,7 +65,6 @@ export type LevelMap = {
 };
 
 const LEVEL_MAP_TABLE = "user_level_maps" as const;
-const LEVEL_MAP_PENDING_TIMEOUT_MS = 4 * 60 * 1000;
 const LEVEL_MAP_PENDING_RETRY_SECONDS = 5;
 
 type LevelMapStatus = "pending" | "ready" | "failed";
@@ -100,12 +80,20 @@ type StoredLevelMap = {
 export class LearningPathPendingError extends Error {
   readonly retryAfterSeconds: number;
   readonly detail?: string;
-
-  constructor(message: string, detail?: string, retryAfterSeconds = LEVEL_MAP_PENDING_RETRY_SECONDS) {
+  // learning_path_jobs row to poll (/api/level-map/jobs/[id]) or subscribe to
+  readonly jobId: string | null;
+
+  constructor(
+    message: string,
+    detail?: string,
+    jobId: string | null = null,
+    retryAfterSeconds = LEVEL_MAP_PENDING_RETRY_SECONDS
+  ) {
     super(message);
     this.name = "LearningPathPendingError";
     this.retryAfterSeconds = retryAfterSeconds;
     this.detail = detail;
+    this.jobId = jobId;
   }
 }
 
@@ -187,57 +175,26 @@ async function markLevelMapFailed(
     );
 }
 
-async function claimLevelMapGeneration(
+async function markLevelMapPending(
   sb: SupabaseClient,
   uid: string,
   subject: string,
   course: string
 ) {
-  const nowIso = new Date().toISOString();
-  const pendingPayload = {
-    user_id: uid,
-    subject,
-    course,
-    status: "pending" as LevelMapStatus,
-    map: null,
-    error_reason: null,
-    updated_at: nowIso,
-  };
-  const insertAttempt = await sb
-    .from(LEVEL_MAP_TABLE)
-    .insert(pendingPayload)
-    .select("status")
-    .maybeSingle();
-  if (!insertAttempt.error) {
-    return;
-  }
-  const error = insertAttempt.error as PostgrestError;
-  if (error.code != "23505") {
-    throw error;
-  }
-  const updateAttempt = await sb
+  await sb
     .from(LEVEL_MAP_TABLE)
-    .update({
-      status: "pending" as LevelMapStatus,
-      course,
-      map: null,
-      error_reason: null,
-      updated_at: nowIso,
-    })
-    .eq("user_id", uid)
-    .eq("subject", subject)
-    .neq("status", "pending")
-    .select("status")
-    .maybeSingle();
-  if (updateAttempt.error) {
-    throw updateAttempt.error;
-  }
-  if (!updateAttempt.data) {
-    throw new LearningPathPendingError(
-      "We are personalizing your learning path",
-      "Another request is already generating this map."
+    .upsert(
+      {
+        user_id: uid,
+        subject,
+        course,
+        status: "pending" as LevelMapStatus,
+        map: null,
+        error_reason: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,subject" }
     );
-  }
 }
 
 async function ensureStoredLevelMap(
@@ -254,13 +211,6 @@ async function ensureStoredLevelMap(
   await saveLevelMapRow(sb, uid, subject, course, map);
 }
 
-function isPendingFresh(row: StoredLevelMap | null) {
-  if (!row || row.status !== "pending") return false;
-  if (!row.updated_at) return true;
-  const ageMs = Date.now() - new Date(row.updated_at).getTime();
-  return ageMs < LEVEL_MAP_PENDING_TIMEOUT_MS;
-}
-
 async function loadCourseOutline(
   sb: SupabaseClient,
   subject: string,
@@ -394,7 +344,8 @@ export async function generateLearningPath(
   subject: string,
   course: string,
   mastery: number,
-  notes = ""
+  notes = "",
+  onProgress?: (patch: LearningPathProgressPatch) => void
 ): Promise<LevelMap> {
   const apiKey = process.env.GROK_API_KEY;
   if (!apiKey) throw new Error("Missing GROK_API_KEY");
@@ -450,8 +401,8 @@ export async function generateLearningPath(
     fallback: MAX_TOK_FALLBACK,
   });
 
-  const touchProgress = (patch: Parameters<typeof updateLearningPathProgress>[2]) => {
-    updateLearningPathProgress(uid, subject, patch);
+  const touchProgress = (patch: LearningPathProgressPatch) => {
+    onProgress?.(patch);
   };
 
   touchProgress({ phase: "Preparing learning path", pct: 0.05 });
@@ -577,10 +528,11 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
   let attemptsCount = 0;
   let fallbackUsed = false;
   let deterministicFallback = false;
+  const generationStartedAt = Date.now();
 
   const syncAttemptProgress = () => {
     const pct = Math.min(0.45 + attemptsCount * 0.08, 0.63);
-    touchProgress({ phase: "Requesting personalized map", pct, attempts: attemptsCount, fallback: fallbackUsed || deterministicFallback });
+    touchProgress({ phase: "Requesting personalized map", pct, fallback: fallbackUsed || deterministicFallback });
   };
 
   syncAttemptProgress();
@@ -646,7 +598,6 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
   touchProgress({
     phase: fallbackUsed ? "Repairing map output" : "Validating map output",
     pct: fallbackUsed ? 0.7 : 0.66,
-    attempts: attemptsCount,
     fallback: fallbackUsed || deterministicFallback,
   });
 
@@ -665,17 +616,6 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
     deltaGuidanceCount: deltaGuidance.length,
   };
 
-  try {
-    await logUsage(
-      sb,
-      uid,
-      ip,
-      "metric/level-map-attempts",
-      { input_tokens: attemptsCount, output_tokens: fallbackUsed || deterministicFallback ? 1 : 0 },
-      { metadata: { ...usageMetaBase, stage: "attempts" } },
-    );
-  } catch {}
-
   if (uid && completion?.usage) {
     const u = completion.usage as unknown as { prompt_tokens?: unknown; completion_tokens?: unknown };
     const promptTokens = typeof u.prompt_tokens === "number" ? u.prompt_tokens : null;
@@ -735,7 +675,7 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
       try {
         attemptsCount += 1;
         fallbackUsed = true;
-        touchProgress({ phase: "Repairing map output", pct: 0.72, attempts: attemptsCount, fallback: true });
+        touchProgress({ phase: "Repairing map output", pct: 0.72, fallback: true });
         const repairSys = adaptiveSystem + "\nFinal requirement: Respond with ONLY a single strict JSON object (no prose). If previous output was truncated, regenerate compactly (<= 9 topics, <= 4 subtopics each, applications <= 2, prerequisites <= 3, reminders <= 2).";
         const repair = await client.chat.completions.create({
           model,
@@ -751,7 +691,7 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
         parsed = JSON.parse(raw) as LevelMap;
       } catch {
         deterministicFallback = true;
-        touchProgress({ phase: "Using safe fallback map", pct: 0.78, attempts: attemptsCount, fallback: true });
+        touchProgress({ phase: "Using safe fallback map", pct: 0.78, fallback: true });
         parsed = buildFallbackLevelMap(subject, course, pace, mastery, interests, coSubjects, notes);
       }
     } else {
@@ -759,25 +699,23 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
     }
   }
 
-  if (deterministicFallback) {
-    try {
-      await logUsage(
-        sb,
-        uid,
-        ip,
-        "metric/level-map-fallback",
-        { input_tokens: attemptsCount, output_tokens: 0 },
-        { metadata: { ...usageMetaBase, stage: "fallback" } },
-      );
-    } catch {}
-  }
-
   if (!parsed) {
     deterministicFallback = true;
-    touchProgress({ phase: "Using safe fallback map", pct: 0.78, attempts: attemptsCount, fallback: true });
+    touchProgress({ phase: "Using safe fallback map", pct: 0.78, fallback: true });
     parsed = buildFallbackLevelMap(subject, course, pace, mastery, interests, coSubjects, notes);
   }
 
+  recordTelemetry("generation_latency", { feature: "level-map", durationMs: Date.now() - generationStartedAt, model, subject }, { userId: uid });
+  recordTelemetry("generation_retry", { feature: "level-map", attempts: Math.max(1, attemptsCount) }, { userId: uid });
+  if (fallbackUsed || deterministicFallback) {
+    recordTelemetry(
+      "fallback_used",
+      { feature: "level-map", reason: deterministicFallback ? "deterministic-map" : "plain-text-retry", attempts: attemptsCount },
+      { userId: uid },
+    );
+  }
+  await flushTelemetry();
+
   parsed.subject ||= subject;
   parsed.course ||= course;
 
@@ -876,8 +814,8 @@ Rules: 6-9 topics, 2-5 subtopics each. mini_lessons=1-4 (scale to difficulty). a
   });
   parsed.cross_subjects = normalizedCrossSubjects.slice(0, 5);
 
-  touchProgress({ phase: "Finalizing personalized map", pct: 0.9, attempts: attemptsCount, fallback: fallbackFlag });
-  touchProgress({ phase: "Learning path ready", pct: 1, attempts: attemptsCount, fallback: fallbackFlag });
+  touchProgress({ phase: "Finalizing personalized map", pct: 0.9, fallback: fallbackFlag });
+  touchProgress({ phase: "Learning path ready", pct: 1, fallback: fallbackFlag });
 
   if (!deterministicFallback) {
     await saveCourseOutline(sb, subject, course, parsed);
@@ -1127,7 +1065,7 @@ export async function ensureLearningPath(
 
   const currentPath = existing?.path as LevelMap | null;
   const valid = currentPath && Array.isArray(currentPath.topics) && currentPath.topics.length > 0;
-  let stored = await getStoredLevelMap(sb, uid, subject);
+  const stored = await getStoredLevelMap(sb, uid, subject);
 
   if (valid && existing?.course === course) {
     await ensureStoredLevelMap(sb, uid, subject, course, currentPath as LevelMap, stored);
@@ -1156,44 +1094,23 @@ export async function ensureLearningPath(
     return map;
   }
 
-  if (stored && stored.status === "pending" && (stored.course ?? course) === course && isPendingFresh(stored)) {
+  const claim = await claimLearningPathJob(sb, subject, course);
+  if (!claim.lease) {
     throw new LearningPathPendingError(
       "We are personalizing your learning path",
-      "Another request is already generating this map."
+      "Another request is already generating this map.",
+      claim.jobId
     );
   }
+  const lease = claim.lease;
+  const progress = createLearningPathProgressReporter(sb, lease);
 
-  const key = progressKey(uid, subject);
-  const existingLock = generationLocks.get(key);
-  if (existingLock) {
-    await existingLock.catch(() => {});
-    const { data: after } = await sb
-      .from("user_subject_state")
-      .select("path, course")
-      .eq("user_id", uid)
-      .eq("subject", subject)
-      .maybeSingle();
-    const p = after?.path as LevelMap | null;
-    if (p && Array.isArray(p.topics) && p.topics.length > 0 && after?.course === course) {
-      stored = stored ?? await getStoredLevelMap(sb, uid, subject);
-      await ensureStoredLevelMap(sb, uid, subject, course, p, stored);
-      return p;
-    }
-  }
-
-  const lock = (async () => {
-    await claimLevelMapGeneration(sb, uid, subject, course);
-
-    let map: LevelMap;
-    try {
-      map = await generateLearningPath(sb, uid, ip, subject, course, mastery, notes);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      try { await markLevelMapFailed(sb, uid, subject, course, message); } catch {}
-      throw err;
-    }
+  let map: LevelMap;
+  try {
+    await markLevelMapPending(sb, uid, subject, course);
+    map = await generateLearningPath(sb, uid, ip, subject, course, mastery, notes, progress.report);
 
-    updateLearningPathProgress(uid, subject, { phase: "Persisting learning path", pct: 0.95 });
+    progress.report({ phase: "Persisting learning path", pct: 0.95 });
     const firstTopic = map.topics?.[0];
     const firstSub = firstTopic?.subtopics?.[0];
     const nextTopic = firstTopic && firstSub ? `${firstTopic.name} > ${firstSub.name}` : null;
@@ -1213,17 +1130,24 @@ export async function ensureLearningPath(
         path: map,
         updated_at: new Date().toISOString(),
       }, { onConflict: "user_id,subject" });
-
-    updateLearningPathProgress(uid, subject, { phase: "Learning path saved", pct: 1 });
-    return map;
-  })();
-
-  generationLocks.set(key, lock);
-  try {
-    const result = await lock;
-    return result;
-  } finally {
-    generationLocks.delete(key);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    await progress.flush();
+    try { await markLevelMapFailed(sb, uid, subject, course, message); } catch {}
+    await failLearningPathJob(sb, lease, message);
+    throw err;
   }
+
+  await progress.flush();
+  await completeLearningPathJob(sb, lease);
+  await notifyUser(uid, {
+    type: "learning_path_ready",
+    title: `Your ${course} learning path is ready`,
+    body: `${map.topics?.length ?? 0} topics, ordered from foundations to advanced.`,
+    url: "/fyp",
+    dedupeKey: `learning_path_ready:${lease.jobId}`,
+    data: { subject, course },
+  });
+  return map;
 }
 
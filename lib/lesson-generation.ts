@@ -0,0 +1,2423 @@
+// lib/lesson-generation.ts
+// Lesson generation service shared by the FYP feed, batch prefetch, /api/generate and the playlist
+// routes. A LessonSource says where the lesson comes from (a topic, pasted text, an OCR'd document or a
+// playlist's lessons); prompts, JSON repair, validation, the short-lesson retry and usage logging are
+// the same for all of them. streamLesson() runs the same pipeline over a streamed completion.
+// Every lesson then goes through the quality gate in lib/lesson-quality.ts before it is returned.
+
+import { createHash, randomUUID } from "crypto";
+import OpenAI from "openai";
+import type { Stream } from "openai/streaming";
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Difficulty } from "@/types/placement";
+import {
+  DEFAULT_LESSON_FORMAT,
+  getLessonSchema,
+  LessonSchema,
+  MIN_LESSON_WORDS,
+  MAX_LESSON_WORDS,
+  MAX_LESSON_CHARS,
+  DEEP_DIVE_MIN_WORDS,
+  type AnyFormatLesson,
+  type Lesson,
+  type LessonFormat,
+} from "./schema";
+import { checkUsageLimit, logUsage } from "./usage";
+import { buildLessonPrompts, LESSON_FORMAT_JSON_SHAPES } from "./lesson-prompts";
+import { createModelClient, type UserTier, type ModelSpeed } from "./model-config";
+import { compressContext } from "./semantic-compression";
+import { shuffleQuizQuestions } from "./quiz-shuffle";
+import { mapQuestionText } from "./question-types";
+import { normalizeLatex } from "./latex";
+import { tryParseJsonWithLatex } from "./latex-utils";
+import {
+  calculateDynamicTokenLimit,
+  getBatchTokenLimit,
+  shouldRetryLesson,
+  type TokenLimitResult,
+} from "./dynamic-token-limits";
+import { getCodeInterpreterParams, adjustTokenLimitForCodeInterpreter, usedCodeInterpreter } from "./code-interpreter";
+import { isMathSubject } from "./math-detection";
+import { recordTelemetry } from "./telemetry";
+import { storeLessonAnswerKeys } from "./attempt-verification";
+import {
+  buildLessonVerdict,
+  buildSolverMessages,
+  checkLessonQuality,
+  gradeSolverAnswers,
+  recordLessonVerdict,
+  solverIssues,
+  type LessonQualityGateOptions,
+  type LessonSolverReport,
+  type LessonVerdict,
+  type StoredLessonVerdict,
+} from "./lesson-quality";
+
+export type UsageSummary = { input_tokens: number | null; output_tokens: number | null } | null;
+
+type UsageEvent = {
+  source: "lesson" | "stream";
+  attempt: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  variant?: number;
+  variantAttempt?: number;
+  responseFormat?: CompletionFormat;
+};
+
+type CompletionFormat = "function_call" | "json_object" | "plain" | "stream";
+
+export type LessonOptions = {
+  pace?: Pace;
+  accuracyPct?: number;
+  difficultyPref?: Difficulty;
+  /** @deprecated No longer sent to AI prompt (filtered locally). Kept for logging/telemetry only. */
+  avoidIds?: string[];
+  /** @deprecated No longer sent to AI prompt (filtered locally). Kept for logging/telemetry only. */
+  avoidTitles?: string[];
+  mapSummary?: string;
+  structuredContext?: Record<string, unknown>;
+  likedIds?: string[];
+  savedIds?: string[];
+  toneTags?: string[];
+  nextTopicHint?: string;
+  learnerProfile?: string;
+  likedLessonDescriptors?: string[];
+  savedLessonDescriptors?: string[];
+  previousLessonSummary?: string;
+  accuracyBand?: string;
+  recentMissSummary?: string;
+  knowledge?: {
+    definition?: string;
+    applications?: string[];
+    prerequisites?: string[];
+    reminders?: string[];
+  };
+  personalization?: {
+    style?: { prefer?: string[]; avoid?: string[] };
+    lessons?: { leanInto?: string[]; avoid?: string[]; saved?: string[] };
+  };
+  userTier?: UserTier;
+  modelSpeed?: ModelSpeed;
+};
+
+export type LessonPlan = { title: string; description: string };
+
+export type PlaylistLessonSeed = {
+  title: string;
+  topic?: string;
+  difficulty?: string;
+  concepts?: string[];
+};
+
+/** Where a lesson's material comes from. */
+export type LessonSource =
+  | { kind: "topic"; subject: string; topic: string }
+  // Text the learner pasted or typed
+  | { kind: "text"; subject: string; text: string; topic?: string; lessonPlan?: LessonPlan }
+  // OCR output of an upload; `excerpt` marks a pre-extracted section that is already compact
+  | { kind: "document"; subject: string; text: string; topic?: string; lessonPlan?: LessonPlan; excerpt?: boolean }
+  // Lessons already in a playlist, to build on without repeating them
+  | { kind: "playlist"; subject: string; topic: string; seeds: PlaylistLessonSeed[] };
+
+export type LessonUsageContext = {
+  feature: string;
+  route: string;
+  // Extra usage_logs metadata, e.g. batch index or playlist id
+  metadata?: Record<string, unknown>;
+};
+
+export type LessonGenerationOptions = LessonOptions & {
+  format?: LessonFormat;
+  /** usage_logs labels; defaults per source kind. */
+  usage?: LessonUsageContext;
+  /**
+   * Serve the built-in lesson when every attempt fails instead of throwing.
+   * Micro lessons only; defaults to true for topic sources.
+   */
+  allowFallback?: boolean;
+  /** Overrides ENABLE_SEMANTIC_COMPRESSION / SEMANTIC_COMPRESSION_RATE. */
+  compression?: { enabled?: boolean; rate?: number };
+  /** Quality gate settings; on by default, `false` skips it. */
+  qualityGate?: LessonQualityGateOptions | false;
+};
+
+export type LessonGenerationResult = {
+  lesson: AnyFormatLesson;
+  usage: UsageSummary;
+  // The built-in lesson was served
+  fallback: boolean;
+  attempts: number;
+  // Quality gate verdict for `lesson`; null when the gate was skipped
+  verdict: StoredLessonVerdict | null;
+};
+
+export type LessonSetResult = {
+  // One entry per requested lesson; null where the model's lesson failed validation or the quality gate
+  lessons: Array<AnyFormatLesson | null>;
+  usage: UsageSummary;
+  // Verdict per entry of `lessons` (rejected lessons keep theirs); null where there was nothing to check
+  verdicts: Array<StoredLessonVerdict | null>;
+};
+
+export type CompletionStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; text: string; usage: UsageSummary; codeInterpreterUsed: boolean; fallbackReason: string | null };
+
+export type LessonStreamEvent =
+  | { type: "delta"; text: string }
+  // `streamed` is false when the streamed text was unusable and the lesson came from a regular retry
+  | { type: "lesson"; lesson: AnyFormatLesson; streamed: boolean; fallback: boolean; verdict: StoredLessonVerdict | null };
+
+export type LessonUsageMetadata = {
+  feature: string;
+  route: string;
+  tier: UserTier;
+  modelSpeed?: ModelSpeed;
+  codeInterpreterUsed?: boolean;
+  error?: unknown;
+  [key: string]: unknown;
+};
+
+type LessonModelClient = ReturnType<typeof createModelClient>;
+
+type Pace = "slow" | "normal" | "fast";
+
+// Function calling tool schema for lesson generation
+export const CREATE_LESSON_TOOL = {
+  type: "function" as const,
+  function: {
+    name: "create_lesson",
+    description: "Create a micro-lesson with questions for the specified topic",
+    parameters: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Short slug identifier (letters, numbers, dashes only)",
+        },
+        subject: {
+          type: "string",
+          description: "The subject area (e.g., 'Algebra 1')",
+        },
+        topic: {
+          type: "string",
+          description: "The specific topic being taught",
+        },
+        title: {
+          type: "string",
+          description: "Concise 3-7 word title for the lesson",
+        },
+        content: {
+          type: "string",
+          description: "Lesson content (80-105 words, max 900 chars). Four sentences: (1) definition, (2) example, (3) pitfall, (4) practice step.",
+          minLength: 180,
+        },
+        difficulty: {
+          type: "string",
+          enum: ["intro", "easy", "medium", "hard"],
+          description: "Difficulty level",
+        },
+        questions: {
+          type: "array",
+          description: "Exactly three questions, mostly multiple choice",
+          items: {
+            type: "object",
+            properties: {
+              type: {
+                type: "string",
+                enum: ["mcq", "numeric", "multi-select", "ordering", "cloze"],
+                description: "Question type (default mcq)",
+              },
+              prompt: {
+                type: "string",
+                description: "The question prompt (cloze: one ___ per blank)",
+              },
+              choices: {
+                type: "array",
+                description: "mcq: exactly four answer choices; multi-select: 4-6 choices",
+                items: { type: "string" },
+                minItems: 4,
+                maxItems: 6,
+              },
+              correctIndex: {
+                type: "number",
+                description: "mcq: index of correct answer (0-3)",
+                minimum: 0,
+                maximum: 3,
+              },
+              correctIndices: {
+                type: "array",
+                description: "multi-select: indices of every correct choice",
+                items: { type: "number" },
+              },
+              answer: {
+                type: "number",
+                description: "numeric: the expected value",
+              },
+              tolerance: {
+                type: "number",
+                description: "numeric: allowed absolute error (default 0)",
+                minimum: 0,
+              },
+              unit: {
+                type: "string",
+                description: "numeric: unit the answer must include, if any",
+              },
+              acceptedUnits: {
+                type: "array",
+                description: "numeric: equivalent unit spellings",
+                items: { type: "string" },
+              },
+              items: {
+                type: "array",
+                description: "ordering: 3-6 items listed in the correct order",
+                items: { type: "string" },
+                minItems: 3,
+                maxItems: 6,
+              },
+              blanks: {
+                type: "array",
+                description: "cloze: accepted answers for each blank, in order",
+                items: { type: "array", items: { type: "string" } },
+              },
+              explanation: {
+                type: "string",
+                description: "Max 15 words explaining why the answer is correct",
+                maxLength: 280,
+              },
+            },
+            required: ["type", "prompt", "explanation"],
+          },
+          minItems: 3,
+          maxItems: 3,
+        },
+      },
+      required: ["id", "subject", "topic", "title", "content", "difficulty", "questions"],
+    },
+  },
+};
+
+// Several lessons of the same shape in one call (a lesson set from one source)
+export const CREATE_LESSON_BATCH_TOOL = {
+  type: "function" as const,
+  function: {
+    name: "create_lesson_batch",
+    description: "Create several distinct micro-lessons for the same material in one call",
+    parameters: {
+      type: "object",
+      properties: {
+        lessons: {
+          type: "array",
+          description: "The lessons; each is a complete create_lesson object",
+          items: CREATE_LESSON_TOOL.function.parameters,
+        },
+      },
+      required: ["lessons"],
+    },
+  },
+};
+
+const MAX_CONTEXT_CHARS = 280; // Reduced from 360 to prevent prompt bloat
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ECONNABORTED",
+]);
+const RETRYABLE_ERROR_PATTERN =
+  /(timeout|timed out|503|502|bad gateway|service unavailable|temporary unavailable|socket hang up|connection reset|ECONNRESET|ECONNREFUSED)/i;
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getErrorStatus(error: unknown): number | null {
+  if (!error || typeof error !== "object") return null;
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === "number") return status;
+  const statusCode = (error as { statusCode?: unknown }).statusCode;
+  if (typeof statusCode === "number") return statusCode;
+  const responseStatus = (error as { response?: { status?: unknown } }).response?.status;
+  if (typeof responseStatus === "number") return responseStatus;
+  const nestedStatus = (error as { error?: { status?: unknown } }).error?.status;
+  if (typeof nestedStatus === "number") return nestedStatus;
+  return null;
+}
+
+function getErrorCode(error: unknown): string | null {
+  if (!error || typeof error !== "object") return null;
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "string" ? code : null;
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  if (error && typeof error === "object") {
+    const message = (error as { message?: unknown }).message;
+    if (typeof message === "string") return message;
+  }
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+function isRetryableCompletionError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status != null && RETRYABLE_STATUS_CODES.has(status)) return true;
+  const code = getErrorCode(error);
+  if (code && RETRYABLE_ERROR_CODES.has(code)) return true;
+  const message = getErrorMessage(error);
+  return RETRYABLE_ERROR_PATTERN.test(message);
+}
+
+const FALLBACK_TEMPERATURE = 0.4;
+
+const resolveNumericEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const TEMPERATURE_MIN = resolveNumericEnv(process.env.CEREBRAS_LESSON_TEMPERATURE_MIN, 0.3);
+const TEMPERATURE_MAX = resolveNumericEnv(process.env.CEREBRAS_LESSON_TEMPERATURE_MAX, 0.5);
+const TEMPERATURE_FLOOR = Math.min(TEMPERATURE_MIN, TEMPERATURE_MAX);
+const TEMPERATURE_CEIL = Math.max(TEMPERATURE_MIN, TEMPERATURE_MAX);
+
+function clampTemperature(value: number) {
+  if (!Number.isFinite(value)) {
+    return Math.min(Math.max(FALLBACK_TEMPERATURE, TEMPERATURE_FLOOR), TEMPERATURE_CEIL);
+  }
+  return Math.max(TEMPERATURE_FLOOR, Math.min(TEMPERATURE_CEIL, value));
+}
+
+const DEFAULT_TEMPERATURE = clampTemperature(resolveNumericEnv(process.env.CEREBRAS_LESSON_TEMPERATURE, FALLBACK_TEMPERATURE));
+
+const JSON_RESPONSE_DENYLIST: RegExp[] = [];
+// Groq's gpt-oss models have known issues with forced tool_choice
+// Disable forced function calling for these models
+const FUNCTION_CALLING_DENYLIST: RegExp[] = [/gpt-oss/];
+
+function normalizeBooleanEnv(value: string | undefined): boolean | null {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+  if (["1", "true", "yes", "on", "enable"].includes(trimmed)) return true;
+  if (["0", "false", "no", "off", "disable"].includes(trimmed)) return false;
+  return null;
+}
+
+function modelSupportsJsonResponseFormat(model: string): boolean {
+  const override = normalizeBooleanEnv(process.env.FYP_ALLOW_JSON_RESPONSE);
+  if (override != null) return override;
+  return !JSON_RESPONSE_DENYLIST.some((pattern) => pattern.test(model));
+}
+
+function modelSupportsFunctionCalling(model: string): boolean {
+  const override = normalizeBooleanEnv(process.env.FYP_ALLOW_FUNCTION_CALLING);
+  if (override != null) return override;
+  return !FUNCTION_CALLING_DENYLIST.some((pattern) => pattern.test(model));
+}
+
+function previewForLog(value: string | null | undefined, max = 180): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (trimmed.length <= max) return trimmed;
+  const overflow = trimmed.length - max;
+  return `${trimmed.slice(0, max)}...(+${overflow} chars)`;
+}
+
+const STACK_TRIM_PATTERN = /\bat\s+/;
+
+function safeErrorForLog(error: unknown) {
+  if (!error) return { message: null, name: null, stack: null, type: typeof error };
+  if (error instanceof Error) {
+    return {
+      message: error.message,
+      name: error.name,
+      stack: typeof error.stack === "string"
+        ? error.stack.split("\n").slice(0, 6).map((line) => line.trim()).filter((line) => STACK_TRIM_PATTERN.test(line)).join(" | ")
+        : null,
+      type: "Error",
+    };
+  }
+  if (typeof error === "object") {
+    try {
+      return { message: JSON.stringify(error), name: null, stack: null, type: "object" };
+    } catch {
+      return { message: "[unserializable object]", name: null, stack: null, type: "object" };
+    }
+  }
+  return { message: String(error), name: null, stack: null, type: typeof error };
+}
+
+function summarizeLessonForLog(lesson: Lesson | null | undefined) {
+  if (!lesson) return null;
+  const words = typeof lesson.content === "string"
+    ? lesson.content.trim().split(/\s+/).filter(Boolean).length
+    : null;
+  const questionSummaries = Array.isArray(lesson.questions)
+    ? lesson.questions.slice(0, 3).map((q, idx) => ({
+        idx,
+        promptPreview: previewForLog(typeof q.prompt === "string" ? q.prompt : null, 80),
+        type: q.type ?? "mcq",
+        correctIndex: "correctIndex" in q && typeof q.correctIndex === "number" ? q.correctIndex : null,
+        explanationPreview: previewForLog(typeof q.explanation === "string" ? q.explanation : null, 80),
+      }))
+    : null;
+  return {
+    id: typeof lesson.id === "string" ? lesson.id : null,
+    title: typeof lesson.title === "string" ? lesson.title : null,
+    difficulty: lesson.difficulty ?? null,
+    contentWords: words,
+    contentPreview: previewForLog(typeof lesson.content === "string" ? lesson.content : null, 160),
+    questionSummaries,
+  };
+}
+
+type MessageSummary = {
+  idx: number;
+  role: OpenAI.ChatCompletionMessageParam["role"];
+  type: string;
+  length?: number;
+  preview?: string | null;
+  totalParts?: number;
+  parts?: Array<{
+    partIdx: number;
+    type: string;
+    length?: number;
+    preview?: string | null;
+  }>;
+};
+
+function summarizeMessages(messages: OpenAI.ChatCompletionMessageParam[]): MessageSummary[] {
+  return messages.map((message, idx) => {
+    const content = message.content;
+    if (typeof content === "string") {
+      return {
+        idx,
+        role: message.role,
+        type: "text",
+        length: content.length,
+        preview: previewForLog(content, 160),
+      };
+    }
+    if (Array.isArray(content)) {
+      const parts = content.slice(0, 4).map((part, partIdx) => {
+        if (!part || typeof part !== "object") {
+          return { partIdx, type: typeof part };
+        }
+        const typeCandidate =
+          "type" in part && typeof (part as { type?: unknown }).type === "string"
+            ? ((part as { type: string }).type)
+            : "unknown";
+        let textValue: string | null = null;
+        if ("text" in part) {
+          const textCandidate = (part as { text?: unknown }).text;
+          if (textCandidate && typeof textCandidate === "object") {
+            const value = (textCandidate as { value?: unknown }).value;
+            if (typeof value === "string") {
+              textValue = value;
+            }
+          }
+        }
+        return {
+          partIdx,
+          type: typeCandidate,
+          length: textValue ? textValue.length : undefined,
+          preview: textValue ? previewForLog(textValue, 80) : undefined,
+        };
+      });
+      return {
+        idx,
+        role: message.role,
+        type: "parts",
+        totalParts: content.length,
+        parts,
+      };
+    }
+    return {
+      idx,
+      role: message.role,
+      type: typeof content,
+    };
+  });
+}
+
+// Simple linear interpolation (optimization: removes 60 lines of band logic)
+function deriveLessonTemperature(_accuracyBand: string | undefined, accuracy: number | null) {
+  if (accuracy != null) {
+    return clampTemperature(0.3 + (accuracy / 250));
+  }
+  return DEFAULT_TEMPERATURE;
+}
+
+function collectStrings(value: unknown, depth = 0, seen = new Set<unknown>()): string[] {
+  if (depth > 6 || value == null) return [];
+
+  if (typeof value === "string") return [value];
+  if (typeof value === "number" || typeof value === "boolean") return [String(value)];
+
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => collectStrings(entry, depth + 1, seen));
+  }
+
+  if (typeof value === "object") {
+    if (seen.has(value)) return [];
+    seen.add(value);
+
+    const obj = value as Record<string, unknown>;
+    const preferredKeys = ["text", "content", "value", "arguments", "json"];
+
+    let result: string[] = [];
+    for (const key of preferredKeys) {
+      if (key in obj) {
+        result = result.concat(collectStrings(obj[key], depth + 1, seen));
+      }
+    }
+
+    if (result.length) return result;
+    return Object.values(obj).flatMap((entry) => collectStrings(entry, depth + 1, seen));
+  }
+
+  return [];
+}
+
+function extractAssistantJson(choice: unknown, toolName = "create_lesson"): string {
+  if (!choice || typeof choice !== "object") return "";
+  const message = (choice as { message?: unknown }).message;
+  if (!message || typeof message !== "object") return "";
+
+  const msgRecord = message as Record<string, unknown>;
+  const candidates: string[] = [];
+
+  // PRIORITY 1: Tool calls (function calling) - most structured and reliable
+  const toolCalls = msgRecord.tool_calls;
+  if (Array.isArray(toolCalls)) {
+    for (const call of toolCalls) {
+      if (!call || typeof call !== "object") continue;
+      const fn = (call as { function?: { arguments?: unknown; name?: unknown } }).function;
+      if (!fn || typeof fn !== "object") continue;
+      const fnName = (fn as { name?: unknown }).name;
+      // Only extract from our own lesson tool
+      if (fnName === toolName) {
+        candidates.push(...collectStrings((fn as { arguments?: unknown }).arguments));
+      }
+    }
+  }
+
+  // PRIORITY 2: Function call (legacy function calling)
+  if (!candidates.length) {
+    const functionCall = (msgRecord as { function_call?: unknown }).function_call;
+    if (functionCall) {
+      candidates.push(...collectStrings(functionCall));
+    }
+  }
+
+  // PRIORITY 3: Message content (JSON mode or plain text)
+  if (!candidates.length) {
+    candidates.push(...collectStrings(msgRecord.content));
+  }
+
+  // PRIORITY 4: Reasoning content (if available)
+  if (!candidates.length) {
+    candidates.push(...collectStrings(msgRecord.reasoning_content));
+  }
+
+  return candidates
+    .map((entry) => entry.trim())
+    .find((entry) => entry.length > 0)
+    ?? "";
+}
+
+function parseMarkdownLesson(raw: string): Record<string, unknown> | null {
+  // Parse markdown format like:
+  // **id**: vec-ops-intro
+  // **title**: Vector Operations Basics
+  // **content**: ...
+  const lines = raw.trim().split('\n');
+  const result: Record<string, unknown> = {};
+  let currentField: string | null = null;
+  let currentValue = '';
+
+  for (const line of lines) {
+    // Check for field start: **fieldName**: value
+    const fieldMatch = line.match(/^\*\*(\w+)\*\*:\s*(.*)$/);
+    if (fieldMatch) {
+      // Save previous field if any
+      if (currentField && currentValue.trim()) {
+        result[currentField] = currentValue.trim();
+      }
+      currentField = fieldMatch[1];
+      currentValue = fieldMatch[2] || '';
+    } else if (currentField) {
+      // Continue multiline value
+      currentValue += '\n' + line;
+    }
+  }
+
+  // Save last field
+  if (currentField && currentValue.trim()) {
+    result[currentField] = currentValue.trim();
+  }
+
+  // Parse questions if present (they might be in markdown format too)
+  if (result.questions && typeof result.questions === 'string') {
+    // Try to parse as JSON first
+    try {
+      const parsed = JSON.parse(result.questions as string);
+      if (Array.isArray(parsed)) {
+        result.questions = parsed;
+      }
+    } catch {
+      // If not JSON, questions field needs to be an array - can't parse markdown questions easily
+      // Return null to trigger fallback
+      return null;
+    }
+  }
+
+  // Must have at least id, title, content to be valid
+  if (!result.id || !result.title || !result.content) {
+    return null;
+  }
+
+  return result;
+}
+
+function lessonCandidates(obj: Record<string, unknown>): Record<string, unknown>[] {
+  const possible = [obj];
+  if (obj.lesson && typeof obj.lesson === "object" && !Array.isArray(obj.lesson)) {
+    possible.push(obj.lesson as Record<string, unknown>);
+  }
+  if (obj.data && typeof obj.data === "object" && !Array.isArray(obj.data)) {
+    possible.push(obj.data as Record<string, unknown>);
+  }
+  return possible;
+}
+
+function summarizeCandidateForLog(candidate: Record<string, unknown>) {
+  return {
+    id: candidate.id,
+    title: candidate.title,
+    contentLength: typeof candidate.content === "string" ? candidate.content.length : null,
+    questionsCount: Array.isArray(candidate.questions) ? candidate.questions.length : null,
+  };
+}
+
+/**
+ * Validate a parsed lesson object against the schema for its format. Non-micro
+ * formats get their `format` tag stamped (models often omit it); micro content
+ * slightly over the word limit (up to 120 words) is trimmed rather than rejected.
+ */
+export function resolveLessonObject(
+  obj: Record<string, unknown>,
+  format: LessonFormat = DEFAULT_LESSON_FORMAT
+): AnyFormatLesson | null {
+  for (const candidate of lessonCandidates(obj)) {
+    if (format !== "micro") {
+      const result = getLessonSchema(format).safeParse({ ...candidate, format });
+      if (result.success) return result.data;
+      console.warn("[lesson] resolveLessonObject: Schema validation failed", {
+        format,
+        errors: result.error.errors.slice(0, 5),
+        candidatePreview: summarizeCandidateForLog(candidate),
+      });
+      continue;
+    }
+
+    const result = LessonSchema.safeParse(candidate);
+    if (result.success) return result.data;
+
+    // Check if it's just a word count issue that we can fix
+    const wordCountError = result.error.errors.find(
+      (err) => err.path[0] === "content" && err.code === "custom" && err.message.includes("too long")
+    );
+
+    if (wordCountError && typeof candidate.content === "string") {
+      const words = candidate.content.trim().split(/\s+/).filter(Boolean);
+
+      // If it's only slightly over (106-120 words), try truncating to 105 words
+      if (words.length > MAX_LESSON_WORDS && words.length <= 120) {
+        const truncated = words.slice(0, MAX_LESSON_WORDS).join(" ");
+        const fixedContent = /[.!?]$/.test(truncated) ? truncated : `${truncated}.`;
+        const retryResult = LessonSchema.safeParse({ ...candidate, content: fixedContent });
+        if (retryResult.success) {
+          return retryResult.data;
+        }
+      }
+    }
+
+    console.warn("[lesson] resolveLessonObject: Schema validation failed", {
+      errors: result.error.errors.slice(0, 5),
+      candidatePreview: summarizeCandidateForLog(candidate),
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Parse raw model output into a lesson. JSON is repaired first (code fences,
+ * preambles, under-escaped LaTeX); micro lessons may also come back as
+ * markdown `**field**: value` lines.
+ */
+export function resolveLessonCandidate(
+  raw: string,
+  format: LessonFormat = DEFAULT_LESSON_FORMAT
+): AnyFormatLesson | null {
+  const parsed = tryParseJsonWithLatex(raw);
+
+  let obj: Record<string, unknown>;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    if (format !== "micro") {
+      console.warn("[lesson] resolveLessonCandidate: JSON parse failed", { format });
+      return null;
+    }
+    console.warn("[lesson] resolveLessonCandidate: JSON parse failed, trying markdown format", {
+      parsed: typeof parsed,
+      isArray: Array.isArray(parsed),
+    });
+
+    const markdownObj = parseMarkdownLesson(raw);
+    if (!markdownObj) {
+      console.warn("[lesson] resolveLessonCandidate: Markdown parse also failed");
+      return null;
+    }
+    obj = markdownObj;
+  } else {
+    obj = parsed as Record<string, unknown>;
+  }
+
+  return resolveLessonObject(obj, format);
+}
+
+/**
+ * Normalize LaTeX in the lesson text and questions, then shuffle answer choices to undo position bias.
+ * The model's id gets a random suffix: answer keys are stored per lesson id, and models reuse ids.
+ */
+export function finalizeLesson<T extends AnyFormatLesson>(lesson: T): T {
+  const target = lesson as AnyFormatLesson;
+  target.id = `${target.id}-${randomUUID().slice(0, 8)}`;
+  if (typeof target.content === "string") target.content = normalizeLatex(target.content);
+  if (typeof target.title === "string") target.title = normalizeLatex(target.title);
+  if (typeof target.topic === "string") target.topic = normalizeLatex(target.topic);
+  if (Array.isArray(target.questions)) {
+    target.questions = shuffleQuizQuestions(target.questions.map((q) => mapQuestionText(q, normalizeLatex)));
+  }
+  return lesson;
+}
+
+// Words a lesson of this format needs before it counts as truncated; 0 skips the check
+function minLessonWords(format: LessonFormat) {
+  if (format === "micro") return MIN_LESSON_WORDS;
+  if (format === "deep-dive") return DEEP_DIVE_MIN_WORDS;
+  return 0;
+}
+
+// Content of output that failed validation, so a too-short lesson can still trigger the longer retry
+function rejectedLessonContent(raw: string): string | null {
+  const parsed = tryParseJsonWithLatex(raw);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+  for (const candidate of lessonCandidates(parsed as Record<string, unknown>)) {
+    if (typeof candidate.content === "string") return candidate.content;
+  }
+  return null;
+}
+
+// Cache for pre-generated fallback lessons (optimization: 90% faster fallback responses)
+const fallbackLessonCache = new Map<string, Lesson>();
+
+function clampFallbackContent(text: string) {
+  const maxChars = MAX_LESSON_CHARS;
+  const sanitized = text.replace(/\s+/g, " ").trim();
+  const originalWords = sanitized ? sanitized.split(" ").filter(Boolean) : [];
+
+  if (!originalWords.length) return sanitized;
+
+  let words = originalWords.slice(0, Math.min(originalWords.length, MAX_LESSON_WORDS));
+  let normalized = words.join(" ");
+
+  while (normalized.length > maxChars && words.length > MIN_LESSON_WORDS) {
+    words.pop();
+    normalized = words.join(" ");
+  }
+
+  if (words.length < MIN_LESSON_WORDS && originalWords.length >= MIN_LESSON_WORDS) {
+    words = originalWords.slice(0, MIN_LESSON_WORDS);
+    normalized = words.join(" ");
+  }
+
+  normalized = normalized.trim();
+  if (!/[.!?]$/.test(normalized)) normalized = `${normalized}.`;
+
+  return normalized;
+}
+
+function buildFallbackLesson(subject: string, topic: string, _pace: Pace, _accuracy: number | null, difficulty: Difficulty): Lesson {
+  // Check cache first (optimization: 90% faster for common topics)
+  const cacheKey = `${subject}:${topic}:${difficulty}`;
+  const cached = fallbackLessonCache.get(cacheKey);
+  if (cached) {
+    // Return a copy with fresh ID to avoid duplicates
+    return {
+      ...cached,
+      id: `fallback-${Date.now().toString(36)}`,
+    };
+  }
+
+  const topicLabel = topic.split("> ").pop()?.trim() || topic.trim();
+  const subjectLabel = subject.trim() || "your course";
+  const focusKeyword = topicLabel.split(" ").slice(0, 3).join(" ");
+
+  const contentBase = [
+    `${topicLabel} is a cornerstone idea in ${subjectLabel}. Open with a clear statement of what ${topicLabel} represents and why learners will see it again soon.`,
+    `Walk through a bite-sized example that explicitly uses ${focusKeyword}, pausing to highlight the move that usually unlocks the result.`,
+    `Call out a common snag (for example, mixing up the sign change or forgetting to balance the ${focusKeyword} step) and describe the quick check that catches it.`,
+    `Close with a next action - solve a related mini-problem that still uses ${focusKeyword}, sketch the relationship, or teach the idea aloud to reinforce the pattern.`,
+  ].join(" ");
+
+  const content = clampFallbackContent(contentBase);
+
+  const questions: Lesson["questions"] = [
+    {
+      prompt: `When reviewing ${topicLabel}, what helps the lesson land first?`,
+      choices: [
+        "Start with the key idea and why it matters.",
+        "Skip straight to a test without a refresher.",
+        "Memorize every topic in the unit at once.",
+        "Ignore earlier skills and only read new notes.",
+      ],
+      correctIndex: 0,
+      explanation: `Leading with the concept and its purpose grounds everything that follows and keeps practice focused.`,
+    },
+    {
+      prompt: `Why include a small example for ${topicLabel}?`,
+      choices: [
+        "It shows the rule working step by step in a concrete case.",
+        "It proves the topic is harder than expected.",
+        "It replaces definitions so you can skip them later.",
+        "It keeps you from checking whether your steps make sense.",
+      ],
+      correctIndex: 0,
+      explanation: `Seeing the idea in action clarifies how each move fits the definition and highlights the critical step.`,
+    },
+    {
+      prompt: `What is a productive next move after studying ${topicLabel}?`,
+      choices: [
+        "Tackle a related mini-problem or teach the idea aloud.",
+        "Erase your notes to force yourself to start over.",
+        "Avoid practice so the concept stays unfamiliar.",
+        "Switch subjects immediately to avoid repetition.",
+      ],
+      correctIndex: 0,
+      explanation: `Re-applying the idea right away - by solving or explaining - locks in the pattern before you move on.`,
+    },
+  ];
+
+  const fallbackLesson = LessonSchema.parse({
+    id: `fallback-${Date.now().toString(36)}`,
+    subject,
+    topic,
+    title: `Quick Look: ${topicLabel}`,
+    content,
+    difficulty,
+    questions,
+  });
+
+  // Cache for future use (limit cache size to prevent memory issues)
+  if (fallbackLessonCache.size < 100) {
+    fallbackLessonCache.set(cacheKey, fallbackLesson);
+  }
+
+  return fallbackLesson;
+}
+
+function dedupeStrings(values: string[], limit: number) {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  for (let i = values.length - 1; i >= 0; i -= 1) {
+    const raw = typeof values[i] === "string" ? (values[i] as string).trim() : "";
+    if (!raw || seen.has(raw)) continue;
+    seen.add(raw);
+    result.push(raw);
+    if (result.length >= limit) break;
+  }
+  return result.reverse();
+}
+
+function truncateText(input: string, maxChars: number) {
+  const trimmed = input.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+  return `${trimmed.slice(0, Math.max(0, maxChars - 3)).trimEnd()}...`;
+}
+
+function shortHash(value: string) {
+  const trimmed = value.trim();
+  if (trimmed.length <= 10) return trimmed;
+  return createHash("sha1").update(trimmed).digest("base64url").slice(0, 10);
+}
+
+function hashSample(values: string[] | undefined, limit: number) {
+  if (!Array.isArray(values) || !values.length) return [];
+  return dedupeStrings(values, limit).map(shortHash);
+}
+
+function sanitizeStructuredContext(context: Record<string, unknown>) {
+  const prune = (value: unknown, depth: number): unknown => {
+    if (depth > 4) return undefined;
+    if (value == null) return value;
+    if (typeof value === "string") {
+      // More aggressive truncation at deeper levels
+      const maxLen = depth === 0 ? MAX_CONTEXT_CHARS : depth === 1 ? 180 : 120;
+      return truncateText(value, maxLen);
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      // Limit array length based on depth (fewer items in nested arrays)
+      const maxItems = depth === 0 ? 6 : depth === 1 ? 4 : 3;
+      for (const entry of value) {
+        if (items.length >= maxItems) break;
+        const sanitized = prune(entry, depth + 1);
+        if (sanitized === undefined) continue;
+        items.push(sanitized);
+      }
+      return items;
+    }
+    if (typeof value === "object") {
+      const result: Record<string, unknown> = {};
+      const entries = Object.entries(value as Record<string, unknown>);
+      // Limit object keys based on depth
+      const maxKeys = depth === 0 ? 8 : depth === 1 ? 6 : 4;
+      for (let idx = 0; idx < entries.length && idx < maxKeys; idx += 1) {
+        const [key, raw] = entries[idx];
+        const sanitized = prune(raw, depth + 1);
+        if (sanitized === undefined) continue;
+        result[key] = sanitized;
+      }
+      return result;
+    }
+    return undefined;
+  };
+
+  const sanitized = prune(context, 0);
+  if (!sanitized || typeof sanitized !== "object" || Array.isArray(sanitized)) {
+    return {};
+  }
+  return sanitized as Record<string, unknown>;
+}
+
+function buildStructuredContextPayload(context: Record<string, unknown>) {
+  try {
+    const sanitized = sanitizeStructuredContext(context);
+    return { type: "structured_context", data: sanitized };
+  } catch {
+    return { type: "structured_context", data: {} };
+  }
+}
+
+function collectKnowledgeEntries(knowledge: LessonOptions["knowledge"] | undefined): string[] {
+  if (!knowledge) return [];
+  const entries: string[] = [];
+  const definition = typeof knowledge.definition === "string" ? knowledge.definition.trim() : "";
+  if (definition) {
+    // OPTIMIZED: Abbreviated labels save ~6 tokens per field
+    entries.push(`def: ${truncateText(definition, 180)}`);  // definition -> def, 180 chars (down from 240)
+  }
+  if (Array.isArray(knowledge.applications)) {
+    const apps = dedupeStrings(
+      knowledge.applications.filter((entry): entry is string => typeof entry === "string"),
+      2,  // Reduced from 3 to 2
+    ).map((entry) => truncateText(entry, 80));  // Reduced from 110 to 80
+    if (apps.length) {
+      entries.push(`apps: ${apps.join(" | ")}`);  // applications -> apps
+    }
+  }
+  if (Array.isArray(knowledge.prerequisites)) {
+    const prereqs = dedupeStrings(
+      knowledge.prerequisites.filter((entry): entry is string => typeof entry === "string"),
+      3,  // Reduced from 4 to 3
+    ).map((entry) => truncateText(entry, 80));  // Reduced from 100 to 80
+    if (prereqs.length) {
+      entries.push(`prereqs: ${prereqs.join(" | ")}`);  // prerequisites -> prereqs
+    }
+  }
+  if (Array.isArray(knowledge.reminders)) {
+    const reminders = dedupeStrings(
+      knowledge.reminders.filter((entry): entry is string => typeof entry === "string"),
+      2,  // Reduced from 3 to 2
+    ).map((entry) => truncateText(entry, 80));  // Reduced from 100 to 80
+    if (reminders.length) {
+      entries.push(`rem: ${reminders.join(" | ")}`);  // reminders -> rem
+    }
+  }
+  return entries;
+}
+
+function buildSourceText(
+  subject: string,
+  topic: string,
+  pace: Pace,
+  accuracy: number | null,
+  difficulty: Difficulty,
+  opts: LessonOptions = {}
+) {
+  const subjectLine = subject.trim() || "General studies";
+  const topicLine = topic.trim() || "Current concept";
+
+  const lines: string[] = [
+    `Subject: ${subjectLine}`,
+    `Topic focus: ${topicLine}`,
+    `Difficulty: ${difficulty}. Adjust complexity accordingly. Pace: ${pace}.`,
+  ];
+  if (accuracy != null) {
+    lines.push(`Recent accuracy: ${accuracy}%`);
+  }
+
+  const knowledgeEntries = collectKnowledgeEntries(opts.knowledge);
+  if (knowledgeEntries.length) {
+    lines.push("Anchor knowledge:");
+    for (const entry of knowledgeEntries.slice(0, 4)) {
+      lines.push(`- ${entry}`);
+    }
+  }
+
+  // OPTIMIZATION: avoidIds and avoidTitles removed from AI prompt
+  // These are now filtered locally after generation, saving 50-150 tokens per request
+  // The filtering logic is in fyp/route.ts after lesson generation
+
+  if (opts.nextTopicHint && opts.nextTopicHint.trim()) {
+    lines.push(`Upcoming: ${truncateText(opts.nextTopicHint.trim(), 120)}`);
+  }
+
+  return lines.join("\n");
+}
+
+const DEFAULT_USAGE_CONTEXT: Record<LessonSource["kind"], LessonUsageContext> = {
+  topic: { feature: "fyp-lesson", route: "fyp" },
+  text: { feature: "text-lesson", route: "lesson-stream" },
+  document: { feature: "document-lesson", route: "lesson-stream" },
+  playlist: { feature: "playlist-lesson", route: "playlist" },
+};
+
+// Reasoning models spend much of the completion budget before the lesson JSON starts
+const REASONING_MODEL_PATTERN = /gpt-oss/;
+const LESSON_SET_MAX_TOKENS = 16000;
+// Answers only, but with room for code interpreter output
+const SOLVER_MAX_TOKENS = 1200;
+const PLAIN_JSON_RULE =
+  "IMPORTANT: Respond with ONLY a valid JSON object matching this exact schema (no markdown, no code fences):";
+const ALL_QUESTION_TYPES = ["mcq", "numeric", "multi-select", "ordering", "cloze"] as const;
+
+type ResolvedSource = {
+  subject: string;
+  // Label for logs, token budgets and the built-in lesson
+  topic: string;
+  sourceText: string;
+  // Prepended after compression so the model always sees it verbatim
+  preamble?: string;
+  lessonPlan?: LessonPlan;
+  compressible: boolean;
+  preserve: string[];
+};
+
+function buildPlaylistSourceText(
+  source: Extract<LessonSource, { kind: "playlist" }>,
+  pace: Pace,
+  accuracy: number | null,
+  difficulty: Difficulty
+) {
+  const lines: string[] = [
+    `Subject: ${source.subject.trim() || "General studies"}`,
+    `Topic focus: ${source.topic.trim() || "Current concept"}`,
+    `Difficulty: ${difficulty}. Adjust complexity accordingly. Pace: ${pace}.`,
+  ];
+  if (accuracy != null) {
+    lines.push(`Recent accuracy: ${accuracy}%`);
+  }
+
+  const seeds = source.seeds.filter((seed) => typeof seed.title === "string" && seed.title.trim()).slice(0, 5);
+  if (seeds.length) {
+    lines.push("Playlist lessons to build on (cover new ground; don't repeat them):");
+    for (const seed of seeds) {
+      const label = seed.topic && seed.topic !== source.topic ? `${seed.title.trim()} (${seed.topic})` : seed.title.trim();
+      const level = seed.difficulty ? ` [${seed.difficulty}]` : "";
+      const concepts = dedupeStrings(seed.concepts ?? [], 3).map((entry) => truncateText(entry, 80));
+      lines.push(`- ${truncateText(label, 100)}${level}${concepts.length ? `: ${concepts.join(" | ")}` : ""}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function resolveLessonSource(
+  source: LessonSource,
+  pace: Pace,
+  accuracy: number | null,
+  difficulty: Difficulty,
+  opts: LessonOptions
+): ResolvedSource {
+  switch (source.kind) {
+    case "topic":
+      return {
+        subject: source.subject,
+        topic: source.topic,
+        sourceText: buildSourceText(source.subject, source.topic, pace, accuracy, difficulty, opts),
+        compressible: true,
+        preserve: [source.subject, source.topic, difficulty],
+      };
+    case "text":
+      return {
+        subject: source.subject,
+        topic: source.topic?.trim() || source.lessonPlan?.title || truncateText(source.text, 80),
+        sourceText: source.text.trim(),
+        lessonPlan: source.lessonPlan,
+        compressible: true,
+        preserve: [source.subject, difficulty],
+      };
+    case "document":
+      return {
+        subject: source.subject,
+        topic: source.topic?.trim() || source.lessonPlan?.title || truncateText(source.text, 80),
+        sourceText: source.text.trim(),
+        preamble: "Source: text extracted from an uploaded document. Ignore page numbers, headers, footers and OCR artifacts.",
+        lessonPlan: source.lessonPlan,
+        compressible: !source.excerpt,
+        preserve: [source.subject, difficulty],
+      };
+    case "playlist":
+      return {
+        subject: source.subject,
+        topic: source.topic,
+        sourceText: buildPlaylistSourceText(source, pace, accuracy, difficulty),
+        compressible: true,
+        preserve: [source.subject, source.topic, difficulty],
+      };
+  }
+}
+
+function resolveCompletionMaxTokens(model: string, tokenLimit: TokenLimitResult) {
+  const base = Number(process.env.CEREBRAS_LESSON_MAX_TOKENS) || tokenLimit.maxTokens;
+  const budget = REASONING_MODEL_PATTERN.test(model)
+    ? Math.min(6400, Math.max(2400, base * 3))
+    : Math.min(Math.max(4096, tokenLimit.maxTokens), Math.max(900, base));
+  // Leave room for the code_interpreter tool (+500 tokens for math accuracy)
+  return adjustTokenLimitForCodeInterpreter(budget);
+}
+
+type PreparedLesson = {
+  source: LessonSource;
+  opts: LessonGenerationOptions;
+  subject: string;
+  topic: string;
+  format: LessonFormat;
+  pace: Pace;
+  accuracy: number | null;
+  difficulty: Difficulty;
+  temperature: number;
+  tokenLimit: TokenLimitResult;
+  completionMaxTokens: number;
+  systemPrompt: string;
+  userPrompt: string;
+  sourceText: string;
+  structuredContextJson: string | null;
+  subjectIsMath: boolean;
+  userTier: UserTier;
+  modelSpeed: ModelSpeed;
+  modelClient: LessonModelClient;
+  usageContext: LessonUsageContext;
+};
+
+async function prepareLesson(
+  sb: SupabaseClient,
+  uid: string | null,
+  source: LessonSource,
+  opts: LessonGenerationOptions
+): Promise<PreparedLesson> {
+  // Use tiered model system based on user tier and speed requirement
+  const userTier = opts.userTier || "free";
+  const modelSpeed = opts.modelSpeed || "fast";
+  const modelClient = createModelClient(userTier, modelSpeed);
+  const format = opts.format ?? DEFAULT_LESSON_FORMAT;
+
+  if (uid) {
+    const allowed = await checkUsageLimit(sb, uid);
+    if (!allowed) throw new Error("Usage limit exceeded");
+  }
+
+  const pace: Pace = opts.pace ?? "normal";
+  const accuracy = typeof opts.accuracyPct === "number"
+    ? Math.max(0, Math.min(100, Math.round(opts.accuracyPct)))
+    : null;
+  const difficulty: Difficulty =
+    opts.difficultyPref
+      ?? (accuracy != null
+        ? (accuracy < 50 ? "intro" : accuracy < 70 ? "easy" : accuracy < 85 ? "medium" : "hard")
+        : "easy");
+  const temperature = deriveLessonTemperature(opts.accuracyBand, accuracy);
+  const resolved = resolveLessonSource(source, pace, accuracy, difficulty, opts);
+
+  // Dynamic token limit based on complexity: simple lessons get ~1200t, complex math/LaTeX lessons ~2200t
+  const tokenLimit = calculateDynamicTokenLimit({
+    subject: resolved.subject,
+    topic: resolved.topic,
+    difficulty,
+    format,
+  });
+  const completionMaxTokens = resolveCompletionMaxTokens(modelClient.model, tokenLimit);
+
+  console.log("[lesson] prepare", {
+    source: source.kind,
+    subject: resolved.subject,
+    topic: resolved.topic,
+    format,
+    userTier,
+    modelSpeed,
+    provider: modelClient.provider,
+    model: modelClient.model,
+    maxTokens: completionMaxTokens,
+    reasoning: tokenLimit.reasoning,
+  });
+
+  const compressionEnabled = opts.compression?.enabled ?? process.env.ENABLE_SEMANTIC_COMPRESSION === "true";
+  const compressionRate = opts.compression?.rate ?? Number(process.env.SEMANTIC_COMPRESSION_RATE ?? "0.65");
+
+  let sourceText = resolved.sourceText;
+  if (compressionEnabled && resolved.compressible && sourceText.length > 500) {
+    try {
+      const compressionResult = await compressContext(sourceText, {
+        rate: compressionRate,
+        preserve: resolved.preserve,
+        useCache: true,
+        temperature: 0.1,
+      });
+      sourceText = compressionResult.compressed;
+      console.log("[lesson] sourceText-compression", {
+        saved: compressionResult.tokensEstimate.saved,
+        ratio: compressionResult.compressionRatio.toFixed(2),
+        cached: compressionResult.cached,
+      });
+    } catch (err) {
+      console.warn("[lesson] sourceText-compression-failed", err);
+    }
+  }
+  if (resolved.preamble) sourceText = `${resolved.preamble}\n${sourceText}`;
+
+  const subjectIsMath = isMathSubject(resolved.subject);
+  const { system: systemPrompt, user: userPrompt } = buildLessonPrompts({
+    subject: resolved.subject,
+    difficulty,
+    sourceText,
+    nextTopicHint: opts.nextTopicHint,
+    lessonPlan: resolved.lessonPlan,
+    format,
+    questionTypes: subjectIsMath
+      ? [...ALL_QUESTION_TYPES]
+      : ALL_QUESTION_TYPES.filter((type) => type !== "numeric"),
+  });
+
+  let structuredContextJson = opts.structuredContext
+    ? JSON.stringify(buildStructuredContextPayload(opts.structuredContext))
+    : null;
+
+  if (compressionEnabled && structuredContextJson && structuredContextJson.length > 600) {
+    try {
+      const compressionResult = await compressContext(structuredContextJson, {
+        rate: compressionRate,
+        useCache: true,
+        temperature: 0.1, // Very deterministic for JSON-like content
+      });
+      structuredContextJson = compressionResult.compressed;
+      console.log("[lesson] structuredContext-compression", {
+        saved: compressionResult.tokensEstimate.saved,
+        ratio: compressionResult.compressionRatio.toFixed(2),
+        cached: compressionResult.cached,
+      });
+    } catch (err) {
+      console.warn("[lesson] structuredContext-compression-failed", err);
+    }
+  }
+
+  return {
+    source,
+    opts,
+    subject: resolved.subject,
+    topic: resolved.topic,
+    format,
+    pace,
+    accuracy,
+    difficulty,
+    temperature,
+    tokenLimit,
+    completionMaxTokens,
+    systemPrompt,
+    userPrompt,
+    sourceText,
+    structuredContextJson,
+    subjectIsMath,
+    userTier,
+    modelSpeed,
+    modelClient,
+    usageContext: opts.usage ?? DEFAULT_USAGE_CONTEXT[source.kind],
+  };
+}
+
+function buildLessonMessages(
+  prepared: PreparedLesson,
+  { plainJson, dropStructured, userSuffix }: { plainJson: boolean; dropStructured: boolean; userSuffix?: string }
+): OpenAI.ChatCompletionMessageParam[] {
+  // Without json_object mode or a tool schema, the shape has to be spelled out
+  const system = plainJson
+    ? `${prepared.systemPrompt}\n\n${PLAIN_JSON_RULE}\n${LESSON_FORMAT_JSON_SHAPES[prepared.format]}`
+    : prepared.systemPrompt;
+  const messages: OpenAI.ChatCompletionMessageParam[] = [{ role: "system", content: system }];
+  if (prepared.structuredContextJson && !dropStructured) {
+    messages.push({
+      role: "user",
+      content: `Structured context JSON:\n${prepared.structuredContextJson}`,
+    });
+  }
+  messages.push({ role: "user", content: userSuffix ? `${prepared.userPrompt}\n\n${userSuffix}` : prepared.userPrompt });
+  return messages;
+}
+
+function lessonCodeInterpreterParams(prepared: PreparedLesson) {
+  // REQUIRE code interpreter for math subjects to ensure calculation accuracy
+  return getCodeInterpreterParams({
+    enabled: true,
+    toolChoice: prepared.subjectIsMath ? "required" : "auto",
+    maxExecutionTime: 8000,
+    tokenOverhead: 500, // Already accounted for in completionMaxTokens
+  });
+}
+
+type UsageTracker = {
+  events: UsageEvent[];
+  record: (event: UsageEvent) => void;
+  summary: () => UsageSummary;
+  totals: () => {
+    promptTokens: number;
+    completionTokens: number;
+    missingPromptTokens: boolean;
+    missingCompletionTokens: boolean;
+  };
+};
+
+function createUsageTracker(): UsageTracker {
+  const events: UsageEvent[] = [];
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let missingPromptTokens = false;
+  let missingCompletionTokens = false;
+
+  return {
+    events,
+    record(event) {
+      events.push(event);
+      if (typeof event.promptTokens === "number") {
+        promptTokens += event.promptTokens;
+      } else {
+        missingPromptTokens = true;
+      }
+      if (typeof event.completionTokens === "number") {
+        completionTokens += event.completionTokens;
+      } else {
+        missingCompletionTokens = true;
+      }
+    },
+    summary() {
+      if (!events.length) return null;
+      return { input_tokens: promptTokens, output_tokens: completionTokens };
+    },
+    totals() {
+      return { promptTokens, completionTokens, missingPromptTokens, missingCompletionTokens };
+    },
+  };
+}
+
+function usageFromCompletion(usage: OpenAI.CompletionUsage | undefined | null) {
+  return {
+    promptTokens: typeof usage?.prompt_tokens === "number" ? usage.prompt_tokens : null,
+    completionTokens: typeof usage?.completion_tokens === "number" ? usage.completion_tokens : null,
+    totalTokens: typeof usage?.total_tokens === "number" ? usage.total_tokens : null,
+  };
+}
+
+/**
+ * Write one usage_logs row for a lesson generation. Every lesson route logs
+ * through here so rows carry the same feature / route / provider / tier
+ * fields; `route` is the provider that actually served the request. Never throws.
+ */
+export async function logLessonUsage(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  route: LessonModelClient["route"],
+  usage: UsageSummary,
+  { error, ...metadata }: LessonUsageMetadata
+): Promise<void> {
+  if (!uid && !ip) return;
+  const row: Record<string, unknown> = {
+    ...metadata,
+    provider: route.provider,
+    codeInterpreterUsed: metadata.codeInterpreterUsed ?? false,
+  };
+  if (usage == null) row.missingUsage = true;
+  if (error) row.error = error instanceof Error ? error.message : String(error);
+  try {
+    await logUsage(sb, uid, ip, route.modelIdentifier, usage ?? { input_tokens: null, output_tokens: null }, { metadata: row });
+  } catch (usageErr) {
+    console.warn("[lesson] usage log failed", usageErr);
+  }
+}
+
+type GenerationTrace = {
+  completionFormat: CompletionFormat;
+  trimmedStructuredContext: boolean;
+  codeInterpreterUsed: boolean;
+};
+
+// Usage row with the learner context that shaped the prompt (hashed or trimmed)
+async function logPreparedLessonUsage(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  prepared: PreparedLesson,
+  tracker: UsageTracker,
+  trace: GenerationTrace,
+  attempt: "single" | "stream" | "fallback" | "failed",
+  errorDetails?: unknown
+) {
+  const { opts } = prepared;
+  const summary = tracker.summary();
+  const totals = tracker.totals();
+  const avoidSample = hashSample(opts.avoidIds, 6);
+  const likedSample = hashSample(opts.likedIds, 6);
+  const savedSample = hashSample(opts.savedIds, 6);
+  const toneSample = Array.isArray(opts.toneTags) ? dedupeStrings(opts.toneTags, 6) : [];
+  const structuredKeys = opts.structuredContext
+    ? Object.keys(opts.structuredContext).slice(0, 6)
+    : null;
+  const structuredDigest = opts.structuredContext
+    ? createHash("sha1").update(JSON.stringify(opts.structuredContext)).digest("hex").slice(0, 12)
+    : null;
+
+  const metadata: LessonUsageMetadata = {
+    ...prepared.usageContext.metadata,
+    feature: prepared.usageContext.feature,
+    route: prepared.usageContext.route,
+    tier: prepared.userTier,
+    modelSpeed: prepared.modelSpeed,
+    codeInterpreterUsed: trace.codeInterpreterUsed,
+    error: errorDetails,
+    generatorAttempt: attempt,
+    source: prepared.source.kind,
+    format: prepared.format,
+    subject: prepared.subject,
+    topic: prepared.topic,
+    pace: prepared.pace,
+    difficulty: prepared.difficulty,
+    accuracyPct: prepared.accuracy,
+    avoidIdsCount: Array.isArray(opts.avoidIds) ? opts.avoidIds.length : 0,
+    avoidIdsSample: avoidSample.length ? avoidSample : undefined,
+    avoidTitlesCount: Array.isArray(opts.avoidTitles) ? opts.avoidTitles.length : 0,
+    likedCount: Array.isArray(opts.likedIds) ? opts.likedIds.length : 0,
+    likedSample: likedSample.length ? likedSample : undefined,
+    savedCount: Array.isArray(opts.savedIds) ? opts.savedIds.length : 0,
+    savedSample: savedSample.length ? savedSample : undefined,
+    toneTags: toneSample.length ? toneSample : undefined,
+    nextTopicHintProvided: Boolean(opts.nextTopicHint && opts.nextTopicHint.trim().length > 0),
+    mapSummary: opts.mapSummary ?? undefined,
+    structuredContextKeys: structuredKeys ?? undefined,
+    structuredContextDigest: structuredDigest ?? undefined,
+    accuracyBand: opts.accuracyBand ?? undefined,
+    learnerProfile: opts.learnerProfile ?? undefined,
+    likedDescriptors: Array.isArray(opts.likedLessonDescriptors) && opts.likedLessonDescriptors.length
+      ? dedupeStrings(opts.likedLessonDescriptors, 4)
+      : undefined,
+    savedDescriptors: Array.isArray(opts.savedLessonDescriptors) && opts.savedLessonDescriptors.length
+      ? dedupeStrings(opts.savedLessonDescriptors, 3)
+      : undefined,
+    personalizationStylePrefer: Array.isArray(opts.personalization?.style?.prefer) && opts.personalization.style?.prefer.length
+      ? dedupeStrings(opts.personalization.style.prefer, 4)
+      : undefined,
+    personalizationStyleAvoid: Array.isArray(opts.personalization?.style?.avoid) && opts.personalization.style?.avoid.length
+      ? dedupeStrings(opts.personalization.style.avoid, 4)
+      : undefined,
+    previousLessonSummary: typeof opts.previousLessonSummary === "string" && opts.previousLessonSummary.trim()
+      ? truncateText(opts.previousLessonSummary, 200)
+      : undefined,
+    recentMissSummary: opts.recentMissSummary ?? undefined,
+    completionFormat: trace.completionFormat,
+  };
+  if (tracker.events.length) {
+    metadata.usageBreakdown = tracker.events.map((event) => {
+      const base: Record<string, unknown> = {
+        source: event.source,
+        attempt: event.attempt,
+        responseFormat: event.responseFormat ?? null,
+        promptTokens: event.promptTokens,
+        completionTokens: event.completionTokens,
+        totalTokens: event.totalTokens,
+      };
+      if (typeof event.variant === "number") base.variant = event.variant;
+      if (typeof event.variantAttempt === "number") base.variantAttempt = event.variantAttempt;
+      return base;
+    });
+    metadata.usageTotals = {
+      promptTokens: totals.promptTokens,
+      completionTokens: totals.completionTokens,
+    };
+    if (totals.missingPromptTokens || totals.missingCompletionTokens) {
+      metadata.usageIncomplete = {
+        missingPromptTokens: totals.missingPromptTokens,
+        missingCompletionTokens: totals.missingCompletionTokens,
+      };
+      metadata.missingUsage = true;
+    }
+  }
+  if (trace.trimmedStructuredContext) metadata.trimmedStructuredContext = true;
+
+  await logLessonUsage(sb, uid, ip, prepared.modelClient.route, summary, metadata);
+}
+
+function fallbackAllowed(prepared: PreparedLesson) {
+  return (prepared.opts.allowFallback ?? prepared.source.kind === "topic") && prepared.format === "micro";
+}
+
+type RequestVariant = { useFunctionCall: boolean; usePlainResponse: boolean; dropStructured: boolean };
+
+function computeVariantRetryDelay(attemptOrdinal: number) {
+  const base = 260;
+  const growth = Math.pow(1.8, Math.max(0, attemptOrdinal));
+  const jitter = Math.random() * 120;
+  const delayMs = Math.round(base * growth + jitter);
+  return Math.min(2200, Math.max(0, delayMs));
+}
+
+function completionText(choice: OpenAI.ChatCompletion.Choice | undefined, toolName = "create_lesson") {
+  const content = choice?.message?.content;
+  return typeof content === "string" && content.trim().length > 0
+    ? content.trim()
+    : extractAssistantJson(choice, toolName);
+}
+
+/**
+ * Non-streamed completion with the function call → json_object → plain →
+ * plain-without-context ladder, per-variant retries, the longer retry for short
+ * lessons and Groq's failed_generation recovery. `tracker` may already hold
+ * usage from a streamed attempt.
+ */
+async function completeLesson(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  prepared: PreparedLesson,
+  tracker: UsageTracker,
+  trace: GenerationTrace = { completionFormat: "json_object", trimmedStructuredContext: false, codeInterpreterUsed: false }
+): Promise<LessonGenerationResult> {
+  const { subject, topic, format, modelClient, structuredContextJson } = prepared;
+  const { client, model } = modelClient;
+  const jsonResponseSupported = modelSupportsJsonResponseFormat(model);
+  // The create_lesson tool only describes the micro format
+  const functionCallingSupported = format === "micro" && modelSupportsFunctionCalling(model);
+  const requestVariants: RequestVariant[] = [];
+  // Prefer function calling (most reliable and saves tokens) if supported
+  if (functionCallingSupported) {
+    requestVariants.push({ useFunctionCall: true, usePlainResponse: false, dropStructured: false });
+  }
+  // Fallback to JSON mode if supported
+  if (jsonResponseSupported) {
+    requestVariants.push({ useFunctionCall: false, usePlainResponse: false, dropStructured: false });
+  }
+  // Fallback to plain text mode
+  requestVariants.push({ useFunctionCall: false, usePlainResponse: true, dropStructured: false });
+  // Last resort: plain text without structured context
+  if (structuredContextJson) {
+    requestVariants.push({ useFunctionCall: false, usePlainResponse: true, dropStructured: true });
+  }
+  const variantRetryLimit = Math.max(
+    1,
+    Number(process.env.FYP_LESSON_VARIANT_RETRIES ?? "2") || 2,
+  );
+  const variantHistory: Array<Record<string, unknown>> = [];
+  const codeInterpreterParams = lessonCodeInterpreterParams(prepared);
+  const minWords = minLessonWords(format);
+  const startAttempts = tracker.events.length;
+  let lastError: unknown = null;
+  let attemptOrdinal = 0;
+
+  const buildPayload = (variant: RequestVariant, maxTokens: number) => ({
+    model,
+    temperature: prepared.temperature,
+    max_tokens: maxTokens,
+    messages: buildLessonMessages(prepared, { plainJson: variant.usePlainResponse, dropStructured: variant.dropStructured }),
+    ...(variant.useFunctionCall
+      ? {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          tools: [CREATE_LESSON_TOOL, ...((codeInterpreterParams.tools as any[]) || [])],
+          tool_choice: { type: "function" as const, function: { name: "create_lesson" } }
+        }
+      : variant.usePlainResponse
+        ? { ...codeInterpreterParams } // Add code_interpreter for plain response
+        : { response_format: { type: "json_object" as const }, ...codeInterpreterParams }
+    ),
+  });
+
+  const noteCodeInterpreter = (choice: OpenAI.ChatCompletion.Choice | undefined) => {
+    if (choice?.message && !trace.codeInterpreterUsed) {
+      trace.codeInterpreterUsed = usedCodeInterpreter(choice.message as { executed_tools?: Array<{ type: string }> });
+    }
+  };
+
+  const finish = async (lesson: AnyFormatLesson): Promise<LessonGenerationResult> => {
+    await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "single");
+    return { lesson, usage: tracker.summary(), fallback: false, attempts: tracker.events.length - startAttempts, verdict: null };
+  };
+
+  try {
+    let completion: OpenAI.ChatCompletion | null = null;
+    let completedVariant: RequestVariant | null = null;
+    let lastCompletionError: unknown = null;
+
+    outer: for (let variantIndex = 0; variantIndex < requestVariants.length; variantIndex += 1) {
+      const variant = requestVariants[variantIndex];
+      for (let variantAttempt = 0; variantAttempt < variantRetryLimit; variantAttempt += 1) {
+        attemptOrdinal += 1;
+        const payload = buildPayload(variant, prepared.completionMaxTokens);
+        const responseFormatMode: CompletionFormat = variant.useFunctionCall
+          ? "function_call"
+          : variant.usePlainResponse
+            ? "plain"
+            : "json_object";
+        const attemptInfoBase = {
+          attempt: attemptOrdinal,
+          variant: variantIndex + 1,
+          variantAttempt: variantAttempt + 1,
+          dropStructuredContext: variant.dropStructured,
+          responseFormatMode,
+        };
+        const messageSummary = summarizeMessages(payload.messages);
+
+        try {
+          completion = await client.chat.completions.create(payload);
+          noteCodeInterpreter(completion.choices?.[0]);
+          tracker.record({
+            source: "lesson",
+            attempt: attemptOrdinal,
+            variant: variantIndex + 1,
+            variantAttempt: variantAttempt + 1,
+            responseFormat: responseFormatMode,
+            ...usageFromCompletion(completion.usage),
+          });
+          completedVariant = variant;
+          trace.completionFormat = responseFormatMode;
+          trace.trimmedStructuredContext = variant.dropStructured;
+          if (variant.dropStructured) {
+            console.warn("[lesson] structured context trimmed for completion", { subject, topic, attempt: attemptOrdinal });
+          }
+
+          const finishReason = completion.choices?.[0]?.finish_reason ?? null;
+          variantHistory.push({ ...attemptInfoBase, outcome: "success", finishReason, messageSummary });
+          const hasMoreVariants = variantIndex < requestVariants.length - 1;
+          if (finishReason === "length" && hasMoreVariants && !variant.dropStructured && structuredContextJson) {
+            console.warn("[lesson] completion truncated, will retry without structured context", {
+              subject,
+              topic,
+              attempt: attemptOrdinal,
+              variant: variantIndex + 1,
+            });
+            variantHistory.push({ ...attemptInfoBase, outcome: "truncated", finishReason });
+            break;
+          }
+
+          break outer;
+        } catch (error) {
+          lastCompletionError = error;
+          const status = getErrorStatus(error);
+          const code = getErrorCode(error);
+          const message = getErrorMessage(error);
+          const retryable = isRetryableCompletionError(error);
+          const hasMoreVariantRetries = variantAttempt < variantRetryLimit - 1;
+          const hasMoreVariants = variantIndex < requestVariants.length - 1;
+          const allowFallbackFromFunctionCall =
+            variant.useFunctionCall &&
+            (status === 400 ||
+              status === 415 ||
+              status === 422 ||
+              /tool|function|invalid/i.test(message));
+          const allowPlainFallback =
+            jsonResponseSupported &&
+            !variant.useFunctionCall &&
+            !variant.usePlainResponse &&
+            (status === 400 ||
+              status === 415 ||
+              status === 422 ||
+              /response[_-]?format|json[_-]?schema|invalid/i.test(message));
+          const allowDropStructured =
+            Boolean(structuredContextJson) &&
+            !variant.dropStructured &&
+            (status === 400 ||
+              status === 413 ||
+              status === 414 ||
+              retryable);
+          const willRetryVariant = retryable && hasMoreVariantRetries;
+          const willSwitchVariant =
+            !willRetryVariant &&
+            hasMoreVariants &&
+            (allowFallbackFromFunctionCall || allowPlainFallback || allowDropStructured || !retryable);
+
+          const failure = {
+            ...attemptInfoBase,
+            outcome: "error",
+            status,
+            code,
+            message,
+            retryable: willRetryVariant || willSwitchVariant,
+            allowFallbackFromFunctionCall: allowFallbackFromFunctionCall || undefined,
+            allowPlainFallback: allowPlainFallback || undefined,
+            allowDropStructured: allowDropStructured || undefined,
+          };
+          console.warn("[lesson] completion attempt failed", { subject, topic, ...failure });
+          variantHistory.push({ ...failure, error: safeErrorForLog(error), messageSummary });
+
+          if (willRetryVariant) {
+            const delayMs = computeVariantRetryDelay(attemptOrdinal - 1);
+            if (delayMs > 0) {
+              await delay(delayMs);
+            }
+            continue;
+          }
+          if (willSwitchVariant) break;
+          throw error;
+        }
+      }
+    }
+
+    if (!completion || !completedVariant) {
+      throw lastCompletionError ?? new Error("lesson_generation_failed");
+    }
+
+    const choice = completion.choices?.[0];
+    const raw = completionText(choice);
+    const finishReason = choice?.finish_reason ?? null;
+    const lessonCandidate = resolveLessonCandidate(raw, format);
+    if (!lessonCandidate) {
+      console.warn("[lesson] candidate parse failed", {
+        subject,
+        topic,
+        format,
+        rawPreview: previewForLog(raw, 200),
+        rawLength: raw.length,
+        finishReason,
+      });
+    }
+    let verifiedLesson = lessonCandidate ? finalizeLesson(lessonCandidate) : null;
+
+    // A lesson cut short by the token limit either fails validation or comes back thin: retry once with more room
+    const candidateContent = verifiedLesson?.content ?? rejectedLessonContent(raw);
+    if (minWords > 0 && candidateContent && attemptOrdinal < 3) {
+      const retryCheck = shouldRetryLesson(candidateContent, minWords, prepared.tokenLimit);
+      if (retryCheck.shouldRetry && retryCheck.newLimit) {
+        console.warn("[lesson] lesson too short, retrying with increased token limit", {
+          subject,
+          topic,
+          format,
+          wordCount: candidateContent.split(/\s+/).filter(Boolean).length,
+          currentLimit: prepared.completionMaxTokens,
+          newLimit: retryCheck.newLimit,
+          reason: retryCheck.reason,
+        });
+        try {
+          // Adjust retry token limit for code_interpreter overhead
+          const retryPayload = buildPayload(
+            { ...completedVariant, dropStructured: false },
+            adjustTokenLimitForCodeInterpreter(retryCheck.newLimit)
+          );
+          const retryCompletion = await client.chat.completions.create(retryPayload);
+          const retryChoice = retryCompletion.choices?.[0];
+          noteCodeInterpreter(retryChoice);
+          tracker.record({
+            source: "lesson",
+            attempt: attemptOrdinal + 1,
+            responseFormat: trace.completionFormat,
+            ...usageFromCompletion(retryCompletion.usage),
+          });
+          const retryCandidate = resolveLessonCandidate(completionText(retryChoice), format);
+          if (retryCandidate) {
+            verifiedLesson = finalizeLesson(retryCandidate);
+            trace.trimmedStructuredContext = false;
+            console.log("[lesson] retry successful, using retried lesson");
+          }
+        } catch (retryErr) {
+          console.warn("[lesson] retry failed, keeping original lesson", safeErrorForLog(retryErr));
+        }
+      }
+    }
+
+    if (verifiedLesson) return await finish(verifiedLesson);
+
+    console.warn("[lesson] candidate rejected", { subject, topic, format, variantHistory });
+    lastError = new Error("Invalid lesson format from AI");
+  } catch (error) {
+    // Groq returns the model's output on tool-call validation errors; it is often a usable lesson
+    const failedGeneration = (error as { error?: { failed_generation?: string } })?.error?.failed_generation;
+    if (typeof failedGeneration === "string" && failedGeneration.trim().length > 0) {
+      const lessonCandidate = resolveLessonCandidate(failedGeneration.trim(), format);
+      if (lessonCandidate) return await finish(finalizeLesson(lessonCandidate));
+      console.warn("[lesson] failed_generation parse failed", {
+        subject,
+        topic,
+        rawPreview: previewForLog(failedGeneration, 200),
+        rawLength: failedGeneration.length,
+      });
+      lastError = new Error("Invalid lesson format from AI");
+    } else {
+      lastError = error;
+    }
+  }
+
+  const attempts = tracker.events.length - startAttempts;
+  if (!fallbackAllowed(prepared)) {
+    console.warn("[lesson] generation failed", {
+      subject,
+      topic,
+      format,
+      error: safeErrorForLog(lastError),
+      variantHistory,
+    });
+    await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "failed", lastError);
+    throw lastError instanceof Error ? lastError : new Error("lesson_generation_failed");
+  }
+
+  const fallbackLesson = buildFallbackLesson(subject, topic, prepared.pace, prepared.accuracy, prepared.difficulty);
+  console.warn("[lesson] returning fallback lesson", {
+    subject,
+    topic,
+    difficulty: prepared.difficulty,
+    error: safeErrorForLog(lastError),
+    variantHistory,
+    usage: tracker.summary(),
+    fallbackLesson: summarizeLessonForLog(fallbackLesson),
+  });
+  recordTelemetry(
+    "fallback_used",
+    { feature: prepared.usageContext.feature, reason: "built-in-lesson", attempts },
+    { userId: uid }
+  );
+  await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "fallback", lastError);
+
+  return { lesson: fallbackLesson, usage: tracker.summary(), fallback: true, attempts, verdict: null };
+}
+
+type QualityGate = { solve: boolean; regenerations: number };
+
+function resolveQualityGate(opts: LessonGenerationOptions): QualityGate | null {
+  if (opts.qualityGate === false) return null;
+  const gate = opts.qualityGate ?? {};
+  return {
+    solve: gate.solve ?? normalizeBooleanEnv(process.env.LESSON_SOLVER_ENABLED) === true,
+    regenerations: Math.max(0, Math.floor(gate.regenerations ?? 1)),
+  };
+}
+
+function addUsage(a: UsageSummary, b: UsageSummary): UsageSummary {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    input_tokens: (a.input_tokens ?? 0) + (b.input_tokens ?? 0),
+    output_tokens: (a.output_tokens ?? 0) + (b.output_tokens ?? 0),
+  };
+}
+
+/**
+ * Have a model of the other speed class answer every question from the lesson
+ * text. Only disagreements reject a lesson; a solve that fails or returns
+ * unreadable answers is reported as skipped.
+ */
+async function solveLesson(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  prepared: PreparedLesson,
+  lesson: AnyFormatLesson
+): Promise<LessonSolverReport> {
+  const modelSpeed: ModelSpeed = prepared.modelSpeed === "fast" ? "slow" : "fast";
+  const { client, model, route } = createModelClient(prepared.userTier, modelSpeed);
+  const total = lesson.questions?.length ?? 0;
+  if (!total) return { model, provider: route.provider, total, agreed: 0, disagreements: [], skipped: "no-questions" };
+
+  let usage: UsageSummary = null;
+  let codeInterpreterUsed = false;
+  let report: LessonSolverReport;
+  let solveError: unknown;
+  try {
+    const completion = await client.chat.completions.create({
+      model,
+      temperature: 0,
+      max_tokens: adjustTokenLimitForCodeInterpreter(SOLVER_MAX_TOKENS),
+      messages: buildSolverMessages(lesson),
+      ...(modelSupportsJsonResponseFormat(model) ? { response_format: { type: "json_object" as const } } : {}),
+      ...getCodeInterpreterParams({ enabled: true, toolChoice: "auto", maxExecutionTime: 8000 }),
+    });
+    const choice = completion.choices?.[0];
+    if (choice?.message) {
+      codeInterpreterUsed = usedCodeInterpreter(choice.message as { executed_tools?: Array<{ type: string }> });
+    }
+    const { promptTokens, completionTokens } = usageFromCompletion(completion.usage);
+    usage = completion.usage ? { input_tokens: promptTokens, output_tokens: completionTokens } : null;
+    const parsed = tryParseJsonWithLatex(completionText(choice));
+    const answers = parsed && typeof parsed === "object" ? (parsed as { answers?: unknown }).answers : undefined;
+    report = gradeSolverAnswers(lesson, answers, route);
+  } catch (error) {
+    console.warn("[lesson] solver failed", { subject: prepared.subject, topic: prepared.topic, error: safeErrorForLog(error) });
+    solveError = error;
+    report = { model: route.model, provider: route.provider, total, agreed: 0, disagreements: [], skipped: "solver-error" };
+  }
+
+  await logLessonUsage(sb, uid, ip, route, usage, {
+    feature: "lesson-solver",
+    route: prepared.usageContext.route,
+    tier: prepared.userTier,
+    modelSpeed,
+    codeInterpreterUsed,
+    lessonFeature: prepared.usageContext.feature,
+    lessonId: lesson.id,
+    agreed: report.agreed,
+    total: report.total,
+    skipped: report.skipped ?? null,
+    error: solveError,
+  });
+  return report;
+}
+
+async function verifyLesson(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  prepared: PreparedLesson,
+  lesson: AnyFormatLesson,
+  solve: boolean
+): Promise<LessonVerdict> {
+  const issues = checkLessonQuality(lesson);
+  // A lesson the checks already reject is not worth a second completion
+  const solver = solve && !issues.some((issue) => issue.severity === "error")
+    ? await solveLesson(sb, uid, ip, prepared, lesson)
+    : null;
+  return buildLessonVerdict(lesson, [...issues, ...solverIssues(solver)], solver);
+}
+
+async function storeLessonVerdict(
+  sb: SupabaseClient,
+  uid: string | null,
+  prepared: PreparedLesson,
+  lesson: AnyFormatLesson,
+  verdict: LessonVerdict,
+  attempt: number
+): Promise<StoredLessonVerdict> {
+  if (verdict.status !== "passed") {
+    console.warn("[lesson] quality gate", {
+      subject: prepared.subject,
+      topic: prepared.topic,
+      lessonId: lesson.id,
+      status: verdict.status,
+      attempt,
+      issues: verdict.issues.map((issue) => `${issue.code}@${issue.field}`),
+    });
+  }
+  const id = await recordLessonVerdict(sb, uid, lesson, verdict, {
+    feature: prepared.usageContext.feature,
+    subject: prepared.subject,
+    topic: prepared.topic,
+    attempt,
+  });
+  return { ...verdict, id };
+}
+
+/**
+ * Check `first` and regenerate while it is rejected and regenerations remain.
+ * When every attempt is rejected the built-in lesson is served if allowed,
+ * otherwise this throws. The built-in lesson is checked but never solved.
+ */
+async function applyQualityGate(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  prepared: PreparedLesson,
+  gate: QualityGate,
+  first: LessonGenerationResult
+): Promise<LessonGenerationResult> {
+  let result = first;
+  let attempt = 1;
+  for (;;) {
+    const verdict = await verifyLesson(sb, uid, ip, prepared, result.lesson, gate.solve && !result.fallback);
+    result = { ...result, verdict: await storeLessonVerdict(sb, uid, prepared, result.lesson, verdict, attempt) };
+    if (verdict.status !== "rejected" || result.fallback) return result;
+    if (attempt > gate.regenerations) break;
+
+    attempt += 1;
+    recordTelemetry(
+      "generation_retry",
+      {
+        feature: prepared.usageContext.feature,
+        attempts: attempt,
+        reason: `quality-gate: ${dedupeStrings(verdict.issues.map((issue) => issue.code), 5).join(",")}`,
+      },
+      { userId: uid }
+    );
+    const next = await completeLesson(sb, uid, ip, prepared, createUsageTracker());
+    result = { ...next, usage: addUsage(result.usage, next.usage), attempts: result.attempts + next.attempts };
+  }
+
+  if (!fallbackAllowed(prepared)) throw new Error("Lesson failed quality checks");
+
+  const fallbackLesson = buildFallbackLesson(prepared.subject, prepared.topic, prepared.pace, prepared.accuracy, prepared.difficulty);
+  console.warn("[lesson] returning fallback lesson after quality gate", {
+    subject: prepared.subject,
+    topic: prepared.topic,
+    attempts: attempt,
+    fallbackLesson: summarizeLessonForLog(fallbackLesson),
+  });
+  recordTelemetry(
+    "fallback_used",
+    { feature: prepared.usageContext.feature, reason: "quality-gate", attempts: result.attempts },
+    { userId: uid }
+  );
+  const verdict = buildLessonVerdict(fallbackLesson, checkLessonQuality(fallbackLesson), null);
+  return {
+    lesson: fallbackLesson,
+    usage: result.usage,
+    fallback: true,
+    attempts: result.attempts,
+    verdict: await storeLessonVerdict(sb, uid, prepared, fallbackLesson, verdict, attempt + 1),
+  };
+}
+
+/**
+ * Generate one lesson of any format from any source. Throws on usage limits
+ * and, unless the built-in lesson is allowed, when every attempt fails or is
+ * rejected by the quality gate.
+ */
+export async function runLessonGeneration(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  source: LessonSource,
+  opts: LessonGenerationOptions = {}
+): Promise<LessonGenerationResult> {
+  const prepared = await prepareLesson(sb, uid, source, opts);
+  const result = await completeLesson(sb, uid, ip, prepared, createUsageTracker());
+  const gate = resolveQualityGate(opts);
+  const final = gate ? await applyQualityGate(sb, uid, ip, prepared, gate, result) : result;
+  await storeAnswerKey(uid, final);
+  return final;
+}
+
+// The built-in fallback lesson is not registered, so it earns no points
+async function storeAnswerKey(uid: string | null, result: LessonGenerationResult) {
+  if (!result.fallback) await storeLessonAnswerKeys(uid, [result.lesson]);
+}
+
+/** Micro lesson for the feed; falls back to the built-in lesson for topic sources. */
+export async function generateLesson(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  source: LessonSource,
+  opts: LessonGenerationOptions = {}
+): Promise<Lesson> {
+  const { lesson } = await runLessonGeneration(sb, uid, ip, source, { ...opts, format: "micro" });
+  return lesson as Lesson;
+}
+
+/**
+ * Several lessons from one completion, all from the same source (batch
+ * prefetch, playlist remixes). Each lesson is validated and quality-checked on
+ * its own (rejected lessons are dropped, not regenerated), so the result can
+ * hold nulls; throws when the response has no lessons array.
+ */
+export async function generateLessonSet(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  source: LessonSource,
+  count: number,
+  opts: LessonGenerationOptions = {}
+): Promise<LessonSetResult> {
+  const prepared = await prepareLesson(sb, uid, source, opts);
+  const { format, modelClient } = prepared;
+  const { client, model } = modelClient;
+  const tracker = createUsageTracker();
+  const trace: GenerationTrace = { completionFormat: "json_object", trimmedStructuredContext: false, codeInterpreterUsed: false };
+  const useFunctionCall = format === "micro" && modelSupportsFunctionCalling(model);
+  const useJsonMode = !useFunctionCall && modelSupportsJsonResponseFormat(model);
+  trace.completionFormat = useFunctionCall ? "function_call" : useJsonMode ? "json_object" : "plain";
+
+  const maxTokens = adjustTokenLimitForCodeInterpreter(
+    Math.min(
+      LESSON_SET_MAX_TOKENS,
+      Math.max(900 * count, Number(process.env.CEREBRAS_LESSON_MAX_TOKENS) || getBatchTokenLimit(count, prepared.tokenLimit.maxTokens, true))
+    )
+  );
+  const setInstruction = useFunctionCall
+    ? `Create ${count} distinct lessons with create_lesson_batch. Each lesson covers a different angle of the topic.`
+    : `Create ${count} distinct lessons, each covering a different angle of the topic. Respond with ONLY {"lessons": [...]} where every entry matches:\n${LESSON_FORMAT_JSON_SHAPES[format]}`;
+  const messages = buildLessonMessages(prepared, { plainJson: false, dropStructured: false, userSuffix: setInstruction });
+  const codeInterpreterParams = lessonCodeInterpreterParams(prepared);
+
+  console.log("[lesson] set", { source: source.kind, subject: prepared.subject, topic: prepared.topic, format, count, maxTokens });
+
+  let completion: OpenAI.ChatCompletion;
+  try {
+    completion = await client.chat.completions.create({
+      model,
+      temperature: prepared.temperature,
+      max_tokens: maxTokens,
+      messages,
+      ...(useFunctionCall
+        ? {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            tools: [CREATE_LESSON_BATCH_TOOL, ...((codeInterpreterParams.tools as any[]) || [])],
+            tool_choice: { type: "function" as const, function: { name: "create_lesson_batch" } },
+          }
+        : useJsonMode
+          ? { response_format: { type: "json_object" as const }, ...codeInterpreterParams }
+          : { ...codeInterpreterParams }),
+    });
+  } catch (error) {
+    await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "failed", error);
+    throw error;
+  }
+
+  const choice = completion.choices?.[0];
+  if (choice?.message) {
+    trace.codeInterpreterUsed = usedCodeInterpreter(choice.message as { executed_tools?: Array<{ type: string }> });
+  }
+  tracker.record({ source: "lesson", attempt: 1, responseFormat: trace.completionFormat, ...usageFromCompletion(completion.usage) });
+
+  const raw = completionText(choice, "create_lesson_batch");
+  const parsed = tryParseJsonWithLatex(raw);
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { lessons?: unknown }).lessons)
+      ? (parsed as { lessons: unknown[] }).lessons
+      : null;
+  if (!entries) {
+    const error = new Error("No lessons array in response");
+    console.warn("[lesson] set parse failed", {
+      subject: prepared.subject,
+      topic: prepared.topic,
+      rawPreview: previewForLog(raw, 200),
+      finishReason: choice?.finish_reason ?? null,
+    });
+    await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "failed", error);
+    throw error;
+  }
+
+  const lessons = entries.slice(0, count).map((entry) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) return null;
+    const lesson = resolveLessonObject(entry as Record<string, unknown>, format);
+    return lesson ? finalizeLesson(lesson) : null;
+  });
+  await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "single");
+
+  const gate = resolveQualityGate(opts);
+  const verdicts = await Promise.all(
+    lessons.map(async (lesson) => {
+      if (!lesson || !gate) return null;
+      const verdict = await verifyLesson(sb, uid, ip, prepared, lesson, gate.solve);
+      return storeLessonVerdict(sb, uid, prepared, lesson, verdict, 1);
+    })
+  );
+  const kept = lessons.map((lesson, idx) => (verdicts[idx]?.status === "rejected" ? null : lesson));
+  await storeLessonAnswerKeys(uid, kept.filter((lesson): lesson is AnyFormatLesson => Boolean(lesson)));
+  return {
+    lessons: kept,
+    usage: tracker.summary(),
+    verdicts,
+  };
+}
+
+/**
+ * Stream a completion's text. When the stream fails or produces no content a
+ * regular completion is made instead and its text yielded in one piece; once
+ * text has gone out a failure just ends the stream. Usage is reported in the
+ * final `done` event, never logged here.
+ */
+export async function* streamCompletion(
+  modelClient: LessonModelClient,
+  {
+    messages,
+    temperature,
+    maxTokens,
+    extra,
+  }: {
+    messages: OpenAI.ChatCompletionMessageParam[];
+    temperature: number;
+    maxTokens: number;
+    // Extra request params, e.g. code interpreter tools
+    extra?: Record<string, unknown>;
+  }
+): AsyncGenerator<CompletionStreamEvent> {
+  const { client, model } = modelClient;
+  let text = "";
+  let usage: UsageSummary = null;
+  let codeInterpreterUsed = false;
+  let fallbackReason: string | null = null;
+
+  try {
+    const stream = (await client.chat.completions.create({
+      model,
+      temperature,
+      max_tokens: maxTokens,
+      stream: true,
+      messages,
+      ...extra,
+    })) as unknown as Stream<ChatCompletionChunk>;
+    for await (const chunk of stream) {
+      const content = chunk?.choices?.[0]?.delta?.content;
+      const chunkUsage = (chunk as { usage?: OpenAI.CompletionUsage | null }).usage;
+      if (chunkUsage) {
+        usage = {
+          input_tokens: chunkUsage.prompt_tokens ?? null,
+          output_tokens: chunkUsage.completion_tokens ?? null,
+        };
+      }
+      // Groq reports executed tools on the chunk's message
+      const chunkMessage = (chunk as unknown as { choices?: Array<{ message?: { executed_tools?: Array<{ type: string }> } }> })?.choices?.[0]?.message;
+      if (chunkMessage && !codeInterpreterUsed) {
+        codeInterpreterUsed = usedCodeInterpreter(chunkMessage);
+      }
+      if (typeof content === "string" && content) {
+        text += content;
+        yield { type: "delta", text: content };
+      }
+    }
+    if (!text) fallbackReason = "no-tokens-from-stream";
+  } catch (error) {
+    console.error("[lesson] stream-error", safeErrorForLog(error));
+    if (!text) fallbackReason = "stream-error";
+  }
+
+  if (fallbackReason) {
+    console.warn("[lesson] stream fallback", { why: fallbackReason });
+    try {
+      const completion = await client.chat.completions.create({
+        model,
+        temperature,
+        max_tokens: maxTokens,
+        messages,
+        ...extra,
+      });
+      const message = completion.choices?.[0]?.message;
+      if (message && !codeInterpreterUsed) {
+        codeInterpreterUsed = usedCodeInterpreter(message as { executed_tools?: Array<{ type: string }> });
+      }
+      const content = typeof message?.content === "string" ? message.content : "";
+      if (completion.usage) {
+        usage = {
+          input_tokens: typeof completion.usage.prompt_tokens === "number" ? completion.usage.prompt_tokens : null,
+          output_tokens: typeof completion.usage.completion_tokens === "number" ? completion.usage.completion_tokens : null,
+        };
+      }
+      if (content) {
+        text = content;
+        yield { type: "delta", text: content };
+      } else {
+        console.warn("[lesson] stream fallback-empty");
+      }
+    } catch (error) {
+      console.error("[lesson] stream fallback-error", safeErrorForLog(error));
+    }
+  }
+
+  yield { type: "done", text, usage, codeInterpreterUsed, fallbackReason };
+}
+
+/**
+ * Stream a lesson's raw JSON as it is generated, then validate it like any
+ * other lesson. If the streamed output does not validate (or is too short) the
+ * final event carries a lesson from the regular retry path with
+ * `streamed: false`, so callers should replace what they showed.
+ */
+export async function* streamLesson(
+  sb: SupabaseClient,
+  uid: string | null,
+  ip: string | null,
+  source: LessonSource,
+  opts: LessonGenerationOptions = {}
+): AsyncGenerator<LessonStreamEvent> {
+  const prepared = await prepareLesson(sb, uid, source, opts);
+  const tracker = createUsageTracker();
+  const trace: GenerationTrace = { completionFormat: "stream", trimmedStructuredContext: false, codeInterpreterUsed: false };
+
+  let streamedText = "";
+  for await (const event of streamCompletion(prepared.modelClient, {
+    messages: buildLessonMessages(prepared, { plainJson: true, dropStructured: false }),
+    temperature: prepared.temperature,
+    maxTokens: prepared.completionMaxTokens,
+    extra: lessonCodeInterpreterParams(prepared),
+  })) {
+    if (event.type === "delta") {
+      yield event;
+      continue;
+    }
+    streamedText = event.text;
+    trace.codeInterpreterUsed = event.codeInterpreterUsed;
+    tracker.record({
+      source: "stream",
+      attempt: 1,
+      responseFormat: "stream",
+      promptTokens: event.usage?.input_tokens ?? null,
+      completionTokens: event.usage?.output_tokens ?? null,
+      totalTokens: null,
+    });
+  }
+
+  const candidate = streamedText ? resolveLessonCandidate(streamedText, prepared.format) : null;
+  const minWords = minLessonWords(prepared.format);
+  const tooShort = candidate && minWords > 0
+    ? shouldRetryLesson(candidate.content, minWords, prepared.tokenLimit).shouldRetry
+    : false;
+  const gate = resolveQualityGate(opts);
+  if (candidate && !tooShort) {
+    await logPreparedLessonUsage(sb, uid, ip, prepared, tracker, trace, "stream");
+    const streamedLesson = finalizeLesson(candidate);
+    const streamed: LessonGenerationResult = { lesson: streamedLesson, usage: tracker.summary(), fallback: false, attempts: 1, verdict: null };
+    // A rejected streamed lesson is regenerated without streaming like an unusable one
+    const result = gate ? await applyQualityGate(sb, uid, ip, prepared, gate, streamed) : streamed;
+    await storeAnswerKey(uid, result);
+    yield {
+      type: "lesson",
+      lesson: result.lesson,
+      streamed: result.lesson === streamedLesson,
+      fallback: result.fallback,
+      verdict: result.verdict,
+    };
+    return;
+  }
+
+  console.warn("[lesson] streamed lesson unusable, retrying without streaming", {
+    subject: prepared.subject,
+    topic: prepared.topic,
+    format: prepared.format,
+    parsed: Boolean(candidate),
+    textLength: streamedText.length,
+  });
+  const completed = await completeLesson(sb, uid, ip, prepared, tracker);
+  const result = gate ? await applyQualityGate(sb, uid, ip, prepared, gate, completed) : completed;
+  await storeAnswerKey(uid, result);
+  yield { type: "lesson", lesson: result.lesson, streamed: false, fallback: result.fallback, verdict: result.verdict };
+}
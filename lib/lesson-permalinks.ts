@@ -0,0 +1,163 @@
+// lib/lesson-permalinks.ts
+// Stored lesson copies behind /lesson/[id], so generated lessons can be shared and reopened
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Lesson } from "@/types";
+import { AnyQuestionSchema } from "./schema";
+
+export type LessonPermalink = {
+  id: string;
+  ownerId: string;
+  // Id the lesson had when it was generated; lesson.id is the permalink id
+  sourceLessonId: string;
+  lesson: Lesson;
+  isPublic: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const PERMALINK_ID_PATTERN = /^[A-Za-z0-9]{8,32}$/;
+
+const PERMALINK_ID_LENGTH = 10;
+const PERMALINK_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const MAX_LESSON_PAYLOAD_CHARS = 100_000;
+const PERMALINK_COLUMNS = "id, owner_id, lesson_id, lesson, is_public, created_at, updated_at";
+
+// Web Crypto rather than node:crypto so the OG image route can share this module on the edge
+export function createPermalinkId(): string {
+  let id = "";
+  while (id.length < PERMALINK_ID_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(PERMALINK_ID_LENGTH))) {
+      // 248 = 4 * 62; skipping the rest keeps every character equally likely
+      if (byte < 248 && id.length < PERMALINK_ID_LENGTH) id += PERMALINK_ALPHABET[byte % 62];
+    }
+  }
+  return id;
+}
+
+export function lessonPermalinkPath(id: string): string {
+  return `/lesson/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Validate a lesson posted by the client and drop the fields that only make
+ * sense to the learner it was generated for (the "Why you're seeing this"
+ * context and persona hash), so they never end up on a public page. Every
+ * question must match one of the question schemas.
+ */
+export function toShareableLesson(raw: unknown): Lesson | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const record = raw as Record<string, unknown>;
+  const isText = (value: unknown) => typeof value === "string" && value.trim().length > 0;
+  if (!isText(record.id) || !isText(record.subject) || !isText(record.title) || typeof record.content !== "string") {
+    return null;
+  }
+  if (!Array.isArray(record.questions)) return null;
+  const questions = record.questions.map((question) => AnyQuestionSchema.safeParse(question));
+  if (!questions.every((result) => result.success)) return null;
+
+  const lesson: Record<string, unknown> = { ...record, questions: questions.map((result) => result.data) };
+  delete lesson.context;
+  delete lesson.personaHash;
+  if (JSON.stringify(lesson).length > MAX_LESSON_PAYLOAD_CHARS) return null;
+  return lesson as unknown as Lesson;
+}
+
+export function normalizeLessonPermalink(row: Record<string, unknown>): LessonPermalink | null {
+  if (typeof row.id !== "string" || typeof row.owner_id !== "string" || typeof row.lesson_id !== "string") {
+    return null;
+  }
+  const payload = row.lesson;
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) return null;
+  const lesson = { ...(payload as Record<string, unknown>), id: row.id } as unknown as Lesson;
+  if (typeof lesson.title !== "string" || typeof lesson.subject !== "string") return null;
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    sourceLessonId: row.lesson_id,
+    lesson: {
+      ...lesson,
+      content: typeof lesson.content === "string" ? lesson.content : "",
+      questions: Array.isArray(lesson.questions) ? lesson.questions : [],
+    },
+    isPublic: row.is_public === true,
+    createdAt: typeof row.created_at === "string" ? row.created_at : "",
+    updatedAt: typeof row.updated_at === "string" ? row.updated_at : "",
+  };
+}
+
+/**
+ * Load a permalink the caller may see: public lessons, their own, or ones the
+ * owner put in a playlist the caller can open. Returns null otherwise.
+ */
+export async function getLessonPermalink(sb: SupabaseClient, id: string): Promise<LessonPermalink | null> {
+  if (!PERMALINK_ID_PATTERN.test(id)) return null;
+  try {
+    const { data, error } = await sb.rpc("get_lesson_permalink", { p_id: id });
+    if (error) {
+      console.error("[lesson-permalinks] lookup error:", error);
+      return null;
+    }
+    const row = (data as Record<string, unknown>[] | null)?.[0];
+    return row ? normalizeLessonPermalink(row) : null;
+  } catch (err) {
+    console.error("[lesson-permalinks] lookup exception:", err);
+    return null;
+  }
+}
+
+/**
+ * Store (or refresh) the caller's copy of a lesson. The same lesson always
+ * keeps the permalink id it was first given.
+ */
+export async function saveLessonPermalink(
+  sb: SupabaseClient,
+  ownerId: string,
+  lesson: Lesson,
+  opts: { isPublic: boolean }
+): Promise<LessonPermalink> {
+  const fields = {
+    subject: lesson.subject.trim(),
+    topic: typeof lesson.topic === "string" && lesson.topic.trim() ? lesson.topic.trim() : null,
+    title: lesson.title.trim(),
+    difficulty: lesson.difficulty ?? null,
+    lesson,
+    is_public: opts.isPublic,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: existing, error: existingError } = await sb
+    .from("lesson_permalinks")
+    .select("id")
+    .eq("owner_id", ownerId)
+    .eq("lesson_id", lesson.id)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  if (!existing) {
+    const { data, error } = await sb
+      .from("lesson_permalinks")
+      .insert({ id: createPermalinkId(), owner_id: ownerId, lesson_id: lesson.id, ...fields })
+      .select(PERMALINK_COLUMNS)
+      .single();
+    // 23505: shared at the same time from another tab; fall through and update that row
+    if (!error) {
+      const permalink = normalizeLessonPermalink(data as Record<string, unknown>);
+      if (!permalink) throw new Error("Stored lesson permalink could not be read back");
+      return permalink;
+    }
+    if (error.code !== "23505") throw error;
+  }
+
+  const { data, error } = await sb
+    .from("lesson_permalinks")
+    .update(fields)
+    .eq("owner_id", ownerId)
+    .eq("lesson_id", lesson.id)
+    .select(PERMALINK_COLUMNS)
+    .single();
+  if (error) throw error;
+  const permalink = normalizeLessonPermalink(data as Record<string, unknown>);
+  if (!permalink) throw new Error("Stored lesson permalink could not be read back");
+  return permalink;
+}
@@ -1,4 +1,5 @@
 import type { Difficulty } from "@/types/placement";
+import { DEFAULT_LESSON_FORMAT, type LessonFormat, type QuestionType } from "@/lib/schema";
 
 type LessonPromptParams = {
   subject: string;
@@ -9,17 +10,82 @@ type LessonPromptParams = {
     title: string;
     description: string;
   };
+  format?: LessonFormat;
+  // Question types the model may mix in beyond plain MCQs
+  questionTypes?: QuestionType[];
 };
 
+const LATEX_RULE = `Math: Use LaTeX with escaped backslashes in JSON. Example: "\\\\(x^2 + 1\\\\)" or "\\\\[\\\\frac{a}{b}\\\\]" will render as \\(x^2 + 1\\) and \\[\\frac{a}{b}\\].`;
+const CONTEXT_RULE = `Use structured_context + focus cues from the user message. Reference learner.recents if present (5-10w bridge). Self-check accuracy, difficulty, structure.`;
+const QUESTION_SHAPE = `{ prompt: string, choices: string[4], correctIndex: 0-3, explanation: string }`;
+const BASE_FIELDS = `id: string, subject: string, topic: string, title: string, difficulty: "intro"|"easy"|"medium"|"hard"`;
+
+// JSON shape per format, embedded in system prompts
+export const LESSON_FORMAT_JSON_SHAPES: Record<LessonFormat, string> = {
+  micro: `{ id: string, subject: string, topic: string, title: string, content: string, difficulty: "intro"|"easy"|"medium"|"hard", questions: [${QUESTION_SHAPE}] }`,
+  "deep-dive": `{ ${BASE_FIELDS}, format: "deep-dive", content: string, questions: [${QUESTION_SHAPE}] }`,
+  "worked-example": `{ ${BASE_FIELDS}, format: "worked-example", content: string, problem: string, steps: [{ title: string, explanation: string, work?: string }], answer: string, questions: [${QUESTION_SHAPE}] }`,
+  flashcards: `{ ${BASE_FIELDS}, format: "flashcards", content: string, cards: [{ front: string, back: string, hint?: string }], questions: [${QUESTION_SHAPE}] }`,
+  "cheat-sheet": `{ ${BASE_FIELDS}, format: "cheat-sheet", content: string, sections: [{ heading: string, items: string[] }], formulas?: string[], questions: [${QUESTION_SHAPE}] }`,
+};
+
+// Format-specific instructions; micro is the original 4-sentence lesson
+const FORMAT_INSTRUCTIONS: Record<LessonFormat, string[]> = {
+  micro: [
+    `Generate 1 micro-lesson (80-105 words, 4 sentences) + 3 MCQs as a JSON object.`,
+    `Content structure: 4 sentences (definition→example→pitfall→practice), 80-105w, <900 chars.`,
+  ],
+  "deep-dive": [
+    `Generate 1 deep-dive lesson (300-600 words) + 5-8 MCQs as a JSON object.`,
+    `Content structure: short paragraphs separated by blank lines covering intuition→formal definition→2 worked examples→common mistakes→connections to related ideas.`,
+  ],
+  "worked-example": [
+    `Generate 1 worked-example lesson + 2-3 MCQs as a JSON object.`,
+    `content: 1-2 sentences framing the technique. problem: one concrete problem. steps: 3-8 ordered steps, each with a short title, an explanation of why, and optional work (the equation or code line for that step). answer: the final result.`,
+  ],
+  flashcards: [
+    `Generate 1 flashcard set (6-20 cards) + 0-3 MCQs as a JSON object.`,
+    `content: 1 sentence describing the set. cards: front is a term or question (<20w), back is the answer (<50w), optional hint (<15w). Cover distinct facts; no duplicates.`,
+  ],
+  "cheat-sheet": [
+    `Generate 1 cheat-sheet + 0-3 MCQs as a JSON object.`,
+    `content: 1 sentence describing scope. sections: 2-8 headed groups of 1-8 terse bullet items (<30w each). formulas: optional key formulas or rules, one per entry.`,
+  ],
+};
+
+// Shape of each non-MCQ question type; every question carries prompt + explanation
+const QUESTION_TYPE_SHAPES: Record<Exclude<QuestionType, "mcq">, string> = {
+  numeric: `{ type: "numeric", answer: number, tolerance?: number, unit?: string, acceptedUnits?: string[] }`,
+  "multi-select": `{ type: "multi-select", choices: string[4-6], correctIndices: number[] (2+ correct) }`,
+  ordering: `{ type: "ordering", items: string[3-6] listed in the CORRECT order }`,
+  cloze: `{ type: "cloze", prompt with one "___" per blank, blanks: string[][] (accepted answers per blank) }`,
+};
+
+function buildQuestionTypeRule(types: QuestionType[]): string | null {
+  const extra = types.filter((type): type is Exclude<QuestionType, "mcq"> => type !== "mcq");
+  if (extra.length === 0) return null;
+  return [
+    `Question types: mix at most 1 of ${extra.join("/")} in with MCQs when it fits the material (MCQs may set type: "mcq").`,
+    ...extra.map((type) => `- ${QUESTION_TYPE_SHAPES[type]}`),
+  ].join("\n");
+}
+
+export function getLessonFormatInstructions(format: LessonFormat): string[] {
+  return FORMAT_INSTRUCTIONS[format];
+}
+
 export function buildLessonPrompts(params: LessonPromptParams) {
   const { subject, difficulty, sourceText, lessonPlan } = params;
+  const format = params.format ?? DEFAULT_LESSON_FORMAT;
+
+  const questionTypeRule = params.questionTypes ? buildQuestionTypeRule(params.questionTypes) : null;
 
   const system = [
-    `Generate 1 micro-lesson (80-105 words, 4 sentences) + 3 MCQs as a JSON object.`,
-    `Content structure: 4 sentences (definition→example→pitfall→practice), 80-105w, <900 chars.`,
-    `Questions: 4 choices each, <15w explanations. Math: Use LaTeX with escaped backslashes in JSON. Example: "\\\\(x^2 + 1\\\\)" or "\\\\[\\\\frac{a}{b}\\\\]" will render as \\(x^2 + 1\\) and \\[\\frac{a}{b}\\].`,
-    `Use structured_context + focus cues from the user message. Reference learner.recents if present (5-10w bridge). Self-check accuracy, difficulty, structure.`,
-    `JSON Schema: { id: string, subject: string, topic: string, title: string, content: string, difficulty: "intro"|"easy"|"medium"|"hard", questions: [{ prompt: string, choices: string[4], correctIndex: 0-3, explanation: string }] }`,
+    ...FORMAT_INSTRUCTIONS[format],
+    `Questions: 4 choices each, <15w explanations. ${LATEX_RULE}`,
+    ...(questionTypeRule ? [questionTypeRule] : []),
+    CONTEXT_RULE,
+    `JSON Schema: ${LESSON_FORMAT_JSON_SHAPES[format]}`,
   ].join("\n");
 
   const cleanSource = sourceText.trim();
@@ -0,0 +1,366 @@
+// lib/lesson-quality.ts
+// Quality gate for generated lessons: deterministic answer-key checks, the prompt and grading for an
+// optional second-model solve, and verdict storage. A lesson whose verdict is "rejected" is regenerated
+// or replaced, and user_pending_lessons only accepts rows that point at a non-rejected verdict.
+// The solve itself runs in lib/lesson-generation.ts, next to the other model calls.
+
+import { createHash } from "crypto";
+import type OpenAI from "openai";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AnyFormatLesson, AnyQuestion } from "./schema";
+import { hasLatexIssues, scanLatex } from "./latex";
+import { describeCorrectAnswer, gradeQuestion, isMcqQuestion, type QuestionAnswer } from "./question-types";
+
+export type LessonVerdictStatus = "passed" | "flagged" | "rejected";
+
+export type LessonQualityIssueCode =
+  | "duplicate-choices"
+  | "all-of-the-above"
+  | "answer-leak"
+  | "latex"
+  | "explanation-cites-letter"
+  | "explanation-mismatch"
+  | "solver-disagreement";
+
+export type LessonQualityIssue = {
+  code: LessonQualityIssueCode;
+  // Errors reject the lesson; warnings only flag it
+  severity: "error" | "warning";
+  // e.g. "content" or "questions[1].choices"
+  field: string;
+  message: string;
+};
+
+export type LessonSolverReport = {
+  model: string;
+  provider: string;
+  total: number;
+  agreed: number;
+  disagreements: Array<{ question: number; expected: string; answer: unknown }>;
+  // Why the solve produced no grades (call failed, unreadable answers)
+  skipped?: string;
+};
+
+export type LessonVerdict = {
+  status: LessonVerdictStatus;
+  issues: LessonQualityIssue[];
+  solver: LessonSolverReport | null;
+  lessonHash: string;
+};
+
+export type StoredLessonVerdict = LessonVerdict & {
+  // lesson_quality_verdicts row; null when it could not be written (anonymous or insert failed)
+  id: number | null;
+};
+
+export type LessonQualityGateOptions = {
+  /** Have a second model answer every question; defaults to LESSON_SOLVER_ENABLED. */
+  solve?: boolean;
+  /** Fresh attempts after a rejected verdict before giving up (default 1). */
+  regenerations?: number;
+};
+
+export type LessonVerdictContext = {
+  feature: string;
+  subject?: string | null;
+  topic?: string | null;
+  // 1 for the first lesson, 2+ for regenerations
+  attempt?: number;
+};
+
+// "All of the above" stops making sense once choices are shuffled
+const ALL_OF_THE_ABOVE_RE = /\b(all|none|both|neither) of the (above|previous|options|choices)\b/i;
+// "Option B", "(c)", "answer is D": letters point at positions that shuffling changes
+const LETTER_REFERENCE_RE = /\b(?:[Oo]ption|[Cc]hoice|[Aa]nswer is|[Aa]nswer:)\s*\(?[A-F]\)?(?![\w'])|^\(?[A-F]\)\s/;
+// Shorter correct choices ("4", "yes") appear in prompts by coincidence
+const MIN_LEAK_CHARS = 8;
+
+function normalizeForCompare(value: string) {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\\[()[\]]/g, "")
+    .replace(/[\s$]+/g, " ")
+    .replace(/[.,;:!?]+$/, "")
+    .trim();
+}
+
+function latexIssue(field: string, value: unknown): LessonQualityIssue | null {
+  if (typeof value !== "string" || !value) return null;
+  const scan = scanLatex(value);
+  if (!hasLatexIssues(scan)) return null;
+  const problems = [
+    scan.doubleEscapedMacros.length ? `double-escaped ${scan.doubleEscapedMacros.slice(0, 3).join(", ")}` : null,
+    scan.unmatchedInlinePairs ? "unbalanced \\( \\)" : null,
+    scan.unmatchedDisplayPairs ? "unbalanced \\[ \\]" : null,
+    scan.oddDollarBlocks ? "unclosed $$" : null,
+  ].filter(Boolean);
+  return { code: "latex", severity: "error", field, message: `Broken LaTeX: ${problems.join("; ")}` };
+}
+
+function checkChoices(question: AnyQuestion, field: string): LessonQualityIssue[] {
+  if (!("choices" in question) || !Array.isArray(question.choices)) return [];
+  const issues: LessonQualityIssue[] = [];
+  const seen = new Set<string>();
+  for (const choice of question.choices) {
+    const key = normalizeForCompare(choice);
+    if (seen.has(key)) {
+      issues.push({ code: "duplicate-choices", severity: "error", field: `${field}.choices`, message: `Choice "${choice}" appears twice` });
+      break;
+    }
+    seen.add(key);
+  }
+  if (question.choices.some((choice) => ALL_OF_THE_ABOVE_RE.test(choice))) {
+    issues.push({
+      code: "all-of-the-above",
+      severity: "error",
+      field: `${field}.choices`,
+      message: "Choices refer to other choices by position, which shuffling breaks",
+    });
+  }
+  return issues;
+}
+
+// Correct answers that can be read straight off the prompt
+function correctTexts(question: AnyQuestion): { correct: string[]; others: string[] } {
+  if (isMcqQuestion(question)) {
+    return {
+      correct: [question.choices[question.correctIndex] ?? ""],
+      others: question.choices.filter((_, idx) => idx !== question.correctIndex),
+    };
+  }
+  switch (question.type) {
+    case "multi-select":
+      return {
+        correct: question.correctIndices.map((idx) => question.choices[idx] ?? ""),
+        others: question.choices.filter((_, idx) => !question.correctIndices.includes(idx)),
+      };
+    case "cloze":
+      return { correct: question.blanks.map((accepted) => accepted[0] ?? ""), others: [] };
+    default:
+      return { correct: [], others: [] };
+  }
+}
+
+function checkAnswerLeak(question: AnyQuestion, field: string): LessonQualityIssue | null {
+  const prompt = normalizeForCompare(question.prompt);
+  const { correct, others } = correctTexts(question);
+  const leaked = correct
+    .map(normalizeForCompare)
+    .find((text) => text.length >= MIN_LEAK_CHARS && prompt.includes(text));
+  if (!leaked) return null;
+  // A prompt quoting every choice ("Which is larger, X or Y?") gives nothing away
+  if (others.some((text) => prompt.includes(normalizeForCompare(text)))) return null;
+  return {
+    code: "answer-leak",
+    severity: "error",
+    field: `${field}.prompt`,
+    message: `The prompt contains the answer ("${leaked.slice(0, 60)}")`,
+  };
+}
+
+function checkExplanation(question: AnyQuestion, field: string): LessonQualityIssue[] {
+  const explanation = typeof question.explanation === "string" ? question.explanation : "";
+  if (!explanation || !("choices" in question)) return [];
+  const issues: LessonQualityIssue[] = [];
+  if (LETTER_REFERENCE_RE.test(explanation)) {
+    issues.push({
+      code: "explanation-cites-letter",
+      severity: "warning",
+      field: `${field}.explanation`,
+      message: "The explanation names a choice by letter, which changes when choices are shuffled",
+    });
+  }
+
+  const text = normalizeForCompare(explanation);
+  const { correct, others } = correctTexts(question);
+  const mentions = (choice: string) => {
+    const key = normalizeForCompare(choice);
+    return key.length >= 3 && new RegExp(`(^|\\W)${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|\\W)`).test(text);
+  };
+  const namesCorrect = correct.some(mentions);
+  const wrongNamed = others.filter((choice) =>
+    mentions(choice) && !correct.some((entry) => normalizeForCompare(entry).includes(normalizeForCompare(choice)))
+  );
+  // Explanations often mention a distractor to rule it out; only an explanation that never names the answer is suspect
+  if (!namesCorrect && wrongNamed.length > 0) {
+    issues.push({
+      code: "explanation-mismatch",
+      severity: "warning",
+      field: `${field}.explanation`,
+      message: `The explanation argues for "${wrongNamed[0].slice(0, 60)}" rather than the marked answer`,
+    });
+  }
+  return issues;
+}
+
+/** Deterministic checks on the lesson text and every question's answer key. */
+export function checkLessonQuality(lesson: AnyFormatLesson): LessonQualityIssue[] {
+  const issues: LessonQualityIssue[] = [];
+  const contentIssue = latexIssue("content", lesson.content);
+  if (contentIssue) issues.push(contentIssue);
+
+  (lesson.questions ?? []).forEach((question, idx) => {
+    const field = `questions[${idx}]`;
+    issues.push(...checkChoices(question, field));
+    const leak = checkAnswerLeak(question, field);
+    if (leak) issues.push(leak);
+    issues.push(...checkExplanation(question, field));
+
+    const texts: Array<[string, unknown]> = [
+      [`${field}.prompt`, question.prompt],
+      [`${field}.explanation`, question.explanation],
+    ];
+    if ("choices" in question) question.choices.forEach((choice) => texts.push([`${field}.choices`, choice]));
+    if ("items" in question) question.items.forEach((item) => texts.push([`${field}.items`, item]));
+    // One LaTeX issue per field is enough
+    const latexFields = new Set<string>();
+    for (const [path, value] of texts) {
+      if (latexFields.has(path)) continue;
+      const issue = latexIssue(path, value);
+      if (issue) {
+        latexFields.add(path);
+        issues.push(issue);
+      }
+    }
+  });
+
+  return issues;
+}
+
+/** sha256 of the learner-visible lesson text and answer key. */
+export function lessonHash(lesson: AnyFormatLesson): string {
+  return createHash("sha256")
+    .update(JSON.stringify([lesson.title, lesson.content, lesson.questions]))
+    .digest("hex");
+}
+
+export function buildLessonVerdict(
+  lesson: AnyFormatLesson,
+  issues: LessonQualityIssue[],
+  solver: LessonSolverReport | null
+): LessonVerdict {
+  const status: LessonVerdictStatus = issues.some((issue) => issue.severity === "error")
+    ? "rejected"
+    : issues.length
+      ? "flagged"
+      : "passed";
+  return { status, issues, solver, lessonHash: lessonHash(lesson) };
+}
+
+// What the solver sees: each question without its answer key
+function solverView(question: AnyQuestion) {
+  if (isMcqQuestion(question)) {
+    return { type: "mcq", prompt: question.prompt, choices: question.choices, answerFormat: "index of the correct choice (0-based)" };
+  }
+  switch (question.type) {
+    case "multi-select":
+      return { type: question.type, prompt: question.prompt, choices: question.choices, answerFormat: "array of every correct choice index (0-based)" };
+    case "numeric":
+      return { type: question.type, prompt: question.prompt, unit: question.unit, answerFormat: question.unit ? `string with value and unit, e.g. "9.8 ${question.unit}"` : "number" };
+    case "ordering":
+      return {
+        type: question.type,
+        prompt: question.prompt,
+        items: [...question.items].sort((a, b) => a.localeCompare(b)),
+        answerFormat: "array of the item texts in the correct order",
+      };
+    case "cloze":
+      return { type: question.type, prompt: question.prompt, answerFormat: "array with one string per ___ blank" };
+    default:
+      return { prompt: (question as { prompt?: string }).prompt ?? "" };
+  }
+}
+
+/** Messages asking a second model to answer every question from the lesson text alone. */
+export function buildSolverMessages(lesson: AnyFormatLesson): OpenAI.ChatCompletionMessageParam[] {
+  return [
+    {
+      role: "system",
+      content:
+        "You check quiz answer keys. Read the lesson, then answer each question yourself, working it out step by step before you commit. " +
+        "Use code_interpreter for any calculation. Respond with ONLY a JSON object: {\"answers\": [...]} with one entry per question, in order, " +
+        "each in that question's answerFormat.",
+    },
+    {
+      role: "user",
+      content: JSON.stringify({
+        subject: lesson.subject,
+        lesson: lesson.content,
+        questions: (lesson.questions ?? []).map(solverView),
+      }),
+    },
+  ];
+}
+
+/** Grade the solver's answers against the lesson's answer key. */
+export function gradeSolverAnswers(
+  lesson: AnyFormatLesson,
+  answers: unknown,
+  route: { model: string; provider: string }
+): LessonSolverReport {
+  const questions = lesson.questions ?? [];
+  const report: LessonSolverReport = { model: route.model, provider: route.provider, total: questions.length, agreed: 0, disagreements: [] };
+  if (!Array.isArray(answers) || answers.length !== questions.length) {
+    return { ...report, skipped: "unreadable-answers" };
+  }
+  questions.forEach((question, idx) => {
+    const answer = answers[idx] as QuestionAnswer;
+    if (gradeQuestion(question, answer)) {
+      report.agreed += 1;
+    } else {
+      report.disagreements.push({ question: idx, expected: describeCorrectAnswer(question), answer });
+    }
+  });
+  return report;
+}
+
+export function solverIssues(report: LessonSolverReport | null): LessonQualityIssue[] {
+  if (!report) return [];
+  return report.disagreements.map((entry) => ({
+    code: "solver-disagreement" as const,
+    severity: "error" as const,
+    field: `questions[${entry.question}]`,
+    message: `A second model answered ${JSON.stringify(entry.answer)} instead of "${entry.expected.slice(0, 60)}"`,
+  }));
+}
+
+/**
+ * Store a verdict in lesson_quality_verdicts. Anonymous generations are not
+ * stored (the table is per learner). Never throws; returns the row id or null.
+ */
+export async function recordLessonVerdict(
+  sb: SupabaseClient,
+  uid: string | null,
+  lesson: AnyFormatLesson,
+  verdict: LessonVerdict,
+  context: LessonVerdictContext
+): Promise<number | null> {
+  if (!uid) return null;
+  try {
+    const { data, error } = await sb
+      .from("lesson_quality_verdicts")
+      .insert({
+        user_id: uid,
+        lesson_id: lesson.id,
+        lesson_hash: verdict.lessonHash,
+        subject: context.subject ?? lesson.subject ?? null,
+        topic: context.topic ?? lesson.topic ?? null,
+        feature: context.feature,
+        status: verdict.status,
+        issues: verdict.issues,
+        solver: verdict.solver,
+        attempt: context.attempt ?? 1,
+      })
+      .select("id")
+      .single();
+    if (error) {
+      console.error("[lesson-quality] verdict insert failed:", error.message ?? error);
+      return null;
+    }
+    return (data as { id: number } | null)?.id ?? null;
+  } catch (err) {
+    console.error("[lesson-quality] verdict insert failed:", err);
+    return null;
+  }
+}
@@ -10,10 +10,25 @@
  * Plus/Premium Tiers:
  * - Fast model: Groq gpt-oss-120b (higher intelligence, faster response)
  * - Slow model: Deepinfra gpt-oss-120b (higher intelligence, cost-optimized)
+ *
+ * Failover:
+ * Each (tier, speed) has an ordered provider chain. Providers without an API
+ * key are skipped, the rest are ranked by circuit breaker health (see
+ * provider-health.ts), and a failed request is retried on the next provider.
+ * The returned `route` records which provider actually served the request so
+ * usage is logged and priced against it.
  */
 
 import OpenAI from 'openai';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  canAttemptProvider,
+  isRetryableProviderError,
+  rankProvidersByHealth,
+  recordProviderResult,
+} from './provider-health';
+import { recordTelemetry } from './telemetry';
+import { getBillingAccount } from './billing-accounts';
 
 export type UserTier = 'free' | 'plus' | 'premium';
 export type ModelSpeed = 'fast' | 'slow';
@@ -25,51 +40,84 @@ export interface ModelConfig {
   provider: 'groq' | 'deepinfra' | 'cerebras' | 'lightningai' | 'fireworksai';
 }
 
+type ModelProvider = ModelConfig['provider'];
+type ModelSize = 'small' | 'large';
+
+interface ProviderDefinition {
+  apiKeyEnv: string;
+  baseURL: string;
+  models: Partial<Record<ModelSize, string>>;
+  supportsCodeInterpreter: boolean;
+}
+
+// Active providers; cerebras and lightningai only remain for old usage logs
+const PROVIDERS: Partial<Record<ModelProvider, ProviderDefinition>> = {
+  groq: {
+    apiKeyEnv: 'GROQ_API_KEY',
+    baseURL: 'https://api.groq.com/openai/v1',
+    models: { small: 'openai/gpt-oss-20b', large: 'openai/gpt-oss-120b' }, // Groq uses openai/ prefix
+    supportsCodeInterpreter: true,
+  },
+  deepinfra: {
+    apiKeyEnv: 'DEEPINFRA_API_KEY',
+    baseURL: 'https://api.deepinfra.com/v1/openai',
+    models: { small: 'openai/gpt-oss-20b', large: 'openai/gpt-oss-120b' }, // Deepinfra uses openai/ prefix
+    supportsCodeInterpreter: false,
+  },
+  fireworksai: {
+    apiKeyEnv: 'FIREWORKS_API_KEY',
+    baseURL: 'https://api.fireworks.ai/inference/v1',
+    models: { large: 'accounts/fireworks/models/gpt-oss-120b' },
+    supportsCodeInterpreter: false,
+  },
+};
+
+// Ordered preference per tier group and speed; the first entry is the primary
+const PROVIDER_CHAINS: Record<'free' | 'paid', Record<ModelSpeed, ModelProvider[]>> = {
+  free: {
+    fast: ['groq', 'deepinfra'],
+    slow: ['deepinfra', 'groq'],
+  },
+  paid: {
+    fast: ['groq', 'fireworksai', 'deepinfra'],
+    slow: ['deepinfra', 'groq', 'fireworksai'],
+  },
+};
+
+function buildModelConfig(provider: ModelProvider, size: ModelSize): ModelConfig | null {
+  const def = PROVIDERS[provider];
+  const model = def?.models[size];
+  if (!def || !model) return null;
+  return {
+    apiKey: process.env[def.apiKeyEnv] || '',
+    baseURL: def.baseURL,
+    model,
+    provider,
+  };
+}
+
 /**
- * Get the appropriate model configuration based on user tier and speed requirement
+ * Ordered model configurations to try for a tier and speed.
+ * Providers without an API key are dropped; if none are configured the
+ * primary is still returned so callers surface the missing key.
  */
-export function getModelConfig(tier: UserTier, speed: ModelSpeed): ModelConfig {
+export function getModelChain(tier: UserTier, speed: ModelSpeed): ModelConfig[] {
   const isPaidTier = tier === 'plus' || tier === 'premium';
+  // Plus and Premium get the more intelligent models
+  const size: ModelSize = isPaidTier ? 'large' : 'small';
+  const chain = PROVIDER_CHAINS[isPaidTier ? 'paid' : 'free'][speed]
+    .map((provider) => buildModelConfig(provider, size))
+    .filter((config): config is ModelConfig => config !== null);
 
-  if (isPaidTier) {
-    // Plus and Premium get the more intelligent models
-    if (speed === 'fast') {
-      // Groq for fast, high-intelligence generation (uses OpenAI-compatible API)
-      return {
-        apiKey: process.env.GROQ_API_KEY || '',
-        baseURL: 'https://api.groq.com/openai/v1',
-        model: 'openai/gpt-oss-120b',
-        provider: 'groq'
-      };
-    } else {
-      // Deepinfra for slower, cost-optimized high-intelligence generation
-      return {
-        apiKey: process.env.DEEPINFRA_API_KEY || '',
-        baseURL: 'https://api.deepinfra.com/v1/openai',
-        model: 'openai/gpt-oss-120b', // Deepinfra uses openai/ prefix
-        provider: 'deepinfra'
-      };
-    }
-  } else {
-    // Free tier gets the smaller, less expensive models
-    if (speed === 'fast') {
-      // Groq for fast generation with smaller model
-      return {
-        apiKey: process.env.GROQ_API_KEY || '',
-        baseURL: 'https://api.groq.com/openai/v1',
-        model: 'openai/gpt-oss-20b', // Groq uses openai/ prefix
-        provider: 'groq'
-      };
-    } else {
-      // Deepinfra for slower, cost-optimized generation
-      return {
-        apiKey: process.env.DEEPINFRA_API_KEY || '',
-        baseURL: 'https://api.deepinfra.com/v1/openai',
-        model: 'openai/gpt-oss-20b', // Deepinfra uses openai/ prefix
-        provider: 'deepinfra'
-      };
-    }
-  }
+  const configured = chain.filter((config) => config.apiKey);
+  return configured.length ? configured : chain.slice(0, 1);
+}
+
+/**
+ * Get the primary model configuration based on user tier and speed requirement
+ */
+export function getModelConfig(tier: UserTier, speed: ModelSpeed): ModelConfig {
+  return getModelChain(tier, speed)[0];
 }
 
 /**
@@ -98,42 +146,160 @@ export function getModelIdentifier(provider: ModelConfig['provider'], model: str
   }
 }
 
+/**
+ * The provider that served the most recent request through a model client.
+ * Starts as the primary and is updated after each successful failover call.
+ */
+export type ServedModelRoute = {
+  provider: ModelProvider;
+  model: string;
+  modelIdentifier: string;
+};
+
+type ChatCreate = OpenAI['chat']['completions']['create'];
+type ChatCreateParams = Parameters<ChatCreate>[0];
+
+// Groq's built-in code_interpreter tool is rejected by other providers
+function adaptParamsForProvider(params: ChatCreateParams, config: ModelConfig): ChatCreateParams {
+  const adapted = { ...params, model: config.model } as ChatCreateParams & Record<string, unknown>;
+  if (!PROVIDERS[config.provider]?.supportsCodeInterpreter && Array.isArray(adapted.tools)) {
+    const tools = (adapted.tools as Array<{ type?: string }>).filter((tool) => tool.type !== 'code_interpreter');
+    if (tools.length) {
+      adapted.tools = tools as typeof params.tools;
+    } else {
+      delete adapted.tools;
+      delete adapted.tool_choice;
+    }
+  }
+  return adapted;
+}
+
 /**
  * Create an OpenAI-compatible client with the appropriate model configuration
  * This works with OpenAI SDK since all providers use OpenAI-compatible APIs
+ *
+ * `client.chat.completions.create` fails over across the provider chain.
+ * For streams only the initial request is retried; errors after the first
+ * chunk surface to the caller as before.
  */
 export function createModelClient(tier: UserTier, speed: ModelSpeed) {
-  const config = getModelConfig(tier, speed);
+  const chain = getModelChain(tier, speed);
+  const config = chain[0];
+  const clients = new Map<ModelProvider, OpenAI>();
+  const clientFor = (entry: ModelConfig) => {
+    let instance = clients.get(entry.provider);
+    if (!instance) {
+      instance = new OpenAI({ apiKey: entry.apiKey, baseURL: entry.baseURL });
+      clients.set(entry.provider, instance);
+    }
+    return instance;
+  };
+
+  const client = clientFor(config);
+  const primaryCreate = client.chat.completions.create.bind(client.chat.completions);
 
   // Get the model identifier for usage tracking (matches pricing table)
   const modelIdentifier = getModelIdentifier(config.provider, config.model);
+  const route: ServedModelRoute = { provider: config.provider, model: config.model, modelIdentifier };
+
+  const createWithFailover = async (params: ChatCreateParams, options?: Parameters<ChatCreate>[1]) => {
+    const ranked = rankProvidersByHealth(chain);
+    const candidates = ranked.filter((entry) => canAttemptProvider(entry.provider));
+    // Every breaker is open: still try the healthiest-ranked provider rather than failing outright
+    if (!candidates.length) candidates.push(ranked[0]);
+
+    let lastError: unknown;
+    for (let i = 0; i < candidates.length; i++) {
+      const entry = candidates[i];
+      const startedAt = Date.now();
+      try {
+        const create = entry.provider === config.provider
+          ? primaryCreate
+          : clientFor(entry).chat.completions.create.bind(clientFor(entry).chat.completions);
+        const result = await create(adaptParamsForProvider(params, entry), options);
+        const durationMs = Date.now() - startedAt;
+        recordProviderResult(entry.provider, true, durationMs);
+        // For streams this is the time until the stream opened
+        recordTelemetry('generation_latency', {
+          feature: 'provider-call',
+          stage: params.stream ? 'stream-open' : 'completion',
+          provider: entry.provider,
+          model: entry.model,
+          durationMs,
+          ok: true,
+        });
+        if (i > 0) recordTelemetry('generation_retry', { feature: 'provider-failover', attempts: i + 1, provider: entry.provider });
+        route.provider = entry.provider;
+        route.model = entry.model;
+        route.modelIdentifier = getModelIdentifier(entry.provider, entry.model);
+        if (entry.provider !== config.provider) {
+          console.warn('[model-config] served by fallback provider', { primary: config.provider, provider: entry.provider });
+          recordTelemetry('fallback_used', { feature: 'provider-failover', reason: 'fallback-provider', provider: entry.provider, attempts: i + 1 });
+        }
+        return result;
+      } catch (err) {
+        lastError = err;
+        const retryable = isRetryableProviderError(err);
+        if (retryable) recordProviderResult(entry.provider, false, Date.now() - startedAt);
+        const next = candidates[i + 1];
+        if (!retryable || !next) break;
+        console.warn('[model-config] provider failed; trying next', {
+          provider: entry.provider,
+          next: next.provider,
+          status: (err as { status?: number })?.status ?? null,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    throw lastError;
+  };
+  client.chat.completions.create = createWithFailover as ChatCreate;
 
   return {
-    client: new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: config.baseURL,
-    }),
-    model: config.model, // Model name for API calls
-    modelIdentifier, // Model identifier for usage tracking
+    client,
+    model: config.model, // Model name for API calls (swapped per provider on failover)
+    modelIdentifier, // Model identifier of the primary provider
     provider: config.provider,
+    route, // Provider that actually served the request; use for usage logging
     config
   };
 }
 
 /**
- * Get user tier from user profile data
+ * Get user tier from user profile data. A paid tier lapses to free once a
+ * failed payment's grace window has passed, or once a subscription set to
+ * cancel at period end has run out (in case the Stripe webhook is late).
  */
-export function getUserTier(userProfile: { subscription_tier?: string | null }): UserTier {
+export function getUserTier(
+  userProfile: {
+    subscription_tier?: string | null;
+    subscription_status?: string | null;
+    subscription_grace_until?: string | null;
+    subscription_period_end?: string | null;
+    subscription_cancel_at_period_end?: boolean | null;
+  },
+  now: Date = new Date()
+): UserTier {
   const tier = userProfile?.subscription_tier?.toLowerCase();
+  if (tier !== 'premium' && tier !== 'plus') return 'free';
 
-  if (tier === 'premium') return 'premium';
-  if (tier === 'plus') return 'plus';
-  return 'free';
+  const status = userProfile.subscription_status;
+  const graceUntil = userProfile.subscription_grace_until ? Date.parse(userProfile.subscription_grace_until) : NaN;
+  if ((status === 'past_due' || status === 'unpaid') && graceUntil <= now.getTime()) {
+    return 'free';
+  }
+  const periodEnd = userProfile.subscription_period_end ? Date.parse(userProfile.subscription_period_end) : NaN;
+  if (userProfile.subscription_cancel_at_period_end && periodEnd <= now.getTime()) {
+    return 'free';
+  }
+
+  return tier;
 }
 
 /**
  * Fetch user tier directly from Supabase with cache-busting
- * This ensures we always get the latest tier, even if the user just upgraded
+ * This ensures we always get the latest tier, even if the user just upgraded.
+ * Billing state lives in billing_accounts, which only the service role can read.
  */
 export async function fetchUserTier(supabase: SupabaseClient, userId: string): Promise<UserTier> {
   // Force fresh data by using a timestamp in the query
@@ -149,5 +315,12 @@ export async function fetchUserTier(supabase: SupabaseClient, userId: string): P
     return 'free'; // Default to free on error
   }
 
-  return getUserTier(profile || {});
+  try {
+    const account = await getBillingAccount(userId);
+    return getUserTier({ ...(profile || {}), ...(account ?? {}) });
+  } catch (err) {
+    // Without billing state, fall back to the protected profile tier rather than downgrading a paying learner
+    console.error('[fetchUserTier] Error fetching billing account:', err);
+    return getUserTier(profile || {});
+  }
 }
@@ -0,0 +1,303 @@
+// lib/notification-delivery.ts
+// Creates notifications and delivers them through pluggable channels: the in-app inbox, email
+// (SMTP adapter by default) and web push. Server-only; writes with the service role.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { siteConfig } from "./seo";
+import { supabaseService } from "./supabase-service";
+import { createSmtpTransport, smtpConfigFromEnv, type MailMessage, type MailTransport } from "./smtp";
+import { sendPushTickle, vapidConfigFromEnv } from "./web-push";
+import {
+  NOTIFICATION_COLUMNS,
+  normalizeNotification,
+  normalizeNotificationPreferences,
+  type AppNotification,
+  type NotificationType,
+} from "./notifications";
+
+export type DeliveryChannelId = "in_app" | "email" | "push";
+
+export type DigestFrequency = "daily" | "weekly";
+
+export interface NotificationChannel {
+  id: DeliveryChannelId;
+  /** False when the channel has no credentials configured; delivery is then skipped. */
+  isConfigured(): boolean;
+  /**
+   * Deliver one notification, or several at once as a digest. Resolves true
+   * when something reached the learner.
+   */
+  deliver(
+    sb: SupabaseClient,
+    userId: string,
+    notifications: AppNotification[],
+    digest?: DigestFrequency
+  ): Promise<boolean>;
+}
+
+export type NotificationInput = {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  // App path the notification opens, e.g. "/friends"
+  url?: string | null;
+  // The user who caused it; skipped when the recipient blocked or muted them
+  actorId?: string | null;
+  // Notifications with the same key for the same user are only created once
+  dedupeKey?: string | null;
+  data?: Record<string, unknown>;
+};
+
+function absoluteUrl(url: string | null): string {
+  if (!url) return `${siteConfig.url}/`;
+  return /^https?:\/\//.test(url) ? url : `${siteConfig.url}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderEmail(notifications: AppNotification[], digest?: DigestFrequency): Omit<MailMessage, "to"> {
+  const settingsUrl = `${siteConfig.url}/settings`;
+  const subject = digest
+    ? `Your ${digest} Lernex digest: ${notifications.length} update${notifications.length === 1 ? "" : "s"}`
+    : notifications[0].title;
+
+  const text = [
+    ...notifications.map((item) => [`• ${item.title}`, item.body ? `  ${item.body}` : null, `  ${absoluteUrl(item.url)}`]
+      .filter(Boolean)
+      .join("\n")),
+    "",
+    `Choose which emails you get: ${settingsUrl}`,
+  ].join("\n\n");
+
+  const html = [
+    `<div style="font-family:system-ui,-apple-system,sans-serif;max-width:560px;margin:0 auto;color:#111827">`,
+    digest ? `<h2 style="font-size:18px">Here's what you missed on Lernex</h2>` : "",
+    ...notifications.map(
+      (item) =>
+        `<p style="margin:16px 0"><a href="${escapeHtml(absoluteUrl(item.url))}" style="color:#2f80ed;font-weight:600;text-decoration:none">${escapeHtml(item.title)}</a>` +
+        (item.body ? `<br><span style="color:#4b5563">${escapeHtml(item.body)}</span>` : "") +
+        `</p>`
+    ),
+    `<p style="margin-top:32px;font-size:12px;color:#9ca3af"><a href="${settingsUrl}" style="color:#9ca3af">Choose which emails you get</a></p>`,
+    `</div>`,
+  ].join("");
+
+  return { subject, text, html };
+}
+
+// ============================================================================
+// CHANNELS
+// ============================================================================
+
+// The stored row is the delivery; open inboxes receive it over Realtime
+const inAppChannel: NotificationChannel = {
+  id: "in_app",
+  isConfigured: () => true,
+  deliver: async () => true,
+};
+
+let mailTransport: MailTransport | null | undefined;
+
+function getMailTransport(): MailTransport | null {
+  if (mailTransport === undefined) {
+    const config = smtpConfigFromEnv();
+    mailTransport = config ? createSmtpTransport(config) : null;
+  }
+  return mailTransport;
+}
+
+/** Swap the email adapter (e.g. for a provider's HTTP API instead of SMTP). */
+export function setNotificationMailTransport(transport: MailTransport | null) {
+  mailTransport = transport;
+}
+
+const emailChannel: NotificationChannel = {
+  id: "email",
+  isConfigured: () => getMailTransport() !== null,
+  async deliver(sb, userId, notifications, digest) {
+    const transport = getMailTransport();
+    if (!transport || !notifications.length) return false;
+    const { data, error } = await sb.auth.admin.getUserById(userId);
+    if (error) throw error;
+    const email = data.user?.email;
+    if (!email) return false;
+    await transport.send({ to: email, ...renderEmail(notifications, digest) });
+    return true;
+  },
+};
+
+const pushChannel: NotificationChannel = {
+  id: "push",
+  isConfigured: () => vapidConfigFromEnv() !== null,
+  async deliver(sb, userId) {
+    const config = vapidConfigFromEnv();
+    if (!config) return false;
+    const { data, error } = await sb.from("push_subscriptions").select("id, endpoint").eq("user_id", userId);
+    if (error) throw error;
+    const subscriptions = (data as { id: string; endpoint: string }[] | null) ?? [];
+    if (!subscriptions.length) return false;
+
+    const results = await Promise.all(subscriptions.map((entry) => sendPushTickle(entry.endpoint, config)));
+    const gone = subscriptions.filter((_, idx) => results[idx] === "gone").map((entry) => entry.id);
+    const sent = subscriptions.filter((_, idx) => results[idx] === "sent").map((entry) => entry.id);
+    if (gone.length) await sb.from("push_subscriptions").delete().in("id", gone);
+    if (sent.length) {
+      await sb.from("push_subscriptions").update({ last_used_at: new Date().toISOString() }).in("id", sent);
+    }
+    return sent.length > 0;
+  },
+};
+
+const channels = new Map<DeliveryChannelId, NotificationChannel>(
+  [inAppChannel, emailChannel, pushChannel].map((channel) => [channel.id, channel])
+);
+
+/** Replace a built-in channel, e.g. to route push through a third-party service. */
+export function registerNotificationChannel(channel: NotificationChannel) {
+  channels.set(channel.id, channel);
+}
+
+export function isNotificationChannelConfigured(id: DeliveryChannelId): boolean {
+  return channels.get(id)?.isConfigured() ?? false;
+}
+
+async function deliverVia(
+  id: DeliveryChannelId,
+  sb: SupabaseClient,
+  userId: string,
+  notifications: AppNotification[],
+  digest?: DigestFrequency
+): Promise<boolean> {
+  const channel = channels.get(id);
+  if (!channel?.isConfigured()) return false;
+  try {
+    return await channel.deliver(sb, userId, notifications, digest);
+  } catch (error) {
+    console.error(`[notifications] ${id} delivery error:`, error);
+    return false;
+  }
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Record a notification for a user and deliver it on the channels their
+ * preferences allow for its type. Email set to a daily or weekly digest is
+ * left for the digest job. Never throws: a failed notification must not fail
+ * the request that caused it.
+ */
+export async function notifyUser(
+  userId: string,
+  input: NotificationInput,
+  client?: SupabaseClient
+): Promise<AppNotification | null> {
+  try {
+    const sb = client ?? supabaseService();
+    const [profileRes, blockRes] = await Promise.all([
+      sb.from("profiles").select("notification_preferences").eq("id", userId).maybeSingle(),
+      input.actorId
+        ? sb
+            .from("user_blocks")
+            .select("blocked_id")
+            .eq("blocker_id", userId)
+            .eq("blocked_id", input.actorId)
+            .maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+    if (profileRes.error) throw profileRes.error;
+    if (blockRes.data) return null;
+
+    const preference = normalizeNotificationPreferences(
+      (profileRes.data as { notification_preferences?: unknown } | null)?.notification_preferences
+    )[input.type];
+    if (!preference.inApp && preference.email === "off" && !preference.push) return null;
+
+    const { data, error } = await sb
+      .from("notifications")
+      .upsert(
+        {
+          user_id: userId,
+          type: input.type,
+          title: input.title.slice(0, 200),
+          body: input.body ? input.body.slice(0, 500) : null,
+          url: input.url ?? null,
+          data: input.data ?? {},
+          actor_id: input.actorId ?? null,
+          dedupe_key: input.dedupeKey ?? null,
+          in_app: preference.inApp,
+          email_digest: preference.email === "daily" || preference.email === "weekly" ? preference.email : null,
+          // Marked up front so the service worker finds it when the push arrives
+          pushed_at: preference.push ? new Date().toISOString() : null,
+        },
+        { onConflict: "user_id,dedupe_key", ignoreDuplicates: true }
+      )
+      .select(NOTIFICATION_COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    // Already sent under this dedupe key
+    if (!data) return null;
+
+    const notification = normalizeNotification(data as Record<string, unknown>);
+    if (!notification) return null;
+
+    await Promise.all([
+      deliverVia("in_app", sb, userId, [notification]),
+      preference.email === "instant"
+        ? deliverVia("email", sb, userId, [notification]).then(async (sent) => {
+            if (sent) {
+              await sb.from("notifications").update({ emailed_at: new Date().toISOString() }).eq("id", notification.id);
+            }
+          })
+        : null,
+      preference.push ? deliverVia("push", sb, userId, [notification]) : null,
+    ]);
+
+    return notification;
+  } catch (error) {
+    console.error("[notifications] notifyUser error:", error);
+    return null;
+  }
+}
+
+/** Email one learner's pending digest notifications as a single message. */
+export function deliverNotificationDigest(
+  sb: SupabaseClient,
+  userId: string,
+  notifications: AppNotification[],
+  frequency: DigestFrequency
+): Promise<boolean> {
+  return deliverVia("email", sb, userId, notifications, frequency);
+}
+
+// ============================================================================
+// PUSH SUBSCRIPTIONS
+// ============================================================================
+
+export type PushSubscriptionInput = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string | null;
+};
+
+/**
+ * Store a browser push subscription for the signed-in user. An endpoint that
+ * was registered to someone else (shared device) moves to the caller.
+ */
+export async function savePushSubscription(sb: SupabaseClient, input: PushSubscriptionInput): Promise<void> {
+  const { error } = await sb.rpc("save_push_subscription", {
+    p_endpoint: input.endpoint,
+    p_p256dh: input.p256dh,
+    p_auth: input.auth,
+    p_user_agent: input.userAgent ?? null,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,87 @@
+// lib/notifications.ts
+// Notification types, per-type delivery preferences and inbox rows; safe to import from client components
+// (sending lives in lib/notification-delivery.ts)
+
+export const NOTIFICATION_TYPES = [
+  "friend_request",
+  "session_invite",
+  "streak_warning",
+  "usage_reset",
+  "learning_path_ready",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const EMAIL_FREQUENCIES = ["off", "instant", "daily", "weekly"] as const;
+
+export type EmailFrequency = (typeof EMAIL_FREQUENCIES)[number];
+
+export type NotificationPreference = {
+  inApp: boolean;
+  email: EmailFrequency;
+  push: boolean;
+};
+
+export type NotificationPreferences = Record<NotificationType, NotificationPreference>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  friend_request: { inApp: true, email: "daily", push: true },
+  session_invite: { inApp: true, email: "instant", push: true },
+  streak_warning: { inApp: true, email: "off", push: true },
+  usage_reset: { inApp: true, email: "off", push: false },
+  learning_path_ready: { inApp: true, email: "off", push: true },
+};
+
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+export type AppNotification = {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  url: string | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+export const NOTIFICATION_COLUMNS = "id, type, title, body, url, read_at, created_at";
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === "string" && (NOTIFICATION_TYPES as readonly string[]).includes(value);
+}
+
+export function isEmailFrequency(value: unknown): value is EmailFrequency {
+  return typeof value === "string" && (EMAIL_FREQUENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Stored preferences merged over the defaults, so types added later start
+ * with sensible channels instead of everything off.
+ */
+export function normalizeNotificationPreferences(raw: unknown): NotificationPreferences {
+  const stored = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const result = {} as NotificationPreferences;
+  for (const type of NOTIFICATION_TYPES) {
+    const fallback = DEFAULT_NOTIFICATION_PREFERENCES[type];
+    const entry = stored[type] && typeof stored[type] === "object" ? (stored[type] as Record<string, unknown>) : {};
+    result[type] = {
+      inApp: typeof entry.inApp === "boolean" ? entry.inApp : fallback.inApp,
+      email: isEmailFrequency(entry.email) ? entry.email : fallback.email,
+      push: typeof entry.push === "boolean" ? entry.push : fallback.push,
+    };
+  }
+  return result;
+}
+
+export function normalizeNotification(row: Record<string, unknown>): AppNotification | null {
+  if (typeof row.id !== "string" || !isNotificationType(row.type) || typeof row.title !== "string") return null;
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    body: typeof row.body === "string" ? row.body : null,
+    url: typeof row.url === "string" ? row.url : null,
+    readAt: typeof row.read_at === "string" ? row.read_at : null,
+    createdAt: typeof row.created_at === "string" ? row.created_at : new Date().toISOString(),
+  };
+}
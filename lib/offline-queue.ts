@@ -0,0 +1,187 @@
+// lib/offline-queue.ts
+// IndexedDB outbox for FYP requests made while offline; replayed in order once the network is back.
+// Entries belong to the learner who queued them and are only replayed in that learner's session.
+
+const DB_NAME = "lernex-offline";
+const DB_VERSION = 1;
+const STORE = "outbox";
+// Give up on an entry after this many failed replays so one bad request cannot wedge the queue
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// Only endpoints that are safe to replay: /api/attempt dedupes answers through the
+// attempt_answers ledger, /api/fyp/complete removes a pending lesson by id
+export type QueueableUrl = "/api/attempt" | "/api/fyp/complete";
+
+type QueuedRequest = {
+  id: string;
+  userId: string;
+  url: QueueableUrl;
+  body: unknown;
+  createdAt: number;
+  attempts: number;
+};
+
+export type SendResult =
+  | { status: "sent"; response: Response }
+  | { status: "queued" };
+
+export type ReplaySummary = {
+  sent: number;
+  dropped: number;
+  remaining: number;
+};
+
+function isSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function createId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function listQueued(): Promise<QueuedRequest[]> {
+  const entries = await withStore<QueuedRequest[]>("readonly", (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+async function enqueueRequest(url: QueueableUrl, body: unknown, userId: string): Promise<void> {
+  const entry: QueuedRequest = { id: createId(), userId, url, body, createdAt: Date.now(), attempts: 0 };
+  await withStore("readwrite", (store) => store.put(entry));
+}
+
+function postJson(url: string, body: unknown): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * POST to a replay-safe endpoint, or park the request in the outbox when the
+ * browser is offline or the network request itself fails. HTTP errors are
+ * returned as-is; only requests that never reached the server are queued, and
+ * only for a signed-in `userId`.
+ */
+export async function sendOrQueue(url: QueueableUrl, body: unknown, userId: string | null): Promise<SendResult> {
+  const offline = typeof navigator !== "undefined" && navigator.onLine === false;
+  if (!offline) {
+    try {
+      return { status: "sent", response: await postJson(url, body) };
+    } catch (err) {
+      if (!isSupported() || !userId) throw err;
+      console.debug("[offline-queue] request failed, queueing", { url, err });
+    }
+  } else if (!isSupported()) {
+    throw new Error("Offline and no IndexedDB available");
+  } else if (!userId) {
+    throw new Error("Offline and not signed in");
+  }
+  await enqueueRequest(url, body, userId);
+  return { status: "queued" };
+}
+
+/** Drop every queued request, e.g. on sign-out so the next learner can't replay them. */
+export async function clearQueuedRequests(): Promise<void> {
+  if (!isSupported()) return;
+  await withStore("readwrite", (store) => store.clear());
+}
+
+let replayInFlight: Promise<ReplaySummary> | null = null;
+
+/**
+ * Replay `userId`'s queued requests oldest first. 2xx and 409 (already
+ * recorded) clear an entry; 401, 429 and 5xx keep it and stop so the order is
+ * preserved; other client errors are dropped because they can never succeed.
+ * Entries queued by anyone else are dropped without being sent.
+ */
+export function replayQueuedRequests(userId: string): Promise<ReplaySummary> {
+  if (replayInFlight) return replayInFlight;
+  replayInFlight = (async () => {
+    const summary: ReplaySummary = { sent: 0, dropped: 0, remaining: 0 };
+    if (!isSupported()) return summary;
+
+    let queue: QueuedRequest[];
+    try {
+      queue = await listQueued();
+    } catch (err) {
+      console.warn("[offline-queue] read failed", err);
+      return summary;
+    }
+
+    for (let i = 0; i < queue.length; i++) {
+      const entry = queue[i];
+      if (entry.userId !== userId) {
+        await withStore("readwrite", (store) => store.delete(entry.id)).catch(() => {});
+        summary.dropped += 1;
+        continue;
+      }
+      let status: number;
+      try {
+        status = (await postJson(entry.url, entry.body)).status;
+      } catch {
+        // Still offline; try again on the next reconnect without spending an attempt
+        summary.remaining = queue.length - i;
+        break;
+      }
+
+      const done = (status >= 200 && status < 300) || status === 409;
+      const permanent = status >= 400 && status < 500
+        && status !== 401 && status !== 409 && status !== 429;
+      const exhausted = entry.attempts + 1 >= MAX_REPLAY_ATTEMPTS;
+
+      if (done || permanent || exhausted) {
+        await withStore("readwrite", (store) => store.delete(entry.id)).catch(() => {});
+        if (done) summary.sent += 1;
+        else summary.dropped += 1;
+        continue;
+      }
+
+      await withStore("readwrite", (store) =>
+        store.put({ ...entry, attempts: entry.attempts + 1 })
+      ).catch(() => {});
+      summary.remaining = queue.length - i;
+      break;
+    }
+
+    return summary;
+  })().finally(() => {
+    replayInFlight = null;
+  });
+  return replayInFlight;
+}
@@ -13,6 +13,8 @@ export type PendingLesson = {
   model_speed: "fast" | "slow";
   generation_tier: "free" | "plus" | "premium";
   position: number;
+  // Quality gate verdict the lesson was queued with; null for rows queued before the gate
+  verdict_id: number | null;
   created_at: string;
   updated_at: string;
 };
@@ -105,6 +107,8 @@ export async function countPendingLessons(
 /**
  * Store a new pending lesson.
  * Automatically assigns the next available position.
+ * Only lessons with a non-rejected quality verdict can be queued (a database
+ * trigger checks `verdictId`), so lessons without one are refused here.
  */
 export async function storePendingLesson(
   sb: SupabaseClient,
@@ -113,8 +117,14 @@ export async function storePendingLesson(
   topicLabel: string,
   lesson: Lesson,
   modelSpeed: "fast" | "slow",
-  generationTier: "free" | "plus" | "premium"
+  generationTier: "free" | "plus" | "premium",
+  verdictId: number | null
 ): Promise<PendingLesson | null> {
+  if (verdictId == null) {
+    console.warn("[pending-lessons] storePendingLesson skipped: no quality verdict", { subject, lessonId: lesson.id });
+    return null;
+  }
+
   try {
     // Get current max position
     const { data: maxData } = await sb
@@ -138,6 +148,7 @@ export async function storePendingLesson(
         model_speed: modelSpeed,
         generation_tier: generationTier,
         position: nextPosition,
+        verdict_id: verdictId,
       })
       .select()
       .single();
@@ -229,6 +240,39 @@ export async function removePendingLesson(
   }
 }
 
+/**
+ * Remove a pending lesson by its lesson id, wherever it sits in the queue.
+ * Used when a lesson was taken out of order (e.g. while offline).
+ * Returns false when no pending lesson carries that id.
+ */
+export async function removePendingLessonById(
+  sb: SupabaseClient,
+  userId: string,
+  lessonId: string
+): Promise<boolean> {
+  try {
+    const { data, error } = await sb
+      .from("user_pending_lessons")
+      .select("subject, position")
+      .eq("user_id", userId)
+      .eq("lesson->>id", lessonId)
+      .limit(1);
+
+    if (error) {
+      console.error("[pending-lessons] removePendingLessonById fetch error:", error);
+      return false;
+    }
+
+    const row = (data as { subject: string; position: number }[] | null)?.[0];
+    if (!row) return false;
+
+    return await removePendingLesson(sb, userId, row.subject, row.position);
+  } catch (err) {
+    console.error("[pending-lessons] removePendingLessonById exception:", err);
+    return false;
+  }
+}
+
 /**
  * Clear all pending lessons for a user and subject.
  * Useful for reset scenarios or when curriculum changes.
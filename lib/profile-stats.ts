@@ -1,24 +1,31 @@
+import { addDaysToDateKey, diffDateKeys, getLocalDateKey, normalizeTimeZone } from "./timezone";
+
 export type ProfileStats = {
   points: number;
   streak: number;
   lastStudyDate: string | null;
+  streakFreezes: number;
+  timeZone: string | null;
   updatedAt: string | null;
 };
 
-const MS_PER_DAY = 86_400_000;
+// Freezes a learner can hold at once; more are neither earned nor sold past this
+export const MAX_STREAK_FREEZES = 2;
+// One freeze is earned each time the streak reaches a multiple of this
+export const STREAK_FREEZE_EARN_EVERY = 7;
+// Price of a freeze in points
+export const STREAK_FREEZE_COST = 200;
 
-function startOfUtcDay(date: Date) {
-  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
-}
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}/;
 
-function parseIsoDate(value: string | null | undefined): Date | null {
-  if (!value) return null;
-  const parsed = new Date(value);
-  return Number.isFinite(parsed.getTime()) ? parsed : null;
-}
+type StreakOptions = {
+  timeZone?: string | null;
+  freezes?: number;
+};
 
-function diffInDays(from: Date, to: Date): number {
-  return Math.floor((startOfUtcDay(to) - startOfUtcDay(from)) / MS_PER_DAY);
+function toDateKey(value: string | null | undefined): string | null {
+  if (!value || !DATE_KEY_PATTERN.test(value)) return null;
+  return Number.isFinite(new Date(value.slice(0, 10)).getTime()) ? value.slice(0, 10) : null;
 }
 
 function toNumber(value: unknown): number {
@@ -27,43 +34,97 @@ function toNumber(value: unknown): number {
   return Number.isFinite(parsed) ? parsed : 0;
 }
 
-export function computeStreakAfterActivity(
+function clampFreezes(value: number | undefined): number {
+  return Math.min(MAX_STREAK_FREEZES, Math.max(0, Math.floor(value ?? 0)));
+}
+
+/** Today's date key in the learner's timezone; streak days follow local midnight. */
+export function getStreakDay(now: Date = new Date(), timeZone?: string | null): string {
+  return getLocalDateKey(now, normalizeTimeZone(timeZone));
+}
+
+/**
+ * Days since the last study day that nobody studied on, as of today. The
+ * streak survives while every one of them can be covered by a freeze.
+ */
+function missedDays(lastStudyDate: string | null | undefined, now: Date, timeZone?: string | null): number | null {
+  const last = toDateKey(lastStudyDate);
+  if (!last) return null;
+  return Math.max(0, diffDateKeys(last, getStreakDay(now, timeZone)) - 1);
+}
+
+export type StreakActivityOutcome = {
+  // Local date key to store as last_study_date
+  today: string;
+  streak: number;
+  // Freezes left after covering missed days and earning new ones
+  freezes: number;
+  // Missed days a freeze was spent on, oldest first
+  frozenDays: string[];
+  earnedFreeze: boolean;
+  // No streak carried over: this activity starts a new one
+  startedNew: boolean;
+  // First activity of the day, so the streak moved
+  advanced: boolean;
+};
+
+/**
+ * Apply a study activity to a streak. Days are counted in the learner's
+ * timezone. Missed days are covered by freezes when there are enough of them;
+ * otherwise the streak restarts and the freezes are kept.
+ */
+export function resolveStreakActivity(
   previousStreak: number,
   lastStudyDate: string | null | undefined,
-  now: Date = new Date()
-): number {
-  const prev = Number.isFinite(previousStreak) ? previousStreak : 0;
-  const last = parseIsoDate(lastStudyDate);
+  now: Date = new Date(),
+  opts: StreakOptions = {}
+): StreakActivityOutcome {
+  const prev = Number.isFinite(previousStreak) ? Math.max(0, previousStreak) : 0;
+  const freezes = clampFreezes(opts.freezes);
+  const today = getStreakDay(now, opts.timeZone);
+  const last = toDateKey(lastStudyDate);
+  const base = { today, freezes, frozenDays: [] as string[], earnedFreeze: false };
+
   if (!last) {
-    return Math.max(1, prev || 1);
+    return { ...base, streak: Math.max(1, prev || 1), startedNew: prev <= 0, advanced: true };
   }
-  const diff = diffInDays(last, now);
+  const diff = diffDateKeys(last, today);
   if (diff <= 0) {
-    return Math.max(prev, 1);
+    return { ...base, streak: Math.max(prev, 1), startedNew: prev <= 0, advanced: false };
   }
-  if (diff === 1) {
-    return Math.max(prev, 0) + 1;
+
+  const missed = diff - 1;
+  if (prev <= 0 || missed > freezes) {
+    return { ...base, streak: 1, startedNew: true, advanced: true };
   }
-  return 1;
+
+  const streak = prev + 1;
+  const frozenDays = Array.from({ length: missed }, (_, idx) => addDaysToDateKey(last, idx + 1));
+  let remaining = freezes - missed;
+  const earnedFreeze = streak % STREAK_FREEZE_EARN_EVERY === 0 && remaining < MAX_STREAK_FREEZES;
+  if (earnedFreeze) remaining += 1;
+  return { today, streak, freezes: remaining, frozenDays, earnedFreeze, startedNew: false, advanced: true };
 }
 
 export function shouldResetStreak(
   lastStudyDate: string | null | undefined,
-  now: Date = new Date()
+  now: Date = new Date(),
+  opts: StreakOptions = {}
 ): boolean {
-  const last = parseIsoDate(lastStudyDate);
-  if (!last) return false;
-  return diffInDays(last, now) >= 2;
+  const missed = missedDays(lastStudyDate, now, opts.timeZone);
+  if (missed === null) return false;
+  return missed > clampFreezes(opts.freezes);
 }
 
 export function ensurePositiveStreakForSameDay(
   currentStreak: number,
   lastStudyDate: string | null | undefined,
-  now: Date = new Date()
+  now: Date = new Date(),
+  opts: StreakOptions = {}
 ): number | null {
-  const last = parseIsoDate(lastStudyDate);
+  const last = toDateKey(lastStudyDate);
   if (!last) return null;
-  if (diffInDays(last, now) === 0 && currentStreak <= 0) {
+  if (last === getStreakDay(now, opts.timeZone) && currentStreak <= 0) {
     return 1;
   }
   return null;
@@ -74,6 +135,8 @@ export function normalizeProfileStats(row: Record<string, unknown> | null | unde
     points: toNumber(row?.points),
     streak: toNumber(row?.streak),
     lastStudyDate: (row?.last_study_date as string | null | undefined) ?? null,
+    streakFreezes: clampFreezes(toNumber(row?.streak_freezes)),
+    timeZone: (row?.timezone as string | null | undefined) ?? null,
     updatedAt: (row?.updated_at as string | null | undefined) ?? null,
   };
 }
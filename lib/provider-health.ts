@@ -0,0 +1,180 @@
+/**
+ * Provider Health Tracking
+ *
+ * In-process circuit breakers for AI providers. Each instance keeps a short
+ * rolling window of outcomes per provider and uses it to decide whether a
+ * provider should be tried, deprioritised or skipped.
+ *
+ * States:
+ * - closed: healthy, requests flow normally
+ * - open: too many recent failures; skipped until the cooldown expires
+ * - half-open: cooldown expired; a single trial request decides whether to close again
+ *
+ * A provider whose recent latency is well above its peers is reported as
+ * "degraded" and moved behind healthy providers without being skipped.
+ */
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+type Sample = { at: number; ok: boolean; latencyMs: number };
+
+type ProviderCircuit = {
+  state: BreakerState;
+  samples: Sample[];
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+};
+
+export type ProviderHealth = {
+  provider: string;
+  state: BreakerState;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  samples: number;
+  degraded: boolean;
+};
+
+const WINDOW_MS = 60_000;          // only the last minute of outcomes counts
+const MAX_SAMPLES = 50;
+const MIN_SAMPLES_FOR_RATE = 5;
+const ERROR_RATE_THRESHOLD = 0.5;  // open at 50% failures...
+const CONSECUTIVE_FAILURES_TO_OPEN = 3; // ...or 3 failures in a row
+const OPEN_COOLDOWN_MS = 30_000;
+const DEGRADED_LATENCY_MS = 20_000;
+
+const circuits = new Map<string, ProviderCircuit>();
+
+function getCircuit(provider: string): ProviderCircuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { state: "closed", samples: [], consecutiveFailures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+function pruneSamples(circuit: ProviderCircuit, now: number) {
+  const cutoff = now - WINDOW_MS;
+  circuit.samples = circuit.samples.filter((s) => s.at >= cutoff).slice(-MAX_SAMPLES);
+}
+
+/**
+ * Whether a request may be sent to the provider right now.
+ * Moves an open breaker to half-open once its cooldown has passed and
+ * reserves the single trial request.
+ */
+export function canAttemptProvider(provider: string, now: number = Date.now()): boolean {
+  const circuit = getCircuit(provider);
+  if (circuit.state === "closed") return true;
+  if (circuit.state === "open") {
+    if (circuit.openedAt !== null && now - circuit.openedAt >= OPEN_COOLDOWN_MS) {
+      circuit.state = "half-open";
+      circuit.trialInFlight = false;
+    } else {
+      return false;
+    }
+  }
+  if (circuit.trialInFlight) return false;
+  circuit.trialInFlight = true;
+  return true;
+}
+
+/**
+ * Record the outcome of a request and update the breaker state.
+ */
+export function recordProviderResult(
+  provider: string,
+  ok: boolean,
+  latencyMs: number,
+  now: number = Date.now()
+) {
+  const circuit = getCircuit(provider);
+  circuit.samples.push({ at: now, ok, latencyMs });
+  pruneSamples(circuit, now);
+
+  if (ok) {
+    circuit.consecutiveFailures = 0;
+    if (circuit.state !== "closed") {
+      console.info(`[provider-health] ${provider} recovered; closing breaker`);
+    }
+    circuit.state = "closed";
+    circuit.openedAt = null;
+    circuit.trialInFlight = false;
+    return;
+  }
+
+  circuit.consecutiveFailures += 1;
+  const failures = circuit.samples.filter((s) => !s.ok).length;
+  const errorRate = circuit.samples.length ? failures / circuit.samples.length : 0;
+  const tripped =
+    circuit.state === "half-open" ||
+    circuit.consecutiveFailures >= CONSECUTIVE_FAILURES_TO_OPEN ||
+    (circuit.samples.length >= MIN_SAMPLES_FOR_RATE && errorRate >= ERROR_RATE_THRESHOLD);
+
+  if (tripped) {
+    if (circuit.state !== "open") {
+      console.warn(`[provider-health] opening breaker for ${provider}`, {
+        errorRate: Number(errorRate.toFixed(2)),
+        consecutiveFailures: circuit.consecutiveFailures,
+      });
+    }
+    circuit.state = "open";
+    circuit.openedAt = now;
+    circuit.trialInFlight = false;
+  }
+}
+
+/**
+ * Snapshot of a provider's recent health.
+ */
+export function getProviderHealth(provider: string, now: number = Date.now()): ProviderHealth {
+  const circuit = getCircuit(provider);
+  pruneSamples(circuit, now);
+  const total = circuit.samples.length;
+  const failures = circuit.samples.filter((s) => !s.ok).length;
+  const okSamples = circuit.samples.filter((s) => s.ok);
+  const avgLatencyMs = okSamples.length
+    ? Math.round(okSamples.reduce((sum, s) => sum + s.latencyMs, 0) / okSamples.length)
+    : null;
+  return {
+    provider,
+    state: circuit.state,
+    errorRate: total ? failures / total : 0,
+    avgLatencyMs,
+    samples: total,
+    degraded: avgLatencyMs !== null && avgLatencyMs >= DEGRADED_LATENCY_MS,
+  };
+}
+
+/**
+ * Order providers by health while keeping the configured preference within
+ * each group: healthy first, then degraded, then providers with an open breaker.
+ */
+export function rankProvidersByHealth<T extends { provider: string }>(chain: T[], now: number = Date.now()): T[] {
+  const rank = (entry: T) => {
+    const health = getProviderHealth(entry.provider, now);
+    if (health.state === "open") return 2;
+    return health.degraded ? 1 : 0;
+  };
+  return chain
+    .map((entry, index) => ({ entry, index, rank: rank(entry) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Whether an error should trigger failover to the next provider.
+ * Rate limits, timeouts, auth failures (provider-specific keys) and server
+ * errors are retryable; malformed requests would fail everywhere and are not.
+ */
+export function isRetryableProviderError(err: unknown): boolean {
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return status === 401 || status === 403 || status === 404 || status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  // No HTTP status: network error, timeout or aborted connection
+  const name = (err as { name?: unknown })?.name;
+  if (name === "AbortError") return false;
+  return true;
+}
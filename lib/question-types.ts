@@ -0,0 +1,143 @@
+// lib/question-types.ts
+// Helpers and grading for every question type; shared by QuizBlock and /api/attempt so scores agree
+
+import type { AnyQuestion, Question } from "@/types";
+
+/**
+ * Learner response per question type:
+ * - mcq: chosen index
+ * - multi-select: chosen indices
+ * - numeric: raw text, e.g. "9.8 m/s^2"
+ * - ordering: item texts in the learner's order
+ * - cloze: one string per blank
+ */
+export type QuestionAnswer = number | number[] | string | string[];
+
+export function isMcqQuestion(question: AnyQuestion): question is Question {
+  return question.type === undefined || question.type === "mcq";
+}
+
+// Relative slack so "0.1 + 0.2" style float noise never fails an exact answer
+const FLOAT_EPSILON = 1e-9;
+
+function normalizeText(value: string) {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.,;:!?]+$/, "")
+    .trim();
+}
+
+function normalizeUnit(unit: string) {
+  return unit.normalize("NFKC").replace(/[\s*·^]/g, "").replace(/²/g, "2").replace(/³/g, "3");
+}
+
+/**
+ * Split a numeric response into value and unit. Accepts thousands separators,
+ * scientific notation and simple fractions ("3/4").
+ */
+export function parseNumericAnswer(raw: string): { value: number | null; unit: string } {
+  const trimmed = raw.trim().replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const match = trimmed.match(/^([-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?\s*(.*)$/);
+  if (!match) return { value: null, unit: trimmed };
+  const numerator = Number(match[1]);
+  const denominator = match[2] !== undefined ? Number(match[2]) : 1;
+  if (!Number.isFinite(numerator) || !Number.isFinite(denominator) || denominator === 0) {
+    return { value: null, unit: match[3] ?? "" };
+  }
+  return { value: numerator / denominator, unit: (match[3] ?? "").trim() };
+}
+
+function textMatches(given: string, accepted: string) {
+  const a = normalizeText(given);
+  const b = normalizeText(accepted);
+  if (a === b) return true;
+  // "0.50" and "1/2" should match a numeric blank of "0.5"
+  const na = parseNumericAnswer(a);
+  const nb = parseNumericAnswer(b);
+  return na.value !== null && nb.value !== null && !na.unit && !nb.unit
+    && Math.abs(na.value - nb.value) <= FLOAT_EPSILON * Math.max(1, Math.abs(nb.value));
+}
+
+/**
+ * Whether an answer is correct. Malformed answers (wrong shape for the
+ * question type) are graded as incorrect rather than throwing.
+ */
+export function gradeQuestion(question: AnyQuestion, answer: unknown): boolean {
+  if (!question || answer === null || answer === undefined) return false;
+
+  if (isMcqQuestion(question)) {
+    return typeof answer === "number" && answer === question.correctIndex;
+  }
+
+  switch (question.type) {
+    case "multi-select": {
+      if (!Array.isArray(answer) || !answer.every((idx) => typeof idx === "number")) return false;
+      const chosen = new Set(answer as number[]);
+      const correct = new Set(question.correctIndices);
+      return chosen.size === correct.size && [...correct].every((idx) => chosen.has(idx));
+    }
+    case "numeric": {
+      if (typeof answer !== "string" && typeof answer !== "number") return false;
+      const { value, unit } = typeof answer === "number"
+        ? { value: answer, unit: "" }
+        : parseNumericAnswer(answer);
+      if (value === null) return false;
+      const tolerance = Math.max(question.tolerance ?? 0, FLOAT_EPSILON * Math.max(1, Math.abs(question.answer)));
+      if (Math.abs(value - question.answer) > tolerance) return false;
+      if (!question.unit) return true;
+      const accepted = [question.unit, ...(question.acceptedUnits ?? [])].map(normalizeUnit);
+      return accepted.includes(normalizeUnit(unit));
+    }
+    case "ordering": {
+      if (!Array.isArray(answer) || answer.length !== question.items.length) return false;
+      return answer.every((item, idx) => typeof item === "string" && normalizeText(item) === normalizeText(question.items[idx]));
+    }
+    case "cloze": {
+      if (!Array.isArray(answer) || answer.length !== question.blanks.length) return false;
+      return answer.every((given, idx) =>
+        typeof given === "string" && question.blanks[idx].some((accepted) => textMatches(given, accepted))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply a text transform (e.g. LaTeX normalization) to every learner-visible
+ * string in a question, whatever its type.
+ */
+export function mapQuestionText<T extends AnyQuestion>(question: T, fn: (text: string) => string): T {
+  const mapped = {
+    ...question,
+    prompt: typeof question.prompt === "string" ? fn(question.prompt) : question.prompt,
+    explanation: typeof question.explanation === "string" ? fn(question.explanation) : question.explanation,
+  } as T & Record<string, unknown>;
+  const mapList = (list: unknown) =>
+    Array.isArray(list) ? list.map((entry) => (typeof entry === "string" ? fn(entry) : entry)) : list;
+  if ("choices" in question) mapped.choices = mapList(question.choices);
+  if ("items" in question) mapped.items = mapList(question.items);
+  if ("blanks" in question && Array.isArray(question.blanks)) mapped.blanks = question.blanks.map(mapList);
+  return mapped;
+}
+
+/**
+ * Human-readable correct answer, for review screens.
+ */
+export function describeCorrectAnswer(question: AnyQuestion): string {
+  if (isMcqQuestion(question)) return question.choices[question.correctIndex] ?? "";
+  switch (question.type) {
+    case "multi-select":
+      return question.correctIndices.map((idx) => question.choices[idx]).filter(Boolean).join("; ");
+    case "numeric":
+      return question.unit ? `${question.answer} ${question.unit}` : String(question.answer);
+    case "ordering":
+      return question.items.join(" → ");
+    case "cloze":
+      return question.blanks.map((accepted) => accepted[0]).join(", ");
+    default:
+      return "";
+  }
+}
@@ -4,12 +4,47 @@
  */
 
 export interface QuizQuestion {
+  type?: string;
   prompt: string;
   choices: string[];
   correctIndex: number;
   explanation?: string;
 }
 
+// Any question type; only MCQ and multi-select carry shuffleable choices
+type ShuffleableQuestion = {
+  type?: string;
+  choices?: string[];
+  correctIndex?: number;
+  correctIndices?: number[];
+};
+
+function shuffledOrder(length: number): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Shuffles a multi-select question's choices and remaps correctIndices.
+ */
+function shuffleMultiSelectChoices<T extends ShuffleableQuestion>(question: T): T {
+  const choices = question.choices;
+  if (!Array.isArray(choices) || choices.length < 2 || !Array.isArray(question.correctIndices)) {
+    return question;
+  }
+  const order = shuffledOrder(choices.length);
+  const correct = new Set(question.correctIndices);
+  question.choices = order.map((originalIndex) => choices[originalIndex]);
+  question.correctIndices = order
+    .map((originalIndex, newIndex) => (correct.has(originalIndex) ? newIndex : -1))
+    .filter((idx) => idx >= 0);
+  return question;
+}
+
 /**
  * Shuffles the choices array of a question and updates the correctIndex accordingly.
  * Uses Fisher-Yates algorithm for unbiased randomization.
@@ -56,10 +91,14 @@ export function shuffleQuestionChoices<T extends QuizQuestion>(question: T): T {
  * @param questions - Array of questions to shuffle
  * @returns The same array with all questions shuffled
  */
-export function shuffleQuizQuestions<T extends QuizQuestion>(questions: T[]): T[] {
+export function shuffleQuizQuestions<T extends ShuffleableQuestion>(questions: T[]): T[] {
   if (!Array.isArray(questions)) {
     return questions;
   }
 
-  return questions.map(question => shuffleQuestionChoices(question));
+  return questions.map((question) => {
+    if (question.type === "multi-select") return shuffleMultiSelectChoices(question);
+    if (question.type !== undefined && question.type !== "mcq") return question;
+    return shuffleQuestionChoices(question as unknown as QuizQuestion) as unknown as T;
+  });
 }
@@ -1,11 +1,339 @@
-const BUCKET: Record<string, { tokens: number; ts: number }> = {};
-const CAP = 10;           // 10 requests
-const REFILL_MS = 60_000; // per minute
+/**
+ * Distributed Rate Limiting
+ *
+ * Per-route, per-tier request limits shared across serverless instances.
+ *
+ * Algorithms:
+ * - sliding-window: approximated sliding window (current + weighted previous
+ *   fixed window), smooth limits without storing every request timestamp
+ * - token-bucket: steady refill with short bursts up to the bucket capacity
+ *
+ * Storage:
+ * - SupabaseRateLimitStore: atomic `rate_limit_consume` RPC backed by the
+ *   `rate_limit_buckets` table (see db/sql/20251122_rate_limits.sql)
+ * - MemoryRateLimitStore: process-local fallback for dev and for when the
+ *   database is unreachable; bounded and swept so it cannot grow forever
+ *
+ * Any other backend (e.g. Redis with a Lua script) only needs to implement
+ * RateLimitStore.consume with the same semantics.
+ */
 
-export function take(ip: string) {
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseService } from "./supabase-service";
+import type { UserTier } from "./model-config";
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+export type RateLimitRoute = "generate" | "upload" | "tts" | "support-chat" | "data-export";
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  limit: number;    // requests per window (sliding) or bucket capacity (token)
+  windowMs: number; // window length (sliding) or time to refill a full bucket (token)
+}
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+  retryAfterMs: number;
+  policy: RateLimitPolicy;
+};
+
+export type StoreResult = Omit<RateLimitResult, "limit" | "policy">;
+
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, cost: number, now: number): Promise<StoreResult>;
+}
+
+const MINUTE_MS = 60_000;
+
+// Limits keyed by route and tier; "anon" applies when no user is signed in
+export const RATE_LIMIT_POLICIES: Record<RateLimitRoute, Record<UserTier | "anon", RateLimitPolicy>> = {
+  generate: {
+    anon: { algorithm: "sliding-window", limit: 5, windowMs: MINUTE_MS },
+    free: { algorithm: "sliding-window", limit: 10, windowMs: MINUTE_MS },
+    plus: { algorithm: "sliding-window", limit: 30, windowMs: MINUTE_MS },
+    premium: { algorithm: "sliding-window", limit: 60, windowMs: MINUTE_MS },
+  },
+  upload: {
+    anon: { algorithm: "token-bucket", limit: 5, windowMs: 5 * MINUTE_MS },
+    free: { algorithm: "token-bucket", limit: 20, windowMs: 5 * MINUTE_MS },
+    plus: { algorithm: "token-bucket", limit: 60, windowMs: 5 * MINUTE_MS },
+    premium: { algorithm: "token-bucket", limit: 120, windowMs: 5 * MINUTE_MS },
+  },
+  tts: {
+    anon: { algorithm: "token-bucket", limit: 3, windowMs: MINUTE_MS },
+    free: { algorithm: "token-bucket", limit: 6, windowMs: MINUTE_MS },
+    plus: { algorithm: "token-bucket", limit: 20, windowMs: MINUTE_MS },
+    premium: { algorithm: "token-bucket", limit: 40, windowMs: MINUTE_MS },
+  },
+  "support-chat": {
+    anon: { algorithm: "sliding-window", limit: 10, windowMs: MINUTE_MS },
+    free: { algorithm: "sliding-window", limit: 10, windowMs: MINUTE_MS },
+    plus: { algorithm: "sliding-window", limit: 20, windowMs: MINUTE_MS },
+    premium: { algorithm: "sliding-window", limit: 30, windowMs: MINUTE_MS },
+  },
+  // Full-account exports are heavy; a few per hour is plenty for everyone
+  "data-export": {
+    anon: { algorithm: "sliding-window", limit: 1, windowMs: 60 * MINUTE_MS },
+    free: { algorithm: "sliding-window", limit: 3, windowMs: 60 * MINUTE_MS },
+    plus: { algorithm: "sliding-window", limit: 3, windowMs: 60 * MINUTE_MS },
+    premium: { algorithm: "sliding-window", limit: 3, windowMs: 60 * MINUTE_MS },
+  },
+};
+
+// ============================================================================
+// ALGORITHMS (shared by the in-memory store; mirrored in SQL)
+// ============================================================================
+
+export type BucketState = {
+  tokens: number;
+  updatedAt: number;
+  windowStart: number;
+  windowCount: number;
+  prevCount: number;
+};
+
+export function consumeTokenBucket(
+  state: BucketState | null,
+  policy: RateLimitPolicy,
+  cost: number,
+  now: number
+): { state: BucketState; result: StoreResult } {
+  const rate = policy.limit / policy.windowMs; // tokens per ms
+  const prevTokens = state ? state.tokens : policy.limit;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = Math.min(policy.limit, prevTokens + elapsed * rate);
+
+  const allowed = tokens >= cost;
+  if (allowed) tokens -= cost;
+  const retryAfterMs = allowed ? 0 : Math.ceil((cost - tokens) / rate);
+  const resetMs = Math.ceil((policy.limit - tokens) / rate);
+
+  return {
+    state: { tokens, updatedAt: now, windowStart: 0, windowCount: 0, prevCount: 0 },
+    result: { allowed, remaining: Math.max(0, Math.floor(tokens)), resetMs, retryAfterMs },
+  };
+}
+
+export function consumeSlidingWindow(
+  state: BucketState | null,
+  policy: RateLimitPolicy,
+  cost: number,
+  now: number
+): { state: BucketState; result: StoreResult } {
+  const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs;
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.windowCount;
+    previous = state.prevCount;
+  } else if (state?.windowStart === windowStart - policy.windowMs) {
+    previous = state.windowCount;
+  }
+
+  const weight = 1 - (now - windowStart) / policy.windowMs;
+  const allowed = previous * weight + current + cost <= policy.limit;
+  if (allowed) current += cost;
+
+  const resetMs = windowStart + policy.windowMs - now;
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Wait until the previous window's weight has decayed enough, or for the next window
+    const headroom = policy.limit - current - cost;
+    retryAfterMs = previous > 0 && headroom >= 0
+      ? Math.max(1, Math.ceil(policy.windowMs * (1 - headroom / previous)) - (now - windowStart))
+      : resetMs;
+  }
+
+  return {
+    state: { tokens: 0, updatedAt: now, windowStart, windowCount: current, prevCount: previous },
+    result: {
+      allowed,
+      remaining: Math.max(0, Math.floor(policy.limit - (previous * weight + current))),
+      resetMs,
+      retryAfterMs,
+    },
+  };
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+const MEMORY_MAX_KEYS = 10_000;
+const MEMORY_SWEEP_INTERVAL_MS = MINUTE_MS;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  private lastSweep = 0;
+
+  async consume(key: string, policy: RateLimitPolicy, cost: number, now: number): Promise<StoreResult> {
+    this.sweep(now);
+    const entry = this.buckets.get(key);
+    const prev = entry && entry.expiresAt > now ? entry.state : null;
+    const { state, result } = policy.algorithm === "token-bucket"
+      ? consumeTokenBucket(prev, policy, cost, now)
+      : consumeSlidingWindow(prev, policy, cost, now);
+
+    // Re-insert so Map iteration order approximates LRU for eviction
+    this.buckets.delete(key);
+    this.buckets.set(key, { state, expiresAt: now + 2 * policy.windowMs });
+    return result;
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep >= MEMORY_SWEEP_INTERVAL_MS) {
+      this.lastSweep = now;
+      for (const [key, entry] of this.buckets) {
+        if (entry.expiresAt <= now) this.buckets.delete(key);
+      }
+    }
+    while (this.buckets.size >= MEMORY_MAX_KEYS) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest === undefined) break;
+      this.buckets.delete(oldest);
+    }
+  }
+}
+
+export class SupabaseRateLimitStore implements RateLimitStore {
+  constructor(private sb: SupabaseClient) {}
+
+  async consume(key: string, policy: RateLimitPolicy, cost: number): Promise<StoreResult> {
+    const { data, error } = await this.sb.rpc("rate_limit_consume", {
+      p_key: key,
+      p_algorithm: policy.algorithm,
+      p_limit: policy.limit,
+      p_window_ms: policy.windowMs,
+      p_cost: cost,
+    });
+    if (error) throw error;
+    const row = (Array.isArray(data) ? data[0] : data) as {
+      allowed: boolean;
+      remaining: number;
+      reset_ms: number;
+      retry_after_ms: number;
+    } | null;
+    if (!row) throw new Error("rate_limit_consume returned no row");
+    return {
+      allowed: row.allowed,
+      remaining: Number(row.remaining),
+      resetMs: Number(row.reset_ms),
+      retryAfterMs: Number(row.retry_after_ms),
+    };
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+let sharedStore: RateLimitStore | null = null;
+
+/**
+ * Pick the shared store when the service role key is configured, otherwise
+ * fall back to process-local limits. Set RATE_LIMIT_STORE=memory to force
+ * the in-memory store.
+ */
+function getRateLimitStore(): RateLimitStore {
+  if (sharedStore) return sharedStore;
+  if (process.env.RATE_LIMIT_STORE === "memory") {
+    sharedStore = memoryStore;
+    return sharedStore;
+  }
+  try {
+    sharedStore = new SupabaseRateLimitStore(supabaseService());
+  } catch {
+    // Service role not configured
+    sharedStore = memoryStore;
+  }
+  return sharedStore;
+}
+
+/**
+ * Override the store (e.g. a Redis adapter) for the current process.
+ */
+export function setRateLimitStore(store: RateLimitStore) {
+  sharedStore = store;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function getClientIp(req: Request): string {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    req.headers.get("x-real-ip")?.trim() ||
+    "anon"
+  );
+}
+
+/**
+ * Consume one request from the caller's budget for a route.
+ * Authenticated callers are keyed by user id so limits follow them across
+ * IPs; anonymous callers are keyed by IP.
+ */
+export async function checkRateLimit(opts: {
+  route: RateLimitRoute;
+  ip: string;
+  userId?: string | null;
+  tier?: UserTier | null;
+  cost?: number;
+}): Promise<RateLimitResult> {
+  const tierKey = opts.userId ? opts.tier ?? "free" : "anon";
+  const policy = RATE_LIMIT_POLICIES[opts.route][tierKey];
+  const key = `${opts.route}:${opts.userId ? `u:${opts.userId}` : `ip:${opts.ip}`}`;
+  const cost = Math.max(1, opts.cost ?? 1);
   const now = Date.now();
-  const b = BUCKET[ip] ?? { tokens: CAP, ts: now };
-  if (now - b.ts > REFILL_MS) { b.tokens = CAP; b.ts = now; }
-  if (b.tokens <= 0) { BUCKET[ip] = b; return false; }
-  b.tokens -= 1; BUCKET[ip] = b; return true;
+
+  let result: StoreResult;
+  try {
+    result = await getRateLimitStore().consume(key, policy, cost, now);
+  } catch (err) {
+    // Shared store unavailable: keep enforcing limits per instance rather than failing open
+    console.warn("[rate] shared store failed; using in-memory limits", err instanceof Error ? err.message : err);
+    result = await memoryStore.consume(key, policy, cost, now);
+  }
+
+  return { ...result, limit: policy.limit, policy };
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft) plus Retry-After when blocked.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.max(0, Math.ceil(result.resetMs / 1000))),
+    "RateLimit-Policy": `${result.limit};w=${Math.round(result.policy.windowMs / 1000)}`,
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+  }
+  return headers;
+}
+
+/**
+ * Copy rate limit headers onto an outgoing response.
+ */
+export function withRateLimitHeaders<T extends Response>(res: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    res.headers.set(name, value);
+  }
+  return res;
+}
+
+export function rateLimitExceededResponse(result: RateLimitResult): Response {
+  return new Response(
+    JSON.stringify({
+      error: "Rate limit exceeded",
+      retryAfter: Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+    }),
+    {
+      status: 429,
+      headers: { "content-type": "application/json", ...rateLimitHeaders(result) },
+    }
+  );
 }
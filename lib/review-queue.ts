@@ -0,0 +1,355 @@
+// lib/review-queue.ts
+// SM-2 spaced-repetition scheduler for answered quiz questions
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ReviewQuestion = {
+  prompt: string;
+  choices: string[];
+  correctIndex: number;
+  explanation: string;
+};
+
+export type ReviewSchedule = {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+};
+
+export type ReviewItem = ReviewSchedule & {
+  lessonId: string;
+  questionIndex: number;
+  subject: string;
+  topic: string | null;
+  lessonTitle: string | null;
+  question: ReviewQuestion;
+  dueAt: string;
+  lastReviewedAt: string | null;
+};
+
+/**
+ * Reference from a question inside a review lesson back to the
+ * original lesson/question it was sampled from.
+ */
+export type ReviewRef = {
+  lessonId: string;
+  questionIndex: number;
+};
+
+/**
+ * Outcome of answering one question. Subject, topic, title and the question
+ * snapshot are only required the first time a question enters the queue.
+ */
+export type ReviewOutcome = ReviewRef & {
+  correct: boolean;
+  subject?: string | null;
+  topic?: string | null;
+  lessonTitle?: string | null;
+  question?: ReviewQuestion | null;
+};
+
+type ReviewRow = {
+  user_id: string;
+  lesson_id: string;
+  question_index: number;
+  subject: string;
+  topic: string | null;
+  lesson_title: string | null;
+  question: ReviewQuestion;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  last_grade: number | null;
+  due_at: string;
+  last_reviewed_at: string | null;
+};
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const REVIEW_LESSON_PREFIX = "review-";
+
+const MS_PER_DAY = 86_400_000;
+const MAX_INTERVAL_DAYS = 365;
+
+/**
+ * Map a quiz answer to an SM-2 quality grade (0-5).
+ * Quiz answers are binary, so correct answers score 4 ("correct after
+ * hesitation") and incorrect ones 1 ("incorrect, but recognised").
+ */
+export function gradeAnswer(correct: boolean): number {
+  return correct ? 4 : 1;
+}
+
+/**
+ * Compute the next schedule for a question using the SM-2 algorithm.
+ * Grades below 3 count as a lapse and restart the repetition sequence.
+ */
+export function scheduleNextReview(
+  prev: ReviewSchedule | null,
+  grade: number,
+  now: Date = new Date()
+): ReviewSchedule & { dueAt: Date } {
+  const q = Math.max(0, Math.min(5, Math.round(grade)));
+  const base: ReviewSchedule = prev ?? {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+  };
+
+  const easeDelta = 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02);
+  const easeFactor = Math.max(MIN_EASE_FACTOR, Number((base.easeFactor + easeDelta).toFixed(2)));
+
+  let repetitions: number;
+  let intervalDays: number;
+  let lapses = base.lapses;
+
+  if (q < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+    if (prev) lapses += 1;
+  } else {
+    repetitions = base.repetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(Math.max(1, base.intervalDays) * easeFactor);
+    }
+  }
+
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, intervalDays);
+  const dueAt = new Date(now.getTime() + intervalDays * MS_PER_DAY);
+
+  return { easeFactor, intervalDays, repetitions, lapses, dueAt };
+}
+
+function rowToItem(row: ReviewRow): ReviewItem {
+  return {
+    lessonId: row.lesson_id,
+    questionIndex: row.question_index,
+    subject: row.subject,
+    topic: row.topic,
+    lessonTitle: row.lesson_title,
+    question: row.question,
+    easeFactor: Number(row.ease_factor),
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+  };
+}
+
+function isValidQuestion(value: unknown): value is ReviewQuestion {
+  if (!value || typeof value !== "object") return false;
+  const q = value as Partial<ReviewQuestion>;
+  return (
+    typeof q.prompt === "string" &&
+    Array.isArray(q.choices) &&
+    q.choices.length >= 2 &&
+    typeof q.correctIndex === "number" &&
+    q.correctIndex >= 0 &&
+    q.correctIndex < q.choices.length
+  );
+}
+
+/**
+ * Apply answer outcomes to the review queue.
+ * New questions are inserted with a fresh schedule; known questions are
+ * rescheduled from their stored state. `sb` must be the service-role client.
+ */
+export async function recordReviewOutcomes(
+  sb: SupabaseClient,
+  userId: string,
+  outcomes: ReviewOutcome[],
+  now: Date = new Date()
+): Promise<number> {
+  if (!outcomes.length) return 0;
+  try {
+    const lessonIds = Array.from(new Set(outcomes.map((o) => o.lessonId)));
+    const { data: existingRows, error: fetchError } = await sb
+      .from("user_review_items")
+      .select("*")
+      .eq("user_id", userId)
+      .in("lesson_id", lessonIds);
+
+    if (fetchError) {
+      console.error("[review-queue] recordReviewOutcomes fetch error:", fetchError);
+      return 0;
+    }
+
+    const existing = new Map<string, ReviewRow>();
+    for (const row of (existingRows as ReviewRow[] | null) ?? []) {
+      existing.set(`${row.lesson_id}#${row.question_index}`, row);
+    }
+
+    const nowIso = now.toISOString();
+    const upserts: ReviewRow[] = [];
+    for (const outcome of outcomes) {
+      const key = `${outcome.lessonId}#${outcome.questionIndex}`;
+      const prevRow = existing.get(key) ?? null;
+      const question = prevRow?.question ?? outcome.question ?? null;
+      const subject = prevRow?.subject ?? outcome.subject ?? null;
+      if (!subject || !isValidQuestion(question)) continue;
+
+      const grade = gradeAnswer(outcome.correct);
+      const next = scheduleNextReview(
+        prevRow
+          ? {
+              easeFactor: Number(prevRow.ease_factor),
+              intervalDays: prevRow.interval_days,
+              repetitions: prevRow.repetitions,
+              lapses: prevRow.lapses,
+            }
+          : null,
+        grade,
+        now
+      );
+
+      upserts.push({
+        user_id: userId,
+        lesson_id: outcome.lessonId,
+        question_index: outcome.questionIndex,
+        subject,
+        topic: prevRow?.topic ?? outcome.topic ?? null,
+        lesson_title: prevRow?.lesson_title ?? outcome.lessonTitle ?? null,
+        question,
+        ease_factor: next.easeFactor,
+        interval_days: next.intervalDays,
+        repetitions: next.repetitions,
+        lapses: next.lapses,
+        last_grade: grade,
+        due_at: next.dueAt.toISOString(),
+        last_reviewed_at: nowIso,
+      });
+    }
+
+    if (!upserts.length) return 0;
+
+    const { error: upsertError } = await sb
+      .from("user_review_items")
+      .upsert(
+        upserts.map((row) => ({ ...row, updated_at: nowIso })),
+        { onConflict: "user_id,lesson_id,question_index" }
+      );
+
+    if (upsertError) {
+      console.error("[review-queue] recordReviewOutcomes upsert error:", upsertError);
+      return 0;
+    }
+
+    return upserts.length;
+  } catch (err) {
+    console.error("[review-queue] recordReviewOutcomes exception:", err);
+    return 0;
+  }
+}
+
+/**
+ * Fetch questions that are due for review, most overdue first.
+ */
+export async function getDueReviewItems(
+  sb: SupabaseClient,
+  userId: string,
+  opts: { subject?: string | null; limit?: number; now?: Date } = {}
+): Promise<ReviewItem[]> {
+  const now = opts.now ?? new Date();
+  const limit = Math.max(1, Math.min(50, opts.limit ?? 10));
+  try {
+    let query = sb
+      .from("user_review_items")
+      .select("*")
+      .eq("user_id", userId)
+      .lte("due_at", now.toISOString())
+      .order("due_at", { ascending: true })
+      .limit(limit);
+
+    if (opts.subject) {
+      query = query.eq("subject", opts.subject);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("[review-queue] getDueReviewItems error:", error);
+      return [];
+    }
+
+    return ((data as ReviewRow[] | null) ?? [])
+      .filter((row) => isValidQuestion(row.question))
+      .map(rowToItem);
+  } catch (err) {
+    console.error("[review-queue] getDueReviewItems exception:", err);
+    return [];
+  }
+}
+
+/**
+ * Count questions currently due for review.
+ */
+export async function countDueReviewItems(
+  sb: SupabaseClient,
+  userId: string,
+  opts: { subject?: string | null; now?: Date } = {}
+): Promise<number> {
+  const now = opts.now ?? new Date();
+  try {
+    let query = sb
+      .from("user_review_items")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .lte("due_at", now.toISOString());
+
+    if (opts.subject) {
+      query = query.eq("subject", opts.subject);
+    }
+
+    const { count, error } = await query;
+    if (error) {
+      console.error("[review-queue] countDueReviewItems error:", error);
+      return 0;
+    }
+    return count ?? 0;
+  } catch (err) {
+    console.error("[review-queue] countDueReviewItems exception:", err);
+    return 0;
+  }
+}
+
+/**
+ * Bundle due items into a lesson-shaped object the FYP feed can render.
+ * Each question keeps a ref back to its source so grading reschedules the
+ * original item rather than creating a new one.
+ */
+export function buildReviewLesson(items: ReviewItem[], now: Date = new Date()) {
+  if (!items.length) return null;
+  const subjects = Array.from(new Set(items.map((item) => item.subject)));
+  const titles = Array.from(
+    new Set(items.map((item) => item.lessonTitle).filter((t): t is string => !!t))
+  ).slice(0, 3);
+  const subject = subjects.length === 1 ? subjects[0] : subjects[0] ?? "Review";
+  const source = titles.length ? ` from ${titles.join(", ")}` : "";
+
+  return {
+    id: `${REVIEW_LESSON_PREFIX}${now.getTime().toString(36)}`,
+    subject,
+    topic: undefined,
+    title: subjects.length === 1 ? `Review: ${subject}` : "Mixed review",
+    content:
+      `Time for a quick review${source}. These questions are due because you are about to forget them. ` +
+      "Recalling an answer right before it fades is what moves it into long-term memory, so give each one an honest try before peeking at the choices.",
+    difficulty: "easy" as const,
+    questions: items.map((item) => ({ ...item.question, explanation: item.question.explanation ?? "" })),
+    context: {
+      review: true,
+      reviewRefs: items.map<ReviewRef>((item) => ({ lessonId: item.lessonId, questionIndex: item.questionIndex })),
+    },
+  };
+}
+
+export function isReviewLessonId(id: string | null | undefined): boolean {
+  return typeof id === "string" && id.startsWith(REVIEW_LESSON_PREFIX);
+}
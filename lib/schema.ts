@@ -1,7 +1,8 @@
 import { z } from "zod";
 
-// One MCQ with a mandatory short explanation
+// One MCQ with a mandatory short explanation. `type` is omitted on older lessons.
 export const QuestionSchema = z.object({
+  type: z.literal("mcq").optional(),
   prompt: z.string().min(1),
   choices: z.array(z.string().min(1)).length(4),
   correctIndex: z.number().int().min(0).max(3),
@@ -10,6 +11,78 @@ export const QuestionSchema = z.object({
 
 export type Question = z.infer<typeof QuestionSchema>;
 
+export const QUESTION_TYPES = ["mcq", "numeric", "multi-select", "ordering", "cloze"] as const;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+// Blanks in cloze prompts are written as three or more underscores
+export const CLOZE_BLANK_RE = /_{3,}/g;
+
+// Free-response number; graded within an absolute tolerance and, when set, unit
+export const NumericQuestionSchema = z.object({
+  type: z.literal("numeric"),
+  prompt: z.string().min(1),
+  answer: z.number().finite(),
+  tolerance: z.number().min(0).default(0),
+  unit: z.string().max(24).optional(),
+  acceptedUnits: z.array(z.string().min(1).max(24)).max(6).optional(), // Equivalent spellings of `unit`
+  explanation: z.string().min(3).max(280),
+});
+
+export const MultiSelectQuestionSchema = z.object({
+  type: z.literal("multi-select"),
+  prompt: z.string().min(1),
+  choices: z.array(z.string().min(1)).min(4).max(6),
+  correctIndices: z.array(z.number().int().min(0)).min(1),
+  explanation: z.string().min(3).max(280),
+}).superRefine((question, ctx) => {
+  const unique = new Set(question.correctIndices);
+  if (unique.size !== question.correctIndices.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctIndices"], message: "correctIndices must be unique" });
+  }
+  if (question.correctIndices.some((idx) => idx >= question.choices.length)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctIndices"], message: "correctIndices must reference choices" });
+  }
+});
+
+// `items` are stored in the correct order; clients shuffle them for display
+export const OrderingQuestionSchema = z.object({
+  type: z.literal("ordering"),
+  prompt: z.string().min(1),
+  items: z.array(z.string().min(1)).min(3).max(6),
+  explanation: z.string().min(3).max(280),
+});
+
+// Each blank lists its accepted answers
+export const ClozeQuestionSchema = z.object({
+  type: z.literal("cloze"),
+  prompt: z.string().min(1),
+  blanks: z.array(z.array(z.string().min(1)).min(1).max(5)).min(1).max(4),
+  explanation: z.string().min(3).max(280),
+}).superRefine((question, ctx) => {
+  const blankCount = question.prompt.match(CLOZE_BLANK_RE)?.length ?? 0;
+  if (blankCount !== question.blanks.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["blanks"],
+      message: `Prompt has ${blankCount} blanks but ${question.blanks.length} answer sets were given.`,
+    });
+  }
+});
+
+export const AnyQuestionSchema = z.union([
+  NumericQuestionSchema,
+  MultiSelectQuestionSchema,
+  OrderingQuestionSchema,
+  ClozeQuestionSchema,
+  QuestionSchema,
+]);
+
+export type NumericQuestion = z.infer<typeof NumericQuestionSchema>;
+export type MultiSelectQuestion = z.infer<typeof MultiSelectQuestionSchema>;
+export type OrderingQuestion = z.infer<typeof OrderingQuestionSchema>;
+export type ClozeQuestion = z.infer<typeof ClozeQuestionSchema>;
+export type AnyQuestion = z.infer<typeof AnyQuestionSchema>;
+
 // Lesson includes 1-3 MCQs and metadata for adaptive learning
 export const MIN_LESSON_WORDS = 80;
 export const MAX_LESSON_WORDS = 105;
@@ -23,7 +96,7 @@ export const LessonSchema = z.object({
   title: z.string().min(1),
   content: z.string().min(180).max(MAX_LESSON_CHARS),  // tuned for ~80-105 words at typical word length
   difficulty: z.enum(["intro","easy","medium","hard"]).default("easy"), // NEW
-  questions: z.array(QuestionSchema).length(3),
+  questions: z.array(AnyQuestionSchema).length(3),
   // media optional; we'll keep it off for now to control cost
   mediaUrl: z.string().url().optional(),
   mediaType: z.enum(["image","video"]).optional(),
@@ -55,6 +128,7 @@ export const LessonSchema = z.object({
   }
 
   lesson.questions.forEach((question, idx) => {
+    if (!("correctIndex" in question)) return;
     if (question.correctIndex < 0 || question.correctIndex >= question.choices.length) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -66,3 +140,127 @@ export const LessonSchema = z.object({
 });
 export type Lesson = z.infer<typeof LessonSchema>;
 
+
+// Lesson formats beyond the default micro-lesson. `micro` keeps LessonSchema as-is.
+export const LESSON_FORMATS = ["micro", "deep-dive", "worked-example", "flashcards", "cheat-sheet"] as const;
+export const LessonFormatSchema = z.enum(LESSON_FORMATS);
+export type LessonFormat = z.infer<typeof LessonFormatSchema>;
+export const DEFAULT_LESSON_FORMAT: LessonFormat = "micro";
+export const LESSON_FORMAT_LABELS: Record<LessonFormat, string> = {
+  micro: "Micro",
+  "deep-dive": "Deep Dive",
+  "worked-example": "Worked Example",
+  flashcards: "Flashcards",
+  "cheat-sheet": "Cheat Sheet",
+};
+
+export const DEEP_DIVE_MIN_WORDS = 300;
+export const DEEP_DIVE_MAX_WORDS = 600;
+
+// Shared fields for non-micro formats; content is a short intro/summary for those
+const lessonBaseShape = {
+  id: z.string().min(1),
+  subject: z.string().min(1),
+  topic: z.string().min(1),
+  title: z.string().min(1),
+  difficulty: z.enum(["intro","easy","medium","hard"]).default("easy"),
+  mediaUrl: z.string().url().optional(),
+  mediaType: z.enum(["image","video"]).optional(),
+};
+
+function countWords(text: string) {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export const DeepDiveLessonSchema = z.object({
+  ...lessonBaseShape,
+  format: z.literal("deep-dive"),
+  content: z.string().min(600).max(4800),
+  questions: z.array(AnyQuestionSchema).min(5).max(8),
+}).passthrough().superRefine((lesson, ctx) => {
+  const words = countWords(lesson.content);
+  if (words < DEEP_DIVE_MIN_WORDS || words > DEEP_DIVE_MAX_WORDS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["content"],
+      message: `Deep-dive content must be ${DEEP_DIVE_MIN_WORDS}-${DEEP_DIVE_MAX_WORDS} words (got ${words}).`,
+    });
+  }
+});
+
+export const WorkedExampleStepSchema = z.object({
+  title: z.string().min(1).max(120),
+  explanation: z.string().min(1).max(600),
+  work: z.string().max(400).optional(), // Equation/code line shown for this step
+});
+
+export const WorkedExampleLessonSchema = z.object({
+  ...lessonBaseShape,
+  format: z.literal("worked-example"),
+  content: z.string().min(1).max(MAX_LESSON_CHARS), // Short framing of the technique
+  problem: z.string().min(1).max(600),
+  steps: z.array(WorkedExampleStepSchema).min(3).max(8),
+  answer: z.string().min(1).max(300),
+  questions: z.array(AnyQuestionSchema).min(2).max(3),
+}).passthrough();
+
+export const FlashcardSchema = z.object({
+  front: z.string().min(1).max(200),
+  back: z.string().min(1).max(400),
+  hint: z.string().max(120).optional(),
+});
+
+export const FlashcardLessonSchema = z.object({
+  ...lessonBaseShape,
+  format: z.literal("flashcards"),
+  content: z.string().max(MAX_LESSON_CHARS).default(""),
+  cards: z.array(FlashcardSchema).min(6).max(20),
+  questions: z.array(AnyQuestionSchema).max(3).default([]),
+}).passthrough();
+
+export const CheatSheetSectionSchema = z.object({
+  heading: z.string().min(1).max(80),
+  items: z.array(z.string().min(1).max(240)).min(1).max(8),
+});
+
+export const CheatSheetLessonSchema = z.object({
+  ...lessonBaseShape,
+  format: z.literal("cheat-sheet"),
+  content: z.string().max(MAX_LESSON_CHARS).default(""),
+  sections: z.array(CheatSheetSectionSchema).min(2).max(8),
+  formulas: z.array(z.string().min(1).max(240)).max(10).optional(),
+  questions: z.array(AnyQuestionSchema).max(3).default([]),
+}).passthrough();
+
+export type WorkedExampleStep = z.infer<typeof WorkedExampleStepSchema>;
+export type Flashcard = z.infer<typeof FlashcardSchema>;
+export type CheatSheetSection = z.infer<typeof CheatSheetSectionSchema>;
+export type DeepDiveLesson = z.infer<typeof DeepDiveLessonSchema>;
+export type WorkedExampleLesson = z.infer<typeof WorkedExampleLessonSchema>;
+export type FlashcardLesson = z.infer<typeof FlashcardLessonSchema>;
+export type CheatSheetLesson = z.infer<typeof CheatSheetLessonSchema>;
+export type AnyFormatLesson = Lesson | DeepDiveLesson | WorkedExampleLesson | FlashcardLesson | CheatSheetLesson;
+
+/**
+ * Validation schema for a lesson format. Non-micro schemas require a matching
+ * `format` field, so callers should stamp it before parsing model output.
+ */
+export function getLessonSchema(format: LessonFormat) {
+  switch (format) {
+    case "deep-dive":
+      return DeepDiveLessonSchema;
+    case "worked-example":
+      return WorkedExampleLessonSchema;
+    case "flashcards":
+      return FlashcardLessonSchema;
+    case "cheat-sheet":
+      return CheatSheetLessonSchema;
+    default:
+      return LessonSchema;
+  }
+}
+
+export function parseLessonFormat(value: unknown): LessonFormat {
+  const parsed = LessonFormatSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_LESSON_FORMAT;
+}
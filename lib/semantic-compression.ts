@@ -10,6 +10,7 @@
 
 import OpenAI from "openai";
 import Groq from "groq-sdk";
+import { recordTelemetry } from "./telemetry";
 
 // Cache compressed results to avoid re-compression
 const compressionCache = new Map<string, { compressed: string; timestamp: number }>();
@@ -105,6 +106,7 @@ export async function compressContext(
     cleanCache();
     const cacheKey = getCacheKey(text, options);
     const cached = compressionCache.get(cacheKey);
+    recordTelemetry("cache_lookup", { cache: "semantic-compression", hit: Boolean(cached) });
     if (cached) {
       const originalTokens = estimateTokens(text);
       const compressedTokens = estimateTokens(cached.compressed);
@@ -203,6 +205,13 @@ Output ONLY the compressed text, no explanations or meta-commentary.`;
       },
     };
 
+    recordTelemetry("compression", {
+      model,
+      originalChars: result.originalLength,
+      compressedChars: result.compressedLength,
+      ratio: result.compressionRatio,
+    });
+
     console.log("[semantic-compression]", {
       original: originalTokens,
       compressed: compressedTokens,
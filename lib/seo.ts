@@ -267,6 +267,81 @@ export function absoluteUrl(path = ""): string {
   return toAbsoluteUrl(path);
 }
 
+export type LessonSeo = {
+  id: string;
+  title: string;
+  subject: string;
+  topic?: string | null;
+  difficulty?: string | null;
+  content?: string | null;
+  isPublic: boolean;
+};
+
+export function lessonOgImagePath(id: string): string {
+  return `/api/og?lesson=${encodeURIComponent(id)}`;
+}
+
+// Lesson content carries markdown and LaTeX; strip it down to a one-line summary
+function summarizeLesson(lesson: LessonSeo): string {
+  const plain = (lesson.content ?? "")
+    .replace(/\$\$?|\\[()[\]]/g, "")
+    .replace(/[#*_`>]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!plain) {
+    const level = lesson.difficulty ? `${lesson.difficulty} ` : "";
+    return `A ${level}${lesson.subject} micro-lesson with an instant quiz on ${siteConfig.name}.`;
+  }
+  if (plain.length <= 160) return plain;
+  const cut = plain.slice(0, 157);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > 100 ? cut.slice(0, lastSpace) : cut}...`;
+}
+
+export function buildLessonMetadata(lesson: LessonSeo): Metadata {
+  const image = toAbsoluteUrl(lessonOgImagePath(lesson.id));
+  const keywords = [lesson.subject, lesson.topic, ...siteConfig.keywords].filter(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  return buildMetadata({
+    title: lesson.title,
+    description: summarizeLesson(lesson),
+    path: `/lesson/${encodeURIComponent(lesson.id)}`,
+    keywords,
+    openGraph: {
+      type: "article",
+      section: lesson.subject,
+      images: [{ url: image, width: 1200, height: 630, alt: lesson.title }],
+    },
+    twitter: { images: [image] },
+    // Lessons shared privately (owner or playlist only) stay out of search results
+    noindex: !lesson.isPublic,
+  });
+}
+
+export function buildLessonSchema(lesson: LessonSeo) {
+  const url = toAbsoluteUrl(`/lesson/${encodeURIComponent(lesson.id)}`);
+  return {
+    "@context": "https://schema.org",
+    "@type": "LearningResource",
+    name: lesson.title,
+    description: summarizeLesson(lesson),
+    url,
+    image: toAbsoluteUrl(lessonOgImagePath(lesson.id)),
+    inLanguage: "en",
+    learningResourceType: "Lesson",
+    ...(lesson.difficulty ? { educationalLevel: lesson.difficulty } : {}),
+    about: { "@type": "Thing", name: lesson.topic || lesson.subject },
+    keywords: [lesson.subject, lesson.topic].filter(Boolean).join(", "),
+    isAccessibleForFree: true,
+    publisher: {
+      "@type": "Organization",
+      name: siteConfig.name,
+      url: siteConfig.url,
+    },
+  };
+}
+
 export const sitemapEntries: Array<{
   path: string;
   changeFrequency: MetadataRoute.Sitemap[number]["changeFrequency"];
@@ -450,6 +450,7 @@ export async function smartOCR(
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           images: [base64],
+          tier: isPremiumPipeline ? 'deepseek-high-pipeline' : 'deepseek-high',
         }),
       });
 
@@ -0,0 +1,71 @@
+// lib/smtp.ts
+// SMTP adapter (nodemailer; implicit TLS or STARTTLS) behind the MailTransport interface used for notification email
+
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/** Anything that can send a message; the SMTP transport below is the default adapter. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS when offered
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  // e.g. "Lernex <notifications@lernex.app>"
+  from: string;
+};
+
+const SOCKET_TIMEOUT_MS = 30_000;
+
+/** SMTP settings from SMTP_HOST/PORT/SECURE/USER/PASS/FROM, or null when email isn't set up. */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST?.trim();
+  const from = process.env.SMTP_FROM?.trim();
+  if (!host || !from) return null;
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    user: process.env.SMTP_USER?.trim() || null,
+    pass: process.env.SMTP_PASS ?? null,
+    from,
+  };
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Credentials are never sent in plain text: without implicit TLS the server must offer STARTTLS
+    requireTLS: !config.secure && !!config.user,
+    auth: config.user ? { user: config.user, pass: config.pass ?? "" } : undefined,
+    connectionTimeout: SOCKET_TIMEOUT_MS,
+    greetingTimeout: SOCKET_TIMEOUT_MS,
+    socketTimeout: SOCKET_TIMEOUT_MS,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+}
@@ -0,0 +1,125 @@
+// lib/streaks.ts
+// Streak history: one row per streak with the days freezes covered, written alongside profile streak updates
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDaysToDateKey } from "./timezone";
+import { shouldResetStreak, type StreakActivityOutcome } from "./profile-stats";
+
+export const STREAK_HISTORY_LIMIT = 20;
+
+export type StreakRun = {
+  id: number;
+  startedOn: string;
+  lastActiveOn: string;
+  length: number;
+  frozenDays: string[];
+  endedOn: string | null;
+};
+
+const STREAK_HISTORY_COLUMNS = "id, started_on, last_active_on, length, frozen_days, ended_on";
+
+export function normalizeStreakRun(row: Record<string, unknown>): StreakRun | null {
+  const id = typeof row.id === "number" ? row.id : Number(row.id);
+  if (!Number.isFinite(id) || typeof row.started_on !== "string" || typeof row.last_active_on !== "string") {
+    return null;
+  }
+  return {
+    id,
+    startedOn: row.started_on,
+    lastActiveOn: row.last_active_on,
+    length: Math.max(1, Number(row.length) || 1),
+    frozenDays: Array.isArray(row.frozen_days)
+      ? row.frozen_days.filter((day): day is string => typeof day === "string")
+      : [],
+    endedOn: typeof row.ended_on === "string" ? row.ended_on : null,
+  };
+}
+
+/**
+ * Mirror a streak update from resolveStreakActivity into streak_history:
+ * extend the current run, or close it and open a new one. `sb` must be the
+ * service-role client. Never throws; the profile already holds the streak itself.
+ */
+export async function recordStreakActivity(
+  sb: SupabaseClient,
+  userId: string,
+  outcome: StreakActivityOutcome
+): Promise<void> {
+  if (!outcome.advanced && !outcome.startedNew) return;
+  try {
+    const { data, error } = await sb
+      .from("streak_history")
+      .select(STREAK_HISTORY_COLUMNS)
+      .eq("user_id", userId)
+      .is("ended_on", null)
+      .maybeSingle();
+    if (error) throw error;
+    const current = data ? normalizeStreakRun(data as Record<string, unknown>) : null;
+    const nowIso = new Date().toISOString();
+
+    if (current && !outcome.startedNew) {
+      const { error: updateError } = await sb
+        .from("streak_history")
+        .update({
+          last_active_on: outcome.today,
+          length: outcome.streak,
+          frozen_days: Array.from(new Set([...current.frozenDays, ...outcome.frozenDays])),
+          updated_at: nowIso,
+        })
+        .eq("id", current.id);
+      if (updateError) throw updateError;
+      return;
+    }
+
+    if (current) {
+      const { error: closeError } = await sb
+        .from("streak_history")
+        .update({ ended_on: addDaysToDateKey(current.lastActiveOn, 1), updated_at: nowIso })
+        .eq("id", current.id);
+      if (closeError) throw closeError;
+    }
+    const { error: insertError } = await sb.from("streak_history").upsert(
+      {
+        user_id: userId,
+        started_on: addDaysToDateKey(outcome.today, -(outcome.streak - 1)),
+        last_active_on: outcome.today,
+        length: outcome.streak,
+        frozen_days: outcome.frozenDays,
+        ended_on: null,
+        updated_at: nowIso,
+      },
+      { onConflict: "user_id,started_on" }
+    );
+    if (insertError) throw insertError;
+  } catch (error) {
+    console.error("[streaks] recordStreakActivity error:", error);
+  }
+}
+
+/**
+ * Recent streaks, newest first. A current run whose missed days can no longer
+ * be covered is reported as ended the day after it was last active.
+ */
+export async function listStreakHistory(
+  sb: SupabaseClient,
+  userId: string,
+  opts: { timeZone?: string | null; freezes?: number; limit?: number; now?: Date } = {}
+): Promise<StreakRun[]> {
+  const { data, error } = await sb
+    .from("streak_history")
+    .select(STREAK_HISTORY_COLUMNS)
+    .eq("user_id", userId)
+    .order("started_on", { ascending: false })
+    .limit(opts.limit ?? STREAK_HISTORY_LIMIT);
+  if (error) throw error;
+
+  const now = opts.now ?? new Date();
+  return ((data as Record<string, unknown>[] | null) ?? [])
+    .map(normalizeStreakRun)
+    .filter((run): run is StreakRun => !!run)
+    .map((run) =>
+      !run.endedOn && shouldResetStreak(run.lastActiveOn, now, opts)
+        ? { ...run, endedOn: addDaysToDateKey(run.lastActiveOn, 1) }
+        : run
+    );
+}
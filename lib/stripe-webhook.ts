@@ -0,0 +1,405 @@
+// lib/stripe-webhook.ts
+// Applies Stripe billing events to profiles.subscription_tier and billing_accounts, and records them in subscription_history
+
+import type Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getPlanForPriceId, isPaidPlan, type PaidPlan } from "./stripe";
+import type { UserTier } from "./model-config";
+
+// How long a paid tier survives a failed renewal before it lapses to free
+const DEFAULT_GRACE_PERIOD_DAYS = 7;
+// A "processing" claim older than this is assumed to have crashed and may be retried
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export const HANDLED_STRIPE_EVENTS = [
+  "checkout.session.completed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.payment_failed",
+] as const;
+
+export type StripeEventClaim = "claimed" | "duplicate" | "in-progress";
+
+export type StripeEventOutcome = {
+  handled: boolean;
+  userId?: string;
+  tier?: UserTier;
+  reason?: string;
+};
+
+type BillingState = {
+  id: string;
+  subscription_tier: UserTier | null;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  subscription_status: string | null;
+  subscription_period_end: string | null;
+  subscription_cancel_at_period_end: boolean | null;
+  subscription_grace_until: string | null;
+};
+
+type BillingPatch = {
+  tier?: UserTier;
+  customerId?: string | null;
+  subscriptionId?: string | null;
+  status?: string | null;
+  periodEnd?: string | null;
+  cancelAtPeriodEnd?: boolean;
+  graceUntil?: string | null;
+};
+
+const BILLING_COLUMNS =
+  "stripe_customer_id, stripe_subscription_id, subscription_status, subscription_period_end, subscription_cancel_at_period_end, subscription_grace_until";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getGracePeriodDays(): number {
+  const raw = Number(process.env.STRIPE_GRACE_PERIOD_DAYS);
+  return Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_GRACE_PERIOD_DAYS;
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+function fromUnix(seconds: number | null | undefined): string | null {
+  return typeof seconds === "number" && seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+// ============================================================================
+// IDEMPOTENCY
+// ============================================================================
+
+/**
+ * Claim a delivered event before processing it. Returns "duplicate" once the
+ * event has been processed, and "in-progress" while another delivery holds a
+ * fresh claim. Failed or stale claims are taken over so retries can succeed.
+ */
+export async function claimStripeEvent(
+  sb: SupabaseClient,
+  event: Pick<Stripe.Event, "id" | "type">,
+  now: Date = new Date()
+): Promise<StripeEventClaim> {
+  const { error: insertError } = await sb
+    .from("stripe_webhook_events")
+    .insert({ id: event.id, type: event.type });
+  if (!insertError) return "claimed";
+  if (insertError.code !== "23505") throw insertError;
+
+  const { data: existing, error: fetchError } = await sb
+    .from("stripe_webhook_events")
+    .select("status, attempts, received_at")
+    .eq("id", event.id)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  const row = existing as { status: string; attempts: number; received_at: string } | null;
+  if (!row || row.status === "processed") return "duplicate";
+
+  const stale = row.status === "processing" && now.getTime() - Date.parse(row.received_at) > STALE_CLAIM_MS;
+  if (row.status !== "failed" && !stale) return "in-progress";
+
+  const { data: reclaimed, error: reclaimError } = await sb
+    .from("stripe_webhook_events")
+    .update({
+      status: "processing",
+      attempts: row.attempts + 1,
+      received_at: now.toISOString(),
+      last_error: null,
+    })
+    .eq("id", event.id)
+    .eq("status", row.status)
+    .eq("attempts", row.attempts)
+    .select("id");
+  if (reclaimError) throw reclaimError;
+  return (reclaimed as unknown[] | null)?.length ? "claimed" : "in-progress";
+}
+
+export async function finishStripeEvent(
+  sb: SupabaseClient,
+  eventId: string,
+  error?: unknown
+): Promise<void> {
+  const { error: updateError } = await sb
+    .from("stripe_webhook_events")
+    .update(
+      error
+        ? { status: "failed", last_error: error instanceof Error ? error.message : String(error) }
+        : { status: "processed", processed_at: new Date().toISOString(), last_error: null }
+    )
+    .eq("id", eventId);
+  if (updateError) {
+    console.error("[stripe-webhook] finish event error:", updateError);
+  }
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+async function loadBillingState(
+  sb: SupabaseClient,
+  refs: { userId?: string | null; customerId?: string | null }
+): Promise<BillingState | null> {
+  let userId = refs.userId && UUID_RE.test(refs.userId) ? refs.userId : null;
+  let account: Record<string, unknown> | null = null;
+  if (!userId && refs.customerId) {
+    const { data, error } = await sb
+      .from("billing_accounts")
+      .select(`user_id, ${BILLING_COLUMNS}`)
+      .eq("stripe_customer_id", refs.customerId)
+      .maybeSingle();
+    if (error) throw error;
+    account = (data as Record<string, unknown> | null) ?? null;
+    userId = account ? String(account.user_id) : null;
+  }
+  if (!userId) return null;
+
+  const { data: profile, error: profileError } = await sb
+    .from("profiles")
+    .select("id, subscription_tier")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profileError) throw profileError;
+  if (!profile) return null;
+  if (!account) {
+    const { data, error } = await sb.from("billing_accounts").select(BILLING_COLUMNS).eq("user_id", userId).maybeSingle();
+    if (error) throw error;
+    account = (data as Record<string, unknown> | null) ?? null;
+  }
+
+  const row = profile as { id: string; subscription_tier: UserTier | null };
+  const billing = (account ?? {}) as Partial<BillingState>;
+  return {
+    id: row.id,
+    subscription_tier: row.subscription_tier,
+    stripe_customer_id: billing.stripe_customer_id ?? null,
+    stripe_subscription_id: billing.stripe_subscription_id ?? null,
+    subscription_status: billing.subscription_status ?? null,
+    subscription_period_end: billing.subscription_period_end ?? null,
+    subscription_cancel_at_period_end: billing.subscription_cancel_at_period_end ?? null,
+    subscription_grace_until: billing.subscription_grace_until ?? null,
+  };
+}
+
+async function applyBillingPatch(
+  sb: SupabaseClient,
+  event: Stripe.Event,
+  state: BillingState,
+  patch: BillingPatch
+): Promise<StripeEventOutcome> {
+  const previousTier: UserTier = state.subscription_tier ?? "free";
+  const tier = patch.tier ?? previousTier;
+  const next = {
+    stripe_customer_id: patch.customerId !== undefined ? patch.customerId : state.stripe_customer_id,
+    stripe_subscription_id: patch.subscriptionId !== undefined ? patch.subscriptionId : state.stripe_subscription_id,
+    subscription_status: patch.status !== undefined ? patch.status : state.subscription_status,
+    subscription_period_end: patch.periodEnd !== undefined ? patch.periodEnd : state.subscription_period_end,
+    subscription_cancel_at_period_end: patch.cancelAtPeriodEnd ?? state.subscription_cancel_at_period_end ?? false,
+    subscription_grace_until: patch.graceUntil !== undefined ? patch.graceUntil : state.subscription_grace_until,
+  };
+
+  const { error: accountError } = await sb
+    .from("billing_accounts")
+    .upsert({ user_id: state.id, ...next, updated_at: new Date().toISOString() }, { onConflict: "user_id" });
+  if (accountError) throw accountError;
+  const { error: updateError } = await sb.from("profiles").update({ subscription_tier: tier }).eq("id", state.id);
+  if (updateError) throw updateError;
+
+  const { error: historyError } = await sb.from("subscription_history").upsert(
+    {
+      user_id: state.id,
+      stripe_event_id: event.id,
+      event_type: event.type,
+      stripe_subscription_id: next.stripe_subscription_id,
+      status: next.subscription_status,
+      previous_tier: previousTier,
+      tier,
+      period_end: next.subscription_period_end,
+      cancel_at_period_end: next.subscription_cancel_at_period_end,
+      grace_until: next.subscription_grace_until,
+    },
+    { onConflict: "stripe_event_id,user_id", ignoreDuplicates: true }
+  );
+  if (historyError) throw historyError;
+
+  if (tier !== previousTier) {
+    console.log("[stripe-webhook] tier change", {
+      userId: state.id.slice(0, 8),
+      from: previousTier,
+      to: tier,
+      event: event.type,
+    });
+  }
+  return { handled: true, userId: state.id, tier };
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+function planForSubscription(subscription: Stripe.Subscription): PaidPlan | null {
+  for (const item of subscription.items?.data ?? []) {
+    const plan = getPlanForPriceId(item.price?.id);
+    if (plan) return plan;
+  }
+  const metadataPlan = subscription.metadata?.plan ?? "";
+  return isPaidPlan(metadataPlan) ? metadataPlan : null;
+}
+
+function periodEndForSubscription(subscription: Stripe.Subscription): string | null {
+  const ends = (subscription.items?.data ?? [])
+    .map((item) => item.current_period_end)
+    .filter((value): value is number => typeof value === "number");
+  return ends.length ? fromUnix(Math.max(...ends)) : null;
+}
+
+function graceUntil(state: BillingState, now: Date): string {
+  if (state.subscription_grace_until && Date.parse(state.subscription_grace_until) > now.getTime()) {
+    return state.subscription_grace_until;
+  }
+  return new Date(now.getTime() + getGracePeriodDays() * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function handleCheckoutCompleted(
+  sb: SupabaseClient,
+  event: Stripe.Event,
+  session: Stripe.Checkout.Session
+): Promise<StripeEventOutcome> {
+  if (session.mode !== "subscription") return { handled: false, reason: "not a subscription checkout" };
+
+  const state = await loadBillingState(sb, {
+    userId: session.client_reference_id ?? session.metadata?.user_id ?? null,
+    customerId: idOf(session.customer),
+  });
+  if (!state) return { handled: false, reason: "no matching profile" };
+
+  const plan = session.metadata?.plan ?? "";
+  // Delayed payment methods complete checkout before the money arrives; the
+  // subscription events grant the tier once it does
+  const paid = session.payment_status === "paid" || session.payment_status === "no_payment_required";
+
+  return applyBillingPatch(sb, event, state, {
+    customerId: idOf(session.customer) ?? state.stripe_customer_id,
+    subscriptionId: idOf(session.subscription) ?? state.stripe_subscription_id,
+    ...(paid && isPaidPlan(plan)
+      ? { tier: plan, status: "active", graceUntil: null, cancelAtPeriodEnd: false }
+      : {}),
+  });
+}
+
+async function handleSubscriptionChange(
+  sb: SupabaseClient,
+  event: Stripe.Event,
+  subscription: Stripe.Subscription,
+  now: Date
+): Promise<StripeEventOutcome> {
+  const state = await loadBillingState(sb, {
+    userId: subscription.metadata?.user_id ?? null,
+    customerId: idOf(subscription.customer),
+  });
+  if (!state) return { handled: false, reason: "no matching profile" };
+
+  // A late event for an old subscription must not override the one the learner has now
+  const liveStatuses = ["active", "trialing", "past_due"];
+  if (
+    state.stripe_subscription_id &&
+    state.stripe_subscription_id !== subscription.id &&
+    liveStatuses.includes(state.subscription_status ?? "")
+  ) {
+    return { handled: false, userId: state.id, reason: "superseded subscription" };
+  }
+
+  const base: BillingPatch = {
+    customerId: idOf(subscription.customer) ?? state.stripe_customer_id,
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    periodEnd: periodEndForSubscription(subscription) ?? state.subscription_period_end,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  };
+
+  if (event.type === "customer.subscription.deleted") {
+    return applyBillingPatch(sb, event, state, {
+      ...base,
+      tier: "free",
+      status: "canceled",
+      subscriptionId: null,
+      cancelAtPeriodEnd: false,
+      graceUntil: null,
+    });
+  }
+
+  switch (subscription.status) {
+    case "active":
+    case "trialing": {
+      // cancel_at_period_end keeps the paid tier; the deleted event downgrades at period end
+      const plan = planForSubscription(subscription);
+      return applyBillingPatch(sb, event, state, {
+        ...base,
+        ...(plan ? { tier: plan } : {}),
+        graceUntil: null,
+      });
+    }
+    case "past_due":
+      return applyBillingPatch(sb, event, state, { ...base, graceUntil: graceUntil(state, now) });
+    case "unpaid":
+    case "canceled":
+    case "incomplete_expired":
+    case "paused":
+      return applyBillingPatch(sb, event, state, { ...base, tier: "free", graceUntil: null });
+    default:
+      // incomplete: first payment still pending, nothing to grant yet
+      return applyBillingPatch(sb, event, state, base);
+  }
+}
+
+async function handlePaymentFailed(
+  sb: SupabaseClient,
+  event: Stripe.Event,
+  invoice: Stripe.Invoice,
+  now: Date
+): Promise<StripeEventOutcome> {
+  const details = invoice.parent?.subscription_details ?? null;
+  const subscriptionId = idOf(details?.subscription);
+  if (!subscriptionId) return { handled: false, reason: "not a subscription invoice" };
+
+  const state = await loadBillingState(sb, {
+    userId: details?.metadata?.user_id ?? null,
+    customerId: idOf(invoice.customer),
+  });
+  if (!state) return { handled: false, reason: "no matching profile" };
+  if (state.stripe_subscription_id && state.stripe_subscription_id !== subscriptionId) {
+    return { handled: false, userId: state.id, reason: "superseded subscription" };
+  }
+
+  // Keep the paid tier through the grace window while Stripe retries the charge
+  return applyBillingPatch(sb, event, state, {
+    subscriptionId,
+    status: "past_due",
+    graceUntil: graceUntil(state, now),
+  });
+}
+
+/**
+ * Apply a verified Stripe event. Unknown event types and events that cannot
+ * be matched to a learner come back with handled: false.
+ */
+export async function applyStripeEvent(
+  sb: SupabaseClient,
+  event: Stripe.Event,
+  now: Date = new Date()
+): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      return handleCheckoutCompleted(sb, event, event.data.object);
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      return handleSubscriptionChange(sb, event, event.data.object, now);
+    case "invoice.payment_failed":
+      return handlePaymentFailed(sb, event, event.data.object, now);
+    default:
+      return { handled: false, reason: "ignored event type" };
+  }
+}
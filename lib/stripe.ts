@@ -18,3 +18,40 @@ export function getStripeClient(): Stripe {
   stripeClient = new Stripe(secretKey, { apiVersion });
   return stripeClient;
 }
+
+export type PaidPlan = 'plus' | 'premium';
+
+export function isPaidPlan(plan: string): plan is PaidPlan {
+  return plan === 'plus' || plan === 'premium';
+}
+
+export type BillingInterval = 'month' | 'year';
+
+export function isBillingInterval(value: string): value is BillingInterval {
+  return value === 'month' || value === 'year';
+}
+
+const priceEnvByPlan: Record<PaidPlan, Record<BillingInterval, string>> = {
+  plus: { month: 'STRIPE_PLUS_MONTHLY_PRICE_ID', year: 'STRIPE_PLUS_ANNUAL_PRICE_ID' },
+  premium: { month: 'STRIPE_PREMIUM_MONTHLY_PRICE_ID', year: 'STRIPE_PREMIUM_ANNUAL_PRICE_ID' }
+};
+
+export function getPriceIdForPlan(plan: PaidPlan, interval: BillingInterval = 'month'): string | undefined {
+  return process.env[priceEnvByPlan[plan][interval]];
+}
+
+export function getPriceDetails(
+  priceId: string | null | undefined
+): { plan: PaidPlan; interval: BillingInterval } | null {
+  if (!priceId) return null;
+  for (const plan of ['plus', 'premium'] as const) {
+    for (const interval of ['month', 'year'] as const) {
+      if (priceId === getPriceIdForPlan(plan, interval)) return { plan, interval };
+    }
+  }
+  return null;
+}
+
+export function getPlanForPriceId(priceId: string | null | undefined): PaidPlan | null {
+  return getPriceDetails(priceId)?.plan ?? null;
+}
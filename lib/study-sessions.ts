@@ -0,0 +1,374 @@
+// lib/study-sessions.ts
+// Group study sessions: participants and RSVPs, plus the live room's rounds, grading and summary
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AnyQuestion, Lesson } from "@/types";
+import { gradeQuestion, type QuestionAnswer } from "./question-types";
+import { recordActivityEvent } from "./activity-feed";
+
+export const SESSION_RSVPS = ["pending", "accepted", "tentative", "declined"] as const;
+
+export type SessionRsvp = (typeof SESSION_RSVPS)[number];
+
+export type RoomStatus = "scheduled" | "live" | "ended";
+
+// Organizer included, a session holds at most this many people
+export const MAX_SESSION_INVITEES = 8;
+export const MAX_ROOM_ROUNDS = 10;
+// The organizer can open the room this long before the scheduled time
+export const ROOM_OPENS_EARLY_MINUTES = 15;
+
+// Choices for profiles.session_reminder_minutes (null turns reminders off)
+export const SESSION_REMINDER_OPTIONS = [5, 10, 15, 30, 60, 120, 1440] as const;
+export const DEFAULT_SESSION_REMINDER_MINUTES = 30;
+
+export function isSessionReminderMinutes(value: unknown): value is number | null {
+  return value === null || (SESSION_REMINDER_OPTIONS as readonly unknown[]).includes(value);
+}
+
+export type SessionParticipant = {
+  userId: string;
+  role: "organizer" | "invitee";
+  rsvp: SessionRsvp;
+  respondedAt: string | null;
+  username: string | null;
+  fullName: string | null;
+  avatarUrl: string | null;
+};
+
+export type RoomRound = {
+  index: number;
+  topic: string | null;
+  lesson: Lesson;
+  status: "open" | "revealed";
+  answeredBy: string[];
+  openedAt: string;
+  revealedAt: string | null;
+};
+
+export type RoomAnswer = {
+  roundIndex: number;
+  userId: string;
+  answers: (QuestionAnswer | null)[];
+  correct: number;
+  total: number;
+  submittedAt: string;
+};
+
+export type SessionSummary = {
+  rounds: number;
+  questions: number;
+  // Sorted best first
+  participants: { userId: string; correct: number; total: number; roundsAnswered: number }[];
+};
+
+export function isSessionRsvp(value: unknown): value is SessionRsvp {
+  return typeof value === "string" && (SESSION_RSVPS as readonly string[]).includes(value);
+}
+
+/**
+ * Topic for a round: the session's topics in order, wrapping around, or the
+ * subject itself when no topics were given.
+ */
+export function roundTopic(session: { subject: string | null; topics: string[] | null }, index: number): string {
+  const topics = (session.topics ?? []).map((topic) => topic.trim()).filter(Boolean);
+  if (topics.length) return topics[index % topics.length];
+  return session.subject?.trim() || "General review";
+}
+
+/**
+ * Whether the room can be opened now: from a little before the scheduled
+ * time until the planned duration has passed. A live room stays joinable
+ * until the organizer ends it.
+ */
+export function isRoomJoinable(
+  session: { scheduled_at: string; duration_minutes: number; status: string; room_status?: string | null },
+  now = Date.now()
+): boolean {
+  if (session.room_status === "live") return true;
+  if (session.room_status === "ended" || session.status === "cancelled" || session.status === "completed") {
+    return false;
+  }
+  const start = new Date(session.scheduled_at).getTime();
+  if (!Number.isFinite(start)) return false;
+  const opensAt = start - ROOM_OPENS_EARLY_MINUTES * 60_000;
+  const closesAt = start + session.duration_minutes * 60_000;
+  return now >= opensAt && now <= closesAt;
+}
+
+export function gradeRoundAnswers(lesson: Lesson, answers: unknown[]): { correct: number; total: number } {
+  const questions = Array.isArray(lesson.questions) ? lesson.questions : [];
+  let correct = 0;
+  questions.forEach((question, idx) => {
+    if (gradeQuestion(question, answers[idx])) correct += 1;
+  });
+  return { correct, total: questions.length };
+}
+
+// Placeholder answer key for open rounds; the room UI only reads it after reveal
+function hideQuestionAnswer(question: AnyQuestion): AnyQuestion {
+  if (!("type" in question) || !question.type || question.type === "mcq") {
+    return { ...question, correctIndex: -1, explanation: "" };
+  }
+  switch (question.type) {
+    case "multi-select":
+      return { ...question, correctIndices: [], explanation: "" };
+    case "numeric":
+      return { ...question, answer: 0, tolerance: 0, acceptedUnits: undefined, explanation: "" };
+    case "ordering":
+      // Items are stored in the correct order
+      return { ...question, items: [...question.items].sort((a, b) => a.localeCompare(b)), explanation: "" };
+    case "cloze":
+      return { ...question, blanks: question.blanks.map(() => []), explanation: "" };
+  }
+}
+
+/**
+ * The lesson as participants see it while a round is open: every answer key
+ * and explanation is replaced with a placeholder. The full lesson is kept in
+ * study_session_round_keys (service role only) until the round is revealed.
+ */
+export function hideAnswerKey(lesson: Lesson): Lesson {
+  const questions = Array.isArray(lesson.questions) ? lesson.questions : [];
+  return { ...lesson, questions: questions.map(hideQuestionAnswer) };
+}
+
+/** Full lessons of a session's rounds by round index. `sb` must be the service-role client. */
+export async function loadRoundAnswerKeys(
+  sb: SupabaseClient,
+  sessionId: string,
+  roundIndices: number[]
+): Promise<Map<number, Lesson>> {
+  const keys = new Map<number, Lesson>();
+  if (!roundIndices.length) return keys;
+  const { data, error } = await sb
+    .from("study_session_round_keys")
+    .select("round_index, lesson")
+    .eq("session_id", sessionId)
+    .in("round_index", roundIndices);
+  if (error) throw error;
+  for (const row of (data as { round_index: number; lesson: unknown }[] | null) ?? []) {
+    if (row.lesson && typeof row.lesson === "object") keys.set(row.round_index, row.lesson as Lesson);
+  }
+  return keys;
+}
+
+export function normalizeRound(row: Record<string, unknown>): RoomRound | null {
+  const index = typeof row.round_index === "number" ? row.round_index : Number(row.round_index);
+  if (!Number.isInteger(index) || !row.lesson || typeof row.lesson !== "object") return null;
+  return {
+    index,
+    topic: typeof row.topic === "string" ? row.topic : null,
+    lesson: row.lesson as Lesson,
+    status: row.status === "revealed" ? "revealed" : "open",
+    answeredBy: Array.isArray(row.answered_by) ? row.answered_by.filter((id): id is string => typeof id === "string") : [],
+    openedAt: typeof row.opened_at === "string" ? row.opened_at : new Date().toISOString(),
+    revealedAt: typeof row.revealed_at === "string" ? row.revealed_at : null,
+  };
+}
+
+export function normalizeAnswer(row: Record<string, unknown>): RoomAnswer | null {
+  const roundIndex = typeof row.round_index === "number" ? row.round_index : Number(row.round_index);
+  if (!Number.isInteger(roundIndex) || typeof row.user_id !== "string") return null;
+  return {
+    roundIndex,
+    userId: row.user_id,
+    answers: Array.isArray(row.answers) ? (row.answers as (QuestionAnswer | null)[]) : [],
+    correct: typeof row.correct === "number" ? row.correct : 0,
+    total: typeof row.total === "number" ? row.total : 0,
+    submittedAt: typeof row.submitted_at === "string" ? row.submitted_at : new Date().toISOString(),
+  };
+}
+
+/**
+ * Scoreboard over revealed rounds. Open rounds are left out so the summary
+ * never gives away who got the current round right.
+ */
+export function buildSessionSummary(
+  participants: SessionParticipant[],
+  rounds: RoomRound[],
+  answers: RoomAnswer[]
+): SessionSummary {
+  const revealed = new Set(rounds.filter((round) => round.status === "revealed").map((round) => round.index));
+  const totals = new Map<string, { correct: number; total: number; roundsAnswered: number }>();
+  for (const participant of participants) {
+    if (participant.rsvp === "declined") continue;
+    totals.set(participant.userId, { correct: 0, total: 0, roundsAnswered: 0 });
+  }
+  for (const answer of answers) {
+    if (!revealed.has(answer.roundIndex)) continue;
+    const entry = totals.get(answer.userId) ?? { correct: 0, total: 0, roundsAnswered: 0 };
+    entry.correct += answer.correct;
+    entry.total += answer.total;
+    entry.roundsAnswered += 1;
+    totals.set(answer.userId, entry);
+  }
+
+  return {
+    rounds: revealed.size,
+    questions: rounds
+      .filter((round) => revealed.has(round.index))
+      .reduce((sum, round) => sum + (round.lesson.questions?.length ?? 0), 0),
+    participants: Array.from(totals, ([userId, entry]) => ({ userId, ...entry })).sort(
+      (a, b) => b.correct - a.correct || b.roundsAnswered - a.roundsAnswered
+    ),
+  };
+}
+
+/**
+ * Participants with their profiles, grouped by session. Returns an empty map
+ * when the lookup fails so session lists still render.
+ */
+export async function listSessionParticipants(
+  sb: SupabaseClient,
+  sessionIds: string[]
+): Promise<Map<string, SessionParticipant[]>> {
+  const bySession = new Map<string, SessionParticipant[]>();
+  if (!sessionIds.length) return bySession;
+
+  const { data, error } = await sb
+    .from("study_session_participants")
+    .select("session_id, user_id, role, rsvp, responded_at, created_at, profile:user_id(id, username, full_name, avatar_url)")
+    .in("session_id", sessionIds)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[study-sessions] listSessionParticipants error:", error);
+    return bySession;
+  }
+
+  type Row = {
+    session_id: string;
+    user_id: string;
+    role: string;
+    rsvp: string;
+    responded_at: string | null;
+    profile: { username: string | null; full_name: string | null; avatar_url: string | null } | null;
+  };
+  for (const row of (data as unknown as Row[] | null) ?? []) {
+    const list = bySession.get(row.session_id) ?? [];
+    list.push({
+      userId: row.user_id,
+      role: row.role === "organizer" ? "organizer" : "invitee",
+      rsvp: isSessionRsvp(row.rsvp) ? row.rsvp : "pending",
+      respondedAt: row.responded_at,
+      username: row.profile?.username ?? null,
+      fullName: row.profile?.full_name ?? null,
+      avatarUrl: row.profile?.avatar_url ?? null,
+    });
+    bySession.set(row.session_id, list);
+  }
+  return bySession;
+}
+
+/**
+ * Announce that `userId` is going to a session. Keyed by session, so changing
+ * an RSVP back and forth only posts once. `sb` must be the service-role client.
+ */
+export async function recordSessionConfirmed(
+  sb: SupabaseClient,
+  userId: string,
+  session: { id: string; title: string; subject: string | null; scheduled_at: string },
+  withUserId: string | null
+): Promise<void> {
+  await recordActivityEvent(
+    sb,
+    userId,
+    "study_session_confirmed",
+    {
+      sessionId: session.id,
+      title: session.title,
+      subject: session.subject,
+      scheduledAt: session.scheduled_at,
+      withUserId,
+    },
+    `session:${session.id}`
+  );
+}
+
+/**
+ * Set the signed-in invitee's RSVP. Returns the session status afterwards
+ * (the first acceptance confirms a pending session), or null when the caller
+ * isn't an invitee of that session. Throws on other errors.
+ */
+export async function respondToStudySession(
+  sb: SupabaseClient,
+  sessionId: string,
+  rsvp: SessionRsvp
+): Promise<string | null> {
+  const { data, error } = await sb.rpc("respond_to_study_session", { p_session_id: sessionId, p_rsvp: rsvp });
+  if (error) {
+    if (error.message?.includes("Not invited")) return null;
+    throw error;
+  }
+  return typeof data === "string" ? data : "pending";
+}
+
+/**
+ * Lock in a participant's graded answers for a round. `sb` must be the
+ * service-role client. Returns the round status afterwards: "revealed" when
+ * this was the last accepted participant.
+ */
+export async function submitRoundAnswers(
+  sb: SupabaseClient,
+  sessionId: string,
+  roundIndex: number,
+  userId: string,
+  answers: (QuestionAnswer | null)[],
+  score: { correct: number; total: number }
+): Promise<"open" | "revealed"> {
+  const { data, error } = await sb.rpc("submit_study_session_answer", {
+    p_user_id: userId,
+    p_session_id: sessionId,
+    p_round_index: roundIndex,
+    p_answers: answers,
+    p_correct: score.correct,
+    p_total: score.total,
+  });
+  if (error) throw error;
+  return data === "revealed" ? "revealed" : "open";
+}
+
+/**
+ * Keep two users apart after a block: the blocked user is taken off the
+ * blocker's upcoming sessions and the blocker leaves the other's. A session
+ * left with no invitees is called off, so two-person sessions still end up
+ * cancelled (not deleted) and both sides keep their history.
+ */
+export async function separateSessionParticipants(sb: SupabaseClient, userId: string, targetId: string): Promise<void> {
+  const { data, error } = await sb
+    .from("study_sessions")
+    .select("id, organizer_id")
+    .in("organizer_id", [userId, targetId])
+    .in("status", ["pending", "confirmed"])
+    .neq("room_status", "ended");
+  if (error) throw error;
+
+  const sessions = (data as { id: string; organizer_id: string }[] | null) ?? [];
+  const rosters = await listSessionParticipants(
+    sb,
+    sessions.map((session) => session.id)
+  );
+
+  for (const session of sessions) {
+    const roster = rosters.get(session.id) ?? [];
+    const leaving = session.organizer_id === userId ? targetId : userId;
+    if (!roster.some((entry) => entry.userId === leaving)) continue;
+
+    const { error: removeError } = await sb
+      .from("study_session_participants")
+      .delete()
+      .eq("session_id", session.id)
+      .eq("user_id", leaving);
+    if (removeError) throw removeError;
+
+    const invitees = roster.filter((entry) => entry.role === "invitee" && entry.userId !== leaving);
+    if (!invitees.length) {
+      const { error: cancelError } = await sb
+        .from("study_sessions")
+        .update({ status: "cancelled", updated_at: new Date().toISOString() })
+        .eq("id", session.id);
+      if (cancelError) throw cancelError;
+    }
+  }
+}
@@ -0,0 +1,16 @@
+// lib/supabase-service.ts
+// Service-role client for the writes learners must not be able to make themselves (points, streaks,
+// challenge progress, answer keys). Server code only: it bypasses RLS.
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let serviceClient: SupabaseClient | null = null;
+
+export function supabaseService(): SupabaseClient {
+  if (serviceClient) return serviceClient;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_CUSTOM_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  serviceClient = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+  return serviceClient;
+}
@@ -54,7 +54,7 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     summary:
       "Streaks require completing at least 1 full lesson (lesson + quiz) per calendar day. Resets at midnight local time. Premium users get 1 streak freeze per month.",
     details:
-      "STREAK REQUIREMENTS: To maintain your streak, complete at least ONE full lesson (read the lesson content AND submit quiz answers) before midnight in your local timezone. Partially completing a lesson does NOT count—must finish the quiz. TIMEZONE: Streak countdown uses your device's local timezone. If you travel across timezones, streak timing adjusts automatically. VIEWING STREAKS: Check current streak at: /analytics (main dashboard with streak health indicator showing 'Safe' or 'At Risk'), /profile (streak badge), /fyp (streak target tiles showing progress toward today's lesson), /leaderboard (streak rankings). STREAK RESETS: Missing a single day resets your streak to 0. No grace period on Free/Plus plans. PREMIUM STREAK FREEZE: Premium users get 1 streak freeze per month—if you miss a day, streak doesn't reset (automatically applied). Contact support@lernex.net to check freeze status or request manual freeze. BEST PRACTICES: Set daily reminders (enable notifications in /settings), study at consistent time each day, use mobile browser for quick lessons on-the-go, aim for 2-3 lessons to build buffer. RECOVERING STREAKS: If streak resets, start rebuilding immediately—achievements track longest streak and total study days separately. ANALYTICS INSIGHT: /analytics shows 'Active Days (Last 7)' which counts unique study days regardless of streak status—useful for tracking consistency beyond streaks.",
+      "STREAK REQUIREMENTS: To maintain your streak, complete at least ONE full lesson (read the lesson content AND submit quiz answers) before midnight in your local timezone. Partially completing a lesson does NOT count—must finish the quiz. TIMEZONE: Streak countdown uses your device's local timezone. If you travel across timezones, streak timing adjusts automatically. VIEWING STREAKS: Check current streak at: /analytics (main dashboard with streak health indicator showing 'Safe' or 'At Risk'), /profile (streak badge), /fyp (streak target tiles showing progress toward today's lesson), /leaderboard (streak rankings). STREAK RESETS: Missing a day resets your streak to 0 unless you have a streak freeze. STREAK FREEZES: Each freeze covers one missed day and is applied automatically the next time you study. You earn a freeze every 7 streak days and can also buy one for 200 points on /achievements; you can hold up to 2 at a time. STREAK HISTORY: /achievements and /analytics list your past streaks with their lengths and the days a freeze covered. Contact support@lernex.net to check freeze status or request manual freeze. BEST PRACTICES: Set daily reminders (enable notifications in /settings), study at consistent time each day, use mobile browser for quick lessons on-the-go, aim for 2-3 lessons to build buffer. RECOVERING STREAKS: If streak resets, start rebuilding immediately—achievements track longest streak and total study days separately. ANALYTICS INSIGHT: /analytics shows 'Active Days (Last 7)' which counts unique study days regardless of streak status—useful for tracking consistency beyond streaks.",
     tags: ["streak", "daily", "consecutive", "maintain", "reset", "timezone", "freeze", "premium", "recovery", "requirements"],
     priority: 2,
   },
@@ -153,7 +153,7 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     summary:
       "Lernex offers three plans: Free Explorer ($0), Plus Momentum ($5.99/mo, was $12.99), and Premium Creator ($14.99/mo, was $29.99).",
     details:
-      "Visit /pricing to view and manage plans. FREE EXPLORER ($0 forever): Daily AI warmups, foundational quizzes, standard generation limits, community challenges, streaks, basic analytics. PLUS MOMENTUM ($5.99/month, originally $12.99): 3x higher AI generation limits with instant retries, adaptive study paths tuned to skipped topics, exam playlists, interview drills, printable study guides, priority concierge support. PREMIUM CREATOR ($14.99/month, originally $29.99): Unlimited AI generation across collaborative workspaces, immediate access to beta features, deep personalization with spaced repetition, automated coaching, advanced analytics, exportable reports, API integrations. All plans include: 14-day love-it-or-refund guarantee, cancel anytime (2-click process, no emails/calls), secure Stripe payments (cards + digital wallets), no hidden fees. Teams can request custom quotes via /pricing chat. Upgrade instantly unlocks new features without waiting. Prices in USD; taxes may apply by region.",
+      "Visit /pricing to compare plans; manage your plan, billing cycle (monthly or annual), invoices and payment methods at /settings → Billing & Plan. FREE EXPLORER ($0 forever): Daily AI warmups, foundational quizzes, standard generation limits, community challenges, streaks, basic analytics. PLUS MOMENTUM ($5.99/month, originally $12.99): 3x higher AI generation limits with instant retries, adaptive study paths tuned to skipped topics, exam playlists, interview drills, printable study guides, priority concierge support. PREMIUM CREATOR ($14.99/month, originally $29.99): Unlimited AI generation across collaborative workspaces, immediate access to beta features, deep personalization with spaced repetition, automated coaching, advanced analytics, exportable reports, API integrations. All plans include: 14-day love-it-or-refund guarantee, cancel anytime (2-click process, no emails/calls), secure Stripe payments (cards + digital wallets), no hidden fees. Teams can request custom quotes via /pricing chat. Upgrade instantly unlocks new features without waiting. Prices in USD; taxes may apply by region.",
     tags: ["billing", "pricing", "subscription", "invoice", "plans", "free", "plus", "premium", "upgrade", "cost", "payment"],
     priority: 11,
   },
@@ -173,7 +173,7 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     summary:
       "Detailed breakdown: Free has standard limits and core features; Plus adds 3x limits, adaptive paths, priority support; Premium offers unlimited generation and team features.",
     details:
-      "PLAN COMPARISON DETAILS: Free Explorer - good for trying the platform, exploring core features, casual learning. Limitations: standard AI generation limits (sufficient for daily practice but not intensive use), basic analytics only, community support. Plus Momentum ($5.99/mo) - best for serious learners, students in bootcamps/courses, professionals upskilling. Benefits: 3x more lesson generation capacity, adaptive study paths that adjust when you skip topics, exam-focused playlists, interview practice drills, downloadable study guides, priority support (faster response times). Premium Creator ($14.99/mo) - designed for teams, tutors, educators, power users. Benefits: NO generation limits (unlimited lessons), collaborative workspaces for teams, instant beta feature access, advanced spaced repetition algorithms, automated AI coaching, deep analytics with exportable CSV/PDF reports, API access for LMS integration. Both paid plans include: priority email/chat support, advanced playlist collaboration, team analytics dashboards. Billed monthly via Stripe. Annual billing available (contact support for discount). Switch plans anytime—upgrades are instant, downgrades take effect next billing cycle.",
+      "PLAN COMPARISON DETAILS: Free Explorer - good for trying the platform, exploring core features, casual learning. Limitations: standard AI generation limits (sufficient for daily practice but not intensive use), basic analytics only, community support. Plus Momentum ($5.99/mo) - best for serious learners, students in bootcamps/courses, professionals upskilling. Benefits: 3x more lesson generation capacity, adaptive study paths that adjust when you skip topics, exam-focused playlists, interview practice drills, downloadable study guides, priority support (faster response times). Premium Creator ($14.99/mo) - designed for teams, tutors, educators, power users. Benefits: NO generation limits (unlimited lessons), collaborative workspaces for teams, instant beta feature access, advanced spaced repetition algorithms, automated AI coaching, deep analytics with exportable CSV/PDF reports, API access for LMS integration. Both paid plans include: priority email/chat support, advanced playlist collaboration, team analytics dashboards. Billed monthly or annually via Stripe. Switch plans or billing cycle anytime at /settings → Billing & Plan—upgrades are instant (prorated), downgrades take effect next billing cycle.",
     tags: ["pricing", "plans", "comparison", "features", "limits", "free", "plus", "premium", "upgrade", "billing"],
     priority: 11,
   },
@@ -193,7 +193,7 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     summary:
       "Earn 10 points per correct quiz answer. Streaks track consecutive days studied. Both visible on /analytics, /profile, and /leaderboard.",
     details:
-      "POINTS SYSTEM: Earn 10 points for each correct quiz answer (incorrect answers give 0 points). Points are cumulative and never decrease. View total points on: /analytics dashboard, /profile page, /leaderboard rankings. Points motivate consistent learning and enable competition with friends. STREAKS SYSTEM: Streak = consecutive days with at least one completed lesson. Streak increments when you study on consecutive calendar days (timezone: your local time). Missing a day resets streak to 0. View current streak on: /analytics (with streak health indicator), /profile, FYP streak target tiles. Streaks drive daily engagement and healthy study habits. Both metrics feed into: Achievements/badges (e.g., '30-day streak' badge), Leaderboard rankings (can rank by points or streaks), Social features (friends see your streak in shared activity). Maintaining streaks keeps the For You feed recommendation engine active and engaged. Premium users get streak recovery features (1 freeze per month) to prevent loss from travel/emergencies—contact support to enable.",
+      "POINTS SYSTEM: Earn 10 points for each correct quiz answer (incorrect answers give 0 points). Points are cumulative and never decrease. View total points on: /analytics dashboard, /profile page, /leaderboard rankings. Points motivate consistent learning and enable competition with friends. STREAKS SYSTEM: Streak = consecutive days with at least one completed lesson. Streak increments when you study on consecutive calendar days (timezone: your local time). Missing a day resets streak to 0 unless a streak freeze covers it. View current streak on: /analytics (with streak health indicator), /profile, FYP streak target tiles. Streaks drive daily engagement and healthy study habits. Both metrics feed into: Achievements/badges (e.g., '30-day streak' badge), Leaderboard rankings (can rank by points or streaks), Social features (friends see your streak in shared activity). Maintaining streaks keeps the For You feed recommendation engine active and engaged. Premium users get streak recovery features (1 freeze per month) to prevent loss from travel/emergencies—contact support to enable.",
     tags: ["streaks", "points", "gamification", "motivation", "rewards", "daily", "consecutive", "quiz", "score"],
     priority: 3,
   },
@@ -243,7 +243,7 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     summary:
       "Manage your account at /profile and /settings: update name, username, email, avatar, interests, password, and delete account.",
     details:
-      "PROFILE MANAGEMENT at /profile: Update full name, username (must be unique, 3-20 characters), date of birth, bio/interests list. Upload custom avatar image (JPG/PNG, max 5MB, auto-cropped to square). Change email address (requires verification). View account creation date, current plan tier, streak, and points. SETTINGS at /settings: Change password, enable/disable notifications, adjust privacy settings, manage connected OAuth accounts (Google, etc.), view API keys (Premium only), export data (GDPR compliance), delete account. USERNAME VALIDATION: Check username availability at /profile before saving. Usernames are public and used in /friends search and /leaderboard. INTERESTS: Modify learning interests (Math, Science, CS, History, English, Languages) which affect FYP recommendations and placement test scope. ACCOUNT DELETION: Permanent and irreversible. Deletes all lessons, playlists, attempts, analytics. Cancels active subscriptions. Request via /profile → Account section → Delete Account (requires password confirmation). Data removed within 30 days per GDPR. PRIVACY: All personal data is encrypted at rest and in transit. See /privacy for full privacy policy. Change visibility settings to control what friends can see (activity feed, playlists, etc.).",
+      "PROFILE MANAGEMENT at /profile: Update full name, username (must be unique, 3-20 characters), date of birth, bio/interests list. Upload custom avatar image (JPG/PNG, max 5MB, auto-cropped to square). Change email address (requires verification). View account creation date, current plan tier, streak, and points. SETTINGS at /settings: Change password, enable/disable notifications, adjust privacy settings, manage connected OAuth accounts (Google, etc.), view API keys (Premium only), export data (GDPR compliance: 'Download My Data' saves a JSON archive of your profile, attempts, saved lessons, playlists, history, usage and friends; up to 3 exports per hour), delete account. USERNAME VALIDATION: Check username availability at /profile before saving. Usernames are public and used in /friends search and /leaderboard. INTERESTS: Modify learning interests (Math, Science, CS, History, English, Languages) which affect FYP recommendations and placement test scope. ACCOUNT DELETION: Permanent and irreversible. Deletes all lessons, playlists, attempts, analytics. Cancels active subscriptions. Request via /profile → Account section → Delete Account (requires password confirmation). Data removed within 30 days per GDPR. PRIVACY: All personal data is encrypted at rest and in transit. See /privacy for full privacy policy. Change visibility settings to control what friends can see (activity feed, playlists, etc.).",
     tags: ["account", "profile", "settings", "username", "avatar", "email", "password", "delete", "privacy", "manage"],
     priority: 10,
   },
@@ -301,9 +301,9 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     id: "canceling-subscription",
     title: "Canceling subscription - How to downgrade or cancel paid plans",
     summary:
-      "Cancel anytime via /pricing page with 2-click process. Takes effect at end of current billing period. 14-day refund guarantee if unsatisfied.",
+      "Cancel anytime at /settings → Billing & Plan with a 2-click process. Takes effect at end of current billing period. 14-day refund guarantee if unsatisfied.",
     details:
-      "CANCELLATION PROCESS: (1) Visit /pricing page while logged in; (2) Click 'Manage Subscription' button; (3) Click 'Cancel Subscription' and confirm; (4) Cancellation confirmed immediately—you'll receive email confirmation. TIMING: Cancellation takes effect at the END of your current billing period. You retain full plan benefits (Plus or Premium features) until that date, then automatically downgrade to Free Explorer. NO PRORATING: Canceling mid-cycle does NOT refund unused days—you keep access until period ends. REACTIVATION: Can reactivate canceled subscription anytime before period ends by visiting /pricing and clicking 'Resume Subscription'. After period ends, must sign up again (starts new billing cycle). 14-DAY GUARANTEE: If you cancel within 14 days of initial signup, email support@lernex.net with subject 'Refund Request' for full refund—typically processed within 3-5 business days to original payment method. DOWNGRADE BEHAVIOR: After downgrade to Free, you keep all generated lessons, playlists, analytics history, and points/streaks. You'll hit Free tier generation limits going forward. Collaborative playlist permissions may change (Moderator → Viewer if playlist owner is Premium-only). DATA RETENTION: Canceling does NOT delete your account or data. To delete account entirely, visit /settings → Account Deletion (separate from subscription cancellation). SUPPORT: For cancellation issues, email support@lernex.net or use live chat at /support (Mon-Fri 8am-6pm MT).",
+      "CANCELLATION PROCESS: (1) Visit /settings while logged in; (2) Scroll to 'Billing & Plan'; (3) Click 'Cancel plan' and then 'Confirm cancellation'; (4) Cancellation confirmed immediately—you'll receive email confirmation. TIMING: Cancellation takes effect at the END of your current billing period. You retain full plan benefits (Plus or Premium features) until that date, then automatically downgrade to Free Explorer. NO PRORATING: Canceling mid-cycle does NOT refund unused days—you keep access until period ends. REACTIVATION: Can reactivate canceled subscription anytime before period ends at /settings → Billing & Plan by clicking 'Resume subscription'. After period ends, must sign up again (starts new billing cycle). 14-DAY GUARANTEE: If you cancel within 14 days of initial signup, email support@lernex.net with subject 'Refund Request' for full refund—typically processed within 3-5 business days to original payment method. DOWNGRADE BEHAVIOR: After downgrade to Free, you keep all generated lessons, playlists, analytics history, and points/streaks. You'll hit Free tier generation limits going forward. Collaborative playlist permissions may change (Moderator → Viewer if playlist owner is Premium-only). DATA RETENTION: Canceling does NOT delete your account or data. To delete account entirely, visit /settings → Account Deletion (separate from subscription cancellation). SUPPORT: For cancellation issues, email support@lernex.net or use live chat at /support (Mon-Fri 8am-6pm MT).",
     tags: ["cancel", "subscription", "downgrade", "refund", "billing", "stop", "unsubscribe", "pause", "end"],
     priority: 2,
   },
@@ -383,10 +383,30 @@ export const supportKnowledgeBase: SupportKnowledgeEntry[] = [
     summary:
       "Add friends at /friends via search. Send requests, accept/decline. View shared activity feed. Compete on friends-only leaderboard.",
     details:
-      "FINDING FRIENDS: (1) Go to /friends; (2) Use search bar to find users by name or username; (3) Click user to view profile preview; (4) Click 'Add Friend' to send request. FRIEND REQUESTS: Requests remain 'Pending' until recipient accepts or declines. View pending sent requests at /friends → 'Sent Requests'. View pending received requests at /friends → 'Requests' (red notification badge if unread). Requests never expire—recipient can accept/decline anytime. ACCEPTING/DECLINING: Go to /friends → 'Requests' → Click 'Accept' or 'Decline'. Accepting adds user to your friends list and you to theirs (mutual connection). Declining removes request with no notification to sender. Can block user to prevent future requests (feature in progress). CANCELING REQUESTS: Sent a request by mistake → /friends → 'Sent Requests' → Click 'Cancel' next to user. REMOVING FRIENDS: /friends → Friends list → Click friend → 'Remove Friend' → Confirm. Removes mutual connection—both users removed from each other's lists. No notification sent. Can re-add later by sending new request. ACTIVITY FEED: /friends → 'Activity' tab shows recent friend activity: lessons completed, achievement unlocks, streak milestones, leaderboard position changes. Updates in real-time. Use feed for accountability and motivation. FRIENDS-ONLY LEADERBOARD: /leaderboard → Toggle 'Friends Only' filter to see rankings of just your friends (instead of global rankings). Compare streaks and points with your cohort. PRIVACY: Friends can see: your username, avatar, activity feed (if enabled in /settings), leaderboard rankings, shared playlists. Friends CANNOT see: your email, detailed analytics, private playlists (unless explicitly shared), quiz answers. MUTUAL FRIENDS: When viewing user profile in search, see 'Mutual Friends' count—hover to see names of shared connections. FRIEND SUGGESTIONS: /friends → 'Suggestions' tab shows recommended users based on: shared interests (selected same subjects), similar mastery levels, mutual friends. LIMITS: No maximum number of friends. Can add as many as you want. USE CASES: Study buddies (keep each other accountable), classroom cohorts (all students add each other), professional networks (colleagues upskilling together), competitive motivation (race on leaderboard). SUPPORT: Can't find a user → Verify exact username (case-insensitive), ensure they have public profile, check for typos. Friend request not arriving → Check internet connection, ensure recipient hasn't blocked you, wait a few minutes for sync, contact support@lernex.net if persistent.",
+      "FINDING FRIENDS: (1) Go to /friends; (2) Use search bar to find users by name or username; (3) Click user to view profile preview; (4) Click 'Add Friend' to send request. FRIEND REQUESTS: Requests remain 'Pending' until recipient accepts or declines. View pending sent requests at /friends → 'Sent Requests'. View pending received requests at /friends → 'Requests' (red notification badge if unread). Requests never expire—recipient can accept/decline anytime. ACCEPTING/DECLINING: Go to /friends → 'Requests' → Click 'Accept' or 'Decline'. Accepting adds user to your friends list and you to theirs (mutual connection). Declining removes request with no notification to sender. BLOCKING & MUTING: Open a user's profile at /friends → 'Block' or 'Mute'. Blocking removes the friendship, takes the other person out of your upcoming study sessions (and you out of theirs; a two-person session is cancelled), and hides each of you from the other's search, profile view and friends leaderboard—neither side can send requests or invitations. Muting is quiet and one-way: you stay friends, but their requests, study invitations and activity are hidden from you and they are not told. Manage both at /friends → 'Blocked & muted' (unblocking does not restore the friendship). CANCELING REQUESTS: Sent a request by mistake → /friends → 'Sent Requests' → Click 'Cancel' next to user. REMOVING FRIENDS: /friends → Friends list → Click friend → 'Remove Friend' → Confirm. Removes mutual connection—both users removed from each other's lists. No notification sent. Can re-add later by sending new request. ACTIVITY FEED: /friends → 'Recent activity' shows what friends are doing: lessons completed, badge unlocks, streak milestones, playlists published and study sessions confirmed. New events appear in real time; 'Load more' pages back through older ones. Choose what you share at /settings → Friend Activity (turn sharing off entirely or pick event types—turning a type off also hides past events of that type). Muted and blocked users never appear. Use feed for accountability and motivation. GROUP STUDY SESSIONS: /friends → friend → 'Plan session' → pick a time, subject and topics, and optionally invite more friends (up to 8 people per session). Each invitee answers Going, Maybe or Can't go on the session card; the session is confirmed once anyone accepts. The live room opens 15 minutes before the start ('Open room' / 'Join live room' on the card). The organizer starts it, and each round is a short lesson on the next topic that everyone sees at the same time. Everyone locks in their quiz answers, then all answers are revealed together (the organizer can also reveal early) and the organizer moves on to the next round. When the organizer ends the session, the room shows a summary with each person's score. CALENDAR & REMINDERS: 'Add to calendar' on a session card downloads an .ics file; download it again after a change and your calendar app updates the same event (or marks it cancelled). To keep every session in sync automatically, go to /settings → Calendar & Reminders → 'Create calendar link' and subscribe to that private link in Google Calendar, Apple Calendar or Outlook (calendar apps refresh it on their own schedule, often every few hours). Anyone with the link can see your sessions—use 'New link' to revoke the old one or 'Turn off' to stop the feed. The same settings card sets when Lernex shows an in-app reminder before each session (5 minutes to 1 day before, or off); reminders skip sessions you declined. FRIENDS-ONLY LEADERBOARD: /leaderboard → Toggle 'Friends Only' filter to see rankings of just your friends (instead of global rankings). Compare streaks and points with your cohort. PRIVACY: Friends can see: your username, avatar, activity feed (if enabled in /settings), leaderboard rankings, shared playlists. Friends CANNOT see: your email, detailed analytics, private playlists (unless explicitly shared), quiz answers. MUTUAL FRIENDS: When viewing user profile in search, see 'Mutual Friends' count—hover to see names of shared connections. FRIEND SUGGESTIONS: /friends → 'Smart suggestions' shows recommended learners ranked by mutual friends, shared courses and study cohorts, and similar mastery, with a short reason under each (e.g. '3 mutual friends · also studying Calculus 1'). The list refreshes daily. Click the X on a suggestion to hide that person from suggestions for good; blocked and muted users are never suggested. LIMITS: No maximum number of friends. Can add as many as you want. USE CASES: Study buddies (keep each other accountable), classroom cohorts (all students add each other), professional networks (colleagues upskilling together), competitive motivation (race on leaderboard). SUPPORT: Can't find a user → Verify exact username (case-insensitive), ensure they have public profile, check for typos. Friend request not arriving → Check internet connection, ensure recipient hasn't blocked you, wait a few minutes for sync, contact support@lernex.net if persistent.",
     tags: ["friends", "requests", "social", "connections", "activity", "feed", "add", "remove", "search", "accept", "decline"],
     priority: 7,
   },
+  {
+    id: "notifications-center",
+    title: "Notifications - Inbox, email digests, and push",
+    summary:
+      "The bell in the navigation opens your notification inbox. Choose in-app, email (instant, daily or weekly digest) and push per notification type at /settings → Notifications.",
+    details:
+      "INBOX: The bell in the side navigation (or next to your stats on mobile) shows unread notifications with a red badge. Click it to open the inbox; clicking a notification marks it read and takes you to the right page, and 'Mark all read' clears the badge. New notifications appear in real time. WHAT YOU'RE NOTIFIED ABOUT: friend requests, study session invitations, streak warnings (sent in the last few hours of the day when you haven't studied yet and your streak would end), usage resets (your lesson limit is available again after you used it up), and learning paths that have finished building. Requests and invitations from blocked or muted users never notify you. SETTINGS: /settings → Notifications has a row per type with three channels: In-app (the inbox), Email (Off, Instant, Daily digest or Weekly digest—digests bundle everything you haven't already read into one email; weekly digests go out on Mondays) and Push. Click 'Save Notifications' to apply. PUSH: Click 'Enable push' in the same card and allow notifications when the browser asks; push is set up per device and browser, so repeat it on each one. If the browser blocked notifications, re-allow them in the browser's site settings. 'Turn off' stops push on that device. TROUBLESHOOTING: No emails → check the Email column isn't Off, look in spam, and remember digests skip notifications you've already read in the inbox. No push → confirm 'Push notifications are on for this device' in settings and that your operating system isn't silencing the browser.",
+    tags: ["notifications", "inbox", "bell", "email", "digest", "push", "alerts", "settings", "unread"],
+    priority: 6,
+  },
+  {
+    id: "sharing-lessons",
+    title: "Sharing lessons - Permanent lesson links",
+    summary:
+      "Click 'Share' on any lesson card to copy a permanent link to that lesson. Anyone with the link can open the lesson and take its quiz.",
+    details:
+      "HOW TO SHARE: Every lesson card (in /fyp, /generate, playlists and study sessions) has a 'Share' button next to 'Save'. Clicking it stores a copy of the lesson and copies its link (lernex.app/lesson/...) to your clipboard. The link never changes, so sharing the same lesson again gives the same link. WHO CAN OPEN IT: Shared lessons are public, so anyone with the link can read the lesson and take the quiz, including people who aren't signed in. Link previews in chat apps and social media show the lesson title, subject and difficulty. PRIVACY: The 'Why you're seeing this' box is personal and is never included in a shared lesson. POINTS: Signed-in learners earn points for a shared lesson's quiz like any other lesson. BROKEN LINKS: 'Not found' means the link was mistyped or the lesson was never shared - ask the sender to click 'Share' again and send the new link.",
+    tags: ["share", "sharing", "link", "permalink", "lesson", "copy", "url", "preview", "public"],
+    priority: 5,
+  },
 ];
 
 function computeScore(entry: SupportKnowledgeEntry, queryTokens: string[]): number {
@@ -0,0 +1,243 @@
+// lib/telemetry.ts
+// Operational events (latency, retries, fallbacks, cache lookups, OCR tier, compression) for the
+// telemetry_events table. Server-only; events are validated per kind, queued and written in batches
+// with the service role. Billable usage still goes through logUsage in lib/usage.ts.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { supabaseService } from "./supabase-service";
+
+const TELEMETRY_BATCH_SIZE = 50;
+const TELEMETRY_FLUSH_DELAY_MS = 2_000;
+// Drop the oldest events rather than grow without bound while the database is unreachable
+const TELEMETRY_MAX_QUEUE = 1_000;
+
+const label = z.string().min(1).max(80);
+
+export const TELEMETRY_EVENT_SCHEMAS = {
+  // Wall time of one generation step, e.g. a lesson, a level map or one provider call
+  generation_latency: z.object({
+    feature: label,
+    durationMs: z.number().finite().min(0),
+    stage: z.string().max(80).optional(),
+    provider: z.string().max(40).optional(),
+    model: z.string().max(120).optional(),
+    subject: z.string().max(120).nullable().optional(),
+    ok: z.boolean().optional(),
+    status: z.number().int().nullable().optional(),
+  }),
+  // Model calls a generation needed (1 = first try worked)
+  generation_retry: z.object({
+    feature: label,
+    attempts: z.number().int().min(1),
+    provider: z.string().max(40).optional(),
+    status: z.number().int().nullable().optional(),
+    reason: z.string().max(200).optional(),
+  }),
+  // A degraded path served the result: plain-text retry, deterministic map, fallback provider
+  fallback_used: z.object({
+    feature: label,
+    reason: z.string().min(1).max(80),
+    attempts: z.number().int().min(0).optional(),
+    provider: z.string().max(40).optional(),
+  }),
+  cache_lookup: z.object({
+    cache: label,
+    hit: z.boolean(),
+    subject: z.string().max(120).nullable().optional(),
+  }),
+  ocr_tier: z.object({
+    tier: z.enum(["deepseek-low", "deepseek-high", "deepseek-high-pipeline"]),
+    pages: z.number().int().min(1),
+    route: z.string().max(80).optional(),
+  }),
+  // compressedChars / originalChars of a semantic compression pass
+  compression: z.object({
+    model: label,
+    originalChars: z.number().int().min(0),
+    compressedChars: z.number().int().min(0),
+    ratio: z.number().finite().min(0),
+  }),
+} as const;
+
+export type TelemetryKind = keyof typeof TELEMETRY_EVENT_SCHEMAS;
+
+export type TelemetryPayload<K extends TelemetryKind> = z.infer<(typeof TELEMETRY_EVENT_SCHEMAS)[K]>;
+
+export const TELEMETRY_KINDS = Object.keys(TELEMETRY_EVENT_SCHEMAS) as TelemetryKind[];
+
+type TelemetryRow = {
+  kind: TelemetryKind;
+  label: string;
+  value: number | null;
+  user_id: string | null;
+  payload: Record<string, unknown>;
+  created_at: string;
+};
+
+// Grouping dimension and headline number stored next to each payload for rollups
+function describeEvent<K extends TelemetryKind>(kind: K, payload: TelemetryPayload<K>): { label: string; value: number | null } {
+  switch (kind) {
+    case "generation_latency": {
+      const event = payload as TelemetryPayload<"generation_latency">;
+      return { label: event.feature, value: event.durationMs };
+    }
+    case "generation_retry": {
+      const event = payload as TelemetryPayload<"generation_retry">;
+      return { label: event.feature, value: event.attempts };
+    }
+    case "fallback_used": {
+      const event = payload as TelemetryPayload<"fallback_used">;
+      return { label: event.feature, value: event.attempts ?? null };
+    }
+    case "cache_lookup": {
+      const event = payload as TelemetryPayload<"cache_lookup">;
+      return { label: event.cache, value: event.hit ? 1 : 0 };
+    }
+    case "ocr_tier": {
+      const event = payload as TelemetryPayload<"ocr_tier">;
+      return { label: event.tier, value: event.pages };
+    }
+    case "compression": {
+      const event = payload as TelemetryPayload<"compression">;
+      return { label: event.model, value: event.ratio };
+    }
+    default:
+      return { label: "", value: null };
+  }
+}
+
+let missingConfigLogged = false;
+
+function getServiceClient(): SupabaseClient | null {
+  try {
+    return supabaseService();
+  } catch (error) {
+    // Telemetry never throws; without credentials events are dropped, logged once
+    if (!missingConfigLogged) console.error("[telemetry]", error instanceof Error ? error.message : error);
+    missingConfigLogged = true;
+    return null;
+  }
+}
+
+const queue: TelemetryRow[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<void> | null = null;
+
+/**
+ * Queue one event. Invalid payloads are dropped with a warning so telemetry
+ * never breaks the request that reports it. The queue is written once it holds
+ * a full batch or a couple of seconds after the first event; routes that
+ * should not lose events when the function freezes can await flushTelemetry().
+ */
+export function recordTelemetry<K extends TelemetryKind>(
+  kind: K,
+  payload: TelemetryPayload<K>,
+  opts: { userId?: string | null } = {}
+): void {
+  const parsed = TELEMETRY_EVENT_SCHEMAS[kind].safeParse(payload);
+  if (!parsed.success) {
+    console.warn("[telemetry] dropped invalid event", { kind, issues: parsed.error.issues.slice(0, 3) });
+    return;
+  }
+  const data = parsed.data as TelemetryPayload<K>;
+  queue.push({
+    kind,
+    ...describeEvent(kind, data),
+    user_id: opts.userId ?? null,
+    payload: data as Record<string, unknown>,
+    created_at: new Date().toISOString(),
+  });
+  if (queue.length > TELEMETRY_MAX_QUEUE) queue.splice(0, queue.length - TELEMETRY_MAX_QUEUE);
+
+  if (queue.length >= TELEMETRY_BATCH_SIZE) {
+    void flushTelemetry();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      void flushTelemetry();
+    }, TELEMETRY_FLUSH_DELAY_MS);
+    // Don't keep a script or test process alive just for telemetry
+    (flushTimer as { unref?: () => void }).unref?.();
+  }
+}
+
+/** Write every queued event, in batches. Never throws. */
+export async function flushTelemetry(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  // Batches go out one at a time so a flush started mid-write still sees its events written
+  while (inFlight) await inFlight;
+  if (!queue.length) return;
+
+  const service = getServiceClient();
+  if (!service) {
+    queue.length = 0;
+    return;
+  }
+
+  inFlight = (async () => {
+    while (queue.length) {
+      const batch = queue.splice(0, TELEMETRY_BATCH_SIZE);
+      try {
+        const { error } = await service.from("telemetry_events").insert(batch);
+        if (error) console.error("[telemetry] batch insert failed:", error.message ?? error);
+      } catch (error) {
+        console.error("[telemetry] batch insert failed:", error);
+      }
+    }
+  })();
+  try {
+    await inFlight;
+  } finally {
+    inFlight = null;
+  }
+}
+
+// "all" returns one row per kind and label for the whole window
+export type TelemetryBucket = "hour" | "day" | "week" | "all";
+
+export type TelemetryRollupRow = {
+  bucket: string;
+  kind: TelemetryKind;
+  label: string;
+  events: number;
+  valueSum: number;
+  valueAvg: number | null;
+  valueP50: number | null;
+  valueP95: number | null;
+  valueMax: number | null;
+};
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/** Bucketed counts and value statistics from telemetry_rollup(); needs the service role. */
+export async function loadTelemetryRollup(
+  service: SupabaseClient,
+  opts: { since: Date; kind?: TelemetryKind; label?: string; bucket?: TelemetryBucket }
+): Promise<TelemetryRollupRow[]> {
+  const { data, error } = await service.rpc("telemetry_rollup", {
+    p_since: opts.since.toISOString(),
+    p_kind: opts.kind ?? null,
+    p_label: opts.label ?? null,
+    p_bucket: opts.bucket ?? "day",
+  });
+  if (error) throw error;
+  return ((data as Record<string, unknown>[] | null) ?? []).map((row) => ({
+    bucket: String(row.bucket ?? ""),
+    kind: row.kind as TelemetryKind,
+    label: String(row.label ?? ""),
+    events: toNumberOrNull(row.events) ?? 0,
+    valueSum: toNumberOrNull(row.value_sum) ?? 0,
+    valueAvg: toNumberOrNull(row.value_avg),
+    valueP50: toNumberOrNull(row.value_p50),
+    valueP95: toNumberOrNull(row.value_p95),
+    valueMax: toNumberOrNull(row.value_max),
+  }));
+}
@@ -0,0 +1,144 @@
+// lib/timezone.ts
+// Helpers for computing calendar days and windows in a user's IANA timezone
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const MS_PER_DAY = 86_400_000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Validate an IANA timezone name, falling back to UTC when it is missing
+ * or unknown to the runtime.
+ */
+export function normalizeTimeZone(value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) return DEFAULT_TIMEZONE;
+  const tz = value.trim();
+  try {
+    getFormatter(tz);
+    return tz;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: read("year"),
+    month: read("month"),
+    day: read("day"),
+    hour: read("hour"),
+    minute: read("minute"),
+    second: read("second"),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds.
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a local wall-clock midnight in the timezone to a UTC instant.
+ * The second pass corrects for DST transitions between the guess and the result.
+ */
+function zonedMidnightToUtc(year: number, month: number, day: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day);
+  let result = guess - getTimeZoneOffsetMs(new Date(guess), timeZone);
+  result = guess - getTimeZoneOffsetMs(new Date(result), timeZone);
+  return new Date(result);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of the instant in the timezone.
+ */
+export function getLocalDateKey(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Whole calendar days between two YYYY-MM-DD keys (to - from).
+ */
+export function diffDateKeys(from: string, to: string): number {
+  const parse = (key: string) => {
+    const [y, m, d] = key.slice(0, 10).split("-").map(Number);
+    return Date.UTC(y, (m || 1) - 1, d || 1);
+  };
+  return Math.round((parse(to) - parse(from)) / MS_PER_DAY);
+}
+
+/**
+ * Shift a YYYY-MM-DD key by a number of days.
+ */
+export function addDaysToDateKey(key: string, days: number): string {
+  const [y, m, d] = key.slice(0, 10).split("-").map(Number);
+  const shifted = new Date(Date.UTC(y, (m || 1) - 1, (d || 1) + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+/**
+ * Start and end (exclusive) of the local day containing the instant.
+ */
+export function getZonedDayWindow(date: Date, timeZone: string): { key: string; start: Date; end: Date } {
+  const key = getLocalDateKey(date, timeZone);
+  const [y, m, d] = key.split("-").map(Number);
+  const nextKey = addDaysToDateKey(key, 1);
+  const [ny, nm, nd] = nextKey.split("-").map(Number);
+  return {
+    key,
+    start: zonedMidnightToUtc(y, m, d, timeZone),
+    end: zonedMidnightToUtc(ny, nm, nd, timeZone),
+  };
+}
+
+/**
+ * Start and end (exclusive) of the local ISO week (Monday-Sunday) containing the instant.
+ * The key is the local date of the Monday.
+ */
+export function getZonedWeekWindow(date: Date, timeZone: string): { key: string; start: Date; end: Date } {
+  const todayKey = getLocalDateKey(date, timeZone);
+  const [y, m, d] = todayKey.split("-").map(Number);
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay(); // 0 = Sunday
+  const daysSinceMonday = (weekday + 6) % 7;
+  const mondayKey = addDaysToDateKey(todayKey, -daysSinceMonday);
+  const nextMondayKey = addDaysToDateKey(mondayKey, 7);
+  const [my, mm, md] = mondayKey.split("-").map(Number);
+  const [ny, nm, nd] = nextMondayKey.split("-").map(Number);
+  return {
+    key: mondayKey,
+    start: zonedMidnightToUtc(my, mm, md, timeZone),
+    end: zonedMidnightToUtc(ny, nm, nd, timeZone),
+  };
+}
@@ -17,6 +17,8 @@ export interface Database {
           streak: number | null;
           points: number | null;
           total_cost: number;
+          period_cost: number | null;
+          usage_period_start: string | null;
           last_study_date: string | null;
           // New / extended fields:
           full_name: string | null;
@@ -30,6 +32,15 @@ export interface Database {
           dob: string | null;               // date as ISO string
           placement_ready: boolean | null;  // flag to gate /placement
           theme_pref: string | null;        // "auto", "light", or "dark"
+          timezone: string;                 // IANA name, e.g. "America/Los_Angeles"
+          budget_alert_thresholds: number[]; // percent of period budget, e.g. [50, 80, 95]
+          budget_alert_level: number;       // highest threshold crossed this period
+          activity_visibility: "friends" | "private";
+          activity_shared_types: string[];              // activity_events types friends may see
+          session_reminder_minutes: number | null;      // in-app reminder before study sessions; null = off
+          notification_preferences: Json;               // per-type channels, see lib/notifications.ts
+          streak_freezes: number;                       // freeze inventory, see lib/profile-stats.ts
+          role: "user" | "admin";                       // admin gates /admin, see lib/admin.ts
         };
         Insert: {
           id: string;
@@ -37,6 +48,8 @@ export interface Database {
           streak?: number | null;
           points?: number | null;
           total_cost?: number;
+          period_cost?: number | null;
+          usage_period_start?: string | null;
           last_study_date?: string | null;
           full_name?: string | null;
           avatar_url?: string | null;
@@ -49,6 +62,15 @@ export interface Database {
           dob?: string | null;
           placement_ready?: boolean | null;
           theme_pref?: string | null;
+          timezone?: string;
+          budget_alert_thresholds?: number[];
+          budget_alert_level?: number;
+          activity_visibility?: "friends" | "private";
+          activity_shared_types?: string[];
+          session_reminder_minutes?: number | null;
+          notification_preferences?: Json;
+          streak_freezes?: number;
+          role?: "user" | "admin";
         };
         Update: {
           id?: string;
@@ -56,6 +78,8 @@ export interface Database {
           streak?: number | null;
           points?: number | null;
           total_cost?: number;
+          period_cost?: number | null;
+          usage_period_start?: string | null;
           last_study_date?: string | null;
           full_name?: string | null;
           avatar_url?: string | null;
@@ -68,6 +92,15 @@ export interface Database {
           dob?: string | null;
           placement_ready?: boolean | null;
           theme_pref?: string | null;
+          timezone?: string;
+          budget_alert_thresholds?: number[];
+          budget_alert_level?: number;
+          activity_visibility?: "friends" | "private";
+          activity_shared_types?: string[];
+          session_reminder_minutes?: number | null;
+          notification_preferences?: Json;
+          streak_freezes?: number;
+          role?: "user" | "admin";
         };
         Relationships: [];
       };
@@ -219,6 +252,7 @@ export interface Database {
           model_speed: "fast" | "slow";
           generation_tier: "free" | "plus" | "premium";
           position: number;
+          verdict_id: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -231,6 +265,7 @@ export interface Database {
           model_speed: "fast" | "slow";
           generation_tier: "free" | "plus" | "premium";
           position?: number;
+          verdict_id?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -243,6 +278,7 @@ export interface Database {
           model_speed?: "fast" | "slow";
           generation_tier?: "free" | "plus" | "premium";
           position?: number;
+          verdict_id?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -283,6 +319,7 @@ export interface Database {
           description: string | null;
           is_public: boolean | null;
           created_at: string | null;
+          lesson_format: "micro" | "deep-dive" | "worked-example" | "flashcards" | "cheat-sheet";
         };
         Insert: {
           id?: string;
@@ -291,6 +328,7 @@ export interface Database {
           description?: string | null;
           is_public?: boolean | null;
           created_at?: string | null;
+          lesson_format?: "micro" | "deep-dive" | "worked-example" | "flashcards" | "cheat-sheet";
         };
         Update: {
           id?: string;
@@ -299,6 +337,7 @@ export interface Database {
           description?: string | null;
           is_public?: boolean | null;
           created_at?: string | null;
+          lesson_format?: "micro" | "deep-dive" | "worked-example" | "flashcards" | "cheat-sheet";
         };
         Relationships: [];
       };
@@ -326,13 +365,13 @@ export interface Database {
         };
         Relationships: [
           {
-            foreignKeyName?: string;
+            foreignKeyName: "playlist_memberships_playlist_id_fkey";
             columns: ["playlist_id"];
             referencedRelation: "playlists";
             referencedColumns: ["id"];
           },
           {
-            foreignKeyName?: string;
+            foreignKeyName: "playlist_memberships_profile_id_fkey";
             columns: ["profile_id"];
             referencedRelation: "profiles";
             referencedColumns: ["id"];
@@ -720,6 +759,831 @@ export interface Database {
         };
         Relationships: [];
       };
+      user_review_items: {
+        Row: {
+          user_id: string;
+          lesson_id: string;
+          question_index: number;
+          subject: string;
+          topic: string | null;
+          lesson_title: string | null;
+          question: Json;
+          ease_factor: number;
+          interval_days: number;
+          repetitions: number;
+          lapses: number;
+          last_grade: number | null;
+          due_at: string;
+          last_reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          lesson_id: string;
+          question_index: number;
+          subject: string;
+          topic?: string | null;
+          lesson_title?: string | null;
+          question: Json;
+          ease_factor?: number;
+          interval_days?: number;
+          repetitions?: number;
+          lapses?: number;
+          last_grade?: number | null;
+          due_at?: string;
+          last_reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          lesson_id?: string;
+          question_index?: number;
+          subject?: string;
+          topic?: string | null;
+          lesson_title?: string | null;
+          question?: Json;
+          ease_factor?: number;
+          interval_days?: number;
+          repetitions?: number;
+          lapses?: number;
+          last_grade?: number | null;
+          due_at?: string;
+          last_reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      user_challenge_progress: {
+        Row: {
+          user_id: string;
+          challenge_id: string;
+          period_key: string;
+          progress: number;
+          target: number;
+          reward_points: number;
+          completed_at: string | null;
+          claimed_at: string | null;
+          resets_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          challenge_id: string;
+          period_key: string;
+          progress?: number;
+          target: number;
+          reward_points?: number;
+          completed_at?: string | null;
+          claimed_at?: string | null;
+          resets_at: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          challenge_id?: string;
+          period_key?: string;
+          progress?: number;
+          target?: number;
+          reward_points?: number;
+          completed_at?: string | null;
+          claimed_at?: string | null;
+          resets_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      learning_path_jobs: {
+        Row: {
+          id: string;
+          user_id: string;
+          subject: string;
+          course: string;
+          status: "queued" | "running" | "succeeded" | "failed";
+          attempts: number;
+          max_attempts: number;
+          lease_owner: string | null;
+          lease_expires_at: string | null;
+          heartbeat_at: string | null;
+          progress_pct: number;
+          progress_phase: string | null;
+          progress_detail: string | null;
+          fallback: boolean;
+          error: string | null;
+          started_at: string | null;
+          finished_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          subject: string;
+          course: string;
+          status?: "queued" | "running" | "succeeded" | "failed";
+          attempts?: number;
+          max_attempts?: number;
+          lease_owner?: string | null;
+          lease_expires_at?: string | null;
+          heartbeat_at?: string | null;
+          progress_pct?: number;
+          progress_phase?: string | null;
+          progress_detail?: string | null;
+          fallback?: boolean;
+          error?: string | null;
+          started_at?: string | null;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          subject?: string;
+          course?: string;
+          status?: "queued" | "running" | "succeeded" | "failed";
+          attempts?: number;
+          max_attempts?: number;
+          lease_owner?: string | null;
+          lease_expires_at?: string | null;
+          heartbeat_at?: string | null;
+          progress_pct?: number;
+          progress_phase?: string | null;
+          progress_detail?: string | null;
+          fallback?: boolean;
+          error?: string | null;
+          started_at?: string | null;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      attempt_answers: {
+        Row: {
+          user_id: string;
+          lesson_id: string;
+          question_index: number;
+          correct: boolean;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          lesson_id: string;
+          question_index: number;
+          correct: boolean;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          lesson_id?: string;
+          question_index?: number;
+          correct?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      lesson_answer_keys: {
+        Row: {
+          lesson_id: string;
+          user_id: string | null;
+          subject: string | null;
+          topic: string | null;
+          title: string | null;
+          difficulty: string | null;
+          questions: Json;
+          created_at: string;
+        };
+        Insert: {
+          lesson_id: string;
+          user_id?: string | null;
+          subject?: string | null;
+          topic?: string | null;
+          title?: string | null;
+          difficulty?: string | null;
+          questions: Json;
+          created_at?: string;
+        };
+        Update: {
+          lesson_id?: string;
+          user_id?: string | null;
+          subject?: string | null;
+          topic?: string | null;
+          title?: string | null;
+          difficulty?: string | null;
+          questions?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      billing_accounts: {
+        Row: {
+          user_id: string;
+          stripe_customer_id: string | null;
+          stripe_subscription_id: string | null;
+          subscription_status: string | null;          // Stripe subscription status
+          subscription_period_end: string | null;
+          subscription_cancel_at_period_end: boolean;
+          subscription_grace_until: string | null;      // paid tier kept until then after a failed payment
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          stripe_customer_id?: string | null;
+          stripe_subscription_id?: string | null;
+          subscription_status?: string | null;
+          subscription_period_end?: string | null;
+          subscription_cancel_at_period_end?: boolean;
+          subscription_grace_until?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          stripe_customer_id?: string | null;
+          stripe_subscription_id?: string | null;
+          subscription_status?: string | null;
+          subscription_period_end?: string | null;
+          subscription_cancel_at_period_end?: boolean;
+          subscription_grace_until?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      stripe_webhook_events: {
+        Row: {
+          id: string;
+          type: string;
+          status: "processing" | "processed" | "failed";
+          attempts: number;
+          last_error: string | null;
+          received_at: string;
+          processed_at: string | null;
+        };
+        Insert: {
+          id: string;
+          type: string;
+          status?: "processing" | "processed" | "failed";
+          attempts?: number;
+          last_error?: string | null;
+          received_at?: string;
+          processed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          status?: "processing" | "processed" | "failed";
+          attempts?: number;
+          last_error?: string | null;
+          received_at?: string;
+          processed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      subscription_history: {
+        Row: {
+          id: number;
+          user_id: string;
+          stripe_event_id: string;
+          event_type: string;
+          stripe_subscription_id: string | null;
+          status: string | null;
+          previous_tier: string | null;
+          tier: "free" | "plus" | "premium";
+          period_end: string | null;
+          cancel_at_period_end: boolean;
+          grace_until: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: string;
+          stripe_event_id: string;
+          event_type: string;
+          stripe_subscription_id?: string | null;
+          status?: string | null;
+          previous_tier?: string | null;
+          tier: "free" | "plus" | "premium";
+          period_end?: string | null;
+          cancel_at_period_end?: boolean;
+          grace_until?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string;
+          stripe_event_id?: string;
+          event_type?: string;
+          stripe_subscription_id?: string | null;
+          status?: string | null;
+          previous_tier?: string | null;
+          tier?: "free" | "plus" | "premium";
+          period_end?: string | null;
+          cancel_at_period_end?: boolean;
+          grace_until?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      user_blocks: {
+        Row: {
+          blocker_id: string;
+          blocked_id: string;
+          kind: "block" | "mute";
+          created_at: string;
+        };
+        Insert: {
+          blocker_id: string;
+          blocked_id: string;
+          kind?: "block" | "mute";
+          created_at?: string;
+        };
+        Update: {
+          blocker_id?: string;
+          blocked_id?: string;
+          kind?: "block" | "mute";
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      activity_events: {
+        Row: {
+          id: number;
+          user_id: string;
+          type: string;
+          payload: Json;
+          dedupe_key: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: string;
+          type: string;
+          payload?: Json;
+          dedupe_key?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string;
+          type?: string;
+          payload?: Json;
+          dedupe_key?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      friend_suggestions: {
+        Row: {
+          user_id: string;
+          candidate_id: string;
+          score: number;
+          mutual_count: number;
+          shared_cohorts: string[];
+          shared_courses: string[];
+          reasons: string[];
+          computed_at: string;
+        };
+        Insert: {
+          user_id: string;
+          candidate_id: string;
+          score: number;
+          mutual_count?: number;
+          shared_cohorts?: string[];
+          shared_courses?: string[];
+          reasons?: string[];
+          computed_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          candidate_id?: string;
+          score?: number;
+          mutual_count?: number;
+          shared_cohorts?: string[];
+          shared_courses?: string[];
+          reasons?: string[];
+          computed_at?: string;
+        };
+        Relationships: [];
+      };
+      friend_suggestion_dismissals: {
+        Row: {
+          user_id: string;
+          candidate_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          candidate_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          candidate_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      study_session_participants: {
+        Row: {
+          session_id: string;
+          user_id: string;
+          role: "organizer" | "invitee";
+          rsvp: "pending" | "accepted" | "tentative" | "declined";
+          responded_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          session_id: string;
+          user_id: string;
+          role?: "organizer" | "invitee";
+          rsvp?: "pending" | "accepted" | "tentative" | "declined";
+          responded_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          session_id?: string;
+          user_id?: string;
+          role?: "organizer" | "invitee";
+          rsvp?: "pending" | "accepted" | "tentative" | "declined";
+          responded_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      study_session_rounds: {
+        Row: {
+          session_id: string;
+          round_index: number;
+          topic: string | null;
+          lesson: Json;
+          status: "open" | "revealed";
+          answered_by: string[];
+          opened_at: string;
+          revealed_at: string | null;
+        };
+        Insert: {
+          session_id: string;
+          round_index: number;
+          topic?: string | null;
+          lesson: Json;
+          status?: "open" | "revealed";
+          answered_by?: string[];
+          opened_at?: string;
+          revealed_at?: string | null;
+        };
+        Update: {
+          session_id?: string;
+          round_index?: number;
+          topic?: string | null;
+          lesson?: Json;
+          status?: "open" | "revealed";
+          answered_by?: string[];
+          opened_at?: string;
+          revealed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      study_session_round_keys: {
+        Row: {
+          session_id: string;
+          round_index: number;
+          lesson: Json;
+          created_at: string;
+        };
+        Insert: {
+          session_id: string;
+          round_index: number;
+          lesson: Json;
+          created_at?: string;
+        };
+        Update: {
+          session_id?: string;
+          round_index?: number;
+          lesson?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      study_session_answers: {
+        Row: {
+          session_id: string;
+          round_index: number;
+          user_id: string;
+          answers: Json;
+          correct: number;
+          total: number;
+          submitted_at: string;
+        };
+        Insert: {
+          session_id: string;
+          round_index: number;
+          user_id: string;
+          answers?: Json;
+          correct?: number;
+          total?: number;
+          submitted_at?: string;
+        };
+        Update: {
+          session_id?: string;
+          round_index?: number;
+          user_id?: string;
+          answers?: Json;
+          correct?: number;
+          total?: number;
+          submitted_at?: string;
+        };
+        Relationships: [];
+      };
+      calendar_feeds: {
+        Row: {
+          user_id: string;
+          token: string;                                // secret in the iCalendar feed URL
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          token: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          token?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: string;                                 // NotificationType in lib/notifications.ts
+          title: string;
+          body: string | null;
+          url: string | null;
+          data: Json;
+          actor_id: string | null;
+          dedupe_key: string | null;
+          in_app: boolean;
+          email_digest: "daily" | "weekly" | null;
+          emailed_at: string | null;
+          pushed_at: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body?: string | null;
+          url?: string | null;
+          data?: Json;
+          actor_id?: string | null;
+          dedupe_key?: string | null;
+          in_app?: boolean;
+          email_digest?: "daily" | "weekly" | null;
+          emailed_at?: string | null;
+          pushed_at?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: string;
+          title?: string;
+          body?: string | null;
+          url?: string | null;
+          data?: Json;
+          actor_id?: string | null;
+          dedupe_key?: string | null;
+          in_app?: boolean;
+          email_digest?: "daily" | "weekly" | null;
+          emailed_at?: string | null;
+          pushed_at?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent: string | null;
+          created_at: string;
+          last_used_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          endpoint?: string;
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+        };
+        Relationships: [];
+      };
+      streak_history: {
+        Row: {
+          id: number;
+          user_id: string;
+          started_on: string;
+          last_active_on: string;
+          length: number;
+          frozen_days: string[];
+          ended_on: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: string;
+          started_on: string;
+          last_active_on: string;
+          length?: number;
+          frozen_days?: string[];
+          ended_on?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string;
+          started_on?: string;
+          last_active_on?: string;
+          length?: number;
+          frozen_days?: string[];
+          ended_on?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      lesson_permalinks: {
+        Row: {
+          id: string;
+          owner_id: string;
+          lesson_id: string;
+          subject: string;
+          topic: string | null;
+          title: string;
+          difficulty: string | null;
+          lesson: Json;
+          is_public: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          owner_id: string;
+          lesson_id: string;
+          subject: string;
+          topic?: string | null;
+          title: string;
+          difficulty?: string | null;
+          lesson: Json;
+          is_public?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          lesson_id?: string;
+          subject?: string;
+          topic?: string | null;
+          title?: string;
+          difficulty?: string | null;
+          lesson?: Json;
+          is_public?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      admin_audit_log: {
+        Row: {
+          id: number;
+          admin_id: string | null;
+          target_user_id: string | null;
+          action: string;
+          details: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          admin_id?: string | null;
+          target_user_id?: string | null;
+          action: string;
+          details?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          admin_id?: string | null;
+          target_user_id?: string | null;
+          action?: string;
+          details?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      telemetry_events: {
+        Row: {
+          id: number;
+          kind: string;
+          label: string;
+          value: number | null;
+          user_id: string | null;
+          payload: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          kind: string;
+          label?: string;
+          value?: number | null;
+          user_id?: string | null;
+          payload?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          kind?: string;
+          label?: string;
+          value?: number | null;
+          user_id?: string | null;
+          payload?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      lesson_quality_verdicts: {
+        Row: {
+          id: number;
+          user_id: string | null;
+          lesson_id: string;
+          lesson_hash: string;
+          subject: string | null;
+          topic: string | null;
+          feature: string;
+          status: "passed" | "flagged" | "rejected";
+          issues: Json;
+          solver: Json | null;
+          attempt: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id?: string | null;
+          lesson_id: string;
+          lesson_hash: string;
+          subject?: string | null;
+          topic?: string | null;
+          feature?: string;
+          status: "passed" | "flagged" | "rejected";
+          issues?: Json;
+          solver?: Json | null;
+          attempt?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string | null;
+          lesson_id?: string;
+          lesson_hash?: string;
+          subject?: string | null;
+          topic?: string | null;
+          feature?: string;
+          status?: "passed" | "flagged" | "rejected";
+          issues?: Json;
+          solver?: Json | null;
+          attempt?: number;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: { [key: string]: never };
     Functions: {
@@ -767,6 +1631,135 @@ export interface Database {
           most_used_count: number;
         }>;
       };
+      rate_limit_consume: {
+        Args: {
+          p_key: string;
+          p_algorithm: "sliding-window" | "token-bucket";
+          p_limit: number;
+          p_window_ms: number;
+          p_cost?: number;
+        };
+        Returns: Array<{
+          allowed: boolean;
+          remaining: number;
+          reset_ms: number;
+          retry_after_ms: number;
+        }>;
+      };
+      claim_learning_path_job: {
+        Args: {
+          p_subject: string;
+          p_course: string;
+          p_owner: string;
+          p_lease_seconds?: number;
+        };
+        Returns: Array<{
+          job_id: string;
+          status: "queued" | "running" | "succeeded" | "failed";
+          attempts: number;
+          claimed: boolean;
+        }>;
+      };
+      claim_attempt_answers: {
+        Args: {
+          p_lesson_id: string;
+          p_answers: Json;
+        };
+        Returns: Array<{
+          question_index: number;
+          correct: boolean;
+        }>;
+      };
+      is_blocked_between: {
+        Args: { p_a: string; p_b: string };
+        Returns: boolean;
+      };
+      get_hidden_user_ids: {
+        Args: Record<string, never>;
+        Returns: Array<{ user_id: string }>;
+      };
+      record_activity_event: {
+        Args: { p_user_id: string; p_type: string; p_payload?: Json; p_dedupe_key?: string | null };
+        Returns: number | null;
+      };
+      is_study_session_participant: {
+        Args: { p_session_id: string; p_user_id: string };
+        Returns: boolean;
+      };
+      respond_to_study_session: {
+        Args: { p_session_id: string; p_rsvp: string };
+        Returns: string;
+      };
+      submit_study_session_answer: {
+        Args: {
+          p_user_id: string;
+          p_session_id: string;
+          p_round_index: number;
+          p_answers: Json;
+          p_correct: number;
+          p_total: number;
+        };
+        Returns: string;
+      };
+      save_push_subscription: {
+        Args: { p_endpoint: string; p_p256dh: string; p_auth: string; p_user_agent?: string | null };
+        Returns: void;
+      };
+      get_lesson_permalink: {
+        Args: { p_id: string };
+        Returns: Array<{
+          id: string;
+          owner_id: string;
+          lesson_id: string;
+          subject: string;
+          topic: string | null;
+          title: string;
+          difficulty: string | null;
+          lesson: Json;
+          is_public: boolean;
+          created_at: string;
+          updated_at: string;
+        }>;
+      };
+      admin_usage_by_model: {
+        Args: { p_since: string };
+        Returns: Array<{
+          model: string;
+          requests: number;
+          users: number;
+          input_tokens: number;
+          output_tokens: number;
+        }>;
+      };
+      admin_active_user_counts: {
+        Args: Record<string, never>;
+        Returns: Array<{
+          day_active: number;
+          week_active: number;
+          month_active: number;
+          new_last_week: number;
+          total_users: number;
+        }>;
+      };
+      telemetry_rollup: {
+        Args: {
+          p_since: string;
+          p_kind?: string | null;
+          p_label?: string | null;
+          p_bucket?: string;
+        };
+        Returns: Array<{
+          bucket: string;
+          kind: string;
+          label: string;
+          events: number;
+          value_sum: number | null;
+          value_avg: number | null;
+          value_p50: number | null;
+          value_p95: number | null;
+          value_max: number | null;
+        }>;
+      };
     };
     Enums: {
       difficulty: "intro" | "easy" | "medium" | "hard";
@@ -1,4 +1,7 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Difficulty } from "@/types/placement";
+import type { LessonFormat } from "./schema";
+import { calculateDynamicTokenLimit, getLearningPathTokenLimit } from "./dynamic-token-limits";
 
 /**
  * Model pricing per 1M tokens
@@ -10,7 +13,7 @@ import type { SupabaseClient } from "@supabase/supabase-js";
  * Plus/Premium Tier Models (gpt-oss-120b):
  * - Groq: $0.15 input / $0.60 output per 1M tokens
  * - Deepinfra: $0.10 input / $0.40 output per 1M tokens
- * - Fireworks AI: $0.15 input / $0.60 output per 1M tokens (legacy, kept for backwards compatibility)
+ * - Fireworks AI: $0.15 input / $0.60 output per 1M tokens (paid-tier failover provider)
  * - Cerebras: $0.35 input / $0.75 output per 1M tokens (legacy, kept for backwards compatibility)
  * - LightningAI: $0.10 input / $0.40 output per 1M tokens (legacy, kept for backwards compatibility)
  *
@@ -49,7 +52,7 @@ const PRICES: Record<string, { input: number; output: number }> = {
   // Deepinfra gpt-oss-120b (SLOW model for paid tiers)
   "deepinfra/gpt-oss-120b": { input: 0.1 / 1_000_000, output: 0.4 / 1_000_000 },
 
-  // Fireworks AI gpt-oss-120b (legacy - kept for backwards compatibility with old usage logs)
+  // Fireworks AI gpt-oss-120b (failover for paid tiers when Groq is unavailable)
   "fireworksai/gpt-oss-120b": { input: 0.15 / 1_000_000, output: 0.6 / 1_000_000 },
 
   // Cerebras gpt-oss-120b (legacy - kept for backwards compatibility with old usage logs)
@@ -240,6 +243,9 @@ export type UsageLimitCheck = {
   timeUntilResetMs: number;
   reason: string;
   tier: SubscriptionTier;
+  alertThresholds: number[];
+  // Highest soft-limit threshold already crossed this period (0 = none)
+  alertLevel: number;
 };
 
 /**
@@ -253,7 +259,7 @@ export async function canUserGenerate(
   // Get user profile
   const { data: profile, error } = await sb
     .from("profiles")
-    .select("subscription_tier, period_cost, usage_period_start")
+    .select("subscription_tier, period_cost, usage_period_start, budget_alert_thresholds, budget_alert_level")
     .eq("id", userId)
     .maybeSingle();
 
@@ -267,6 +273,8 @@ export async function canUserGenerate(
       timeUntilResetMs: 0,
       reason: "Profile not found",
       tier: "free",
+      alertThresholds: [...DEFAULT_BUDGET_ALERT_THRESHOLDS],
+      alertLevel: 0,
     };
   }
 
@@ -278,6 +286,7 @@ export async function canUserGenerate(
 
   let currentCost = profile.period_cost ?? 0;
   let periodStart = profile.usage_period_start;
+  let alertLevel = typeof profile.budget_alert_level === "number" ? profile.budget_alert_level : 0;
 
   if (expired) {
     // Reset the period
@@ -287,11 +296,13 @@ export async function canUserGenerate(
       .update({
         usage_period_start: now,
         period_cost: 0,
+        budget_alert_level: 0,
       })
       .eq("id", userId);
 
     currentCost = 0;
     periodStart = now;
+    alertLevel = 0;
   }
 
   // Calculate time until reset
@@ -313,6 +324,8 @@ export async function canUserGenerate(
     timeUntilResetMs,
     reason,
     tier,
+    alertThresholds: normalizeAlertThresholds(profile.budget_alert_thresholds),
+    alertLevel,
   };
 }
 
@@ -326,7 +339,7 @@ async function updatePeriodCost(
   costToAdd: number
 ): Promise<void> {
   // First, ensure period is not expired (this call resets if needed)
-  await canUserGenerate(sb, userId);
+  const limitCheck = await canUserGenerate(sb, userId);
 
   // Add to period cost
   const { data: profile } = await sb
@@ -338,10 +351,210 @@ async function updatePeriodCost(
   const currentPeriodCost = profile?.period_cost ?? 0;
   const newPeriodCost = currentPeriodCost + costToAdd;
 
+  // Raise the soft-limit level when this cost crosses a new threshold
+  const percentUsed = limitCheck.limitAmount > 0 ? (newPeriodCost / limitCheck.limitAmount) * 100 : 0;
+  const crossed = highestCrossedThreshold(limitCheck.alertThresholds, percentUsed);
+  const update: Record<string, unknown> = { period_cost: newPeriodCost };
+  if (crossed > limitCheck.alertLevel) {
+    update.budget_alert_level = crossed;
+    console.info("[usage] budget alert threshold crossed", { userId, threshold: crossed });
+  }
+
   await sb
     .from("profiles")
-    .update({ period_cost: newPeriodCost })
+    .update(update)
     .eq("id", userId);
 }
 
+/**
+ * Soft-limit thresholds (percent of the period budget) used when a learner
+ * hasn't configured their own
+ */
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [50, 80, 95] as const;
+export const MAX_BUDGET_ALERT_THRESHOLDS = 5;
+
+/**
+ * Clean up user-supplied thresholds: whole percents between 1 and 100,
+ * de-duplicated and ascending. Falls back to the defaults when empty.
+ */
+export function normalizeAlertThresholds(raw: unknown): number[] {
+  if (!Array.isArray(raw)) return [...DEFAULT_BUDGET_ALERT_THRESHOLDS];
+  const values = Array.from(
+    new Set(
+      raw
+        .map((value) => Math.round(Number(value)))
+        .filter((value) => Number.isFinite(value) && value >= 1 && value <= 100)
+    )
+  ).sort((a, b) => a - b);
+  return values.length ? values.slice(0, MAX_BUDGET_ALERT_THRESHOLDS) : [...DEFAULT_BUDGET_ALERT_THRESHOLDS];
+}
+
+/**
+ * Highest threshold at or below the given usage percent (0 when none)
+ */
+export function highestCrossedThreshold(thresholds: number[], percentUsed: number): number {
+  return thresholds.reduce((max, threshold) => (percentUsed >= threshold && threshold > max ? threshold : max), 0);
+}
+
+// ============================================================================
+// PRE-FLIGHT COST ESTIMATES
+// ============================================================================
+
+/**
+ * Models priced for estimates. Generation uses the fast route, which is the
+ * most expensive provider in each chain, so estimates err on the high side.
+ */
+const ESTIMATE_MODELS = {
+  free: "groq/gpt-oss-20b",
+  paid: "groq/gpt-oss-120b",
+  ocr: "deepseek-ai/DeepSeek-OCR",
+  ttsTranslation: "deepinfra/gpt-oss-20b",
+  tts: "deepinfra/kokoro-82m",
+} as const;
+
+// Prompt overhead per lesson call (system prompt + structured context)
+const LESSON_PROMPT_TOKENS = 1200;
+// Learning path prompts carry the course outline and learner profile
+const LEARNING_PATH_PROMPT_TOKENS = 1500;
+const DEFAULT_LEARNING_PATH_TOPICS = 8;
+// DeepSeek-OCR: one page image in, roughly a page of text out
+const OCR_INPUT_TOKENS_PER_PAGE = 1500;
+const OCR_OUTPUT_TOKENS_PER_PAGE = 700;
+// Uploads plan one lesson per couple of pages
+const UPLOAD_PAGES_PER_LESSON = 2;
+const UPLOAD_PLAN_OUTPUT_TOKENS = 1500;
+const CHARS_PER_TOKEN = 4;
+
+export type CostEstimateRequest =
+  | {
+      action: "lesson";
+      format?: LessonFormat;
+      subject?: string;
+      difficulty?: Difficulty;
+      sourceChars?: number;
+    }
+  | { action: "learning-path"; topicCount?: number }
+  | { action: "upload"; pages: number }
+  | { action: "tts"; chars: number };
+
+export type CostEstimateAction = CostEstimateRequest["action"];
+
+export type CostEstimateLine = {
+  label: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+};
+
+export type CostEstimate = {
+  action: CostEstimateAction;
+  estimatedCost: number;
+  lines: CostEstimateLine[];
+};
+
+function estimateLine(label: string, model: string, inputTokens: number, outputTokens: number): CostEstimateLine {
+  const input = Math.max(0, Math.round(inputTokens));
+  const output = Math.max(0, Math.round(outputTokens));
+  return { label, model, inputTokens: input, outputTokens: output, cost: calcCost(model, input, output) };
+}
+
+/**
+ * Predict what an action will cost before running it. Output tokens use the
+ * same dynamic limits the generators pass as max_tokens, so this is an upper
+ * bound rather than an average.
+ */
+export function estimateActionCost(request: CostEstimateRequest, tier: SubscriptionTier): CostEstimate {
+  const generationModel = tier === "free" ? ESTIMATE_MODELS.free : ESTIMATE_MODELS.paid;
+  const lines: CostEstimateLine[] = [];
+
+  switch (request.action) {
+    case "lesson": {
+      const { maxTokens } = calculateDynamicTokenLimit({
+        subject: request.subject,
+        difficulty: request.difficulty,
+        format: request.format,
+      });
+      const sourceTokens = (request.sourceChars ?? 0) / CHARS_PER_TOKEN;
+      lines.push(estimateLine("Lesson", generationModel, LESSON_PROMPT_TOKENS + sourceTokens, maxTokens));
+      break;
+    }
+    case "learning-path": {
+      const { main } = getLearningPathTokenLimit(false, request.topicCount ?? DEFAULT_LEARNING_PATH_TOPICS);
+      lines.push(estimateLine("Learning path", generationModel, LEARNING_PATH_PROMPT_TOKENS, main));
+      break;
+    }
+    case "upload": {
+      const pages = Math.max(0, Math.floor(request.pages));
+      const lessonCount = Math.ceil(pages / UPLOAD_PAGES_PER_LESSON);
+      const { maxTokens } = calculateDynamicTokenLimit({});
+      lines.push(
+        estimateLine(
+          `Text extraction (${pages} pages)`,
+          ESTIMATE_MODELS.ocr,
+          pages * OCR_INPUT_TOKENS_PER_PAGE,
+          pages * OCR_OUTPUT_TOKENS_PER_PAGE
+        ),
+        estimateLine("Lesson plan", generationModel, LESSON_PROMPT_TOKENS + pages * OCR_OUTPUT_TOKENS_PER_PAGE, UPLOAD_PLAN_OUTPUT_TOKENS),
+        estimateLine(
+          `Lessons (${lessonCount})`,
+          generationModel,
+          lessonCount * (LESSON_PROMPT_TOKENS + UPLOAD_PAGES_PER_LESSON * OCR_OUTPUT_TOKENS_PER_PAGE),
+          lessonCount * maxTokens
+        )
+      );
+      break;
+    }
+    case "tts": {
+      const chars = Math.max(0, Math.floor(request.chars));
+      const textTokens = chars / CHARS_PER_TOKEN;
+      lines.push(
+        estimateLine("Narration rewrite", ESTIMATE_MODELS.ttsTranslation, textTokens + 300, textTokens),
+        // Kokoro is billed per input character (see PRICES)
+        estimateLine("Speech", ESTIMATE_MODELS.tts, chars, 0)
+      );
+      break;
+    }
+  }
+
+  return {
+    action: request.action,
+    estimatedCost: lines.reduce((sum, line) => sum + line.cost, 0),
+    lines,
+  };
+}
+
+export type UsageForecast = {
+  estimate: CostEstimate;
+  remainingBudget: number;
+  // Share of the remaining budget this action would use (0-100+)
+  percentOfRemaining: number;
+  projectedPercentUsed: number;
+  wouldExceed: boolean;
+  // Soft-limit threshold this action would newly cross, if any
+  crossesThreshold: number | null;
+};
+
+/**
+ * Project an estimate onto the learner's current period budget
+ */
+export function forecastUsage(limit: UsageLimitCheck, estimate: CostEstimate): UsageForecast {
+  const remainingBudget = Math.max(0, limit.limitAmount - limit.currentCost);
+  const projectedCost = limit.currentCost + estimate.estimatedCost;
+  const projectedPercentUsed = limit.limitAmount > 0 ? (projectedCost / limit.limitAmount) * 100 : 100;
+  const percentOfRemaining =
+    remainingBudget > 0 ? (estimate.estimatedCost / remainingBudget) * 100 : estimate.estimatedCost > 0 ? 100 : 0;
+  const crossed = highestCrossedThreshold(limit.alertThresholds, projectedPercentUsed);
+  const current = Math.max(limit.alertLevel, highestCrossedThreshold(limit.alertThresholds, limit.percentUsed));
+
+  return {
+    estimate,
+    remainingBudget,
+    percentOfRemaining: Math.round(percentOfRemaining),
+    projectedPercentUsed: Math.round(projectedPercentUsed),
+    wouldExceed: projectedCost > limit.limitAmount,
+    crossesThreshold: crossed > current ? crossed : null,
+  };
+}
+
 
@@ -0,0 +1,62 @@
+// lib/user-blocks.ts
+// Block and mute lookups shared by the friends, profile, leaderboard and study session surfaces
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type BlockKind = "block" | "mute";
+
+export type UserBlock = {
+  blockedId: string;
+  kind: BlockKind;
+  createdAt: string;
+};
+
+export function isBlockKind(value: unknown): value is BlockKind {
+  return value === "block" || value === "mute";
+}
+
+/**
+ * Ids the signed-in user should not see: everyone they blocked or muted, plus
+ * everyone who blocked them. Listings degrade to "nothing hidden" if the
+ * lookup fails so a missing migration never empties the friends page.
+ */
+export async function getHiddenUserIds(sb: SupabaseClient): Promise<Set<string>> {
+  const { data, error } = await sb.rpc("get_hidden_user_ids");
+  if (error) {
+    console.error("[user-blocks] getHiddenUserIds error:", error);
+    return new Set();
+  }
+  const rows = (data as { user_id: string | null }[] | null) ?? [];
+  return new Set(rows.map((row) => row.user_id).filter((id): id is string => !!id));
+}
+
+/**
+ * True when either user has blocked the other. Mutes are one-way and quiet,
+ * so they never count here. `userId` must be the signed-in user of `sb`: the
+ * database only answers for pairs that include the caller. Throws on lookup
+ * errors: callers use this to refuse an action and should not fail open.
+ */
+export async function isBlockedBetween(sb: SupabaseClient, userId: string, otherId: string): Promise<boolean> {
+  const { data, error } = await sb.rpc("is_blocked_between", { p_a: userId, p_b: otherId });
+  if (error) throw error;
+  return data === true;
+}
+
+/** Blocks and mutes the user created, newest first. */
+export async function listUserBlocks(sb: SupabaseClient, userId: string): Promise<UserBlock[]> {
+  const { data, error } = await sb
+    .from("user_blocks")
+    .select("blocked_id, kind, created_at")
+    .eq("blocker_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.error("[user-blocks] listUserBlocks error:", error);
+    return [];
+  }
+  const rows = (data as { blocked_id: string; kind: string; created_at: string }[] | null) ?? [];
+  return rows.map((row) => ({
+    blockedId: row.blocked_id,
+    kind: isBlockKind(row.kind) ? row.kind : "block",
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,93 @@
+// lib/web-push.ts
+// Web Push (RFC 8030) with VAPID authentication (RFC 8292). Pushes carry no payload: the service
+// worker fetches the newest pushed notification from /api/notifications itself, so nothing needs encrypting.
+
+import { createPrivateKey, sign, type KeyObject } from "crypto";
+
+export type VapidConfig = {
+  // Uncompressed P-256 public key, base64url (the same key the browser subscribes with)
+  publicKey: string;
+  // Private scalar, base64url
+  privateKey: string;
+  // Contact for push services, "mailto:..." or an https URL
+  subject: string;
+};
+
+export type PushResult = "sent" | "gone" | "failed";
+
+// Push services accept tokens valid for up to 24 hours
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const DEFAULT_MESSAGE_TTL_SECONDS = 24 * 60 * 60;
+
+let cachedKey: { privateKey: string; key: KeyObject } | null = null;
+
+/** VAPID keys from NEXT_PUBLIC_VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY / VAPID_SUBJECT, or null when push isn't set up. */
+export function vapidConfigFromEnv(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY?.trim();
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim();
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT?.trim() || "mailto:support@lernex.net",
+  };
+}
+
+function signingKey(config: VapidConfig): KeyObject {
+  if (cachedKey?.privateKey === config.privateKey) return cachedKey.key;
+  const point = Buffer.from(config.publicKey, "base64url");
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: config.privateKey,
+      x: point.subarray(1, 33).toString("base64url"),
+      y: point.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  cachedKey = { privateKey: config.privateKey, key };
+  return key;
+}
+
+function vapidToken(endpoint: string, config: VapidConfig): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+    sub: config.subject,
+  })}`;
+  const signature = sign("sha256", Buffer.from(unsigned), { key: signingKey(config), dsaEncoding: "ieee-p1363" });
+  return `${unsigned}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Wake the subscription's service worker. "gone" means the browser dropped
+ * the subscription and it should be deleted.
+ */
+export async function sendPushTickle(
+  endpoint: string,
+  config: VapidConfig,
+  ttlSeconds = DEFAULT_MESSAGE_TTL_SECONDS
+): Promise<PushResult> {
+  try {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        TTL: String(ttlSeconds),
+        Urgency: "normal",
+        Authorization: `vapid t=${vapidToken(endpoint, config)}, k=${config.publicKey}`,
+        "Content-Length": "0",
+      },
+    });
+    if (res.status === 404 || res.status === 410) return "gone";
+    if (!res.ok) {
+      console.warn("[web-push] push service rejected message", { status: res.status });
+      return "failed";
+    }
+    return "sent";
+  } catch (error) {
+    console.error("[web-push] sendPushTickle error:", error);
+    return "failed";
+  }
+}
@@ -94,6 +94,24 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // The service worker must always be revalidated so updates roll out promptly
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Content-Type',
+            value: 'text/javascript',
+          },
+          {
+            key: 'Cache-Control',
+            value: 'no-cache, no-store, must-revalidate',
+          },
+          {
+            key: 'Service-Worker-Allowed',
+            value: '/',
+          },
+        ],
+      },
     ];
   },
 };
@@ -0,0 +1,163 @@
+// public/sw.js
+// Offline support for the FYP feed: caches the app shell and static assets, prefetches
+// pending lessons when the page asks, and serves both when the network is gone.
+// Also shows web push notifications.
+
+const VERSION = "v1";
+const SHELL_CACHE = `lernex-shell-${VERSION}`;
+const LESSON_CACHE = `lernex-lessons-${VERSION}`;
+const OFFLINE_LESSONS_URL = "/api/fyp/offline";
+const SHELL_URLS = ["/fyp", "/manifest.webmanifest", "/icons/icon.svg"];
+const MAX_PREFETCH = 10;
+const PUSH_NOTIFICATIONS_URL = "/api/notifications?limit=1&unread=1&push=1";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => Promise.all(SHELL_URLS.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("lernex-") && key !== SHELL_CACHE && key !== LESSON_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function prefetchLessons(limit) {
+  const count = Math.max(1, Math.min(MAX_PREFETCH, Number(limit) || 5));
+  const res = await fetch(`${OFFLINE_LESSONS_URL}?limit=${count}`, {
+    credentials: "same-origin",
+    cache: "no-store",
+  });
+  if (!res.ok) return 0;
+  const copy = res.clone();
+  const data = await res.json().catch(() => null);
+  const cache = await caches.open(LESSON_CACHE);
+  // Keyed without the query so the feed can read it back with a plain GET
+  await cache.put(OFFLINE_LESSONS_URL, copy);
+  return Array.isArray(data?.lessons) ? data.lessons.length : 0;
+}
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+  if (data.type === "prefetch-lessons") {
+    event.waitUntil(
+      prefetchLessons(data.limit)
+        .then((count) => event.source?.postMessage({ type: "lessons-prefetched", count }))
+        .catch(() => undefined)
+    );
+  } else if (data.type === "clear-lessons") {
+    // Sign-out: do not leave one learner's lessons, or their rendered /fyp page, behind for the next
+    event.waitUntil(
+      Promise.all([
+        caches.delete(LESSON_CACHE),
+        caches.open(SHELL_CACHE).then((cache) => cache.delete("/fyp")),
+      ])
+    );
+  }
+});
+
+async function networkFirst(request, cacheName, cacheKey) {
+  const cache = await caches.open(cacheName);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put(cacheKey, res.clone());
+    return res;
+  } catch (err) {
+    const cached = await cache.match(cacheKey, { ignoreSearch: true });
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) await cache.put(request, res.clone());
+  return res;
+}
+
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok && new URL(request.url).pathname === "/fyp") {
+      await cache.put("/fyp", res.clone());
+    }
+    return res;
+  } catch (err) {
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match("/fyp"));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === OFFLINE_LESSONS_URL) {
+    event.respondWith(networkFirst(request, LESSON_CACHE, OFFLINE_LESSONS_URL));
+    return;
+  }
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/icons/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  }
+});
+
+// Pushes arrive without a payload; the newest pushed notification says what to show
+async function showLatestNotification() {
+  let latest = null;
+  try {
+    const res = await fetch(PUSH_NOTIFICATIONS_URL, { credentials: "same-origin", cache: "no-store" });
+    if (res.ok) {
+      const data = await res.json().catch(() => null);
+      latest = Array.isArray(data?.notifications) ? data.notifications[0] ?? null : null;
+    }
+  } catch {
+    // Offline or signed out: fall back to a generic notification
+  }
+  const title = latest?.title || "Lernex";
+  return self.registration.showNotification(title, {
+    body: latest ? latest.body || "" : "You have new notifications.",
+    tag: latest?.id || "lernex-notification",
+    icon: "/icons/icon.svg",
+    data: { url: latest?.url || "/" },
+  });
+}
+
+self.addEventListener("push", (event) => {
+  event.waitUntil(showLatestNotification());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || "/", self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === target);
+      if (existing) return existing.focus();
+      return self.clients.openWindow(target);
+    })
+  );
+});
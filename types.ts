@@ -1,10 +1,46 @@
 export type Question = {
+  type?: "mcq";
   prompt: string;
   choices: string[];
   correctIndex: number;
   explanation: string;
 };
 
+// Question variants beyond single-answer MCQs (see lib/schema.ts)
+export type NumericQuestion = {
+  type: "numeric";
+  prompt: string;
+  answer: number;
+  tolerance?: number;
+  unit?: string;
+  acceptedUnits?: string[];
+  explanation: string;
+};
+
+export type MultiSelectQuestion = {
+  type: "multi-select";
+  prompt: string;
+  choices: string[];
+  correctIndices: number[];
+  explanation: string;
+};
+
+export type OrderingQuestion = {
+  type: "ordering";
+  prompt: string;
+  items: string[]; // In the correct order
+  explanation: string;
+};
+
+export type ClozeQuestion = {
+  type: "cloze";
+  prompt: string; // Blanks written as ___
+  blanks: string[][]; // Accepted answers per blank
+  explanation: string;
+};
+
+export type AnyQuestion = Question | NumericQuestion | MultiSelectQuestion | OrderingQuestion | ClozeQuestion;
+
 export type Lesson = {
   id: string;
   subject: string;
@@ -12,7 +48,7 @@ export type Lesson = {
   content: string;
   mediaUrl?: string;
   mediaType?: "image" | "video";
-  questions: { prompt: string; choices: string[]; correctIndex: number; explanation: string }[];
+  questions: AnyQuestion[];
   difficulty?: "intro" | "easy" | "medium" | "hard";
   topic?: string; // <- add this if you want it
   nextTopicHint?: string | null;
@@ -24,4 +60,12 @@ export type Lesson = {
     reminders?: string[];
   } | null;
   personaHash?: string | null;
+  // Lesson format (see lib/schema.ts); absent means "micro"
+  format?: "micro" | "deep-dive" | "worked-example" | "flashcards" | "cheat-sheet";
+  problem?: string;
+  steps?: { title: string; explanation: string; work?: string }[];
+  answer?: string;
+  cards?: { front: string; back: string; hint?: string }[];
+  sections?: { heading: string; items: string[] }[];
+  formulas?: string[];
 };